@@ -0,0 +1,46 @@
+/**
+ * Backtest an agent's recorded history against one or more strategies
+ * Usage: bun run scripts/backtest.ts <agentId> [strategies] [limit]
+ *   e.g. bun run scripts/backtest.ts alice academic,degen,rules 500
+ */
+import { getAgentConfig, getBacktestStrategyIds, runBacktest } from "../src/agents";
+
+const [agentId, strategyArg, limitArg] = process.argv.slice(2);
+
+if (!agentId) {
+  console.error("Usage: bun run scripts/backtest.ts <agentId> [strategies] [limit]");
+  process.exit(1);
+}
+
+const config = getAgentConfig(agentId);
+if (!config) {
+  console.error(`Unknown agent: ${agentId}`);
+  process.exit(1);
+}
+
+const strategyIds = strategyArg ? strategyArg.split(",") : getBacktestStrategyIds();
+const report = await runBacktest(config, strategyIds, {
+  limit: limitArg ? parseInt(limitArg) : undefined,
+});
+
+const usdc = (value: bigint) => (Number(value) / 1e6).toFixed(2);
+
+console.log(`\n=== Backtest: ${report.agentId} (${report.snapshotCount} snapshots) ===`);
+console.table(
+  report.results.map((r) => ({
+    strategy: r.strategyId,
+    startNav: usdc(r.startNav),
+    endNav: usdc(r.endNav),
+    pnl: usdc(r.pnl),
+    "pnl %": r.pnlPercent,
+    "max DD %": r.maxDrawdownPercent,
+    trades: r.tradeCount,
+    rejected: r.rejectedActions,
+    "max LTV": r.ltv.maxLTV,
+    excursions: r.ltv.excursions,
+    "min HF": r.ltv.minHealthFactor,
+    liquidations: r.ltv.liquidations,
+  }))
+);
+
+process.exit(0);
@@ -0,0 +1,23 @@
+/**
+ * Run one liquidation keeper pass and exit
+ *
+ * Usage: bun run scripts/keeper.ts [borrower ...]
+ *
+ * With no arguments every borrower in lending_events is checked. Against a
+ * local Hardhat node:
+ *   ARC_TESTNET_RPC_URL=http://127.0.0.1:8545 LENDING_POOL_ADDRESS=0x... \
+ *   USDC_ADDRESS=0x... KEEPER_PRIVATE_KEY=0xac09... bun run scripts/keeper.ts 0xBorrower
+ */
+import { getAddress } from "viem";
+import { closeDatabase } from "../src/db/client";
+import { getLiquidationKeeper } from "../src/keeper";
+
+const borrowers = process.argv.slice(2).map((arg) => getAddress(arg));
+
+const keeper = getLiquidationKeeper();
+const result = await keeper.tick(borrowers.length > 0 ? borrowers : undefined);
+
+console.log("\n=== Liquidation keeper pass ===");
+console.table([result]);
+
+await closeDatabase();
@@ -0,0 +1,194 @@
+/**
+ * FIFO Lot Accounting
+ *
+ * Pure bookkeeping for live agent positions. Each buy opens a tax lot; a sell
+ * consumes the oldest lots first, and the cost of the consumed tokens is the
+ * realized cost basis of the sale. Prices are USDC per whole token
+ * (6 decimals); token amounts have 18 decimals.
+ */
+
+import type { AgentState } from "../types";
+
+const TOKEN_UNIT = 10n ** 18n;
+
+export interface Lot {
+  id?: number;
+  tokenAddress: string;
+  /** Unix ms */
+  openedAt: number;
+  /** Tokens bought in the lot */
+  tokenAmount: bigint;
+  /** Tokens not yet sold */
+  remaining: bigint;
+  /** USDC paid for the whole lot */
+  costUsdc: bigint;
+}
+
+export interface LotFill {
+  lot: Lot;
+  /** Tokens taken from the lot */
+  tokens: bigint;
+  /** Cost of those tokens */
+  cost: bigint;
+  /** Tokens left in the lot afterwards */
+  remaining: bigint;
+}
+
+export interface FifoResult {
+  fills: LotFill[];
+  /** Total cost of the tokens sold */
+  costBasis: bigint;
+  /** Tokens sold that no lot covered (bought before the ledger, or transferred in) */
+  unmatched: bigint;
+}
+
+export interface LotPosition {
+  tokenAddress: string;
+  balance: bigint;
+  costBasis: bigint;
+  /** costBasis per whole token (6 decimals) */
+  avgPrice: bigint;
+  lots: number;
+}
+
+/** The parts of AgentState an agent is valued from */
+export type NavState = Pick<AgentState, "usdcBalance" | "ownTokenPrice" | "ownTokenRevenue" | "holdings" | "loan">;
+
+export interface NavExtras {
+  /** Own tokens in the agent's wallet (18 decimals) */
+  ownTokenBalance?: bigint;
+  /** Creator share of closed streaming sessions not yet settled on-chain */
+  unsettledStreamingRevenue?: bigint;
+}
+
+export interface NavBreakdown {
+  usdcBalance: bigint;
+  /** Wallet holdings at curve price */
+  holdingsValue: bigint;
+  /** Collateral locked in the lending pool at curve price */
+  collateralValue: bigint;
+  /** Own tokens in the wallet at curve price (the agent's share of its market cap) */
+  ownTokenValue: bigint;
+  /** Claimable own-curve revenue plus unsettled streaming revenue */
+  pendingRevenue: bigint;
+  loanDebt: bigint;
+  nav: bigint;
+  unrealizedPnl: bigint;
+}
+
+/**
+ * Cost of the tokens still open in a lot (pro rata, rounded down)
+ */
+export function lotRemainingCost(lot: Lot): bigint {
+  if (lot.tokenAmount <= 0n || lot.remaining <= 0n) return 0n;
+  if (lot.remaining >= lot.tokenAmount) return lot.costUsdc;
+  return (lot.costUsdc * lot.remaining) / lot.tokenAmount;
+}
+
+function byAge(a: Lot, b: Lot): number {
+  return a.openedAt - b.openedAt || (a.id ?? 0) - (b.id ?? 0);
+}
+
+/**
+ * Consume open lots oldest first for a sale of tokensSold
+ */
+export function consumeFifo(lots: Lot[], tokensSold: bigint): FifoResult {
+  const fills: LotFill[] = [];
+  let left = tokensSold;
+  let costBasis = 0n;
+
+  for (const lot of [...lots].sort(byAge)) {
+    if (left <= 0n) break;
+    if (lot.remaining <= 0n) continue;
+
+    const tokens = left < lot.remaining ? left : lot.remaining;
+    const remaining = lot.remaining - tokens;
+    // Closing a lot takes all of its remaining cost so rounding never leaves dust
+    const cost = lotRemainingCost(lot) - lotRemainingCost({ ...lot, remaining });
+
+    fills.push({ lot, tokens, cost, remaining });
+    costBasis += cost;
+    left -= tokens;
+  }
+
+  return { fills, costBasis, unmatched: left > 0n ? left : 0n };
+}
+
+/**
+ * Execution shortfall versus the quote, in basis points of the quote.
+ * Positive means the fill was worse than quoted; null without a quote.
+ */
+export function slippageBps(quoted: bigint | null | undefined, actual: bigint): number | null {
+  if (!quoted || quoted <= 0n) return null;
+  return Number(((quoted - actual) * 1_000_000n) / quoted) / 100;
+}
+
+/**
+ * Open balance and cost per token, keyed by lowercase address
+ */
+export function summarizeLots(lots: Lot[]): Map<string, LotPosition> {
+  const positions = new Map<string, LotPosition>();
+
+  for (const lot of lots) {
+    if (lot.remaining <= 0n) continue;
+    const key = lot.tokenAddress.toLowerCase();
+    const position = positions.get(key) ?? {
+      tokenAddress: lot.tokenAddress,
+      balance: 0n,
+      costBasis: 0n,
+      avgPrice: 0n,
+      lots: 0,
+    };
+    position.balance += lot.remaining;
+    position.costBasis += lotRemainingCost(lot);
+    position.lots += 1;
+    positions.set(key, position);
+  }
+
+  for (const position of positions.values()) {
+    position.avgPrice = position.balance > 0n ? (position.costBasis * TOKEN_UNIT) / position.balance : 0n;
+  }
+
+  return positions;
+}
+
+function collateralPrice(state: NavState, token: string, ownTokenAddress?: string): bigint {
+  const key = token.toLowerCase();
+  if (ownTokenAddress && ownTokenAddress.toLowerCase() === key) return state.ownTokenPrice;
+  const holding = state.holdings.find((h) => h.tokenAddress.toLowerCase() === key);
+  return holding?.currentPrice ?? state.loan?.collateralMarket?.spotPrice ?? 0n;
+}
+
+/**
+ * Net asset value of an agent: USDC, holdings, pledged collateral and own
+ * tokens at curve price, plus revenue owed to it, minus loan debt
+ * (principal and accrued interest)
+ */
+export function computeNav(state: NavState, ownTokenAddress?: string, extras: NavExtras = {}): NavBreakdown {
+  let holdingsValue = 0n;
+  let unrealizedPnl = 0n;
+  for (const holding of state.holdings) {
+    const unit = 10n ** BigInt(holding.tokenDecimals || 18);
+    holdingsValue += (holding.balance * holding.currentPrice) / unit;
+    unrealizedPnl += holding.unrealizedPnl;
+  }
+
+  const loan = state.loan?.active ? state.loan : null;
+  const collateralValue = loan
+    ? (loan.collateralAmount * collateralPrice(state, loan.collateralToken, ownTokenAddress)) / TOKEN_UNIT
+    : 0n;
+  const ownTokenValue = ((extras.ownTokenBalance ?? 0n) * state.ownTokenPrice) / TOKEN_UNIT;
+  const pendingRevenue = state.ownTokenRevenue + (extras.unsettledStreamingRevenue ?? 0n);
+  const loanDebt = loan ? loan.totalDebt ?? loan.borrowedAmount : 0n;
+
+  return {
+    usdcBalance: state.usdcBalance,
+    holdingsValue,
+    collateralValue,
+    ownTokenValue,
+    pendingRevenue,
+    loanDebt,
+    nav: state.usdcBalance + holdingsValue + collateralValue + ownTokenValue + pendingRevenue - loanDebt,
+    unrealizedPnl,
+  };
+}
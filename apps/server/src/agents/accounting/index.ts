@@ -0,0 +1,37 @@
+/**
+ * Trade Accounting Module
+ *
+ * FIFO tax-lot ledger for live agent trades: realized vs unrealized P&L,
+ * slippage against the pre-trade quote, and a daily NAV snapshot that nets
+ * out loan debt. Paper accounts keep their own books (see agents/paper).
+ */
+
+export {
+  consumeFifo,
+  lotRemainingCost,
+  slippageBps,
+  summarizeLots,
+  computeNav,
+  type Lot,
+  type LotFill,
+  type FifoResult,
+  type LotPosition,
+  type NavBreakdown,
+  type NavExtras,
+  type NavState,
+} from "./fifo";
+export {
+  recordBuy,
+  recordSell,
+  loadOpenLots,
+  getRealizedPnl,
+  recordNavSnapshot,
+  getLedgerTrades,
+  getNavSnapshots,
+  getAgentLedger,
+  type TradeFill,
+  type SellRecord,
+  type LedgerPosition,
+  type AgentLedger,
+  type NavSnapshotInput,
+} from "./store";
@@ -0,0 +1,371 @@
+/**
+ * Trade Ledger Store
+ *
+ * Persists live agent trades, their FIFO lots and daily NAV snapshots.
+ * Positions opened before the ledger existed are carried in as an opening
+ * lot at the holdings row's cost basis the first time the token is traded.
+ */
+
+import { and, asc, desc, eq, gte, isNotNull, isNull, sql, type Column } from "drizzle-orm";
+import { db } from "../../db/client";
+import {
+  holdings,
+  ledgerLots,
+  ledgerTrades,
+  navSnapshots,
+  trades,
+  type LedgerLot,
+  type LedgerTrade,
+  type NavSnapshot,
+} from "../../db/schema";
+import type { AgentState } from "../types";
+import {
+  computeNav,
+  consumeFifo,
+  slippageBps,
+  summarizeLots,
+  type FifoResult,
+  type Lot,
+  type LotPosition,
+  type NavBreakdown,
+  type NavState,
+} from "./fifo";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface TradeFill {
+  agentId: string;
+  tokenAddress: string;
+  tokenName?: string;
+  tokenAmount: bigint;
+  usdcAmount: bigint;
+  /** Quoted tokens (buy) or USDC (sell), when a quote was fetched */
+  quoted?: bigint | null;
+  txHash?: string;
+  timestamp?: number;
+}
+
+export interface SellRecord extends FifoResult {
+  tradeId: number;
+  realizedPnl: bigint;
+}
+
+function sameAddress(column: Column, address: string) {
+  return sql`lower(${column}) = ${address.toLowerCase()}`;
+}
+
+function toLot(row: LedgerLot): Lot {
+  return {
+    id: row.id,
+    tokenAddress: row.tokenAddress,
+    openedAt: row.openedAt,
+    tokenAmount: BigInt(row.tokenAmount),
+    remaining: BigInt(row.remaining),
+    costUsdc: BigInt(row.costUsdc),
+  };
+}
+
+async function openLots(executor: Tx | typeof db, agentId: string, tokenAddress?: string): Promise<Lot[]> {
+  const rows = await executor
+    .select()
+    .from(ledgerLots)
+    .where(
+      and(
+        eq(ledgerLots.agentId, agentId),
+        isNull(ledgerLots.closedAt),
+        tokenAddress ? sameAddress(ledgerLots.tokenAddress, tokenAddress) : undefined
+      )
+    )
+    .orderBy(asc(ledgerLots.openedAt), asc(ledgerLots.id));
+  return rows.map(toLot);
+}
+
+/**
+ * Carry a pre-ledger holdings row into the ledger as an opening lot
+ */
+async function ensureOpeningLot(tx: Tx, agentId: string, tokenAddress: string, at: number): Promise<void> {
+  const [anyLot] = await tx
+    .select({ id: ledgerLots.id })
+    .from(ledgerLots)
+    .where(and(eq(ledgerLots.agentId, agentId), sameAddress(ledgerLots.tokenAddress, tokenAddress)))
+    .limit(1);
+  if (anyLot) return;
+
+  const [holding] = await tx
+    .select()
+    .from(holdings)
+    .where(and(eq(holdings.agentId, agentId), sameAddress(holdings.tokenAddress, tokenAddress)))
+    .limit(1);
+  if (!holding || BigInt(holding.balance) <= 0n) return;
+
+  await tx.insert(ledgerLots).values({
+    agentId,
+    tokenAddress: holding.tokenAddress,
+    tradeId: null,
+    tokenAmount: holding.balance,
+    remaining: holding.balance,
+    costUsdc: holding.totalCostBasis,
+    openedAt: holding.updatedAt ? Math.min(holding.updatedAt.getTime(), at) : at,
+  });
+}
+
+/**
+ * Record a buy and open a lot for it. Call before the holdings row is
+ * updated so an existing position is carried in at its old cost basis.
+ */
+export async function recordBuy(fill: TradeFill): Promise<number> {
+  const timestamp = fill.timestamp ?? Date.now();
+
+  return db.transaction(async (tx) => {
+    await ensureOpeningLot(tx, fill.agentId, fill.tokenAddress, timestamp);
+
+    const [trade] = await tx
+      .insert(ledgerTrades)
+      .values({
+        agentId: fill.agentId,
+        tokenAddress: fill.tokenAddress,
+        tokenName: fill.tokenName,
+        side: "buy",
+        tokenAmount: fill.tokenAmount.toString(),
+        usdcAmount: fill.usdcAmount.toString(),
+        quotedAmount: fill.quoted?.toString() ?? null,
+        slippageBps: slippageBps(fill.quoted, fill.tokenAmount),
+        txHash: fill.txHash,
+        timestamp,
+      })
+      .returning({ id: ledgerTrades.id });
+
+    await tx.insert(ledgerLots).values({
+      agentId: fill.agentId,
+      tokenAddress: fill.tokenAddress,
+      tradeId: trade.id,
+      tokenAmount: fill.tokenAmount.toString(),
+      remaining: fill.tokenAmount.toString(),
+      costUsdc: fill.usdcAmount.toString(),
+      openedAt: timestamp,
+    });
+
+    return trade.id;
+  });
+}
+
+/**
+ * Record a sell, consuming lots oldest first. Tokens no lot covers are
+ * booked at zero cost.
+ */
+export async function recordSell(fill: TradeFill): Promise<SellRecord> {
+  const timestamp = fill.timestamp ?? Date.now();
+
+  return db.transaction(async (tx) => {
+    await ensureOpeningLot(tx, fill.agentId, fill.tokenAddress, timestamp);
+
+    const fifo = consumeFifo(await openLots(tx, fill.agentId, fill.tokenAddress), fill.tokenAmount);
+    const realizedPnl = fill.usdcAmount - fifo.costBasis;
+
+    const [trade] = await tx
+      .insert(ledgerTrades)
+      .values({
+        agentId: fill.agentId,
+        tokenAddress: fill.tokenAddress,
+        tokenName: fill.tokenName,
+        side: "sell",
+        tokenAmount: fill.tokenAmount.toString(),
+        usdcAmount: fill.usdcAmount.toString(),
+        quotedAmount: fill.quoted?.toString() ?? null,
+        slippageBps: slippageBps(fill.quoted, fill.usdcAmount),
+        costBasis: fifo.costBasis.toString(),
+        realizedPnl: realizedPnl.toString(),
+        txHash: fill.txHash,
+        timestamp,
+      })
+      .returning({ id: ledgerTrades.id });
+
+    for (const lotFill of fifo.fills) {
+      await tx
+        .update(ledgerLots)
+        .set({
+          remaining: lotFill.remaining.toString(),
+          closedAt: lotFill.remaining === 0n ? timestamp : null,
+        })
+        .where(eq(ledgerLots.id, lotFill.lot.id!));
+    }
+
+    return { ...fifo, tradeId: trade.id, realizedPnl };
+  });
+}
+
+/**
+ * Open lots for an agent, oldest first
+ */
+export async function loadOpenLots(agentId: string, tokenAddress?: string): Promise<Lot[]> {
+  return openLots(db, agentId, tokenAddress);
+}
+
+/**
+ * Cumulative realized P&L, keyed by lowercase token address
+ */
+export async function getRealizedPnl(agentId: string): Promise<Map<string, bigint>> {
+  const rows = await db
+    .select({ tokenAddress: ledgerTrades.tokenAddress, realizedPnl: ledgerTrades.realizedPnl })
+    .from(ledgerTrades)
+    .where(and(eq(ledgerTrades.agentId, agentId), isNotNull(ledgerTrades.realizedPnl)));
+
+  const totals = new Map<string, bigint>();
+  for (const row of rows) {
+    const key = row.tokenAddress.toLowerCase();
+    totals.set(key, (totals.get(key) ?? 0n) + BigInt(row.realizedPnl!));
+  }
+  return totals;
+}
+
+export interface NavSnapshotInput {
+  ownTokenAddress?: string;
+  ownTokenBalance?: bigint;
+  /** Creator share of streaming sessions: all closed ones, and those not yet settled */
+  streamingRevenue?: { total: bigint; unsettled: bigint };
+}
+
+/**
+ * Upsert the NAV snapshot for the state's UTC day
+ */
+export async function recordNavSnapshot(
+  agentId: string,
+  state: NavState & Pick<AgentState, "timestamp">,
+  input: NavSnapshotInput = {}
+): Promise<NavBreakdown> {
+  const nav = computeNav(state, input.ownTokenAddress, {
+    ownTokenBalance: input.ownTokenBalance,
+    unsettledStreamingRevenue: input.streamingRevenue?.unsettled,
+  });
+  let realizedPnl = 0n;
+  for (const pnl of (await getRealizedPnl(agentId)).values()) realizedPnl += pnl;
+
+  const values = {
+    timestamp: state.timestamp,
+    usdcBalance: nav.usdcBalance.toString(),
+    holdingsValue: nav.holdingsValue.toString(),
+    collateralValue: nav.collateralValue.toString(),
+    ownTokenValue: nav.ownTokenValue.toString(),
+    pendingRevenue: nav.pendingRevenue.toString(),
+    loanDebt: nav.loanDebt.toString(),
+    nav: nav.nav.toString(),
+    realizedPnl: realizedPnl.toString(),
+    unrealizedPnl: nav.unrealizedPnl.toString(),
+    streamingRevenue: (input.streamingRevenue?.total ?? 0n).toString(),
+  };
+
+  await db
+    .insert(navSnapshots)
+    .values({ agentId, day: new Date(state.timestamp).toISOString().slice(0, 10), ...values })
+    .onConflictDoUpdate({ target: [navSnapshots.agentId, navSnapshots.day], set: values });
+
+  return nav;
+}
+
+/**
+ * Ledger trades for an agent, newest first
+ */
+export async function getLedgerTrades(agentId: string, limit = 50): Promise<LedgerTrade[]> {
+  return db
+    .select()
+    .from(ledgerTrades)
+    .where(eq(ledgerTrades.agentId, agentId))
+    .orderBy(desc(ledgerTrades.timestamp), desc(ledgerTrades.id))
+    .limit(limit);
+}
+
+/**
+ * Daily NAV snapshots for an agent, oldest first
+ */
+export async function getNavSnapshots(agentId: string, since?: string): Promise<NavSnapshot[]> {
+  return db
+    .select()
+    .from(navSnapshots)
+    .where(and(eq(navSnapshots.agentId, agentId), since ? gte(navSnapshots.day, since) : undefined))
+    .orderBy(asc(navSnapshots.day));
+}
+
+/**
+ * Latest indexed curve price of a token (0 if it never traded)
+ */
+export async function latestTradePrice(tokenAddress: string): Promise<bigint> {
+  const [trade] = await db
+    .select({ price: trades.price })
+    .from(trades)
+    .where(sameAddress(trades.tokenAddress, tokenAddress))
+    .orderBy(desc(trades.timestamp))
+    .limit(1);
+  return trade ? BigInt(trade.price) : 0n;
+}
+
+export interface LedgerPosition extends LotPosition {
+  currentPrice: bigint;
+  marketValue: bigint;
+  unrealizedPnl: bigint;
+  realizedPnl: bigint;
+  openLots: Lot[];
+}
+
+export interface AgentLedger {
+  positions: LedgerPosition[];
+  realizedPnl: bigint;
+  unrealizedPnl: bigint;
+  /** Mean shortfall vs quote per side, over trades that had a quote */
+  slippage: Record<"buy" | "sell", { trades: number; avgBps: number | null }>;
+  trades: LedgerTrade[];
+  nav: NavSnapshot[];
+}
+
+/**
+ * Full ledger view for an agent, with open lots marked to the latest
+ * indexed curve price
+ */
+export async function getAgentLedger(
+  agentId: string,
+  options: { since?: string; tradeLimit?: number } = {}
+): Promise<AgentLedger> {
+  const lots = await loadOpenLots(agentId);
+  const realized = await getRealizedPnl(agentId);
+
+  const positions: LedgerPosition[] = [];
+  for (const [key, position] of summarizeLots(lots)) {
+    const currentPrice = await latestTradePrice(position.tokenAddress);
+    const marketValue = (position.balance * currentPrice) / 10n ** 18n;
+    positions.push({
+      ...position,
+      currentPrice,
+      marketValue,
+      unrealizedPnl: marketValue - position.costBasis,
+      realizedPnl: realized.get(key) ?? 0n,
+      openLots: lots.filter((lot) => lot.tokenAddress.toLowerCase() === key),
+    });
+  }
+
+  const slippageRows = await db
+    .select({
+      side: ledgerTrades.side,
+      trades: sql<number>`count(*)::int`,
+      avgBps: sql<number | null>`avg(${ledgerTrades.slippageBps})`,
+    })
+    .from(ledgerTrades)
+    .where(and(eq(ledgerTrades.agentId, agentId), isNotNull(ledgerTrades.slippageBps)))
+    .groupBy(ledgerTrades.side);
+
+  const slippage: AgentLedger["slippage"] = {
+    buy: { trades: 0, avgBps: null },
+    sell: { trades: 0, avgBps: null },
+  };
+  for (const row of slippageRows) {
+    if (row.side !== "buy" && row.side !== "sell") continue;
+    slippage[row.side] = { trades: row.trades, avgBps: row.avgBps === null ? null : Number(row.avgBps) };
+  }
+
+  return {
+    positions,
+    realizedPnl: [...realized.values()].reduce((sum, pnl) => sum + pnl, 0n),
+    unrealizedPnl: positions.reduce((sum, p) => sum + p.unrealizedPnl, 0n),
+    slippage,
+    trades: await getLedgerTrades(agentId, options.tradeLimit),
+    nav: await getNavSnapshots(agentId, options.since),
+  };
+}
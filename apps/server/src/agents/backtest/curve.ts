@@ -0,0 +1,88 @@
+/**
+ * Off-chain Bonding Curve Model
+ *
+ * Mirrors the sigmoid pricing in BondingCurve.sol so backtests can simulate
+ * fills without touching the chain:
+ *   price(supply) = floor + (ceiling - floor) * sigmoid(supply)
+ *   sigmoid(x)    = 1 / (1 + exp(k * (midpoint - x)))
+ *
+ * Buys use the contract's linear approximation (usdc / spot price) and sells
+ * use the average of the spot price before and after the burn.
+ */
+
+import type { CurveParams } from "./types";
+
+const PRECISION = 10n ** 18n;
+
+/** Same exponent clamp as the contract's MAX_EXP (133e18) */
+const MAX_EXP = 133;
+
+/** CreatorFactory defaults, used when curve parameters cannot be read on-chain */
+export const DEFAULT_CURVE_PARAMS: CurveParams = {
+  floor: 10_000n, // 0.01 USDC
+  ceiling: 10_000_000n, // 10 USDC
+  midpoint: 10_000n * PRECISION, // 10,000 tokens
+  steepness: PRECISION / 100n, // k = 0.01
+};
+
+/**
+ * Sigmoid value at a given supply, scaled to 1e18
+ */
+export function sigmoid(supply: bigint, params: CurveParams): bigint {
+  const k = Number(params.steepness) / 1e18;
+  const diff = Number(params.midpoint - supply) / 1e18;
+  const exponent = k * diff;
+
+  if (exponent > MAX_EXP) return 0n;
+  if (exponent < -MAX_EXP) return PRECISION;
+
+  const value = 1 / (1 + Math.exp(exponent));
+  return BigInt(Math.round(value * 1e18));
+}
+
+/**
+ * Spot price at a given supply (USDC, 6 decimals)
+ */
+export function priceAtSupply(supply: bigint, params: CurveParams): bigint {
+  const range = params.ceiling - params.floor;
+  return params.floor + (range * sigmoid(supply, params)) / PRECISION;
+}
+
+/**
+ * Tokens received for spending usdcIn at the given supply (18 decimals)
+ */
+export function buyQuote(
+  usdcIn: bigint,
+  supply: bigint,
+  params: CurveParams
+): bigint {
+  if (usdcIn <= 0n) return 0n;
+  const price = priceAtSupply(supply, params);
+  if (price === 0n) return 0n;
+  return (usdcIn * PRECISION) / price;
+}
+
+/**
+ * USDC received for burning tokensIn at the given supply (6 decimals)
+ *
+ * The contract additionally caps the payout at the curve's reserve balance;
+ * reserves are not part of the historical record, so that cap is not modelled.
+ */
+export function sellQuote(
+  tokensIn: bigint,
+  supply: bigint,
+  params: CurveParams
+): bigint {
+  if (tokensIn <= 0n || tokensIn > supply) return 0n;
+  const priceAtCurrent = priceAtSupply(supply, params);
+  const priceAtNew = priceAtSupply(supply - tokensIn, params);
+  const avgPrice = (priceAtCurrent + priceAtNew) / 2n;
+  return (tokensIn * avgPrice) / PRECISION;
+}
+
+/**
+ * Value of a token amount at a given price (USDC, 6 decimals)
+ */
+export function tokenValue(amount: bigint, price: bigint): bigint {
+  return (amount * price) / PRECISION;
+}
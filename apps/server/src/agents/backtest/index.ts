@@ -0,0 +1,87 @@
+/**
+ * Backtest Module
+ *
+ * Replays historical decision_logs state snapshots through one or more
+ * strategies and compares P&L, drawdown and LTV behaviour.
+ */
+
+import { decide } from "../runtime/decide";
+import { getStrategy, getStrategyTypes, isRegisteredStrategy } from "../strategies";
+import type { AgentConfig } from "../types";
+import { loadBacktestDataset, type LoadBacktestOptions } from "./loader";
+import { simulateStrategy } from "./simulator";
+import type { BacktestReport, BacktestStrategy } from "./types";
+
+/** Id of the rule-based decide() pipeline used when no LLM is available */
+export const RULES_STRATEGY_ID = "rules";
+
+/**
+ * Ids that can be passed to runBacktest
+ */
+export function getBacktestStrategyIds(): string[] {
+  return [...getStrategyTypes(), RULES_STRATEGY_ID];
+}
+
+/**
+ * Resolve strategy ids to backtestable strategies
+ */
+export function getBacktestStrategies(ids: string[]): BacktestStrategy[] {
+  return ids.map((id) => {
+    if (id === RULES_STRATEGY_ID) {
+      return { id, name: "Rule-based", decide };
+    }
+
+    if (!isRegisteredStrategy(id)) {
+      throw new Error(`Unknown backtest strategy: ${id}`);
+    }
+
+    const strategy = getStrategy(id);
+    return {
+      id,
+      name: strategy.name,
+      decide: (state, config) => strategy.decide(state, config),
+    };
+  });
+}
+
+/**
+ * Load an agent's history and replay it through each strategy
+ */
+export async function runBacktest(
+  config: AgentConfig,
+  strategyIds: string[],
+  options: LoadBacktestOptions = {}
+): Promise<BacktestReport> {
+  const strategies = getBacktestStrategies(strategyIds);
+  const dataset = await loadBacktestDataset(config, options);
+
+  return {
+    agentId: config.id,
+    snapshotCount: dataset.snapshots.length,
+    results:
+      dataset.snapshots.length === 0
+        ? []
+        : strategies.map((strategy) => simulateStrategy(dataset, strategy, config)),
+  };
+}
+
+export { loadBacktestDataset, deserializeSnapshot } from "./loader";
+export type { LoadBacktestOptions } from "./loader";
+export { simulateStrategy, supplyAtPrice } from "./simulator";
+export {
+  DEFAULT_CURVE_PARAMS,
+  priceAtSupply,
+  buyQuote,
+  sellQuote,
+} from "./curve";
+export type {
+  BacktestStrategy,
+  BacktestDataset,
+  BacktestMarket,
+  BacktestResult,
+  BacktestReport,
+  CurveParams,
+  EquityPoint,
+  LtvReport,
+  PricePoint,
+} from "./types";
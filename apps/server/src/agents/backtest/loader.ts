@@ -0,0 +1,229 @@
+/**
+ * Backtest Data Loader
+ *
+ * Loads decision_logs state snapshots plus the trades and price_history
+ * tables, and reads bonding curve parameters so the simulator can price
+ * fills off-chain.
+ */
+
+import { and, asc, eq, gte, inArray, lte } from "drizzle-orm";
+import type { Address } from "viem";
+import { db } from "../../db/client";
+import { decisionLogs, priceHistory, trades } from "../../db/schema";
+import { getBondingCurve } from "../../integrations/chain/contracts";
+import { logger } from "../../utils/logger";
+import type { AgentConfig, AgentState } from "../types";
+import { DEFAULT_CURVE_PARAMS } from "./curve";
+import type { BacktestDataset, CurveParams, PricePoint } from "./types";
+
+export interface LoadBacktestOptions {
+  /** Only replay snapshots at or after this Unix ms timestamp */
+  from?: number;
+  /** Only replay snapshots at or before this Unix ms timestamp */
+  to?: number;
+  /** Maximum number of snapshots to replay (oldest first) */
+  limit?: number;
+}
+
+// Curve parameters are immutable on-chain, so cache them for the process lifetime
+const curveParamsCache = new Map<string, CurveParams>();
+
+/**
+ * Parse a stored state snapshot back into an AgentState.
+ *
+ * Snapshots are stored with bigints serialized as strings (see logger.ts),
+ * so convert the known bigint fields back.
+ */
+export function deserializeSnapshot(json: string): AgentState {
+  const raw = JSON.parse(json);
+  const big = (value: unknown): bigint => BigInt(String(value ?? "0"));
+
+  return {
+    ...raw,
+    usdcBalance: big(raw.usdcBalance),
+    ownTokenPrice: big(raw.ownTokenPrice),
+    ownTokenSupply: big(raw.ownTokenSupply),
+    ownTokenRevenue: big(raw.ownTokenRevenue),
+    holdings: (raw.holdings ?? []).map((h: Record<string, unknown>) => ({
+      ...h,
+      balance: big(h.balance),
+      avgBuyPrice: big(h.avgBuyPrice),
+      totalCostBasis: big(h.totalCostBasis),
+      currentPrice: big(h.currentPrice),
+      unrealizedPnl: big(h.unrealizedPnl),
+    })),
+    loan: raw.loan
+      ? {
+          ...raw.loan,
+          collateralAmount: big(raw.loan.collateralAmount),
+          borrowedAmount: big(raw.loan.borrowedAmount),
+          totalDebt: raw.loan.totalDebt !== undefined ? big(raw.loan.totalDebt) : undefined,
+          liquidationPrice: big(raw.loan.liquidationPrice),
+        }
+      : null,
+    otherCreators: (raw.otherCreators ?? []).map((c: Record<string, unknown>) => ({
+      ...c,
+      currentPrice: big(c.currentPrice),
+      totalSupply: big(c.totalSupply),
+      pendingRevenue: big(c.pendingRevenue),
+    })),
+    pendingTxs: raw.pendingTxs ?? [],
+  } as AgentState;
+}
+
+/**
+ * Read curve parameters from chain, falling back to CreatorFactory defaults
+ */
+export async function readCurveParams(bondingCurveAddress: Address): Promise<CurveParams> {
+  const cached = curveParamsCache.get(bondingCurveAddress.toLowerCase());
+  if (cached) return cached;
+
+  try {
+    const curve = getBondingCurve(bondingCurveAddress);
+    // Sequential to avoid RPC rate limits
+    const floor = (await curve.read.floor()) as bigint;
+    const ceiling = (await curve.read.ceiling()) as bigint;
+    const midpoint = (await curve.read.midpoint()) as bigint;
+    const steepness = (await curve.read.steepness()) as bigint;
+
+    const params = { floor, ceiling, midpoint, steepness };
+    curveParamsCache.set(bondingCurveAddress.toLowerCase(), params);
+    return params;
+  } catch (error) {
+    logger.warn(
+      { bondingCurveAddress, error: error instanceof Error ? error.message : String(error) },
+      "Failed to read curve parameters, using factory defaults"
+    );
+    return DEFAULT_CURVE_PARAMS;
+  }
+}
+
+function pushPoint(
+  prices: Map<string, PricePoint[]>,
+  token: string,
+  point: PricePoint
+): void {
+  const key = token.toLowerCase();
+  let points = prices.get(key);
+  if (!points) {
+    points = [];
+    prices.set(key, points);
+  }
+  points.push(point);
+}
+
+/**
+ * Load everything needed to backtest an agent
+ */
+export async function loadBacktestDataset(
+  config: AgentConfig,
+  options: LoadBacktestOptions = {}
+): Promise<BacktestDataset> {
+  const conditions = [eq(decisionLogs.agentId, config.id)];
+  if (options.from !== undefined) conditions.push(gte(decisionLogs.timestamp, options.from));
+  if (options.to !== undefined) conditions.push(lte(decisionLogs.timestamp, options.to));
+
+  const rows = await db
+    .select({ stateSnapshot: decisionLogs.stateSnapshot })
+    .from(decisionLogs)
+    .where(and(...conditions))
+    .orderBy(asc(decisionLogs.timestamp))
+    .limit(options.limit ?? 10_000);
+
+  const snapshots: AgentState[] = [];
+  for (const row of rows) {
+    try {
+      snapshots.push(deserializeSnapshot(row.stateSnapshot));
+    } catch (error) {
+      logger.warn({ agentId: config.id, error }, "Skipping unreadable state snapshot");
+    }
+  }
+
+  // Collect every token/curve the snapshots reference
+  const tokenToCurve = new Map<string, Address>();
+  tokenToCurve.set(config.tokenAddress.toLowerCase(), config.bondingCurveAddress);
+  for (const s of snapshots) {
+    for (const c of s.otherCreators) {
+      tokenToCurve.set(c.tokenAddress.toLowerCase(), c.bondingCurveAddress);
+    }
+    for (const h of s.holdings) {
+      if (!tokenToCurve.has(h.tokenAddress.toLowerCase())) {
+        tokenToCurve.set(h.tokenAddress.toLowerCase(), h.bondingCurveAddress);
+      }
+    }
+  }
+
+  const curves = new Map<string, CurveParams>();
+  for (const [token, curve] of tokenToCurve) {
+    curves.set(token, await readCurveParams(curve));
+  }
+
+  // Price timeline from on-chain trades and cached price history
+  const prices = new Map<string, PricePoint[]>();
+  const tokens = [...tokenToCurve.keys()];
+  const start = snapshots[0]?.timestamp ?? 0;
+  const end = snapshots[snapshots.length - 1]?.timestamp ?? Date.now();
+
+  if (tokens.length > 0 && snapshots.length > 0) {
+    // Addresses are stored in whatever case they were first seen in, so
+    // match both the lowercase keys and the original checksummed forms
+    const addresses = [
+      ...new Set<string>([
+        ...tokens,
+        config.tokenAddress,
+        ...snapshots.flatMap((s) => s.otherCreators.map((c) => c.tokenAddress)),
+        ...snapshots.flatMap((s) => s.holdings.map((h) => h.tokenAddress)),
+      ]),
+    ];
+
+    const tradeRows = await db
+      .select({ tokenAddress: trades.tokenAddress, price: trades.price, timestamp: trades.timestamp })
+      .from(trades)
+      .where(and(inArray(trades.tokenAddress, addresses), lte(trades.timestamp, end)))
+      .orderBy(asc(trades.timestamp));
+
+    for (const t of tradeRows) {
+      pushPoint(prices, t.tokenAddress, { timestamp: t.timestamp, price: BigInt(t.price) });
+    }
+
+    const historyRows = await db
+      .select({
+        tokenAddress: priceHistory.tokenAddress,
+        price: priceHistory.price,
+        timestamp: priceHistory.timestamp,
+      })
+      .from(priceHistory)
+      .where(
+        and(
+          inArray(priceHistory.tokenAddress, addresses),
+          lte(priceHistory.timestamp, new Date(end))
+        )
+      );
+
+    for (const p of historyRows) {
+      pushPoint(prices, p.tokenAddress, { timestamp: p.timestamp.getTime(), price: BigInt(p.price) });
+    }
+
+    for (const points of prices.values()) {
+      points.sort((a, b) => a.timestamp - b.timestamp);
+    }
+  }
+
+  logger.info(
+    {
+      agentId: config.id,
+      snapshots: snapshots.length,
+      tokens: tokens.length,
+      pricePoints: [...prices.values()].reduce((n, p) => n + p.length, 0),
+      from: start,
+      to: end,
+    },
+    "Backtest dataset loaded"
+  );
+
+  return {
+    agentId: config.id,
+    snapshots,
+    market: { tokenToCurve, curves, prices },
+  };
+}
@@ -0,0 +1,714 @@
+/**
+ * Backtest Simulator
+ *
+ * Replays historical state snapshots cycle by cycle through a strategy and
+ * fills the resulting actions against an off-chain model of the bonding
+ * curves and LendingPool. Pure and deterministic - all data is loaded up
+ * front, so the same dataset always produces the same report.
+ *
+ * Market model:
+ * - Each cycle's recorded supply/price comes from the snapshot, falling back
+ *   to the trades/price_history timeline when a token is missing from it
+ * - Simulated fills move supply away from the recorded path by the difference
+ *   between simulated and recorded holdings, so large buys pay their own slippage
+ * - Loans follow LendingPool rules: collateral valued at floor price, 70% max
+ *   LTV, 85% liquidation threshold, 10% APR simple interest
+ */
+
+import type { Address } from "viem";
+import type {
+  Action,
+  AgentConfig,
+  AgentState,
+  BorrowParams,
+  BuyTokenParams,
+  DepositCollateralParams,
+  Holding,
+  LoanInfo,
+  OtherCreator,
+  RepayParams,
+  SellTokenParams,
+  WithdrawCollateralParams,
+} from "../types";
+import {
+  DEFAULT_CURVE_PARAMS,
+  buyQuote,
+  priceAtSupply,
+  sellQuote,
+  tokenValue,
+} from "./curve";
+import type {
+  BacktestDataset,
+  BacktestMarket,
+  BacktestResult,
+  BacktestStrategy,
+  CurveParams,
+  EquityPoint,
+  PricePoint,
+} from "./types";
+
+// LendingPool constants (basis points)
+const MAX_LTV_BPS = 7000n;
+const LIQUIDATION_THRESHOLD_BPS = 8500n;
+const INTEREST_RATE_BPS = 1000n;
+const BASIS_POINTS = 10000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+// ============================================
+// Simulated Portfolio
+// ============================================
+
+interface SimPosition {
+  tokenAddress: Address;
+  bondingCurveAddress: Address;
+  tokenName: string;
+  balance: bigint;
+  costBasis: bigint;
+}
+
+interface SimLoan {
+  collateralToken: Address;
+  collateralAmount: bigint;
+  borrowed: bigint;
+  interest: bigint;
+  lastUpdate: number;
+}
+
+interface SimPortfolio {
+  usdc: bigint;
+  positions: Map<string, SimPosition>;
+  loan: SimLoan | null;
+  /** Own-token revenue the simulation has already claimed */
+  claimedRevenue: bigint;
+}
+
+/**
+ * Per-cycle view of the market as the simulated agent sees it
+ */
+interface CycleMarket {
+  timestamp: number;
+  /** Token (lowercase) → supply after simulated fills */
+  supply: Map<string, bigint>;
+}
+
+// ============================================
+// Market Helpers
+// ============================================
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+function curveFor(market: BacktestMarket, token: string): CurveParams {
+  return market.curves.get(key(token)) ?? DEFAULT_CURVE_PARAMS;
+}
+
+/**
+ * Latest recorded price at or before a timestamp
+ */
+function priceAt(points: PricePoint[] | undefined, timestamp: number): bigint | null {
+  if (!points || points.length === 0) return null;
+
+  let lo = 0;
+  let hi = points.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].timestamp <= timestamp) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+
+  return found === -1 ? null : points[found].price;
+}
+
+/**
+ * Invert the sigmoid to find the supply that produces a given price
+ */
+export function supplyAtPrice(price: bigint, params: CurveParams): bigint {
+  const range = Number(params.ceiling - params.floor);
+  const s = Number(price - params.floor) / range;
+  if (s <= 0) return 0n;
+  if (s >= 1) return params.midpoint * 2n;
+
+  const k = Number(params.steepness) / 1e18;
+  const midpoint = Number(params.midpoint) / 1e18;
+  const supply = midpoint - Math.log(1 / s - 1) / k;
+  if (supply <= 0) return 0n;
+  return BigInt(Math.round(supply * 1e6)) * 10n ** 12n;
+}
+
+/**
+ * Recorded supply for every token the cycle knows about
+ */
+function recordedSupplies(
+  state: AgentState,
+  config: AgentConfig,
+  market: BacktestMarket,
+  lastKnown: Map<string, bigint>
+): Map<string, bigint> {
+  const supplies = new Map<string, bigint>();
+
+  supplies.set(key(config.tokenAddress), state.ownTokenSupply);
+  for (const c of state.otherCreators) {
+    supplies.set(key(c.tokenAddress), c.totalSupply);
+  }
+
+  // Tokens not in the snapshot: derive supply from the price timeline
+  for (const [token, points] of market.prices) {
+    if (supplies.has(token)) continue;
+    const price = priceAt(points, state.timestamp);
+    if (price !== null) {
+      supplies.set(token, supplyAtPrice(price, curveFor(market, token)));
+    } else if (lastKnown.has(token)) {
+      supplies.set(token, lastKnown.get(token)!);
+    }
+  }
+
+  for (const [token, supply] of supplies) {
+    lastKnown.set(token, supply);
+  }
+
+  return supplies;
+}
+
+/**
+ * Tokens the real agent held at snapshot time (wallet + collateral)
+ */
+function recordedHoldings(state: AgentState): Map<string, bigint> {
+  const held = new Map<string, bigint>();
+  for (const h of state.holdings) {
+    held.set(key(h.tokenAddress), h.balance);
+  }
+  if (state.loan?.active) {
+    const token = key(state.loan.collateralToken);
+    held.set(token, (held.get(token) ?? 0n) + state.loan.collateralAmount);
+  }
+  return held;
+}
+
+function simulatedHoldings(portfolio: SimPortfolio): Map<string, bigint> {
+  const held = new Map<string, bigint>();
+  for (const [token, p] of portfolio.positions) {
+    held.set(token, p.balance);
+  }
+  if (portfolio.loan) {
+    const token = key(portfolio.loan.collateralToken);
+    held.set(token, (held.get(token) ?? 0n) + portfolio.loan.collateralAmount);
+  }
+  return held;
+}
+
+// ============================================
+// Lending Helpers
+// ============================================
+
+function totalDebt(loan: SimLoan): bigint {
+  return loan.borrowed + loan.interest;
+}
+
+function accrueInterest(loan: SimLoan, timestamp: number): void {
+  const elapsed = BigInt(Math.max(0, Math.floor((timestamp - loan.lastUpdate) / 1000)));
+  loan.interest +=
+    (loan.borrowed * INTEREST_RATE_BPS * elapsed) / (SECONDS_PER_YEAR * BASIS_POINTS);
+  loan.lastUpdate = timestamp;
+}
+
+function collateralValue(loan: SimLoan, market: BacktestMarket): bigint {
+  return tokenValue(loan.collateralAmount, curveFor(market, loan.collateralToken).floor);
+}
+
+function healthFactor(loan: SimLoan, market: BacktestMarket): number {
+  const debt = totalDebt(loan);
+  if (debt === 0n) return Number.POSITIVE_INFINITY;
+  const value = collateralValue(loan, market);
+  return Number((value * LIQUIDATION_THRESHOLD_BPS * 10000n) / (debt * BASIS_POINTS)) / 10000;
+}
+
+function currentLTV(loan: SimLoan, market: BacktestMarket): number {
+  const value = collateralValue(loan, market);
+  if (value === 0n) return totalDebt(loan) > 0n ? Number.POSITIVE_INFINITY : 0;
+  return Number((totalDebt(loan) * 10000n) / value) / 100;
+}
+
+// ============================================
+// Simulator
+// ============================================
+
+class Simulation {
+  private portfolio: SimPortfolio;
+  private cycle: CycleMarket = { timestamp: 0, supply: new Map() };
+  private lastKnownSupply = new Map<string, bigint>();
+  private lastRecordedRevenue = 0n;
+
+  readonly actionCounts: Record<string, number> = {};
+  tradeCount = 0;
+  rejectedActions = 0;
+  liquidations = 0;
+
+  constructor(
+    private readonly config: AgentConfig,
+    private readonly market: BacktestMarket,
+    initial: AgentState
+  ) {
+    const positions = new Map<string, SimPosition>();
+    for (const h of initial.holdings) {
+      positions.set(key(h.tokenAddress), {
+        tokenAddress: h.tokenAddress,
+        bondingCurveAddress: h.bondingCurveAddress,
+        tokenName: h.tokenName,
+        balance: h.balance,
+        costBasis: h.totalCostBasis,
+      });
+    }
+
+    this.portfolio = {
+      usdc: initial.usdcBalance,
+      positions,
+      loan: initial.loan?.active
+        ? {
+            collateralToken: initial.loan.collateralToken,
+            collateralAmount: initial.loan.collateralAmount,
+            borrowed: initial.loan.borrowedAmount,
+            interest: 0n,
+            lastUpdate: initial.timestamp,
+          }
+        : null,
+      claimedRevenue: 0n,
+    };
+    this.lastRecordedRevenue = initial.ownTokenRevenue;
+  }
+
+  /**
+   * Move the market to a snapshot and apply time-based effects (interest, liquidation)
+   */
+  advance(state: AgentState): void {
+    const recorded = recordedSupplies(state, this.config, this.market, this.lastKnownSupply);
+    const recordedHeld = recordedHoldings(state);
+    const simHeld = simulatedHoldings(this.portfolio);
+
+    const supply = new Map<string, bigint>();
+    for (const [token, base] of recorded) {
+      const adjusted = base + (simHeld.get(token) ?? 0n) - (recordedHeld.get(token) ?? 0n);
+      supply.set(token, adjusted > 0n ? adjusted : 0n);
+    }
+    this.cycle = { timestamp: state.timestamp, supply };
+
+    // The real agent claiming resets the on-chain accumulator
+    if (state.ownTokenRevenue < this.lastRecordedRevenue) {
+      this.portfolio.claimedRevenue = 0n;
+    }
+    this.lastRecordedRevenue = state.ownTokenRevenue;
+
+    const loan = this.portfolio.loan;
+    if (loan) {
+      accrueInterest(loan, state.timestamp);
+      if (healthFactor(loan, this.market) < 1) {
+        // Liquidator repays the debt and seizes all collateral
+        this.portfolio.loan = null;
+        this.liquidations++;
+      }
+    }
+  }
+
+  private supplyOf(token: string): bigint {
+    return this.cycle.supply.get(key(token)) ?? this.lastKnownSupply.get(key(token)) ?? 0n;
+  }
+
+  private markPrice(token: string): bigint {
+    return priceAtSupply(this.supplyOf(token), curveFor(this.market, token));
+  }
+
+  private pendingRevenue(state: AgentState): bigint {
+    const pending = state.ownTokenRevenue - this.portfolio.claimedRevenue;
+    return pending > 0n ? pending : 0n;
+  }
+
+  /**
+   * Rewrite a recorded snapshot with the simulated portfolio and market
+   */
+  buildState(recorded: AgentState): AgentState {
+    const holdings: Holding[] = [];
+    for (const p of this.portfolio.positions.values()) {
+      if (p.balance === 0n) continue;
+      const currentPrice = this.markPrice(p.tokenAddress);
+      const unrealizedPnl = tokenValue(p.balance, currentPrice) - p.costBasis;
+      holdings.push({
+        tokenAddress: p.tokenAddress,
+        bondingCurveAddress: p.bondingCurveAddress,
+        tokenName: p.tokenName,
+        tokenDecimals: 18,
+        balance: p.balance,
+        avgBuyPrice: (p.costBasis * 10n ** 18n) / p.balance,
+        totalCostBasis: p.costBasis,
+        currentPrice,
+        unrealizedPnl,
+        pnlPercent:
+          p.costBasis > 0n ? Number((unrealizedPnl * 10000n) / p.costBasis) / 100 : 0,
+      });
+    }
+
+    let loan: LoanInfo | null = null;
+    const simLoan = this.portfolio.loan;
+    if (simLoan) {
+      loan = {
+        active: true,
+        collateralToken: simLoan.collateralToken,
+        collateralAmount: simLoan.collateralAmount,
+        borrowedAmount: simLoan.borrowed,
+        totalDebt: totalDebt(simLoan),
+        healthFactor: healthFactor(simLoan, this.market),
+        currentLTV: currentLTV(simLoan, this.market),
+        liquidationPrice:
+          simLoan.collateralAmount > 0n
+            ? (simLoan.borrowed * 10000n) / (simLoan.collateralAmount * 8500n)
+            : 0n,
+      };
+    }
+
+    const otherCreators: OtherCreator[] = recorded.otherCreators.map((c) => ({
+      ...c,
+      currentPrice: this.markPrice(c.tokenAddress),
+      totalSupply: this.supplyOf(c.tokenAddress),
+    }));
+
+    return {
+      ...recorded,
+      usdcBalance: this.portfolio.usdc,
+      ownTokenPrice: this.markPrice(this.config.tokenAddress),
+      ownTokenRevenue: this.pendingRevenue(recorded),
+      holdings,
+      loan,
+      otherCreators,
+      pendingTxs: [],
+    };
+  }
+
+  /**
+   * Net asset value: USDC + holdings + collateral at mark price - debt
+   */
+  nav(): bigint {
+    let value = this.portfolio.usdc;
+    for (const p of this.portfolio.positions.values()) {
+      value += tokenValue(p.balance, this.markPrice(p.tokenAddress));
+    }
+    const loan = this.portfolio.loan;
+    if (loan) {
+      value += tokenValue(loan.collateralAmount, this.markPrice(loan.collateralToken));
+      value -= totalDebt(loan);
+    }
+    return value;
+  }
+
+  ltv(): number {
+    return this.portfolio.loan ? currentLTV(this.portfolio.loan, this.market) : 0;
+  }
+
+  healthFactor(): number | null {
+    return this.portfolio.loan ? healthFactor(this.portfolio.loan, this.market) : null;
+  }
+
+  /**
+   * Fill a single action. Returns false if the simulated chain would reject it.
+   */
+  execute(action: Action, state: AgentState): boolean {
+    this.actionCounts[action.type] = (this.actionCounts[action.type] ?? 0) + 1;
+
+    const filled = this.fill(action, state);
+    if (!filled) {
+      this.rejectedActions++;
+    }
+    return filled;
+  }
+
+  private fill(action: Action, state: AgentState): boolean {
+    switch (action.type) {
+      case "BUY_TOKEN":
+        return this.fillBuy(action.params as BuyTokenParams);
+      case "SELL_TOKEN":
+        return this.fillSell(action.params as SellTokenParams);
+      case "CLAIM_REVENUE":
+        return this.fillClaim(state);
+      case "BORROW":
+        return this.fillBorrow(action.params as BorrowParams);
+      case "REPAY":
+        return this.fillRepay(action.params as RepayParams);
+      case "DEPOSIT_COLLATERAL": {
+        const params = action.params as DepositCollateralParams;
+        return this.depositCollateral(params.tokenAddress, params.amount);
+      }
+      case "WITHDRAW_COLLATERAL":
+        return this.fillWithdraw(action.params as WithdrawCollateralParams);
+      default:
+        return false;
+    }
+  }
+
+  private fillBuy(params: BuyTokenParams): boolean {
+    const amount = params.usdcAmount < this.portfolio.usdc ? params.usdcAmount : this.portfolio.usdc;
+    if (amount <= 0n) return false;
+
+    const token = key(params.tokenAddress);
+    const supply = this.supplyOf(token);
+    const tokensOut = buyQuote(amount, supply, curveFor(this.market, token));
+    if (tokensOut === 0n || tokensOut < params.minTokensOut) return false;
+
+    const existing = this.portfolio.positions.get(token);
+    this.portfolio.positions.set(token, {
+      tokenAddress: params.tokenAddress,
+      bondingCurveAddress:
+        this.market.tokenToCurve.get(token) ?? params.bondingCurveAddress,
+      tokenName: existing?.tokenName ?? params.tokenName,
+      balance: (existing?.balance ?? 0n) + tokensOut,
+      costBasis: (existing?.costBasis ?? 0n) + amount,
+    });
+    this.portfolio.usdc -= amount;
+    this.cycle.supply.set(token, supply + tokensOut);
+    this.tradeCount++;
+    return true;
+  }
+
+  private fillSell(params: SellTokenParams): boolean {
+    const token = key(params.tokenAddress);
+    const position = this.portfolio.positions.get(token);
+    if (!position || position.balance === 0n) return false;
+
+    const amount = params.tokenAmount < position.balance ? params.tokenAmount : position.balance;
+    if (amount <= 0n) return false;
+
+    const supply = this.supplyOf(token);
+    const usdcOut = sellQuote(amount, supply, curveFor(this.market, token));
+    if (usdcOut === 0n || usdcOut < params.minUsdcOut) return false;
+
+    const costReduction = (position.costBasis * amount) / position.balance;
+    position.balance -= amount;
+    position.costBasis -= costReduction;
+    if (position.balance === 0n) {
+      this.portfolio.positions.delete(token);
+    }
+
+    this.portfolio.usdc += usdcOut;
+    this.cycle.supply.set(token, supply - amount);
+    this.tradeCount++;
+    return true;
+  }
+
+  private fillClaim(state: AgentState): boolean {
+    const pending = this.pendingRevenue(state);
+    if (pending === 0n) return false;
+    this.portfolio.usdc += pending;
+    this.portfolio.claimedRevenue += pending;
+    return true;
+  }
+
+  private depositCollateral(tokenAddress: Address, amount: bigint): boolean {
+    if (amount <= 0n) return false;
+
+    const token = key(tokenAddress);
+    const loan = this.portfolio.loan;
+    if (loan && loan.collateralAmount > 0n && key(loan.collateralToken) !== token) {
+      return false; // LendingPool: ExistingLoan
+    }
+
+    // Tracked positions must cover the deposit; the agent's own token is held
+    // outside the holdings table so it is not balance-checked.
+    if (token !== key(this.config.tokenAddress)) {
+      const position = this.portfolio.positions.get(token);
+      if (!position || position.balance < amount) return false;
+      const costReduction = (position.costBasis * amount) / position.balance;
+      position.balance -= amount;
+      position.costBasis -= costReduction;
+      if (position.balance === 0n) {
+        this.portfolio.positions.delete(token);
+      }
+    }
+
+    if (loan) {
+      loan.collateralAmount += amount;
+    } else {
+      this.portfolio.loan = {
+        collateralToken: tokenAddress,
+        collateralAmount: amount,
+        borrowed: 0n,
+        interest: 0n,
+        lastUpdate: this.cycle.timestamp,
+      };
+    }
+    return true;
+  }
+
+  private fillBorrow(params: BorrowParams): boolean {
+    if (params.borrowAmount <= 0n) return false;
+
+    const before = this.portfolio.loan ? { ...this.portfolio.loan } : null;
+    const positionsBefore = new Map(
+      [...this.portfolio.positions].map(([k, p]) => [k, { ...p }])
+    );
+
+    if (params.collateralAmount > 0n && !this.depositCollateral(params.collateralToken, params.collateralAmount)) {
+      return false;
+    }
+
+    const loan = this.portfolio.loan;
+    if (!loan) return false;
+
+    const maxBorrow = (collateralValue(loan, this.market) * MAX_LTV_BPS) / BASIS_POINTS;
+    if (totalDebt(loan) + params.borrowAmount > maxBorrow) {
+      // LendingPool: ExceedsMaxLTV - the whole call reverts, including the deposit
+      this.portfolio.loan = before;
+      this.portfolio.positions = positionsBefore;
+      return false;
+    }
+
+    loan.borrowed += params.borrowAmount;
+    this.portfolio.usdc += params.borrowAmount;
+    return true;
+  }
+
+  private fillRepay(params: RepayParams): boolean {
+    const loan = this.portfolio.loan;
+    if (!loan || totalDebt(loan) === 0n) return false;
+
+    let amount = params.repayAmount;
+    if (amount > this.portfolio.usdc) amount = this.portfolio.usdc;
+    if (amount > totalDebt(loan)) amount = totalDebt(loan);
+    if (amount <= 0n) return false;
+
+    this.portfolio.usdc -= amount;
+    if (amount <= loan.interest) {
+      loan.interest -= amount;
+    } else {
+      loan.borrowed -= amount - loan.interest;
+      loan.interest = 0n;
+    }
+
+    if (totalDebt(loan) === 0n && params.withdrawCollateral) {
+      this.returnCollateral(loan, loan.collateralAmount);
+      this.portfolio.loan = null;
+    }
+    return true;
+  }
+
+  private fillWithdraw(params: WithdrawCollateralParams): boolean {
+    const loan = this.portfolio.loan;
+    if (!loan || params.amount <= 0n || params.amount > loan.collateralAmount) return false;
+
+    const remaining: SimLoan = { ...loan, collateralAmount: loan.collateralAmount - params.amount };
+    if (totalDebt(remaining) > 0n && healthFactor(remaining, this.market) < 1) {
+      return false; // LendingPool: UnhealthyPosition
+    }
+
+    this.returnCollateral(loan, params.amount);
+    loan.collateralAmount -= params.amount;
+    if (loan.collateralAmount === 0n && totalDebt(loan) === 0n) {
+      this.portfolio.loan = null;
+    }
+    return true;
+  }
+
+  private returnCollateral(loan: SimLoan, amount: bigint): void {
+    const token = key(loan.collateralToken);
+    if (token === key(this.config.tokenAddress)) return;
+
+    const existing = this.portfolio.positions.get(token);
+    const markValue = tokenValue(amount, this.markPrice(token));
+    this.portfolio.positions.set(token, {
+      tokenAddress: loan.collateralToken,
+      bondingCurveAddress: this.market.tokenToCurve.get(token) ?? loan.collateralToken,
+      tokenName: existing?.tokenName ?? `Token-${loan.collateralToken.slice(0, 8)}`,
+      balance: (existing?.balance ?? 0n) + amount,
+      costBasis: (existing?.costBasis ?? 0n) + markValue,
+    });
+  }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Replay a dataset through one strategy and report performance
+ */
+export function simulateStrategy(
+  dataset: BacktestDataset,
+  strategy: BacktestStrategy,
+  config: AgentConfig
+): BacktestResult {
+  const { snapshots, market } = dataset;
+
+  if (snapshots.length === 0) {
+    throw new Error(`No state snapshots to replay for agent ${dataset.agentId}`);
+  }
+
+  const sim = new Simulation(config, market, snapshots[0]);
+  const equityCurve: EquityPoint[] = [];
+
+  let startNav = 0n;
+  let peakNav = 0n;
+  let maxDrawdownPercent = 0;
+  let maxLTV = 0;
+  let excursions = 0;
+  let minHealthFactor: number | null = null;
+
+  for (const [index, recorded] of snapshots.entries()) {
+    sim.advance(recorded);
+    if (index === 0) {
+      startNav = sim.nav();
+      peakNav = startNav;
+    }
+
+    const state = sim.buildState(recorded);
+    const decision = strategy.decide(state, config);
+
+    for (const action of decision.actions) {
+      sim.execute(action, state);
+    }
+
+    const nav = sim.nav();
+    const ltv = sim.ltv();
+    const hf = sim.healthFactor();
+
+    equityCurve.push({ timestamp: recorded.timestamp, cycle: recorded.cycle, nav, ltv });
+
+    if (nav > peakNav) peakNav = nav;
+    if (peakNav > 0n) {
+      const drawdown = Number(((peakNav - nav) * 10000n) / peakNav) / 100;
+      if (drawdown > maxDrawdownPercent) maxDrawdownPercent = drawdown;
+    }
+
+    if (ltv > maxLTV) maxLTV = ltv;
+    if (ltv > config.strategy.maxLTV) excursions++;
+    if (hf !== null && Number.isFinite(hf) && (minHealthFactor === null || hf < minHealthFactor)) {
+      minHealthFactor = hf;
+    }
+  }
+
+  const endNav = equityCurve[equityCurve.length - 1].nav;
+  const pnl = endNav - startNav;
+
+  return {
+    strategyId: strategy.id,
+    strategyName: strategy.name,
+    cycles: snapshots.length,
+    startTimestamp: snapshots[0].timestamp,
+    endTimestamp: snapshots[snapshots.length - 1].timestamp,
+    startNav,
+    endNav,
+    pnl,
+    pnlPercent: startNav > 0n ? Number((pnl * 10000n) / startNav) / 100 : 0,
+    maxDrawdownPercent,
+    tradeCount: sim.tradeCount,
+    actionCounts: sim.actionCounts,
+    rejectedActions: sim.rejectedActions,
+    ltv: {
+      maxLTV,
+      excursions,
+      minHealthFactor,
+      liquidations: sim.liquidations,
+    },
+    equityCurve,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * Backtest Types
+ *
+ * Type definitions for replaying historical agent state through strategies.
+ */
+
+import type { Address } from "viem";
+import type { AgentConfig, AgentState, DecisionResult } from "../types";
+
+// ============================================
+// Bonding Curve Model
+// ============================================
+
+export interface CurveParams {
+  /** Floor price in USDC (6 decimals) */
+  floor: bigint;
+  /** Ceiling price in USDC (6 decimals) */
+  ceiling: bigint;
+  /** Supply at the sigmoid midpoint (18 decimals) */
+  midpoint: bigint;
+  /** Steepness parameter k (18 decimals) */
+  steepness: bigint;
+}
+
+// ============================================
+// Historical Inputs
+// ============================================
+
+export interface PricePoint {
+  /** Unix ms */
+  timestamp: number;
+  /** Price in USDC (6 decimals) */
+  price: bigint;
+}
+
+export interface BacktestMarket {
+  /** Token address (lowercase) → bonding curve address */
+  tokenToCurve: Map<string, Address>;
+  /** Token address (lowercase) → curve parameters */
+  curves: Map<string, CurveParams>;
+  /** Token address (lowercase) → price points sorted by timestamp ascending */
+  prices: Map<string, PricePoint[]>;
+}
+
+export interface BacktestDataset {
+  agentId: string;
+  /** Decision log state snapshots sorted by timestamp ascending */
+  snapshots: AgentState[];
+  market: BacktestMarket;
+}
+
+// ============================================
+// Strategy Under Test
+// ============================================
+
+/**
+ * Anything that can turn a state into actions. Strategy classes satisfy
+ * this directly; the rule-based decide() is wrapped to match.
+ */
+export interface BacktestStrategy {
+  id: string;
+  name: string;
+  decide(state: AgentState, config: AgentConfig): DecisionResult;
+}
+
+// ============================================
+// Results
+// ============================================
+
+export interface EquityPoint {
+  timestamp: number;
+  cycle: number;
+  /** Net asset value in USDC (6 decimals) */
+  nav: bigint;
+  /** LTV percentage (0 when no loan) */
+  ltv: number;
+}
+
+export interface LtvReport {
+  /** Highest LTV seen during the run */
+  maxLTV: number;
+  /** Cycles where LTV exceeded the strategy's maxLTV */
+  excursions: number;
+  /** Lowest health factor seen (null if never borrowed) */
+  minHealthFactor: number | null;
+  /** Positions liquidated because health factor fell below 1.0 */
+  liquidations: number;
+}
+
+export interface BacktestResult {
+  strategyId: string;
+  strategyName: string;
+  cycles: number;
+  startTimestamp: number;
+  endTimestamp: number;
+  startNav: bigint;
+  endNav: bigint;
+  pnl: bigint;
+  pnlPercent: number;
+  /** Peak-to-trough NAV decline as a percentage */
+  maxDrawdownPercent: number;
+  tradeCount: number;
+  actionCounts: Record<string, number>;
+  /** Actions the simulator refused to fill (insufficient funds, slippage, LTV) */
+  rejectedActions: number;
+  ltv: LtvReport;
+  equityCurve: EquityPoint[];
+}
+
+export interface BacktestReport {
+  agentId: string;
+  snapshotCount: number;
+  results: BacktestResult[];
+}
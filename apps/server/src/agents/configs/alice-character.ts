@@ -6,17 +6,7 @@
  * with Alice's academic/conservative brand.
  */
 
-export interface AgentCharacter {
-  agentId: string;
-  displayName: string;
-  personality: string;
-  visualStyle: string;
-  topics: string[];
-  tone: string[];
-  exampleTitles: string[];
-  thumbnailStyle: string;
-  avoidTopics: string[];
-}
+import type { AgentCharacter } from "../types";
 
 export const aliceCharacter: AgentCharacter = {
   agentId: "alice",
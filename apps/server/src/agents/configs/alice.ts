@@ -42,6 +42,16 @@ const aliceStrategy: StrategyConfig = {
     priceDrop: 0.10, // Stop loss at 10% drop
     profitTake: 0.25, // Take profit at 25% gain
   },
+
+  // Risk limits - small positions, long cooldown after a stop loss
+  riskLimits: {
+    maxPositionPct: 0.2, // At most 20% of portfolio per buy
+    maxDailyTurnoverPct: 1.0, // Trade at most the portfolio's value per day
+    maxConcentrationPct: 0.35, // No creator token above 35% of portfolio
+    stopLossCooldownMs: 24 * 60 * 60 * 1000, // 24h before re-buying a stopped-out token
+    minHealthFactor: 1.5,
+    defenseHealthFactor: 1.35, // Top up well before the 1.2 critical repay
+  },
 };
 
 export function createAliceConfig(circleWalletAddress?: string): AgentConfig {
@@ -6,7 +6,7 @@
  * with Bob's degen/aggressive brand.
  */
 
-import type { AgentCharacter } from "./alice-character";
+import type { AgentCharacter } from "../types";
 
 export const bobCharacter: AgentCharacter = {
   agentId: "bob",
@@ -42,6 +42,16 @@ const bobStrategy: StrategyConfig = {
     priceDrop: 0.20, // Wide stop loss at 20%
     profitTake: 0.15, // Take profit earlier at 15%
   },
+
+  // Risk limits - loose, but still no all-in bets
+  riskLimits: {
+    maxPositionPct: 0.4, // Up to 40% of portfolio per buy
+    maxDailyTurnoverPct: 3.0, // Churn up to 3x the portfolio per day
+    maxConcentrationPct: 0.6, // One token can be 60% of the bag
+    stopLossCooldownMs: 6 * 60 * 60 * 1000, // 6h before re-buying a stopped-out token
+    minHealthFactor: 1.2,
+    defenseHealthFactor: 1.15, // Only defend once a projection dips under his borrow floor
+  },
 };
 
 export function createBobConfig(circleWalletAddress?: string): AgentConfig {
@@ -1,32 +1,96 @@
 /**
  * Agent Configurations Index
  *
- * Creates and exports agent configurations for Alice and Bob.
+ * The agents table is the source of truth for the roster: config, strategy
+ * and content character for every agent (see roster.ts). Alice and Bob are
+ * built in so a fresh database can be seeded from the ALICE_* / BOB_* env vars.
  * When agents are running, returns the live configs (with Circle wallet addresses).
  */
 
 import { createAliceConfig, ALICE_STRATEGY } from "./alice";
 import { createBobConfig, BOB_STRATEGY } from "./bob";
-import type { AgentConfig } from "../types";
+import { aliceCharacter } from "./alice-character";
+import { bobCharacter } from "./bob-character";
+import { env } from "../../utils/env";
+import type { AgentCharacter, AgentConfig } from "../types";
 import { getAgentRuntime } from "../runtime/loop";
 
 export { createAliceConfig, createBobConfig, ALICE_STRATEGY, BOB_STRATEGY };
 
-const AGENT_IDS = ["alice", "bob"] as const;
+const BUILTIN_CHARACTERS: Record<string, AgentCharacter> = {
+  alice: aliceCharacter,
+  bob: bobCharacter,
+};
+
+// Agents loaded from the agents table, keyed by agent ID
+let rosterConfigs = new Map<string, AgentConfig>();
+let rosterCharacters = new Map<string, AgentCharacter>();
+let rosterLoaded = false;
+
+/**
+ * Built-in agents whose token addresses are configured in env
+ */
+export function getBuiltinAgentConfigs(): AgentConfig[] {
+  const configs: AgentConfig[] = [];
+  if (env.ALICE_TOKEN_ADDRESS && env.ALICE_BONDING_CURVE_ADDRESS) {
+    configs.push(createAliceConfig());
+  }
+  if (env.BOB_TOKEN_ADDRESS && env.BOB_BONDING_CURVE_ADDRESS) {
+    configs.push(createBobConfig());
+  }
+  return configs;
+}
+
+/**
+ * Replace the in-memory roster (called after loading the agents table)
+ */
+export function setAgentRoster(
+  entries: Array<{ config: AgentConfig; character: AgentCharacter | null }>
+): void {
+  rosterConfigs = new Map(entries.map((e) => [e.config.id, e.config]));
+  rosterCharacters = new Map(
+    entries
+      .filter((e) => e.character !== null)
+      .map((e) => [e.config.id, e.character as AgentCharacter])
+  );
+  rosterLoaded = true;
+}
+
+/**
+ * Content character for an agent (stored character, else built-in)
+ */
+export function getAgentCharacter(agentId: string): AgentCharacter | undefined {
+  return rosterCharacters.get(agentId) ?? BUILTIN_CHARACTERS[agentId];
+}
+
+/**
+ * Resolve a non-running agent's config from the roster
+ * (built-in defaults until the roster has been loaded)
+ */
+function resolveAgentConfig(agentId: string): AgentConfig | undefined {
+  if (rosterLoaded) {
+    return rosterConfigs.get(agentId);
+  }
+  return getBuiltinAgentConfigs().find((c) => c.id === agentId);
+}
 
 /**
  * Create all agent configurations.
  * Prefers live runtime configs (which have the real Circle wallet addresses)
- * over freshly-created defaults (which have 0x0000... as the address).
+ * over roster/default configs. Before the roster is loaded this returns the
+ * built-in agents only.
  */
 export function createAllAgentConfigs(): AgentConfig[] {
-  return AGENT_IDS.map((id) => {
+  const ids = rosterLoaded
+    ? [...rosterConfigs.keys()]
+    : getBuiltinAgentConfigs().map((c) => c.id);
+
+  return ids.map((id) => {
     const runtime = getAgentRuntime(id);
     if (runtime) {
       return runtime.getConfig();
     }
-    // Fallback to default (before agents have started)
-    return id === "alice" ? createAliceConfig() : createBobConfig();
+    return resolveAgentConfig(id)!;
   });
 }
 
@@ -39,7 +103,5 @@ export function getAgentConfig(agentId: string): AgentConfig | undefined {
   if (runtime) {
     return runtime.getConfig();
   }
-  // Fallback to default configs
-  const configs = [createAliceConfig(), createBobConfig()];
-  return configs.find((c) => c.id === agentId);
+  return resolveAgentConfig(agentId);
 }
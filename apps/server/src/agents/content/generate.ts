@@ -12,13 +12,13 @@ import { ideateVideo, type VideoIdea } from "./ideate";
 import { generateVideo } from "../../integrations/ltx";
 import { generateThumbnail } from "../../integrations/gemini";
 import { processVideo } from "../../video/processor";
-import { getStorageProvider } from "../../integrations/supabase";
+import { parseRenditionLadder } from "../../video/renditions";
+import { getStorageProvider } from "../../integrations/storage";
 import { encryptSecret } from "../../utils/encryption";
 import { registerVideoOnChain } from "../../integrations/chain/video-registry";
 import { env } from "../../utils/env";
 import { logger } from "../../utils/logger";
-import type { AgentCharacter } from "../configs/alice-character";
-import type { AgentConfig } from "../types";
+import type { AgentCharacter, AgentConfig } from "../types";
 
 export type GenerationStatus =
   | "pending"
@@ -161,7 +161,7 @@ export async function executeVideoGeneration(
 
     const processResult = await processVideo(ltxResult.videoBuffer, storage, {
       segmentDuration: env.VIDEO_SEGMENT_DURATION,
-      quality: env.VIDEO_QUALITY as "480p" | "720p" | "1080p",
+      renditions: parseRenditionLadder(env.VIDEO_RENDITIONS),
       keyServerBaseUrl,
     });
     progress.videoId = processResult.videoId;
@@ -1,16 +1,13 @@
 /**
  * Content Ideation via LLM
  *
- * Uses OpenRouter to generate video content ideas for each agent,
+ * Uses the ideation LLM chain to generate video content ideas for each agent,
  * based on their character profile.
  */
 
-import {
-  chatCompletion,
-  isOpenRouterConfigured,
-} from "../../integrations/openrouter/client";
+import { completeLlm, isLlmConfigured } from "../../integrations/llm/client";
 import { logger } from "../../utils/logger";
-import type { AgentCharacter } from "../configs/alice-character";
+import type { AgentCharacter } from "../types";
 
 export interface VideoIdea {
   title: string;
@@ -77,16 +74,26 @@ export async function ideateVideo(
   character: AgentCharacter,
   recentTitles: string[] = []
 ): Promise<VideoIdea> {
-  if (!isOpenRouterConfigured()) {
+  if (!isLlmConfigured("ideation")) {
     throw new Error(
-      "OpenRouter not configured - cannot ideate video content"
+      "No ideation LLM configured - cannot ideate video content"
     );
   }
 
   const systemPrompt = buildIdeationSystemPrompt(character);
   const userPrompt = buildIdeationUserPrompt(character, recentTitles);
 
-  const rawResponse = await chatCompletion(systemPrompt, userPrompt);
+  const result = await completeLlm(
+    "ideation",
+    {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    },
+    { caller: `ideation:${character.agentId}`, agentId: character.agentId }
+  );
+  const rawResponse = result.message.content ?? "";
 
   // Parse JSON from response (handle markdown code blocks)
   const jsonStr =
@@ -7,6 +7,7 @@ export { ideateVideo, type VideoIdea } from "./ideate";
 export {
   startVideoScheduler,
   stopVideoScheduler,
+  stopAgentVideoSchedule,
   getScheduleStatus,
   getAllScheduleStatuses,
   isVideoGenerationConfigured,
@@ -2,11 +2,15 @@
  * Video Generation Scheduler
  *
  * Manages the periodic autonomous video generation for all agents.
- * Each agent generates a video every 4 hours, staggered by 2 hours.
+ * Each agent generates a video every 4 hours, staggered by 2 hours in the
+ * order agents were registered with the scheduler.
  *
  * Schedule from server start time (T):
- *   Alice: T+0, T+4h, T+8h, ...
- *   Bob:   T+2h, T+6h, T+10h, ...
+ *   1st agent: T+0, T+4h, T+8h, ...
+ *   2nd agent: T+2h, T+6h, T+10h, ...
+ *
+ * startVideoScheduler can be called again with the current roster; agents
+ * that are already scheduled are left untouched.
  */
 
 import { desc, eq, count as sqlCount } from "drizzle-orm";
@@ -15,17 +19,15 @@ import { videoGenerations } from "../../db/schema";
 import { logger } from "../../utils/logger";
 import { env } from "../../utils/env";
 import { isLtxConfigured } from "../../integrations/ltx";
-import { isOpenRouterConfigured } from "../../integrations/openrouter/client";
-import { isSupabaseConfigured } from "../../integrations/supabase";
+import { isLlmConfigured } from "../../integrations/llm/client";
+import { isStorageConfigured } from "../../integrations/storage";
 import {
   executeVideoGeneration,
   type GenerationProgress,
   type GenerationStatus,
 } from "./generate";
-import { aliceCharacter } from "../configs/alice-character";
-import { bobCharacter } from "../configs/bob-character";
-import type { AgentCharacter } from "../configs/alice-character";
-import type { AgentConfig } from "../types";
+import { createAllAgentConfigs, getAgentCharacter } from "../configs";
+import type { AgentCharacter, AgentConfig } from "../types";
 
 /** In-memory scheduler state for each agent */
 interface SchedulerEntry {
@@ -62,7 +64,7 @@ const schedulerEntries = new Map<string, SchedulerEntry>();
  * Check if all required services are configured for video generation
  */
 export function isVideoGenerationConfigured(): boolean {
-  return isOpenRouterConfigured() && isLtxConfigured() && isSupabaseConfigured();
+  return isLlmConfigured("ideation") && isLtxConfigured() && isStorageConfigured();
 }
 
 /**
@@ -108,11 +110,12 @@ async function getGenerationHistory(agentId: string): Promise<{
 /**
  * Start the video generation scheduler for all agents.
  * Checks DB for recent generations to avoid re-triggering on restart.
+ * Safe to call repeatedly: only agents not yet scheduled are added.
  */
 export async function startVideoScheduler(agentConfigs: AgentConfig[]): Promise<void> {
   if (!isVideoGenerationConfigured()) {
     logger.warn(
-      "Video generation not fully configured (need OPENROUTER_API_KEY + LTX_API_KEY + Supabase). Scheduler disabled."
+      "Video generation not fully configured (need an ideation LLM + LTX_API_KEY + storage). Scheduler disabled."
     );
     return;
   }
@@ -120,37 +123,38 @@ export async function startVideoScheduler(agentConfigs: AgentConfig[]): Promise<
   const intervalMs = env.VIDEO_GEN_INTERVAL_MS;
   const offsetMs = env.VIDEO_GEN_OFFSET_MS;
 
+  const newConfigs = agentConfigs.filter((c) => !schedulerEntries.has(c.id));
+  if (newConfigs.length === 0) {
+    return;
+  }
+
   logger.info(
     {
+      agents: newConfigs.map((c) => c.id),
       intervalHours: intervalMs / (60 * 60 * 1000),
       offsetHours: offsetMs / (60 * 60 * 1000),
     },
     "Starting video generation scheduler"
   );
 
-  const characters: Record<string, AgentCharacter> = {
-    alice: aliceCharacter,
-    bob: bobCharacter,
-  };
-
-  const agentOrder = ["alice", "bob"];
-
-  for (let i = 0; i < agentOrder.length; i++) {
-    const agentId = agentOrder[i];
-    const config = agentConfigs.find((c) => c.id === agentId);
-    const character = characters[agentId];
+  for (const config of newConfigs) {
+    const agentId = config.id;
+    const character = getAgentCharacter(agentId);
 
-    if (!config || !character) {
+    if (!character) {
       logger.warn(
         { agentId },
-        "Agent config or character not found, skipping scheduler"
+        "Agent character not found, skipping scheduler"
       );
       continue;
     }
 
+    // Stagger slot follows registration order, wrapping within one interval
+    const slot = schedulerEntries.size;
+
     // Check DB for generation history to restore state across restarts
     const history = await getGenerationHistory(agentId);
-    const defaultOffsetMs = i * offsetMs;
+    const defaultOffsetMs = (slot * offsetMs) % intervalMs;
     let firstDelayMs: number;
 
     if (history.msSinceLast !== null && history.msSinceLast < intervalMs) {
@@ -323,7 +327,20 @@ export async function getScheduleStatus(agentId: string): Promise<ScheduleStatus
  * Get all schedule statuses
  */
 export async function getAllScheduleStatuses(): Promise<ScheduleStatus[]> {
-  return Promise.all(["alice", "bob"].map((id) => getScheduleStatus(id)));
+  return Promise.all(createAllAgentConfigs().map((c) => getScheduleStatus(c.id)));
+}
+
+/**
+ * Stop the video generation schedule for a single agent (e.g. when deactivated)
+ */
+export function stopAgentVideoSchedule(agentId: string): void {
+  const entry = schedulerEntries.get(agentId);
+  if (!entry) return;
+
+  if (entry.timeoutId) clearTimeout(entry.timeoutId);
+  if (entry.intervalId) clearInterval(entry.intervalId);
+  schedulerEntries.delete(agentId);
+  logger.info({ agentId }, "Agent video scheduler stopped");
 }
 
 /**
@@ -0,0 +1,76 @@
+/**
+ * Decision Evaluation Module
+ *
+ * Scores executed actions against doing nothing after OUTCOME_HORIZON_HOURS
+ * and aggregates them into per-agent performance. The scorer worker polls
+ * for decisions that have aged past the horizon; passes never overlap.
+ */
+
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { scoreDueDecisions } from "./scorer";
+
+export {
+  scoreAction,
+  outcomeToken,
+  snapshotPrice,
+  isScoredActionType,
+  SCORED_ACTION_TYPES,
+  DEFAULT_OUTCOME_HORIZON_MS,
+  type ScorableAction,
+  type ScoreInput,
+  type ScoredOutcome,
+} from "./score";
+export {
+  summarizePerformance,
+  type AgentPerformance,
+  type CalibrationBucket,
+  type OutcomeRecord,
+  type PerformancePoint,
+  type PerformanceStats,
+} from "./performance";
+export { scoreDueDecisions, getAgentOutcomes, toOutcomeRecord, type ScorePassResult } from "./scorer";
+
+let scorerTimeout: ReturnType<typeof setTimeout> | null = null;
+let scorerStopped = true;
+
+/**
+ * Scoring horizon from env
+ */
+export function getOutcomeHorizonMs(): number {
+  return env.OUTCOME_HORIZON_HOURS * 60 * 60 * 1000;
+}
+
+export function startOutcomeScorer(intervalMs: number = env.OUTCOME_SCORER_POLL_MS): void {
+  if (!scorerStopped) return;
+  scorerStopped = false;
+
+  const horizonMs = getOutcomeHorizonMs();
+
+  async function run() {
+    if (scorerStopped) return;
+    try {
+      const result = await scoreDueDecisions(horizonMs);
+      if (result.logs > 0) {
+        logger.info(result, "Outcome scoring pass complete");
+      }
+    } catch (err) {
+      logger.error({ err }, "Outcome scoring pass failed");
+    } finally {
+      if (!scorerStopped) {
+        scorerTimeout = setTimeout(run, intervalMs);
+      }
+    }
+  }
+
+  run();
+  logger.info({ intervalMs, horizonMs }, "Outcome scorer started");
+}
+
+export function stopOutcomeScorer(): void {
+  scorerStopped = true;
+  if (scorerTimeout) {
+    clearTimeout(scorerTimeout);
+    scorerTimeout = null;
+  }
+}
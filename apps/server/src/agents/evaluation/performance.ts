@@ -0,0 +1,137 @@
+/**
+ * Agent Performance
+ *
+ * Aggregates scored action outcomes into hit rate, average edge, a split by
+ * decision source (LLM vs rule-based) and action type, and calibration of
+ * the actions' confidence against how often they were right.
+ */
+
+import type { DecisionSource } from "../types";
+
+/** Confidence buckets for calibration: [0, 0.2), [0.2, 0.4), ... [0.8, 1] */
+const CALIBRATION_BUCKETS = 5;
+
+export interface OutcomeRecord {
+  decisionLogId: number;
+  actionType: string;
+  source: DecisionSource;
+  confidence: number;
+  outcomeUsdc: bigint;
+  edgePct: number;
+  hit: boolean;
+  decidedAt: number;
+}
+
+export interface PerformanceStats {
+  count: number;
+  hits: number;
+  /** Share of actions that beat doing nothing */
+  hitRate: number | null;
+  /** Mean edge per action, in percent of notional */
+  avgEdgePct: number | null;
+  totalOutcomeUsdc: bigint;
+}
+
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  avgConfidence: number | null;
+  hitRate: number | null;
+}
+
+export interface PerformancePoint {
+  decisionLogId: number;
+  decidedAt: number;
+  actionType: string;
+  source: DecisionSource;
+  confidence: number;
+  edgePct: number;
+  hit: boolean;
+  /** Running total of outcomes, oldest first */
+  cumulativeOutcomeUsdc: bigint;
+}
+
+export interface AgentPerformance {
+  overall: PerformanceStats;
+  bySource: Record<DecisionSource, PerformanceStats>;
+  byActionType: Record<string, PerformanceStats>;
+  calibration: CalibrationBucket[];
+  /** Mean squared error of confidence as a hit probability (lower is better) */
+  brierScore: number | null;
+  series: PerformancePoint[];
+}
+
+function stats(outcomes: OutcomeRecord[]): PerformanceStats {
+  const hits = outcomes.filter((o) => o.hit).length;
+  return {
+    count: outcomes.length,
+    hits,
+    hitRate: outcomes.length > 0 ? hits / outcomes.length : null,
+    avgEdgePct:
+      outcomes.length > 0 ? outcomes.reduce((sum, o) => sum + o.edgePct, 0) / outcomes.length : null,
+    totalOutcomeUsdc: outcomes.reduce((sum, o) => sum + o.outcomeUsdc, 0n),
+  };
+}
+
+function calibration(outcomes: OutcomeRecord[]): CalibrationBucket[] {
+  return Array.from({ length: CALIBRATION_BUCKETS }, (_, i) => {
+    const min = i / CALIBRATION_BUCKETS;
+    const max = (i + 1) / CALIBRATION_BUCKETS;
+    const last = i === CALIBRATION_BUCKETS - 1;
+    const bucket = outcomes.filter(
+      (o) => o.confidence >= min && (last ? o.confidence <= max : o.confidence < max)
+    );
+
+    return {
+      minConfidence: min,
+      maxConfidence: max,
+      count: bucket.length,
+      avgConfidence:
+        bucket.length > 0 ? bucket.reduce((sum, o) => sum + o.confidence, 0) / bucket.length : null,
+      hitRate: bucket.length > 0 ? bucket.filter((o) => o.hit).length / bucket.length : null,
+    };
+  });
+}
+
+/**
+ * Summarize scored outcomes (any order)
+ */
+export function summarizePerformance(outcomes: OutcomeRecord[]): AgentPerformance {
+  const sorted = [...outcomes].sort((a, b) => a.decidedAt - b.decidedAt);
+
+  const byActionType: Record<string, PerformanceStats> = {};
+  for (const type of new Set(sorted.map((o) => o.actionType))) {
+    byActionType[type] = stats(sorted.filter((o) => o.actionType === type));
+  }
+
+  let cumulative = 0n;
+  const series = sorted.map((o) => {
+    cumulative += o.outcomeUsdc;
+    return {
+      decisionLogId: o.decisionLogId,
+      decidedAt: o.decidedAt,
+      actionType: o.actionType,
+      source: o.source,
+      confidence: o.confidence,
+      edgePct: o.edgePct,
+      hit: o.hit,
+      cumulativeOutcomeUsdc: cumulative,
+    };
+  });
+
+  return {
+    overall: stats(sorted),
+    bySource: {
+      llm: stats(sorted.filter((o) => o.source === "llm")),
+      rules: stats(sorted.filter((o) => o.source === "rules")),
+    },
+    byActionType,
+    calibration: calibration(sorted),
+    brierScore:
+      sorted.length > 0
+        ? sorted.reduce((sum, o) => sum + (o.confidence - (o.hit ? 1 : 0)) ** 2, 0) / sorted.length
+        : null,
+    series,
+  };
+}
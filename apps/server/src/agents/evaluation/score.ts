@@ -0,0 +1,167 @@
+/**
+ * Action Outcome Scoring
+ *
+ * Scores an executed action against doing nothing, a fixed horizon after it
+ * was decided. Prices are USDC per whole token (6 decimals); token amounts
+ * have 18 decimals.
+ *
+ * - BUY_TOKEN (mark): value of the tokens bought at the horizon price minus
+ *   the USDC spent (doing nothing keeps the USDC)
+ * - SELL_TOKEN (realized): proceeds minus what the tokens would be worth at
+ *   the horizon if they had been held
+ * - BORROW (mark): borrowing keeps the collateral instead of selling it for
+ *   cash, so it is scored as a long on the collateral token over the borrowed
+ *   amount, minus interest
+ * - REPAY (mark): the inverse, interest saved minus the collateral move
+ *   given up on the repaid amount
+ */
+
+import { accrueInterest } from "../risk/defense";
+import type { AgentState } from "../types";
+
+export const SCORED_ACTION_TYPES = ["BUY_TOKEN", "SELL_TOKEN", "BORROW", "REPAY"] as const;
+export type ScoredActionType = (typeof SCORED_ACTION_TYPES)[number];
+
+/** Default time between a decision and its scoring */
+export const DEFAULT_OUTCOME_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN_UNIT = 10n ** 18n;
+
+/** An action as stored in decision_logs.actions (bigints are strings) */
+export interface ScorableAction {
+  type: string;
+  params: Record<string, unknown>;
+  confidence?: number;
+}
+
+export interface ScoreInput {
+  action: ScorableAction;
+  /** State snapshot when the action was decided */
+  state: AgentState;
+  /** The agent's own token (priced from state.ownTokenPrice) */
+  ownTokenAddress?: string;
+  /** Price of the outcome token at the horizon */
+  exitPrice: bigint;
+  horizonMs: number;
+  /** Actual trade fill, when the indexer recorded the transaction */
+  fill?: { usdcAmount: bigint; tokenAmount: bigint } | null;
+}
+
+export interface ScoredOutcome {
+  tokenAddress: string;
+  method: "realized" | "mark";
+  entryPrice: bigint;
+  exitPrice: bigint;
+  notionalUsdc: bigint;
+  /** Signed edge versus doing nothing */
+  outcomeUsdc: bigint;
+  edgePct: number;
+  hit: boolean;
+}
+
+const big = (value: unknown): bigint => {
+  try {
+    return BigInt(String(value ?? "0"));
+  } catch {
+    return 0n;
+  }
+};
+
+export function isScoredActionType(type: string): type is ScoredActionType {
+  return (SCORED_ACTION_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Token whose price decides the action's outcome (null if not scorable)
+ */
+export function outcomeToken(action: ScorableAction, state: AgentState): string | null {
+  switch (action.type) {
+    case "BUY_TOKEN":
+    case "SELL_TOKEN":
+      return action.params.tokenAddress ? String(action.params.tokenAddress) : null;
+    case "BORROW":
+      return action.params.collateralToken ? String(action.params.collateralToken) : null;
+    case "REPAY":
+      return state.loan?.collateralToken ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Price of a token in a state snapshot (0 if the snapshot does not price it)
+ */
+export function snapshotPrice(state: AgentState, token: string, ownTokenAddress?: string): bigint {
+  const key = token.toLowerCase();
+  if (ownTokenAddress && ownTokenAddress.toLowerCase() === key) return state.ownTokenPrice;
+  const holding = state.holdings.find((h) => h.tokenAddress.toLowerCase() === key);
+  if (holding) return holding.currentPrice;
+  const creator = state.otherCreators.find((c) => c.tokenAddress.toLowerCase() === key);
+  return creator?.currentPrice ?? 0n;
+}
+
+function edge(outcome: bigint, notional: bigint): number {
+  return notional > 0n ? Number((outcome * 1_000_000n) / notional) / 10_000 : 0;
+}
+
+/**
+ * Score one executed action; null if it cannot be priced
+ */
+export function scoreAction(input: ScoreInput): ScoredOutcome | null {
+  const { action, state, exitPrice, fill } = input;
+  const token = outcomeToken(action, state);
+  if (!token || !isScoredActionType(action.type)) return null;
+
+  const snapshot = snapshotPrice(state, token, input.ownTokenAddress);
+  const hasFill = !!fill && fill.tokenAmount > 0n && fill.usdcAmount > 0n;
+  const entryPrice = hasFill ? (fill!.usdcAmount * TOKEN_UNIT) / fill!.tokenAmount : snapshot;
+  if (entryPrice <= 0n) return null;
+
+  let method: ScoredOutcome["method"] = "mark";
+  let notional: bigint;
+  let outcome: bigint;
+
+  switch (action.type) {
+    case "BUY_TOKEN": {
+      notional = hasFill ? fill!.usdcAmount : big(action.params.usdcAmount);
+      const tokens = hasFill ? fill!.tokenAmount : (notional * TOKEN_UNIT) / entryPrice;
+      outcome = (tokens * exitPrice) / TOKEN_UNIT - notional;
+      break;
+    }
+
+    case "SELL_TOKEN": {
+      method = "realized";
+      const tokens = hasFill ? fill!.tokenAmount : big(action.params.tokenAmount);
+      notional = hasFill ? fill!.usdcAmount : (tokens * entryPrice) / TOKEN_UNIT;
+      outcome = notional - (tokens * exitPrice) / TOKEN_UNIT;
+      break;
+    }
+
+    case "BORROW": {
+      notional = big(action.params.borrowAmount);
+      const interest = accrueInterest(notional, input.horizonMs) - notional;
+      outcome = (notional * (exitPrice - entryPrice)) / entryPrice - interest;
+      break;
+    }
+
+    case "REPAY": {
+      notional = big(action.params.repayAmount);
+      const interest = accrueInterest(notional, input.horizonMs) - notional;
+      outcome = interest - (notional * (exitPrice - entryPrice)) / entryPrice;
+      break;
+    }
+  }
+
+  if (notional <= 0n) return null;
+
+  return {
+    tokenAddress: token,
+    method,
+    entryPrice,
+    exitPrice,
+    notionalUsdc: notional,
+    outcomeUsdc: outcome,
+    edgePct: edge(outcome, notional),
+    hit: outcome > 0n,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Outcome Scorer
+ *
+ * Scores executed actions once their decision is older than the horizon and
+ * stores one action_outcomes row per scorable action. Each decision log is
+ * scored once (decision_logs.scored_at), whether or not it had scorable actions.
+ *
+ * Horizon prices come from indexed bonding curve trades (a curve's price only
+ * moves when someone trades), then price_history, then the decision snapshot.
+ */
+
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, lte, sql, type Column } from "drizzle-orm";
+import { db } from "../../db/client";
+import {
+  actionOutcomes,
+  agents,
+  decisionLogs,
+  priceHistory,
+  trades,
+  type ActionOutcome,
+  type NewActionOutcome,
+} from "../../db/schema";
+import { logger } from "../../utils/logger";
+import { deserializeSnapshot } from "../backtest/loader";
+import { decisionSource } from "../runtime/logger";
+import type { AgentState } from "../types";
+import type { OutcomeRecord } from "./performance";
+import {
+  isScoredActionType,
+  outcomeToken,
+  scoreAction,
+  snapshotPrice,
+  type ScorableAction,
+} from "./score";
+
+/** Decision logs scored per pass */
+const SCORE_BATCH_SIZE = 100;
+
+interface StoredResult {
+  actionType: string;
+  success: boolean;
+  txHash?: string;
+}
+
+export interface ScorePassResult {
+  logs: number;
+  scored: number;
+}
+
+function sameAddress(column: Column, address: string) {
+  return sql`lower(${column}) = ${address.toLowerCase()}`;
+}
+
+/**
+ * Curve price of a token at a point in time
+ */
+async function priceAt(token: string, at: number, state: AgentState, ownToken?: string): Promise<bigint> {
+  const [trade] = await db
+    .select({ price: trades.price })
+    .from(trades)
+    .where(and(sameAddress(trades.tokenAddress, token), lte(trades.timestamp, at)))
+    .orderBy(desc(trades.timestamp))
+    .limit(1);
+  if (trade) return BigInt(trade.price);
+
+  const [point] = await db
+    .select({ price: priceHistory.price })
+    .from(priceHistory)
+    .where(and(sameAddress(priceHistory.tokenAddress, token), lte(priceHistory.timestamp, new Date(at))))
+    .orderBy(desc(priceHistory.timestamp))
+    .limit(1);
+  if (point) return BigInt(point.price);
+
+  return snapshotPrice(state, token, ownToken);
+}
+
+/**
+ * Actual fill of an executed trade, from the indexed trades table
+ */
+async function findFill(txHash: string | undefined, token: string) {
+  if (!txHash) return null;
+  const [trade] = await db
+    .select({ usdcAmount: trades.usdcAmount, tokenAmount: trades.tokenAmount })
+    .from(trades)
+    .where(and(eq(trades.txHash, txHash), sameAddress(trades.tokenAddress, token)))
+    .limit(1);
+  return trade ? { usdcAmount: BigInt(trade.usdcAmount), tokenAmount: BigInt(trade.tokenAmount) } : null;
+}
+
+function parseJson<T>(json: string | null, fallback: T): T {
+  if (!json) return fallback;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Score every unscored decision log older than the horizon
+ */
+export async function scoreDueDecisions(
+  horizonMs: number,
+  now: number = Date.now()
+): Promise<ScorePassResult> {
+  const rows = await db
+    .select()
+    .from(decisionLogs)
+    .where(
+      and(
+        isNull(decisionLogs.scoredAt),
+        isNotNull(decisionLogs.executionResults),
+        lte(decisionLogs.timestamp, now - horizonMs)
+      )
+    )
+    .orderBy(asc(decisionLogs.timestamp))
+    .limit(SCORE_BATCH_SIZE);
+
+  if (rows.length === 0) return { logs: 0, scored: 0 };
+
+  const agentIds = [...new Set(rows.map((r) => r.agentId))];
+  const ownTokens = new Map(
+    (
+      await db
+        .select({ id: agents.id, tokenAddress: agents.tokenAddress })
+        .from(agents)
+        .where(inArray(agents.id, agentIds))
+    ).map((a) => [a.id, a.tokenAddress])
+  );
+
+  let scored = 0;
+  for (const row of rows) {
+    const outcomes: NewActionOutcome[] = [];
+
+    try {
+      const state = deserializeSnapshot(row.stateSnapshot);
+      const actions = parseJson<ScorableAction[]>(row.actions, []);
+      const results = parseJson<StoredResult[]>(row.executionResults, []);
+      const source = decisionSource(row);
+      const ownToken = ownTokens.get(row.agentId);
+      const horizonEnd = row.timestamp + horizonMs;
+
+      for (const [index, action] of actions.entries()) {
+        const result = results[index];
+        if (!isScoredActionType(action.type) || result?.actionType !== action.type || !result.success) {
+          continue;
+        }
+
+        const token = outcomeToken(action, state);
+        if (!token) continue;
+
+        const isTrade = action.type === "BUY_TOKEN" || action.type === "SELL_TOKEN";
+        const outcome = scoreAction({
+          action,
+          state,
+          ownTokenAddress: ownToken,
+          exitPrice: await priceAt(token, horizonEnd, state, ownToken),
+          horizonMs,
+          fill: isTrade ? await findFill(result.txHash, token) : null,
+        });
+        if (!outcome) continue;
+
+        outcomes.push({
+          decisionLogId: row.id,
+          actionIndex: index,
+          agentId: row.agentId,
+          actionType: action.type,
+          source,
+          confidence: typeof action.confidence === "number" ? action.confidence : 0.5,
+          tokenAddress: outcome.tokenAddress,
+          method: outcome.method,
+          entryPrice: outcome.entryPrice.toString(),
+          exitPrice: outcome.exitPrice.toString(),
+          notionalUsdc: outcome.notionalUsdc.toString(),
+          outcomeUsdc: outcome.outcomeUsdc.toString(),
+          edgePct: outcome.edgePct,
+          hit: outcome.hit,
+          decidedAt: row.timestamp,
+          horizonMs,
+          scoredAt: now,
+        });
+      }
+    } catch (error) {
+      // A malformed log is marked scored so it is not retried every pass
+      logger.warn(
+        { decisionLogId: row.id, error: error instanceof Error ? error.message : String(error) },
+        "Failed to score decision log"
+      );
+    }
+
+    await db.transaction(async (tx) => {
+      if (outcomes.length > 0) {
+        await tx.insert(actionOutcomes).values(outcomes).onConflictDoNothing();
+      }
+      await tx.update(decisionLogs).set({ scoredAt: now }).where(eq(decisionLogs.id, row.id));
+    });
+    scored += outcomes.length;
+  }
+
+  return { logs: rows.length, scored };
+}
+
+/**
+ * Scored outcomes for an agent, oldest first
+ */
+export async function getAgentOutcomes(
+  agentId: string,
+  options: { since?: number } = {}
+): Promise<ActionOutcome[]> {
+  return db
+    .select()
+    .from(actionOutcomes)
+    .where(
+      and(
+        eq(actionOutcomes.agentId, agentId),
+        options.since !== undefined ? gte(actionOutcomes.decidedAt, options.since) : undefined
+      )
+    )
+    .orderBy(asc(actionOutcomes.decidedAt), asc(actionOutcomes.actionIndex));
+}
+
+/**
+ * Convert stored rows for summarizePerformance
+ */
+export function toOutcomeRecord(row: ActionOutcome): OutcomeRecord {
+  return {
+    decisionLogId: row.decisionLogId,
+    actionType: row.actionType,
+    source: row.source === "llm" ? "llm" : "rules",
+    confidence: row.confidence,
+    outcomeUsdc: BigInt(row.outcomeUsdc),
+    edgePct: row.edgePct,
+    hit: row.hit,
+    decidedAt: row.decidedAt,
+  };
+}
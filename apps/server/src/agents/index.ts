@@ -9,7 +9,10 @@ export type {
   StrategyType,
   StrategyConfig,
   AgentConfig,
+  AgentCharacter,
+  ExecutionMode,
   AgentState,
+  AgentValuation,
   Holding,
   LoanInfo,
   OtherCreator,
@@ -17,8 +20,11 @@ export type {
   ActionType,
   ThinkingStep,
   DecisionResult,
+  DecisionSource,
   DecisionLog,
   AgentRuntimeStatus,
+  RiskLimits,
+  RiskReview,
 } from "./types";
 
 // Configs
@@ -27,6 +33,8 @@ export {
   createBobConfig,
   createAllAgentConfigs,
   getAgentConfig,
+  getAgentCharacter,
+  getBuiltinAgentConfigs,
   ALICE_STRATEGY,
   BOB_STRATEGY,
 } from "./configs";
@@ -34,6 +42,7 @@ export {
 // Runtime
 export {
   readAgentState,
+  readAgentValuation,
   decide,
   logDecision,
   subscribeToDecisions,
@@ -59,5 +68,41 @@ export {
   BaseStrategy,
   AcademicStrategy,
   DegenStrategy,
+  registerStrategy,
+  getStrategyDefinition,
+  listStrategyDefinitions,
+  isRegisteredStrategy,
+  validateStrategyConfig,
+  serializeStrategyConfig,
+  loadStrategyModules,
 } from "./strategies";
-export type { Strategy } from "./strategies";
+export type { Strategy, StrategyDefinition } from "./strategies";
+
+// Risk
+export {
+  reviewActions,
+  evaluateRisk,
+  resolveRiskLimits,
+  DEFAULT_RISK_LIMITS,
+} from "./risk";
+
+// Paper trading
+export { executePaperActions, readPaperState, resetPaperAccount } from "./paper";
+export type { PaperAccount } from "./paper";
+
+// Memory
+export { loadAgentMemory, resetAgentMemory, formatMemoryForLLM, reflectIfDue } from "./memory";
+export type { AgentMemory, MemoryEntry } from "./memory";
+
+// Trade accounting
+export { getAgentLedger, recordNavSnapshot, computeNav } from "./accounting";
+export type { AgentLedger, LedgerPosition, NavBreakdown } from "./accounting";
+
+// Backtesting
+export {
+  runBacktest,
+  getBacktestStrategies,
+  getBacktestStrategyIds,
+  simulateStrategy,
+} from "./backtest";
+export type { BacktestReport, BacktestResult } from "./backtest";
@@ -13,6 +13,8 @@ import { db } from "../db/client";
 import { agents } from "../db/schema";
 import { logger } from "../utils/logger";
 import type { AgentConfig } from "./types";
+import { getAgentCharacter } from "./configs";
+import { serializeStrategyConfig } from "./strategies";
 
 /**
  * Wallet info returned after initialization
@@ -48,7 +50,11 @@ export async function seedAgents(agentConfigs: AgentConfig[]): Promise<void> {
         tokenAddress: config.tokenAddress,
         bondingCurveAddress: config.bondingCurveAddress,
         strategyType: config.strategyType,
-        strategyConfig: JSON.stringify(config.strategy),
+        strategyConfig: serializeStrategyConfig(config.strategy),
+        character: getAgentCharacter(config.id)
+          ? JSON.stringify(getAgentCharacter(config.id))
+          : null,
+        executionMode: config.executionMode ?? "live",
         isActive: true,
       });
 
@@ -98,6 +104,16 @@ export async function initializeAgentWallets(
         circleWalletAddress: wallet.address,
       });
 
+      // Persist on the roster row so the agent loads with its wallet next time
+      await db
+        .update(agents)
+        .set({
+          circleWalletId: wallet.id,
+          evmAddress: wallet.address,
+          updatedAt: new Date(),
+        })
+        .where(eq(agents.id, config.id));
+
       logger.info(
         {
           agentId: config.id,
@@ -0,0 +1,77 @@
+/**
+ * Leaderboard
+ *
+ * Ranks the roster by latest NAV and attaches each agent's NAV curve with
+ * its return, Sharpe-like ratio and max drawdown over the window.
+ */
+
+import { and, asc, gte, inArray } from "drizzle-orm";
+import { db } from "../../db/client";
+import { navSnapshots, type NavSnapshot } from "../../db/schema";
+import { createAllAgentConfigs } from "../configs";
+import type { ExecutionMode } from "../types";
+import { summarizeNavSeries, type NavPoint, type NavStats } from "./stats";
+
+export interface LeaderboardEntry {
+  rank: number;
+  agentId: string;
+  name: string;
+  executionMode: ExecutionMode;
+  /** Most recent snapshot in the window (null if the agent has none) */
+  latest: NavSnapshot | null;
+  stats: NavStats;
+  series: NavPoint[];
+}
+
+export interface Leaderboard {
+  days: number;
+  since: string;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Leaderboard over the last `days` UTC days
+ */
+export async function getLeaderboard(days: number, now: number = Date.now()): Promise<Leaderboard> {
+  const configs = createAllAgentConfigs();
+  const since = new Date(now - (days - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const rows =
+    configs.length > 0
+      ? await db
+          .select()
+          .from(navSnapshots)
+          .where(
+            and(
+              inArray(navSnapshots.agentId, configs.map((c) => c.id)),
+              gte(navSnapshots.day, since)
+            )
+          )
+          .orderBy(asc(navSnapshots.day))
+      : [];
+
+  const entries = configs.map((config) => {
+    const own = rows.filter((r) => r.agentId === config.id);
+    const series = own.map((r) => ({ day: r.day, nav: BigInt(r.nav) }));
+    return {
+      rank: 0,
+      agentId: config.id,
+      name: config.name,
+      executionMode: config.executionMode ?? "live",
+      latest: own[own.length - 1] ?? null,
+      stats: summarizeNavSeries(series),
+      series,
+    };
+  });
+
+  // Highest NAV first; agents without snapshots last
+  entries.sort((a, b) => {
+    if (a.stats.endNav === null || b.stats.endNav === null) {
+      return (a.stats.endNav === null ? 1 : 0) - (b.stats.endNav === null ? 1 : 0);
+    }
+    return a.stats.endNav === b.stats.endNav ? 0 : a.stats.endNav > b.stats.endNav ? -1 : 1;
+  });
+  entries.forEach((entry, i) => (entry.rank = i + 1));
+
+  return { days, since, entries };
+}
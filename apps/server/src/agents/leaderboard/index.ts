@@ -0,0 +1,62 @@
+/**
+ * Leaderboard Module
+ *
+ * Scores the competing agents on net asset value. A snapshot worker values
+ * every agent each NAV_SNAPSHOT_POLL_MS and keeps one snapshot per agent per
+ * UTC day; the leaderboard ranks agents by NAV with return, a Sharpe-like
+ * ratio and max drawdown over the window. Passes never overlap.
+ */
+
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { snapshotAllAgents } from "./snapshot";
+
+export {
+  dailyReturns,
+  sharpeRatio,
+  maxDrawdownPct,
+  summarizeNavSeries,
+  type NavPoint,
+  type NavStats,
+} from "./stats";
+export {
+  snapshotAgentNav,
+  snapshotAllAgents,
+  readStreamingRevenue,
+  type StreamingRevenue,
+  type SnapshotPassResult,
+} from "./snapshot";
+export { getLeaderboard, type Leaderboard, type LeaderboardEntry } from "./board";
+
+let snapshotTimeout: ReturnType<typeof setTimeout> | null = null;
+let snapshotStopped = true;
+
+export function startNavSnapshots(intervalMs: number = env.NAV_SNAPSHOT_POLL_MS): void {
+  if (!snapshotStopped) return;
+  snapshotStopped = false;
+
+  async function run() {
+    if (snapshotStopped) return;
+    try {
+      const result = await snapshotAllAgents();
+      logger.info(result, "NAV snapshot pass complete");
+    } catch (err) {
+      logger.error({ err }, "NAV snapshot pass failed");
+    } finally {
+      if (!snapshotStopped) {
+        snapshotTimeout = setTimeout(run, intervalMs);
+      }
+    }
+  }
+
+  run();
+  logger.info({ intervalMs }, "NAV snapshot worker started");
+}
+
+export function stopNavSnapshots(): void {
+  snapshotStopped = true;
+  if (snapshotTimeout) {
+    clearTimeout(snapshotTimeout);
+    snapshotTimeout = null;
+  }
+}
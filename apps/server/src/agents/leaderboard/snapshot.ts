@@ -0,0 +1,98 @@
+/**
+ * NAV Snapshot Job
+ *
+ * Values every agent on the roster and upserts its nav_snapshots row for
+ * the day, so each agent gets one NAV point per UTC day (the last pass of
+ * the day wins). Agents are read one at a time to stay under the RPC rate
+ * limit; a failure for one agent does not stop the pass.
+ */
+
+import { eq, inArray } from "drizzle-orm";
+import { parseUsdc, splitRevenue } from "@versus/streaming";
+import { db } from "../../db/client";
+import { videos, yellowSessions } from "../../db/schema";
+import { logger } from "../../utils/logger";
+import { recordNavSnapshot, type NavBreakdown } from "../accounting";
+import { createAllAgentConfigs } from "../configs";
+import { readAgentValuation } from "../runtime/state";
+import type { AgentConfig } from "../types";
+
+export interface StreamingRevenue {
+  /** Creator share of every closed or settled session */
+  total: bigint;
+  /** Creator share of closed sessions not yet settled on-chain */
+  unsettled: bigint;
+}
+
+export interface SnapshotPassResult {
+  agents: number;
+  failed: number;
+}
+
+/**
+ * Creator share of the agent's streaming sessions. Settled revenue has
+ * already reached the agent's wallet, so only the unsettled part adds to NAV.
+ */
+export async function readStreamingRevenue(agentId: string): Promise<StreamingRevenue> {
+  const agentVideos = await db
+    .select({ id: videos.id })
+    .from(videos)
+    .where(eq(videos.agentId, agentId));
+  if (agentVideos.length === 0) return { total: 0n, unsettled: 0n };
+
+  const sessions = await db
+    .select({ creatorBalance: yellowSessions.creatorBalance, status: yellowSessions.status })
+    .from(yellowSessions)
+    .where(inArray(yellowSessions.videoId, agentVideos.map((v) => v.id)));
+
+  let total = 0n;
+  let unsettled = 0n;
+  for (const s of sessions) {
+    if (s.status !== "closed" && s.status !== "settled") continue;
+    try {
+      const share = splitRevenue(parseUsdc(s.creatorBalance || "0")).creator;
+      total += share;
+      if (s.status === "closed") unsettled += share;
+    } catch {
+      // Malformed balances are skipped, as in the earnings route
+    }
+  }
+
+  return { total, unsettled };
+}
+
+/**
+ * Value one agent now and upsert today's snapshot
+ */
+export async function snapshotAgentNav(config: AgentConfig): Promise<NavBreakdown> {
+  const valuation = await readAgentValuation(config);
+  const streamingRevenue = await readStreamingRevenue(config.id);
+
+  return recordNavSnapshot(config.id, valuation, {
+    ownTokenAddress: config.tokenAddress,
+    ownTokenBalance: valuation.ownTokenBalance,
+    streamingRevenue,
+  });
+}
+
+/**
+ * Snapshot every agent on the roster
+ */
+export async function snapshotAllAgents(): Promise<SnapshotPassResult> {
+  const configs = createAllAgentConfigs();
+  let failed = 0;
+
+  for (const config of configs) {
+    try {
+      await snapshotAgentNav(config);
+    } catch (error) {
+      failed++;
+      logger.warn(
+        { agentId: config.id, error: error instanceof Error ? error.message : String(error) },
+        "Failed to snapshot agent NAV"
+      );
+    }
+  }
+
+  return { agents: configs.length, failed };
+}
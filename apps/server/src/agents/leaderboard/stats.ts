@@ -0,0 +1,90 @@
+/**
+ * Leaderboard Statistics
+ *
+ * Risk and return figures from an agent's daily NAV series (USDC, 6
+ * decimals). Returns are simple day-over-day changes; days whose previous
+ * NAV is not positive are skipped.
+ */
+
+/** Days per year used to annualize the Sharpe-like ratio (markets never close) */
+const DAYS_PER_YEAR = 365;
+
+export interface NavPoint {
+  /** YYYY-MM-DD (UTC) */
+  day: string;
+  nav: bigint;
+}
+
+export interface NavStats {
+  days: number;
+  startNav: bigint | null;
+  endNav: bigint | null;
+  /** Change over the series, in percent of the first NAV */
+  returnPct: number | null;
+  /** Annualized mean daily return over its volatility (no risk-free rate) */
+  sharpe: number | null;
+  /** Largest peak-to-trough fall, in percent of the peak */
+  maxDrawdownPct: number;
+}
+
+function pct(change: bigint, base: bigint): number {
+  return Number((change * 1_000_000n) / base) / 10_000;
+}
+
+/**
+ * Day-over-day returns as fractions (0.01 = +1%)
+ */
+export function dailyReturns(series: NavPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1].nav;
+    if (previous <= 0n) continue;
+    returns.push(pct(series[i].nav - previous, previous) / 100);
+  }
+  return returns;
+}
+
+/**
+ * Annualized mean return over its sample standard deviation; null with
+ * fewer than two returns or no volatility
+ */
+export function sharpeRatio(returns: number[]): number | null {
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  if (variance === 0) return null;
+  return (mean / Math.sqrt(variance)) * Math.sqrt(DAYS_PER_YEAR);
+}
+
+/**
+ * Largest peak-to-trough fall in percent (0 if NAV never fell)
+ */
+export function maxDrawdownPct(series: NavPoint[]): number {
+  let peak: bigint | null = null;
+  let worst = 0;
+  for (const point of series) {
+    if (peak === null || point.nav > peak) peak = point.nav;
+    if (peak > 0n && point.nav < peak) {
+      worst = Math.max(worst, pct(peak - point.nav, peak));
+    }
+  }
+  return worst;
+}
+
+/**
+ * Summarize a NAV series (any order)
+ */
+export function summarizeNavSeries(points: NavPoint[]): NavStats {
+  const series = [...points].sort((a, b) => a.day.localeCompare(b.day));
+  const start = series[0]?.nav ?? null;
+  const end = series[series.length - 1]?.nav ?? null;
+
+  return {
+    days: series.length,
+    startNav: start,
+    endNav: end,
+    returnPct: start !== null && end !== null && start > 0n ? pct(end - start, start) : null,
+    sharpe: sharpeRatio(dailyReturns(series)),
+    maxDrawdownPct: maxDrawdownPct(series),
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Agent Memory Module
+ *
+ * Recent decisions and their outcomes, plus periodic LLM reflections,
+ * summarized into a bounded prompt section.
+ */
+
+export {
+  summarizeDecisions,
+  memoryStats,
+  formatMemoryForLLM,
+  MEMORY_PROMPT_ENTRIES,
+  MEMORY_REFLECTION_CHARS,
+  type AgentMemory,
+  type MemoryEntry,
+  type MemoryLog,
+  type MemoryOutcomeStatus,
+  type MemoryReflection,
+  type MemoryStats,
+} from "./summarize";
+export {
+  loadAgentMemory,
+  countDecisionsSinceReflection,
+  saveReflection,
+  resetAgentMemory,
+  MEMORY_WINDOW,
+} from "./store";
+export { reflectIfDue } from "./reflect";
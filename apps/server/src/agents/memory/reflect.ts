@@ -0,0 +1,110 @@
+/**
+ * Agent Reflection
+ *
+ * Every AGENT_REFLECTION_INTERVAL decisions, asks the trading LLM chain to
+ * review the agent's recent decisions and outcomes and write a few
+ * "lessons learned". The latest reflection is shown in later prompts.
+ */
+
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { completeLlm, isLlmConfigured } from "../../integrations/llm/client";
+import type { AgentConfig, AgentState } from "../types";
+import { countDecisionsSinceReflection, loadAgentMemory, saveReflection } from "./store";
+import type { AgentMemory } from "./summarize";
+
+/** Stored reflection length cap */
+const MAX_REFLECTION_CHARS = 2000;
+/** Decisions described to the reflecting model */
+const REFLECTION_ENTRIES = 30;
+
+// One reflection at a time per agent (cycles can outpace a slow model)
+const inProgress = new Set<string>();
+
+function buildReflectionPrompt(config: AgentConfig, memory: AgentMemory): string {
+  const lines: string[] = [
+    `Review ${config.name}'s recent trading decisions on the Versus platform (${config.strategyType} strategy).`,
+  ];
+
+  if (memory.reflection) {
+    lines.push("", "## Previous Lessons", memory.reflection.content.trim());
+  }
+
+  lines.push("", "## Decisions (newest first)");
+  for (const entry of memory.entries.slice(0, REFLECTION_ENTRIES)) {
+    const subject = [entry.type, entry.token, entry.amount].filter(Boolean).join(" ");
+    const outcome = entry.outcome ? `; ${entry.outcome}` : "";
+    lines.push(`- Cycle ${entry.cycle}: ${subject} (${entry.status}${outcome}). Reason: ${entry.reason || "none given"}`);
+  }
+
+  const { stats } = memory;
+  lines.push(
+    "",
+    `## Track Record`,
+    `- ${stats.cycles} cycles, ${stats.actions} actions: ${stats.executed} executed, ${stats.failed} failed, ${stats.vetoed} vetoed`,
+    `- Win rate: ${stats.winRate === null ? "n/a" : `${Math.round(stats.winRate * 100)}%`}`,
+    "",
+    "Write 3-6 short bullet points of lessons learned: what worked, what did not, and what to do differently next time. " +
+      "Be specific (tokens, sizes, timing, risk limits). Reply with the bullet points only."
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Write a reflection if enough decisions have accumulated since the last one.
+ * Returns the new reflection text, or null if none was due or possible.
+ */
+export async function reflectIfDue(config: AgentConfig, state: AgentState): Promise<string | null> {
+  const interval = env.AGENT_REFLECTION_INTERVAL;
+  if (interval === 0 || inProgress.has(config.id) || !isLlmConfigured("trading")) {
+    return null;
+  }
+
+  inProgress.add(config.id);
+  try {
+    const decisionCount = await countDecisionsSinceReflection(config.id);
+    if (decisionCount < interval) return null;
+
+    const memory = await loadAgentMemory(config.id, state);
+    if (memory.entries.length === 0) return null;
+
+    const result = await completeLlm(
+      "trading",
+      {
+        messages: [
+          {
+            role: "system",
+            content: "You are a trading coach reviewing an autonomous agent's decisions. Be concise and concrete.",
+          },
+          { role: "user", content: buildReflectionPrompt(config, memory) },
+        ],
+        temperature: 0.3,
+        maxTokens: 600,
+      },
+      { caller: `reflection:${config.id}`, agentId: config.id }
+    );
+
+    const content = (result.message.content ?? "").trim().slice(0, MAX_REFLECTION_CHARS);
+    if (!content) {
+      throw new Error("LLM returned an empty reflection");
+    }
+
+    await saveReflection({
+      agentId: config.id,
+      content,
+      cycle: state.cycle,
+      decisionCount,
+      provider: result.provider,
+      model: result.model,
+    });
+
+    logger.info(
+      { agentId: config.id, cycle: state.cycle, decisionCount, provider: result.provider },
+      "Agent reflection written"
+    );
+    return content;
+  } finally {
+    inProgress.delete(config.id);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Agent Memory Store
+ *
+ * Reads the memory window (decision logs after the latest reset) and the
+ * latest reflection from the database, and records resets and reflections.
+ */
+
+import { and, count, desc, eq, gt } from "drizzle-orm";
+import { db } from "../../db/client";
+import { agentReflections, decisionLogs, type AgentReflection } from "../../db/schema";
+import { deserializeSnapshot } from "../backtest/loader";
+import type { AgentState } from "../types";
+import {
+  memoryStats,
+  summarizeDecisions,
+  type AgentMemory,
+  type MemoryLog,
+} from "./summarize";
+
+/** Decision logs considered for memory */
+export const MEMORY_WINDOW = 50;
+
+async function latest(agentId: string, kind: "reflection" | "reset"): Promise<AgentReflection | null> {
+  const [row] = await db
+    .select()
+    .from(agentReflections)
+    .where(and(eq(agentReflections.agentId, agentId), eq(agentReflections.kind, kind)))
+    .orderBy(desc(agentReflections.createdAt), desc(agentReflections.id))
+    .limit(1);
+  return row ?? null;
+}
+
+function parseJson<T>(json: string | null, fallback: T): T {
+  if (!json) return fallback;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Latest reset time (ms) for an agent, 0 if memory was never reset
+ */
+async function resetSince(agentId: string): Promise<{ resetAt: Date | null; since: number }> {
+  const reset = await latest(agentId, "reset");
+  const resetAt = reset?.createdAt ?? null;
+  return { resetAt, since: resetAt?.getTime() ?? 0 };
+}
+
+/**
+ * Load recent decision logs after a Unix ms timestamp, newest first
+ */
+async function loadMemoryLogs(agentId: string, since: number, limit = MEMORY_WINDOW): Promise<MemoryLog[]> {
+  const rows = await db
+    .select()
+    .from(decisionLogs)
+    .where(and(eq(decisionLogs.agentId, agentId), gt(decisionLogs.timestamp, since)))
+    .orderBy(desc(decisionLogs.timestamp))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    id: row.id,
+    cycle: row.cycle,
+    timestamp: row.timestamp,
+    state: deserializeSnapshot(row.stateSnapshot),
+    actions: parseJson(row.actions, []),
+    executionResults: parseJson(row.executionResults, null),
+  }));
+}
+
+/**
+ * Build an agent's memory relative to its current state
+ * (default: the latest decision's snapshot)
+ */
+export async function loadAgentMemory(agentId: string, current?: AgentState): Promise<AgentMemory> {
+  const { resetAt, since } = await resetSince(agentId);
+  const [reflection, logs] = await Promise.all([
+    latest(agentId, "reflection"),
+    loadMemoryLogs(agentId, since),
+  ]);
+
+  const reference = current ?? logs[0]?.state;
+  const entries = reference ? summarizeDecisions(logs, reference) : [];
+  const reflectionAfterReset =
+    reflection?.content && (reflection.createdAt?.getTime() ?? 0) > since ? reflection : null;
+
+  return {
+    agentId,
+    resetAt: resetAt?.toISOString() ?? null,
+    reflection: reflectionAfterReset
+      ? {
+          content: reflectionAfterReset.content!,
+          cycle: reflectionAfterReset.cycle,
+          createdAt: reflectionAfterReset.createdAt!.toISOString(),
+        }
+      : null,
+    entries,
+    stats: memoryStats(logs, entries),
+  };
+}
+
+/**
+ * Decision logs written since the latest reflection or reset
+ */
+export async function countDecisionsSinceReflection(agentId: string): Promise<number> {
+  const [reflection, { since }] = await Promise.all([latest(agentId, "reflection"), resetSince(agentId)]);
+  const after = Math.max(since, reflection?.createdAt?.getTime() ?? 0);
+
+  const [row] = await db
+    .select({ count: count() })
+    .from(decisionLogs)
+    .where(and(eq(decisionLogs.agentId, agentId), gt(decisionLogs.timestamp, after)));
+  return row?.count ?? 0;
+}
+
+/**
+ * Store a reflection
+ */
+export async function saveReflection(reflection: {
+  agentId: string;
+  content: string;
+  cycle: number;
+  decisionCount: number;
+  provider: string;
+  model: string;
+}): Promise<AgentReflection> {
+  const [row] = await db
+    .insert(agentReflections)
+    .values({ kind: "reflection", ...reflection })
+    .returning();
+  return row;
+}
+
+/**
+ * Forget everything before now: later prompts only see newer decisions
+ * and reflections. History stays in decision_logs.
+ */
+export async function resetAgentMemory(agentId: string, cycle: number): Promise<AgentReflection> {
+  const [row] = await db
+    .insert(agentReflections)
+    .values({ agentId, kind: "reset", cycle })
+    .returning();
+  return row;
+}
@@ -0,0 +1,286 @@
+/**
+ * Decision Memory
+ *
+ * Turns recent decision_logs rows into a compact record of what the agent
+ * decided, whether it executed, and how it turned out since:
+ * - Buys are marked to the token's current price
+ * - Sells report the realized P&L against the average buy price at the time
+ * - Loan actions report the health factor then and now
+ *
+ * The prompt section is bounded (entry count and reflection length) so
+ * memory never crowds out the current state.
+ */
+
+import type { AgentState } from "../types";
+
+/** Entries shown in the prompt */
+export const MEMORY_PROMPT_ENTRIES = 8;
+/** Reflection characters shown in the prompt */
+export const MEMORY_REFLECTION_CHARS = 1500;
+
+// ============================================
+// Types
+// ============================================
+
+/** A decision_logs row with its snapshot deserialized */
+export interface MemoryLog {
+  id: number;
+  cycle: number;
+  timestamp: number;
+  state: AgentState;
+  /** Actions as stored (bigints are strings) */
+  actions: StoredAction[];
+  /** Execution results as stored; null if the cycle's results were never logged */
+  executionResults: StoredExecutionResult[] | null;
+}
+
+export interface StoredAction {
+  type: string;
+  params: Record<string, unknown>;
+  reason?: string;
+}
+
+export interface StoredExecutionResult {
+  actionType: string;
+  success: boolean;
+  error?: string;
+  risk?: { verdict?: string };
+}
+
+export type MemoryOutcomeStatus = "executed" | "failed" | "vetoed" | "pending";
+
+export interface MemoryEntry {
+  logId: number;
+  cycle: number;
+  timestamp: number;
+  type: string;
+  /** Token name or address for trades */
+  token?: string;
+  /** Human-readable amount, e.g. "2.00 USDC" */
+  amount?: string;
+  reason: string;
+  status: MemoryOutcomeStatus;
+  /** How it turned out, e.g. "+4.2% since buy" */
+  outcome?: string;
+  /** Signed return for trades (buys: since entry, sells: realized vs cost) */
+  returnPct?: number;
+}
+
+export interface MemoryReflection {
+  content: string;
+  cycle: number;
+  createdAt: string;
+}
+
+export interface MemoryStats {
+  /** Cycles in the memory window, including ones with no actions */
+  cycles: number;
+  actions: number;
+  executed: number;
+  failed: number;
+  vetoed: number;
+  /** Executed trades with a positive return / executed trades with a return */
+  winRate: number | null;
+}
+
+export interface AgentMemory {
+  agentId: string;
+  /** Memory only covers decisions after this time */
+  resetAt: string | null;
+  reflection: MemoryReflection | null;
+  entries: MemoryEntry[];
+  stats: MemoryStats;
+}
+
+// ============================================
+// Summaries
+// ============================================
+
+const big = (value: unknown): bigint => {
+  try {
+    return BigInt(String(value ?? "0"));
+  } catch {
+    return 0n;
+  }
+};
+
+const key = (address: unknown): string => String(address ?? "").toLowerCase();
+
+function usdc(amount: bigint): string {
+  return `${(Number(amount) / 1e6).toFixed(2)} USDC`;
+}
+
+function tokens(amount: bigint, decimals = 18): string {
+  return `${(Number(amount) / 10 ** decimals).toFixed(2)} tokens`;
+}
+
+function pct(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+/** Token price and name in a state, from holdings or other creators */
+function priceIn(state: AgentState, token: string): { price: bigint; name?: string } | null {
+  const holding = state.holdings.find((h) => key(h.tokenAddress) === token);
+  if (holding) return { price: holding.currentPrice, name: holding.tokenName };
+  const creator = state.otherCreators.find((c) => key(c.tokenAddress) === token);
+  return creator ? { price: creator.currentPrice } : null;
+}
+
+function statusOf(result: StoredExecutionResult | undefined): MemoryOutcomeStatus {
+  if (!result) return "pending";
+  if (result.risk?.verdict === "vetoed") return "vetoed";
+  if (result.success) return "executed";
+  return result.error ? "failed" : "pending";
+}
+
+function describe(action: StoredAction, log: MemoryLog, current: AgentState, entry: MemoryEntry): void {
+  const params = action.params ?? {};
+
+  switch (action.type) {
+    case "BUY_TOKEN": {
+      const token = key(params.tokenAddress);
+      const then = priceIn(log.state, token);
+      const now = priceIn(current, token);
+      entry.token = String(params.tokenName || then?.name || now?.name || params.tokenAddress);
+      entry.amount = usdc(big(params.usdcAmount));
+      if (entry.status === "executed" && then && now && then.price > 0n) {
+        entry.returnPct = Number(((now.price - then.price) * 10000n) / then.price) / 100;
+        entry.outcome = `${pct(entry.returnPct)} since buy`;
+      }
+      break;
+    }
+
+    case "SELL_TOKEN": {
+      const token = key(params.tokenAddress);
+      const holding = log.state.holdings.find((h) => key(h.tokenAddress) === token);
+      const amount = big(params.tokenAmount);
+      entry.token = String(params.tokenName || holding?.tokenName || params.tokenAddress);
+      const decimals = holding?.tokenDecimals ?? 18;
+      entry.amount = tokens(amount, decimals);
+      if (entry.status === "executed" && holding && holding.avgBuyPrice > 0n) {
+        const realized = (amount * (holding.currentPrice - holding.avgBuyPrice)) / 10n ** BigInt(decimals);
+        entry.returnPct =
+          Number(((holding.currentPrice - holding.avgBuyPrice) * 10000n) / holding.avgBuyPrice) / 100;
+        entry.outcome = `realized ${realized >= 0n ? "+" : "-"}${usdc(realized >= 0n ? realized : -realized)} (${pct(entry.returnPct)})`;
+      }
+      break;
+    }
+
+    case "BORROW":
+    case "REPAY":
+    case "DEPOSIT_COLLATERAL":
+    case "WITHDRAW_COLLATERAL": {
+      if (action.type === "BORROW") entry.amount = usdc(big(params.borrowAmount));
+      else if (action.type === "REPAY") entry.amount = usdc(big(params.repayAmount));
+      else entry.amount = tokens(big(params.amount));
+
+      const before = log.state.loan?.active ? log.state.loan.healthFactor : null;
+      const after = current.loan?.active ? current.loan.healthFactor : null;
+      if (entry.status === "executed" && before !== null) {
+        entry.outcome =
+          after !== null
+            ? `health factor ${before.toFixed(2)} then, ${after.toFixed(2)} now`
+            : `health factor ${before.toFixed(2)} then, loan closed now`;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Summarize decision logs (any order) into memory entries, newest first
+ */
+export function summarizeDecisions(logs: MemoryLog[], current: AgentState): MemoryEntry[] {
+  const entries: MemoryEntry[] = [];
+  const sorted = [...logs].sort((a, b) => b.timestamp - a.timestamp);
+
+  for (const log of sorted) {
+    const results = log.executionResults ?? [];
+    const used = new Set<number>();
+
+    log.actions.forEach((action, index) => {
+      // Results are stored in action order; fall back to the first unused result of the same type
+      let resultIndex = results[index]?.actionType === action.type ? index : -1;
+      if (resultIndex === -1 || used.has(resultIndex)) {
+        resultIndex = results.findIndex((r, i) => !used.has(i) && r.actionType === action.type);
+      }
+      if (resultIndex !== -1) used.add(resultIndex);
+
+      const entry: MemoryEntry = {
+        logId: log.id,
+        cycle: log.cycle,
+        timestamp: log.timestamp,
+        type: action.type,
+        reason: action.reason ?? "",
+        status: statusOf(resultIndex !== -1 ? results[resultIndex] : undefined),
+      };
+      describe(action, log, current, entry);
+      entries.push(entry);
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Counts and win rate over the memory window
+ */
+export function memoryStats(logs: MemoryLog[], entries: MemoryEntry[]): MemoryStats {
+  const trades = entries.filter((e) => e.status === "executed" && e.returnPct !== undefined);
+  return {
+    cycles: logs.length,
+    actions: entries.length,
+    executed: entries.filter((e) => e.status === "executed").length,
+    failed: entries.filter((e) => e.status === "failed").length,
+    vetoed: entries.filter((e) => e.status === "vetoed").length,
+    winRate: trades.length > 0 ? trades.filter((e) => e.returnPct! > 0).length / trades.length : null,
+  };
+}
+
+// ============================================
+// Prompt
+// ============================================
+
+function ago(timestamp: number, now: number): string {
+  const minutes = Math.max(0, Math.round((now - timestamp) / 60000));
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  return hours < 48 ? `${hours}h ago` : `${Math.round(hours / 24)}d ago`;
+}
+
+/**
+ * Format memory as a bounded prompt section (empty string when there is nothing to remember)
+ */
+export function formatMemoryForLLM(memory: AgentMemory, now: number): string {
+  if (!memory.reflection && memory.entries.length === 0) return "";
+
+  const lines: string[] = ["## Memory"];
+
+  if (memory.reflection) {
+    const content = memory.reflection.content.trim();
+    lines.push(
+      "",
+      `### Lessons Learned (reflection at cycle ${memory.reflection.cycle})`,
+      content.length > MEMORY_REFLECTION_CHARS
+        ? `${content.slice(0, MEMORY_REFLECTION_CHARS)}…`
+        : content
+    );
+  }
+
+  if (memory.entries.length > 0) {
+    lines.push("", "### Recent Decisions (newest first)");
+    for (const entry of memory.entries.slice(0, MEMORY_PROMPT_ENTRIES)) {
+      const subject = [entry.type, entry.token, entry.amount].filter(Boolean).join(" ");
+      const outcome = entry.outcome ? `, ${entry.outcome}` : "";
+      lines.push(`- Cycle ${entry.cycle} (${ago(entry.timestamp, now)}): ${subject} — ${entry.status}${outcome}`);
+    }
+
+    const { stats } = memory;
+    const record = [`${stats.executed}/${stats.actions} actions executed over ${stats.cycles} cycles`];
+    if (stats.vetoed > 0) record.push(`${stats.vetoed} vetoed by risk limits`);
+    if (stats.winRate !== null) record.push(`${Math.round(stats.winRate * 100)}% of trades in profit`);
+    lines.push("", `Track record: ${record.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
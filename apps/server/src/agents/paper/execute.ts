@@ -0,0 +1,182 @@
+/**
+ * Paper Executor
+ *
+ * Executes agent actions against a paper account instead of Circle.
+ * Buys and sells fill at the bonding curve's on-chain getBuyQuote /
+ * getSellQuote; loans follow LendingPool rules with collateral valued at the
+ * on-chain floor price. Nothing is submitted, so paper agents spend no
+ * testnet funds and never contend for nonces.
+ *
+ * Paper fills do not move the real curve, so consecutive paper buys all see
+ * the current on-chain price.
+ */
+
+import type { Address } from "viem";
+import { getBondingCurve } from "../../integrations/chain/contracts";
+import { logger } from "../../utils/logger";
+import type { ExecutionResult } from "../runtime/execute";
+import type {
+  Action,
+  AgentConfig,
+  BuyTokenParams,
+  SellTokenParams,
+  RepayParams,
+  ClaimRevenueParams,
+  BorrowParams,
+  DepositCollateralParams,
+  WithdrawCollateralParams,
+} from "../types";
+import {
+  applyBuy,
+  applySell,
+  applyClaimRevenue,
+  applyDepositCollateral,
+  applyBorrow,
+  applyRepay,
+  applyWithdrawCollateral,
+  type PaperAccount,
+} from "./ledger";
+import { loadPaperAccount, savePaperAccount } from "./store";
+
+let paperTxCounter = 0;
+
+function paperTransactionId(action: Action): string {
+  paperTxCounter++;
+  return `paper-${action.type.toLowerCase()}-${Date.now()}-${paperTxCounter}`;
+}
+
+/**
+ * Floor price of a collateral token's bonding curve (USDC, 6 decimals)
+ */
+async function readFloorPrice(bondingCurveAddress: Address): Promise<bigint> {
+  const bondingCurve = getBondingCurve(bondingCurveAddress);
+  return (await bondingCurve.read.getFloorPrice()) as bigint;
+}
+
+/**
+ * Execute all actions for an agent cycle against its paper account
+ */
+export async function executePaperActions(
+  actions: Action[],
+  config: AgentConfig
+): Promise<ExecutionResult[]> {
+  const account = await loadPaperAccount(config.id);
+  const results: ExecutionResult[] = [];
+
+  // Sort actions by priority (highest first)
+  const sortedActions = [...actions].sort((a, b) => b.priority - a.priority);
+
+  for (const action of sortedActions) {
+    try {
+      await executePaperAction(action, account, config);
+      results.push({ action, success: true, transactionId: paperTransactionId(action) });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        { agentId: config.id, actionType: action.type, error: errorMessage },
+        "Paper action rejected"
+      );
+      results.push({ action, success: false, error: errorMessage });
+    }
+  }
+
+  await savePaperAccount(account);
+
+  logger.info(
+    {
+      agentId: config.id,
+      executed: results.filter((r) => r.success).length,
+      rejected: results.filter((r) => !r.success).length,
+      usdcBalance: account.usdcBalance.toString(),
+    },
+    "Paper actions executed"
+  );
+
+  return results;
+}
+
+/**
+ * Apply a single action to the paper account
+ */
+async function executePaperAction(
+  action: Action,
+  account: PaperAccount,
+  config: AgentConfig
+): Promise<void> {
+  const now = Date.now();
+
+  switch (action.type) {
+    case "BUY_TOKEN": {
+      const params = action.params as BuyTokenParams;
+      const bondingCurve = getBondingCurve(params.bondingCurveAddress);
+      const tokensOut = (await bondingCurve.read.getBuyQuote([params.usdcAmount])) as bigint;
+      if (params.minTokensOut > 0n && tokensOut < params.minTokensOut) {
+        throw new Error("SlippageExceeded");
+      }
+      applyBuy(
+        account,
+        {
+          tokenAddress: params.tokenAddress,
+          bondingCurveAddress: params.bondingCurveAddress,
+          tokenName: params.tokenName,
+        },
+        params.usdcAmount,
+        tokensOut
+      );
+      return;
+    }
+
+    case "SELL_TOKEN": {
+      const params = action.params as SellTokenParams;
+      const bondingCurve = getBondingCurve(params.bondingCurveAddress);
+      const usdcOut = (await bondingCurve.read.getSellQuote([params.tokenAmount])) as bigint;
+      if (params.minUsdcOut > 0n && usdcOut < params.minUsdcOut) {
+        throw new Error("SlippageExceeded");
+      }
+      applySell(account, params.tokenAddress, params.tokenAmount, usdcOut);
+      return;
+    }
+
+    case "CLAIM_REVENUE": {
+      const params = action.params as ClaimRevenueParams;
+      const bondingCurve = getBondingCurve(params.bondingCurveAddress);
+      const earned = (await bondingCurve.read.earned([config.evmAddress])) as bigint;
+      applyClaimRevenue(account, earned);
+      return;
+    }
+
+    case "DEPOSIT_COLLATERAL": {
+      const params = action.params as DepositCollateralParams;
+      applyDepositCollateral(account, params.tokenAddress, params.amount, now);
+      return;
+    }
+
+    case "BORROW": {
+      const params = action.params as BorrowParams;
+      if (params.collateralAmount > 0n) {
+        applyDepositCollateral(account, params.collateralToken, params.collateralAmount, now);
+      }
+      if (!account.loan) throw new Error("NoLoan");
+      const floorPrice = await readFloorPrice(account.loan.collateralBondingCurve);
+      applyBorrow(account, params.borrowAmount, floorPrice, now);
+      return;
+    }
+
+    case "REPAY": {
+      const params = action.params as RepayParams;
+      applyRepay(account, params.repayAmount, params.withdrawCollateral, now);
+      return;
+    }
+
+    case "WITHDRAW_COLLATERAL": {
+      const params = action.params as WithdrawCollateralParams;
+      if (!account.loan) throw new Error("NoLoan");
+      const floorPrice = await readFloorPrice(account.loan.collateralBondingCurve);
+      applyWithdrawCollateral(account, params.amount, floorPrice, now);
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown action type: ${action.type}`);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Paper Trading Module
+ *
+ * Execution backend for agents with execution_mode = 'paper'.
+ */
+
+export { executePaperActions } from "./execute";
+export { readPaperState, type PaperStateSlice } from "./state";
+export { loadPaperAccount, savePaperAccount, resetPaperAccount } from "./store";
+export type { PaperAccount, PaperPosition, PaperLoan } from "./ledger";
@@ -0,0 +1,354 @@
+/**
+ * Paper Ledger
+ *
+ * Pure bookkeeping for a paper-trading account. Fills come from on-chain
+ * quotes (see execute.ts); this module applies them to the virtual treasury,
+ * positions and loan using the same rules as BondingCurve.sol and
+ * LendingPool.sol: collateral valued at floor price, 70% max LTV, 85%
+ * liquidation threshold, 10% APR simple interest.
+ *
+ * Every function throws on a move the contracts would revert.
+ */
+
+import type { Address } from "viem";
+import type { LoanInfo } from "../types";
+
+// LendingPool constants (basis points)
+const MAX_LTV_BPS = 7000n;
+const LIQUIDATION_THRESHOLD_BPS = 8500n;
+const INTEREST_RATE_BPS = 1000n;
+const BASIS_POINTS = 10000n;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+const PRECISION = 10n ** 18n;
+
+// ============================================
+// Types
+// ============================================
+
+export interface PaperPosition {
+  tokenAddress: Address;
+  bondingCurveAddress: Address;
+  tokenName: string;
+  /** Token balance (18 decimals) */
+  balance: bigint;
+  /** Total USDC spent on the open position */
+  totalCostBasis: bigint;
+}
+
+export interface PaperLoan {
+  collateralToken: Address;
+  collateralBondingCurve: Address;
+  collateralAmount: bigint;
+  borrowedAmount: bigint;
+  interestAccrued: bigint;
+  /** Unix ms of the last interest accrual */
+  lastUpdateTime: number;
+}
+
+export interface PaperAccount {
+  agentId: string;
+  /** Virtual USDC balance (6 decimals) */
+  usdcBalance: bigint;
+  /** Own-curve revenue already credited by paper CLAIM_REVENUE */
+  claimedRevenue: bigint;
+  /** Open positions keyed by lowercase token address */
+  positions: Map<string, PaperPosition>;
+  loan: PaperLoan | null;
+}
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+// ============================================
+// Trading
+// ============================================
+
+/**
+ * Spend USDC for tokens at a quoted fill
+ */
+export function applyBuy(
+  account: PaperAccount,
+  position: Omit<PaperPosition, "balance" | "totalCostBasis">,
+  usdcIn: bigint,
+  tokensOut: bigint
+): void {
+  if (usdcIn <= 0n || tokensOut <= 0n) throw new Error("ZeroAmount");
+  if (usdcIn > account.usdcBalance) throw new Error("Insufficient paper USDC balance");
+
+  account.usdcBalance -= usdcIn;
+
+  const existing = account.positions.get(key(position.tokenAddress));
+  if (existing) {
+    existing.balance += tokensOut;
+    existing.totalCostBasis += usdcIn;
+  } else {
+    account.positions.set(key(position.tokenAddress), {
+      ...position,
+      balance: tokensOut,
+      totalCostBasis: usdcIn,
+    });
+  }
+}
+
+/**
+ * Burn tokens for USDC at a quoted fill; cost basis is reduced proportionally
+ */
+export function applySell(
+  account: PaperAccount,
+  tokenAddress: Address,
+  tokensIn: bigint,
+  usdcOut: bigint
+): void {
+  if (tokensIn <= 0n) throw new Error("ZeroAmount");
+
+  const position = account.positions.get(key(tokenAddress));
+  if (!position || position.balance < tokensIn) {
+    throw new Error("Insufficient paper token balance");
+  }
+
+  const costReduction = (position.totalCostBasis * tokensIn) / position.balance;
+  position.balance -= tokensIn;
+  position.totalCostBasis -= costReduction;
+  account.usdcBalance += usdcOut;
+
+  const isCollateral = account.loan && key(account.loan.collateralToken) === key(tokenAddress);
+  if (position.balance === 0n && !isCollateral) {
+    account.positions.delete(key(tokenAddress));
+  }
+}
+
+/**
+ * Credit own-curve revenue earned since the last paper claim
+ */
+export function applyClaimRevenue(account: PaperAccount, earned: bigint): bigint {
+  const claimable = earned > account.claimedRevenue ? earned - account.claimedRevenue : 0n;
+  account.usdcBalance += claimable;
+  account.claimedRevenue = earned;
+  return claimable;
+}
+
+// ============================================
+// Lending
+// ============================================
+
+export function totalDebt(loan: PaperLoan): bigint {
+  return loan.borrowedAmount + loan.interestAccrued;
+}
+
+/**
+ * Accrue simple interest up to `now` (Unix ms)
+ */
+export function accrueInterest(loan: PaperLoan, now: number): void {
+  const elapsed = BigInt(Math.max(0, Math.floor((now - loan.lastUpdateTime) / 1000)));
+  loan.interestAccrued +=
+    (loan.borrowedAmount * INTEREST_RATE_BPS * elapsed) / (SECONDS_PER_YEAR * BASIS_POINTS);
+  loan.lastUpdateTime = now;
+}
+
+/**
+ * Collateral value at the collateral curve's floor price (USDC, 6 decimals)
+ */
+export function collateralValue(loan: PaperLoan, floorPrice: bigint): bigint {
+  return (loan.collateralAmount * floorPrice) / PRECISION;
+}
+
+/**
+ * Health factor as a float (>1 is healthy, Infinity without debt)
+ */
+export function healthFactor(loan: PaperLoan, floorPrice: bigint): number {
+  const debt = totalDebt(loan);
+  if (debt === 0n) return Number.POSITIVE_INFINITY;
+  const value = collateralValue(loan, floorPrice);
+  return Number((value * LIQUIDATION_THRESHOLD_BPS * 10000n) / (debt * BASIS_POINTS)) / 10000;
+}
+
+/**
+ * Move tokens from a position into the loan's collateral
+ */
+export function applyDepositCollateral(
+  account: PaperAccount,
+  tokenAddress: Address,
+  amount: bigint,
+  now: number
+): void {
+  if (amount <= 0n) throw new Error("ZeroAmount");
+
+  const loan = account.loan;
+  if (loan && loan.collateralAmount > 0n && key(loan.collateralToken) !== key(tokenAddress)) {
+    throw new Error("ExistingLoan");
+  }
+
+  const position = account.positions.get(key(tokenAddress));
+  if (!position || position.balance < amount) {
+    throw new Error("Insufficient paper token balance");
+  }
+
+  // Like the on-chain holdings table, the position keeps its cost basis while
+  // tokens sit in the lending pool (a zero balance is hidden from the agent)
+  position.balance -= amount;
+
+  if (loan) {
+    accrueInterest(loan, now);
+    loan.collateralToken = tokenAddress;
+    loan.collateralBondingCurve = position.bondingCurveAddress;
+    loan.collateralAmount += amount;
+  } else {
+    account.loan = {
+      collateralToken: tokenAddress,
+      collateralBondingCurve: position.bondingCurveAddress,
+      collateralAmount: amount,
+      borrowedAmount: 0n,
+      interestAccrued: 0n,
+      lastUpdateTime: now,
+    };
+  }
+}
+
+/**
+ * Borrow USDC against deposited collateral (max 70% LTV at floor price)
+ */
+export function applyBorrow(
+  account: PaperAccount,
+  amount: bigint,
+  floorPrice: bigint,
+  now: number
+): void {
+  if (amount <= 0n) throw new Error("ZeroAmount");
+
+  const loan = account.loan;
+  if (!loan || loan.collateralAmount === 0n) throw new Error("NoLoan");
+
+  accrueInterest(loan, now);
+  const maxBorrow = (collateralValue(loan, floorPrice) * MAX_LTV_BPS) / BASIS_POINTS;
+  if (totalDebt(loan) + amount > maxBorrow) throw new Error("ExceedsMaxLTV");
+
+  loan.borrowedAmount += amount;
+  account.usdcBalance += amount;
+}
+
+/**
+ * Repay debt (interest first). Returns the amount actually repaid.
+ * With withdrawCollateral, a fully repaid loan returns its collateral.
+ */
+export function applyRepay(
+  account: PaperAccount,
+  amount: bigint,
+  withdrawCollateral: boolean,
+  now: number
+): bigint {
+  const loan = account.loan;
+  if (!loan || totalDebt(loan) === 0n) throw new Error("NoLoan");
+  if (amount <= 0n) throw new Error("ZeroAmount");
+
+  accrueInterest(loan, now);
+  const repaid = amount > totalDebt(loan) ? totalDebt(loan) : amount;
+  if (repaid > account.usdcBalance) throw new Error("Insufficient paper USDC balance");
+
+  account.usdcBalance -= repaid;
+  if (repaid <= loan.interestAccrued) {
+    loan.interestAccrued -= repaid;
+  } else {
+    loan.borrowedAmount -= repaid - loan.interestAccrued;
+    loan.interestAccrued = 0n;
+  }
+
+  if (totalDebt(loan) === 0n && withdrawCollateral) {
+    returnCollateral(account, loan, loan.collateralAmount);
+    account.loan = null;
+  }
+
+  return repaid;
+}
+
+/**
+ * Withdraw collateral back into the position, keeping the loan healthy
+ */
+export function applyWithdrawCollateral(
+  account: PaperAccount,
+  amount: bigint,
+  floorPrice: bigint,
+  now: number
+): void {
+  const loan = account.loan;
+  if (!loan) throw new Error("NoLoan");
+  if (amount <= 0n) throw new Error("ZeroAmount");
+  if (amount > loan.collateralAmount) throw new Error("InsufficientCollateral");
+
+  accrueInterest(loan, now);
+  const remaining: PaperLoan = { ...loan, collateralAmount: loan.collateralAmount - amount };
+  if (totalDebt(remaining) > 0n && healthFactor(remaining, floorPrice) < 1) {
+    throw new Error("UnhealthyPosition");
+  }
+
+  returnCollateral(account, loan, amount);
+  loan.collateralAmount -= amount;
+  if (loan.collateralAmount === 0n && totalDebt(loan) === 0n) {
+    account.loan = null;
+  }
+}
+
+/**
+ * Seize all collateral if the loan is below the liquidation threshold.
+ * Returns true when the loan was liquidated.
+ */
+export function liquidateIfUnhealthy(
+  account: PaperAccount,
+  floorPrice: bigint,
+  now: number
+): boolean {
+  const loan = account.loan;
+  if (!loan) return false;
+
+  accrueInterest(loan, now);
+  if (totalDebt(loan) === 0n || healthFactor(loan, floorPrice) >= 1) return false;
+
+  // Collateral is gone for good; drop the emptied position with it
+  const position = account.positions.get(key(loan.collateralToken));
+  if (position && position.balance === 0n) {
+    account.positions.delete(key(loan.collateralToken));
+  }
+  account.loan = null;
+  return true;
+}
+
+function returnCollateral(account: PaperAccount, loan: PaperLoan, amount: bigint): void {
+  if (amount === 0n) return;
+
+  const existing = account.positions.get(key(loan.collateralToken));
+  if (existing) {
+    existing.balance += amount;
+  } else {
+    account.positions.set(key(loan.collateralToken), {
+      tokenAddress: loan.collateralToken,
+      bondingCurveAddress: loan.collateralBondingCurve,
+      tokenName: "Unknown",
+      balance: amount,
+      totalCostBasis: 0n,
+    });
+  }
+}
+
+/**
+ * Loan as the agent sees it in AgentState
+ */
+export function toLoanInfo(loan: PaperLoan, floorPrice: bigint): LoanInfo | null {
+  if (loan.borrowedAmount === 0n) return null;
+
+  const value = collateralValue(loan, floorPrice);
+  const debt = totalDebt(loan);
+
+  return {
+    active: true,
+    collateralToken: loan.collateralToken,
+    collateralAmount: loan.collateralAmount,
+    borrowedAmount: loan.borrowedAmount,
+    totalDebt: debt,
+    healthFactor: healthFactor(loan, floorPrice),
+    currentLTV: value > 0n ? Number((debt * 100n) / value) : 0,
+    liquidationPrice:
+      loan.collateralAmount > 0n
+        ? (loan.borrowedAmount * 10000n) / (loan.collateralAmount * 8500n)
+        : 0n,
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Paper State Reader
+ *
+ * Supplies the treasury, holdings and loan parts of AgentState for agents in
+ * paper-trading mode, so the rule-based and LLM decision loops see their
+ * virtual portfolio exactly as they would see a real one.
+ */
+
+import { getBondingCurve } from "../../integrations/chain/contracts";
+import { logger } from "../../utils/logger";
+import type { AgentConfig, Holding, LoanInfo } from "../types";
+import { liquidateIfUnhealthy, toLoanInfo } from "./ledger";
+import { loadPaperAccount, savePaperAccount } from "./store";
+
+export interface PaperStateSlice {
+  usdcBalance: bigint;
+  holdings: Holding[];
+  loan: LoanInfo | null;
+  /** Own-curve revenue not yet claimed by the paper account */
+  ownTokenRevenue: bigint;
+  /** Own tokens held by the paper account (not listed in holdings) */
+  ownTokenBalance: bigint;
+}
+
+/**
+ * Read the paper portfolio, priced at current on-chain bonding curve prices.
+ * Applies a liquidation first if the paper loan has become unhealthy.
+ *
+ * @param earned - On-chain earned() for the agent's own curve
+ */
+export async function readPaperState(
+  config: AgentConfig,
+  earned: bigint
+): Promise<PaperStateSlice> {
+  const account = await loadPaperAccount(config.id);
+
+  let loan: LoanInfo | null = null;
+  if (account.loan) {
+    const collateralCurve = getBondingCurve(account.loan.collateralBondingCurve);
+    const floorPrice = (await collateralCurve.read.getFloorPrice()) as bigint;
+
+    if (liquidateIfUnhealthy(account, floorPrice, Date.now())) {
+      logger.warn({ agentId: config.id }, "Paper loan liquidated, collateral seized");
+      await savePaperAccount(account);
+    } else if (account.loan) {
+      loan = toLoanInfo(account.loan, floorPrice);
+    }
+  }
+
+  const holdings: Holding[] = [];
+  for (const p of account.positions.values()) {
+    // Skip own token and positions fully deposited as collateral
+    if (p.tokenAddress.toLowerCase() === config.tokenAddress.toLowerCase()) continue;
+    if (p.balance === 0n) continue;
+
+    try {
+      const bondingCurve = getBondingCurve(p.bondingCurveAddress);
+      const currentPrice = (await bondingCurve.read.getPrice()) as bigint;
+
+      const currentValue = (p.balance * currentPrice) / 10n ** 18n;
+      const unrealizedPnl = currentValue - p.totalCostBasis;
+      const pnlPercent =
+        p.totalCostBasis > 0n
+          ? Number((unrealizedPnl * 10000n) / p.totalCostBasis) / 100
+          : 0;
+
+      holdings.push({
+        tokenAddress: p.tokenAddress,
+        bondingCurveAddress: p.bondingCurveAddress,
+        tokenName: p.tokenName,
+        tokenDecimals: 18,
+        balance: p.balance,
+        avgBuyPrice: (p.totalCostBasis * 10n ** 18n) / p.balance,
+        totalCostBasis: p.totalCostBasis,
+        currentPrice,
+        unrealizedPnl,
+        pnlPercent,
+      });
+    } catch (error) {
+      logger.warn(
+        { tokenAddress: p.tokenAddress, error },
+        "Failed to price paper holding"
+      );
+    }
+  }
+
+  return {
+    usdcBalance: account.usdcBalance,
+    holdings,
+    loan,
+    ownTokenRevenue: earned > account.claimedRevenue ? earned - account.claimedRevenue : 0n,
+    ownTokenBalance: account.positions.get(config.tokenAddress.toLowerCase())?.balance ?? 0n,
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Paper Account Store
+ *
+ * Persists paper accounts in the paper_accounts and paper_holdings tables,
+ * kept separate from the real holdings so paper fills never mix with
+ * on-chain positions.
+ */
+
+import { eq } from "drizzle-orm";
+import type { Address } from "viem";
+import { db } from "../../db/client";
+import { paperAccounts, paperHoldings } from "../../db/schema";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import type { PaperAccount, PaperPosition } from "./ledger";
+
+/**
+ * Load an agent's paper account, opening it with PAPER_STARTING_USDC on first use
+ */
+export async function loadPaperAccount(agentId: string): Promise<PaperAccount> {
+  let row = await db.query.paperAccounts.findFirst({
+    where: eq(paperAccounts.agentId, agentId),
+  });
+
+  if (!row) {
+    const startingBalance = BigInt(Math.round(env.PAPER_STARTING_USDC * 1e6));
+    [row] = await db
+      .insert(paperAccounts)
+      .values({ agentId, usdcBalance: startingBalance.toString() })
+      .returning();
+
+    logger.info(
+      { agentId, usdcBalance: startingBalance.toString() },
+      "Opened paper trading account"
+    );
+  }
+
+  const holdingRows = await db.query.paperHoldings.findMany({
+    where: eq(paperHoldings.agentId, agentId),
+  });
+
+  const positions = new Map<string, PaperPosition>();
+  for (const h of holdingRows) {
+    positions.set(h.tokenAddress.toLowerCase(), {
+      tokenAddress: h.tokenAddress as Address,
+      bondingCurveAddress: h.bondingCurveAddress as Address,
+      tokenName: h.tokenName || "Unknown",
+      balance: BigInt(h.balance),
+      totalCostBasis: BigInt(h.totalCostBasis),
+    });
+  }
+
+  const hasLoan = !!row.collateralToken && !!row.collateralBondingCurve;
+
+  return {
+    agentId,
+    usdcBalance: BigInt(row.usdcBalance),
+    claimedRevenue: BigInt(row.claimedRevenue),
+    positions,
+    loan: hasLoan
+      ? {
+          collateralToken: row.collateralToken as Address,
+          collateralBondingCurve: row.collateralBondingCurve as Address,
+          collateralAmount: BigInt(row.collateralAmount),
+          borrowedAmount: BigInt(row.borrowedAmount),
+          interestAccrued: BigInt(row.interestAccrued),
+          lastUpdateTime: row.loanUpdatedAt ?? Date.now(),
+        }
+      : null,
+  };
+}
+
+/**
+ * Write a paper account back (positions are replaced wholesale)
+ */
+export async function savePaperAccount(account: PaperAccount): Promise<void> {
+  const loan = account.loan;
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(paperAccounts)
+      .set({
+        usdcBalance: account.usdcBalance.toString(),
+        claimedRevenue: account.claimedRevenue.toString(),
+        collateralToken: loan?.collateralToken ?? null,
+        collateralBondingCurve: loan?.collateralBondingCurve ?? null,
+        collateralAmount: (loan?.collateralAmount ?? 0n).toString(),
+        borrowedAmount: (loan?.borrowedAmount ?? 0n).toString(),
+        interestAccrued: (loan?.interestAccrued ?? 0n).toString(),
+        loanUpdatedAt: loan?.lastUpdateTime ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(paperAccounts.agentId, account.agentId));
+
+    await tx.delete(paperHoldings).where(eq(paperHoldings.agentId, account.agentId));
+
+    const rows = [...account.positions.values()].map((p) => ({
+      agentId: account.agentId,
+      tokenAddress: p.tokenAddress,
+      bondingCurveAddress: p.bondingCurveAddress,
+      tokenName: p.tokenName,
+      balance: p.balance.toString(),
+      // Same scaling as holdings.avg_buy_price (cost * 1e18 / balance)
+      avgBuyPrice: (p.balance > 0n
+        ? (p.totalCostBasis * 10n ** 18n) / p.balance
+        : 0n
+      ).toString(),
+      totalCostBasis: p.totalCostBasis.toString(),
+    }));
+
+    if (rows.length > 0) {
+      await tx.insert(paperHoldings).values(rows);
+    }
+  });
+}
+
+/**
+ * Delete an agent's paper account and holdings (next load starts fresh)
+ */
+export async function resetPaperAccount(agentId: string): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.delete(paperHoldings).where(eq(paperHoldings.agentId, agentId));
+    await tx.delete(paperAccounts).where(eq(paperAccounts.agentId, agentId));
+  });
+  logger.info({ agentId }, "Paper trading account reset");
+}
@@ -0,0 +1,282 @@
+/**
+ * Liquidation Defense
+ *
+ * Projects a loan's health factor forward instead of reacting once it is
+ * already critical:
+ * - Pending sells of the collateral token (this cycle's own SELL_TOKEN
+ *   actions plus every other agent's holding of it) are replayed on the
+ *   collateral's bonding curve to get the post-sell spot price
+ * - A day of interest is added to the debt at the pool's INTEREST_RATE
+ *
+ * Collateral is valued at the lower of the pool's price and the post-sell
+ * spot. The current LendingPool values collateral at the curve floor, which
+ * sells cannot move, so today the projection is driven by interest; taking
+ * the lower price keeps it conservative if the pool moves to spot pricing.
+ *
+ * When the projection falls below the strategy's defenseHealthFactor, the
+ * planner deposits collateral from the wallet and, if that is not enough,
+ * partially repays, aiming back at minHealthFactor.
+ */
+
+import type {
+  Action,
+  AgentConfig,
+  AgentState,
+  DepositCollateralParams,
+  LoanInfo,
+  RepayParams,
+  SellTokenParams,
+  ThinkingStep,
+} from "../types";
+import { priceAtSupply } from "../backtest/curve";
+import { projectHealthFactor, resolveRiskLimits } from "./engine";
+
+// LendingPool constants
+const LIQUIDATION_THRESHOLD_BPS = 8500n;
+const INTEREST_RATE_BPS = 1000n; // 10% APR, simple interest
+const BASIS_POINTS = 10000n;
+const PRECISION = 10n ** 18n;
+const YEAR_MS = 365n * 24n * 60n * 60n * 1000n;
+
+/** How far ahead interest is accrued for the projection */
+export const DEFENSE_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+/** Priority of defensive deposits/repays: below a critical repay (10) and treasury (9) */
+const DEFENSE_PRIORITY = 8;
+
+// ============================================
+// Types
+// ============================================
+
+export interface LiquidationRiskProjection {
+  healthFactor: number;
+  projectedHealthFactor: number;
+  /** Strategy's defenseHealthFactor */
+  threshold: number;
+  /** Level a defense aims back at (strategy's minHealthFactor) */
+  target: number;
+  /** Collateral tokens assumed sold before the next cycle */
+  pendingSellTokens: bigint;
+  spotPrice: bigint;
+  projectedSpotPrice: bigint;
+  /** Spot price change from the pending sells, in percent (negative = drop) */
+  priceImpactPct: number;
+  /** Per-token price the projection values collateral at */
+  valuationPrice: bigint;
+  projectedDebt: bigint;
+  atRisk: boolean;
+}
+
+export interface DefenseAdjustments {
+  /** Own sells of the collateral token this cycle */
+  ownSellTokens?: bigint;
+  /** Collateral already being deposited this cycle */
+  depositTokens?: bigint;
+  /** Debt already being repaid this cycle */
+  repayUsdc?: bigint;
+}
+
+// ============================================
+// Projection
+// ============================================
+
+/**
+ * Debt after accruing simple interest for horizonMs
+ */
+export function accrueInterest(debt: bigint, horizonMs: number = DEFENSE_HORIZON_MS): bigint {
+  return debt + (debt * INTEREST_RATE_BPS * BigInt(horizonMs)) / (BASIS_POINTS * YEAR_MS);
+}
+
+/**
+ * Project a loan's health factor after pending sells and interest.
+ * Returns null when the loan has no collateral market data.
+ */
+export function projectLiquidationRisk(
+  loan: LoanInfo,
+  config: AgentConfig,
+  adjustments: DefenseAdjustments = {}
+): LiquidationRiskProjection | null {
+  const market = loan.collateralMarket;
+  if (!loan.active || !market) return null;
+
+  const limits = resolveRiskLimits(config);
+  const pendingSellTokens = market.otherAgentHoldings + (adjustments.ownSellTokens ?? 0n);
+  const supplyAfter = pendingSellTokens >= market.supply ? 0n : market.supply - pendingSellTokens;
+  const projectedSpotPrice = priceAtSupply(supplyAfter, market.curve);
+  const valuationPrice =
+    projectedSpotPrice < market.poolPrice ? projectedSpotPrice : market.poolPrice;
+
+  const repaid = adjustments.repayUsdc ?? 0n;
+  const debt = repaid >= loan.borrowedAmount ? 0n : loan.borrowedAmount - repaid;
+  const projectedDebt = accrueInterest(debt);
+  const collateral = loan.collateralAmount + (adjustments.depositTokens ?? 0n);
+  const projectedHealthFactor = projectHealthFactor(
+    (collateral * valuationPrice) / PRECISION,
+    projectedDebt
+  );
+
+  const priceImpactPct =
+    market.spotPrice > 0n
+      ? Number(((projectedSpotPrice - market.spotPrice) * 10000n) / market.spotPrice) / 100
+      : 0;
+
+  return {
+    healthFactor: loan.healthFactor,
+    projectedHealthFactor,
+    threshold: limits.defenseHealthFactor,
+    target: Math.max(limits.minHealthFactor, limits.defenseHealthFactor),
+    pendingSellTokens,
+    spotPrice: market.spotPrice,
+    projectedSpotPrice,
+    priceImpactPct,
+    valuationPrice,
+    projectedDebt,
+    atRisk: projectedHealthFactor < limits.defenseHealthFactor,
+  };
+}
+
+// ============================================
+// Defense
+// ============================================
+
+function formatUsdc(amount: bigint): string {
+  return `${(Number(amount) / 1e6).toFixed(2)} USDC`;
+}
+
+function sumActions(actions: Action[], loan: LoanInfo): DefenseAdjustments {
+  const token = loan.collateralToken.toLowerCase();
+  const adjustments = { ownSellTokens: 0n, depositTokens: 0n, repayUsdc: 0n };
+
+  for (const action of actions) {
+    if (action.type === "SELL_TOKEN") {
+      const params = action.params as SellTokenParams;
+      if (params.tokenAddress.toLowerCase() === token) adjustments.ownSellTokens += params.tokenAmount;
+    } else if (action.type === "DEPOSIT_COLLATERAL") {
+      const params = action.params as DepositCollateralParams;
+      if (params.tokenAddress.toLowerCase() === token) adjustments.depositTokens += params.amount;
+    } else if (action.type === "REPAY") {
+      adjustments.repayUsdc += (action.params as RepayParams).repayAmount;
+    }
+  }
+
+  return adjustments;
+}
+
+/**
+ * Check the projected health factor against the strategy's defense threshold
+ * and queue a collateral top-up and/or partial repay when it falls short.
+ * Accounts for deposits, repays and collateral sells already in `actions`.
+ *
+ * @returns true if defensive actions were added
+ */
+export function planLiquidationDefense(
+  state: AgentState,
+  config: AgentConfig,
+  thinking: ThinkingStep[],
+  actions: Action[]
+): boolean {
+  const loan = state.loan;
+  if (!loan?.active || !loan.collateralMarket) return false;
+
+  const queued = sumActions(actions, loan);
+  const projection = projectLiquidationRisk(loan, config, queued);
+  if (!projection) return false;
+
+  const metrics = {
+    healthFactor: loan.healthFactor,
+    projectedHealthFactor: Number(projection.projectedHealthFactor.toFixed(3)),
+    threshold: projection.threshold,
+    pendingSellTokens: projection.pendingSellTokens.toString(),
+    priceImpactPct: projection.priceImpactPct,
+    projectedDebt: projection.projectedDebt.toString(),
+  };
+
+  if (!projection.atRisk) {
+    thinking.push({
+      category: "health",
+      observation: `Projected health factor ${projection.projectedHealthFactor.toFixed(2)} after pending sells and 24h interest`,
+      conclusion: `Above defense threshold ${projection.threshold}`,
+      metrics,
+    });
+    return false;
+  }
+
+  const { valuationPrice, projectedDebt, target } = projection;
+  const targetBps = BigInt(Math.round(target * 10000));
+  const collateral = loan.collateralAmount + (queued.depositTokens ?? 0n);
+
+  // Collateral needed to reach the target at the projected debt
+  const requiredValue =
+    (projectedDebt * BASIS_POINTS * targetBps) / (LIQUIDATION_THRESHOLD_BPS * 10000n);
+  const requiredCollateral =
+    valuationPrice > 0n ? (requiredValue * PRECISION + valuationPrice - 1n) / valuationPrice : 0n;
+  const collateralShortfall = requiredCollateral > collateral ? requiredCollateral - collateral : 0n;
+
+  const walletAvailable = loan.collateralMarket.walletBalance - (queued.ownSellTokens ?? 0n);
+  const depositAmount =
+    valuationPrice === 0n || walletAvailable <= 0n
+      ? 0n
+      : collateralShortfall < walletAvailable
+        ? collateralShortfall
+        : walletAvailable;
+
+  // Debt that still has to go when the wallet can't cover the whole top-up
+  let debtShortfall = 0n;
+  if (depositAmount < collateralShortfall) {
+    const valueAfterDeposit = ((collateral + depositAmount) * valuationPrice) / PRECISION;
+    const maxDebt =
+      (valueAfterDeposit * LIQUIDATION_THRESHOLD_BPS * 10000n) / (BASIS_POINTS * targetBps);
+    debtShortfall = projectedDebt > maxDebt ? projectedDebt - maxDebt : 0n;
+  }
+  const spendable =
+    state.usdcBalance > config.strategy.minTreasuryBuffer
+      ? state.usdcBalance - config.strategy.minTreasuryBuffer
+      : 0n;
+  const repayAmount = debtShortfall < spendable ? debtShortfall : spendable;
+
+  const plan: string[] = [];
+  if (depositAmount > 0n) plan.push(`deposit ${(Number(depositAmount) / 1e18).toFixed(4)} collateral tokens`);
+  if (repayAmount > 0n) plan.push(`repay ${formatUsdc(repayAmount)}`);
+
+  thinking.push({
+    category: "health",
+    observation:
+      `Projected health factor ${projection.projectedHealthFactor.toFixed(2)} < defense threshold ${projection.threshold} ` +
+      `(pending sells ${projection.priceImpactPct.toFixed(1)}% price impact, 24h interest)`,
+    conclusion:
+      plan.length > 0
+        ? `Defending loan: ${plan.join(" and ")} to restore ${target}`
+        : "At risk but no spare collateral or USDC to defend with",
+    metrics,
+  });
+
+  const reason = `Projected health factor ${projection.projectedHealthFactor.toFixed(2)} below ${projection.threshold}`;
+
+  if (depositAmount > 0n) {
+    actions.push({
+      type: "DEPOSIT_COLLATERAL",
+      params: {
+        tokenAddress: loan.collateralToken,
+        amount: depositAmount,
+      } as DepositCollateralParams,
+      reason: `${reason}, topping up collateral`,
+      confidence: 0.9,
+      priority: DEFENSE_PRIORITY,
+    });
+  }
+
+  if (repayAmount > 0n) {
+    actions.push({
+      type: "REPAY",
+      params: {
+        repayAmount,
+        withdrawCollateral: false,
+      } as RepayParams,
+      reason: `${reason}, repaying ${formatUsdc(repayAmount)}`,
+      confidence: 0.9,
+      priority: DEFENSE_PRIORITY,
+    });
+  }
+
+  return depositAmount > 0n || repayAmount > 0n;
+}
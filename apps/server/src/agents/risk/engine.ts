@@ -0,0 +1,454 @@
+/**
+ * Risk Engine
+ *
+ * Reviews decided actions before execution against the agent's RiskLimits
+ * and vetoes or resizes anything that breaches them:
+ * - Max single-buy size as % of portfolio value
+ * - Max USDC turnover in a rolling 24h window (stop-loss sells are exempt)
+ * - Max concentration in one creator token
+ * - Re-buy cooldown after a stop-loss sell
+ * - Projected post-trade health factor, using LendingPool constants
+ *
+ * Actions are reviewed in priority order and each approval updates the
+ * projected portfolio, so later actions see the effect of earlier ones.
+ */
+
+import type { Address } from "viem";
+import type {
+  Action,
+  AgentConfig,
+  AgentState,
+  BuyTokenParams,
+  SellTokenParams,
+  BorrowParams,
+  RepayParams,
+  DepositCollateralParams,
+  WithdrawCollateralParams,
+  RiskLimits,
+  RiskReview,
+  ThinkingStep,
+} from "../types";
+
+// LendingPool constants (basis points)
+const MAX_LTV_BPS = 7000n;
+const LIQUIDATION_THRESHOLD_BPS = 8500n;
+const BASIS_POINTS = 10000n;
+const PRECISION = 10n ** 18n;
+
+/** Trades resized below this are vetoed instead (0.01 USDC) */
+const MIN_TRADE_USDC = 10_000n;
+
+/** Limits for strategies whose config sets none */
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxPositionPct: 0.25,
+  maxDailyTurnoverPct: 2.0,
+  maxConcentrationPct: 0.5,
+  stopLossCooldownMs: 12 * 60 * 60 * 1000,
+  minHealthFactor: 1.3,
+  defenseHealthFactor: 1.25,
+};
+
+// ============================================
+// Types
+// ============================================
+
+export interface RiskContext {
+  /** Review time (Unix ms) */
+  now: number;
+  /** USDC bought + sold in the trailing 24h */
+  dailyTurnover: bigint;
+  /** Token (lowercase) → time of its last stop-loss sell */
+  stopLosses: Map<string, number>;
+  /** Collateral token (lowercase) → bonding curve floor price (6 decimals) */
+  floorPrices: Map<string, bigint>;
+}
+
+export interface ReviewedAction {
+  /** Action to execute (a resized copy when the verdict is "resized") */
+  action: Action;
+  /** The action as decided */
+  original: Action;
+  review: RiskReview;
+}
+
+interface ProjectedLoan {
+  collateralToken: Address | null;
+  collateralAmount: bigint;
+  debt: bigint;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function key(address: string): string {
+  return address.toLowerCase();
+}
+
+/** Fraction of a USDC amount, at basis-point resolution */
+function fractionOf(value: bigint, fraction: number): bigint {
+  return (value * BigInt(Math.round(fraction * 10000))) / BASIS_POINTS;
+}
+
+function formatUsdc(amount: bigint): string {
+  return `${(Number(amount) / 1e6).toFixed(2)} USDC`;
+}
+
+function formatPct(fraction: number): string {
+  return `${(fraction * 100).toFixed(0)}%`;
+}
+
+/**
+ * Merge an agent's configured limits over the defaults
+ */
+export function resolveRiskLimits(config: AgentConfig): RiskLimits {
+  return { ...DEFAULT_RISK_LIMITS, ...config.strategy.riskLimits };
+}
+
+/**
+ * Portfolio value used for percentage limits: USDC plus holdings at market
+ */
+export function portfolioValue(state: AgentState): bigint {
+  let value = state.usdcBalance;
+  for (const h of state.holdings) {
+    value += (h.balance * h.currentPrice) / 10n ** BigInt(h.tokenDecimals || 18);
+  }
+  return value;
+}
+
+/**
+ * Health factor as a float for a collateral value and debt (Infinity without debt)
+ */
+export function projectHealthFactor(collateralValue: bigint, debt: bigint): number {
+  if (debt <= 0n) return Number.POSITIVE_INFINITY;
+  return (
+    Number((collateralValue * LIQUIDATION_THRESHOLD_BPS * 10000n) / (debt * BASIS_POINTS)) /
+    10000
+  );
+}
+
+// ============================================
+// Review
+// ============================================
+
+/**
+ * Review actions against the agent's risk limits.
+ * Returns every action (sorted by priority) with its verdict.
+ */
+export function evaluateRisk(
+  actions: Action[],
+  state: AgentState,
+  config: AgentConfig,
+  context: RiskContext
+): ReviewedAction[] {
+  const limits = resolveRiskLimits(config);
+  const totalValue = portfolioValue(state);
+  const stopLossPct = config.strategy.sellSignals.priceDrop * 100;
+
+  // Projected portfolio, updated as actions are approved
+  let turnover = context.dailyTurnover;
+  const exposure = new Map<string, bigint>();
+  for (const h of state.holdings) {
+    exposure.set(key(h.tokenAddress), (h.balance * h.currentPrice) / 10n ** BigInt(h.tokenDecimals || 18));
+  }
+  const loan: ProjectedLoan = state.loan?.active
+    ? {
+        collateralToken: state.loan.collateralToken,
+        collateralAmount: state.loan.collateralAmount,
+        debt: state.loan.borrowedAmount,
+      }
+    : { collateralToken: null, collateralAmount: 0n, debt: 0n };
+
+  const maxTurnover = fractionOf(totalValue, limits.maxDailyTurnoverPct);
+  const sorted = [...actions].sort((a, b) => b.priority - a.priority);
+  const reviewed: ReviewedAction[] = [];
+
+  const approve = (action: Action, review: Partial<RiskReview> = {}) =>
+    reviewed.push({ action, original: action, review: { verdict: "approved", reasons: [], ...review } });
+  const veto = (action: Action, reason: string) =>
+    reviewed.push({ action, original: action, review: { verdict: "vetoed", reasons: [reason] } });
+
+  for (const action of sorted) {
+    switch (action.type) {
+      case "BUY_TOKEN": {
+        const params = action.params as BuyTokenParams;
+        const token = key(params.tokenAddress);
+        const reasons: string[] = [];
+        let amount = params.usdcAmount;
+
+        const stoppedAt = context.stopLosses.get(token);
+        if (stoppedAt !== undefined && context.now - stoppedAt < limits.stopLossCooldownMs) {
+          const hoursLeft = (limits.stopLossCooldownMs - (context.now - stoppedAt)) / 3_600_000;
+          veto(action, `Stop-loss cooldown on ${params.tokenName}: ${hoursLeft.toFixed(1)}h remaining`);
+          break;
+        }
+
+        const maxPosition = fractionOf(totalValue, limits.maxPositionPct);
+        if (amount > maxPosition) {
+          amount = maxPosition;
+          reasons.push(`Position size capped at ${formatPct(limits.maxPositionPct)} of portfolio (${formatUsdc(maxPosition)})`);
+        }
+
+        const concentrationRoom =
+          fractionOf(totalValue, limits.maxConcentrationPct) - (exposure.get(token) ?? 0n);
+        if (concentrationRoom <= 0n) {
+          veto(action, `${params.tokenName} already at ${formatPct(limits.maxConcentrationPct)} concentration limit`);
+          break;
+        }
+        if (amount > concentrationRoom) {
+          amount = concentrationRoom;
+          reasons.push(`Capped to keep ${params.tokenName} under ${formatPct(limits.maxConcentrationPct)} of portfolio`);
+        }
+
+        const turnoverRoom = maxTurnover - turnover;
+        if (turnoverRoom <= 0n) {
+          veto(action, `Daily turnover limit reached (${formatUsdc(maxTurnover)})`);
+          break;
+        }
+        if (amount > turnoverRoom) {
+          amount = turnoverRoom;
+          reasons.push(`Capped to remaining daily turnover (${formatUsdc(turnoverRoom)})`);
+        }
+
+        if (amount !== params.usdcAmount && amount < MIN_TRADE_USDC) {
+          veto(action, `Resized below minimum trade size: ${reasons.join("; ")}`);
+          break;
+        }
+
+        turnover += amount;
+        exposure.set(token, (exposure.get(token) ?? 0n) + amount);
+
+        if (amount === params.usdcAmount) {
+          approve(action, { notionalUsdc: amount });
+        } else {
+          reviewed.push({
+            action: {
+              ...action,
+              params: {
+                ...params,
+                usdcAmount: amount,
+                minTokensOut: (params.minTokensOut * amount) / params.usdcAmount,
+              },
+            },
+            original: action,
+            review: {
+              verdict: "resized",
+              reasons,
+              originalAmount: params.usdcAmount,
+              notionalUsdc: amount,
+            },
+          });
+        }
+        break;
+      }
+
+      case "SELL_TOKEN": {
+        const params = action.params as SellTokenParams;
+        const token = key(params.tokenAddress);
+        const holding = state.holdings.find((h) => key(h.tokenAddress) === token);
+        const price = holding?.currentPrice ?? 0n;
+        const scale = 10n ** BigInt(holding?.tokenDecimals || 18);
+        let tokenAmount = params.tokenAmount;
+        const notional = (tokenAmount * price) / scale;
+
+        // Stop-loss sells reduce risk, so they are never held back by turnover
+        const isStopLoss = !!holding && holding.pnlPercent <= -stopLossPct;
+        if (isStopLoss) {
+          exposure.set(token, (exposure.get(token) ?? 0n) - notional);
+          approve(action, { notionalUsdc: notional, stopLossToken: params.tokenAddress });
+          break;
+        }
+
+        const turnoverRoom = maxTurnover - turnover;
+        if (turnoverRoom <= 0n) {
+          veto(action, `Daily turnover limit reached (${formatUsdc(maxTurnover)})`);
+          break;
+        }
+
+        if (notional > turnoverRoom && price > 0n) {
+          if (turnoverRoom < MIN_TRADE_USDC) {
+            veto(action, `Daily turnover limit reached (${formatUsdc(maxTurnover)})`);
+            break;
+          }
+          tokenAmount = (turnoverRoom * scale) / price;
+          turnover += turnoverRoom;
+          exposure.set(token, (exposure.get(token) ?? 0n) - turnoverRoom);
+          reviewed.push({
+            action: {
+              ...action,
+              params: {
+                ...params,
+                tokenAmount,
+                minUsdcOut: (params.minUsdcOut * tokenAmount) / params.tokenAmount,
+              },
+            },
+            original: action,
+            review: {
+              verdict: "resized",
+              reasons: [`Capped to remaining daily turnover (${formatUsdc(turnoverRoom)})`],
+              originalAmount: params.tokenAmount,
+              notionalUsdc: turnoverRoom,
+            },
+          });
+          break;
+        }
+
+        turnover += notional;
+        exposure.set(token, (exposure.get(token) ?? 0n) - notional);
+        approve(action, { notionalUsdc: notional });
+        break;
+      }
+
+      case "BORROW": {
+        const params = action.params as BorrowParams;
+        if (
+          loan.collateralToken &&
+          loan.collateralAmount > 0n &&
+          key(loan.collateralToken) !== key(params.collateralToken)
+        ) {
+          veto(action, "Existing loan uses a different collateral token");
+          break;
+        }
+
+        const floorPrice = context.floorPrices.get(key(params.collateralToken));
+        if (floorPrice === undefined) {
+          // Without a floor price the pool's own LTV check is the only guard
+          approve(action);
+          break;
+        }
+
+        const collateral = loan.collateralAmount + params.collateralAmount;
+        const value = (collateral * floorPrice) / PRECISION;
+        const maxDebtByHealth =
+          (value * LIQUIDATION_THRESHOLD_BPS * 100n) /
+          (BASIS_POINTS * BigInt(Math.round(limits.minHealthFactor * 100)));
+        const maxDebtByLtv = (value * MAX_LTV_BPS) / BASIS_POINTS;
+        const maxDebt = maxDebtByHealth < maxDebtByLtv ? maxDebtByHealth : maxDebtByLtv;
+        const room = maxDebt - loan.debt;
+
+        const projected = projectHealthFactor(value, loan.debt + params.borrowAmount);
+        if (room < MIN_TRADE_USDC) {
+          veto(
+            action,
+            `Projected health factor ${projected.toFixed(2)} below minimum ${limits.minHealthFactor}`
+          );
+          break;
+        }
+
+        loan.collateralToken = params.collateralToken;
+        loan.collateralAmount = collateral;
+
+        if (params.borrowAmount > room) {
+          loan.debt += room;
+          reviewed.push({
+            action: { ...action, params: { ...params, borrowAmount: room } },
+            original: action,
+            review: {
+              verdict: "resized",
+              reasons: [
+                `Projected health factor ${projected.toFixed(2)} below minimum ${limits.minHealthFactor}; ` +
+                  `borrow capped at ${formatUsdc(room)}`,
+              ],
+              originalAmount: params.borrowAmount,
+            },
+          });
+          break;
+        }
+
+        loan.debt += params.borrowAmount;
+        approve(action);
+        break;
+      }
+
+      case "WITHDRAW_COLLATERAL": {
+        const params = action.params as WithdrawCollateralParams;
+        const floorPrice = loan.collateralToken
+          ? context.floorPrices.get(key(loan.collateralToken))
+          : undefined;
+
+        if (loan.debt === 0n || floorPrice === undefined || floorPrice === 0n) {
+          loan.collateralAmount -= params.amount < loan.collateralAmount ? params.amount : loan.collateralAmount;
+          approve(action);
+          break;
+        }
+
+        // Smallest collateral that keeps the loan at the minimum health factor
+        const minValue =
+          (loan.debt * BASIS_POINTS * BigInt(Math.round(limits.minHealthFactor * 100))) /
+          (LIQUIDATION_THRESHOLD_BPS * 100n);
+        const minCollateral = (minValue * PRECISION + floorPrice - 1n) / floorPrice;
+        const room = loan.collateralAmount - minCollateral;
+
+        const projected = projectHealthFactor(
+          ((loan.collateralAmount - params.amount) * floorPrice) / PRECISION,
+          loan.debt
+        );
+        if (room <= 0n) {
+          veto(
+            action,
+            `Projected health factor ${projected.toFixed(2)} below minimum ${limits.minHealthFactor}`
+          );
+          break;
+        }
+
+        if (params.amount > room) {
+          loan.collateralAmount -= room;
+          reviewed.push({
+            action: { ...action, params: { ...params, amount: room } },
+            original: action,
+            review: {
+              verdict: "resized",
+              reasons: [
+                `Projected health factor ${projected.toFixed(2)} below minimum ${limits.minHealthFactor}; ` +
+                  `withdrawal capped`,
+              ],
+              originalAmount: params.amount,
+            },
+          });
+          break;
+        }
+
+        loan.collateralAmount -= params.amount;
+        approve(action);
+        break;
+      }
+
+      case "REPAY": {
+        const params = action.params as RepayParams;
+        loan.debt = params.repayAmount >= loan.debt ? 0n : loan.debt - params.repayAmount;
+        approve(action);
+        break;
+      }
+
+      case "DEPOSIT_COLLATERAL": {
+        const params = action.params as DepositCollateralParams;
+        loan.collateralToken = loan.collateralToken ?? params.tokenAddress;
+        loan.collateralAmount += params.amount;
+        approve(action);
+        break;
+      }
+
+      default:
+        approve(action);
+    }
+  }
+
+  return reviewed;
+}
+
+/**
+ * Thinking steps explaining vetoed and resized actions (shown in the UI)
+ */
+export function riskThinking(reviewed: ReviewedAction[]): ThinkingStep[] {
+  return reviewed
+    .filter((r) => r.review.verdict !== "approved")
+    .map((r) => ({
+      category: "risk" as const,
+      observation: `${r.original.type}: ${r.original.reason}`,
+      conclusion: `${r.review.verdict === "vetoed" ? "Vetoed" : "Resized"}: ${r.review.reasons.join("; ")}`,
+      metrics:
+        r.review.originalAmount !== undefined
+          ? { requested: r.review.originalAmount.toString() }
+          : undefined,
+    }));
+}
@@ -0,0 +1,180 @@
+/**
+ * Risk Module
+ *
+ * Pre-execution review of agent actions. The loop executes only the
+ * approved (possibly resized) actions; vetoes are recorded as failed
+ * execution results carrying their reasons.
+ */
+
+import type { Address } from "viem";
+import { getBondingCurve } from "../../integrations/chain/contracts";
+import { logger } from "../../utils/logger";
+import type {
+  Action,
+  AgentConfig,
+  AgentState,
+  BorrowParams,
+  ThinkingStep,
+} from "../types";
+import type { ExecutionResult } from "../runtime/execute";
+import {
+  evaluateRisk,
+  resolveRiskLimits,
+  riskThinking,
+  type ReviewedAction,
+} from "./engine";
+import { getRiskLedger, recordRiskFills } from "./ledger";
+
+export {
+  evaluateRisk,
+  resolveRiskLimits,
+  riskThinking,
+  portfolioValue,
+  projectHealthFactor,
+  DEFAULT_RISK_LIMITS,
+  type RiskContext,
+  type ReviewedAction,
+} from "./engine";
+export { getRiskLedger, recordRiskFills } from "./ledger";
+export {
+  accrueInterest,
+  planLiquidationDefense,
+  projectLiquidationRisk,
+  DEFENSE_HORIZON_MS,
+  type DefenseAdjustments,
+  type LiquidationRiskProjection,
+} from "./defense";
+
+export interface RiskReviewResult {
+  reviewed: ReviewedAction[];
+  /** Actions to hand to the executor */
+  approved: Action[];
+  /** Thinking steps for vetoed/resized actions */
+  thinking: ThinkingStep[];
+}
+
+/**
+ * Resolve the bonding curve for a collateral token from the agent's state
+ */
+function findBondingCurve(
+  token: Address,
+  state: AgentState,
+  config: AgentConfig
+): Address | null {
+  const lower = token.toLowerCase();
+  if (config.tokenAddress.toLowerCase() === lower) return config.bondingCurveAddress;
+
+  const holding = state.holdings.find((h) => h.tokenAddress.toLowerCase() === lower);
+  if (holding) return holding.bondingCurveAddress;
+
+  const creator = state.otherCreators.find((c) => c.tokenAddress.toLowerCase() === lower);
+  return creator?.bondingCurveAddress ?? null;
+}
+
+/**
+ * Fetch floor prices for the loan collateral and any collateral being borrowed against
+ */
+async function readFloorPrices(
+  actions: Action[],
+  state: AgentState,
+  config: AgentConfig
+): Promise<Map<string, bigint>> {
+  const tokens = new Set<Address>();
+  if (state.loan?.active) tokens.add(state.loan.collateralToken);
+  for (const action of actions) {
+    if (action.type === "BORROW") {
+      tokens.add((action.params as BorrowParams).collateralToken);
+    }
+  }
+
+  const floorPrices = new Map<string, bigint>();
+  for (const token of tokens) {
+    const curve = findBondingCurve(token, state, config);
+    if (!curve) continue;
+    try {
+      const floorPrice = (await getBondingCurve(curve).read.getFloorPrice()) as bigint;
+      floorPrices.set(token.toLowerCase(), floorPrice);
+    } catch (error) {
+      logger.warn({ agentId: config.id, token, error }, "Failed to read floor price for risk check");
+    }
+  }
+  return floorPrices;
+}
+
+/**
+ * Review a cycle's actions against the agent's risk limits
+ */
+export async function reviewActions(
+  actions: Action[],
+  state: AgentState,
+  config: AgentConfig
+): Promise<RiskReviewResult> {
+  if (actions.length === 0) {
+    return { reviewed: [], approved: [], thinking: [] };
+  }
+
+  const now = Date.now();
+  const limits = resolveRiskLimits(config);
+  const [ledger, floorPrices] = await Promise.all([
+    getRiskLedger(config.id, limits.stopLossCooldownMs, now),
+    readFloorPrices(actions, state, config),
+  ]);
+
+  const reviewed = evaluateRisk(actions, state, config, {
+    now,
+    dailyTurnover: ledger.dailyTurnover,
+    stopLosses: ledger.stopLosses,
+    floorPrices,
+  });
+
+  const vetoed = reviewed.filter((r) => r.review.verdict === "vetoed").length;
+  const resized = reviewed.filter((r) => r.review.verdict === "resized").length;
+  if (vetoed > 0 || resized > 0) {
+    logger.info({ agentId: config.id, vetoed, resized }, "Risk engine adjusted actions");
+  }
+
+  return {
+    reviewed,
+    approved: reviewed.filter((r) => r.review.verdict !== "vetoed").map((r) => r.action),
+    thinking: riskThinking(reviewed),
+  };
+}
+
+/**
+ * Combine risk reviews with execution results, in review order.
+ * Vetoed actions become failed results carrying the veto reason.
+ */
+export function mergeRiskResults(
+  reviewed: ReviewedAction[],
+  executed: ExecutionResult[]
+): ExecutionResult[] {
+  const remaining = [...executed];
+
+  return reviewed.map((r) => {
+    if (r.review.verdict === "vetoed") {
+      return {
+        action: r.original,
+        success: false,
+        error: `Vetoed by risk engine: ${r.review.reasons.join("; ")}`,
+        risk: r.review,
+      };
+    }
+
+    const index = remaining.findIndex((e) => e.action === r.action);
+    const result = index !== -1 ? remaining.splice(index, 1)[0] : null;
+    return result
+      ? { ...result, risk: r.review }
+      : { action: r.action, success: false, error: "Not executed", risk: r.review };
+  });
+}
+
+/**
+ * Record a cycle's successful fills in the agent's risk ledger
+ */
+export async function recordRiskResults(
+  config: AgentConfig,
+  results: ExecutionResult[]
+): Promise<void> {
+  const limits = resolveRiskLimits(config);
+  await recordRiskFills(config.id, results, limits.stopLossCooldownMs, Date.now());
+}
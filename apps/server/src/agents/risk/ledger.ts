@@ -0,0 +1,132 @@
+/**
+ * Risk Ledger
+ *
+ * Per-agent record of recent fills and stop-loss sells, used for the
+ * turnover and cooldown limits. Hydrated from decision_logs.execution_results
+ * on first use so limits survive restarts.
+ */
+
+import { and, eq, gte } from "drizzle-orm";
+import { db } from "../../db/client";
+import { decisionLogs } from "../../db/schema";
+import { logger } from "../../utils/logger";
+import type { ExecutionResult } from "../runtime/execute";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Fill {
+  timestamp: number;
+  notionalUsdc: bigint;
+}
+
+interface AgentRiskLedger {
+  fills: Fill[];
+  /** Token (lowercase) → time of its last stop-loss sell */
+  stopLosses: Map<string, number>;
+}
+
+/** Shape of a persisted execution result with a risk review */
+interface StoredExecutionResult {
+  success?: boolean;
+  risk?: {
+    notionalUsdc?: string;
+    stopLossToken?: string;
+  };
+}
+
+const ledgers = new Map<string, AgentRiskLedger>();
+
+/**
+ * Rebuild an agent's ledger from its recent decision logs
+ */
+async function hydrateLedger(
+  agentId: string,
+  since: number
+): Promise<AgentRiskLedger> {
+  const ledger: AgentRiskLedger = { fills: [], stopLosses: new Map() };
+
+  try {
+    const records = await db
+      .select({
+        timestamp: decisionLogs.timestamp,
+        executionResults: decisionLogs.executionResults,
+      })
+      .from(decisionLogs)
+      .where(and(eq(decisionLogs.agentId, agentId), gte(decisionLogs.timestamp, since)));
+
+    for (const record of records) {
+      if (!record.executionResults) continue;
+      const results = JSON.parse(record.executionResults) as StoredExecutionResult[];
+      for (const result of results) {
+        if (!result.success || !result.risk) continue;
+        if (result.risk.notionalUsdc) {
+          ledger.fills.push({
+            timestamp: record.timestamp,
+            notionalUsdc: BigInt(result.risk.notionalUsdc),
+          });
+        }
+        if (result.risk.stopLossToken) {
+          const token = result.risk.stopLossToken.toLowerCase();
+          const previous = ledger.stopLosses.get(token) ?? 0;
+          ledger.stopLosses.set(token, Math.max(previous, record.timestamp));
+        }
+      }
+    }
+  } catch (error) {
+    logger.warn({ agentId, error }, "Failed to hydrate risk ledger");
+  }
+
+  return ledger;
+}
+
+async function getLedger(
+  agentId: string,
+  cooldownMs: number,
+  now: number
+): Promise<AgentRiskLedger> {
+  let ledger = ledgers.get(agentId);
+  if (!ledger) {
+    ledger = await hydrateLedger(agentId, now - Math.max(DAY_MS, cooldownMs));
+    ledgers.set(agentId, ledger);
+  }
+  return ledger;
+}
+
+/**
+ * Trailing-24h turnover and stop-loss times for an agent
+ */
+export async function getRiskLedger(
+  agentId: string,
+  cooldownMs: number,
+  now: number
+): Promise<{ dailyTurnover: bigint; stopLosses: Map<string, number> }> {
+  const ledger = await getLedger(agentId, cooldownMs, now);
+
+  // Drop fills that have left the window
+  ledger.fills = ledger.fills.filter((f) => now - f.timestamp < DAY_MS);
+
+  const dailyTurnover = ledger.fills.reduce((sum, f) => sum + f.notionalUsdc, 0n);
+  return { dailyTurnover, stopLosses: new Map(ledger.stopLosses) };
+}
+
+/**
+ * Record successful fills from a cycle's execution results
+ */
+export async function recordRiskFills(
+  agentId: string,
+  results: ExecutionResult[],
+  cooldownMs: number,
+  now: number
+): Promise<void> {
+  const ledger = await getLedger(agentId, cooldownMs, now);
+
+  for (const result of results) {
+    if (!result.success || !result.risk) continue;
+    if (result.risk.notionalUsdc) {
+      ledger.fills.push({ timestamp: now, notionalUsdc: result.risk.notionalUsdc });
+    }
+    if (result.risk.stopLossToken) {
+      ledger.stopLosses.set(result.risk.stopLossToken.toLowerCase(), now);
+    }
+  }
+}
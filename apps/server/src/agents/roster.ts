@@ -0,0 +1,324 @@
+/**
+ * Agent Roster
+ *
+ * Loads the agent roster (config, strategy, content character) from the
+ * agents table, provisions new agents on-chain, and keeps the running agent
+ * loops and video scheduler in sync with the table without a restart.
+ */
+
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import type { Address } from "viem";
+import { db } from "../db/client";
+import { agents } from "../db/schema";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import { ensureCreator, isCreatorDeploymentConfigured } from "../integrations/chain/creator-factory";
+import { getOrCreateWallet } from "../integrations/circle/wallet";
+import { isCircleConfigured } from "../integrations/circle/client";
+import { ensureBondingCurveIndexed } from "../integrations/chain/bonding-curve-indexer";
+import { createAllAgentConfigs, getAgentConfig, setAgentRoster } from "./configs";
+import { initializeAgentWallets } from "./init";
+import {
+  startAllAgents,
+  stopAgent,
+  isAgentRunning,
+  getAllAgentStatuses,
+} from "./runtime/loop";
+import { startVideoScheduler, stopAgentVideoSchedule } from "./content/scheduler";
+import { serializeStrategyConfig, validateStrategyConfig } from "./strategies";
+import type { AgentCharacter, AgentConfig, ExecutionMode } from "./types";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// ============================================
+// Schemas
+// ============================================
+
+export const agentCharacterSchema = z.object({
+  displayName: z.string().min(1),
+  personality: z.string().min(1),
+  visualStyle: z.string().min(1),
+  topics: z.array(z.string()).min(1),
+  tone: z.array(z.string()),
+  exampleTitles: z.array(z.string()),
+  thumbnailStyle: z.string().min(1),
+  avoidTopics: z.array(z.string()),
+});
+
+export const provisionAgentSchema = z.object({
+  /** Lowercase slug used as agents.id and Circle wallet refId */
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{1,31}$/, "Lowercase letters, digits and dashes"),
+  name: z.string().min(1).max(64),
+  tokenName: z.string().min(1).max(64),
+  tokenSymbol: z.string().min(1).max(11),
+  strategyType: z.string().min(1),
+  /** Omit to copy the config of an existing agent with the same strategy */
+  strategyConfig: z.unknown().optional(),
+  character: agentCharacterSchema,
+  /** "paper" simulates trades against a virtual treasury */
+  executionMode: z.enum(["live", "paper"]).default("live"),
+});
+
+export type ProvisionAgentInput = z.infer<typeof provisionAgentSchema>;
+
+// ============================================
+// Loading
+// ============================================
+
+type AgentRow = typeof agents.$inferSelect;
+
+function rowToRosterEntry(row: AgentRow): {
+  config: AgentConfig;
+  character: AgentCharacter | null;
+} {
+  const strategy = validateStrategyConfig(row.strategyType, JSON.parse(row.strategyConfig));
+  const character = row.character
+    ? { ...agentCharacterSchema.parse(JSON.parse(row.character)), agentId: row.id }
+    : null;
+
+  return {
+    config: {
+      id: row.id,
+      name: row.name,
+      circleWalletId: row.circleWalletId ?? undefined,
+      evmAddress: row.evmAddress as Address,
+      tokenAddress: row.tokenAddress as Address,
+      bondingCurveAddress: row.bondingCurveAddress as Address,
+      strategyType: row.strategyType,
+      strategy,
+      executionMode: row.executionMode as ExecutionMode,
+    },
+    character,
+  };
+}
+
+/**
+ * Load active agents from the agents table into the in-memory roster.
+ * Rows with an invalid strategy or character are logged and skipped.
+ */
+export async function loadAgentRoster(): Promise<AgentConfig[]> {
+  const rows = await db.select().from(agents).where(eq(agents.isActive, true));
+
+  const entries: ReturnType<typeof rowToRosterEntry>[] = [];
+  for (const row of rows) {
+    try {
+      entries.push(rowToRosterEntry(row));
+    } catch (error) {
+      logger.warn(
+        {
+          agentId: row.id,
+          strategyType: row.strategyType,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Invalid agent row, skipping"
+      );
+    }
+  }
+
+  setAgentRoster(entries);
+  return entries.map((e) => e.config);
+}
+
+// ============================================
+// Sync
+// ============================================
+
+let rosterInterval: ReturnType<typeof setInterval> | null = null;
+let syncInFlight: Promise<void> | null = null;
+let syncQueued: Promise<void> | null = null;
+
+/**
+ * Reload the roster and reconcile running agents with it:
+ * new agents get a wallet, an agent loop, a video schedule and a
+ * bonding curve indexer;
+ * deactivated agents are stopped; execution mode changes are applied.
+ *
+ * Resolves once a sync that started after the call has finished. A sync
+ * already running may have read the table before the caller's change, so
+ * callers during one share a single follow-up sync.
+ */
+export function syncAgentRoster(): Promise<void> {
+  if (syncInFlight) {
+    syncQueued ??= syncInFlight.then(() => {
+      syncQueued = null;
+      return syncAgentRoster();
+    });
+    return syncQueued;
+  }
+
+  syncInFlight = runRosterSync().finally(() => {
+    syncInFlight = null;
+  });
+  return syncInFlight;
+}
+
+async function runRosterSync(): Promise<void> {
+  try {
+    const roster = await loadAgentRoster();
+    const rosterIds = new Set(roster.map((c) => c.id));
+
+    // Stop agents that were deactivated or removed
+    for (const status of getAllAgentStatuses()) {
+      if (!rosterIds.has(status.agentId)) {
+        logger.info({ agentId: status.agentId }, "Agent left roster, stopping");
+        stopAgent(status.agentId);
+        stopAgentVideoSchedule(status.agentId);
+      }
+    }
+
+    // Execution mode switches apply from the next cycle of a running agent
+    for (const config of roster) {
+      const running = isAgentRunning(config.id) ? getAgentConfig(config.id) : undefined;
+      if (running && (running.executionMode ?? "live") !== (config.executionMode ?? "live")) {
+        logger.info(
+          { agentId: config.id, executionMode: config.executionMode },
+          "Agent execution mode changed"
+        );
+        running.executionMode = config.executionMode;
+      }
+    }
+
+    const newConfigs = createAllAgentConfigs().filter((c) => !isAgentRunning(c.id));
+    if (newConfigs.length === 0) return;
+
+    logger.info({ agents: newConfigs.map((c) => c.id) }, "New agents in roster");
+
+    // Agents provisioned through the admin route already have a wallet
+    const needsWallet = newConfigs.filter((c) => !c.circleWalletId);
+    const wallets = await initializeAgentWallets(needsWallet);
+    for (const config of needsWallet) {
+      const wallet = wallets.get(config.id);
+      if (wallet) {
+        config.circleWalletId = wallet.circleWalletId;
+        config.evmAddress = wallet.circleWalletAddress as Address;
+      }
+    }
+
+    startAllAgents(newConfigs);
+    for (const config of newConfigs) {
+      ensureBondingCurveIndexed({
+        tokenAddress: config.tokenAddress,
+        bondingCurveAddress: config.bondingCurveAddress,
+        agentId: config.id,
+      });
+    }
+    await startVideoScheduler(createAllAgentConfigs());
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Agent roster sync failed"
+    );
+  }
+}
+
+/**
+ * Poll the agents table so agents added or deactivated outside the admin
+ * route are picked up without a restart
+ */
+export function startRosterWatcher(intervalMs: number = env.AGENT_ROSTER_POLL_MS): void {
+  if (rosterInterval) return;
+  rosterInterval = setInterval(() => {
+    syncAgentRoster();
+  }, intervalMs);
+  logger.info({ intervalMs }, "Agent roster watcher started");
+}
+
+export function stopRosterWatcher(): void {
+  if (rosterInterval) {
+    clearInterval(rosterInterval);
+    rosterInterval = null;
+  }
+}
+
+// ============================================
+// Provisioning
+// ============================================
+
+/**
+ * Whether on-chain agent provisioning is available
+ */
+export function isProvisioningConfigured(): boolean {
+  return isCreatorDeploymentConfigured() && isCircleConfigured();
+}
+
+/**
+ * Provision a new agent:
+ * 1. Insert an inactive agents row (circle_wallets has a FK to it)
+ * 2. Create its Circle wallet
+ * 3. Deploy its token and bonding curve via CreatorFactory.createCreator
+ * 4. Activate the row and start the agent
+ *
+ * Re-running for an agent whose previous attempt failed resumes where it stopped.
+ */
+export async function provisionAgent(input: ProvisionAgentInput): Promise<AgentConfig> {
+  const existing = await db.query.agents.findFirst({
+    where: eq(agents.id, input.id),
+  });
+
+  if (existing && existing.tokenAddress !== ZERO_ADDRESS) {
+    throw new Error(`Agent already exists: ${input.id}`);
+  }
+
+  // Strategy config: explicit, or copied from an agent with the same strategy
+  let rawStrategy = input.strategyConfig;
+  if (rawStrategy === undefined) {
+    const template = createAllAgentConfigs().find((c) => c.strategyType === input.strategyType);
+    if (!template) {
+      throw new Error(`strategyConfig is required for strategy: ${input.strategyType}`);
+    }
+    rawStrategy = JSON.parse(serializeStrategyConfig(template.strategy));
+  }
+  const strategy = validateStrategyConfig(input.strategyType, rawStrategy);
+  const character: AgentCharacter = { ...input.character, agentId: input.id };
+
+  if (!existing) {
+    await db.insert(agents).values({
+      id: input.id,
+      name: input.name,
+      evmAddress: ZERO_ADDRESS,
+      tokenAddress: ZERO_ADDRESS,
+      bondingCurveAddress: ZERO_ADDRESS,
+      strategyType: input.strategyType,
+      strategyConfig: serializeStrategyConfig(strategy),
+      character: JSON.stringify(character),
+      executionMode: input.executionMode,
+      isActive: false,
+    });
+  }
+
+  const wallet = await getOrCreateWallet(input.id);
+  const { tokenAddress, bondingCurveAddress } = await ensureCreator(
+    wallet.address as Address,
+    input.tokenName,
+    input.tokenSymbol
+  );
+
+  const [row] = await db
+    .update(agents)
+    .set({
+      name: input.name,
+      circleWalletId: wallet.id,
+      evmAddress: wallet.address,
+      tokenAddress,
+      bondingCurveAddress,
+      strategyType: input.strategyType,
+      strategyConfig: serializeStrategyConfig(strategy),
+      character: JSON.stringify(character),
+      executionMode: input.executionMode,
+      isActive: true,
+      updatedAt: new Date(),
+    })
+    .where(eq(agents.id, input.id))
+    .returning();
+
+  logger.info(
+    { agentId: input.id, evmAddress: wallet.address, tokenAddress, bondingCurveAddress },
+    "Agent provisioned"
+  );
+
+  await syncAgentRoster();
+
+  // The sync logs and swallows its own failures; fall back to the stored row
+  return getAgentConfig(input.id) ?? rowToRosterEntry(row).config;
+}
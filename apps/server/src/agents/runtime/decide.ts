@@ -7,10 +7,11 @@
  * Priority Order:
  * 1. Health Check (P10) - Repay if healthFactor < 1.2
  * 2. Treasury Low (P9) - Borrow or sell if below minBuffer
- * 3. Repay Loan (P6) - If treasury > repayTrigger
- * 4. Claim Revenue (P5) - If earned > 1 USDC
- * 5. Buy Opportunities (P4) - If treasury > target
- * 6. Sell Underperformers (P3) - Stop loss / profit take
+ * 3. Liquidation Defense (P8) - Top up or repay if projected health < defenseHealthFactor
+ * 4. Repay Loan (P6) - If treasury > repayTrigger
+ * 5. Claim Revenue (P5) - If earned > 1 USDC
+ * 6. Buy Opportunities (P4) - If treasury > target
+ * 7. Sell Underperformers (P3) - Stop loss / profit take
  */
 
 import type {
@@ -25,6 +26,7 @@ import type {
   SellTokenParams,
   ThinkingStep,
 } from "../types";
+import { planLiquidationDefense } from "../risk/defense";
 
 // Constants
 const USDC_DECIMALS = 6;
@@ -555,6 +557,9 @@ export function decide(
   // Priority 3: Sell underperformers
   evaluateSellOpportunities(state, config, thinking, actions);
 
+  // Priority 8: Liquidation defense (last, so it sees this cycle's sells and repays)
+  planLiquidationDefense(state, config, thinking, actions);
+
   // Sort actions by priority (highest first)
   actions.sort((a, b) => b.priority - a.priority);
 
@@ -3,6 +3,7 @@
  *
  * Executes agent actions via Circle Developer-Controlled Wallets.
  * Handles approvals, contract calls, and transaction tracking.
+ * Agents in paper-trading mode are routed to the paper executor instead.
  */
 
 import type { Address } from "viem";
@@ -17,6 +18,8 @@ import {
 import { db } from "../../db/client";
 import { holdings } from "../../db/schema";
 import { logger } from "../../utils/logger";
+import { executePaperActions } from "../paper/execute";
+import { recordBuy, recordSell } from "../accounting";
 import type {
   Action,
   AgentConfig,
@@ -27,6 +30,7 @@ import type {
   BorrowParams,
   DepositCollateralParams,
   WithdrawCollateralParams,
+  RiskReview,
 } from "../types";
 
 const MAX_UINT256 = BigInt(
@@ -96,6 +100,8 @@ export interface ExecutionResult {
   txHash?: string;
   error?: string;
   approvalTxHash?: string;
+  /** Pre-execution risk review of this action */
+  risk?: RiskReview;
 }
 
 /**
@@ -105,6 +111,10 @@ export async function executeActions(
   actions: Action[],
   config: AgentConfig
 ): Promise<ExecutionResult[]> {
+  if (config.executionMode === "paper") {
+    return executePaperActions(actions, config);
+  }
+
   if (!config.circleWalletId) {
     logger.error({ agentId: config.id }, "No Circle wallet ID configured");
     return actions.map((action) => ({
@@ -215,28 +225,31 @@ async function executeBuyToken(
 ): Promise<ExecutionResult> {
   const params = action.params as BuyTokenParams;
 
-  // Step 1: Get quote for slippage protection
+  // Step 1: Get quote for slippage protection (and the ledger's slippage vs quote)
   let minTokensOut = params.minTokensOut;
-  if (minTokensOut === BigInt(0)) {
-    try {
-      const bondingCurve = getBondingCurve(params.bondingCurveAddress);
-      const expectedTokens = await bondingCurve.read.getBuyQuote([params.usdcAmount]);
+  let expectedTokens: bigint | null = null;
+  try {
+    const bondingCurve = getBondingCurve(params.bondingCurveAddress);
+    expectedTokens = (await bondingCurve.read.getBuyQuote([params.usdcAmount])) as bigint;
+    if (minTokensOut === BigInt(0)) {
       // Apply slippage tolerance (1%)
-      minTokensOut = ((expectedTokens as bigint) * BigInt(10000 - DEFAULT_SLIPPAGE_BPS)) / BigInt(10000);
-      logger.info(
-        {
-          usdcAmount: params.usdcAmount.toString(),
-          expectedTokens: (expectedTokens as bigint).toString(),
-          minTokensOut: minTokensOut.toString(),
-        },
-        "Buy quote fetched with slippage protection"
-      );
-    } catch (error) {
-      logger.warn(
-        { error, bondingCurve: params.bondingCurveAddress },
-        "Failed to get buy quote, proceeding without slippage protection"
-      );
+      minTokensOut = (expectedTokens * BigInt(10000 - DEFAULT_SLIPPAGE_BPS)) / BigInt(10000);
     }
+    logger.info(
+      {
+        usdcAmount: params.usdcAmount.toString(),
+        expectedTokens: expectedTokens.toString(),
+        minTokensOut: minTokensOut.toString(),
+      },
+      "Buy quote fetched with slippage protection"
+    );
+  } catch (error) {
+    logger.warn(
+      { error, bondingCurve: params.bondingCurveAddress },
+      minTokensOut === BigInt(0)
+        ? "Failed to get buy quote, proceeding without slippage protection"
+        : "Failed to get buy quote"
+    );
   }
 
   // Step 2: Ensure USDC approval
@@ -309,7 +322,8 @@ async function executeBuyToken(
       params.tokenAddress,
       params.tokenName,
       params.usdcAmount,
-      tokensReceived
+      tokensReceived,
+      { quoted: expectedTokens, txHash: confirmed.txHash }
     );
 
     return {
@@ -344,28 +358,31 @@ async function executeSellToken(
 ): Promise<ExecutionResult> {
   const params = action.params as SellTokenParams;
 
-  // Step 1: Get quote for slippage protection if not provided
+  // Step 1: Get quote for slippage protection (and the ledger's slippage vs quote)
   let minUsdcOut = params.minUsdcOut;
-  if (minUsdcOut === BigInt(0)) {
-    try {
-      const bondingCurve = getBondingCurve(params.bondingCurveAddress);
-      const expectedUsdc = await bondingCurve.read.getSellQuote([params.tokenAmount]);
+  let expectedUsdc: bigint | null = null;
+  try {
+    const bondingCurve = getBondingCurve(params.bondingCurveAddress);
+    expectedUsdc = (await bondingCurve.read.getSellQuote([params.tokenAmount])) as bigint;
+    if (minUsdcOut === BigInt(0)) {
       // Apply slippage tolerance (1%)
-      minUsdcOut = ((expectedUsdc as bigint) * BigInt(10000 - DEFAULT_SLIPPAGE_BPS)) / BigInt(10000);
-      logger.info(
-        {
-          tokenAmount: params.tokenAmount.toString(),
-          expectedUsdc: (expectedUsdc as bigint).toString(),
-          minUsdcOut: minUsdcOut.toString(),
-        },
-        "Sell quote fetched with slippage protection"
-      );
-    } catch (error) {
-      logger.warn(
-        { error, bondingCurve: params.bondingCurveAddress },
-        "Failed to get sell quote, proceeding without slippage protection"
-      );
+      minUsdcOut = (expectedUsdc * BigInt(10000 - DEFAULT_SLIPPAGE_BPS)) / BigInt(10000);
     }
+    logger.info(
+      {
+        tokenAmount: params.tokenAmount.toString(),
+        expectedUsdc: expectedUsdc.toString(),
+        minUsdcOut: minUsdcOut.toString(),
+      },
+      "Sell quote fetched with slippage protection"
+    );
+  } catch (error) {
+    logger.warn(
+      { error, bondingCurve: params.bondingCurveAddress },
+      minUsdcOut === BigInt(0)
+        ? "Failed to get sell quote, proceeding without slippage protection"
+        : "Failed to get sell quote"
+    );
   }
 
   // Step 2: Ensure token approval
@@ -437,7 +454,8 @@ async function executeSellToken(
       agentId,
       params.tokenAddress,
       params.tokenAmount,
-      usdcReceived
+      usdcReceived,
+      { tokenName: params.tokenName, quoted: expectedUsdc, txHash: confirmed.txHash }
     );
 
     return {
@@ -791,16 +809,39 @@ async function ensureApproval(
 // Holdings Database Updates
 // ============================================
 
+/** Quote and transaction of a fill, for the trade ledger */
+export interface LedgerFillInfo {
+  tokenName?: string;
+  quoted?: bigint | null;
+  txHash?: string;
+}
+
 /**
- * Update holdings after a successful buy
+ * Update holdings after a successful buy, opening a FIFO lot in the ledger
  */
 export async function updateHoldingsAfterBuy(
   agentId: string,
   tokenAddress: Address,
   tokenName: string,
   usdcSpent: bigint,
-  tokensReceived: bigint
+  tokensReceived: bigint,
+  fill: LedgerFillInfo = {}
 ): Promise<void> {
+  // Ledger first: a position that predates the ledger is carried in from the holdings row
+  try {
+    await recordBuy({
+      agentId,
+      tokenAddress,
+      tokenName,
+      tokenAmount: tokensReceived,
+      usdcAmount: usdcSpent,
+      quoted: fill.quoted,
+      txHash: fill.txHash,
+    });
+  } catch (error) {
+    logger.error({ agentId, tokenAddress, error }, "Failed to record buy in trade ledger");
+  }
+
   try {
     // Check if holding already exists
     const existing = await db.query.holdings.findFirst({
@@ -880,14 +921,42 @@ export async function updateHoldingsAfterBuy(
 }
 
 /**
- * Update holdings after a successful sell
+ * Update holdings after a successful sell, closing FIFO lots in the ledger
  */
 export async function updateHoldingsAfterSell(
   agentId: string,
   tokenAddress: Address,
   tokensSold: bigint,
-  usdcReceived: bigint
+  usdcReceived: bigint,
+  fill: LedgerFillInfo = {}
 ): Promise<void> {
+  let fifoCostBasis: bigint | null = null;
+  try {
+    const sale = await recordSell({
+      agentId,
+      tokenAddress,
+      tokenName: fill.tokenName,
+      tokenAmount: tokensSold,
+      usdcAmount: usdcReceived,
+      quoted: fill.quoted,
+      txHash: fill.txHash,
+    });
+    if (sale.unmatched === BigInt(0)) {
+      fifoCostBasis = sale.costBasis;
+    }
+    logger.info(
+      {
+        agentId,
+        tokenAddress,
+        costBasis: sale.costBasis.toString(),
+        realizedPnl: sale.realizedPnl.toString(),
+      },
+      "Recorded sell in trade ledger"
+    );
+  } catch (error) {
+    logger.error({ agentId, tokenAddress, error }, "Failed to record sell in trade ledger");
+  }
+
   try {
     const existing = await db.query.holdings.findFirst({
       where: and(
@@ -909,12 +978,12 @@ export async function updateHoldingsAfterSell(
 
     const newBalance = existingBalance - tokensSold;
 
-    // Reduce cost basis proportionally
+    // Reduce cost basis by the FIFO cost of the lots sold, else proportionally
     const proportionSold = existingBalance > BigInt(0)
       ? (tokensSold * BigInt(10000)) / existingBalance
       : BigInt(10000);
-    const costBasisReduction = (existingCostBasis * proportionSold) / BigInt(10000);
-    const newCostBasis = existingCostBasis - costBasisReduction;
+    const costBasisReduction = fifoCostBasis ?? (existingCostBasis * proportionSold) / BigInt(10000);
+    const newCostBasis = existingCostBasis > costBasisReduction ? existingCostBasis - costBasisReduction : BigInt(0);
 
     if (newBalance <= BigInt(0)) {
       // Remove holding entirely
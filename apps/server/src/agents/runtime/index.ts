@@ -4,9 +4,17 @@
  * Re-exports all runtime functionality.
  */
 
-export { readAgentState, resetCycleCounter } from "./state";
+export { readAgentState, readAgentValuation, resetCycleCounter } from "./state";
 export { decide } from "./decide";
 export { llmDecide } from "./llm-decide";
+export {
+  runToolLoop,
+  SUBMIT_DECISION_TOOL,
+  type AgentTool,
+  type CompletionFn,
+  type ToolLoopResult,
+} from "./tool-loop";
+export { createAgentTools } from "./tools";
 export {
   logDecision,
   logExecutionResults,
@@ -1,18 +1,23 @@
 /**
  * LLM-Powered Decision Engine
  *
- * Uses OpenRouter to call an LLM for intelligent decision-making.
- * Falls back to rule-based decide() if OpenRouter is not configured or fails.
+ * Calls the trading LLM chain (see integrations/llm) for decisions. The model
+ * runs a bounded tool-calling loop (quotes, history, health simulation) and
+ * commits through submit_decision; validateActions is the final gate.
+ * Falls back to rule-based decide() if no LLM is configured or every provider fails.
  */
 
-import { getAddress, type Address } from "viem";
+import { getAddress } from "viem";
+import { env } from "../../utils/env";
 import { logger } from "../../utils/logger";
-import {
-  chatCompletion,
-  isOpenRouterConfigured,
-} from "../../integrations/openrouter/client";
+import { completeLlm, isLlmConfigured } from "../../integrations/llm/client";
 import { getSystemPrompt, formatStateForLLM, getActionInstructions } from "./prompts";
 import { decide } from "./decide";
+import { runToolLoop } from "./tool-loop";
+import { createAgentTools } from "./tools";
+import { getStrategy } from "../strategies";
+import { getStrategyDefinition } from "../strategies/registry";
+import { formatMemoryForLLM, loadAgentMemory } from "../memory";
 import type {
   AgentConfig,
   AgentState,
@@ -48,31 +53,80 @@ const VALID_THINKING_CATEGORIES = [
   "market",
 ] as const;
 
+/**
+ * Rule-based fallback for an agent
+ *
+ * Strategies flagged ruleEngine use the shared decide() pipeline; any other
+ * registered strategy decides for itself.
+ */
+function fallbackDecide(state: AgentState, config: AgentConfig): DecisionResult {
+  const definition = getStrategyDefinition(config.strategyType);
+  if (!definition || definition.ruleEngine) {
+    return decide(state, config);
+  }
+  return getStrategy(config.strategyType).decide(state, config);
+}
+
+/**
+ * Prompt section for the agent's memory; a failed load only costs the memory
+ */
+async function loadMemorySection(state: AgentState, config: AgentConfig): Promise<string> {
+  try {
+    return formatMemoryForLLM(await loadAgentMemory(config.id, state), state.timestamp);
+  } catch (error) {
+    logger.warn(
+      { agentId: config.id, error: error instanceof Error ? error.message : String(error) },
+      "Failed to load agent memory"
+    );
+    return "";
+  }
+}
+
 /**
  * LLM-powered decision function with automatic fallback
  *
- * Calls OpenRouter to get LLM-based decisions. If the LLM call fails
- * or OpenRouter is not configured, falls back to the rule-based decide() function.
+ * Calls the trading LLM chain to get LLM-based decisions. If every provider
+ * fails or none is configured, falls back to the rule-based decide() function.
  */
 export async function llmDecide(
   state: AgentState,
   config: AgentConfig
 ): Promise<DecisionResult> {
-  if (!isOpenRouterConfigured()) {
-    return decide(state, config);
+  if (!isLlmConfigured("trading")) {
+    return fallbackDecide(state, config);
   }
 
   try {
     // Build prompts
+    const memory = await loadMemorySection(state, config);
     const systemPrompt = getSystemPrompt(config.strategyType);
     const userPrompt =
-      formatStateForLLM(state, config) + "\n\n" + getActionInstructions();
+      formatStateForLLM(state, config, memory) + "\n\n" + getActionInstructions();
+
+    // Let the model research with read-only tools, then submit
+    const loop = await runToolLoop({
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      tools: createAgentTools(state, config),
+      complete: async (messages, tools, options) => {
+        const result = await completeLlm(
+          "trading",
+          { messages, tools, toolChoice: options.toolChoice },
+          { caller: `trading:${config.id}`, agentId: config.id }
+        );
+        return result.message;
+      },
+      maxSteps: env.LLM_MAX_TOOL_STEPS,
+    });
 
-    // Call LLM
-    const rawResponse = await chatCompletion(systemPrompt, userPrompt);
+    if (!loop.decision) {
+      throw new Error(`LLM did not submit a decision within ${loop.steps} steps`);
+    }
 
-    // Parse response
-    const parsed = parseResponse(rawResponse);
+    // Parse submission
+    const parsed = parseDecision(loop.decision);
 
     // Validate actions against current state
     const validatedActions = validateActions(parsed.actions, state, config);
@@ -80,6 +134,8 @@ export async function llmDecide(
     logger.info(
       {
         agentId: config.id,
+        steps: loop.steps,
+        toolCalls: loop.toolCalls,
         totalActions: parsed.actions.length,
         validActions: validatedActions.length,
         thinkingSteps: parsed.thinking.length,
@@ -91,13 +147,15 @@ export async function llmDecide(
       actions: validatedActions,
       thinking: parsed.thinking,
       urgent: validatedActions.some((a) => a.priority >= 9),
+      transcript: loop.transcript,
+      source: "llm",
     };
   } catch (error) {
     logger.warn(
       { agentId: config.id, error: error instanceof Error ? error.message : String(error) },
       "LLM decision failed, falling back to rule-based"
     );
-    return decide(state, config);
+    return fallbackDecide(state, config);
   }
 }
 
@@ -111,53 +169,13 @@ interface ParsedResponse {
 }
 
 /**
- * Parse the raw LLM response string into structured actions and thinking steps
- */
-function parseResponse(raw: string): ParsedResponse {
-  // Extract JSON from the response (handle markdown code blocks)
-  const jsonStr = extractJson(raw);
-
-  let parsed: unknown;
-  try {
-    parsed = JSON.parse(jsonStr);
-  } catch {
-    logger.warn({ rawLength: raw.length }, "Failed to parse LLM response as JSON");
-    return { actions: [], thinking: [{ category: "market", observation: "LLM response was not valid JSON", conclusion: "Skipping LLM actions this cycle" }] };
-  }
-
-  if (typeof parsed !== "object" || parsed === null) {
-    return { actions: [], thinking: [] };
-  }
-
-  const obj = parsed as Record<string, unknown>;
-
-  // Parse thinking steps
-  const thinking = parseThinkingSteps(obj.thinking);
-
-  // Parse actions
-  const actions = parseActions(obj.actions);
-
-  return { actions, thinking };
-}
-
-/**
- * Extract JSON from a response that may contain markdown code blocks
+ * Parse submit_decision arguments into structured actions and thinking steps
  */
-function extractJson(raw: string): string {
-  // Try to find JSON in code blocks first
-  const codeBlockMatch = raw.match(/```(?:json)?\s*\n?([\s\S]*?)\n?\s*```/);
-  if (codeBlockMatch) {
-    return codeBlockMatch[1].trim();
-  }
-
-  // Try to find a JSON object directly
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-    return jsonMatch[0];
-  }
-
-  // Return raw as-is
-  return raw.trim();
+function parseDecision(obj: Record<string, unknown>): ParsedResponse {
+  return {
+    thinking: parseThinkingSteps(obj.thinking),
+    actions: parseActions(obj.actions),
+  };
 }
 
 /**
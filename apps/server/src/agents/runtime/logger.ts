@@ -7,15 +7,19 @@
 
 import { eq, desc, and, count } from "drizzle-orm";
 import { db } from "../../db/client";
-import { decisionLogs } from "../../db/schema";
+import { decisionLogs, type DecisionLog as DecisionLogRow } from "../../db/schema";
 import { logger } from "../../utils/logger";
 import type {
   Action,
   AgentConfig,
   AgentState,
   DecisionLog,
+  DecisionResult,
+  DecisionSource,
+  RiskReview,
   ThinkingStep,
 } from "../types";
+import type { OpenRouterChatMessage } from "../../integrations/openrouter/types";
 import type { ExecutionResult } from "./execute";
 
 // In-memory buffer for recent decisions (for WebSocket streaming)
@@ -35,6 +39,15 @@ function serializeState(state: AgentState): string {
   );
 }
 
+/**
+ * Source of a stored decision. Logs written before sources were recorded
+ * count as LLM decisions only if they kept a transcript.
+ */
+export function decisionSource(row: Pick<DecisionLogRow, "source" | "transcript">): DecisionSource {
+  if (row.source === "llm" || row.source === "rules") return row.source;
+  return row.transcript ? "llm" : "rules";
+}
+
 /**
  * Serialize actions for JSON storage
  */
@@ -51,9 +64,12 @@ export async function logDecision(
   config: AgentConfig,
   state: AgentState,
   thinking: ThinkingStep[],
-  actions: Action[]
+  actions: Action[],
+  meta: Pick<DecisionResult, "transcript" | "source"> = {}
 ): Promise<DecisionLog> {
   const now = Date.now();
+  const { transcript } = meta;
+  const source = meta.source ?? "rules";
 
   // Insert into database
   const inserted = await db
@@ -65,6 +81,8 @@ export async function logDecision(
       stateSnapshot: serializeState(state),
       thinking: JSON.stringify(thinking),
       actions: serializeActions(actions),
+      transcript: transcript ? JSON.stringify(transcript) : null,
+      source,
       createdAt: new Date(now),
     })
     .returning();
@@ -80,6 +98,8 @@ export async function logDecision(
     stateSnapshot: state,
     thinking,
     actions,
+    transcript,
+    source,
     createdAt: new Date(now),
   };
 
@@ -194,6 +214,8 @@ export async function getDecisionHistory(
     stateSnapshot: JSON.parse(r.stateSnapshot) as AgentState,
     thinking: JSON.parse(r.thinking) as ThinkingStep[],
     actions: JSON.parse(r.actions) as Action[],
+    transcript: r.transcript ? (JSON.parse(r.transcript) as OpenRouterChatMessage[]) : undefined,
+    source: decisionSource(r),
     createdAt: new Date(r.createdAt!),
   }));
 }
@@ -230,6 +252,8 @@ export async function getLatestDecision(
     stateSnapshot: JSON.parse(r.stateSnapshot) as AgentState,
     thinking: JSON.parse(r.thinking) as ThinkingStep[],
     actions: JSON.parse(r.actions) as Action[],
+    transcript: r.transcript ? (JSON.parse(r.transcript) as OpenRouterChatMessage[]) : undefined,
+    source: decisionSource(r),
     createdAt: new Date(r.createdAt!),
   };
 }
@@ -257,6 +281,20 @@ export function clearRecentBuffer(agentId?: string): void {
   }
 }
 
+/**
+ * Serialize a risk review with bigint amounts as strings
+ */
+function serializeRisk(risk: RiskReview | undefined) {
+  if (!risk) return undefined;
+  return {
+    verdict: risk.verdict,
+    reasons: risk.reasons,
+    originalAmount: risk.originalAmount?.toString(),
+    notionalUsdc: risk.notionalUsdc?.toString(),
+    stopLossToken: risk.stopLossToken,
+  };
+}
+
 /**
  * Serialize execution results for JSON storage
  */
@@ -270,6 +308,7 @@ function serializeExecutionResults(results: ExecutionResult[]): string {
       txHash: r.txHash,
       error: r.error,
       approvalTxHash: r.approvalTxHash,
+      risk: serializeRisk(r.risk),
     }))
   );
 }
@@ -298,6 +337,7 @@ export async function logExecutionResults(
         success: r.success,
         txHash: r.txHash,
         error: r.error,
+        risk: serializeRisk(r.risk),
       }));
       break;
     }
@@ -4,8 +4,10 @@
  * Main runtime loop that orchestrates agent cycles:
  * 1. Read state
  * 2. Make decisions
- * 3. Log decisions
- * 4. (Phase 3: Execute actions)
+ * 3. Risk review (veto/resize)
+ * 4. Log decisions
+ * 5. Execute approved actions
+ * 6. Reflect on recent decisions (periodically)
  *
  * Runs both Alice and Bob in the same process.
  */
@@ -17,6 +19,8 @@ import { decide } from "./decide";
 import { llmDecide } from "./llm-decide";
 import { logDecision, logExecutionResults } from "./logger";
 import { executeActions } from "./execute";
+import { reviewActions, mergeRiskResults, recordRiskResults } from "../risk";
+import { reflectIfDue } from "../memory";
 
 // Default cycle interval: 30 minutes for prod, configurable via AGENT_CYCLE_INTERVAL_MS env var
 const DEFAULT_CYCLE_INTERVAL_MS = parseInt(
@@ -121,23 +125,30 @@ class AgentRuntime {
       // Step 2: Make decisions (LLM-powered with rule-based fallback)
       const decision = await llmDecide(state, this.config);
 
-      // Step 3: Log decision
+      // Step 3: Risk review - veto or resize actions that breach limits
+      const risk = await reviewActions(decision.actions, state, this.config);
+      decision.thinking.push(...risk.thinking);
+
+      // Step 4: Log decision (actions as decided)
       const decisionLog = await logDecision(
         this.config,
         state,
         decision.thinking,
-        decision.actions
+        decision.actions,
+        decision
       );
 
-      // Step 4: Execute actions (if any)
+      // Step 5: Execute approved actions (if any)
       if (decision.actions.length > 0) {
-        const executionResults = await executeActions(
-          decision.actions,
-          this.config
-        );
+        const executed =
+          risk.approved.length > 0
+            ? await executeActions(risk.approved, this.config)
+            : [];
+        const executionResults = mergeRiskResults(risk.reviewed, executed);
 
-        // Step 5: Log execution results
+        // Step 6: Log execution results and update risk ledger
         await logExecutionResults(decisionLog.id, executionResults);
+        await recordRiskResults(this.config, executionResults);
 
         // Track recent tx hashes for next cycle's state
         this.recentTxHashes = executionResults
@@ -151,6 +162,14 @@ class AgentRuntime {
 
       }
 
+      // Step 7: Reflect in the background so the next cycle is not delayed
+      reflectIfDue(this.config, state).catch((error) => {
+        logger.warn(
+          { agentId: this.config.id, error: error instanceof Error ? error.message : String(error) },
+          "Agent reflection failed"
+        );
+      });
+
       // Update status
       this.lastDecisionTime = new Date();
       this.lastError = null;
@@ -273,11 +292,19 @@ export async function forceAgentCycle(
 
 /**
  * Start all agents (staggered to avoid RPC rate limits)
+ *
+ * Agents that already have a runtime are skipped, so this can be called
+ * again with the current roster to start newly added agents.
  */
 export function startAllAgents(
-  configs: AgentConfig[],
+  agentConfigs: AgentConfig[],
   cycleIntervalMs?: number
 ): void {
+  const configs = agentConfigs.filter((c) => !agentRuntimes.has(c.id));
+  if (configs.length === 0) {
+    return;
+  }
+
   logger.info({ count: configs.length }, "Starting all agents");
 
   const interval = cycleIntervalMs || DEFAULT_CYCLE_INTERVAL_MS;
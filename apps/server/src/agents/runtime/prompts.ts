@@ -6,6 +6,8 @@
  */
 
 import type { AgentConfig, AgentState, StrategyType } from "../types";
+import { getStrategyDefinition } from "../strategies/registry";
+import { projectLiquidationRisk } from "../risk/defense";
 
 // ============================================
 // System Prompts (Agent Personality)
@@ -35,7 +37,7 @@ const ACADEMIC_SYSTEM_PROMPT = `You are Alice, a conservative AI financial agent
 - You want to build a small research position (1-3 USDC) in any available token to monitor it
 
 ## Your Decision Priorities (highest to lowest)
-1. Avoid liquidation (repay if health factor < 1.2)
+1. Avoid liquidation (repay if health factor < 1.2; top up or repay when Liquidation Risk says AT RISK)
 2. Maintain treasury buffer (sell holdings if below minimum)
 3. Repay loans when treasury is flush
 4. Claim pending revenue
@@ -73,7 +75,7 @@ const DEGEN_SYSTEM_PROMPT = `You are Bob, an aggressive AI financial agent manag
 - Need capital for a better opportunity
 
 ## Your Decision Priorities (highest to lowest)
-1. Avoid liquidation (repay if health factor < 1.2)
+1. Avoid liquidation (repay if health factor < 1.2; top up or repay when Liquidation Risk says AT RISK)
 2. Maintain treasury buffer (sell holdings if below minimum)
 3. Deploy excess capital into tokens (ALWAYS be invested)
 4. Claim pending revenue
@@ -82,8 +84,15 @@ const DEGEN_SYSTEM_PROMPT = `You are Bob, an aggressive AI financial agent manag
 
 /**
  * Get the system prompt for a given strategy type
+ *
+ * Registered strategies can supply their own prompt; otherwise the
+ * academic prompt is used for "academic" and the degen prompt for the rest.
  */
 export function getSystemPrompt(strategyType: StrategyType): string {
+  const custom = getStrategyDefinition(strategyType)?.systemPrompt;
+  if (custom) {
+    return custom;
+  }
   return strategyType === "academic"
     ? ACADEMIC_SYSTEM_PROMPT
     : DEGEN_SYSTEM_PROMPT;
@@ -117,7 +126,8 @@ function formatTokens(amount: bigint, decimals: number = 18): string {
  */
 export function formatStateForLLM(
   state: AgentState,
-  config: AgentConfig
+  config: AgentConfig,
+  memory?: string
 ): string {
   const sections: string[] = [];
 
@@ -146,7 +156,8 @@ export function formatStateForLLM(
     for (const h of state.holdings) {
       sections.push(
         `- ${h.tokenName}: ${formatTokens(h.balance, h.tokenDecimals)} tokens @ ${formatUsdc(h.currentPrice)} | ` +
-          `Cost: ${formatUsdc(h.totalCostBasis)} | P&L: ${h.pnlPercent >= 0 ? "+" : ""}${h.pnlPercent.toFixed(1)}% (${formatUsdc(h.unrealizedPnl)})`
+          `Cost: ${formatUsdc(h.totalCostBasis)} | P&L: ${h.pnlPercent >= 0 ? "+" : ""}${h.pnlPercent.toFixed(1)}% (${formatUsdc(h.unrealizedPnl)})` +
+          (h.realizedPnl ? ` | Realized: ${formatUsdc(h.realizedPnl)}` : "")
       );
     }
   }
@@ -162,6 +173,31 @@ export function formatStateForLLM(
     sections.push("- No active loan");
   }
 
+  // Liquidation risk (projected, so the LLM can defend before it is critical)
+  const risk = state.loan ? projectLiquidationRisk(state.loan, config) : null;
+  if (state.loan?.collateralMarket && risk) {
+    const market = state.loan.collateralMarket;
+    sections.push(`\n## Liquidation Risk`);
+    sections.push(
+      `- Status: ${risk.atRisk ? "AT RISK" : "OK"} (projected health factor ${risk.projectedHealthFactor.toFixed(2)} vs defense threshold ${risk.threshold})`
+    );
+    sections.push(
+      `- Projection: other agents hold ${formatTokens(market.otherAgentHoldings)} of your collateral token; ` +
+        `if they all sell, spot moves ${formatUsdc(risk.spotPrice)} -> ${formatUsdc(risk.projectedSpotPrice)} (${risk.priceImpactPct.toFixed(1)}%)`
+    );
+    sections.push(
+      `- Collateral valued at ${formatUsdc(risk.valuationPrice)} per token (pool price ${formatUsdc(market.poolPrice)}); ` +
+        `debt after 24h interest: ${formatUsdc(risk.projectedDebt)}`
+    );
+    sections.push(`- Spare collateral in wallet: ${formatTokens(market.walletBalance)} tokens`);
+    if (risk.atRisk) {
+      sections.push(
+        `- Defend now: DEPOSIT_COLLATERAL (tokenAddress ${state.loan.collateralToken}) and/or partial REPAY ` +
+          `to bring the projected health factor back to ${risk.target}. Selling your collateral token makes this worse.`
+      );
+    }
+  }
+
   // Market Sentiment
   sections.push(`\n## Market Sentiment`);
   if (state.marketSentiment) {
@@ -187,6 +223,11 @@ export function formatStateForLLM(
     }
   }
 
+  // Memory (recent decisions, outcomes and lessons learned)
+  if (memory) {
+    sections.push(`\n${memory}`);
+  }
+
   return sections.join("\n");
 }
 
@@ -195,12 +236,22 @@ export function formatStateForLLM(
 // ============================================
 
 /**
- * Get instructions for the LLM on how to format its response
+ * Get instructions for the LLM on its tools and how to submit a decision
  */
 export function getActionInstructions(): string {
   return `## Instructions
 
-Analyze the state above and decide what actions to take. Respond with a JSON object containing:
+Analyze the state above and decide what actions to take. Before deciding you may call read-only tools:
+
+| Tool | Use it to |
+|------|-----------|
+| get_buy_quote / get_sell_quote | Check the exact tokens or USDC a trade would return on a bonding curve |
+| get_trade_history | See who has been buying and selling a token recently |
+| get_price_history | See a token's price trend over the last hours |
+| get_video_earnings | Compare a creator's streaming earnings per video and on-chain revenue |
+| simulate_health_factor | Check your loan's health factor after a deposit, withdraw, borrow, repay or collateral sell |
+
+Tool calls are limited, so only look up what changes your decision. Then call \`submit_decision\` exactly once with:
 1. \`thinking\` - Your analysis steps (array of objects)
 2. \`actions\` - Actions to execute (array of objects, can be empty)
 
@@ -216,9 +267,7 @@ Analyze the state above and decide what actions to take. Respond with a JSON obj
 | DEPOSIT_COLLATERAL | tokenAddress, amount | Deposit additional collateral |
 | WITHDRAW_COLLATERAL | amount | Withdraw excess collateral |
 
-### Response Format
-
-Respond ONLY with valid JSON (no markdown, no explanation outside the JSON):
+### submit_decision Arguments
 
 \`\`\`json
 {
@@ -250,9 +299,10 @@ Respond ONLY with valid JSON (no markdown, no explanation outside the JSON):
 ### Important Rules
 - All amounts are raw BigInt strings (USDC has 6 decimals, tokens have 18 decimals)
 - Set minTokensOut/minUsdcOut to "0" (slippage protection is applied automatically)
-- Priority: 10 = health, 9 = treasury, 6 = repay, 5 = revenue, 4 = buy, 3 = sell
+- Priority: 10 = health, 9 = treasury, 8 = liquidation defense, 6 = repay, 5 = revenue, 4 = buy, 3 = sell
 - Confidence: 0.0 to 1.0 (higher = more certain)
 - You may return an empty actions array if no action is needed
 - Never spend below the minimum treasury buffer
-- Always check health factor before other actions`;
+- Always check health factor before other actions
+- If Liquidation Risk is AT RISK, add a DEPOSIT_COLLATERAL or REPAY with priority 8`;
 }
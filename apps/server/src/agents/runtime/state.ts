@@ -6,10 +6,13 @@
  * - On-chain contracts (token prices, balances, loans)
  * - Circle API (USDC balance)
  * - Stork Oracle (market sentiment)
- * - Local database (holdings, cost basis)
+ * - Local database (holdings, FIFO cost basis from the trade ledger)
+ *
+ * Agents in paper-trading mode get their treasury, holdings and loan from
+ * their paper account instead (see agents/paper).
  */
 
-import { eq } from "drizzle-orm";
+import { and, eq, ne, sql } from "drizzle-orm";
 import type { Address } from "viem";
 import { db } from "../../db/client";
 import { holdings as holdingsTable } from "../../db/schema";
@@ -21,15 +24,20 @@ import {
   getERC20,
 } from "../../integrations/chain/contracts";
 import { getMarketSentiment } from "../../integrations/stork";
+import { getRealizedPnl, loadOpenLots, summarizeLots } from "../accounting";
 import {
   getWalletByAgentId,
   getUsdcBalance as getCircleUsdcBalance,
 } from "../../integrations/circle/wallet";
 import { isCircleConfigured } from "../../integrations/circle/client";
 import { logger } from "../../utils/logger";
+import { readPaperState } from "../paper/state";
+import { readCurveParams } from "../backtest/loader";
 import type {
   AgentConfig,
   AgentState,
+  AgentValuation,
+  CollateralMarket,
   Holding,
   LoanInfo,
   OtherCreator,
@@ -160,7 +168,7 @@ async function readLoanInfo(agentAddress: Address): Promise<LoanInfo | null> {
   const lendingPool = getLendingPool();
 
   try {
-    // Get loan data - structure: (collateralToken, collateralAmount, borrowedAmount, timestamp)
+    // Get loan data - structure: (collateralToken, collateralAmount, borrowedAmount, interestAccrued, lastUpdateTime)
     const loan = await lendingPool.read.loans([agentAddress]);
 
     // Check if loan exists (borrowed amount > 0)
@@ -172,6 +180,9 @@ async function readLoanInfo(agentAddress: Address): Promise<LoanInfo | null> {
     const collateralToken = loan[0] as Address;
     const collateralAmount = loan[1] as bigint;
 
+    // Principal plus interest accrued up to now
+    const totalDebt = (await lendingPool.read.getTotalDebt([agentAddress])) as bigint;
+
     // Get health factor
     // Health factor is returned with 18 decimal precision (1e18 = 1.0)
     // A health factor of 1.5 would be 1.5e18 = 1500000000000000000
@@ -201,6 +212,7 @@ async function readLoanInfo(agentAddress: Address): Promise<LoanInfo | null> {
       collateralToken,
       collateralAmount,
       borrowedAmount,
+      totalDebt,
       healthFactor: healthFactorNumber,
       currentLTV,
       liquidationPrice,
@@ -211,7 +223,70 @@ async function readLoanInfo(agentAddress: Address): Promise<LoanInfo | null> {
 }
 
 /**
- * Read holdings from database and enrich with current prices
+ * Read the collateral token's curve, the agent's spare collateral and other
+ * agents' holdings of it, for projecting liquidation risk
+ */
+async function readCollateralMarket(
+  config: AgentConfig,
+  loan: LoanInfo,
+  holdings: Holding[]
+): Promise<CollateralMarket | undefined> {
+  const collateralToken = loan.collateralToken;
+  try {
+    const bondingCurveAddress = (await getLendingPool().read.tokenToBondingCurve([
+      collateralToken,
+    ])) as Address;
+    const curve = await readCurveParams(bondingCurveAddress);
+    const bondingCurve = getBondingCurve(bondingCurveAddress);
+    const token = getERC20(collateralToken);
+
+    // Sequential to avoid RPC rate limits
+    const spotPrice = (await bondingCurve.read.getPrice()) as bigint;
+    const poolPrice = (await bondingCurve.read.getFloorPrice()) as bigint;
+    const supply = (await token.read.totalSupply()) as bigint;
+
+    // Paper agents can only top up from their paper holdings
+    const holding = holdings.find(
+      (h) => h.tokenAddress.toLowerCase() === collateralToken.toLowerCase()
+    );
+    const walletBalance =
+      holding?.balance ??
+      (config.executionMode === "paper"
+        ? 0n
+        : ((await token.read.balanceOf([config.evmAddress])) as bigint));
+
+    const others = await db
+      .select({ balance: holdingsTable.balance })
+      .from(holdingsTable)
+      .where(
+        and(
+          sql`lower(${holdingsTable.tokenAddress}) = ${collateralToken.toLowerCase()}`,
+          ne(holdingsTable.agentId, config.id)
+        )
+      );
+    const otherAgentHoldings = others.reduce((sum, row) => sum + BigInt(row.balance), 0n);
+
+    return {
+      bondingCurveAddress,
+      curve,
+      supply,
+      spotPrice,
+      poolPrice,
+      walletBalance,
+      otherAgentHoldings,
+    };
+  } catch (error) {
+    logger.warn(
+      { agentId: config.id, collateralToken, error: (error as Error).message },
+      "Failed to read collateral market, skipping liquidation projection"
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Read holdings from database and enrich with current prices. Cost basis
+ * comes from open FIFO lots when the token has any, else the holdings row.
  */
 async function readHoldings(config: AgentConfig): Promise<Holding[]> {
   // Get holdings from database
@@ -226,6 +301,12 @@ async function readHoldings(config: AgentConfig): Promise<Holding[]> {
   // Get cached token → bonding curve mapping
   const tokenToBondingCurve = await getTokenToBondingCurveMap();
 
+  // Open lots and realized P&L from the trade ledger
+  const [lotPositions, realized] = await Promise.all([
+    loadOpenLots(config.id).then(summarizeLots),
+    getRealizedPnl(config.id),
+  ]);
+
   // Enrich with current prices
   const enrichedHoldings: Holding[] = [];
 
@@ -264,8 +345,9 @@ async function readHoldings(config: AgentConfig): Promise<Holding[]> {
       const bondingCurve = getBondingCurve(bondingCurveAddr);
       const currentPrice = (await bondingCurve.read.getPrice()) as bigint;
 
-      const avgBuyPrice = BigInt(h.avgBuyPrice);
-      const totalCostBasis = BigInt(h.totalCostBasis);
+      const lots = lotPositions.get(tokenAddress.toLowerCase());
+      const avgBuyPrice = lots ? lots.avgPrice : BigInt(h.avgBuyPrice);
+      const totalCostBasis = lots ? lots.costBasis : BigInt(h.totalCostBasis);
 
       // Calculate P&L using actual token decimals
       const decimals = Number(tokenDecimals);
@@ -287,6 +369,7 @@ async function readHoldings(config: AgentConfig): Promise<Holding[]> {
         currentPrice,
         unrealizedPnl,
         pnlPercent,
+        realizedPnl: realized.get(tokenAddress.toLowerCase()),
       });
     } catch (error) {
       logger.warn(
@@ -355,10 +438,27 @@ export async function readAgentState(config: AgentConfig, pendingTxs: string[] =
   try {
     // Sequential reads to avoid ARC testnet RPC rate limit (20 req/s)
     const ownTokenData = await readOwnTokenData(config);
-    const usdcBalance = await readUsdcBalance(config.id, config.evmAddress);
-    const loanInfo = await readLoanInfo(config.evmAddress);
+
+    let usdcBalance: bigint;
+    let loanInfo: LoanInfo | null;
+    let holdings: Holding[];
+    if (config.executionMode === "paper") {
+      const paper = await readPaperState(config, ownTokenData.revenue);
+      usdcBalance = paper.usdcBalance;
+      loanInfo = paper.loan;
+      holdings = paper.holdings;
+      ownTokenData.revenue = paper.ownTokenRevenue;
+    } else {
+      usdcBalance = await readUsdcBalance(config.id, config.evmAddress);
+      loanInfo = await readLoanInfo(config.evmAddress);
+      holdings = await readHoldings(config);
+    }
+
+    if (loanInfo?.active) {
+      loanInfo.collateralMarket = await readCollateralMarket(config, loanInfo, holdings);
+    }
+
     const marketSentiment = await getMarketSentiment(); // REST API, no RPC
-    const holdings = await readHoldings(config);
     const otherCreators = await readOtherCreators(config.evmAddress);
 
     const state: AgentState = {
@@ -379,6 +479,7 @@ export async function readAgentState(config: AgentConfig, pendingTxs: string[] =
       {
         agentId: config.id,
         cycle,
+        executionMode: config.executionMode ?? "live",
         usdcBalance: usdcBalance.toString(),
         ownTokenPrice: ownTokenData.price.toString(),
         holdingsCount: holdings.length,
@@ -395,6 +496,43 @@ export async function readAgentState(config: AgentConfig, pendingTxs: string[] =
   }
 }
 
+/**
+ * Read the parts of agent state needed to value the agent, plus its own
+ * token balance. Does not advance the cycle counter or scan the market.
+ */
+export async function readAgentValuation(config: AgentConfig): Promise<AgentValuation> {
+  const timestamp = Date.now();
+  const ownTokenData = await readOwnTokenData(config);
+
+  if (config.executionMode === "paper") {
+    const paper = await readPaperState(config, ownTokenData.revenue);
+    return {
+      timestamp,
+      usdcBalance: paper.usdcBalance,
+      ownTokenPrice: ownTokenData.price,
+      ownTokenRevenue: paper.ownTokenRevenue,
+      ownTokenBalance: paper.ownTokenBalance,
+      holdings: paper.holdings,
+      loan: paper.loan,
+    };
+  }
+
+  const usdcBalance = await readUsdcBalance(config.id, config.evmAddress);
+  const ownTokenBalance = (await getERC20(config.tokenAddress).read.balanceOf([config.evmAddress])) as bigint;
+  const loan = await readLoanInfo(config.evmAddress);
+  const holdings = await readHoldings(config);
+
+  return {
+    timestamp,
+    usdcBalance,
+    ownTokenPrice: ownTokenData.price,
+    ownTokenRevenue: ownTokenData.revenue,
+    ownTokenBalance,
+    holdings,
+    loan,
+  };
+}
+
 /**
  * Reset cycle counter for an agent (useful for testing)
  */
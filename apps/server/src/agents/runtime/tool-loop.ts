@@ -0,0 +1,230 @@
+/**
+ * Tool-Calling Agent Loop
+ *
+ * Drives a multi-step conversation with the LLM: each step the model may
+ * call read-only tools (quotes, history, simulations) whose results are fed
+ * back, until it calls submit_decision. The step budget is hard - on the
+ * last step the model is forced to submit. Every message is kept as the
+ * transcript so the decision log shows what the model looked at.
+ *
+ * Free of db/chain imports: the completion function and tools are injected.
+ */
+
+import type {
+  OpenRouterAssistantMessage,
+  OpenRouterChatMessage,
+  OpenRouterTool,
+  OpenRouterToolCall,
+  OpenRouterToolChoice,
+} from "../../integrations/openrouter/types";
+
+// ============================================
+// Types
+// ============================================
+
+/** A read-only tool the model can call before deciding */
+export interface AgentTool {
+  definition: OpenRouterTool;
+  run(args: Record<string, unknown>): Promise<unknown>;
+}
+
+export type CompletionFn = (
+  messages: OpenRouterChatMessage[],
+  tools: OpenRouterTool[],
+  options: { toolChoice?: OpenRouterToolChoice }
+) => Promise<OpenRouterAssistantMessage>;
+
+export interface ToolLoopOptions {
+  /** Opening messages (system + user) */
+  messages: OpenRouterChatMessage[];
+  tools: AgentTool[];
+  complete: CompletionFn;
+  /** Maximum completion calls, including the final submission */
+  maxSteps: number;
+}
+
+export interface ToolLoopResult {
+  /** submit_decision arguments, or null if the model never submitted */
+  decision: Record<string, unknown> | null;
+  /** Every message exchanged, opening prompts included */
+  transcript: OpenRouterChatMessage[];
+  /** Completion calls made */
+  steps: number;
+  /** Read-only tool calls executed */
+  toolCalls: number;
+}
+
+// ============================================
+// Submission Tool
+// ============================================
+
+export const SUBMIT_DECISION = "submit_decision";
+
+const AMOUNT = { type: "string", description: "Raw BigInt string" };
+const ADDRESS = { type: "string", description: "0x-prefixed address" };
+
+/**
+ * Final tool: commits the cycle's thinking and actions
+ */
+export const SUBMIT_DECISION_TOOL: OpenRouterTool = {
+  type: "function",
+  function: {
+    name: SUBMIT_DECISION,
+    description:
+      "Commit this cycle's decision. Call exactly once, after any research. Actions are validated against the agent's state and risk limits before execution.",
+    parameters: {
+      type: "object",
+      properties: {
+        thinking: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              category: {
+                type: "string",
+                enum: ["health", "treasury", "lending", "revenue", "trading", "market"],
+              },
+              observation: { type: "string" },
+              conclusion: { type: "string" },
+            },
+            required: ["category", "observation", "conclusion"],
+          },
+        },
+        actions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              type: {
+                type: "string",
+                enum: [
+                  "BUY_TOKEN",
+                  "SELL_TOKEN",
+                  "BORROW",
+                  "REPAY",
+                  "CLAIM_REVENUE",
+                  "DEPOSIT_COLLATERAL",
+                  "WITHDRAW_COLLATERAL",
+                ],
+              },
+              params: {
+                type: "object",
+                description: "Parameters for the action type (see the action table)",
+                properties: {
+                  tokenAddress: ADDRESS,
+                  bondingCurveAddress: ADDRESS,
+                  collateralToken: ADDRESS,
+                  tokenName: { type: "string" },
+                  usdcAmount: AMOUNT,
+                  minTokensOut: AMOUNT,
+                  tokenAmount: AMOUNT,
+                  minUsdcOut: AMOUNT,
+                  collateralAmount: AMOUNT,
+                  borrowAmount: AMOUNT,
+                  repayAmount: AMOUNT,
+                  amount: AMOUNT,
+                  withdrawCollateral: { type: "boolean" },
+                },
+              },
+              reason: { type: "string" },
+              confidence: { type: "number", minimum: 0, maximum: 1 },
+              priority: { type: "integer", minimum: 1, maximum: 10 },
+            },
+            required: ["type", "params", "reason", "confidence", "priority"],
+          },
+        },
+      },
+      required: ["thinking", "actions"],
+    },
+  },
+};
+
+// ============================================
+// Loop
+// ============================================
+
+/**
+ * JSON-encode a tool result (bigints as strings)
+ */
+function serializeResult(value: unknown): string {
+  return JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+}
+
+function parseArguments(call: OpenRouterToolCall): Record<string, unknown> {
+  const raw = call.function.arguments?.trim() || "{}";
+  const parsed: unknown = JSON.parse(raw);
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error("Tool arguments must be a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * Run the model until it submits a decision or the step budget runs out
+ */
+export async function runToolLoop(options: ToolLoopOptions): Promise<ToolLoopResult> {
+  const { complete, maxSteps } = options;
+  const transcript: OpenRouterChatMessage[] = [...options.messages];
+  const toolsByName = new Map(options.tools.map((t) => [t.definition.function.name, t]));
+  const definitions = [...options.tools.map((t) => t.definition), SUBMIT_DECISION_TOOL];
+  let toolCalls = 0;
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const finalStep = step === maxSteps;
+    const reply = await complete(transcript, definitions, {
+      toolChoice: finalStep ? { type: "function", function: { name: SUBMIT_DECISION } } : "auto",
+    });
+    transcript.push(reply);
+
+    if (!reply.tool_calls || reply.tool_calls.length === 0) {
+      if (!finalStep) {
+        transcript.push({
+          role: "user",
+          content: `Call ${SUBMIT_DECISION} to commit your decision (an empty actions array is fine).`,
+        });
+      }
+      continue;
+    }
+
+    for (const call of reply.tool_calls) {
+      if (call.function.name === SUBMIT_DECISION) {
+        try {
+          return { decision: parseArguments(call), transcript, steps: step, toolCalls };
+        } catch (error) {
+          transcript.push({
+            role: "tool",
+            tool_call_id: call.id,
+            content: serializeResult({
+              error: `Invalid ${SUBMIT_DECISION} arguments: ${error instanceof Error ? error.message : String(error)}`,
+            }),
+          });
+          continue;
+        }
+      }
+
+      const tool = toolsByName.get(call.function.name);
+      let result: unknown;
+      if (!tool) {
+        result = { error: `Unknown tool: ${call.function.name}` };
+      } else {
+        toolCalls++;
+        try {
+          result = await tool.run(parseArguments(call));
+        } catch (error) {
+          result = { error: error instanceof Error ? error.message : String(error) };
+        }
+      }
+
+      transcript.push({ role: "tool", tool_call_id: call.id, content: serializeResult(result) });
+    }
+
+    if (step === maxSteps - 1) {
+      transcript.push({
+        role: "user",
+        content: `Tool budget exhausted. Call ${SUBMIT_DECISION} now with your final decision.`,
+      });
+    }
+  }
+
+  return { decision: null, transcript, steps: maxSteps, toolCalls };
+}
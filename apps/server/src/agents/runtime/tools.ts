@@ -0,0 +1,346 @@
+/**
+ * Agent Tools
+ *
+ * Read-only tools the LLM can call during a decision cycle before it
+ * commits to actions: bonding curve quotes, trade and price history, video
+ * earnings and health factor simulation. None of them send transactions.
+ */
+
+import { and, desc, gte, inArray, sql, type Column } from "drizzle-orm";
+import { getAddress, type Address } from "viem";
+import { parseUsdc } from "@versus/streaming";
+import { db } from "../../db/client";
+import { priceHistory, revenueEvents, trades, videos, yellowSessions } from "../../db/schema";
+import { getBondingCurve } from "../../integrations/chain/contracts";
+import { projectHealthFactor, resolveRiskLimits } from "../risk/engine";
+import { projectLiquidationRisk } from "../risk/defense";
+import type { AgentConfig, AgentState } from "../types";
+import type { AgentTool } from "./tool-loop";
+
+const PRECISION = 10n ** 18n;
+const MAX_TRADES = 50;
+const MAX_PRICE_POINTS = 100;
+
+// ============================================
+// Argument Parsing
+// ============================================
+
+function addressArg(args: Record<string, unknown>, name: string): Address {
+  if (typeof args[name] !== "string") throw new Error(`${name} is required`);
+  return getAddress(args[name] as string);
+}
+
+function amountArg(args: Record<string, unknown>, name: string): bigint {
+  const raw = args[name];
+  if (raw === undefined || raw === null || raw === "") return 0n;
+  const amount = BigInt(String(raw));
+  if (amount < 0n) throw new Error(`${name} must not be negative`);
+  return amount;
+}
+
+function limitArg(args: Record<string, unknown>, name: string, fallback: number, max: number): number {
+  const value = Number(args[name] ?? fallback);
+  if (!Number.isFinite(value) || value <= 0) return fallback;
+  return Math.min(Math.floor(value), max);
+}
+
+function sameAddress(column: Column, address: Address) {
+  return sql`lower(${column}) = ${address.toLowerCase()}`;
+}
+
+// ============================================
+// Tools
+// ============================================
+
+function quoteTool(side: "buy" | "sell"): AgentTool {
+  const amountName = side === "buy" ? "usdcAmount" : "tokenAmount";
+  return {
+    definition: {
+      type: "function",
+      function: {
+        name: `get_${side}_quote`,
+        description:
+          side === "buy"
+            ? "Tokens received for spending usdcAmount on a bonding curve, from the on-chain getBuyQuote"
+            : "USDC received for selling tokenAmount on a bonding curve, from the on-chain getSellQuote",
+        parameters: {
+          type: "object",
+          properties: {
+            bondingCurveAddress: { type: "string" },
+            [amountName]: {
+              type: "string",
+              description: side === "buy" ? "USDC, 6 decimals, raw" : "Tokens, 18 decimals, raw",
+            },
+          },
+          required: ["bondingCurveAddress", amountName],
+        },
+      },
+    },
+    async run(args) {
+      const curve = getBondingCurve(addressArg(args, "bondingCurveAddress"));
+      const amount = amountArg(args, amountName);
+      if (amount === 0n) throw new Error(`${amountName} must be positive`);
+
+      if (side === "buy") {
+        const tokensOut = (await curve.read.getBuyQuote([amount])) as bigint;
+        return {
+          usdcAmount: amount,
+          tokensOut,
+          avgPrice: tokensOut > 0n ? (amount * PRECISION) / tokensOut : 0n,
+        };
+      }
+
+      const usdcOut = (await curve.read.getSellQuote([amount])) as bigint;
+      return {
+        tokenAmount: amount,
+        usdcOut,
+        avgPrice: (usdcOut * PRECISION) / amount,
+      };
+    },
+  };
+}
+
+const tradeHistoryTool: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_trade_history",
+      description: "Most recent bonding curve buys and sells of a token, newest first",
+      parameters: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          limit: { type: "integer", description: `Default 20, max ${MAX_TRADES}` },
+        },
+        required: ["tokenAddress"],
+      },
+    },
+  },
+  async run(args) {
+    const tokenAddress = addressArg(args, "tokenAddress");
+    const rows = await db
+      .select({
+        side: trades.side,
+        trader: trades.trader,
+        usdcAmount: trades.usdcAmount,
+        tokenAmount: trades.tokenAmount,
+        price: trades.price,
+        timestamp: trades.timestamp,
+      })
+      .from(trades)
+      .where(sameAddress(trades.tokenAddress, tokenAddress))
+      .orderBy(desc(trades.timestamp))
+      .limit(limitArg(args, "limit", 20, MAX_TRADES));
+
+    return { tokenAddress, trades: rows };
+  },
+};
+
+const priceHistoryTool: AgentTool = {
+  definition: {
+    type: "function",
+    function: {
+      name: "get_price_history",
+      description: "Recorded prices of a token (6 decimals) over the last N hours, oldest first",
+      parameters: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          hours: { type: "number", description: "Lookback window, default 24, max 168" },
+        },
+        required: ["tokenAddress"],
+      },
+    },
+  },
+  async run(args) {
+    const tokenAddress = addressArg(args, "tokenAddress");
+    const hours = limitArg(args, "hours", 24, 168);
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    const rows = await db
+      .select({ price: priceHistory.price, timestamp: priceHistory.timestamp })
+      .from(priceHistory)
+      .where(and(sameAddress(priceHistory.tokenAddress, tokenAddress), gte(priceHistory.timestamp, since)))
+      .orderBy(desc(priceHistory.timestamp))
+      .limit(MAX_PRICE_POINTS);
+
+    const points = rows.reverse();
+    const first = points[0] ? BigInt(points[0].price) : 0n;
+    const last = points.length > 0 ? BigInt(points[points.length - 1].price) : 0n;
+
+    return {
+      tokenAddress,
+      hours,
+      points,
+      changePct: first > 0n ? Number(((last - first) * 10000n) / first) / 100 : null,
+    };
+  },
+};
+
+function videoEarningsTool(config: AgentConfig): AgentTool {
+  return {
+    definition: {
+      type: "function",
+      function: {
+        name: "get_video_earnings",
+        description:
+          "Streaming earnings per video for a creator token (default: your own), plus on-chain revenue added to and claimed from its bonding curve",
+        parameters: {
+          type: "object",
+          properties: {
+            tokenAddress: { type: "string", description: "Creator token; defaults to your own" },
+          },
+        },
+      },
+    },
+    async run(args) {
+      const tokenAddress =
+        args.tokenAddress !== undefined ? addressArg(args, "tokenAddress") : config.tokenAddress;
+
+      const creatorVideos = await db
+        .select({ id: videos.id, title: videos.title, createdAt: videos.createdAt })
+        .from(videos)
+        .where(sameAddress(videos.creatorTokenAddress, tokenAddress));
+
+      const sessions =
+        creatorVideos.length > 0
+          ? await db
+              .select({
+                videoId: yellowSessions.videoId,
+                creatorBalance: yellowSessions.creatorBalance,
+                segmentsDelivered: yellowSessions.segmentsDelivered,
+                status: yellowSessions.status,
+              })
+              .from(yellowSessions)
+              .where(inArray(yellowSessions.videoId, creatorVideos.map((v) => v.id)))
+          : [];
+
+      const perVideo = creatorVideos.map((video) => {
+        let earnings = 0n;
+        let segments = 0;
+        const own = sessions.filter((s) => s.videoId === video.id);
+        for (const s of own) {
+          segments += s.segmentsDelivered || 0;
+          if (s.status !== "closed" && s.status !== "settled") continue;
+          try {
+            earnings += parseUsdc(s.creatorBalance || "0");
+          } catch {
+            // Malformed balances are skipped, as in the earnings route
+          }
+        }
+        return {
+          videoId: video.id,
+          title: video.title,
+          sessions: own.length,
+          segmentsDelivered: segments,
+          streamingEarnings: earnings,
+        };
+      });
+
+      const totals = await db
+        .select({
+          kind: revenueEvents.kind,
+          total: sql<string>`coalesce(sum(${revenueEvents.amount}::numeric), 0)::text`,
+        })
+        .from(revenueEvents)
+        .where(sameAddress(revenueEvents.tokenAddress, tokenAddress))
+        .groupBy(revenueEvents.kind);
+      const totalFor = (kind: string) => totals.find((t) => t.kind === kind)?.total ?? "0";
+
+      return {
+        tokenAddress,
+        videos: perVideo.sort((a, b) => (b.streamingEarnings > a.streamingEarnings ? 1 : -1)),
+        totalStreamingEarnings: perVideo.reduce((sum, v) => sum + v.streamingEarnings, 0n),
+        onChainRevenue: { added: totalFor("added"), claimed: totalFor("claimed") },
+      };
+    },
+  };
+}
+
+function simulateHealthTool(state: AgentState, config: AgentConfig): AgentTool {
+  return {
+    definition: {
+      type: "function",
+      function: {
+        name: "simulate_health_factor",
+        description:
+          "Health factor of your loan after hypothetical changes, now and projected 24h ahead (interest plus other agents selling the collateral). Below 1.0 is liquidatable.",
+        parameters: {
+          type: "object",
+          properties: {
+            depositCollateral: { type: "string", description: "Collateral tokens added (18 decimals)" },
+            withdrawCollateral: { type: "string", description: "Collateral tokens removed (18 decimals)" },
+            sellCollateral: { type: "string", description: "Wallet collateral tokens sold (18 decimals)" },
+            borrow: { type: "string", description: "Extra USDC borrowed (6 decimals)" },
+            repay: { type: "string", description: "USDC repaid (6 decimals)" },
+          },
+        },
+      },
+    },
+    async run(args) {
+      const loan = state.loan;
+      if (!loan?.active || loan.borrowedAmount === 0n) {
+        return { error: "No active loan to simulate" };
+      }
+
+      const deposit = amountArg(args, "depositCollateral");
+      const withdraw = amountArg(args, "withdrawCollateral");
+      const borrow = amountArg(args, "borrow");
+      const repay = amountArg(args, "repay");
+
+      const collateral = loan.collateralAmount + deposit - withdraw;
+      const debt = loan.borrowedAmount + borrow - repay;
+      if (collateral < 0n) return { error: "Cannot withdraw more collateral than deposited" };
+
+      // Health factor scales with collateral / debt at the pool's price
+      const healthFactor =
+        debt <= 0n
+          ? Number.POSITIVE_INFINITY
+          : loan.collateralMarket
+            ? projectHealthFactor((collateral * loan.collateralMarket.poolPrice) / PRECISION, debt)
+            : loan.collateralAmount > 0n
+              ? loan.healthFactor *
+                (Number(collateral) / Number(loan.collateralAmount)) *
+                (Number(loan.borrowedAmount) / Number(debt))
+              : 0;
+
+      // Net changes feed the projection's deposit/repay adjustments
+      const projection = projectLiquidationRisk(loan, config, {
+        ownSellTokens: amountArg(args, "sellCollateral"),
+        depositTokens: deposit - withdraw,
+        repayUsdc: repay - borrow,
+      });
+      const limits = resolveRiskLimits(config);
+
+      return {
+        currentHealthFactor: loan.healthFactor,
+        healthFactor: Number.isFinite(healthFactor) ? Number(healthFactor.toFixed(3)) : "no debt",
+        projectedHealthFactor: projection
+          ? Number.isFinite(projection.projectedHealthFactor)
+            ? Number(projection.projectedHealthFactor.toFixed(3))
+            : "no debt"
+          : null,
+        collateralAmount: collateral,
+        debt: debt > 0n ? debt : 0n,
+        minHealthFactor: limits.minHealthFactor,
+        defenseHealthFactor: limits.defenseHealthFactor,
+        liquidatable: healthFactor < 1,
+        belowMinimum: healthFactor < limits.minHealthFactor,
+      };
+    },
+  };
+}
+
+/**
+ * Read-only tools for one decision cycle, bound to the agent's state
+ */
+export function createAgentTools(state: AgentState, config: AgentConfig): AgentTool[] {
+  return [
+    quoteTool("buy"),
+    quoteTool("sell"),
+    tradeHistoryTool,
+    priceHistoryTool,
+    videoEarningsTool(config),
+    simulateHealthTool(state, config),
+  ];
+}
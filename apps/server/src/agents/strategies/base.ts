@@ -21,6 +21,7 @@ import type {
   StrategyType,
   ThinkingStep,
 } from "../types";
+import { planLiquidationDefense } from "../risk/defense";
 
 // ============================================
 // Constants
@@ -91,6 +92,9 @@ export abstract class BaseStrategy implements Strategy {
     // Priority 3: Sell underperformers
     this.evaluateSellOpportunities(state, config, thinking, actions);
 
+    // Priority 8: Liquidation defense (last, so it sees this cycle's sells and repays)
+    this.checkLiquidationDefense(state, config, thinking, actions);
+
     // Sort actions by priority (highest first)
     actions.sort((a, b) => b.priority - a.priority);
 
@@ -178,6 +182,18 @@ export abstract class BaseStrategy implements Strategy {
     return false;
   }
 
+  /**
+   * Proactive top-up / partial repay on projected health (see risk/defense)
+   */
+  protected checkLiquidationDefense(
+    state: AgentState,
+    config: AgentConfig,
+    thinking: ThinkingStep[],
+    actions: Action[]
+  ): boolean {
+    return planLiquidationDefense(state, config, thinking, actions);
+  }
+
   protected checkTreasuryLow(
     state: AgentState,
     config: AgentConfig,
@@ -1,7 +1,8 @@
 /**
  * Strategy Module
  *
- * Exports strategy classes and factory function for creating strategies.
+ * Registers the built-in strategies and exports lookup functions backed by
+ * the strategy registry.
  */
 
 import type { StrategyType } from "../types";
@@ -9,23 +10,46 @@ import type { Strategy } from "./base";
 import { BaseStrategy } from "./base";
 import { AcademicStrategy } from "./academic";
 import { DegenStrategy } from "./degen";
+import {
+  registerStrategy,
+  getStrategyDefinition,
+  listStrategyDefinitions,
+} from "./registry";
 
-// Strategy singletons (no state, so safe to reuse)
-const strategies: Record<StrategyType, Strategy> = {
-  academic: new AcademicStrategy(),
-  degen: new DegenStrategy(),
-};
+// ============================================
+// Built-in Strategies
+// ============================================
+
+registerStrategy({
+  id: "academic",
+  name: "Academic",
+  description: "Conservative: high treasury buffers, low LTV, needs strong signals",
+  create: () => new AcademicStrategy(),
+  ruleEngine: true,
+});
+
+registerStrategy({
+  id: "degen",
+  name: "Degen",
+  description: "Aggressive: small buffers, high LTV, acts on weak momentum",
+  create: () => new DegenStrategy(),
+  ruleEngine: true,
+});
+
+// Strategy singletons (no state, so safe to reuse), created on first use
+const strategies = new Map<StrategyType, Strategy>();
 
 /**
  * Get a strategy instance by type
  *
- * @param type - Strategy type ("academic" or "degen")
+ * @param type - Registered strategy id (e.g., "academic", "degen")
  * @returns Strategy instance
  */
 export function getStrategy(type: StrategyType): Strategy {
-  const strategy = strategies[type];
+  let strategy = strategies.get(type);
   if (!strategy) {
-    throw new Error(`Unknown strategy type: ${type}`);
+    strategy = createStrategy(type);
+    strategies.set(type, strategy);
   }
   return strategy;
 }
@@ -33,27 +57,35 @@ export function getStrategy(type: StrategyType): Strategy {
 /**
  * Create a new strategy instance (if you need isolated instances)
  *
- * @param type - Strategy type ("academic" or "degen")
+ * @param type - Registered strategy id
  * @returns New strategy instance
  */
 export function createStrategy(type: StrategyType): Strategy {
-  switch (type) {
-    case "academic":
-      return new AcademicStrategy();
-    case "degen":
-      return new DegenStrategy();
-    default:
-      throw new Error(`Unknown strategy type: ${type}`);
+  const definition = getStrategyDefinition(type);
+  if (!definition) {
+    throw new Error(`Unknown strategy type: ${type}`);
   }
+  return definition.create();
 }
 
 /**
- * Get all available strategy types
+ * Get all registered strategy types
  */
 export function getStrategyTypes(): StrategyType[] {
-  return ["academic", "degen"];
+  return listStrategyDefinitions().map((d) => d.id);
 }
 
 // Re-export types and classes
 export { BaseStrategy, AcademicStrategy, DegenStrategy };
 export type { Strategy };
+export {
+  registerStrategy,
+  getStrategyDefinition,
+  listStrategyDefinitions,
+  isRegisteredStrategy,
+  validateStrategyConfig,
+  serializeStrategyConfig,
+  loadStrategyModules,
+  strategyConfigSchema,
+} from "./registry";
+export type { StrategyDefinition } from "./registry";
@@ -0,0 +1,185 @@
+/**
+ * Strategy Registry
+ *
+ * Strategies register themselves by id together with a config schema, so new
+ * strategies can be added without touching core types. Extra strategies can
+ * be loaded at startup from modules listed in STRATEGY_MODULES.
+ */
+
+import { resolve } from "path";
+import { z } from "zod";
+import { logger } from "../../utils/logger";
+import type { StrategyConfig, StrategyType } from "../types";
+import type { Strategy } from "./base";
+
+// ============================================
+// Types
+// ============================================
+
+export interface StrategyDefinition {
+  /** Unique strategy id stored in agents.strategy_type (e.g., "mean-reversion") */
+  id: StrategyType;
+  /** Display name */
+  name: string;
+  /** Short description shown in the API */
+  description: string;
+  /** Create a new strategy instance */
+  create: () => Strategy;
+  /** Schema for strategy-specific StrategyConfig.params (omit if none) */
+  paramsSchema?: z.ZodTypeAny;
+  /** System prompt for LLM decisions (defaults to the built-in prompts) */
+  systemPrompt?: string;
+  /**
+   * Use the shared rule-based decide() as the non-LLM fallback instead of
+   * this strategy's own decide(). Set for the original academic/degen agents.
+   */
+  ruleEngine?: boolean;
+}
+
+// ============================================
+// Config Schema
+// ============================================
+
+/** USDC amounts arrive as bigint, numeric string (from JSON) or integer */
+const usdcAmount = z
+  .union([z.bigint(), z.string().regex(/^\d+$/), z.number().int().nonnegative()])
+  .transform((value) => BigInt(value));
+
+const fraction = z.number().min(0).max(1);
+
+/**
+ * Schema shared by every strategy's StrategyConfig
+ */
+export const strategyConfigSchema = z.object({
+  minTreasuryBuffer: usdcAmount,
+  targetTreasuryBuffer: usdcAmount,
+  maxLTV: z.number().min(0).max(100),
+  borrowTrigger: usdcAmount,
+  repayTrigger: usdcAmount,
+  speculationBudget: fraction,
+  buySignals: z.object({
+    revenueGrowth: fraction,
+    priceDropWithRevenue: fraction,
+    momentum: fraction,
+  }),
+  sellSignals: z.object({
+    revenueDrop: fraction,
+    priceDrop: fraction,
+    profitTake: z.number().min(0),
+  }),
+  params: z.record(z.unknown()).optional(),
+  riskLimits: z
+    .object({
+      maxPositionPct: fraction,
+      maxDailyTurnoverPct: z.number().min(0),
+      maxConcentrationPct: fraction,
+      stopLossCooldownMs: z.number().int().nonnegative(),
+      minHealthFactor: z.number().min(1),
+      defenseHealthFactor: z.number().min(1),
+    })
+    .partial()
+    .optional(),
+});
+
+// ============================================
+// Registry
+// ============================================
+
+const definitions = new Map<StrategyType, StrategyDefinition>();
+
+/**
+ * Register a strategy definition
+ *
+ * @throws if a strategy with the same id is already registered
+ */
+export function registerStrategy(definition: StrategyDefinition): void {
+  if (definitions.has(definition.id)) {
+    throw new Error(`Strategy already registered: ${definition.id}`);
+  }
+  definitions.set(definition.id, definition);
+  logger.debug({ strategyId: definition.id }, "Strategy registered");
+}
+
+/**
+ * Get a registered strategy definition
+ */
+export function getStrategyDefinition(id: StrategyType): StrategyDefinition | undefined {
+  return definitions.get(id);
+}
+
+/**
+ * Whether a strategy id has been registered
+ */
+export function isRegisteredStrategy(id: string): boolean {
+  return definitions.has(id);
+}
+
+/**
+ * All registered strategy definitions, in registration order
+ */
+export function listStrategyDefinitions(): StrategyDefinition[] {
+  return [...definitions.values()];
+}
+
+/**
+ * Validate a raw (e.g. JSON-parsed) strategy config for a registered strategy
+ *
+ * @throws if the strategy is unknown or the config does not match its schema
+ */
+export function validateStrategyConfig(id: StrategyType, raw: unknown): StrategyConfig {
+  const definition = definitions.get(id);
+  if (!definition) {
+    throw new Error(`Unknown strategy type: ${id}`);
+  }
+
+  const base = strategyConfigSchema.safeParse(raw);
+  if (!base.success) {
+    throw new Error(`Invalid config for strategy ${id}: ${base.error.message}`);
+  }
+
+  const config: StrategyConfig = base.data;
+  if (definition.paramsSchema) {
+    const params = definition.paramsSchema.safeParse(config.params ?? {});
+    if (!params.success) {
+      throw new Error(`Invalid params for strategy ${id}: ${params.error.message}`);
+    }
+    config.params = params.data;
+  }
+
+  return config;
+}
+
+/**
+ * Serialize a strategy config for the agents.strategy_config column
+ */
+export function serializeStrategyConfig(config: StrategyConfig): string {
+  return JSON.stringify(config, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+/**
+ * Load strategy definitions from external modules
+ *
+ * Each module must export a StrategyDefinition as `default` or `strategy`.
+ * Relative paths resolve from the working directory. Failures are logged and
+ * skipped so one bad module doesn't stop startup.
+ */
+export async function loadStrategyModules(paths: string[]): Promise<void> {
+  for (const path of paths) {
+    try {
+      const mod = await import(path.startsWith(".") ? resolve(process.cwd(), path) : path);
+      const definition = (mod.default ?? mod.strategy) as StrategyDefinition | undefined;
+      if (!definition?.id || typeof definition.create !== "function") {
+        throw new Error("Module does not export a StrategyDefinition");
+      }
+      registerStrategy(definition);
+      logger.info({ strategyId: definition.id, path }, "Loaded strategy module");
+    } catch (error) {
+      logger.error(
+        { path, error: error instanceof Error ? error.message : String(error) },
+        "Failed to load strategy module"
+      );
+    }
+  }
+}
@@ -7,12 +7,15 @@
 
 import type { Address } from "viem";
 import type { MarketSentimentData } from "../integrations/stork/types";
+import type { OpenRouterChatMessage } from "../integrations/openrouter/types";
+import type { CurveParams } from "./backtest/types";
 
 // ============================================
 // Strategy Configuration
 // ============================================
 
-export type StrategyType = "academic" | "degen";
+/** Id of a strategy registered in strategies/registry.ts (e.g., "academic", "degen") */
+export type StrategyType = string;
 
 export interface BuySignals {
   /** Minimum revenue growth % to trigger buy (e.g., 0.15 = 15%) */
@@ -49,12 +52,46 @@ export interface StrategyConfig {
   buySignals: BuySignals;
   /** Signals that trigger selling holdings */
   sellSignals: SellSignals;
+  /** Strategy-specific parameters, validated by the strategy's paramsSchema */
+  params?: Record<string, unknown>;
+  /** Pre-execution risk limits (unset fields use DEFAULT_RISK_LIMITS) */
+  riskLimits?: Partial<RiskLimits>;
+}
+
+/**
+ * Limits enforced by the risk engine between decision and execution.
+ * Percentages are fractions of portfolio value (USDC + holdings at market).
+ */
+export interface RiskLimits {
+  /** Largest single buy (e.g., 0.2 = 20% of portfolio value) */
+  maxPositionPct: number;
+  /** USDC bought + sold in a rolling 24h window (e.g., 1.0 = 100%) */
+  maxDailyTurnoverPct: number;
+  /** Largest holding in one creator token after a buy */
+  maxConcentrationPct: number;
+  /** No re-buying a token for this long after a stop-loss sell (ms) */
+  stopLossCooldownMs: number;
+  /** Minimum projected health factor after BORROW / WITHDRAW_COLLATERAL */
+  minHealthFactor: number;
+  /**
+   * Projected health factor (after pending sells and a day of interest) below
+   * which the strategy tops up collateral or partially repays, back up to
+   * minHealthFactor
+   */
+  defenseHealthFactor: number;
 }
 
 // ============================================
 // Agent Configuration
 // ============================================
 
+/**
+ * How an agent's actions are executed:
+ * - live: Circle contract executions on-chain
+ * - paper: simulated against on-chain quotes with a virtual treasury
+ */
+export type ExecutionMode = "live" | "paper";
+
 export interface AgentConfig {
   /** Unique agent identifier (e.g., "alice", "bob") */
   id: string;
@@ -72,6 +109,28 @@ export interface AgentConfig {
   strategyType: StrategyType;
   /** Full strategy configuration */
   strategy: StrategyConfig;
+  /** Execution backend (defaults to live) */
+  executionMode?: ExecutionMode;
+}
+
+// ============================================
+// Content Character
+// ============================================
+
+/**
+ * Personality and themes used by the content ideation LLM.
+ * Stored as JSON in agents.character.
+ */
+export interface AgentCharacter {
+  agentId: string;
+  displayName: string;
+  personality: string;
+  visualStyle: string;
+  topics: string[];
+  tone: string[];
+  exampleTitles: string[];
+  thumbnailStyle: string;
+  avoidTopics: string[];
 }
 
 // ============================================
@@ -99,6 +158,8 @@ export interface Holding {
   unrealizedPnl: bigint;
   /** P&L percentage */
   pnlPercent: number;
+  /** Realized P&L from FIFO lots sold so far (live agents only) */
+  realizedPnl?: bigint;
 }
 
 export interface LoanInfo {
@@ -110,12 +171,36 @@ export interface LoanInfo {
   collateralAmount: bigint;
   /** Amount borrowed (USDC, 6 decimals) */
   borrowedAmount: bigint;
+  /**
+   * Principal plus accrued interest, what repaying or liquidating the loan
+   * costs (USDC, 6 decimals). Missing in older decision snapshots.
+   */
+  totalDebt?: bigint;
   /** Current health factor (>1 is healthy) */
   healthFactor: number;
   /** Current LTV percentage */
   currentLTV: number;
   /** Value at which loan gets liquidated */
   liquidationPrice: bigint;
+  /** Collateral token's curve, for projecting liquidation risk (live/paper only) */
+  collateralMarket?: CollateralMarket;
+}
+
+export interface CollateralMarket {
+  /** Bonding curve of the collateral token */
+  bondingCurveAddress: Address;
+  /** Curve parameters, for simulating sells */
+  curve: CurveParams;
+  /** Collateral token total supply */
+  supply: bigint;
+  /** Current spot price (6 decimals) */
+  spotPrice: bigint;
+  /** Per-token price the LendingPool values collateral at (6 decimals) */
+  poolPrice: bigint;
+  /** Collateral tokens in the agent's wallet, available for a top-up */
+  walletBalance: bigint;
+  /** Collateral tokens held by other agents (sell pressure they could put on the curve) */
+  otherAgentHoldings: bigint;
 }
 
 export interface OtherCreator {
@@ -170,6 +255,15 @@ export interface AgentState {
   pendingTxs: string[];
 }
 
+/**
+ * The parts of an agent's state it is valued from (NAV snapshots)
+ */
+export interface AgentValuation
+  extends Pick<AgentState, "timestamp" | "usdcBalance" | "ownTokenPrice" | "ownTokenRevenue" | "holdings" | "loan"> {
+  /** Own tokens in the agent's wallet */
+  ownTokenBalance: bigint;
+}
+
 // ============================================
 // Actions
 // ============================================
@@ -251,7 +345,7 @@ export interface Action {
 
 export interface ThinkingStep {
   /** Step category */
-  category: "health" | "treasury" | "lending" | "revenue" | "trading" | "market";
+  category: "health" | "treasury" | "lending" | "revenue" | "trading" | "market" | "risk";
   /** What was analyzed */
   observation: string;
   /** Conclusion or decision */
@@ -260,6 +354,28 @@ export interface ThinkingStep {
   metrics?: Record<string, string | number>;
 }
 
+// ============================================
+// Risk Review
+// ============================================
+
+export type RiskVerdict = "approved" | "resized" | "vetoed";
+
+export interface RiskReview {
+  /** Outcome of the risk engine for one action */
+  verdict: RiskVerdict;
+  /** Why the action was resized or vetoed (empty when approved as-is) */
+  reasons: string[];
+  /** Amount the strategy asked for, when resized (same units as the action) */
+  originalAmount?: bigint;
+  /** Estimated USDC traded, counted toward daily turnover (buys and sells) */
+  notionalUsdc?: bigint;
+  /** Token sold by a stop-loss (starts its re-buy cooldown) */
+  stopLossToken?: Address;
+}
+
+/** Where a decision came from: the LLM, or the rule-based strategy (including LLM fallback) */
+export type DecisionSource = "llm" | "rules";
+
 export interface DecisionResult {
   /** Actions to execute (sorted by priority) */
   actions: Action[];
@@ -267,6 +383,10 @@ export interface DecisionResult {
   thinking: ThinkingStep[];
   /** Whether any critical action is needed */
   urgent: boolean;
+  /** LLM conversation, including tool calls (LLM decisions only) */
+  transcript?: OpenRouterChatMessage[];
+  /** Decision source (default: rules) */
+  source?: DecisionSource;
 }
 
 // ============================================
@@ -288,6 +408,10 @@ export interface DecisionLog {
   thinking: ThinkingStep[];
   /** Decided actions */
   actions: Action[];
+  /** LLM conversation behind the decision, if it came from the LLM */
+  transcript?: OpenRouterChatMessage[];
+  /** Decision source */
+  source: DecisionSource;
   /** When log was created */
   createdAt: Date;
 }
@@ -0,0 +1,255 @@
+/**
+ * Admin API Routes
+ *
+ * Operator-only endpoints, authenticated with ADMIN_API_KEY:
+ * - Provision new agents (Circle wallet + CreatorFactory token/curve)
+ * - Deactivate agents
+ * - Switch agents between live and paper trading
+ * - Reset agent memory
+ * - Inspect and retry stuck Yellow settlements
+ * - Inspect liquidation keeper decisions
+ */
+
+import { Hono } from "hono";
+import { getAddress } from "viem";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../../db/client";
+import { agents } from "../../db/schema";
+import { env } from "../../utils/env";
+import { bigIntReplacer } from "../../utils/json";
+import { logger } from "../../utils/logger";
+import {
+  provisionAgent,
+  provisionAgentSchema,
+  isProvisioningConfigured,
+  syncAgentRoster,
+} from "../../agents/roster";
+import { resetPaperAccount } from "../../agents/paper";
+import { getAgentConfig, getAgentStatus, resetAgentMemory } from "../../agents";
+import {
+  listSettlementJobs,
+  getSessionSettlementJobs,
+  retrySettlement,
+} from "../../integrations/yellow";
+import { listLiquidationAttempts, isKeeperConfigured } from "../../keeper";
+
+const adminRoutes = new Hono();
+
+/**
+ * Require `Authorization: Bearer <ADMIN_API_KEY>` on every admin route
+ */
+adminRoutes.use("*", async (c, next) => {
+  if (!env.ADMIN_API_KEY) {
+    return c.json({ error: "Admin API not configured" }, 503);
+  }
+
+  const authHeader = c.req.header("Authorization");
+  if (authHeader !== `Bearer ${env.ADMIN_API_KEY}`) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  await next();
+});
+
+/**
+ * POST /api/admin/agents - Provision a new agent
+ *
+ * Creates the agent's Circle wallet, deploys its token and bonding curve via
+ * CreatorFactory.createCreator, stores it in the agents table and starts it.
+ */
+adminRoutes.post("/agents", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const parsed = provisionAgentSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  if (!isProvisioningConfigured()) {
+    return c.json(
+      { error: "Provisioning not configured (need DEPLOYER_PRIVATE_KEY + Circle)" },
+      503
+    );
+  }
+
+  try {
+    const config = await provisionAgent(parsed.data);
+    return c.json(JSON.parse(JSON.stringify({ agent: config }, bigIntReplacer)), 201);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ agentId: parsed.data.id, error: message }, "Agent provisioning failed");
+
+    if (message.startsWith("Agent already exists")) {
+      return c.json({ error: message }, 409);
+    }
+    return c.json({ error: message }, 500);
+  }
+});
+
+/**
+ * POST /api/admin/agents/:id/deactivate - Stop an agent and remove it from the roster
+ */
+adminRoutes.post("/agents/:id/deactivate", async (c) => {
+  const agentId = c.req.param("id");
+
+  const updated = await db
+    .update(agents)
+    .set({ isActive: false, updatedAt: new Date() })
+    .where(eq(agents.id, agentId))
+    .returning({ id: agents.id });
+
+  if (updated.length === 0) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  await syncAgentRoster();
+  logger.info({ agentId }, "Agent deactivated via admin API");
+
+  return c.json({ agentId, isActive: false });
+});
+
+const executionModeSchema = z.object({
+  mode: z.enum(["live", "paper"]),
+  /** Discard the existing paper account so the agent starts from PAPER_STARTING_USDC */
+  resetPaperAccount: z.boolean().optional(),
+});
+
+/**
+ * POST /api/admin/agents/:id/execution-mode - Switch between live and paper trading
+ *
+ * Takes effect from the agent's next cycle.
+ */
+adminRoutes.post("/agents/:id/execution-mode", async (c) => {
+  const agentId = c.req.param("id");
+  const body = await c.req.json().catch(() => null);
+  const parsed = executionModeSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const updated = await db
+    .update(agents)
+    .set({ executionMode: parsed.data.mode, updatedAt: new Date() })
+    .where(eq(agents.id, agentId))
+    .returning({ id: agents.id });
+
+  if (updated.length === 0) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  if (parsed.data.resetPaperAccount) {
+    await resetPaperAccount(agentId);
+  }
+
+  await syncAgentRoster();
+  logger.info({ agentId, executionMode: parsed.data.mode }, "Execution mode changed via admin API");
+
+  return c.json({ agentId, executionMode: parsed.data.mode });
+});
+
+/**
+ * DELETE /api/admin/agents/:id/memory - Reset an agent's memory
+ *
+ * Later prompts only see decisions and reflections from now on.
+ */
+adminRoutes.delete("/agents/:id/memory", async (c) => {
+  const agentId = c.req.param("id");
+  const config = getAgentConfig(agentId);
+
+  if (!config) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  try {
+    const reset = await resetAgentMemory(agentId, getAgentStatus(agentId)?.currentCycle ?? 0);
+    logger.info({ agentId }, "Agent memory reset via admin API");
+    return c.json({ success: true, resetAt: reset.createdAt });
+  } catch (error) {
+    logger.error({ agentId, error }, "Failed to reset agent memory");
+    return c.json({ error: "Failed to reset memory" }, 500);
+  }
+});
+
+/** Job statuses that still need attention */
+const UNSETTLED_STATUSES = ["pending", "submitted", "dead"];
+
+/**
+ * GET /api/admin/settlements - List settlement jobs
+ *
+ * Query: ?status=dead (comma-separated; defaults to every unfinished status),
+ * ?limit=100
+ */
+adminRoutes.get("/settlements", async (c) => {
+  const statusParam = c.req.query("status");
+  const statuses = statusParam ? statusParam.split(",") : UNSETTLED_STATUSES;
+  const limit = Math.min(parseInt(c.req.query("limit") || "100", 10) || 100, 500);
+
+  const jobs = await listSettlementJobs(statuses, limit);
+  return c.json({ jobs, count: jobs.length });
+});
+
+/**
+ * GET /api/admin/settlements/:sessionId - Settlement steps for one session
+ */
+adminRoutes.get("/settlements/:sessionId", async (c) => {
+  const sessionId = c.req.param("sessionId");
+  const jobs = await getSessionSettlementJobs(sessionId);
+
+  if (jobs.length === 0) {
+    return c.json({ error: "No settlement jobs for session" }, 404);
+  }
+  return c.json({ sessionId, jobs });
+});
+
+/**
+ * POST /api/admin/settlements/:sessionId/retry - Reset and rerun unfinished steps
+ *
+ * Clears attempt counts (reviving dead-lettered steps) and runs the session
+ * immediately. Steps with a submitted tx are re-checked, not resubmitted.
+ */
+adminRoutes.post("/settlements/:sessionId/retry", async (c) => {
+  const sessionId = c.req.param("sessionId");
+
+  try {
+    const jobs = await retrySettlement(sessionId);
+    logger.info({ sessionId }, "Settlement retried via admin API");
+    return c.json({ sessionId, jobs });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith("No settlement jobs")) {
+      return c.json({ error: message }, 404);
+    }
+    logger.error({ sessionId, error: message }, "Settlement retry failed");
+    return c.json({ error: message }, 500);
+  }
+});
+
+const LIQUIDATION_STATUSES = ["skipped", "submitted", "confirmed", "failed"];
+
+/**
+ * GET /api/admin/liquidations - Liquidation keeper decisions, newest first
+ *
+ * Query: ?borrower=0x..., ?status=skipped|submitted|confirmed|failed, ?limit=100
+ */
+adminRoutes.get("/liquidations", async (c) => {
+  const borrowerParam = c.req.query("borrower");
+  const status = c.req.query("status");
+  const limit = Math.min(parseInt(c.req.query("limit") || "100", 10) || 100, 500);
+
+  let borrower: string | undefined;
+  if (borrowerParam) {
+    try {
+      borrower = getAddress(borrowerParam);
+    } catch {
+      return c.json({ error: "Invalid borrower address" }, 400);
+    }
+  }
+  if (status && !LIQUIDATION_STATUSES.includes(status)) {
+    return c.json({ error: `status must be one of: ${LIQUIDATION_STATUSES.join(", ")}` }, 400);
+  }
+
+  const attempts = await listLiquidationAttempts({ borrower, status, limit });
+  return c.json({ keeperConfigured: isKeeperConfigured(), attempts, count: attempts.length });
+});
+
+export default adminRoutes;
@@ -18,15 +18,31 @@ import {
   getLatestDecision,
   forceAgentCycle,
   subscribeToDecisions,
+  runBacktest,
+  getBacktestStrategyIds,
+  listStrategyDefinitions,
+  readPaperState,
+  loadAgentMemory,
+  formatMemoryForLLM,
+  getAgentLedger,
 } from "../../agents";
 import type { DecisionLog } from "../../agents";
 import { db } from "../../db/client";
 import { videos, yellowSessions } from "../../db/schema";
-import { eq, desc, inArray } from "drizzle-orm";
+import { and, eq, desc, inArray, ne } from "drizzle-orm";
 import { logger } from "../../utils/logger";
+import { bigIntReplacer } from "../../utils/json";
 import { getBondingCurve, getUSDC, getLendingPool, getERC20 } from "../../integrations/chain/contracts";
 import { getMarketSentiment } from "../../integrations/stork";
+import { getLlmUsageSummary, type LlmUsageSummary } from "../../integrations/llm";
+import {
+  getAgentOutcomes,
+  getOutcomeHorizonMs,
+  summarizePerformance,
+  toOutcomeRecord,
+} from "../../agents/evaluation";
 import type { Address } from "viem";
+import { addUsdc, parseUsdc, ZERO_USDC } from "@versus/streaming";
 
 const agents = new Hono();
 
@@ -62,6 +78,7 @@ agents.get("/", (c) => {
       id: config.id,
       name: config.name,
       strategyType: config.strategyType,
+      executionMode: config.executionMode ?? "live",
       evmAddress: config.evmAddress,
       tokenAddress: config.tokenAddress,
       bondingCurveAddress: config.bondingCurveAddress,
@@ -79,6 +96,22 @@ agents.get("/", (c) => {
   return c.json({ agents: result });
 });
 
+/**
+ * GET /api/agents/strategies
+ *
+ * List registered strategies (any of these ids can be stored in agents.strategy_type)
+ */
+agents.get("/strategies", (c) => {
+  return c.json({
+    strategies: listStrategyDefinitions().map((d) => ({
+      id: d.id,
+      name: d.name,
+      description: d.description,
+      hasParams: !!d.paramsSchema,
+    })),
+  });
+});
+
 /**
  * GET /api/agents/:id
  *
@@ -93,12 +126,19 @@ agents.get("/:id", async (c) => {
   }
 
   const status = getAgentStatus(agentId);
-  const latestDecision = await getLatestDecision(agentId);
+  const [latestDecision, llmUsage] = await Promise.all([
+    getLatestDecision(agentId),
+    getLlmUsageSummary({ agentId }).catch((error): LlmUsageSummary | null => {
+      logger.warn({ agentId, error: error instanceof Error ? error.message : String(error) }, "Failed to load LLM usage");
+      return null;
+    }),
+  ]);
 
   return c.json({
     id: config.id,
     name: config.name,
     strategyType: config.strategyType,
+    executionMode: config.executionMode ?? "live",
     evmAddress: config.evmAddress,
     tokenAddress: config.tokenAddress,
     bondingCurveAddress: config.bondingCurveAddress,
@@ -119,6 +159,7 @@ agents.get("/:id", async (c) => {
     latestDecision: latestDecision
       ? serializeDecisionLog(latestDecision)
       : null,
+    llmUsage,
   });
 });
 
@@ -127,6 +168,7 @@ agents.get("/:id", async (c) => {
  *
  * Live on-chain state queried directly from ARC testnet RPC.
  * No cache — always fresh data for dashboard display.
+ * Paper-trading agents report their paper treasury and loan instead.
  */
 agents.get("/:id/state", async (c) => {
   const agentId = c.req.param("id");
@@ -174,6 +216,27 @@ agents.get("/:id/state", async (c) => {
       // No loan or lending pool error — fine
     }
 
+    let treasury = {
+      usdcBalance: (usdcBalance as bigint).toString(),
+      ownTokenRevenue: (earned as bigint).toString(),
+    };
+    if (config.executionMode === "paper") {
+      const paper = await readPaperState(config, earned as bigint);
+      treasury = {
+        usdcBalance: paper.usdcBalance.toString(),
+        ownTokenRevenue: paper.ownTokenRevenue.toString(),
+      };
+      loan = paper.loan
+        ? {
+            active: true,
+            collateralAmount: paper.loan.collateralAmount.toString(),
+            borrowedAmount: paper.loan.borrowedAmount.toString(),
+            healthFactor: paper.loan.healthFactor,
+            currentLTV: paper.loan.currentLTV,
+          }
+        : null;
+    }
+
     const status = getAgentStatus(agentId);
 
     // Fetch market sentiment from Stork (non-blocking)
@@ -195,10 +258,11 @@ agents.get("/:id/state", async (c) => {
 
     return c.json({
       agentId,
-      usdcBalance: (usdcBalance as bigint).toString(),
+      executionMode: config.executionMode ?? "live",
+      usdcBalance: treasury.usdcBalance,
       ownTokenPrice: (price as bigint).toString(),
       ownTokenSupply: (supply as bigint).toString(),
-      ownTokenRevenue: (earned as bigint).toString(),
+      ownTokenRevenue: treasury.ownTokenRevenue,
       loan,
       marketSentiment: sentiment,
       currentCycle: status?.currentCycle ?? 0,
@@ -267,6 +331,46 @@ agents.get("/:id/decisions/recent", (c) => {
   });
 });
 
+/**
+ * GET /api/agents/:id/backtest
+ *
+ * Replay this agent's recorded state snapshots through one or more strategies.
+ * Query: strategies (comma-separated, default all), limit, from, to (Unix ms)
+ */
+agents.get("/:id/backtest", async (c) => {
+  const agentId = c.req.param("id");
+  const config = getAgentConfig(agentId);
+
+  if (!config) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  const strategyIds = c.req.query("strategies")
+    ? c.req.query("strategies")!.split(",").map((s) => s.trim()).filter(Boolean)
+    : getBacktestStrategyIds();
+
+  const unknown = strategyIds.filter((id) => !getBacktestStrategyIds().includes(id));
+  if (unknown.length > 0) {
+    return c.json(
+      { error: `Unknown strategies: ${unknown.join(", ")}`, available: getBacktestStrategyIds() },
+      400
+    );
+  }
+
+  const limit = Math.min(parseInt(c.req.query("limit") || "1000"), 10000);
+  const from = c.req.query("from") ? parseInt(c.req.query("from")!) : undefined;
+  const to = c.req.query("to") ? parseInt(c.req.query("to")!) : undefined;
+
+  try {
+    const report = await runBacktest(config, strategyIds, { limit, from, to });
+
+    return c.json(JSON.parse(JSON.stringify(report, bigIntReplacer)));
+  } catch (error) {
+    logger.error({ agentId, error }, "Backtest failed");
+    return c.json({ error: "Backtest failed" }, 500);
+  }
+});
+
 /**
  * POST /api/agents/:id/cycle
  *
@@ -303,6 +407,106 @@ agents.post("/:id/cycle", async (c) => {
   });
 });
 
+/**
+ * GET /api/agents/:id/performance
+ *
+ * Scored outcomes of executed actions: hit rate, average edge vs doing
+ * nothing, LLM vs rule-based split, confidence calibration and a series
+ * for charting. Query: days (default 30, max 365)
+ */
+agents.get("/:id/performance", async (c) => {
+  const agentId = c.req.param("id");
+  const config = getAgentConfig(agentId);
+
+  if (!config) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  const days = Math.min(Math.max(parseInt(c.req.query("days") || "30") || 30, 1), 365);
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+
+  try {
+    const outcomes = await getAgentOutcomes(agentId, { since });
+    const performance = summarizePerformance(outcomes.map(toOutcomeRecord));
+
+    return c.json({
+      agentId,
+      days,
+      horizonHours: getOutcomeHorizonMs() / (60 * 60 * 1000),
+      ...JSON.parse(
+        JSON.stringify(performance, (_, value) =>
+          typeof value === "bigint" ? value.toString() : value
+        )
+      ),
+    });
+  } catch (error) {
+    logger.error({ agentId, error }, "Failed to load agent performance");
+    return c.json({ error: "Failed to load performance" }, 500);
+  }
+});
+
+/**
+ * GET /api/agents/:id/ledger
+ *
+ * Trade ledger of a live agent: open FIFO lots per position, realized vs
+ * unrealized P&L, recent trades with slippage vs quote, and daily NAV
+ * snapshots. Query: days of NAV history (default 90, max 365), limit of
+ * trades (default 50, max 500)
+ */
+agents.get("/:id/ledger", async (c) => {
+  const agentId = c.req.param("id");
+  const config = getAgentConfig(agentId);
+
+  if (!config) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  const days = Math.min(Math.max(parseInt(c.req.query("days") || "90") || 90, 1), 365);
+  const tradeLimit = Math.min(Math.max(parseInt(c.req.query("limit") || "50") || 50, 1), 500);
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  try {
+    const ledger = await getAgentLedger(agentId, { since, tradeLimit });
+
+    return c.json({
+      agentId,
+      executionMode: config.executionMode ?? "live",
+      days,
+      ...JSON.parse(
+        JSON.stringify(ledger, (_, value) =>
+          typeof value === "bigint" ? value.toString() : value
+        )
+      ),
+    });
+  } catch (error) {
+    logger.error({ agentId, error }, "Failed to load agent ledger");
+    return c.json({ error: "Failed to load ledger" }, 500);
+  }
+});
+
+/**
+ * GET /api/agents/:id/memory
+ *
+ * Recent decisions with outcomes, the latest reflection, and the memory
+ * section as it appears in the agent's prompt
+ */
+agents.get("/:id/memory", async (c) => {
+  const agentId = c.req.param("id");
+  const config = getAgentConfig(agentId);
+
+  if (!config) {
+    return c.json({ error: "Agent not found" }, 404);
+  }
+
+  try {
+    const memory = await loadAgentMemory(agentId);
+    return c.json({ ...memory, prompt: formatMemoryForLLM(memory, Date.now()) });
+  } catch (error) {
+    logger.error({ agentId, error }, "Failed to load agent memory");
+    return c.json({ error: "Failed to load memory" }, 500);
+  }
+});
+
 /**
  * GET /api/agents/:id/videos
  *
@@ -332,7 +536,7 @@ agents.get("/:id/videos", async (c) => {
       processedAt: videos.processedAt,
     })
     .from(videos)
-    .where(eq(videos.agentId, agentId))
+    .where(and(eq(videos.agentId, agentId), ne(videos.status, "deleted")))
     .orderBy(desc(videos.createdAt));
 
   return c.json({ videos: agentVideos });
@@ -369,7 +573,7 @@ agents.get("/:id/earnings", async (c) => {
 
   const videoIds = agentVideos.map((v) => v.id);
 
-  let totalStreamingEarnings = BigInt(0);
+  let totalStreamingEarnings = ZERO_USDC;
   let totalSessions = 0;
   let closedSessions = 0;
   let totalSegmentsDelivered = 0;
@@ -388,9 +592,14 @@ agents.get("/:id/earnings", async (c) => {
 
     for (const s of sessions) {
       if (s.status === "closed" || s.status === "settled") {
-        const raw = s.creatorBalance || "0";
-        const parsed = Math.round(parseFloat(raw) * 1e6);
-        if (!isNaN(parsed)) totalStreamingEarnings += BigInt(parsed);
+        try {
+          totalStreamingEarnings = addUsdc(
+            totalStreamingEarnings,
+            parseUsdc(s.creatorBalance || "0"),
+          );
+        } catch {
+          logger.warn({ agentId, creatorBalance: s.creatorBalance }, "Skipping malformed session balance");
+        }
         closedSessions++;
       }
       totalSegmentsDelivered += s.segmentsDelivered || 0;
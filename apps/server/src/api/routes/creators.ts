@@ -0,0 +1,227 @@
+/**
+ * Creator API Routes
+ *
+ * Human creator accounts:
+ * - Sign-in with Ethereum (EIP-4361): nonce, verify, logout
+ * - Profile and CreatorFactory token deployment
+ * - Dashboard of the creator's videos, viewer sessions and earnings
+ *
+ * Signed-in requests carry `Authorization: Bearer <token>` from verify.
+ */
+
+import { Hono, type MiddlewareHandler } from "hono";
+import { z } from "zod";
+import { formatUsdc, usdcFromUnits } from "@versus/streaming";
+import type { Creator } from "../../db/schema";
+import {
+  bearerToken,
+  CreatorAuthError,
+  CreatorTokenError,
+  deployCreatorToken,
+  getCreatorDashboard,
+  getRequestCreator,
+  issueNonce,
+  revokeSession,
+  signInWithEthereum,
+  siweDomain,
+  updateCreatorProfile,
+  type CreatorEarnings,
+} from "../../creators";
+import { logger } from "../../utils/logger";
+
+const creatorRoutes = new Hono<{ Variables: { creator: Creator } }>();
+
+const verifySchema = z.object({
+  message: z.string().min(1),
+  signature: z.string().startsWith("0x"),
+});
+
+const profileSchema = z.object({
+  displayName: z.string().trim().min(1).max(64).nullable(),
+});
+
+const tokenSchema = z.object({
+  tokenName: z.string().trim().min(1).max(64),
+  tokenSymbol: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9]{2,10}$/, "2-10 letters or digits"),
+});
+
+function creatorResponse(creator: Creator) {
+  return {
+    id: creator.id,
+    address: creator.address,
+    displayName: creator.displayName,
+    tokenName: creator.tokenName,
+    tokenSymbol: creator.tokenSymbol,
+    tokenAddress: creator.tokenAddress,
+    bondingCurveAddress: creator.bondingCurveAddress,
+    createdAt: creator.createdAt,
+  };
+}
+
+function earningsResponse(earnings: CreatorEarnings) {
+  return {
+    ...earnings,
+    total: formatUsdc(usdcFromUnits(earnings.total)),
+    settled: formatUsdc(usdcFromUnits(earnings.settled)),
+    unsettled: formatUsdc(usdcFromUnits(earnings.unsettled)),
+  };
+}
+
+/**
+ * Require a live creator session on /me routes
+ */
+const requireCreator: MiddlewareHandler<{ Variables: { creator: Creator } }> = async (c, next) => {
+  const creator = await getRequestCreator(c);
+  if (!creator) {
+    return c.json({ error: "Sign in required" }, 401);
+  }
+  c.set("creator", creator);
+  await next();
+};
+
+creatorRoutes.use("/me", requireCreator);
+creatorRoutes.use("/me/*", requireCreator);
+
+/**
+ * GET /api/creators/auth/nonce - Single-use nonce for a SIWE message
+ *
+ * The message must be issued for the returned domain.
+ */
+creatorRoutes.get("/auth/nonce", async (c) => {
+  try {
+    const { nonce, expiresAt } = await issueNonce();
+    c.header("Cache-Control", "no-store");
+    return c.json({ nonce, expiresAt, domain: siweDomain() });
+  } catch (error) {
+    logger.error({ error }, "Failed to issue SIWE nonce");
+    return c.json({ error: "Failed to issue nonce" }, 500);
+  }
+});
+
+/**
+ * POST /api/creators/auth/verify - Sign in with a signed SIWE message
+ *
+ * Body: { message, signature }. Creates the creator account on first
+ * sign-in and returns a session token.
+ */
+creatorRoutes.post("/auth/verify", async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const parsed = verifySchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  try {
+    const { token, expiresAt, creator } = await signInWithEthereum(
+      parsed.data.message,
+      parsed.data.signature
+    );
+    return c.json({ token, expiresAt, creator: creatorResponse(creator) });
+  } catch (error) {
+    if (error instanceof CreatorAuthError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ error: message }, "SIWE sign-in failed");
+    return c.json({ error: "Sign-in failed" }, 500);
+  }
+});
+
+/**
+ * POST /api/creators/auth/logout - Revoke the current session
+ */
+creatorRoutes.post("/auth/logout", async (c) => {
+  const token = bearerToken(c);
+  if (token) {
+    await revokeSession(token);
+  }
+  return c.body(null, 204);
+});
+
+/**
+ * GET /api/creators/me - The signed-in creator
+ */
+creatorRoutes.get("/me", (c) => {
+  return c.json({ creator: creatorResponse(c.get("creator")) });
+});
+
+/**
+ * PATCH /api/creators/me - Update the creator's profile
+ *
+ * Body: { displayName }
+ */
+creatorRoutes.patch("/me", async (c) => {
+  const creator = c.get("creator");
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = profileSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const updated = await updateCreatorProfile(creator.id, parsed.data);
+  return c.json({ creator: creatorResponse(updated) });
+});
+
+/**
+ * POST /api/creators/me/token - Deploy the creator's token and bonding
+ * curve via CreatorFactory.createCreator
+ *
+ * Body: { tokenName, tokenSymbol }. Streaming revenue from the creator's
+ * videos is distributed to holders of this token.
+ */
+creatorRoutes.post("/me/token", async (c) => {
+  const creator = c.get("creator");
+  const body = await c.req.json().catch(() => null);
+  const parsed = tokenSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  try {
+    const updated = await deployCreatorToken(creator, {
+      tokenName: parsed.data.tokenName,
+      tokenSymbol: parsed.data.tokenSymbol.toUpperCase(),
+    });
+    return c.json({ creator: creatorResponse(updated) }, 201);
+  } catch (error) {
+    if (error instanceof CreatorTokenError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ creatorId: creator.id, error: message }, "Creator token deployment failed");
+    return c.json({ error: "Creator token deployment failed", details: message }, 500);
+  }
+});
+
+/**
+ * GET /api/creators/me/dashboard - The creator's videos (with per-video
+ * earnings), recent viewer sessions and total earnings in USDC
+ *
+ * Query: limit (recent sessions, default 50, max 200)
+ */
+creatorRoutes.get("/me/dashboard", async (c) => {
+  const creator = c.get("creator");
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || "50", 10) || 50, 200), 1);
+
+  try {
+    const dashboard = await getCreatorDashboard(creator, limit);
+    return c.json({
+      creator: creatorResponse(dashboard.creator),
+      earnings: earningsResponse(dashboard.earnings),
+      videos: dashboard.videos.map((v) => ({ ...v, earnings: earningsResponse(v.earnings) })),
+      sessions: dashboard.sessions.map((s) => ({
+        ...s,
+        earned: formatUsdc(usdcFromUnits(s.earned)),
+      })),
+    });
+  } catch (error) {
+    logger.error({ creatorId: creator.id, error }, "Failed to load creator dashboard");
+    return c.json({ error: "Failed to load creator dashboard" }, 500);
+  }
+});
+
+export default creatorRoutes;
@@ -8,6 +8,11 @@ import { Hono } from "hono";
 import { getPublicClient } from "../../integrations/chain/client";
 import { isCircleConfigured, getCircleClient } from "../../integrations/circle";
 import { checkStorkHealth } from "../../integrations/stork";
+import {
+  getLlmRouter,
+  getLlmUsageSummary,
+  type LlmUsageSummary,
+} from "../../integrations/llm";
 import { db } from "../../db/client";
 import { getAllAgentStatuses } from "../../agents";
 import { logger } from "../../utils/logger";
@@ -30,6 +35,15 @@ interface HealthResponse {
     total: number;
     running: number;
   };
+  llm: LlmStatus;
+}
+
+interface LlmStatus {
+  /** Fallback chain and whether any provider in it is configured */
+  trading: { providers: string[]; configured: boolean };
+  ideation: { providers: string[]; configured: boolean };
+  /** Calls, tokens and cost over the last 24h (null if the query failed) */
+  usage: LlmUsageSummary | null;
 }
 
 const startTime = Date.now();
@@ -130,17 +144,34 @@ async function checkDatabase(): Promise<IntegrationStatus> {
   }
 }
 
+/**
+ * LLM chains and last-24h usage
+ */
+async function getLlmStatus(): Promise<LlmStatus> {
+  const router = getLlmRouter();
+  let usage: LlmUsageSummary | null = null;
+  try {
+    usage = await getLlmUsageSummary();
+  } catch (error) {
+    logger.warn({ error: error instanceof Error ? error.message : String(error) }, "Failed to load LLM usage");
+  }
+
+  return {
+    trading: { providers: router.providers("trading"), configured: router.isConfigured("trading") },
+    ideation: { providers: router.providers("ideation"), configured: router.isConfigured("ideation") },
+    usage,
+  };
+}
+
 /**
  * GET /health
  *
  * Returns overall health status
  */
 health.get("/", async (c) => {
-  const integrations = await Promise.all([
-    checkChain(),
-    checkCircle(),
-    checkStork(),
-    checkDatabase(),
+  const [integrations, llm] = await Promise.all([
+    Promise.all([checkChain(), checkCircle(), checkStork(), checkDatabase()]),
+    getLlmStatus(),
   ]);
 
   const agentStatuses = getAllAgentStatuses();
@@ -172,6 +203,7 @@ health.get("/", async (c) => {
       total: agentStatuses.length,
       running: runningAgents,
     },
+    llm,
   };
 
   const statusCode = overallStatus === "healthy" ? 200 : 503;
@@ -11,3 +11,9 @@ export { default as streamingRoutes } from "./streaming";
 export { default as authRoutes } from "./auth";
 export { default as tradingRoutes } from "./trading";
 export { default as scheduleRoutes } from "./schedule";
+export { default as adminRoutes } from "./admin";
+export { default as storageRoutes } from "./storage";
+export { default as lendingRoutes } from "./lending";
+export { default as leaderboardRoutes } from "./leaderboard";
+export { default as creatorRoutes } from "./creators";
+export { default as liveRoutes } from "./live";
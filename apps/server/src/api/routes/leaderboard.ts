@@ -0,0 +1,36 @@
+/**
+ * Leaderboard API Routes
+ *
+ * Ranks the competing agents by net asset value from their daily NAV
+ * snapshots.
+ */
+
+import { Hono } from "hono";
+import { getLeaderboard } from "../../agents/leaderboard";
+import { logger } from "../../utils/logger";
+
+const leaderboard = new Hono();
+
+/**
+ * GET /api/leaderboard
+ *
+ * Agents ranked by latest NAV, each with its NAV curve, return, Sharpe-like
+ * ratio and max drawdown. Query: days (default 30, max 365)
+ */
+leaderboard.get("/", async (c) => {
+  const days = Math.min(Math.max(parseInt(c.req.query("days") || "30") || 30, 1), 365);
+
+  try {
+    const board = await getLeaderboard(days);
+    return c.json(
+      JSON.parse(
+        JSON.stringify(board, (_, value) => (typeof value === "bigint" ? value.toString() : value))
+      )
+    );
+  } catch (error) {
+    logger.error({ error }, "Failed to load leaderboard");
+    return c.json({ error: "Failed to load leaderboard" }, 500);
+  }
+});
+
+export default leaderboard;
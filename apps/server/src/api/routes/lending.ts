@@ -0,0 +1,73 @@
+/**
+ * Lending API Routes
+ *
+ * Indexed LendingPool history: collateral deposits/withdrawals, borrows,
+ * repayments and liquidations.
+ */
+
+import { Hono } from "hono";
+import { getAddress } from "viem";
+import { and, desc, eq, gte, type SQL } from "drizzle-orm";
+import { db } from "../../db/client";
+import { lendingEvents } from "../../db/schema";
+import { logger } from "../../utils/logger";
+
+const LENDING_EVENT_KINDS = ["deposit", "withdraw", "borrow", "repay", "liquidation"];
+
+const lending = new Hono();
+
+/**
+ * GET /api/lending/events
+ *
+ * Query params: borrower (address, optional), kind (optional), limit
+ * (default 50), from (unix ms, optional)
+ */
+lending.get("/events", async (c) => {
+  const borrower = c.req.query("borrower");
+  const kind = c.req.query("kind");
+  const from = c.req.query("from");
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || "50", 10) || 50, 200), 1);
+
+  if (kind && !LENDING_EVENT_KINDS.includes(kind)) {
+    return c.json(
+      { error: `Invalid kind. Must be one of: ${LENDING_EVENT_KINDS.join(", ")}` },
+      400
+    );
+  }
+
+  let borrowerAddress: string | undefined;
+  if (borrower) {
+    try {
+      borrowerAddress = getAddress(borrower);
+    } catch {
+      return c.json({ error: "Invalid borrower address" }, 400);
+    }
+  }
+
+  try {
+    const conditions: SQL[] = [];
+    if (borrowerAddress) {
+      conditions.push(eq(lendingEvents.borrower, borrowerAddress));
+    }
+    if (kind) {
+      conditions.push(eq(lendingEvents.kind, kind));
+    }
+    if (from) {
+      conditions.push(gte(lendingEvents.timestamp, Number(from)));
+    }
+
+    const events = await db
+      .select()
+      .from(lendingEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(lendingEvents.timestamp))
+      .limit(limit);
+
+    return c.json({ events });
+  } catch (error) {
+    logger.error({ borrower, kind, error }, "Failed to fetch lending events");
+    return c.json({ error: "Failed to fetch lending events" }, 500);
+  }
+});
+
+export default lending;
@@ -0,0 +1,232 @@
+/**
+ * Live Streaming API Routes
+ *
+ * Starts and stops live ingests and serves the live HLS playlists, which
+ * are regenerated from the published segments on every request. Segment
+ * keys are sold through the normal /api/videos/:videoId/key routes.
+ *
+ * Starting a stream needs a creator session (or the admin key, to stream
+ * for an agent); stopping is limited to the video's creator and the admin.
+ */
+
+import { Hono } from "hono";
+import { z } from "zod";
+import { and, eq, ne } from "drizzle-orm";
+import { db } from "../../db/client";
+import { videos, type LiveStream } from "../../db/schema";
+import {
+  getLiveCommitment,
+  getLiveSegments,
+  getLiveStream,
+  liveCommitmentRoot,
+  LiveStreamLimitError,
+  startLiveStream,
+  stopLiveStream,
+} from "../../live";
+import { generateLiveMediaPlaylist, generateMasterPlaylist } from "../../video/packager";
+import { parseRenditionLadder } from "../../video/renditions";
+import {
+  getStorageProvider,
+  isStorageConfigured,
+  storageNotConfiguredMessage,
+} from "../../integrations/storage";
+import { canManageVideo, getRequestPrincipal, uploaderFor } from "../../creators";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+
+const liveRoutes = new Hono();
+
+const startLiveSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(5000).nullable().optional(),
+  /** "test" streams an FFmpeg test pattern instead of waiting for RTMP */
+  source: z.enum(["rtmp", "test"]).default("rtmp"),
+  agentId: z.string().optional(),
+});
+
+const PLAYLIST_HEADERS = {
+  "Content-Type": "application/vnd.apple.mpegurl",
+  "Cache-Control": "no-cache",
+  "Access-Control-Allow-Origin": "*",
+};
+
+function streamResponse(stream: LiveStream) {
+  return {
+    videoId: stream.videoId,
+    source: stream.source,
+    status: stream.status,
+    quality: stream.quality,
+    segmentDuration: stream.segmentDuration,
+    windowSize: stream.windowSize,
+    segmentsPublished: stream.segmentsPublished,
+    lastError: stream.lastError,
+    startedAt: stream.startedAt,
+    lastSegmentAt: stream.lastSegmentAt,
+    endedAt: stream.endedAt,
+  };
+}
+
+/**
+ * Live stream of a video that hasn't been deleted
+ */
+async function loadLiveStream(videoId: string) {
+  const [video] = await db
+    .select({ creatorId: videos.creatorId })
+    .from(videos)
+    .where(and(eq(videos.id, videoId), ne(videos.status, "deleted")))
+    .limit(1);
+  if (!video) return null;
+  const stream = await getLiveStream(videoId);
+  return stream ? { video, stream } : null;
+}
+
+/**
+ * POST /api/live - Start a live stream
+ *
+ * Body: { title, description?, source? ("rtmp" | "test"), agentId? (admin only) }.
+ * Creates a video with status "live" and returns the RTMP ingest URL and
+ * stream key to publish to (e.g. `ffmpeg -re -i in.mp4 -c copy -f flv
+ * <ingestUrl>/<streamKey>`), plus the playback URL. The stream key is
+ * only returned here.
+ */
+liveRoutes.post("/", async (c) => {
+  if (!isStorageConfigured()) {
+    return c.json({ error: storageNotConfiguredMessage() }, 503);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = startLiveSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const uploader = uploaderFor(await getRequestPrincipal(c), parsed.data.agentId);
+  if ("error" in uploader) {
+    return c.json({ error: uploader.error }, uploader.status);
+  }
+
+  try {
+    const started = await startLiveStream({
+      title: parsed.data.title,
+      description: parsed.data.description,
+      source: parsed.data.source,
+      ...uploader,
+    });
+    return c.json(
+      {
+        live: streamResponse(started.stream),
+        ingestUrl: started.ingestUrl,
+        streamKey: started.streamKey,
+        playbackUrl: started.playbackUrl,
+      },
+      201,
+    );
+  } catch (error) {
+    if (error instanceof LiveStreamLimitError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ error: message }, "Failed to start live stream");
+    return c.json({ error: "Failed to start live stream", details: message }, 500);
+  }
+});
+
+/**
+ * GET /api/live/:videoId - Live stream status and its committed Merkle windows
+ */
+liveRoutes.get("/:videoId", async (c) => {
+  const videoId = c.req.param("videoId");
+  const found = await loadLiveStream(videoId);
+  if (!found) {
+    return c.json({ error: "Live stream not found" }, 404);
+  }
+
+  const windows = await getLiveCommitment(videoId);
+  return c.json({
+    live: streamResponse(found.stream),
+    commitment: {
+      merkleRoot: liveCommitmentRoot(windows.map((w) => w.root)),
+      windows,
+    },
+  });
+});
+
+/**
+ * POST /api/live/:videoId/stop - End a live stream
+ *
+ * Creator or admin only. Publishes the last segments, commits the final
+ * Merkle window and turns the video into a ready VOD.
+ */
+liveRoutes.post("/:videoId/stop", async (c) => {
+  const videoId = c.req.param("videoId");
+  const found = await loadLiveStream(videoId);
+  if (!found) {
+    return c.json({ error: "Live stream not found" }, 404);
+  }
+
+  const principal = await getRequestPrincipal(c);
+  if (!principal) {
+    return c.json({ error: "Sign in required" }, 401);
+  }
+  if (!canManageVideo(found.video, principal)) {
+    return c.json({ error: "Not allowed to manage this video" }, 403);
+  }
+
+  try {
+    const stream = await stopLiveStream(videoId);
+    return c.json({ live: stream ? streamResponse(stream) : null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ videoId, error: message }, "Failed to stop live stream");
+    return c.json({ error: "Failed to stop live stream", details: message }, 500);
+  }
+});
+
+/**
+ * GET /api/live/:videoId/master.m3u8 - Master playlist (one rendition)
+ */
+liveRoutes.get("/:videoId/master.m3u8", async (c) => {
+  const found = await loadLiveStream(c.req.param("videoId"));
+  if (!found) {
+    return c.json({ error: "Live stream not found" }, 404);
+  }
+
+  return c.body(
+    generateMasterPlaylist(parseRenditionLadder(found.stream.quality)),
+    200,
+    PLAYLIST_HEADERS,
+  );
+});
+
+/**
+ * GET /api/live/:videoId/:quality/playlist.m3u8 - Live media playlist
+ *
+ * Lists every published segment with its key URI and IV; ENDLIST is added
+ * once the stream has ended.
+ */
+liveRoutes.get("/:videoId/:quality/playlist.m3u8", async (c) => {
+  const videoId = c.req.param("videoId");
+  const found = await loadLiveStream(videoId);
+  if (!found || found.stream.quality !== c.req.param("quality")) {
+    return c.json({ error: "Live stream not found" }, 404);
+  }
+
+  const storage = getStorageProvider();
+  const segments = await getLiveSegments(videoId);
+  const playlist = generateLiveMediaPlaylist(
+    segments.map((s) => ({
+      index: s.segmentIndex,
+      duration: s.duration,
+      ivHex: s.ivHex,
+      uri: storage.getUrl(s.path),
+    })),
+    videoId,
+    env.FRONTEND_URL || `http://localhost:${env.PORT}`,
+    found.stream.segmentDuration,
+    found.stream.status === "ended" || found.stream.status === "failed",
+  );
+
+  return c.body(playlist, 200, PLAYLIST_HEADERS);
+});
+
+export default liveRoutes;
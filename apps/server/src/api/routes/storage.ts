@@ -0,0 +1,43 @@
+/**
+ * Local Storage Routes
+ *
+ * Serves playlists, segments and thumbnails written by the filesystem
+ * storage provider (STORAGE_PROVIDER=local). Segments stay encrypted;
+ * keys are still released through the paid key routes.
+ */
+
+import { Hono } from "hono";
+import { getLocalStorageProvider } from "../../integrations/storage";
+import { contentTypeFor } from "../../video/local-storage";
+
+const storageRoutes = new Hono();
+
+/**
+ * GET /storage/* - Serve a stored file
+ */
+storageRoutes.get("/*", async (c) => {
+  const provider = getLocalStorageProvider();
+  if (!provider) {
+    return c.json({ error: "Local storage is not enabled" }, 404);
+  }
+
+  let path: string;
+  try {
+    path = decodeURIComponent(c.req.path.replace(/^\/storage\/?/, ""));
+  } catch {
+    return c.json({ error: "Malformed path" }, 400);
+  }
+
+  // read() returns null for missing files and paths outside the root
+  const data = await provider.read(path);
+  if (!data) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  return c.body(new Uint8Array(data), 200, {
+    "Content-Type": contentTypeFor(path),
+    "Cache-Control": "public, max-age=31536000, immutable",
+  });
+});
+
+export default storageRoutes;
@@ -6,15 +6,18 @@
  * with fallback to legacy bearer token auth.
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { db } from "../../db/client";
 import { agents, videos, viewerSessions, yellowSessions } from "../../db/schema";
 import { eq, and, gt } from "drizzle-orm";
 import { getSegmentKey, getSegmentKeyRaw } from "../../video/key-handler";
+import { checkSegmentRequest } from "../../video/availability";
 import { randomUUID } from "crypto";
 import { logger } from "../../utils/logger";
 import { env } from "../../utils/env";
 import { decryptSecret } from "../../utils/encryption";
+import { getLiveSegmentProof } from "../../live";
+import { deriveSegmentIV, formatUsdc, parseUsdc, ZERO_USDC } from "@versus/streaming";
 import {
   isYellowConfigured,
   createStreamingSession,
@@ -24,13 +27,25 @@ import {
   finalizeCustodyChannel,
   getSession,
 } from "../../integrations/yellow";
+import {
+  isFreePreviewSegment,
+  issueGateChallenge,
+  parsePricingPolicy,
+  quoteVideoPricing,
+  redeemGatePass,
+  resolveGatePass,
+  TokenGateError,
+} from "../../pricing";
 
 const streamingRoutes = new Hono();
 
 /**
  * POST /api/videos/:videoId/session - Create a viewer session
  *
- * If Yellow is configured: creates a state channel payment session.
+ * If Yellow is configured: creates a state channel payment session at the
+ * video's quoted price. Token holders redeem a gate pass (see
+ * /gate/challenge) and send it in gatePass to get the holder discount and
+ * any discount-mode gate discount.
  * Otherwise: creates a legacy bearer token session (2hr expiry).
  */
 streamingRoutes.post("/:videoId/session", async (c) => {
@@ -42,6 +57,12 @@ streamingRoutes.post("/:videoId/session", async (c) => {
       id: videos.id,
       status: videos.status,
       agentId: videos.agentId,
+      creatorWallet: videos.creatorWallet,
+      creatorTokenAddress: videos.creatorTokenAddress,
+      creatorBondingCurveAddress: videos.creatorBondingCurveAddress,
+      pricePerSegment: videos.pricePerSegment,
+      freePreviewSegments: videos.freePreviewSegments,
+      pricingPolicy: videos.pricingPolicy,
     })
     .from(videos)
     .where(eq(videos.id, videoId))
@@ -51,17 +72,19 @@ streamingRoutes.post("/:videoId/session", async (c) => {
     return c.json({ error: "Video not found" }, 404);
   }
 
-  if (video[0].status !== "ready") {
+  if (video[0].status !== "ready" && video[0].status !== "live") {
     return c.json({ error: "Video is not ready for streaming" }, 400);
   }
 
   // Parse body
   let viewerAddress: string | undefined;
   let depositAmount: string | undefined;
+  let gatePass: string | undefined;
   try {
     const body = await c.req.json();
     viewerAddress = body.viewerAddress;
     depositAmount = body.depositAmount;
+    gatePass = body.gatePass;
   } catch {
     // No body is fine for legacy path
   }
@@ -75,19 +98,37 @@ streamingRoutes.post("/:videoId/session", async (c) => {
       );
     }
 
-    if (!depositAmount || parseFloat(depositAmount) <= 0) {
+    let deposit = ZERO_USDC;
+    try {
+      deposit = parseUsdc(String(depositAmount ?? ""));
+    } catch {
+      // Malformed amounts fall through to the error below
+    }
+    if (deposit === ZERO_USDC) {
       return c.json(
-        { error: "depositAmount is required and must be > 0" },
+        { error: "depositAmount is required and must be > 0 (max 6 decimals)" },
         400,
       );
     }
 
+    let gateDiscountBps = 0;
+    let holderBalance: bigint | null = null;
+    if (gatePass) {
+      const pass = await resolveGatePass(videoId, gatePass);
+      if (!pass) {
+        return c.json({ error: "Invalid or expired gate pass" }, 401);
+      }
+      gateDiscountBps = pass.discountBps;
+      holderBalance = BigInt(pass.balance);
+    }
+
     // Use agent's EVM address as creator, or a default
     const creatorAddress =
       video[0].agentId || "0x0000000000000000000000000000000000000000";
 
     try {
       // Look up creator's EVM address and token details from agents table
+      // (or from the video for human creators)
       let creatorEvmAddress = creatorAddress;
       let creatorTokenAddress = "";
       let creatorBondingCurveAddress = "";
@@ -106,36 +147,30 @@ streamingRoutes.post("/:videoId/session", async (c) => {
           creatorTokenAddress = agent[0].tokenAddress;
           creatorBondingCurveAddress = agent[0].bondingCurveAddress;
         }
+      } else if (video[0].creatorWallet) {
+        // Human creator: wallet and token were denormalized onto the video
+        creatorEvmAddress = video[0].creatorWallet;
+        creatorTokenAddress = video[0].creatorTokenAddress ?? "";
+        creatorBondingCurveAddress = video[0].creatorBondingCurveAddress ?? "";
       }
 
+      const quote = await quoteVideoPricing(
+        { ...video[0], creatorTokenAddress: creatorTokenAddress || null },
+        { holderBalance, gateDiscountBps },
+      );
       const session = await createStreamingSession(
         videoId,
         viewerAddress,
         creatorEvmAddress,
-        depositAmount,
+        formatUsdc(deposit),
         creatorTokenAddress,
         creatorBondingCurveAddress,
+        {
+          pricePerSegment: quote.pricePerSegment,
+          freePreviewSegments: quote.freePreviewSegments,
+        },
       );
 
-      // Persist to database
-      await db.insert(yellowSessions).values({
-        id: session.appSessionId,
-        videoId,
-        viewerAddress: session.viewerAddress,
-        creatorAddress: session.creatorAddress,
-        serverAddress: session.serverAddress,
-        totalDeposited: session.totalDeposited,
-        viewerBalance: session.viewerBalance,
-        creatorBalance: session.creatorBalance,
-        segmentsDelivered: 0,
-        pricePerSegment: session.pricePerSegment,
-        status: "active",
-        creatorTokenAddress: creatorTokenAddress || null,
-        creatorBondingCurveAddress: creatorBondingCurveAddress || null,
-        channelId: session.channelId || null,
-        custodyDepositTxHash: session.custodyDepositTxHash || null,
-      });
-
       logger.info(
         { appSessionId: session.appSessionId, videoId, viewerAddress },
         "Yellow payment session created",
@@ -146,6 +181,8 @@ streamingRoutes.post("/:videoId/session", async (c) => {
         videoId,
         serverAddress: session.serverAddress,
         pricePerSegment: session.pricePerSegment,
+        freePreviewSegments: session.freePreviewSegments,
+        priceAdjustments: quote.adjustments,
         viewerBalance: session.viewerBalance,
         totalDeposited: session.totalDeposited,
         asset: env.YELLOW_ASSET,
@@ -188,6 +225,68 @@ streamingRoutes.post("/:videoId/session", async (c) => {
   });
 });
 
+/**
+ * POST /api/videos/:videoId/gate/challenge - Challenge for a token holder
+ *
+ * Body: { address }. Returns a message for the holding wallet to sign.
+ */
+streamingRoutes.post("/:videoId/gate/challenge", async (c) => {
+  const videoId = c.req.param("videoId");
+  const body = await c.req.json().catch(() => null);
+  if (!body?.address) {
+    return c.json({ error: "Missing required field: address" }, 400);
+  }
+
+  const video = await loadGatedVideo(videoId);
+  if (!video) {
+    return c.json({ error: "Video not found" }, 404);
+  }
+
+  try {
+    return c.json(await issueGateChallenge(video, String(body.address)));
+  } catch (err) {
+    return gateError(c, err);
+  }
+});
+
+/**
+ * POST /api/videos/:videoId/gate/verify - Redeem a signed challenge for a gate pass
+ *
+ * Body: { address, nonce, signature }. Checks the address holds enough of
+ * the creator token for the video's gate or holder discount. Free passes
+ * go in the X-Gate-Pass header of key requests; discount passes go in the
+ * gatePass field of POST /session.
+ */
+streamingRoutes.post("/:videoId/gate/verify", async (c) => {
+  const videoId = c.req.param("videoId");
+  const body = await c.req.json().catch(() => null);
+  if (!body?.address || !body?.nonce || !body?.signature) {
+    return c.json({ error: "Missing required fields: address, nonce, signature" }, 400);
+  }
+
+  const video = await loadGatedVideo(videoId);
+  if (!video) {
+    return c.json({ error: "Video not found" }, 404);
+  }
+
+  try {
+    const pass = await redeemGatePass(video, {
+      address: String(body.address),
+      nonce: String(body.nonce),
+      signature: String(body.signature),
+    });
+    return c.json({
+      passToken: pass.token,
+      videoId,
+      mode: pass.mode,
+      discountBps: pass.discountBps,
+      expiresAt: pass.expiresAt,
+    });
+  } catch (err) {
+    return gateError(c, err);
+  }
+});
+
 /**
  * POST /api/videos/:videoId/session/:sessionId/custody-sign - Finalize custody channel
  *
@@ -234,15 +333,6 @@ streamingRoutes.post("/:videoId/session/:sessionId/custody-sign", async (c) => {
       });
     }
 
-    // Update database with channel info
-    await db
-      .update(yellowSessions)
-      .set({
-        channelId: result.channelId,
-        custodyDepositTxHash: result.txHash,
-      })
-      .where(eq(yellowSessions.id, sessionId));
-
     logger.info(
       { sessionId, channelId: result.channelId, txHash: result.txHash },
       "Custody channel finalized via viewer co-signature",
@@ -269,8 +359,10 @@ streamingRoutes.post("/:videoId/session/:sessionId/custody-sign", async (c) => {
  *
  * Payment verification order:
  * 1. X-Yellow-Session header -> Yellow micropayment (deducts per segment)
- * 2. Authorization: Bearer <token> -> legacy session check
- * 3. Neither -> 402 Payment Required with instructions
+ * 2. X-Gate-Pass header -> free token gate pass, no payment
+ * 3. Authorization: Bearer <token> -> legacy session check
+ * 4. None -> free preview segments are delivered, anything else gets
+ *    402 Payment Required with instructions
  *
  * Returns raw 16-byte AES key for HLS.js compatibility.
  */
@@ -282,6 +374,9 @@ streamingRoutes.get("/:videoId/key/:segment", async (c) => {
     return c.json({ error: "Invalid segment index" }, 400);
   }
 
+  const unavailable = await checkSegmentAvailable(c, videoId, segmentIndex);
+  if (unavailable) return unavailable;
+
   // ─── Yellow Payment Path ───
   const yellowSessionId = c.req.header("X-Yellow-Session");
 
@@ -310,16 +405,6 @@ streamingRoutes.get("/:videoId/key/:segment", async (c) => {
           402,
         );
       }
-
-      // Update database with new balances
-      await db
-        .update(yellowSessions)
-        .set({
-          viewerBalance: result.newViewerBalance,
-          creatorBalance: session.creatorBalance,
-          segmentsDelivered: session.segmentsDelivered,
-        })
-        .where(eq(yellowSessions.id, yellowSessionId));
     } catch (err) {
       logger.error(
         { err, yellowSessionId, segmentIndex },
@@ -332,6 +417,15 @@ streamingRoutes.get("/:videoId/key/:segment", async (c) => {
     return await deliverSegmentKey(c, videoId, segmentIndex);
   }
 
+  // ─── Token Gate Path ───
+  const gatePassToken = c.req.header("X-Gate-Pass");
+
+  if (gatePassToken) {
+    const denied = await checkFreeGatePass(c, videoId, gatePassToken);
+    if (denied) return denied;
+    return await deliverSegmentKey(c, videoId, segmentIndex);
+  }
+
   // ─── Legacy Bearer Token Path ───
   const authHeader = c.req.header("Authorization");
 
@@ -366,21 +460,12 @@ streamingRoutes.get("/:videoId/key/:segment", async (c) => {
     return await deliverSegmentKey(c, videoId, segmentIndex);
   }
 
-  // ─── No Auth: Return 402 Payment Required ───
-  return c.json(
-    {
-      error: "Payment required",
-      instructions: {
-        step1:
-          "POST /api/videos/:videoId/session with { viewerAddress, depositAmount }",
-        step2:
-          "Include X-Yellow-Session header with the returned appSessionId",
-        pricePerSegment: env.YELLOW_PRICE_PER_SEGMENT,
-        asset: env.YELLOW_ASSET,
-      },
-    },
-    402,
-  );
+  // ─── No Auth: Free Preview or 402 Payment Required ───
+  const pricedVideo = await loadPricedVideo(videoId);
+  if (pricedVideo && isFreePreviewSegment(pricedVideo.freePreviewSegments, segmentIndex)) {
+    return await deliverSegmentKey(c, videoId, segmentIndex);
+  }
+  return c.json(await paymentRequired(pricedVideo), 402);
 });
 
 /**
@@ -392,7 +477,7 @@ streamingRoutes.get("/:videoId/key/:segment", async (c) => {
  *
  * Body: { appSessionId, segmentIndex, version, signedMessage }
  * Returns: raw 16-byte AES key (application/octet-stream)
- * Errors: 402 insufficient balance, 401 invalid session
+ * Errors: 402 insufficient balance or underpaying signed state, 401 invalid session
  */
 streamingRoutes.post("/:videoId/cosign", async (c) => {
   const videoId = c.req.param("videoId");
@@ -429,6 +514,9 @@ streamingRoutes.post("/:videoId/cosign", async (c) => {
     return c.json({ error: "Session does not match video" }, 403);
   }
 
+  const unavailable = await checkSegmentAvailable(c, videoId, Number(segmentIndex));
+  if (unavailable) return unavailable;
+
   // Co-sign and submit to ClearNode
   try {
     const result = await cosignAndSubmitPayment(
@@ -450,19 +538,15 @@ streamingRoutes.post("/:videoId/cosign", async (c) => {
       );
     }
 
-    // Update database with new balances
-    await db
-      .update(yellowSessions)
-      .set({
-        viewerBalance: result.newViewerBalance,
-        creatorBalance: session.creatorBalance,
-        segmentsDelivered: session.segmentsDelivered,
-      })
-      .where(eq(yellowSessions.id, appSessionId));
-
     // Payment confirmed — deliver the AES key
     return await deliverSegmentKey(c, videoId, segmentIndex);
   } catch (err) {
+    if (err instanceof Error && err.message.startsWith("Signed state rejected")) {
+      return c.json(
+        { error: err.message, pricePerSegment: session.pricePerSegment },
+        402,
+      );
+    }
     logger.error(
       { err, appSessionId, segmentIndex, version },
       "Cosign payment processing failed",
@@ -500,25 +584,9 @@ streamingRoutes.post("/:videoId/session/:sessionId/close", async (c) => {
   }
 
   try {
+    // Closes on ClearNode/Custody, settles, and persists the closed row
     const result = await closeStreamingSession(sessionId, closeSignature);
 
-    // Update database with settlement tx hashes
-    await db
-      .update(yellowSessions)
-      .set({
-        viewerBalance: session.viewerBalance,
-        creatorBalance: session.creatorBalance,
-        segmentsDelivered: session.segmentsDelivered,
-        status: "closed",
-        closedAt: new Date(),
-        settlementTxHashBase: result.settlement.settlementTxHash,
-        bridgeTxHash: result.settlement.bridgeTxHash,
-        distributionTxHash: result.settlement.distributionTxHash,
-        channelCloseTxHash: result.settlement.channelCloseTxHash,
-        custodyWithdrawTxHash: result.settlement.custodyWithdrawTxHash,
-      })
-      .where(eq(yellowSessions.id, sessionId));
-
     logger.info(
       { sessionId, videoId, totalPaid: result.totalPaid, settlement: result.settlement },
       "Yellow session closed with on-chain settlement",
@@ -641,8 +709,12 @@ streamingRoutes.get("/:videoId/key-json/:segment", async (c) => {
     return c.json({ error: "Invalid segment index" }, 400);
   }
 
-  // Check authorization (same dual-path logic)
+  const unavailable = await checkSegmentAvailable(c, videoId, segmentIndex);
+  if (unavailable) return unavailable;
+
+  // Check authorization (same logic as /key)
   const yellowSessionId = c.req.header("X-Yellow-Session");
+  const gatePassToken = c.req.header("X-Gate-Pass");
 
   if (yellowSessionId) {
     const session = getSession(yellowSessionId);
@@ -661,51 +733,35 @@ streamingRoutes.get("/:videoId/key-json/:segment", async (c) => {
         402,
       );
     }
-
-    // Update database
-    await db
-      .update(yellowSessions)
-      .set({
-        viewerBalance: result.newViewerBalance,
-        creatorBalance: session.creatorBalance,
-        segmentsDelivered: session.segmentsDelivered,
-      })
-      .where(eq(yellowSessions.id, yellowSessionId));
+  } else if (gatePassToken) {
+    const denied = await checkFreeGatePass(c, videoId, gatePassToken);
+    if (denied) return denied;
   } else {
     // Legacy bearer auth
     const authHeader = c.req.header("Authorization");
     if (!authHeader || !authHeader.startsWith("Bearer ")) {
-      return c.json(
-        {
-          error: "Payment required",
-          instructions: {
-            step1:
-              "POST /api/videos/:videoId/session with { viewerAddress, depositAmount }",
-            step2:
-              "Include X-Yellow-Session header with the returned appSessionId",
-            pricePerSegment: env.YELLOW_PRICE_PER_SEGMENT,
-            asset: env.YELLOW_ASSET,
-          },
-        },
-        402,
-      );
-    }
-
-    const sessionToken = authHeader.slice(7);
-    const session = await db
-      .select()
-      .from(viewerSessions)
-      .where(
-        and(
-          eq(viewerSessions.id, sessionToken),
-          eq(viewerSessions.videoId, videoId),
-          gt(viewerSessions.expiresAt, new Date()),
-        ),
-      )
-      .limit(1);
-
-    if (session.length === 0) {
-      return c.json({ error: "Invalid or expired session" }, 401);
+      // Free preview segments need no session
+      const pricedVideo = await loadPricedVideo(videoId);
+      if (!pricedVideo || !isFreePreviewSegment(pricedVideo.freePreviewSegments, segmentIndex)) {
+        return c.json(await paymentRequired(pricedVideo), 402);
+      }
+    } else {
+      const sessionToken = authHeader.slice(7);
+      const session = await db
+        .select()
+        .from(viewerSessions)
+        .where(
+          and(
+            eq(viewerSessions.id, sessionToken),
+            eq(viewerSessions.videoId, videoId),
+            gt(viewerSessions.expiresAt, new Date()),
+          ),
+        )
+        .limit(1);
+
+      if (session.length === 0) {
+        return c.json({ error: "Invalid or expired session" }, 401);
+      }
     }
   }
 
@@ -714,11 +770,28 @@ streamingRoutes.get("/:videoId/key-json/:segment", async (c) => {
     .select({
       masterSecret: videos.masterSecret,
       merkleTreeData: videos.merkleTreeData,
+      isLive: videos.isLive,
     })
     .from(videos)
     .where(eq(videos.id, videoId))
     .limit(1);
 
+  if (video.length > 0 && video[0].masterSecret && video[0].isLive && !video[0].merkleTreeData) {
+    // Live videos prove keys against their Merkle window (see live/plan)
+    const masterSecret = decryptSecret(video[0].masterSecret);
+    const proof = await getLiveSegmentProof(videoId, masterSecret, segmentIndex);
+    const key = getSegmentKeyRaw(masterSecret, videoId, segmentIndex);
+    if (!proof || !key) {
+      return c.json({ error: "Failed to derive key" }, 500);
+    }
+    return c.json({
+      key: key.toString("base64"),
+      iv: deriveSegmentIV(Buffer.from(masterSecret, "hex"), videoId, segmentIndex).toString("base64"),
+      proof,
+      segmentIndex,
+    });
+  }
+
   if (
     video.length === 0 ||
     !video[0].masterSecret ||
@@ -743,6 +816,114 @@ streamingRoutes.get("/:videoId/key-json/:segment", async (c) => {
 
 // ─── Helper Functions ────────────────────────────────────────────────
 
+/**
+ * Pricing columns of a video, or null if it doesn't exist
+ */
+async function loadPricedVideo(videoId: string) {
+  const rows = await db
+    .select({
+      id: videos.id,
+      pricePerSegment: videos.pricePerSegment,
+      freePreviewSegments: videos.freePreviewSegments,
+      pricingPolicy: videos.pricingPolicy,
+      creatorTokenAddress: videos.creatorTokenAddress,
+      tokenGate: videos.tokenGate,
+    })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  return rows[0] ?? null;
+}
+
+/**
+ * Gate and holder discount columns of a video, or null if it doesn't exist
+ */
+async function loadGatedVideo(videoId: string) {
+  const rows = await db
+    .select({
+      id: videos.id,
+      status: videos.status,
+      tokenGate: videos.tokenGate,
+      pricingPolicy: videos.pricingPolicy,
+      creatorTokenAddress: videos.creatorTokenAddress,
+    })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  return rows[0] && rows[0].status !== "deleted" ? rows[0] : null;
+}
+
+/**
+ * Error response unless the pass is a live free pass for the video
+ */
+async function checkFreeGatePass(c: Context, videoId: string, token: string) {
+  const pass = await resolveGatePass(videoId, token);
+  if (!pass) {
+    return c.json({ error: "Invalid or expired gate pass" }, 401);
+  }
+  if (pass.mode !== "free") {
+    return c.json(
+      {
+        error: "Gate pass grants a discount, not free access",
+        message: "Open a payment session with this pass in gatePass",
+      },
+      402,
+    );
+  }
+  return null;
+}
+
+/**
+ * Map token gate errors to responses
+ */
+function gateError(c: Context, err: unknown) {
+  if (err instanceof TokenGateError) {
+    return c.json({ error: err.message }, err.status);
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  logger.error({ err }, "Token gate request failed");
+  return c.json({ error: "Token gate request failed", details: message }, 500);
+}
+
+/**
+ * Error response unless the segment's key may be delivered (see
+ * checkSegmentRequest). Checked before any payment, pass or session.
+ */
+async function checkSegmentAvailable(c: Context, videoId: string, segmentIndex: number) {
+  const [video] = await db
+    .select({ status: videos.status, totalSegments: videos.totalSegments })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video) return null; // Missing videos are reported by the route
+  const rejection = checkSegmentRequest(video, segmentIndex);
+  return rejection ? c.json({ error: rejection.error }, rejection.status) : null;
+}
+
+/**
+ * 402 body telling the viewer how to pay, at the video's current price
+ */
+async function paymentRequired(video: Awaited<ReturnType<typeof loadPricedVideo>>) {
+  const quote = video ? await quoteVideoPricing(video) : null;
+  return {
+    error: "Payment required",
+    instructions: {
+      step1:
+        "POST /api/videos/:videoId/session with { viewerAddress, depositAmount }",
+      step2:
+        "Include X-Yellow-Session header with the returned appSessionId",
+      pricePerSegment: quote?.pricePerSegment ?? env.YELLOW_PRICE_PER_SEGMENT,
+      freePreviewSegments: quote?.freePreviewSegments ?? 0,
+      pricing: "GET /api/videos/:videoId/pricing",
+      tokenGate:
+        video?.tokenGate || (video && parsePricingPolicy(video.pricingPolicy).holderDiscount)
+          ? "POST /api/videos/:videoId/gate/challenge"
+          : null,
+      asset: env.YELLOW_ASSET,
+    },
+  };
+}
+
 /**
  * Deliver a raw 16-byte AES segment key.
  * Shared by both Yellow and legacy auth paths.
@@ -753,6 +934,7 @@ async function deliverSegmentKey(c: any, videoId: string, segmentIndex: number)
       masterSecret: videos.masterSecret,
       merkleTreeData: videos.merkleTreeData,
       totalSegments: videos.totalSegments,
+      isLive: videos.isLive,
     })
     .from(videos)
     .where(eq(videos.id, videoId))
@@ -762,12 +944,30 @@ async function deliverSegmentKey(c: any, videoId: string, segmentIndex: number)
     return c.json({ error: "Video not found or not processed" }, 404);
   }
 
-  if (video[0].totalSegments && segmentIndex >= video[0].totalSegments) {
+  if (video[0].totalSegments != null && segmentIndex >= video[0].totalSegments) {
     return c.json({ error: "Segment index out of range" }, 400);
   }
 
   const decryptedSecret = decryptSecret(video[0].masterSecret!);
 
+  // Live videos prove keys against their Merkle window (see live/plan)
+  if (video[0].isLive && !video[0].merkleTreeData) {
+    const proof = await getLiveSegmentProof(videoId, decryptedSecret, segmentIndex);
+    const rawKey = getSegmentKeyRaw(decryptedSecret, videoId, segmentIndex);
+    if (!proof || !rawKey) {
+      return c.json({ error: "Failed to derive key" }, 500);
+    }
+    return new Response(rawKey, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": rawKey.length.toString(),
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Expose-Headers": "X-Merkle-Proof",
+        "X-Merkle-Proof": JSON.stringify(proof),
+      },
+    });
+  }
+
   // If merkle tree data is available, return key with proof in header
   if (video[0].merkleTreeData) {
     const keyResponse = getSegmentKey(
@@ -7,7 +7,7 @@
 
 import { Hono } from "hono";
 import { getAddress, type Address } from "viem";
-import { desc, eq, and, gte } from "drizzle-orm";
+import { desc, eq, and, gte, sql } from "drizzle-orm";
 import { createAllAgentConfigs } from "../../agents";
 import {
   getBondingCurve,
@@ -17,7 +17,7 @@ import {
 } from "../../integrations/chain";
 import { createContractExecutionChallenge } from "../../integrations/circle/user-wallets";
 import { db } from "../../db/client";
-import { trades } from "../../db/schema";
+import { trades, revenueEvents } from "../../db/schema";
 import { logger } from "../../utils/logger";
 
 const trading = new Hono();
@@ -387,6 +387,56 @@ trading.get("/history/:tokenAddress", async (c) => {
   }
 });
 
+/**
+ * GET /api/trading/revenue/:tokenAddress
+ *
+ * Get RevenueAdded / RevenueClaimed events for a token's bonding curve,
+ * plus all-time totals.
+ * Query params: limit (default 50), from (unix ms, optional)
+ */
+trading.get("/revenue/:tokenAddress", async (c) => {
+  const tokenAddress = c.req.param("tokenAddress");
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || "50", 10) || 50, 200), 1);
+  const from = c.req.query("from");
+
+  try {
+    const conditions = [eq(revenueEvents.tokenAddress, tokenAddress)];
+    if (from) {
+      conditions.push(gte(revenueEvents.timestamp, Number(from)));
+    }
+
+    const [events, totals] = await Promise.all([
+      db
+        .select()
+        .from(revenueEvents)
+        .where(and(...conditions))
+        .orderBy(desc(revenueEvents.timestamp))
+        .limit(limit),
+      db
+        .select({
+          kind: revenueEvents.kind,
+          total: sql<string>`coalesce(sum(${revenueEvents.amount}::numeric), 0)::text`,
+        })
+        .from(revenueEvents)
+        .where(eq(revenueEvents.tokenAddress, tokenAddress))
+        .groupBy(revenueEvents.kind),
+    ]);
+
+    const totalFor = (kind: string) => totals.find((t) => t.kind === kind)?.total ?? "0";
+
+    return c.json({
+      events,
+      totals: {
+        added: totalFor("added"),
+        claimed: totalFor("claimed"),
+      },
+    });
+  } catch (error) {
+    logger.error({ tokenAddress, error }, "Failed to fetch revenue events");
+    return c.json({ error: "Failed to fetch revenue events" }, 500);
+  }
+});
+
 /**
  * GET /api/trading/chart/:tokenAddress
  *
@@ -1,22 +1,119 @@
 /**
  * Video API Routes
  *
- * Handles video upload, listing, and management.
+ * Handles video upload, listing, and management. Creator uploads are
+ * written to disk (in resumable chunks via /uploads) and processed in the
+ * background by the video job worker.
+ *
+ * Uploading needs a creator session (or the admin key, to upload for an
+ * agent); resuming, editing, deleting and reprocessing are limited to the
+ * video's creator and the admin.
  */
 
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { z } from "zod";
 import { db } from "../../db/client";
-import { videos, agents } from "../../db/schema";
-import { eq, desc } from "drizzle-orm";
+import { videos, agents, videoRegistryEvents } from "../../db/schema";
+import { and, eq, desc, ne } from "drizzle-orm";
 import { processVideo } from "../../video/processor";
-import { getStorageProvider, isSupabaseConfigured } from "../../integrations/supabase";
+import {
+  createUpload,
+  getUpload,
+  appendChunk,
+  cancelUpload,
+  cancelVideoJobs,
+  removeUploadFiles,
+  getVideoProcessingStatus,
+  retryVideoProcessing,
+  runVideoJobsInBackground,
+  checkChunk,
+  parseByteCount,
+  parseUploadMetadata,
+  TUS_VERSION,
+  UploadChunkError,
+} from "../../uploads";
+import type { VideoUpload } from "../../db/schema";
+import { parseRenditionLadder } from "../../video/renditions";
+import {
+  getStorageProvider,
+  isStorageConfigured,
+  storageNotConfiguredMessage,
+} from "../../integrations/storage";
 import { env } from "../../utils/env";
 import { logger } from "../../utils/logger";
 import { encryptSecret } from "../../utils/encryption";
-import { registerVideoOnChain } from "../../integrations/chain/video-registry";
+import { hashVideoId } from "../../integrations/chain/video-registry";
+import { stopLiveStream } from "../../live";
+import { canManageVideo, getRequestPrincipal, uploaderFor } from "../../creators";
+import { parseUsdc, formatUsdc, ZERO_USDC } from "@versus/streaming";
+import {
+  getVideoPricing,
+  parseTokenGate,
+  pricingPolicySchema,
+  quoteVideoPricing,
+  tokenGateSchema,
+} from "../../pricing";
 
 const videoRoutes = new Hono();
 
+const updateVideoSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(5000).nullable(),
+  })
+  .partial();
+
+function isPositiveUsdc(value: string): boolean {
+  try {
+    return parseUsdc(value) > ZERO_USDC;
+  } catch {
+    return false;
+  }
+}
+
+const updatePricingSchema = z
+  .object({
+    /** Null resets to YELLOW_PRICE_PER_SEGMENT */
+    pricePerSegment: z
+      .string()
+      .refine(isPositiveUsdc, "must be a positive USDC amount (max 6 decimals)")
+      .nullable(),
+    freePreviewSegments: z.number().int().min(0).max(10_000),
+    policy: pricingPolicySchema,
+  })
+  .partial();
+
+const updateTokenGateSchema = z.object({
+  /** Null removes the gate */
+  tokenGate: tokenGateSchema.nullable(),
+});
+
+/**
+ * Error response unless the caller may manage the video or upload
+ */
+async function denyUnlessManager(c: Context, resource: { creatorId: string | null }) {
+  const principal = await getRequestPrincipal(c);
+  if (!principal) {
+    return c.json({ error: "Sign in required" }, 401);
+  }
+  if (!canManageVideo(resource, principal)) {
+    return c.json({ error: "Not allowed to manage this video" }, 403);
+  }
+  return null;
+}
+
+function uploadResponse(upload: VideoUpload) {
+  return {
+    id: upload.id,
+    title: upload.title,
+    status: upload.status,
+    uploadOffset: upload.uploadOffset,
+    uploadLength: upload.uploadLength,
+    videoId: upload.videoId,
+    statusUrl: upload.videoId ? `/api/videos/${upload.videoId}/status` : null,
+  };
+}
+
 /**
  * GET /api/videos - List all videos
  */
@@ -25,21 +122,27 @@ videoRoutes.get("/", async (c) => {
     .select({
       id: videos.id,
       agentId: videos.agentId,
+      creatorId: videos.creatorId,
       title: videos.title,
       description: videos.description,
       status: videos.status,
+      isLive: videos.isLive,
       durationSeconds: videos.durationSeconds,
       totalSegments: videos.totalSegments,
       quality: videos.quality,
       contentUri: videos.contentUri,
       thumbnailUri: videos.thumbnailUri,
+      tokenGate: videos.tokenGate,
       createdAt: videos.createdAt,
       processedAt: videos.processedAt,
     })
     .from(videos)
+    .where(ne(videos.status, "deleted"))
     .orderBy(desc(videos.createdAt));
 
-  return c.json({ videos: allVideos });
+  return c.json({
+    videos: allVideos.map((v) => ({ ...v, tokenGate: parseTokenGate(v.tokenGate) })),
+  });
 });
 
 /**
@@ -52,9 +155,11 @@ videoRoutes.get("/:id", async (c) => {
     .select({
       id: videos.id,
       agentId: videos.agentId,
+      creatorId: videos.creatorId,
       title: videos.title,
       description: videos.description,
       status: videos.status,
+      isLive: videos.isLive,
       durationSeconds: videos.durationSeconds,
       totalSegments: videos.totalSegments,
       quality: videos.quality,
@@ -67,9 +172,10 @@ videoRoutes.get("/:id", async (c) => {
       registryChainId: videos.registryChainId,
       creatorWallet: videos.creatorWallet,
       creatorTokenAddress: videos.creatorTokenAddress,
+      tokenGate: videos.tokenGate,
     })
     .from(videos)
-    .where(eq(videos.id, videoId))
+    .where(and(eq(videos.id, videoId), ne(videos.status, "deleted")))
     .limit(1);
 
   if (video.length === 0) {
@@ -80,6 +186,7 @@ videoRoutes.get("/:id", async (c) => {
   return c.json({
     video: {
       ...v,
+      tokenGate: parseTokenGate(v.tokenGate),
       registryExplorerLink: v.registryTxHash
         ? `https://sepolia.basescan.org/tx/${v.registryTxHash}`
         : null,
@@ -87,8 +194,46 @@ videoRoutes.get("/:id", async (c) => {
   });
 });
 
+/**
+ * GET /api/videos/:id/onchain-events - VideoRegistry registration and
+ * settlement events for a video (Base Sepolia), newest first
+ */
+videoRoutes.get("/:id/onchain-events", async (c) => {
+  const videoId = c.req.param("id");
+  const limit = Math.max(Math.min(parseInt(c.req.query("limit") || "50", 10) || 50, 200), 1);
+
+  const video = await db
+    .select({ id: videos.id })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+
+  if (video.length === 0) {
+    return c.json({ error: "Video not found" }, 404);
+  }
+
+  try {
+    const videoIdHash = hashVideoId(videoId);
+    const events = await db
+      .select()
+      .from(videoRegistryEvents)
+      .where(eq(videoRegistryEvents.videoIdHash, videoIdHash))
+      .orderBy(desc(videoRegistryEvents.timestamp))
+      .limit(limit);
+
+    return c.json({ videoId, videoIdHash, events });
+  } catch (error) {
+    logger.error({ videoId, error }, "Failed to fetch on-chain video events");
+    return c.json({ error: "Failed to fetch on-chain video events" }, 500);
+  }
+});
+
 /**
  * GET /api/videos/:id/status - Get processing status
+ *
+ * For videos processed by the job queue, `processing` has the overall stage
+ * and progress plus each stage's status, attempts and last error (null for
+ * videos processed inline).
  */
 videoRoutes.get("/:id/status", async (c) => {
   const videoId = c.req.param("id");
@@ -107,24 +252,418 @@ videoRoutes.get("/:id/status", async (c) => {
     return c.json({ error: "Video not found" }, 404);
   }
 
-  return c.json(video[0]);
+  try {
+    const processing = await getVideoProcessingStatus(videoId);
+    return c.json({ ...video[0], processing });
+  } catch (error) {
+    logger.error({ videoId, error }, "Failed to fetch video processing status");
+    return c.json({ error: "Failed to fetch video processing status" }, 500);
+  }
+});
+
+/**
+ * POST /api/videos/:id/retry - Rerun unfinished or dead processing stages
+ *
+ * Completed stages are kept; processing resumes in the background.
+ */
+videoRoutes.post("/:id/retry", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({ creatorId: videos.creatorId, status: videos.status })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, video);
+  if (denied) return denied;
+
+  try {
+    await retryVideoProcessing(videoId);
+    const processing = await getVideoProcessingStatus(videoId);
+    return c.json({ id: videoId, status: "processing", processing }, 202);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.startsWith("No processing jobs")) {
+      return c.json({ error: "No processing jobs for video" }, 404);
+    }
+    logger.error({ videoId, error: message }, "Video processing retry failed");
+    return c.json({ error: "Video processing retry failed", details: message }, 500);
+  }
+});
+
+/**
+ * PATCH /api/videos/:id - Edit a video's title or description
+ *
+ * Body: { title?, description? }. Creator or admin only.
+ */
+videoRoutes.patch("/:id", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({ creatorId: videos.creatorId, status: videos.status })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, video);
+  if (denied) return denied;
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateVideoSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const [updated] = await db
+    .update(videos)
+    .set(parsed.data)
+    .where(eq(videos.id, videoId))
+    .returning({
+      id: videos.id,
+      title: videos.title,
+      description: videos.description,
+      status: videos.status,
+    });
+
+  return c.json({ video: updated });
+});
+
+/**
+ * DELETE /api/videos/:id - Delete a video
+ *
+ * Creator or admin only. The video is hidden from listings and can no
+ * longer be streamed; its sessions and earnings history are kept, and
+ * unfinished processing (or a live ingest) is stopped.
+ */
+videoRoutes.delete("/:id", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({ creatorId: videos.creatorId, status: videos.status })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, video);
+  if (denied) return denied;
+
+  await db.update(videos).set({ status: "deleted" }).where(eq(videos.id, videoId));
+  await cancelVideoJobs(videoId);
+  await removeUploadFiles(videoId);
+  if (video.status === "live") {
+    await stopLiveStream(videoId);
+  }
+
+  logger.info({ videoId }, "Video deleted");
+  return c.body(null, 204);
+});
+
+/**
+ * GET /api/videos/:id/pricing - Quote a video's price per segment
+ *
+ * Query: holder (optional wallet to price the holder discount for; the
+ * discount is only granted at session creation with a signed proof).
+ */
+videoRoutes.get("/:id/pricing", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({
+      id: videos.id,
+      status: videos.status,
+      pricePerSegment: videos.pricePerSegment,
+      freePreviewSegments: videos.freePreviewSegments,
+      pricingPolicy: videos.pricingPolicy,
+      creatorTokenAddress: videos.creatorTokenAddress,
+      tokenGate: videos.tokenGate,
+    })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+
+  const quote = await quoteVideoPricing(video, { holderAddress: c.req.query("holder") });
+  return c.json({
+    videoId,
+    ...quote,
+    policy: getVideoPricing(video).policy,
+    tokenGate: parseTokenGate(video.tokenGate),
+    creatorTokenAddress: video.creatorTokenAddress,
+    asset: env.YELLOW_ASSET,
+  });
+});
+
+/**
+ * PUT /api/videos/:id/pricing - Set a video's pricing
+ *
+ * Body: { pricePerSegment?, freePreviewSegments?, policy? }. Creator or
+ * admin only. Open sessions keep the price they were quoted.
+ */
+videoRoutes.put("/:id/pricing", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({ creatorId: videos.creatorId, status: videos.status })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, video);
+  if (denied) return denied;
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updatePricingSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const { pricePerSegment, freePreviewSegments, policy } = parsed.data;
+  if (pricePerSegment === undefined && freePreviewSegments === undefined && policy === undefined) {
+    return c.json({ error: "Nothing to update" }, 400);
+  }
+  const [updated] = await db
+    .update(videos)
+    .set({
+      ...(pricePerSegment !== undefined && {
+        pricePerSegment: pricePerSegment === null ? null : formatUsdc(parseUsdc(pricePerSegment)),
+      }),
+      ...(freePreviewSegments !== undefined && { freePreviewSegments }),
+      ...(policy !== undefined && { pricingPolicy: JSON.stringify(policy) }),
+    })
+    .where(eq(videos.id, videoId))
+    .returning({
+      id: videos.id,
+      pricePerSegment: videos.pricePerSegment,
+      freePreviewSegments: videos.freePreviewSegments,
+      pricingPolicy: videos.pricingPolicy,
+    });
+
+  logger.info({ videoId }, "Video pricing updated");
+  return c.json({ pricing: getVideoPricing(updated) });
 });
 
 /**
- * POST /api/videos/upload - Upload and process a video
+ * PUT /api/videos/:id/gate - Token-gate a video
+ *
+ * Body: { tokenGate: { minBalance, mode: "free" | "discount", discountBps } | null }.
+ * Creator or admin only; the video needs a creator token. Passes already
+ * issued stay valid until they expire.
+ */
+videoRoutes.put("/:id/gate", async (c) => {
+  const videoId = c.req.param("id");
+
+  const [video] = await db
+    .select({
+      creatorId: videos.creatorId,
+      status: videos.status,
+      creatorTokenAddress: videos.creatorTokenAddress,
+    })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!video || video.status === "deleted") {
+    return c.json({ error: "Video not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, video);
+  if (denied) return denied;
+
+  const body = await c.req.json().catch(() => null);
+  const parsed = updateTokenGateSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ error: "Invalid request", details: parsed.error.flatten() }, 400);
+  }
+
+  const { tokenGate } = parsed.data;
+  if (tokenGate && !video.creatorTokenAddress) {
+    return c.json({ error: "Deploy a creator token before gating videos with it" }, 409);
+  }
+
+  await db
+    .update(videos)
+    .set({ tokenGate: tokenGate ? JSON.stringify(tokenGate) : null })
+    .where(eq(videos.id, videoId));
+
+  logger.info({ videoId, mode: tokenGate?.mode ?? null }, "Video token gate updated");
+  return c.json({ tokenGate });
+});
+
+/**
+ * POST /api/videos/uploads - Open a resumable (tus-style) upload
+ *
+ * Requires a creator session, or the admin key to upload for an agent.
+ *
+ * Headers:
+ * - Upload-Length: Total file size in bytes
+ * - Upload-Metadata: base64 pairs with title (required), description,
+ *   agentId, filename
+ *
+ * Returns 201 with the upload URL in Location.
+ */
+videoRoutes.post("/uploads", async (c) => {
+  if (!isStorageConfigured()) {
+    return c.json({ error: storageNotConfiguredMessage() }, 503);
+  }
+
+  const uploadLength = parseByteCount(c.req.header("Upload-Length"));
+  if (!uploadLength) {
+    return c.json({ error: "Upload-Length header is required" }, 400);
+  }
+  if (uploadLength > env.VIDEO_UPLOAD_MAX_BYTES) {
+    return c.json({ error: `Upload exceeds ${env.VIDEO_UPLOAD_MAX_BYTES} bytes` }, 413);
+  }
+
+  const metadata = parseUploadMetadata(c.req.header("Upload-Metadata"));
+  if (!metadata.title) {
+    return c.json({ error: "Title is required (Upload-Metadata title)" }, 400);
+  }
+
+  const uploader = uploaderFor(await getRequestPrincipal(c), metadata.agentId);
+  if ("error" in uploader) {
+    return c.json({ error: uploader.error }, uploader.status);
+  }
+
+  try {
+    const upload = await createUpload({
+      title: metadata.title,
+      description: metadata.description,
+      ...uploader,
+      fileName: metadata.filename,
+      uploadLength,
+    });
+
+    c.header("Tus-Resumable", TUS_VERSION);
+    c.header("Location", `/api/videos/uploads/${upload.id}`);
+    c.header("Upload-Offset", "0");
+    return c.json({ upload: uploadResponse(upload) }, 201);
+  } catch (error) {
+    logger.error(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      "Failed to create upload"
+    );
+    return c.json({ error: "Failed to create upload" }, 500);
+  }
+});
+
+/**
+ * GET|HEAD /api/videos/uploads/:uploadId - Upload offset (to resume from)
+ * and, once complete, the video it became
+ */
+videoRoutes.get("/uploads/:uploadId", async (c) => {
+  const upload = await getUpload(c.req.param("uploadId"));
+  if (!upload) {
+    return c.json({ error: "Upload not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, upload);
+  if (denied) return denied;
+
+  c.header("Tus-Resumable", TUS_VERSION);
+  c.header("Cache-Control", "no-store");
+  if (upload.status === "cancelled") {
+    return c.json({ error: "Upload was cancelled" }, 410);
+  }
+
+  c.header("Upload-Offset", String(upload.uploadOffset));
+  c.header("Upload-Length", String(upload.uploadLength));
+  return c.json({ upload: uploadResponse(upload) });
+});
+
+/**
+ * PATCH /api/videos/uploads/:uploadId - Append a chunk
+ *
+ * Body: raw bytes (Content-Type: application/offset+octet-stream), sent
+ * from Upload-Offset, which must equal the stored offset. Returns 204 with
+ * the new Upload-Offset; the last chunk queues the video for processing.
+ */
+videoRoutes.patch("/uploads/:uploadId", async (c) => {
+  const upload = await getUpload(c.req.param("uploadId"));
+  if (!upload) {
+    return c.json({ error: "Upload not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, upload);
+  if (denied) return denied;
+
+  c.header("Tus-Resumable", TUS_VERSION);
+  const rejection = checkChunk(
+    upload,
+    c.req.header("Content-Type"),
+    parseByteCount(c.req.header("Upload-Offset"))
+  );
+  if (rejection) {
+    return c.json({ error: rejection.error }, rejection.status);
+  }
+
+  let updated: VideoUpload;
+  try {
+    updated = await appendChunk(upload, c.req.raw.body);
+  } catch (error) {
+    if (error instanceof UploadChunkError) {
+      return c.json({ error: error.message }, error.status);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error({ uploadId: upload.id, error: message }, "Upload chunk failed");
+    return c.json({ error: "Upload chunk failed", details: message }, 500);
+  }
+
+  if (updated.videoId) {
+    runVideoJobsInBackground(updated.videoId);
+  }
+
+  c.header("Upload-Offset", String(updated.uploadOffset));
+  return c.body(null, 204);
+});
+
+/**
+ * DELETE /api/videos/uploads/:uploadId - Cancel an unfinished upload
+ */
+videoRoutes.delete("/uploads/:uploadId", async (c) => {
+  const upload = await getUpload(c.req.param("uploadId"));
+  if (!upload) {
+    return c.json({ error: "Upload not found" }, 404);
+  }
+  const denied = await denyUnlessManager(c, upload);
+  if (denied) return denied;
+  if (upload.status === "complete") {
+    return c.json({ error: "Upload is already complete" }, 409);
+  }
+
+  await cancelUpload(upload);
+  c.header("Tus-Resumable", TUS_VERSION);
+  return c.body(null, 204);
+});
+
+/**
+ * POST /api/videos/upload - Upload a video in one request
  *
  * Accepts multipart form data with:
  * - file: Video file
  * - title: Video title
  * - description: (optional) Video description
- * - agentId: (optional) Creator agent ID
+ * - agentId: (optional) Creator agent ID (admin key only)
+ *
+ * Requires a creator session, or the admin key to upload for an agent.
+ * The file is written to disk and processed in the background; returns 202
+ * with the video ID to poll /api/videos/:id/status with. Large files should
+ * use the resumable /api/videos/uploads endpoints instead.
  */
 videoRoutes.post("/upload", async (c) => {
-  if (!isSupabaseConfigured()) {
-    return c.json(
-      { error: "Supabase storage not configured. Set SUPABASE_URL and SUPABASE_SERVICE_KEY." },
-      503
-    );
+  if (!isStorageConfigured()) {
+    return c.json({ error: storageNotConfiguredMessage() }, 503);
+  }
+
+  const principal = await getRequestPrincipal(c);
+  if (!principal) {
+    return c.json({ error: "Sign in required" }, 401);
   }
 
   try {
@@ -134,7 +673,7 @@ videoRoutes.post("/upload", async (c) => {
     const description = (formData.get("description") as string) || undefined;
     const agentId = (formData.get("agentId") as string) || undefined;
 
-    if (!file || !(file instanceof File)) {
+    if (!file || !(file instanceof File) || file.size === 0) {
       return c.json({ error: "No video file provided" }, 400);
     }
 
@@ -142,113 +681,48 @@ videoRoutes.post("/upload", async (c) => {
       return c.json({ error: "Title is required" }, 400);
     }
 
+    if (file.size > env.VIDEO_UPLOAD_MAX_BYTES) {
+      return c.json({ error: `Upload exceeds ${env.VIDEO_UPLOAD_MAX_BYTES} bytes` }, 413);
+    }
+
+    const uploader = uploaderFor(principal, agentId);
+    if ("error" in uploader) {
+      return c.json({ error: uploader.error }, uploader.status);
+    }
+
     logger.info(
-      { fileName: file.name, fileSize: file.size, title, agentId },
+      { fileName: file.name, fileSize: file.size, title, ...uploader },
       "Video upload received"
     );
 
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const videoBuffer = Buffer.from(arrayBuffer);
-
-    // Determine key server base URL
-    const keyServerBaseUrl =
-      env.FRONTEND_URL || `http://localhost:${env.PORT}`;
-
-    // Process the video through the full pipeline
-    const storage = getStorageProvider();
-    const result = await processVideo(videoBuffer, storage, {
-      segmentDuration: env.VIDEO_SEGMENT_DURATION,
-      quality: env.VIDEO_QUALITY as "480p" | "720p" | "1080p",
-      keyServerBaseUrl,
+    // Same path as a resumable upload sent in a single chunk
+    const upload = await createUpload({
+      title,
+      description,
+      ...uploader,
+      fileName: file.name,
+      uploadLength: file.size,
     });
-
-    // Look up agent details for on-chain settlement (if agentId provided)
-    let creatorWallet: string | null = null;
-    let creatorTokenAddress: string | null = null;
-    let creatorBondingCurveAddress: string | null = null;
-    if (agentId) {
-      const agent = await db
-        .select({
-          evmAddress: agents.evmAddress,
-          tokenAddress: agents.tokenAddress,
-          bondingCurveAddress: agents.bondingCurveAddress,
-        })
-        .from(agents)
-        .where(eq(agents.id, agentId))
-        .limit(1);
-      if (agent.length > 0) {
-        creatorWallet = agent[0].evmAddress;
-        creatorTokenAddress = agent[0].tokenAddress;
-        creatorBondingCurveAddress = agent[0].bondingCurveAddress;
-      }
+    const completed = await appendChunk(upload, file.stream());
+    if (!completed.videoId) {
+      throw new Error(`Upload stored ${completed.uploadOffset} of ${file.size} bytes`);
     }
 
-    // Store in database
-    await db.insert(videos).values({
-      id: result.videoId,
-      agentId: agentId || null,
-      title,
-      description: description || null,
-      status: "ready",
-      durationSeconds: result.durationSeconds,
-      totalSegments: result.totalSegments,
-      quality: result.quality,
-      masterSecret: encryptSecret(result.masterSecret),
-      merkleRoot: result.merkleRoot,
-      merkleTreeData: result.merkleTreeData,
-      contentUri: result.contentUri,
-      creatorWallet,
-      creatorTokenAddress,
-      creatorBondingCurveAddress,
-      processedAt: new Date(),
-    });
+    runVideoJobsInBackground(completed.videoId);
 
-    logger.info(
+    return c.json(
       {
-        videoId: result.videoId,
-        totalSegments: result.totalSegments,
-        duration: result.durationSeconds,
+        video: {
+          id: completed.videoId,
+          title,
+          description,
+          ...uploader,
+          status: "processing",
+        },
+        statusUrl: `/api/videos/${completed.videoId}/status`,
       },
-      "Video processed and stored"
+      202
     );
-
-    // Register merkle root on-chain (Base Sepolia) - fire and forget
-    let registryTxHash: string | null = null;
-    if (result.merkleRoot) {
-      registryTxHash = await registerVideoOnChain(
-        result.videoId,
-        result.merkleRoot,
-        creatorWallet || "0x0000000000000000000000000000000000000000",
-        result.totalSegments,
-      );
-
-      if (registryTxHash) {
-        await db
-          .update(videos)
-          .set({ registryTxHash, registryChainId: 84532 })
-          .where(eq(videos.id, result.videoId));
-      }
-    }
-
-    return c.json({
-      video: {
-        id: result.videoId,
-        title,
-        description,
-        agentId,
-        status: "ready",
-        totalSegments: result.totalSegments,
-        durationSeconds: result.durationSeconds,
-        quality: result.quality,
-        contentUri: result.contentUri,
-        merkleRoot: result.merkleRoot,
-        registryTxHash,
-        registryExplorerLink: registryTxHash
-          ? `https://sepolia.basescan.org/tx/${registryTxHash}`
-          : null,
-      },
-    });
   } catch (error) {
     logger.error(
       { error: error instanceof Error ? error.message : "Unknown error" },
@@ -256,7 +730,7 @@ videoRoutes.post("/upload", async (c) => {
     );
     return c.json(
       {
-        error: "Video processing failed",
+        error: "Video upload failed",
         details: error instanceof Error ? error.message : "Unknown error",
       },
       500
@@ -274,14 +748,16 @@ videoRoutes.post("/upload", async (c) => {
  * - videoUrl: URL to fetch the video from
  *
  * Fetches the video, runs it through the full processing pipeline,
- * and stores it linked to the agent.
+ * and stores it linked to the agent. Admin key only.
  */
 videoRoutes.post("/agent-upload", async (c) => {
-  if (!isSupabaseConfigured()) {
-    return c.json(
-      { error: "Supabase storage not configured. Set SUPABASE_URL and SUPABASE_SERVICE_KEY." },
-      503
-    );
+  const principal = await getRequestPrincipal(c);
+  if (principal?.kind !== "admin") {
+    return c.json({ error: "Admin key required" }, principal ? 403 : 401);
+  }
+
+  if (!isStorageConfigured()) {
+    return c.json({ error: storageNotConfiguredMessage() }, 503);
   }
 
   let body: {
@@ -347,7 +823,7 @@ videoRoutes.post("/agent-upload", async (c) => {
     const storage = getStorageProvider();
     const result = await processVideo(videoBuffer, storage, {
       segmentDuration: env.VIDEO_SEGMENT_DURATION,
-      quality: env.VIDEO_QUALITY as "480p" | "720p" | "1080p",
+      renditions: parseRenditionLadder(env.VIDEO_RENDITIONS),
       keyServerBaseUrl,
     });
 
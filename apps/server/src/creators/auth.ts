@@ -0,0 +1,43 @@
+/**
+ * Request Authentication
+ *
+ * Resolves who is calling from the Authorization header: an operator with
+ * `Bearer <ADMIN_API_KEY>`, or a creator with a SIWE session token.
+ */
+
+import type { Context } from "hono";
+import type { Creator } from "../db/schema";
+import { env } from "../utils/env";
+import type { Principal } from "./ownership";
+import { resolveSession } from "./store";
+
+/**
+ * The bearer token from the Authorization header, if any
+ */
+export function bearerToken(c: Context): string | null {
+  const header = c.req.header("Authorization");
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+/**
+ * The signed-in creator, or null without a live session
+ */
+export async function getRequestCreator(c: Context): Promise<Creator | null> {
+  const token = bearerToken(c);
+  return token ? resolveSession(token) : null;
+}
+
+/**
+ * The caller as an admin or creator principal, or null if anonymous
+ */
+export async function getRequestPrincipal(c: Context): Promise<Principal | null> {
+  const token = bearerToken(c);
+  if (!token) return null;
+  if (env.ADMIN_API_KEY && token === env.ADMIN_API_KEY) {
+    return { kind: "admin" };
+  }
+
+  const creator = await resolveSession(token);
+  return creator ? { kind: "creator", creatorId: creator.id, address: creator.address } : null;
+}
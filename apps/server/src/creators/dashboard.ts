@@ -0,0 +1,97 @@
+/**
+ * Creator Dashboard
+ *
+ * A creator's videos with per-video views and earnings, their most recent
+ * viewer sessions and overall streaming earnings.
+ */
+
+import { desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client";
+import { videos, yellowSessions, type Creator } from "../db/schema";
+import { creatorShare, summarizeCreatorEarnings, type CreatorEarnings } from "./earnings";
+
+export interface CreatorDashboardVideo {
+  id: string;
+  title: string;
+  status: string;
+  durationSeconds: number | null;
+  contentUri: string | null;
+  thumbnailUri: string | null;
+  createdAt: Date | null;
+  earnings: CreatorEarnings;
+}
+
+export interface CreatorDashboardSession {
+  id: string;
+  videoId: string;
+  viewerAddress: string;
+  status: string;
+  segmentsDelivered: number;
+  /** Creator share of the session's payments */
+  earned: bigint;
+  createdAt: Date | null;
+}
+
+export interface CreatorDashboard {
+  creator: Creator;
+  videos: CreatorDashboardVideo[];
+  sessions: CreatorDashboardSession[];
+  earnings: CreatorEarnings;
+}
+
+/**
+ * Dashboard for a creator (deleted videos are left out)
+ */
+export async function getCreatorDashboard(
+  creator: Creator,
+  sessionLimit: number = 50,
+): Promise<CreatorDashboard> {
+  const creatorVideos = (
+    await db
+      .select()
+      .from(videos)
+      .where(eq(videos.creatorId, creator.id))
+      .orderBy(desc(videos.createdAt))
+  ).filter((v) => v.status !== "deleted");
+
+  const sessions =
+    creatorVideos.length > 0
+      ? await db
+          .select({
+            id: yellowSessions.id,
+            videoId: yellowSessions.videoId,
+            viewerAddress: yellowSessions.viewerAddress,
+            status: yellowSessions.status,
+            creatorBalance: yellowSessions.creatorBalance,
+            segmentsDelivered: yellowSessions.segmentsDelivered,
+            createdAt: yellowSessions.createdAt,
+          })
+          .from(yellowSessions)
+          .where(inArray(yellowSessions.videoId, creatorVideos.map((v) => v.id)))
+          .orderBy(desc(yellowSessions.createdAt))
+      : [];
+
+  return {
+    creator,
+    videos: creatorVideos.map((v) => ({
+      id: v.id,
+      title: v.title,
+      status: v.status,
+      durationSeconds: v.durationSeconds,
+      contentUri: v.contentUri,
+      thumbnailUri: v.thumbnailUri,
+      createdAt: v.createdAt,
+      earnings: summarizeCreatorEarnings(sessions.filter((s) => s.videoId === v.id)),
+    })),
+    sessions: sessions.slice(0, sessionLimit).map((s) => ({
+      id: s.id,
+      videoId: s.videoId,
+      viewerAddress: s.viewerAddress,
+      status: s.status,
+      segmentsDelivered: s.segmentsDelivered ?? 0,
+      earned: s.status === "active" ? 0n : creatorShare(s.creatorBalance),
+      createdAt: s.createdAt,
+    })),
+    earnings: summarizeCreatorEarnings(sessions),
+  };
+}
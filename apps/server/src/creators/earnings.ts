@@ -0,0 +1,68 @@
+/**
+ * Creator Earnings
+ *
+ * Streaming revenue for a creator's videos from their Yellow sessions. A
+ * session's creator balance is split with the protocol (splitRevenue); only
+ * the creator share counts. Closed sessions are owed, settled ones paid out.
+ */
+
+import { parseUsdc, splitRevenue } from "@versus/streaming";
+
+export interface SessionEarningsInput {
+  creatorBalance: string | null;
+  status: string;
+  segmentsDelivered: number | null;
+}
+
+export interface CreatorEarnings {
+  /** Creator share of every closed or settled session */
+  total: bigint;
+  /** Share already settled on-chain */
+  settled: bigint;
+  /** Share of closed sessions waiting for settlement */
+  unsettled: bigint;
+  sessions: number;
+  paidSessions: number;
+  segmentsDelivered: number;
+}
+
+/**
+ * Creator share of one session's balance (0 for malformed balances)
+ */
+export function creatorShare(creatorBalance: string | null): bigint {
+  try {
+    return splitRevenue(parseUsdc(creatorBalance || "0")).creator;
+  } catch {
+    return 0n;
+  }
+}
+
+/**
+ * Total a creator's sessions; active sessions count toward views only
+ */
+export function summarizeCreatorEarnings(sessions: SessionEarningsInput[]): CreatorEarnings {
+  const earnings: CreatorEarnings = {
+    total: 0n,
+    settled: 0n,
+    unsettled: 0n,
+    sessions: sessions.length,
+    paidSessions: 0,
+    segmentsDelivered: 0,
+  };
+
+  for (const s of sessions) {
+    earnings.segmentsDelivered += s.segmentsDelivered || 0;
+    if (s.status !== "closed" && s.status !== "settled") continue;
+
+    const share = creatorShare(s.creatorBalance);
+    earnings.total += share;
+    if (s.status === "settled") {
+      earnings.settled += share;
+    } else {
+      earnings.unsettled += share;
+    }
+    if (share > 0n) earnings.paidSessions++;
+  }
+
+  return earnings;
+}
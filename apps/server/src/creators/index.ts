@@ -0,0 +1,31 @@
+/**
+ * Human creators
+ *
+ * Sign-in with Ethereum, creator accounts with their own CreatorFactory
+ * token, video ownership and the creator dashboard.
+ */
+
+export {
+  siweDomain,
+  issueNonce,
+  consumeNonce,
+  signInWithEthereum,
+  resolveSession,
+  revokeSession,
+  getCreator,
+  updateCreatorProfile,
+  deployCreatorToken,
+  indexCreatorCurves,
+  CreatorTokenError,
+  type CreatorSignIn,
+} from "./store";
+export {
+  getCreatorDashboard,
+  type CreatorDashboard,
+  type CreatorDashboardVideo,
+  type CreatorDashboardSession,
+} from "./dashboard";
+export { bearerToken, getRequestCreator, getRequestPrincipal } from "./auth";
+export * from "./siwe";
+export * from "./earnings";
+export * from "./ownership";
@@ -0,0 +1,43 @@
+/**
+ * Video Ownership
+ *
+ * Who may change a video: the creator who uploaded it, or an operator
+ * holding ADMIN_API_KEY (the only way to manage agent videos).
+ */
+
+export type Principal =
+  | { kind: "creator"; creatorId: string; address: string }
+  | { kind: "admin" };
+
+/**
+ * Whether the caller may edit, delete or reprocess the video (or upload)
+ */
+export function canManageVideo(
+  resource: { creatorId: string | null },
+  principal: Principal | null,
+): boolean {
+  if (!principal) return false;
+  if (principal.kind === "admin") return true;
+  return resource.creatorId !== null && resource.creatorId === principal.creatorId;
+}
+
+/**
+ * Whether a principal may create videos (uploads or live streams), and who
+ * the video belongs to: creators upload as themselves, the admin may
+ * upload for an agent
+ */
+export function uploaderFor(
+  principal: Principal | null,
+  agentId: string | undefined,
+): { creatorId: string | null; agentId: string | null } | { status: 401 | 403; error: string } {
+  if (!principal) {
+    return { status: 401, error: "Sign in required" };
+  }
+  if (principal.kind === "admin") {
+    return { creatorId: null, agentId: agentId || null };
+  }
+  if (agentId) {
+    return { status: 403, error: "Only the admin may upload for an agent" };
+  }
+  return { creatorId: principal.creatorId, agentId: null };
+}
@@ -0,0 +1,89 @@
+/**
+ * Sign-In with Ethereum
+ *
+ * Pure checks for EIP-4361 sign-in messages: the message must be for this
+ * app's domain, currently valid, and recently issued; the signature must
+ * recover to the message's address. Nonce bookkeeping lives in the store.
+ */
+
+import { getAddress, verifyMessage, type Address, type Hex } from "viem";
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe";
+
+/** How long an issued nonce (and so a sign-in message) stays usable */
+export const SIWE_NONCE_TTL_MS = 10 * 60 * 1000;
+
+/** Allowance for wallets whose clock runs slightly ahead of the server's */
+const CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * A sign-in the wallet got wrong (bad message, signature or nonce)
+ */
+export class CreatorAuthError extends Error {
+  readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "CreatorAuthError";
+  }
+}
+
+export interface SiweLogin {
+  address: Address;
+  nonce: string;
+  chainId: number | null;
+}
+
+export type SiweCheckResult =
+  | { ok: true; login: SiweLogin }
+  | { ok: false; error: string };
+
+/**
+ * Check a sign-in message's fields (not its signature)
+ */
+export function checkSiweMessage(
+  message: string,
+  expected: { domain: string; now?: Date; maxAgeMs?: number },
+): SiweCheckResult {
+  const fields = parseSiweMessage(message);
+  if (!fields.address || !fields.nonce || !fields.domain || !fields.issuedAt || fields.version !== "1") {
+    return { ok: false, error: "Malformed SIWE message" };
+  }
+
+  if (fields.domain !== expected.domain) {
+    return { ok: false, error: `SIWE domain mismatch: expected ${expected.domain}` };
+  }
+
+  const now = expected.now ?? new Date();
+  if (!validateSiweMessage({ message: fields, time: now })) {
+    return { ok: false, error: "SIWE message is expired or not yet valid" };
+  }
+
+  const age = now.getTime() - fields.issuedAt.getTime();
+  if (Number.isNaN(age) || age > (expected.maxAgeMs ?? SIWE_NONCE_TTL_MS) || age < -CLOCK_SKEW_MS) {
+    return { ok: false, error: "SIWE message was not issued recently" };
+  }
+
+  return {
+    ok: true,
+    login: {
+      address: getAddress(fields.address),
+      nonce: fields.nonce,
+      chainId: fields.chainId ?? null,
+    },
+  };
+}
+
+/**
+ * Whether an EOA signature over the message recovers to the address
+ */
+export async function verifySiweSignature(
+  message: string,
+  signature: string,
+  address: Address,
+): Promise<boolean> {
+  try {
+    return await verifyMessage({ address, message, signature: signature as Hex });
+  } catch {
+    return false;
+  }
+}
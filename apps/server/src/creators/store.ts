@@ -0,0 +1,237 @@
+/**
+ * Creator Store
+ *
+ * Creator accounts and their sign-in sessions. A creator row is created on
+ * first sign-in; the token and bonding curve are deployed later, on request,
+ * through CreatorFactory. Session tokens are random bearer tokens of which
+ * only a SHA-256 hash is stored.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { and, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import type { Address } from "viem";
+import { generateSiweNonce } from "viem/siwe";
+import { db } from "../db/client";
+import { authNonces, creatorSessions, creators, videos, type Creator } from "../db/schema";
+import { ensureCreator, isCreatorDeploymentConfigured } from "../integrations/chain/creator-factory";
+import { ensureBondingCurveIndexed } from "../integrations/chain/bonding-curve-indexer";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import { CreatorAuthError, SIWE_NONCE_TTL_MS, checkSiweMessage, verifySiweSignature } from "./siwe";
+
+/**
+ * A token deployment that can't go ahead, with the HTTP status it maps to
+ */
+export class CreatorTokenError extends Error {
+  constructor(
+    message: string,
+    readonly status: 409 | 503
+  ) {
+    super(message);
+    this.name = "CreatorTokenError";
+  }
+}
+
+export interface CreatorSignIn {
+  token: string;
+  expiresAt: Date;
+  creator: Creator;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Domain sign-in messages must be issued for (host of the web app)
+ */
+export function siweDomain(): string {
+  if (env.SIWE_DOMAIN) return env.SIWE_DOMAIN;
+  return env.FRONTEND_URL ? new URL(env.FRONTEND_URL).host : "localhost:3000";
+}
+
+/**
+ * Issue a single-use nonce for a sign-in message
+ */
+export async function issueNonce(): Promise<{ nonce: string; expiresAt: Date }> {
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date(Date.now() + SIWE_NONCE_TTL_MS);
+  await db.insert(authNonces).values({ nonce, expiresAt });
+  return { nonce, expiresAt };
+}
+
+/**
+ * Mark a nonce used. Returns false if it was unknown, used or expired.
+ */
+export async function consumeNonce(nonce: string): Promise<boolean> {
+  const now = new Date();
+  const used = await db
+    .update(authNonces)
+    .set({ usedAt: now })
+    .where(and(eq(authNonces.nonce, nonce), isNull(authNonces.usedAt), gt(authNonces.expiresAt, now)))
+    .returning({ nonce: authNonces.nonce });
+  return used.length > 0;
+}
+
+export async function getCreator(creatorId: string): Promise<Creator | null> {
+  const [creator] = await db.select().from(creators).where(eq(creators.id, creatorId)).limit(1);
+  return creator ?? null;
+}
+
+/**
+ * The creator for a wallet, created on first sign-in
+ */
+async function upsertCreator(address: Address): Promise<Creator> {
+  const [existing] = await db
+    .select()
+    .from(creators)
+    .where(eq(creators.address, address))
+    .limit(1);
+  if (existing) return existing;
+
+  const [created] = await db
+    .insert(creators)
+    .values({ id: `creator_${randomBytes(8).toString("hex")}`, address })
+    .onConflictDoNothing()
+    .returning();
+  if (created) {
+    logger.info({ creatorId: created.id, address }, "Creator account created");
+    return created;
+  }
+
+  // Lost a race with a concurrent first sign-in
+  const [winner] = await db.select().from(creators).where(eq(creators.address, address)).limit(1);
+  return winner;
+}
+
+/**
+ * Verify a signed EIP-4361 message and open a session for its wallet
+ */
+export async function signInWithEthereum(message: string, signature: string): Promise<CreatorSignIn> {
+  const check = checkSiweMessage(message, { domain: siweDomain() });
+  if (!check.ok) {
+    throw new CreatorAuthError(check.error);
+  }
+
+  const { address, nonce } = check.login;
+  if (!(await verifySiweSignature(message, signature, address))) {
+    throw new CreatorAuthError("Invalid SIWE signature");
+  }
+  if (!(await consumeNonce(nonce))) {
+    throw new CreatorAuthError("SIWE nonce is unknown, expired or already used");
+  }
+
+  const creator = await upsertCreator(address);
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + env.CREATOR_SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  await db.insert(creatorSessions).values({ id: hashToken(token), creatorId: creator.id, expiresAt });
+  logger.info({ creatorId: creator.id, address }, "Creator signed in");
+
+  return { token, expiresAt, creator };
+}
+
+/**
+ * The creator a live session token belongs to
+ */
+export async function resolveSession(token: string): Promise<Creator | null> {
+  const [row] = await db
+    .select({ creator: creators })
+    .from(creatorSessions)
+    .innerJoin(creators, eq(creatorSessions.creatorId, creators.id))
+    .where(
+      and(
+        eq(creatorSessions.id, hashToken(token)),
+        isNull(creatorSessions.revokedAt),
+        gt(creatorSessions.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+  return row?.creator ?? null;
+}
+
+export async function revokeSession(token: string): Promise<void> {
+  await db
+    .update(creatorSessions)
+    .set({ revokedAt: new Date() })
+    .where(eq(creatorSessions.id, hashToken(token)));
+}
+
+export async function updateCreatorProfile(
+  creatorId: string,
+  values: { displayName?: string | null },
+): Promise<Creator> {
+  const [updated] = await db
+    .update(creators)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(creators.id, creatorId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Deploy the creator's token and bonding curve via CreatorFactory (reusing
+ * an existing deployment for the wallet). The creator's wallet is the token
+ * creator, so curve revenue is claimable by it.
+ */
+export async function deployCreatorToken(
+  creator: Creator,
+  input: { tokenName: string; tokenSymbol: string },
+): Promise<Creator> {
+  if (creator.tokenAddress) {
+    throw new CreatorTokenError(`Creator token already deployed: ${creator.tokenAddress}`, 409);
+  }
+  if (!isCreatorDeploymentConfigured()) {
+    throw new CreatorTokenError("Creator deployment not configured (need DEPLOYER_PRIVATE_KEY)", 503);
+  }
+
+  const { tokenAddress, bondingCurveAddress } = await ensureCreator(
+    creator.address as Address,
+    input.tokenName,
+    input.tokenSymbol,
+  );
+
+  const [updated] = await db
+    .update(creators)
+    .set({
+      tokenName: input.tokenName,
+      tokenSymbol: input.tokenSymbol,
+      tokenAddress,
+      bondingCurveAddress,
+      updatedAt: new Date(),
+    })
+    .where(eq(creators.id, creator.id))
+    .returning();
+
+  // Videos uploaded before the token existed settle to it from now on
+  await db
+    .update(videos)
+    .set({ creatorTokenAddress: tokenAddress, creatorBondingCurveAddress: bondingCurveAddress })
+    .where(and(eq(videos.creatorId, creator.id), isNull(videos.creatorTokenAddress)));
+
+  logger.info({ creatorId: creator.id, tokenAddress, bondingCurveAddress }, "Creator token deployed");
+  ensureBondingCurveIndexed({ tokenAddress, bondingCurveAddress, creatorId: creator.id });
+  return updated;
+}
+
+/**
+ * Index the bonding curve of every creator that has deployed a token
+ */
+export async function indexCreatorCurves(): Promise<void> {
+  const rows = await db
+    .select({
+      id: creators.id,
+      tokenAddress: creators.tokenAddress,
+      bondingCurveAddress: creators.bondingCurveAddress,
+    })
+    .from(creators)
+    .where(and(isNotNull(creators.tokenAddress), isNotNull(creators.bondingCurveAddress)));
+
+  for (const row of rows) {
+    ensureBondingCurveIndexed({
+      tokenAddress: row.tokenAddress!,
+      bondingCurveAddress: row.bondingCurveAddress!,
+      creatorId: row.id,
+    });
+  }
+}
@@ -0,0 +1,2 @@
+-- Database-driven agent roster: content character stored per agent
+ALTER TABLE "agents" ADD COLUMN "character" text;
@@ -0,0 +1,34 @@
+-- Paper-trading execution mode: per-agent selection plus virtual treasury and holdings
+ALTER TABLE "agents" ADD COLUMN "execution_mode" text DEFAULT 'live' NOT NULL;
+--> statement-breakpoint
+CREATE TABLE "paper_accounts" (
+	"agent_id" text PRIMARY KEY NOT NULL,
+	"usdc_balance" text NOT NULL,
+	"claimed_revenue" text DEFAULT '0' NOT NULL,
+	"collateral_token" text,
+	"collateral_bonding_curve" text,
+	"collateral_amount" text DEFAULT '0' NOT NULL,
+	"borrowed_amount" text DEFAULT '0' NOT NULL,
+	"interest_accrued" text DEFAULT '0' NOT NULL,
+	"loan_updated_at" bigint,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "paper_holdings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"agent_id" text NOT NULL,
+	"token_address" text NOT NULL,
+	"bonding_curve_address" text NOT NULL,
+	"token_name" text,
+	"balance" text NOT NULL,
+	"avg_buy_price" text NOT NULL,
+	"total_cost_basis" text NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "paper_accounts" ADD CONSTRAINT "paper_accounts_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "paper_holdings" ADD CONSTRAINT "paper_holdings_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_paper_holdings_agent_id" ON "paper_holdings" USING btree ("agent_id");
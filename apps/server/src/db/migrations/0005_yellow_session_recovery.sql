@@ -0,0 +1,10 @@
+-- Durable Yellow sessions: state needed to rehydrate active sessions after a restart
+ALTER TABLE "yellow_sessions" ADD COLUMN "version" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "yellow_sessions" ADD COLUMN "paid_segments" text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "yellow_sessions" ADD COLUMN "pending_channel_data" text;
+--> statement-breakpoint
+ALTER TABLE "yellow_sessions" ADD COLUMN "close_state_hash" text;
+--> statement-breakpoint
+ALTER TABLE "yellow_sessions" ADD COLUMN "last_payment_at" timestamp;
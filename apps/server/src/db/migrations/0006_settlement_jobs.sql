@@ -0,0 +1,19 @@
+-- Settlement queue: resumable record → bridge → distribute steps per closed Yellow session
+CREATE TABLE "settlement_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"session_id" text NOT NULL,
+	"step" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"tx_hash" text,
+	"last_error" text,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "settlement_jobs" ADD CONSTRAINT "settlement_jobs_session_id_yellow_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."yellow_sessions"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_settlement_jobs_session_step" ON "settlement_jobs" USING btree ("session_id","step");
+--> statement-breakpoint
+CREATE INDEX "idx_settlement_jobs_status" ON "settlement_jobs" USING btree ("status","next_attempt_at");
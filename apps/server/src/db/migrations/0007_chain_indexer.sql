@@ -0,0 +1,15 @@
+-- Checkpointed chain indexer: per-contract block checkpoints and log-level trade dedup
+CREATE TABLE "chain_checkpoints" (
+	"id" text PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"contract_address" text NOT NULL,
+	"last_block" bigint NOT NULL,
+	"last_block_hash" text,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "trades" ADD COLUMN "log_index" integer;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_trades_tx_log" ON "trades" USING btree ("tx_hash","log_index");
+--> statement-breakpoint
+CREATE INDEX "idx_trades_curve_block" ON "trades" USING btree ("bonding_curve_address","block_number");
@@ -0,0 +1,67 @@
+-- Indexed on-chain events: bonding curve revenue, LendingPool activity and VideoRegistry (Base Sepolia)
+CREATE TABLE "revenue_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"token_address" text NOT NULL,
+	"bonding_curve_address" text NOT NULL,
+	"kind" text NOT NULL,
+	"user" text,
+	"amount" text NOT NULL,
+	"revenue_per_token" text,
+	"tx_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"block_number" integer NOT NULL,
+	"timestamp" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_revenue_events_token" ON "revenue_events" USING btree ("token_address","timestamp");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_revenue_events_tx_log" ON "revenue_events" USING btree ("tx_hash","log_index");
+--> statement-breakpoint
+CREATE INDEX "idx_revenue_events_curve_block" ON "revenue_events" USING btree ("bonding_curve_address","block_number");
+--> statement-breakpoint
+CREATE TABLE "lending_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"pool_address" text NOT NULL,
+	"kind" text NOT NULL,
+	"borrower" text NOT NULL,
+	"token" text,
+	"amount" text NOT NULL,
+	"liquidator" text,
+	"collateral_seized" text,
+	"tx_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"block_number" integer NOT NULL,
+	"timestamp" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_lending_events_borrower" ON "lending_events" USING btree ("borrower","timestamp");
+--> statement-breakpoint
+CREATE INDEX "idx_lending_events_timestamp" ON "lending_events" USING btree ("timestamp");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_lending_events_tx_log" ON "lending_events" USING btree ("tx_hash","log_index");
+--> statement-breakpoint
+CREATE INDEX "idx_lending_events_pool_block" ON "lending_events" USING btree ("pool_address","block_number");
+--> statement-breakpoint
+CREATE TABLE "video_registry_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"registry_address" text NOT NULL,
+	"kind" text NOT NULL,
+	"video_id_hash" text NOT NULL,
+	"creator" text,
+	"merkle_root" text,
+	"total_segments" integer,
+	"viewer" text,
+	"segments_watched" integer,
+	"total_paid" text,
+	"yellow_session_id" text,
+	"tx_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"block_number" integer NOT NULL,
+	"timestamp" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idx_video_registry_events_video" ON "video_registry_events" USING btree ("video_id_hash","timestamp");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_video_registry_events_tx_log" ON "video_registry_events" USING btree ("tx_hash","log_index");
+--> statement-breakpoint
+CREATE INDEX "idx_video_registry_events_registry_block" ON "video_registry_events" USING btree ("registry_address","block_number");
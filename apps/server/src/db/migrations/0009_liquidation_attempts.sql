@@ -0,0 +1,21 @@
+-- Liquidation keeper: record of every decision on an unhealthy LendingPool position
+CREATE TABLE "liquidation_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"borrower" text NOT NULL,
+	"collateral_token" text NOT NULL,
+	"collateral_amount" text NOT NULL,
+	"total_debt" text NOT NULL,
+	"health_factor" text NOT NULL,
+	"sale_proceeds" text NOT NULL,
+	"bonus_bps" integer NOT NULL,
+	"status" text NOT NULL,
+	"reason" text,
+	"executor" text NOT NULL,
+	"tx_hash" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_liquidation_attempts_borrower" ON "liquidation_attempts" USING btree ("borrower","created_at");
+--> statement-breakpoint
+CREATE INDEX "idx_liquidation_attempts_status" ON "liquidation_attempts" USING btree ("status");
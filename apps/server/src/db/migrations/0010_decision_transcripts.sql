@@ -0,0 +1,2 @@
+-- LLM tool-calling transcript behind each decision (null for rule-based decisions)
+ALTER TABLE "decision_logs" ADD COLUMN "transcript" text;
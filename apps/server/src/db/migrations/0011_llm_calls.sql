@@ -0,0 +1,21 @@
+-- LLM provider attempts with token usage and cost (reported or estimated)
+CREATE TABLE "llm_calls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"use_case" text NOT NULL,
+	"caller" text NOT NULL,
+	"agent_id" text,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"cost_usd" double precision,
+	"latency_ms" integer NOT NULL,
+	"success" boolean NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_llm_calls_agent" ON "llm_calls" USING btree ("agent_id","created_at");
+--> statement-breakpoint
+CREATE INDEX "idx_llm_calls_created_at" ON "llm_calls" USING btree ("created_at");
@@ -0,0 +1,16 @@
+-- Agent memory: LLM-written reflections and memory reset markers
+CREATE TABLE "agent_reflections" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"agent_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"content" text,
+	"cycle" integer NOT NULL,
+	"decision_count" integer DEFAULT 0 NOT NULL,
+	"provider" text,
+	"model" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "agent_reflections" ADD CONSTRAINT "agent_reflections_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_agent_reflections_agent" ON "agent_reflections" USING btree ("agent_id","created_at");
@@ -0,0 +1,33 @@
+-- Decision sources (llm | rules) and outcome scoring of executed actions
+ALTER TABLE "decision_logs" ADD COLUMN "source" text;
+--> statement-breakpoint
+ALTER TABLE "decision_logs" ADD COLUMN "scored_at" bigint;
+--> statement-breakpoint
+CREATE TABLE "action_outcomes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"decision_log_id" integer NOT NULL,
+	"action_index" integer NOT NULL,
+	"agent_id" text NOT NULL,
+	"action_type" text NOT NULL,
+	"source" text NOT NULL,
+	"confidence" double precision NOT NULL,
+	"token_address" text NOT NULL,
+	"method" text NOT NULL,
+	"entry_price" text NOT NULL,
+	"exit_price" text NOT NULL,
+	"notional_usdc" text NOT NULL,
+	"outcome_usdc" text NOT NULL,
+	"edge_pct" double precision NOT NULL,
+	"hit" boolean NOT NULL,
+	"decided_at" bigint NOT NULL,
+	"horizon_ms" bigint NOT NULL,
+	"scored_at" bigint NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "action_outcomes" ADD CONSTRAINT "action_outcomes_decision_log_id_decision_logs_id_fk" FOREIGN KEY ("decision_log_id") REFERENCES "public"."decision_logs"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "action_outcomes" ADD CONSTRAINT "action_outcomes_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_action_outcomes_agent" ON "action_outcomes" USING btree ("agent_id","decided_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_action_outcomes_action" ON "action_outcomes" USING btree ("decision_log_id","action_index");
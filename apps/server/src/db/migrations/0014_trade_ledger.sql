@@ -0,0 +1,56 @@
+-- Trade ledger with FIFO lots, and daily NAV snapshots
+CREATE TABLE "ledger_trades" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"agent_id" text NOT NULL,
+	"token_address" text NOT NULL,
+	"token_name" text,
+	"side" text NOT NULL,
+	"token_amount" text NOT NULL,
+	"usdc_amount" text NOT NULL,
+	"quoted_amount" text,
+	"slippage_bps" double precision,
+	"cost_basis" text,
+	"realized_pnl" text,
+	"tx_hash" text,
+	"timestamp" bigint NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ledger_lots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"agent_id" text NOT NULL,
+	"token_address" text NOT NULL,
+	"trade_id" integer,
+	"token_amount" text NOT NULL,
+	"remaining" text NOT NULL,
+	"cost_usdc" text NOT NULL,
+	"opened_at" bigint NOT NULL,
+	"closed_at" bigint
+);
+--> statement-breakpoint
+CREATE TABLE "nav_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"agent_id" text NOT NULL,
+	"day" text NOT NULL,
+	"timestamp" bigint NOT NULL,
+	"usdc_balance" text NOT NULL,
+	"holdings_value" text NOT NULL,
+	"collateral_value" text NOT NULL,
+	"loan_debt" text NOT NULL,
+	"nav" text NOT NULL,
+	"realized_pnl" text NOT NULL,
+	"unrealized_pnl" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_trades" ADD CONSTRAINT "ledger_trades_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "ledger_lots" ADD CONSTRAINT "ledger_lots_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "ledger_lots" ADD CONSTRAINT "ledger_lots_trade_id_ledger_trades_id_fk" FOREIGN KEY ("trade_id") REFERENCES "public"."ledger_trades"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "nav_snapshots" ADD CONSTRAINT "nav_snapshots_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_ledger_trades_agent" ON "ledger_trades" USING btree ("agent_id","timestamp");
+--> statement-breakpoint
+CREATE INDEX "idx_ledger_lots_agent_token" ON "ledger_lots" USING btree ("agent_id","token_address","opened_at");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_nav_snapshots_agent_day" ON "nav_snapshots" USING btree ("agent_id","day");
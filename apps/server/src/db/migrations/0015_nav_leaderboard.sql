@@ -0,0 +1,6 @@
+-- Full NAV breakdown for the leaderboard: own-token stake, pending and streaming revenue
+ALTER TABLE "nav_snapshots" ADD COLUMN "own_token_value" text DEFAULT '0' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "nav_snapshots" ADD COLUMN "pending_revenue" text DEFAULT '0' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "nav_snapshots" ADD COLUMN "streaming_revenue" text DEFAULT '0' NOT NULL;
@@ -0,0 +1,41 @@
+-- Resumable uploads and staged processing jobs (segment → encrypt → package → upload → register)
+CREATE TABLE "video_uploads" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"agent_id" text,
+	"file_name" text,
+	"upload_length" bigint NOT NULL,
+	"upload_offset" bigint DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'uploading' NOT NULL,
+	"video_id" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "video_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" text NOT NULL,
+	"stage" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"progress" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "video_uploads" ADD CONSTRAINT "video_uploads_agent_id_agents_id_fk" FOREIGN KEY ("agent_id") REFERENCES "public"."agents"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "video_uploads" ADD CONSTRAINT "video_uploads_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "video_jobs" ADD CONSTRAINT "video_jobs_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_video_uploads_status" ON "video_uploads" USING btree ("status");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_video_jobs_video_stage" ON "video_jobs" USING btree ("video_id","stage");
+--> statement-breakpoint
+CREATE INDEX "idx_video_jobs_status" ON "video_jobs" USING btree ("status","next_attempt_at");
@@ -0,0 +1,43 @@
+-- Human creators: SIWE sign-in, server sessions and video ownership
+CREATE TABLE "creators" (
+	"id" text PRIMARY KEY NOT NULL,
+	"address" text NOT NULL,
+	"display_name" text,
+	"token_name" text,
+	"token_symbol" text,
+	"token_address" text,
+	"bonding_curve_address" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "creator_sessions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"creator_id" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "auth_nonces" (
+	"nonce" text PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "creator_id" text;
+--> statement-breakpoint
+ALTER TABLE "video_uploads" ADD COLUMN "creator_id" text;
+--> statement-breakpoint
+ALTER TABLE "creator_sessions" ADD CONSTRAINT "creator_sessions_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD CONSTRAINT "videos_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "video_uploads" ADD CONSTRAINT "video_uploads_creator_id_creators_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."creators"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_creators_address" ON "creators" USING btree ("address");
+--> statement-breakpoint
+CREATE INDEX "idx_creator_sessions_creator_id" ON "creator_sessions" USING btree ("creator_id");
+--> statement-breakpoint
+CREATE INDEX "idx_videos_creator_id" ON "videos" USING btree ("creator_id");
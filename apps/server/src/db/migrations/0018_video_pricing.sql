@@ -0,0 +1,8 @@
+-- Per-video pricing: base price, free preview segments and pricing policy
+ALTER TABLE "videos" ADD COLUMN "price_per_segment" text;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "free_preview_segments" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN "pricing_policy" text;
+--> statement-breakpoint
+ALTER TABLE "yellow_sessions" ADD COLUMN "free_preview_segments" integer DEFAULT 0 NOT NULL;
@@ -0,0 +1,17 @@
+-- Token-gated streaming: per-video gate rules and holder gate passes
+ALTER TABLE "videos" ADD COLUMN "token_gate" text;
+--> statement-breakpoint
+CREATE TABLE "token_gate_passes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"video_id" text NOT NULL,
+	"holder_address" text NOT NULL,
+	"mode" text NOT NULL,
+	"discount_bps" integer DEFAULT 0 NOT NULL,
+	"balance" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "token_gate_passes" ADD CONSTRAINT "token_gate_passes_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "idx_token_gate_passes_video_id" ON "token_gate_passes" USING btree ("video_id");
@@ -0,0 +1,53 @@
+-- Live streaming: RTMP ingest, published live segments and windowed Merkle commitments
+ALTER TABLE "videos" ADD COLUMN "is_live" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE TABLE "live_streams" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" text NOT NULL,
+	"source" text NOT NULL,
+	"status" text DEFAULT 'starting' NOT NULL,
+	"ingest_port" integer,
+	"quality" text NOT NULL,
+	"segment_duration" integer NOT NULL,
+	"window_size" integer NOT NULL,
+	"segments_published" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"started_at" timestamp,
+	"last_segment_at" timestamp,
+	"ended_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "live_segments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" text NOT NULL,
+	"segment_index" integer NOT NULL,
+	"duration" double precision NOT NULL,
+	"iv_hex" text NOT NULL,
+	"path" text NOT NULL,
+	"published_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "live_merkle_windows" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"video_id" text NOT NULL,
+	"window_index" integer NOT NULL,
+	"start_segment" integer NOT NULL,
+	"segment_count" integer NOT NULL,
+	"root" text NOT NULL,
+	"committed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "live_streams" ADD CONSTRAINT "live_streams_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "live_segments" ADD CONSTRAINT "live_segments_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "live_merkle_windows" ADD CONSTRAINT "live_merkle_windows_video_id_videos_id_fk" FOREIGN KEY ("video_id") REFERENCES "public"."videos"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_live_streams_video_id" ON "live_streams" USING btree ("video_id");
+--> statement-breakpoint
+CREATE INDEX "idx_live_streams_status" ON "live_streams" USING btree ("status");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_live_segments_video_segment" ON "live_segments" USING btree ("video_id","segment_index");
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_live_merkle_windows_video_window" ON "live_merkle_windows" USING btree ("video_id","window_index");
@@ -8,6 +8,7 @@ import {
   doublePrecision,
   bigint,
   index,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -15,14 +16,16 @@ import { relations } from "drizzle-orm";
  * Agents table - stores agent configuration
  */
 export const agents = pgTable("agents", {
-  id: text("id").primaryKey(), // 'alice' | 'bob'
+  id: text("id").primaryKey(), // e.g. 'alice', 'bob' or a provisioned agent ID
   name: text("name").notNull(),
   circleWalletId: text("circle_wallet_id"),
   evmAddress: text("evm_address").notNull(),
   tokenAddress: text("token_address").notNull(),
   bondingCurveAddress: text("bonding_curve_address").notNull(),
-  strategyType: text("strategy_type").notNull(), // 'academic' | 'degen'
+  strategyType: text("strategy_type").notNull(), // Any registered strategy id
   strategyConfig: text("strategy_config").notNull(), // JSON string
+  character: text("character"), // JSON AgentCharacter (null = built-in character)
+  executionMode: text("execution_mode").notNull().default("live"), // 'live' | 'paper'
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -56,6 +59,9 @@ export const decisionLogs = pgTable(
     thinking: text("thinking").notNull(), // JSON string
     actions: text("actions").notNull(), // JSON string
     executionResults: text("execution_results"), // JSON string (nullable)
+    transcript: text("transcript"), // JSON string of LLM messages incl. tool calls (nullable)
+    source: text("source"), // llm | rules (null on logs written before sources were recorded)
+    scoredAt: bigint("scored_at", { mode: "number" }), // Unix ms when outcomes were scored
     createdAt: timestamp("created_at").defaultNow(),
   },
   (table) => ({
@@ -86,6 +92,48 @@ export const holdings = pgTable(
   })
 );
 
+/**
+ * Paper accounts - virtual treasury and loan for agents in paper-trading mode
+ */
+export const paperAccounts = pgTable("paper_accounts", {
+  agentId: text("agent_id")
+    .primaryKey()
+    .references(() => agents.id),
+  usdcBalance: text("usdc_balance").notNull(), // BigInt as string (6 decimals)
+  claimedRevenue: text("claimed_revenue").notNull().default("0"), // Own-curve revenue already credited
+  collateralToken: text("collateral_token"),
+  collateralBondingCurve: text("collateral_bonding_curve"),
+  collateralAmount: text("collateral_amount").notNull().default("0"), // BigInt as string (18 decimals)
+  borrowedAmount: text("borrowed_amount").notNull().default("0"), // BigInt as string (6 decimals)
+  interestAccrued: text("interest_accrued").notNull().default("0"), // BigInt as string (6 decimals)
+  loanUpdatedAt: bigint("loan_updated_at", { mode: "number" }), // Unix ms
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+/**
+ * Paper holdings - virtual token positions for agents in paper-trading mode
+ */
+export const paperHoldings = pgTable(
+  "paper_holdings",
+  {
+    id: serial("id").primaryKey(),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    tokenAddress: text("token_address").notNull(),
+    bondingCurveAddress: text("bonding_curve_address").notNull(),
+    tokenName: text("token_name"),
+    balance: text("balance").notNull(), // BigInt as string
+    avgBuyPrice: text("avg_buy_price").notNull(), // BigInt as string (6 decimals)
+    totalCostBasis: text("total_cost_basis").notNull(), // BigInt as string
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    agentIdIdx: index("idx_paper_holdings_agent_id").on(table.agentId),
+  })
+);
+
 /**
  * Price history - cache prices for historical analysis
  */
@@ -152,6 +200,57 @@ export const circleWalletsRelations = relations(circleWallets, ({ one }) => ({
   }),
 }));
 
+/**
+ * Creators - human uploaders who sign in with Ethereum (EIP-4361)
+ */
+export const creators = pgTable(
+  "creators",
+  {
+    id: text("id").primaryKey(),
+    address: text("address").notNull(), // Checksummed sign-in wallet; receives creator revenue
+    displayName: text("display_name"),
+    tokenName: text("token_name"),
+    tokenSymbol: text("token_symbol"),
+    // Deployed via CreatorFactory.createCreator (null until the creator requests it)
+    tokenAddress: text("token_address"),
+    bondingCurveAddress: text("bonding_curve_address"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    addressIdx: uniqueIndex("idx_creators_address").on(table.address),
+  })
+);
+
+/**
+ * Creator sessions - bearer tokens issued after a verified SIWE sign-in
+ */
+export const creatorSessions = pgTable(
+  "creator_sessions",
+  {
+    id: text("id").primaryKey(), // SHA-256 of the bearer token (the token itself is never stored)
+    creatorId: text("creator_id")
+      .notNull()
+      .references(() => creators.id),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    creatorIdIdx: index("idx_creator_sessions_creator_id").on(table.creatorId),
+  })
+);
+
+/**
+ * Auth nonces - single-use SIWE nonces
+ */
+export const authNonces = pgTable("auth_nonces", {
+  nonce: text("nonce").primaryKey(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 /**
  * Videos table - stores video metadata and crypto material
  */
@@ -162,7 +261,8 @@ export const videos = pgTable(
     agentId: text("agent_id").references(() => agents.id),
     title: text("title").notNull(),
     description: text("description"),
-    status: text("status").notNull().default("pending"),
+    status: text("status").notNull().default("pending"), // pending | processing | live | ready | failed | deleted
+    isLive: boolean("is_live").notNull().default(false), // Recorded from a live stream (see live_streams)
     durationSeconds: integer("duration_seconds"),
     totalSegments: integer("total_segments"),
     quality: text("quality").default("720p"),
@@ -171,6 +271,12 @@ export const videos = pgTable(
     merkleTreeData: text("merkle_tree_data"),
     contentUri: text("content_uri"),
     thumbnailUri: text("thumbnail_uri"),
+    creatorId: text("creator_id").references(() => creators.id), // Human creator (null for agent videos)
+    // Pricing (see pricing/policy); null price = YELLOW_PRICE_PER_SEGMENT
+    pricePerSegment: text("price_per_segment"),
+    freePreviewSegments: integer("free_preview_segments").notNull().default(0),
+    pricingPolicy: text("pricing_policy"), // JSON PricingPolicy (time-of-day, demand, holder discount)
+    tokenGate: text("token_gate"), // JSON TokenGate (null = not token-gated)
     // Denormalized agent fields for on-chain settlement
     creatorWallet: text("creator_wallet"),
     creatorTokenAddress: text("creator_token_address"),
@@ -183,6 +289,7 @@ export const videos = pgTable(
   },
   (table) => ({
     agentIdIdx: index("idx_videos_agent_id").on(table.agentId),
+    creatorIdIdx: index("idx_videos_creator_id").on(table.creatorId),
     statusIdx: index("idx_videos_status").on(table.status),
   })
 );
@@ -208,13 +315,183 @@ export const viewerSessions = pgTable(
   })
 );
 
+/**
+ * Token gate passes - issued to viewers who proved they hold enough of a
+ * gated video's creator token
+ */
+export const tokenGatePasses = pgTable(
+  "token_gate_passes",
+  {
+    id: text("id").primaryKey(), // SHA-256 of the pass token (the token itself is never stored)
+    videoId: text("video_id")
+      .notNull()
+      .references(() => videos.id),
+    holderAddress: text("holder_address").notNull(),
+    mode: text("mode").notNull(), // free | discount
+    discountBps: integer("discount_bps").notNull().default(0),
+    balance: text("balance").notNull(), // Creator token balance when redeemed (base units)
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    videoIdIdx: index("idx_token_gate_passes_video_id").on(table.videoId),
+  })
+);
+
+/**
+ * Live streams - RTMP ingest (or FFmpeg test source) for a live video,
+ * segmented, encrypted and published while it is broadcast
+ */
+export const liveStreams = pgTable(
+  "live_streams",
+  {
+    id: serial("id").primaryKey(),
+    videoId: text("video_id")
+      .notNull()
+      .references(() => videos.id),
+    source: text("source").notNull(), // rtmp | test
+    status: text("status").notNull().default("starting"), // starting | live | ended | failed
+    ingestPort: integer("ingest_port"), // RTMP listen port (null for the test source)
+    quality: text("quality").notNull(),
+    segmentDuration: integer("segment_duration").notNull(),
+    windowSize: integer("window_size").notNull(), // Segments per committed Merkle window
+    segmentsPublished: integer("segments_published").notNull().default(0),
+    lastError: text("last_error"),
+    startedAt: timestamp("started_at"),
+    lastSegmentAt: timestamp("last_segment_at"),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    videoIdIdx: uniqueIndex("idx_live_streams_video_id").on(table.videoId),
+    statusIdx: index("idx_live_streams_status").on(table.status),
+  })
+);
+
+/**
+ * Live segments - one row per published (encrypted and stored) live segment
+ */
+export const liveSegments = pgTable(
+  "live_segments",
+  {
+    id: serial("id").primaryKey(),
+    videoId: text("video_id")
+      .notNull()
+      .references(() => videos.id),
+    segmentIndex: integer("segment_index").notNull(),
+    duration: doublePrecision("duration").notNull(), // Seconds
+    ivHex: text("iv_hex").notNull(),
+    path: text("path").notNull(), // Storage path of the encrypted segment
+    publishedAt: timestamp("published_at").defaultNow(),
+  },
+  (table) => ({
+    videoSegmentIdx: uniqueIndex("idx_live_segments_video_segment").on(
+      table.videoId,
+      table.segmentIndex
+    ),
+  })
+);
+
+/**
+ * Live Merkle windows - root over the keys of each closed window of live
+ * segments; videos.merkle_root commits to all of them
+ */
+export const liveMerkleWindows = pgTable(
+  "live_merkle_windows",
+  {
+    id: serial("id").primaryKey(),
+    videoId: text("video_id")
+      .notNull()
+      .references(() => videos.id),
+    windowIndex: integer("window_index").notNull(),
+    startSegment: integer("start_segment").notNull(),
+    segmentCount: integer("segment_count").notNull(),
+    root: text("root").notNull(),
+    committedAt: timestamp("committed_at").defaultNow(),
+  },
+  (table) => ({
+    videoWindowIdx: uniqueIndex("idx_live_merkle_windows_video_window").on(
+      table.videoId,
+      table.windowIndex
+    ),
+  })
+);
+
 export const videosRelations = relations(videos, ({ one }) => ({
   agent: one(agents, {
     fields: [videos.agentId],
     references: [agents.id],
   }),
+  creator: one(creators, {
+    fields: [videos.creatorId],
+    references: [creators.id],
+  }),
 }));
 
+export const creatorsRelations = relations(creators, ({ many }) => ({
+  videos: many(videos),
+  sessions: many(creatorSessions),
+}));
+
+export const creatorSessionsRelations = relations(creatorSessions, ({ one }) => ({
+  creator: one(creators, {
+    fields: [creatorSessions.creatorId],
+    references: [creators.id],
+  }),
+}));
+
+/**
+ * Video uploads - resumable (tus-style) uploads streamed to disk in chunks
+ */
+export const videoUploads = pgTable(
+  "video_uploads",
+  {
+    id: text("id").primaryKey(),
+    title: text("title").notNull(),
+    description: text("description"),
+    agentId: text("agent_id").references(() => agents.id),
+    creatorId: text("creator_id").references(() => creators.id), // Uploader; only they may resume or cancel
+    fileName: text("file_name"),
+    uploadLength: bigint("upload_length", { mode: "number" }).notNull(), // Total bytes
+    uploadOffset: bigint("upload_offset", { mode: "number" }).notNull().default(0), // Bytes received
+    status: text("status").notNull().default("uploading"), // uploading | complete | cancelled
+    videoId: text("video_id").references(() => videos.id), // Set once the upload completes
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    statusIdx: index("idx_video_uploads_status").on(table.status),
+  })
+);
+
+/**
+ * Video jobs - one row per processing stage (segment → encrypt → package →
+ * upload → register) of an uploaded video, retried with backoff
+ */
+export const videoJobs = pgTable(
+  "video_jobs",
+  {
+    id: serial("id").primaryKey(),
+    videoId: text("video_id")
+      .notNull()
+      .references(() => videos.id),
+    stage: text("stage").notNull(), // segment | encrypt | package | upload | register
+    status: text("status").notNull().default("pending"), // pending | running | completed | dead
+    progress: integer("progress").notNull().default(0), // Percent of the stage done
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    videoStageIdx: uniqueIndex("idx_video_jobs_video_stage").on(table.videoId, table.stage),
+    statusIdx: index("idx_video_jobs_status").on(table.status, table.nextAttemptAt),
+  })
+);
+
 export const viewerSessionsRelations = relations(
   viewerSessions,
   ({ one }) => ({
@@ -242,7 +519,8 @@ export const yellowSessions = pgTable(
     viewerBalance: text("viewer_balance").notNull(),
     creatorBalance: text("creator_balance").notNull(),
     segmentsDelivered: integer("segments_delivered").default(0),
-    pricePerSegment: text("price_per_segment").notNull(),
+    pricePerSegment: text("price_per_segment").notNull(), // Quoted when the session opened
+    freePreviewSegments: integer("free_preview_segments").notNull().default(0),
     status: text("status").notNull().default("active"), // active | closed | settled
     // Denormalized agent fields for settlement
     creatorTokenAddress: text("creator_token_address"),
@@ -257,6 +535,12 @@ export const yellowSessions = pgTable(
     custodyDepositTxHash: text("custody_deposit_tx_hash"), // USDC deposited into Custody
     channelCloseTxHash: text("channel_close_tx_hash"), // Channel closed on-chain
     custodyWithdrawTxHash: text("custody_withdraw_tx_hash"), // Funds withdrawn from Custody
+    // Crash recovery state (persisted on every co-signed update)
+    version: integer("version").notNull().default(0),
+    paidSegments: text("paid_segments").notNull().default("[]"), // JSON array of segment indexes
+    pendingChannelData: text("pending_channel_data"), // JSON PreparedChannel awaiting viewer signature
+    closeStateHash: text("close_state_hash"),
+    lastPaymentAt: timestamp("last_payment_at"),
     createdAt: timestamp("created_at").defaultNow(),
     closedAt: timestamp("closed_at"),
   },
@@ -277,6 +561,32 @@ export const yellowSessionsRelations = relations(
   })
 );
 
+/**
+ * Settlement jobs - one row per settlement step (record → bridge → distribute)
+ * of a closed Yellow session, retried with backoff until confirmed
+ */
+export const settlementJobs = pgTable(
+  "settlement_jobs",
+  {
+    id: serial("id").primaryKey(),
+    sessionId: text("session_id")
+      .notNull()
+      .references(() => yellowSessions.id),
+    step: text("step").notNull(), // record | bridge | distribute
+    status: text("status").notNull().default("pending"), // pending | submitted | confirmed | skipped | dead
+    attempts: integer("attempts").notNull().default(0),
+    txHash: text("tx_hash"), // Set once submitted; never resubmitted unless the tx reverted
+    lastError: text("last_error"),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    sessionStepIdx: uniqueIndex("idx_settlement_jobs_session_step").on(table.sessionId, table.step),
+    statusIdx: index("idx_settlement_jobs_status").on(table.status, table.nextAttemptAt),
+  })
+);
+
 /**
  * Trades - on-chain buy/sell events from bonding curves for chart data
  */
@@ -292,15 +602,302 @@ export const trades = pgTable(
     tokenAmount: text("token_amount").notNull(), // BigInt string (18 decimals)
     price: text("price").notNull(), // newPrice from event (6 decimals)
     txHash: text("tx_hash"),
+    logIndex: integer("log_index"),
     blockNumber: integer("block_number"),
-    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Unix ms
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block time, Unix ms
   },
   (table) => ({
     tokenAddressIdx: index("idx_trades_token").on(table.tokenAddress),
     timestampIdx: index("idx_trades_timestamp").on(table.timestamp),
+    txLogIdx: uniqueIndex("idx_trades_tx_log").on(table.txHash, table.logIndex),
+    curveBlockIdx: index("idx_trades_curve_block").on(table.bondingCurveAddress, table.blockNumber),
+  })
+);
+
+/**
+ * Revenue Events - RevenueAdded / RevenueClaimed from bonding curves
+ */
+export const revenueEvents = pgTable(
+  "revenue_events",
+  {
+    id: serial("id").primaryKey(),
+    tokenAddress: text("token_address").notNull(),
+    bondingCurveAddress: text("bonding_curve_address").notNull(),
+    kind: text("kind").notNull(), // 'added' | 'claimed'
+    user: text("user"), // Claimer (claimed only)
+    amount: text("amount").notNull(), // BigInt string (6 decimals)
+    revenuePerToken: text("revenue_per_token"), // Cumulative per-token revenue after the event (added only)
+    txHash: text("tx_hash").notNull(),
+    logIndex: integer("log_index").notNull(),
+    blockNumber: integer("block_number").notNull(),
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block time, Unix ms
+  },
+  (table) => ({
+    tokenTimeIdx: index("idx_revenue_events_token").on(table.tokenAddress, table.timestamp),
+    txLogIdx: uniqueIndex("idx_revenue_events_tx_log").on(table.txHash, table.logIndex),
+    curveBlockIdx: index("idx_revenue_events_curve_block").on(table.bondingCurveAddress, table.blockNumber),
+  })
+);
+
+/**
+ * Lending Events - LendingPool collateral, borrow, repay and liquidation events
+ */
+export const lendingEvents = pgTable(
+  "lending_events",
+  {
+    id: serial("id").primaryKey(),
+    poolAddress: text("pool_address").notNull(),
+    kind: text("kind").notNull(), // 'deposit' | 'withdraw' | 'borrow' | 'repay' | 'liquidation'
+    borrower: text("borrower").notNull(),
+    token: text("token"), // Collateral token (deposit/withdraw only)
+    amount: text("amount").notNull(), // Collateral (18 decimals) for deposit/withdraw, USDC (6 decimals) otherwise; debt repaid for liquidations
+    liquidator: text("liquidator"),
+    collateralSeized: text("collateral_seized"), // Liquidations only (18 decimals)
+    txHash: text("tx_hash").notNull(),
+    logIndex: integer("log_index").notNull(),
+    blockNumber: integer("block_number").notNull(),
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block time, Unix ms
+  },
+  (table) => ({
+    borrowerIdx: index("idx_lending_events_borrower").on(table.borrower, table.timestamp),
+    timestampIdx: index("idx_lending_events_timestamp").on(table.timestamp),
+    txLogIdx: uniqueIndex("idx_lending_events_tx_log").on(table.txHash, table.logIndex),
+    poolBlockIdx: index("idx_lending_events_pool_block").on(table.poolAddress, table.blockNumber),
+  })
+);
+
+/**
+ * Video Registry Events - VideoRegistered / SettlementRecorded on Base Sepolia
+ */
+export const videoRegistryEvents = pgTable(
+  "video_registry_events",
+  {
+    id: serial("id").primaryKey(),
+    registryAddress: text("registry_address").notNull(),
+    kind: text("kind").notNull(), // 'registered' | 'settlement'
+    videoIdHash: text("video_id_hash").notNull(), // keccak256(videoId)
+    creator: text("creator"), // registered only
+    merkleRoot: text("merkle_root"), // registered only
+    totalSegments: integer("total_segments"), // registered only
+    viewer: text("viewer"), // settlement only
+    segmentsWatched: integer("segments_watched"), // settlement only
+    totalPaid: text("total_paid"), // settlement only, BigInt string (6 decimals)
+    yellowSessionId: text("yellow_session_id"), // settlement only
+    txHash: text("tx_hash").notNull(),
+    logIndex: integer("log_index").notNull(),
+    blockNumber: integer("block_number").notNull(),
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Block time, Unix ms
+  },
+  (table) => ({
+    videoIdx: index("idx_video_registry_events_video").on(table.videoIdHash, table.timestamp),
+    txLogIdx: uniqueIndex("idx_video_registry_events_tx_log").on(table.txHash, table.logIndex),
+    registryBlockIdx: index("idx_video_registry_events_registry_block").on(table.registryAddress, table.blockNumber),
   })
 );
 
+/**
+ * Liquidation Attempts - every keeper decision on an unhealthy LendingPool position
+ */
+export const liquidationAttempts = pgTable(
+  "liquidation_attempts",
+  {
+    id: serial("id").primaryKey(),
+    borrower: text("borrower").notNull(),
+    collateralToken: text("collateral_token").notNull(),
+    collateralAmount: text("collateral_amount").notNull(), // BigInt string (18 decimals)
+    totalDebt: text("total_debt").notNull(), // BigInt string (6 decimals)
+    healthFactor: text("health_factor").notNull(), // BigInt string (1e18 precision)
+    saleProceeds: text("sale_proceeds").notNull(), // Bonding curve sell quote for the collateral
+    bonusBps: integer("bonus_bps").notNull(),
+    status: text("status").notNull(), // skipped | submitted | confirmed | failed
+    reason: text("reason"),
+    executor: text("executor").notNull(), // Keeper wallet address
+    txHash: text("tx_hash"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => ({
+    borrowerIdx: index("idx_liquidation_attempts_borrower").on(table.borrower, table.createdAt),
+    statusIdx: index("idx_liquidation_attempts_status").on(table.status),
+  })
+);
+
+/**
+ * LLM Calls - one row per provider attempt, with tokens and cost
+ */
+export const llmCalls = pgTable(
+  "llm_calls",
+  {
+    id: serial("id").primaryKey(),
+    useCase: text("use_case").notNull(), // trading | ideation
+    caller: text("caller").notNull(), // Rate-limit key, e.g. "trading:alice"
+    agentId: text("agent_id"),
+    provider: text("provider").notNull(), // openrouter | local | ...
+    model: text("model").notNull(),
+    promptTokens: integer("prompt_tokens").notNull().default(0),
+    completionTokens: integer("completion_tokens").notNull().default(0),
+    totalTokens: integer("total_tokens").notNull().default(0),
+    costUsd: doublePrecision("cost_usd"), // Reported or estimated; null if unpriced
+    latencyMs: integer("latency_ms").notNull(),
+    success: boolean("success").notNull(),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    agentIdx: index("idx_llm_calls_agent").on(table.agentId, table.createdAt),
+    createdAtIdx: index("idx_llm_calls_created_at").on(table.createdAt),
+  })
+);
+
+/**
+ * Agent Reflections - LLM-written lessons learned, plus memory reset markers
+ */
+export const agentReflections = pgTable(
+  "agent_reflections",
+  {
+    id: serial("id").primaryKey(),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    kind: text("kind").notNull(), // reflection | reset
+    content: text("content"), // Lessons learned (null for resets)
+    cycle: integer("cycle").notNull(), // Agent cycle when written
+    decisionCount: integer("decision_count").notNull().default(0), // Decision logs reflected on
+    provider: text("provider"),
+    model: text("model"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => ({
+    agentIdx: index("idx_agent_reflections_agent").on(table.agentId, table.createdAt),
+  })
+);
+
+/**
+ * Action Outcomes - how each executed action did after the scoring horizon,
+ * versus doing nothing
+ */
+export const actionOutcomes = pgTable(
+  "action_outcomes",
+  {
+    id: serial("id").primaryKey(),
+    decisionLogId: integer("decision_log_id")
+      .notNull()
+      .references(() => decisionLogs.id),
+    actionIndex: integer("action_index").notNull(), // Position in decision_logs.actions
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    actionType: text("action_type").notNull(), // BUY_TOKEN | SELL_TOKEN | BORROW | REPAY
+    source: text("source").notNull(), // llm | rules
+    confidence: doublePrecision("confidence").notNull(), // Action confidence as decided (0-1)
+    tokenAddress: text("token_address").notNull(), // Traded token, or loan collateral token
+    method: text("method").notNull(), // realized | mark
+    entryPrice: text("entry_price").notNull(), // BigInt string (6 decimals)
+    exitPrice: text("exit_price").notNull(), // Price at the horizon, BigInt string (6 decimals)
+    notionalUsdc: text("notional_usdc").notNull(), // BigInt string (6 decimals)
+    outcomeUsdc: text("outcome_usdc").notNull(), // Signed edge vs doing nothing, BigInt string (6 decimals)
+    edgePct: doublePrecision("edge_pct").notNull(), // outcomeUsdc / notionalUsdc * 100
+    hit: boolean("hit").notNull(), // outcomeUsdc > 0
+    decidedAt: bigint("decided_at", { mode: "number" }).notNull(), // Unix ms
+    horizonMs: bigint("horizon_ms", { mode: "number" }).notNull(),
+    scoredAt: bigint("scored_at", { mode: "number" }).notNull(), // Unix ms
+  },
+  (table) => ({
+    agentIdx: index("idx_action_outcomes_agent").on(table.agentId, table.decidedAt),
+    actionIdx: uniqueIndex("idx_action_outcomes_action").on(table.decisionLogId, table.actionIndex),
+  })
+);
+
+/**
+ * Ledger Trades - every live agent buy/sell with fill, quote and (sells) FIFO P&L
+ */
+export const ledgerTrades = pgTable(
+  "ledger_trades",
+  {
+    id: serial("id").primaryKey(),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    tokenAddress: text("token_address").notNull(),
+    tokenName: text("token_name"),
+    side: text("side").notNull(), // buy | sell
+    tokenAmount: text("token_amount").notNull(), // BigInt string (18 decimals)
+    usdcAmount: text("usdc_amount").notNull(), // Spent (buy) or received (sell), BigInt string (6 decimals)
+    quotedAmount: text("quoted_amount"), // Quoted tokens (buy) or USDC (sell) before execution
+    slippageBps: doublePrecision("slippage_bps"), // Shortfall vs quote; negative = better than quoted
+    costBasis: text("cost_basis"), // FIFO cost of lots sold (sells only)
+    realizedPnl: text("realized_pnl"), // usdcAmount - costBasis (sells only)
+    txHash: text("tx_hash"),
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Unix ms
+  },
+  (table) => ({
+    agentIdx: index("idx_ledger_trades_agent").on(table.agentId, table.timestamp),
+  })
+);
+
+/**
+ * Ledger Lots - FIFO tax lots opened by buys (or by positions that predate the ledger)
+ */
+export const ledgerLots = pgTable(
+  "ledger_lots",
+  {
+    id: serial("id").primaryKey(),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    tokenAddress: text("token_address").notNull(),
+    tradeId: integer("trade_id").references(() => ledgerTrades.id), // null for opening lots
+    tokenAmount: text("token_amount").notNull(), // BigInt string (18 decimals)
+    remaining: text("remaining").notNull(), // Tokens not yet sold
+    costUsdc: text("cost_usdc").notNull(), // Cost of the whole lot, BigInt string (6 decimals)
+    openedAt: bigint("opened_at", { mode: "number" }).notNull(), // Unix ms
+    closedAt: bigint("closed_at", { mode: "number" }), // Set when fully sold
+  },
+  (table) => ({
+    agentTokenIdx: index("idx_ledger_lots_agent_token").on(table.agentId, table.tokenAddress, table.openedAt),
+  })
+);
+
+/**
+ * NAV Snapshots - one per agent per UTC day (latest snapshot of the day wins)
+ */
+export const navSnapshots = pgTable(
+  "nav_snapshots",
+  {
+    id: serial("id").primaryKey(),
+    agentId: text("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    day: text("day").notNull(), // YYYY-MM-DD (UTC)
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(), // Unix ms of the state
+    usdcBalance: text("usdc_balance").notNull(), // BigInt strings (6 decimals) from here on
+    holdingsValue: text("holdings_value").notNull(),
+    collateralValue: text("collateral_value").notNull(),
+    ownTokenValue: text("own_token_value").notNull().default("0"),
+    pendingRevenue: text("pending_revenue").notNull().default("0"), // Claimable curve revenue + unsettled streaming
+    loanDebt: text("loan_debt").notNull(),
+    nav: text("nav").notNull(),
+    realizedPnl: text("realized_pnl").notNull(), // Cumulative
+    unrealizedPnl: text("unrealized_pnl").notNull(),
+    streamingRevenue: text("streaming_revenue").notNull().default("0"), // Cumulative creator share
+  },
+  (table) => ({
+    agentDayIdx: uniqueIndex("idx_nav_snapshots_agent_day").on(table.agentId, table.day),
+  })
+);
+
+/**
+ * Chain Checkpoints - last indexed block per contract event stream
+ */
+export const chainCheckpoints = pgTable("chain_checkpoints", {
+  id: text("id").primaryKey(), // e.g. "bonding-curve:0xabc..."
+  chainId: integer("chain_id").notNull(),
+  contractAddress: text("contract_address").notNull(),
+  lastBlock: bigint("last_block", { mode: "number" }).notNull(),
+  lastBlockHash: text("last_block_hash"), // Compared on each poll to detect reorgs
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 /**
  * Video Generations - tracks autonomous video generation lifecycle
  */
@@ -356,15 +953,61 @@ export type DecisionLog = typeof decisionLogs.$inferSelect;
 export type NewDecisionLog = typeof decisionLogs.$inferInsert;
 export type Holding = typeof holdings.$inferSelect;
 export type NewHolding = typeof holdings.$inferInsert;
+export type PaperAccount = typeof paperAccounts.$inferSelect;
+export type NewPaperAccount = typeof paperAccounts.$inferInsert;
+export type PaperHolding = typeof paperHoldings.$inferSelect;
+export type NewPaperHolding = typeof paperHoldings.$inferInsert;
 export type CircleWallet = typeof circleWallets.$inferSelect;
 export type NewCircleWallet = typeof circleWallets.$inferInsert;
+export type Creator = typeof creators.$inferSelect;
+export type NewCreator = typeof creators.$inferInsert;
+export type CreatorSession = typeof creatorSessions.$inferSelect;
+export type NewCreatorSession = typeof creatorSessions.$inferInsert;
+export type AuthNonce = typeof authNonces.$inferSelect;
+export type NewAuthNonce = typeof authNonces.$inferInsert;
 export type Video = typeof videos.$inferSelect;
 export type NewVideo = typeof videos.$inferInsert;
+export type VideoUpload = typeof videoUploads.$inferSelect;
+export type NewVideoUpload = typeof videoUploads.$inferInsert;
+export type VideoJob = typeof videoJobs.$inferSelect;
+export type NewVideoJob = typeof videoJobs.$inferInsert;
 export type ViewerSession = typeof viewerSessions.$inferSelect;
 export type NewViewerSession = typeof viewerSessions.$inferInsert;
+export type TokenGatePass = typeof tokenGatePasses.$inferSelect;
+export type NewTokenGatePass = typeof tokenGatePasses.$inferInsert;
+export type LiveStream = typeof liveStreams.$inferSelect;
+export type NewLiveStream = typeof liveStreams.$inferInsert;
+export type LiveSegment = typeof liveSegments.$inferSelect;
+export type NewLiveSegment = typeof liveSegments.$inferInsert;
+export type LiveMerkleWindow = typeof liveMerkleWindows.$inferSelect;
+export type NewLiveMerkleWindow = typeof liveMerkleWindows.$inferInsert;
 export type YellowSession = typeof yellowSessions.$inferSelect;
 export type NewYellowSession = typeof yellowSessions.$inferInsert;
+export type SettlementJob = typeof settlementJobs.$inferSelect;
+export type NewSettlementJob = typeof settlementJobs.$inferInsert;
 export type Trade = typeof trades.$inferSelect;
 export type NewTrade = typeof trades.$inferInsert;
+export type RevenueEvent = typeof revenueEvents.$inferSelect;
+export type NewRevenueEvent = typeof revenueEvents.$inferInsert;
+export type LendingEvent = typeof lendingEvents.$inferSelect;
+export type NewLendingEvent = typeof lendingEvents.$inferInsert;
+export type VideoRegistryEvent = typeof videoRegistryEvents.$inferSelect;
+export type NewVideoRegistryEvent = typeof videoRegistryEvents.$inferInsert;
+export type LiquidationAttempt = typeof liquidationAttempts.$inferSelect;
+export type NewLiquidationAttempt = typeof liquidationAttempts.$inferInsert;
+export type LlmCall = typeof llmCalls.$inferSelect;
+export type NewLlmCall = typeof llmCalls.$inferInsert;
+export type LedgerTrade = typeof ledgerTrades.$inferSelect;
+export type NewLedgerTrade = typeof ledgerTrades.$inferInsert;
+export type LedgerLot = typeof ledgerLots.$inferSelect;
+export type NewLedgerLot = typeof ledgerLots.$inferInsert;
+export type NavSnapshot = typeof navSnapshots.$inferSelect;
+export type NewNavSnapshot = typeof navSnapshots.$inferInsert;
+export type ActionOutcome = typeof actionOutcomes.$inferSelect;
+export type NewActionOutcome = typeof actionOutcomes.$inferInsert;
+export type AgentReflection = typeof agentReflections.$inferSelect;
+export type NewAgentReflection = typeof agentReflections.$inferInsert;
+export type ChainCheckpoint = typeof chainCheckpoints.$inferSelect;
+export type NewChainCheckpoint = typeof chainCheckpoints.$inferInsert;
 export type VideoGeneration = typeof videoGenerations.$inferSelect;
 export type NewVideoGeneration = typeof videoGenerations.$inferInsert;
@@ -15,26 +15,46 @@ import { logger as honoLogger } from "hono/logger";
 import { env } from "./utils/env";
 import { logger } from "./utils/logger";
 import { initializeDatabase, closeDatabase } from "./db/client";
-import { healthRoutes, agentRoutes, agentsWebsocket, videoRoutes, streamingRoutes, authRoutes, tradingRoutes, scheduleRoutes } from "./api/routes";
-import { createAllAgentConfigs, startAllAgents, stopAllAgents } from "./agents";
+import { healthRoutes, agentRoutes, agentsWebsocket, videoRoutes, streamingRoutes, authRoutes, tradingRoutes, scheduleRoutes, adminRoutes, storageRoutes, lendingRoutes, leaderboardRoutes, creatorRoutes, liveRoutes } from "./api/routes";
+import {
+  createAllAgentConfigs,
+  getBuiltinAgentConfigs,
+  startAllAgents,
+  stopAllAgents,
+  loadStrategyModules,
+} from "./agents";
 import { startVideoScheduler, stopVideoScheduler } from "./agents/content";
 import { seedAgents, initializeAgentWallets } from "./agents/init";
+import { loadAgentRoster, startRosterWatcher, stopRosterWatcher } from "./agents/roster";
+import { watchCreatorFactory } from "./integrations/chain/events";
+import {
+  ensureBondingCurveIndexed,
+  stopBondingCurveIndexers,
+} from "./integrations/chain/bonding-curve-indexer";
+import { indexLendingPool } from "./integrations/chain/lending-indexer";
 import {
-  watchBondingCurveEvents,
-  watchCreatorFactory,
-} from "./integrations/chain/events";
+  indexVideoRegistry,
+  isVideoRegistryIndexable,
+} from "./integrations/chain/video-registry-indexer";
 import {
   isYellowConfigured,
   getYellowClient,
   disconnectYellow,
+  rehydrateSessions,
+  reconcileSessions,
+  startSettlementWorker,
+  stopSettlementWorker,
 } from "./integrations/yellow";
 import {
   isNitroliteConfigured,
   getNitroliteClient,
 } from "./integrations/nitrolite";
-import type { Address } from "viem";
-import { db } from "./db/client";
-import { trades } from "./db/schema";
+import { isKeeperConfigured, startLiquidationKeeper, stopLiquidationKeeper } from "./keeper";
+import { startOutcomeScorer, stopOutcomeScorer } from "./agents/evaluation";
+import { startNavSnapshots, stopNavSnapshots } from "./agents/leaderboard";
+import { startVideoJobWorker, stopVideoJobWorker } from "./uploads";
+import { recoverLiveStreams, stopAllLiveStreams } from "./live";
+import { indexCreatorCurves } from "./creators";
 
 // Create Hono app
 const app = new Hono();
@@ -42,8 +62,18 @@ const app = new Hono();
 // Middleware
 app.use("*", cors({
   origin: env.FRONTEND_URL || "*",
-  allowMethods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-  allowHeaders: ["Content-Type", "Authorization", "X-Yellow-Session"],
+  allowMethods: ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+  allowHeaders: [
+    "Content-Type",
+    "Authorization",
+    "X-Yellow-Session",
+    // Resumable uploads
+    "Tus-Resumable",
+    "Upload-Length",
+    "Upload-Offset",
+    "Upload-Metadata",
+  ],
+  exposeHeaders: ["Location", "Tus-Resumable", "Upload-Offset", "Upload-Length"],
 }));
 
 app.use("*", honoLogger());
@@ -55,7 +85,13 @@ app.route("/api/videos", videoRoutes);
 app.route("/api/videos", streamingRoutes);
 app.route("/api/auth", authRoutes);
 app.route("/api/trading", tradingRoutes);
+app.route("/api/lending", lendingRoutes);
+app.route("/api/leaderboard", leaderboardRoutes);
 app.route("/api/agents", scheduleRoutes);
+app.route("/api/admin", adminRoutes);
+app.route("/api/creators", creatorRoutes);
+app.route("/api/live", liveRoutes);
+app.route("/storage", storageRoutes);
 
 // Root endpoint
 app.get("/", (c) => {
@@ -66,20 +102,47 @@ app.get("/", (c) => {
     endpoints: {
       health: "/health",
       agents: "/api/agents",
+      strategies: "/api/agents/strategies",
       agentDetail: "/api/agents/:id",
       decisions: "/api/agents/:id/decisions",
       recentDecisions: "/api/agents/:id/decisions/recent",
+      backtest: "/api/agents/:id/backtest",
+      memory: "/api/agents/:id/memory",
+      performance: "/api/agents/:id/performance",
+      ledger: "/api/agents/:id/ledger",
       websocket: "/api/agents/:id/ws",
       videos: "/api/videos",
       videoUpload: "/api/videos/upload",
+      resumableUpload: "/api/videos/uploads",
+      resumableUploadChunk: "/api/videos/uploads/:uploadId",
+      videoStatus: "/api/videos/:id/status",
+      videoRetry: "/api/videos/:id/retry",
+      videoManage: "/api/videos/:id",
       videoStream: "/api/videos/:videoId/master.m3u8",
       videoKey: "/api/videos/:videoId/key/:segment",
+      videoOnchainEvents: "/api/videos/:id/onchain-events",
+      tokenRevenue: "/api/trading/revenue/:tokenAddress",
+      lendingEvents: "/api/lending/events",
+      leaderboard: "/api/leaderboard",
+      localStorage: "/storage/*",
       videoSession: "/api/videos/:videoId/session",
       sessionClose: "/api/videos/:videoId/session/:sessionId/close",
       sessionStatus: "/api/videos/:videoId/session/:sessionId/status",
       agentSchedule: "/api/agents/:id/schedule",
       allSchedules: "/api/agents/schedules",
       forceGenerate: "/api/agents/:id/generate",
+      adminProvisionAgent: "/api/admin/agents",
+      adminDeactivateAgent: "/api/admin/agents/:id/deactivate",
+      adminExecutionMode: "/api/admin/agents/:id/execution-mode",
+      adminSettlements: "/api/admin/settlements",
+      adminRetrySettlement: "/api/admin/settlements/:sessionId/retry",
+      adminLiquidations: "/api/admin/liquidations",
+      creatorNonce: "/api/creators/auth/nonce",
+      creatorVerify: "/api/creators/auth/verify",
+      creatorLogout: "/api/creators/auth/logout",
+      creatorProfile: "/api/creators/me",
+      creatorToken: "/api/creators/me/token",
+      creatorDashboard: "/api/creators/me/dashboard",
     },
   });
 });
@@ -102,12 +165,23 @@ const eventUnwatchers: Array<() => void> = [];
 function setupShutdownHandler() {
   const shutdown = async () => {
     logger.info("Shutdown signal received, stopping agents...");
+    stopRosterWatcher();
+    stopSettlementWorker();
+    stopLiquidationKeeper();
+    stopOutcomeScorer();
+    stopNavSnapshots();
+    stopVideoJobWorker();
+    // Publish and finalize live streams before the DB closes
+    await stopAllLiveStreams().catch((err) => {
+      logger.error({ err }, "Failed to stop live streams");
+    });
     stopVideoScheduler();
     stopAllAgents();
     // Stop event watchers
     for (const unwatch of eventUnwatchers) {
       unwatch();
     }
+    stopBondingCurveIndexers();
     // Disconnect Yellow Network
     disconnectYellow();
     // Close database connection pool
@@ -130,6 +204,18 @@ async function main() {
   // Set up shutdown handler
   setupShutdownHandler();
 
+  // Register external strategies before any config resolves its strategy
+  if (env.STRATEGY_MODULES) {
+    await loadStrategyModules(
+      env.STRATEGY_MODULES.split(",").map((p) => p.trim()).filter(Boolean)
+    );
+  }
+
+  // Seed built-in agent records in DB (required for circle_wallets FK constraint),
+  // then load the full roster from the agents table
+  await seedAgents(getBuiltinAgentConfigs());
+  await loadAgentRoster();
+
   // Create and start agents
   const agentConfigs = createAllAgentConfigs();
   logger.info(
@@ -137,9 +223,6 @@ async function main() {
     "Agent configurations loaded"
   );
 
-  // Seed agent records in DB (required for circle_wallets FK constraint)
-  await seedAgents(agentConfigs);
-
   // Initialize Circle wallets for agents
   const agentWallets = await initializeAgentWallets(agentConfigs);
   logger.info(
@@ -166,12 +249,23 @@ async function main() {
 
   // Initialize Yellow Network if configured
   if (isYellowConfigured()) {
+    // Restore viewer sessions that were open when the server last stopped
+    try {
+      await rehydrateSessions();
+    } catch (err) {
+      logger.error({ err }, "Failed to rehydrate Yellow sessions");
+    }
+
     try {
       await getYellowClient();
       logger.info("Yellow Network ClearNode connected and authenticated");
+      await reconcileSessions();
     } catch (err) {
       logger.warn({ err }, "Yellow Network initialization failed (non-fatal, will retry on first use)");
     }
+
+    // Retry settlement steps left pending or failed by earlier session closes
+    startSettlementWorker();
   } else {
     logger.info("Yellow Network not configured, using legacy bearer auth for streaming");
   }
@@ -204,64 +298,46 @@ async function main() {
   await startVideoScheduler(agentConfigs);
   logger.info("Video generation scheduler started");
 
-  // Start on-chain event watchers for each agent's bonding curve
+  // Pick up agents added to (or deactivated in) the agents table without a restart
+  startRosterWatcher();
+
+  // Score executed actions once they are older than the outcome horizon
+  startOutcomeScorer();
+
+  // Value every agent for the leaderboard (one NAV snapshot per agent per day)
+  startNavSnapshots();
+
+  // Process uploaded videos (resumes stages interrupted by the last shutdown)
+  startVideoJobWorker();
+
+  // Live streams don't survive a restart; finish the ones left running as VODs
+  recoverLiveStreams().catch((err) => {
+    logger.error({ err }, "Failed to recover interrupted live streams");
+  });
+
+  // Index each agent's and creator's bonding curve trades and revenue from its
+  // persisted checkpoint (curves added later are picked up by the roster sync
+  // and creator token deployment)
   for (const config of agentConfigs) {
-    const unwatch = watchBondingCurveEvents(
-      config.bondingCurveAddress as Address,
-      {
-        onPurchase: async (event, log) => {
-          logger.info(
-            { agentId: config.id, buyer: event.buyer, usdcIn: event.usdcIn.toString() },
-            "Token purchase detected on agent's bonding curve"
-          );
-          try {
-            await db.insert(trades).values({
-              tokenAddress: config.tokenAddress,
-              bondingCurveAddress: config.bondingCurveAddress,
-              side: "buy",
-              trader: event.buyer,
-              usdcAmount: event.usdcIn.toString(),
-              tokenAmount: event.tokensOut.toString(),
-              price: event.newPrice.toString(),
-              txHash: log.transactionHash ?? null,
-              blockNumber: Number(log.blockNumber ?? 0),
-              timestamp: Date.now(),
-            });
-          } catch (err) {
-            logger.warn({ err }, "Failed to persist trade event");
-          }
-        },
-        onSale: async (event, log) => {
-          logger.info(
-            { agentId: config.id, seller: event.seller, usdcOut: event.usdcOut.toString() },
-            "Token sale detected on agent's bonding curve"
-          );
-          try {
-            await db.insert(trades).values({
-              tokenAddress: config.tokenAddress,
-              bondingCurveAddress: config.bondingCurveAddress,
-              side: "sell",
-              trader: event.seller,
-              usdcAmount: event.usdcOut.toString(),
-              tokenAmount: event.tokensIn.toString(),
-              price: event.newPrice.toString(),
-              txHash: log.transactionHash ?? null,
-              blockNumber: Number(log.blockNumber ?? 0),
-              timestamp: Date.now(),
-            });
-          } catch (err) {
-            logger.warn({ err }, "Failed to persist trade event");
-          }
-        },
-        onRevenueClaimed: (event) => {
-          logger.info(
-            { agentId: config.id, user: event.user, amount: event.amount.toString() },
-            "Revenue claimed on agent's bonding curve"
-          );
-        },
-      }
-    );
-    eventUnwatchers.push(unwatch);
+    ensureBondingCurveIndexed({
+      tokenAddress: config.tokenAddress,
+      bondingCurveAddress: config.bondingCurveAddress,
+      agentId: config.id,
+    });
+  }
+  indexCreatorCurves().catch((err) => {
+    logger.error({ err }, "Failed to start creator bonding curve indexers");
+  });
+
+  // Index LendingPool and (when deployed) Base Sepolia VideoRegistry events
+  eventUnwatchers.push(indexLendingPool());
+  if (isVideoRegistryIndexable()) {
+    eventUnwatchers.push(indexVideoRegistry());
+  }
+
+  // Liquidate unhealthy LendingPool positions when a keeper signer is configured
+  if (isKeeperConfigured()) {
+    startLiquidationKeeper();
   }
 
   // Watch for new creator deployments
@@ -75,6 +75,13 @@ export const bondingCurveAbi = [
     inputs: [],
     outputs: [{ type: "uint256" }],
   },
+  {
+    name: "steepness",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ type: "uint256" }],
+  },
   {
     name: "revenuePerTokenStored",
     type: "function",
@@ -260,9 +267,75 @@ export const lendingPoolAbi = [
     inputs: [{ name: "amount", type: "uint256" }],
     outputs: [],
   },
+  {
+    name: "liquidate",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "borrower", type: "address" }],
+    outputs: [],
+  },
+  // Events
+  {
+    name: "CollateralDeposited",
+    type: "event",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "CollateralWithdrawn",
+    type: "event",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "token", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "Borrowed",
+    type: "event",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "Repaid",
+    type: "event",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "Liquidated",
+    type: "event",
+    inputs: [
+      { name: "borrower", type: "address", indexed: true },
+      { name: "liquidator", type: "address", indexed: true },
+      { name: "collateralSeized", type: "uint256", indexed: false },
+      { name: "debtRepaid", type: "uint256", indexed: false },
+    ],
+  },
 ] as const;
 
 export const creatorFactoryAbi = [
+  {
+    name: "createCreator",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "name", type: "string" },
+      { name: "symbol", type: "string" },
+      { name: "wallet", type: "address" },
+    ],
+    outputs: [
+      { name: "token", type: "address" },
+      { name: "bondingCurve", type: "address" },
+    ],
+  },
   {
     name: "getCreator",
     type: "function",
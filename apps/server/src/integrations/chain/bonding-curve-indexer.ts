@@ -0,0 +1,124 @@
+/**
+ * Bonding Curve Indexer
+ *
+ * Persists TokensPurchased / TokensSold events into trades and
+ * RevenueAdded / RevenueClaimed into revenue_events via the checkpointed
+ * chain indexer.
+ */
+
+import type { Abi, Address } from "viem";
+import { and, eq, gt } from "drizzle-orm";
+import { db } from "../../db/client";
+import {
+  trades,
+  revenueEvents,
+  type NewTrade,
+  type NewRevenueEvent,
+} from "../../db/schema";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { getPublicClient } from "./client";
+import { bondingCurveAbi } from "./abis";
+import { startContractIndexer } from "./indexer";
+import { toTradeRow, toRevenueEventRow } from "./event-rows";
+
+export interface IndexedCurve {
+  tokenAddress: string;
+  bondingCurveAddress: string;
+  /** Owning agent or creator, for log context */
+  agentId?: string;
+  creatorId?: string;
+}
+
+/** Stop functions of curves started through ensureBondingCurveIndexed, by curve address */
+const indexedCurves = new Map<string, () => void>();
+
+/**
+ * Index a bonding curve's trades and revenue events from its checkpoint
+ * (or INDEXER_START_BLOCK). Returns a stop function.
+ */
+export function indexBondingCurve(curve: IndexedCurve): () => void {
+  const address = curve.bondingCurveAddress as Address;
+
+  return startContractIndexer({
+    id: `bonding-curve:${address.toLowerCase()}`,
+    client: getPublicClient(),
+    address,
+    abi: bondingCurveAbi as Abi,
+    eventNames: ["TokensPurchased", "TokensSold", "RevenueAdded", "RevenueClaimed"],
+    deploymentBlock:
+      env.INDEXER_START_BLOCK !== undefined ? BigInt(env.INDEXER_START_BLOCK) : null,
+    onLogs: async (logs) => {
+      const tradeRows = logs
+        .map((log) => toTradeRow(curve, log))
+        .filter((row): row is NewTrade => row !== null);
+      const revenueRows = logs
+        .map((log) => toRevenueEventRow(curve, log))
+        .filter((row): row is NewRevenueEvent => row !== null);
+
+      if (tradeRows.length > 0) {
+        await db
+          .insert(trades)
+          .values(tradeRows)
+          .onConflictDoNothing({ target: [trades.txHash, trades.logIndex] });
+      }
+      if (revenueRows.length > 0) {
+        await db
+          .insert(revenueEvents)
+          .values(revenueRows)
+          .onConflictDoNothing({ target: [revenueEvents.txHash, revenueEvents.logIndex] });
+      }
+
+      for (const row of tradeRows) {
+        logger.info(
+          { agentId: curve.agentId, creatorId: curve.creatorId, side: row.side, trader: row.trader, usdc: row.usdcAmount, block: row.blockNumber },
+          "Indexed bonding curve trade"
+        );
+      }
+      for (const row of revenueRows) {
+        logger.info(
+          { agentId: curve.agentId, creatorId: curve.creatorId, kind: row.kind, user: row.user, amount: row.amount, block: row.blockNumber },
+          "Indexed bonding curve revenue event"
+        );
+      }
+    },
+    onRollback: async (afterBlock) => {
+      await db
+        .delete(trades)
+        .where(
+          and(
+            eq(trades.bondingCurveAddress, curve.bondingCurveAddress),
+            gt(trades.blockNumber, Number(afterBlock))
+          )
+        );
+      await db
+        .delete(revenueEvents)
+        .where(
+          and(
+            eq(revenueEvents.bondingCurveAddress, curve.bondingCurveAddress),
+            gt(revenueEvents.blockNumber, Number(afterBlock))
+          )
+        );
+    },
+  });
+}
+
+/**
+ * Index a curve unless it is already being indexed. Used at startup and
+ * whenever an agent joins the roster or a creator deploys a token.
+ */
+export function ensureBondingCurveIndexed(curve: IndexedCurve): void {
+  const key = curve.bondingCurveAddress.toLowerCase();
+  if (indexedCurves.has(key)) return;
+  indexedCurves.set(key, indexBondingCurve(curve));
+}
+
+/**
+ * Stop every curve indexer started through ensureBondingCurveIndexed
+ */
+export function stopBondingCurveIndexers(): void {
+  for (const stop of indexedCurves.values()) {
+    stop();
+  }
+  indexedCurves.clear();
+}
@@ -0,0 +1,68 @@
+/**
+ * CreatorFactory Integration
+ *
+ * Deploys a creator's token and bonding curve via
+ * CreatorFactory.createCreator, paid for by DEPLOYER_PRIVATE_KEY. Used for
+ * provisioned agents and for human creators.
+ */
+
+import type { Address } from "viem";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { getPublicClient, createAgentWalletClient } from "./client";
+import { addresses, getCreatorFactory } from "./contracts";
+import { creatorFactoryAbi } from "./abis";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Whether a deployer key is set to pay for createCreator
+ */
+export function isCreatorDeploymentConfigured(): boolean {
+  return !!env.DEPLOYER_PRIVATE_KEY;
+}
+
+/**
+ * Deploy (or look up) the creator token and bonding curve for a wallet
+ */
+export async function ensureCreator(
+  wallet: Address,
+  tokenName: string,
+  tokenSymbol: string
+): Promise<{ tokenAddress: Address; bondingCurveAddress: Address }> {
+  const factory = getCreatorFactory();
+
+  const readCreator = async () => {
+    const info = (await factory.read.getCreator([wallet])) as unknown as [
+      Address,
+      Address,
+      Address,
+      bigint,
+    ];
+    return { tokenAddress: info[0], bondingCurveAddress: info[1] };
+  };
+
+  // A previous attempt may have deployed already (factory reverts on duplicates)
+  const existing = await readCreator();
+  if (existing.tokenAddress !== ZERO_ADDRESS) {
+    logger.info({ wallet, ...existing }, "Creator already deployed, reusing");
+    return existing;
+  }
+
+  const walletClient = createAgentWalletClient(env.DEPLOYER_PRIVATE_KEY as `0x${string}`);
+  const txHash = await walletClient.writeContract({
+    address: addresses.creatorFactory,
+    abi: creatorFactoryAbi,
+    functionName: "createCreator",
+    args: [tokenName, tokenSymbol, wallet],
+  });
+
+  logger.info({ wallet, txHash }, "createCreator submitted");
+
+  const receipt = await getPublicClient().waitForTransactionReceipt({ hash: txHash });
+  if (receipt.status !== "success") {
+    throw new Error(`createCreator reverted: ${txHash}`);
+  }
+
+  return readCreator();
+}
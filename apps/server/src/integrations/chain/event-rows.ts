@@ -0,0 +1,193 @@
+/**
+ * Indexed Event Rows
+ *
+ * Maps decoded contract logs to rows for the trades, revenue_events,
+ * lending_events and video_registry_events tables. Unknown events map to null.
+ */
+
+import type { Address, Hex } from "viem";
+import type {
+  NewTrade,
+  NewRevenueEvent,
+  NewLendingEvent,
+  NewVideoRegistryEvent,
+} from "../../db/schema";
+import type { IndexedLog } from "./indexer";
+
+export interface CurveRef {
+  tokenAddress: string;
+  bondingCurveAddress: string;
+}
+
+function position(log: IndexedLog) {
+  return {
+    txHash: log.txHash,
+    logIndex: log.logIndex,
+    blockNumber: log.blockNumber,
+    timestamp: log.timestamp,
+  };
+}
+
+// ─── Bonding Curve ───────────────────────────────────────────────────
+
+export function toTradeRow(curve: CurveRef, log: IndexedLog): NewTrade | null {
+  const base = {
+    tokenAddress: curve.tokenAddress,
+    bondingCurveAddress: curve.bondingCurveAddress,
+    ...position(log),
+  };
+
+  switch (log.eventName) {
+    case "TokensPurchased": {
+      const args = log.args as { buyer: Address; usdcIn: bigint; tokensOut: bigint; newPrice: bigint };
+      return {
+        ...base,
+        side: "buy",
+        trader: args.buyer,
+        usdcAmount: args.usdcIn.toString(),
+        tokenAmount: args.tokensOut.toString(),
+        price: args.newPrice.toString(),
+      };
+    }
+    case "TokensSold": {
+      const args = log.args as { seller: Address; tokensIn: bigint; usdcOut: bigint; newPrice: bigint };
+      return {
+        ...base,
+        side: "sell",
+        trader: args.seller,
+        usdcAmount: args.usdcOut.toString(),
+        tokenAmount: args.tokensIn.toString(),
+        price: args.newPrice.toString(),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+export function toRevenueEventRow(curve: CurveRef, log: IndexedLog): NewRevenueEvent | null {
+  const base = {
+    tokenAddress: curve.tokenAddress,
+    bondingCurveAddress: curve.bondingCurveAddress,
+    ...position(log),
+  };
+
+  switch (log.eventName) {
+    case "RevenueAdded": {
+      const args = log.args as { amount: bigint; newRevenuePerToken: bigint };
+      return {
+        ...base,
+        kind: "added",
+        amount: args.amount.toString(),
+        revenuePerToken: args.newRevenuePerToken.toString(),
+      };
+    }
+    case "RevenueClaimed": {
+      const args = log.args as { user: Address; amount: bigint };
+      return {
+        ...base,
+        kind: "claimed",
+        user: args.user,
+        amount: args.amount.toString(),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ─── Lending Pool ────────────────────────────────────────────────────
+
+export function toLendingEventRow(poolAddress: string, log: IndexedLog): NewLendingEvent | null {
+  const base = { poolAddress, ...position(log) };
+
+  switch (log.eventName) {
+    case "CollateralDeposited":
+    case "CollateralWithdrawn": {
+      const args = log.args as { borrower: Address; token: Address; amount: bigint };
+      return {
+        ...base,
+        kind: log.eventName === "CollateralDeposited" ? "deposit" : "withdraw",
+        borrower: args.borrower,
+        token: args.token,
+        amount: args.amount.toString(),
+      };
+    }
+    case "Borrowed":
+    case "Repaid": {
+      const args = log.args as { borrower: Address; amount: bigint };
+      return {
+        ...base,
+        kind: log.eventName === "Borrowed" ? "borrow" : "repay",
+        borrower: args.borrower,
+        amount: args.amount.toString(),
+      };
+    }
+    case "Liquidated": {
+      const args = log.args as {
+        borrower: Address;
+        liquidator: Address;
+        collateralSeized: bigint;
+        debtRepaid: bigint;
+      };
+      return {
+        ...base,
+        kind: "liquidation",
+        borrower: args.borrower,
+        liquidator: args.liquidator,
+        amount: args.debtRepaid.toString(),
+        collateralSeized: args.collateralSeized.toString(),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// ─── Video Registry ──────────────────────────────────────────────────
+
+export function toVideoRegistryEventRow(
+  registryAddress: string,
+  log: IndexedLog
+): NewVideoRegistryEvent | null {
+  const base = { registryAddress, ...position(log) };
+
+  switch (log.eventName) {
+    case "VideoRegistered": {
+      const args = log.args as {
+        videoIdHash: Hex;
+        merkleRoot: Hex;
+        creator: Address;
+        totalSegments: bigint;
+      };
+      return {
+        ...base,
+        kind: "registered",
+        videoIdHash: args.videoIdHash,
+        creator: args.creator,
+        merkleRoot: args.merkleRoot,
+        totalSegments: Number(args.totalSegments),
+      };
+    }
+    case "SettlementRecorded": {
+      const args = log.args as {
+        videoIdHash: Hex;
+        viewer: Address;
+        segmentsWatched: bigint;
+        totalPaid: bigint;
+        yellowSessionId: string;
+      };
+      return {
+        ...base,
+        kind: "settlement",
+        videoIdHash: args.videoIdHash,
+        viewer: args.viewer,
+        segmentsWatched: Number(args.segmentsWatched),
+        totalPaid: args.totalPaid.toString(),
+        yellowSessionId: args.yellowSessionId,
+      };
+    }
+    default:
+      return null;
+  }
+}
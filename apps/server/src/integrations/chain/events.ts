@@ -21,7 +21,7 @@ import { logger } from "../../utils/logger";
 const lastErrorByKey = new Map<string, number>();
 const ERROR_COOLDOWN_MS = 60_000; // Only log same error once per minute
 
-function shouldLogError(key: string): boolean {
+export function shouldLogError(key: string): boolean {
   const now = Date.now();
   const lastTime = lastErrorByKey.get(key);
   if (lastTime && now - lastTime < ERROR_COOLDOWN_MS) {
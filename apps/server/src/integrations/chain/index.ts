@@ -27,11 +27,31 @@ export {
   revenueDistributorAbi,
   erc20Abi,
 } from "./abis";
+export { ensureCreator, isCreatorDeploymentConfigured } from "./creator-factory";
 export {
   watchBondingCurveEvents,
   watchCreatorFactory,
   watchMultipleBondingCurves,
 } from "./events";
+export {
+  startContractIndexer,
+  type ContractIndexerOptions,
+  type IndexedLog,
+} from "./indexer";
+export {
+  indexBondingCurve,
+  ensureBondingCurveIndexed,
+  stopBondingCurveIndexers,
+  type IndexedCurve,
+} from "./bonding-curve-indexer";
+export { indexLendingPool } from "./lending-indexer";
+export { indexVideoRegistry, isVideoRegistryIndexable } from "./video-registry-indexer";
+export {
+  planBlockRanges,
+  resolveStartBlock,
+  rollbackTarget,
+  type BlockRange,
+} from "./indexer-plan";
 export type {
   TokensPurchasedEvent,
   TokensSoldEvent,
@@ -0,0 +1,65 @@
+/**
+ * Chain Indexer Plan
+ *
+ * Pure rules for the checkpointed indexer: where a stream starts, how a
+ * block range is split into bounded eth_getLogs calls, and how far to
+ * rewind when a reorg is detected.
+ */
+
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * Last block considered indexed for a stream: the persisted checkpoint,
+ * else the block before the configured deployment block, else the current
+ * head (no backfill).
+ */
+export function resolveStartBlock(
+  checkpoint: bigint | null,
+  deploymentBlock: bigint | null,
+  head: bigint,
+): bigint {
+  if (checkpoint !== null) {
+    return checkpoint;
+  }
+  if (deploymentBlock !== null) {
+    return deploymentBlock > 0n ? deploymentBlock - 1n : 0n;
+  }
+  return head;
+}
+
+/**
+ * Split (lastBlock, head] into ranges of at most batchSize blocks
+ */
+export function planBlockRanges(
+  lastBlock: bigint,
+  head: bigint,
+  batchSize: number,
+): BlockRange[] {
+  if (batchSize < 1) {
+    throw new Error(`Invalid indexer batch size: ${batchSize}`);
+  }
+
+  const ranges: BlockRange[] = [];
+  const size = BigInt(batchSize);
+  for (let from = lastBlock + 1n; from <= head; from += size) {
+    const to = from + size - 1n;
+    ranges.push({ fromBlock: from, toBlock: to < head ? to : head });
+  }
+  return ranges;
+}
+
+/**
+ * Block to rewind the checkpoint to after a reorg: depth blocks back,
+ * never before the stream's first block.
+ */
+export function rollbackTarget(
+  lastBlock: bigint,
+  depth: number,
+  floor: bigint,
+): bigint {
+  const target = lastBlock - BigInt(depth);
+  return target > floor ? target : floor;
+}
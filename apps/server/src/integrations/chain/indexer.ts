@@ -0,0 +1,222 @@
+/**
+ * Checkpointed Chain Indexer
+ *
+ * Polls a contract's events with bounded eth_getLogs ranges and persists a
+ * block checkpoint per stream, so events emitted while the server is down
+ * are picked up on the next boot. Each log is stamped with its block time.
+ *
+ * Reorgs are detected by comparing the checkpointed block hash with the
+ * chain on every poll; on mismatch the stream's rows past the rollback
+ * target are deleted and those blocks are re-indexed. Handlers must be
+ * idempotent (dedup by txHash + logIndex) since a crash between writing
+ * rows and saving the checkpoint replays the last range.
+ */
+
+import type { Abi, Address, PublicClient } from "viem";
+import { eq } from "drizzle-orm";
+import { db } from "../../db/client";
+import { chainCheckpoints } from "../../db/schema";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { shouldLogError } from "./events";
+import { planBlockRanges, resolveStartBlock, rollbackTarget } from "./indexer-plan";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** A decoded log with its position and block time */
+export interface IndexedLog {
+  eventName: string;
+  args: Record<string, unknown>;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  /** Block timestamp, Unix ms */
+  timestamp: number;
+}
+
+export interface ContractIndexerOptions {
+  /** Checkpoint key, unique per stream (e.g. "bonding-curve:0xabc...") */
+  id: string;
+  client: PublicClient;
+  address: Address;
+  abi: Abi;
+  eventNames: string[];
+  /** Block the contract was deployed at; null starts at the current head */
+  deploymentBlock?: bigint | null;
+  /** Persist a batch of logs (ordered by block, then log index) */
+  onLogs: (logs: IndexedLog[]) => Promise<void>;
+  /** Delete everything this stream indexed after the given block */
+  onRollback: (afterBlock: bigint) => Promise<void>;
+}
+
+// ─── Checkpoints ─────────────────────────────────────────────────────
+
+async function loadCheckpoint(
+  id: string
+): Promise<{ lastBlock: bigint; lastBlockHash: string | null } | null> {
+  const rows = await db
+    .select()
+    .from(chainCheckpoints)
+    .where(eq(chainCheckpoints.id, id))
+    .limit(1);
+  if (rows.length === 0) return null;
+  return { lastBlock: BigInt(rows[0].lastBlock), lastBlockHash: rows[0].lastBlockHash };
+}
+
+async function saveCheckpoint(
+  options: ContractIndexerOptions,
+  lastBlock: bigint,
+  lastBlockHash: string | null
+): Promise<void> {
+  const values = {
+    id: options.id,
+    chainId: options.client.chain?.id ?? 0,
+    contractAddress: options.address.toLowerCase(),
+    lastBlock: Number(lastBlock),
+    lastBlockHash,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(chainCheckpoints)
+    .values(values)
+    .onConflictDoUpdate({
+      target: chainCheckpoints.id,
+      set: { lastBlock: values.lastBlock, lastBlockHash, updatedAt: values.updatedAt },
+    });
+}
+
+// ─── Indexer ─────────────────────────────────────────────────────────
+
+async function getBlockHash(client: PublicClient, blockNumber: bigint): Promise<string | null> {
+  const block = await client.getBlock({ blockNumber });
+  return block.hash ?? null;
+}
+
+/**
+ * Start indexing a contract's events from its checkpoint.
+ * Returns a stop function.
+ */
+export function startContractIndexer(options: ContractIndexerOptions): () => void {
+  const { id, client, address, abi, eventNames, onLogs, onRollback } = options;
+  const deploymentBlock = options.deploymentBlock ?? null;
+  const floor = deploymentBlock !== null && deploymentBlock > 0n ? deploymentBlock - 1n : 0n;
+  const wanted = new Set(eventNames);
+
+  let lastBlock: bigint | null = null;
+  let lastBlockHash: string | null = null;
+  let stopped = false;
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  async function init(head: bigint): Promise<void> {
+    const checkpoint = await loadCheckpoint(id);
+    lastBlock = resolveStartBlock(checkpoint?.lastBlock ?? null, deploymentBlock, head);
+    lastBlockHash = checkpoint?.lastBlockHash ?? null;
+
+    if (!checkpoint) {
+      lastBlockHash = await getBlockHash(client, lastBlock);
+      await saveCheckpoint(options, lastBlock, lastBlockHash);
+    }
+
+    logger.info(
+      { indexer: id, fromBlock: lastBlock.toString(), head: head.toString(), resumed: !!checkpoint },
+      "Chain indexer started"
+    );
+  }
+
+  async function checkReorg(): Promise<void> {
+    if (lastBlock === null || lastBlockHash === null) return;
+
+    const canonical = await getBlockHash(client, lastBlock);
+    if (canonical === lastBlockHash) return;
+
+    const target = rollbackTarget(lastBlock, env.INDEXER_REORG_DEPTH, floor);
+    logger.warn(
+      { indexer: id, block: lastBlock.toString(), rollbackTo: target.toString() },
+      "Reorg detected, rolling back indexed events"
+    );
+
+    await onRollback(target);
+    lastBlock = target;
+    lastBlockHash = await getBlockHash(client, target);
+    await saveCheckpoint(options, lastBlock, lastBlockHash);
+  }
+
+  async function indexRange(fromBlock: bigint, toBlock: bigint): Promise<void> {
+    const logs = await client.getContractEvents({ address, abi, fromBlock, toBlock });
+    const matching = logs.filter(
+      (log) => log.eventName && wanted.has(log.eventName) && log.transactionHash
+    );
+
+    if (matching.length > 0) {
+      // Stamp each log with its block time (one getBlock per distinct block)
+      const timestamps = new Map<bigint, number>();
+      for (const log of matching) {
+        const blockNumber = log.blockNumber!;
+        if (!timestamps.has(blockNumber)) {
+          const block = await client.getBlock({ blockNumber });
+          timestamps.set(blockNumber, Number(block.timestamp) * 1000);
+        }
+      }
+
+      await onLogs(
+        matching.map((log) => ({
+          eventName: log.eventName!,
+          args: (log.args ?? {}) as Record<string, unknown>,
+          txHash: log.transactionHash!,
+          logIndex: log.logIndex ?? 0,
+          blockNumber: Number(log.blockNumber),
+          timestamp: timestamps.get(log.blockNumber!)!,
+        }))
+      );
+    }
+
+    lastBlock = toBlock;
+    lastBlockHash = await getBlockHash(client, toBlock);
+    await saveCheckpoint(options, lastBlock, lastBlockHash);
+
+    if (matching.length > 0) {
+      logger.debug(
+        { indexer: id, fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), events: matching.length },
+        "Indexed chain events"
+      );
+    }
+  }
+
+  async function poll() {
+    if (stopped) return;
+    try {
+      const head = await client.getBlockNumber();
+
+      if (lastBlock === null) {
+        await init(head);
+      }
+
+      await checkReorg();
+
+      for (const range of planBlockRanges(lastBlock!, head, env.INDEXER_BATCH_BLOCKS)) {
+        if (stopped) break;
+        await indexRange(range.fromBlock, range.toBlock);
+      }
+    } catch (error) {
+      if (shouldLogError(`indexer:${id}`)) {
+        logger.warn(
+          { indexer: id, error: (error as Error).message },
+          "Chain indexer error (will retry automatically)"
+        );
+      }
+    } finally {
+      if (!stopped) {
+        timeoutId = setTimeout(poll, env.INDEXER_POLL_MS);
+      }
+    }
+  }
+
+  poll();
+
+  return () => {
+    stopped = true;
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+    }
+  };
+}
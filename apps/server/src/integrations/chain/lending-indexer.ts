@@ -0,0 +1,64 @@
+/**
+ * Lending Pool Indexer
+ *
+ * Persists LendingPool collateral, borrow, repay and liquidation events
+ * into lending_events via the checkpointed chain indexer.
+ */
+
+import type { Abi } from "viem";
+import { and, eq, gt } from "drizzle-orm";
+import { db } from "../../db/client";
+import { lendingEvents, type NewLendingEvent } from "../../db/schema";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { getPublicClient } from "./client";
+import { lendingPoolAbi } from "./abis";
+import { addresses } from "./contracts";
+import { startContractIndexer } from "./indexer";
+import { toLendingEventRow } from "./event-rows";
+
+/**
+ * Index LendingPool events from its checkpoint (or INDEXER_START_BLOCK).
+ * Returns a stop function.
+ */
+export function indexLendingPool(): () => void {
+  const poolAddress = addresses.lendingPool.toLowerCase();
+
+  return startContractIndexer({
+    id: `lending-pool:${poolAddress}`,
+    client: getPublicClient(),
+    address: addresses.lendingPool,
+    abi: lendingPoolAbi as Abi,
+    eventNames: ["CollateralDeposited", "CollateralWithdrawn", "Borrowed", "Repaid", "Liquidated"],
+    deploymentBlock:
+      env.INDEXER_START_BLOCK !== undefined ? BigInt(env.INDEXER_START_BLOCK) : null,
+    onLogs: async (logs) => {
+      const rows = logs
+        .map((log) => toLendingEventRow(poolAddress, log))
+        .filter((row): row is NewLendingEvent => row !== null);
+      if (rows.length === 0) return;
+
+      await db
+        .insert(lendingEvents)
+        .values(rows)
+        .onConflictDoNothing({ target: [lendingEvents.txHash, lendingEvents.logIndex] });
+
+      for (const row of rows) {
+        logger.info(
+          { kind: row.kind, borrower: row.borrower, amount: row.amount, block: row.blockNumber },
+          "Indexed lending pool event"
+        );
+      }
+    },
+    onRollback: async (afterBlock) => {
+      await db
+        .delete(lendingEvents)
+        .where(
+          and(
+            eq(lendingEvents.poolAddress, poolAddress),
+            gt(lendingEvents.blockNumber, Number(afterBlock))
+          )
+        );
+    },
+  });
+}
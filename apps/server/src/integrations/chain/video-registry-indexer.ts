@@ -0,0 +1,77 @@
+/**
+ * Video Registry Indexer
+ *
+ * Persists VideoRegistered / SettlementRecorded events from the Base Sepolia
+ * VideoRegistry into video_registry_events via the checkpointed chain indexer.
+ */
+
+import type { Abi, Address } from "viem";
+import { and, eq, gt } from "drizzle-orm";
+import { db } from "../../db/client";
+import { videoRegistryEvents, type NewVideoRegistryEvent } from "../../db/schema";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { getBasePublicClient } from "./base-client";
+import { videoRegistryAbi } from "./abis";
+import { startContractIndexer } from "./indexer";
+import { toVideoRegistryEventRow } from "./event-rows";
+
+/**
+ * Check if there is a VideoRegistry to index
+ */
+export function isVideoRegistryIndexable(): boolean {
+  return !!env.VIDEO_REGISTRY_ADDRESS;
+}
+
+/**
+ * Index VideoRegistry events from its checkpoint (or VIDEO_REGISTRY_START_BLOCK).
+ * Returns a stop function.
+ */
+export function indexVideoRegistry(): () => void {
+  if (!env.VIDEO_REGISTRY_ADDRESS) {
+    throw new Error("VIDEO_REGISTRY_ADDRESS not configured");
+  }
+  const registryAddress = env.VIDEO_REGISTRY_ADDRESS.toLowerCase();
+
+  return startContractIndexer({
+    id: `video-registry:${registryAddress}`,
+    client: getBasePublicClient(),
+    address: env.VIDEO_REGISTRY_ADDRESS as Address,
+    abi: videoRegistryAbi as Abi,
+    eventNames: ["VideoRegistered", "SettlementRecorded"],
+    deploymentBlock:
+      env.VIDEO_REGISTRY_START_BLOCK !== undefined
+        ? BigInt(env.VIDEO_REGISTRY_START_BLOCK)
+        : null,
+    onLogs: async (logs) => {
+      const rows = logs
+        .map((log) => toVideoRegistryEventRow(registryAddress, log))
+        .filter((row): row is NewVideoRegistryEvent => row !== null);
+      if (rows.length === 0) return;
+
+      await db
+        .insert(videoRegistryEvents)
+        .values(rows)
+        .onConflictDoNothing({
+          target: [videoRegistryEvents.txHash, videoRegistryEvents.logIndex],
+        });
+
+      for (const row of rows) {
+        logger.info(
+          { kind: row.kind, videoIdHash: row.videoIdHash, block: row.blockNumber },
+          "Indexed video registry event"
+        );
+      }
+    },
+    onRollback: async (afterBlock) => {
+      await db
+        .delete(videoRegistryEvents)
+        .where(
+          and(
+            eq(videoRegistryEvents.registryAddress, registryAddress),
+            gt(videoRegistryEvents.blockNumber, Number(afterBlock))
+          )
+        );
+    },
+  });
+}
@@ -4,8 +4,10 @@
  * Handles interactions with VideoRegistry and BridgeEscrow contracts on Base Sepolia,
  * and RevenueDistributor on ARC testnet.
  *
- * All calls are wrapped in try-catch for graceful degradation:
+ * Video registration is wrapped in try-catch for graceful degradation:
  * if on-chain fails, the streaming flow continues normally.
+ * Settlement steps return null when their contract is not configured and
+ * throw on failure, so the settlement queue can retry them.
  */
 
 import { keccak256, toHex, parseUnits, type Hex } from "viem";
@@ -22,19 +24,19 @@ import { logger } from "../../utils/logger";
 
 // ─── Helpers ────────────────────────────────────────────────────────
 
-function hashVideoId(videoId: string): Hex {
+export function hashVideoId(videoId: string): Hex {
   return keccak256(toHex(videoId));
 }
 
-function isBaseSepoliaConfigured(): boolean {
+export function isBaseSepoliaConfigured(): boolean {
   return !!(env.VIDEO_REGISTRY_ADDRESS && env.YELLOW_SERVER_PRIVATE_KEY);
 }
 
-function isBridgeConfigured(): boolean {
+export function isBridgeConfigured(): boolean {
   return !!(env.BRIDGE_ESCROW_ADDRESS && env.YELLOW_SERVER_PRIVATE_KEY);
 }
 
-function isArcSettlementConfigured(): boolean {
+export function isArcSettlementConfigured(): boolean {
   return !!(env.REVENUE_DISTRIBUTOR_ADDRESS && env.YELLOW_SERVER_PRIVATE_KEY);
 }
 
@@ -138,7 +140,7 @@ export async function recordSettlementOnChain(
       { err, videoId, yellowSessionId },
       "Failed to record settlement on-chain",
     );
-    return null;
+    throw err;
   }
 }
 
@@ -197,7 +199,7 @@ export async function initiateBridgeOnChain(
     return txHash;
   } catch (err) {
     logger.error({ err }, "Failed to initiate bridge on-chain");
-    return null;
+    throw err;
   }
 }
 
@@ -253,6 +255,6 @@ export async function distributeRevenueOnChain(
       { err, creatorTokenAddress },
       "Failed to distribute revenue on-chain",
     );
-    return null;
+    throw err;
   }
 }
@@ -2,12 +2,12 @@
  * Gemini Image Generation Client
  *
  * Uses Gemini 2.5 Flash Image model to generate thumbnail images.
- * Uploads result to Supabase and returns the public URL.
+ * Uploads result to the configured storage provider and returns the public URL.
  */
 
 import { env } from "../../utils/env";
 import { logger } from "../../utils/logger";
-import { getStorageProvider, isSupabaseConfigured } from "../supabase";
+import { getStorageProvider, isStorageConfigured } from "../storage";
 
 const GEMINI_API_URL =
   "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-image:generateContent";
@@ -23,7 +23,7 @@ export function isGeminiConfigured(): boolean {
 }
 
 /**
- * Generate a thumbnail image using Gemini and upload to Supabase.
+ * Generate a thumbnail image using Gemini and upload it to storage.
  *
  * @param prompt - Text description of desired thumbnail
  * @param videoId - Video ID for storage path naming
@@ -38,8 +38,8 @@ export async function generateThumbnail(
     return null;
   }
 
-  if (!isSupabaseConfigured()) {
-    logger.warn("Supabase not configured, cannot upload thumbnail");
+  if (!isStorageConfigured()) {
+    logger.warn("Storage not configured, cannot upload thumbnail");
     return null;
   }
 
@@ -109,7 +109,7 @@ export async function generateThumbnail(
     const extension = mimeType.includes("jpeg") ? "jpg" : "png";
     const storagePath = `thumbnails/${videoId}.${extension}`;
 
-    // Upload to Supabase
+    // Upload to storage
     const storage = getStorageProvider();
     const thumbnailUrl = await storage.upload(
       storagePath,
@@ -0,0 +1,101 @@
+/**
+ * LLM router selection
+ *
+ * LLM_TRADING_PROVIDERS and LLM_IDEATION_PROVIDERS list each use case's
+ * fallback chain (comma-separated: openrouter, local). Unconfigured providers
+ * in a chain are skipped; usage of every call is recorded in llm_calls.
+ */
+
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import { LocalLlmProvider, OpenRouterProvider } from "./providers";
+import { LlmRouter } from "./router";
+import { recordLlmCall } from "./usage";
+import type {
+  LlmCallOptions,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmUseCase,
+} from "./types";
+
+let llmRouter: LlmRouter | null = null;
+
+function parseChain(value: string, providers: Record<string, LlmProvider>): LlmProvider[] {
+  return value
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+    .map((id) => {
+      const provider = providers[id];
+      if (!provider) {
+        throw new Error(`Unknown LLM provider "${id}". Expected one of: ${Object.keys(providers).join(", ")}`);
+      }
+      return provider;
+    });
+}
+
+/**
+ * Get the env-configured LLM router (singleton)
+ */
+export function getLlmRouter(): LlmRouter {
+  if (!llmRouter) {
+    const providers: Record<string, LlmProvider> = {
+      openrouter: new OpenRouterProvider(env.OPENROUTER_MODEL),
+      local: new LocalLlmProvider({
+        baseUrl: env.LOCAL_LLM_BASE_URL,
+        model: env.LOCAL_LLM_MODEL,
+        apiKey: env.LOCAL_LLM_API_KEY,
+      }),
+    };
+
+    llmRouter = new LlmRouter({
+      chains: {
+        trading: parseChain(env.LLM_TRADING_PROVIDERS, providers),
+        ideation: parseChain(env.LLM_IDEATION_PROVIDERS, providers),
+      },
+      minGapMs: {
+        trading: env.LLM_TRADING_MIN_GAP_MS,
+        ideation: env.LLM_IDEATION_MIN_GAP_MS,
+      },
+      record: (call) =>
+        recordLlmCall(call).catch((error) => {
+          logger.warn(
+            { provider: call.provider, error: error instanceof Error ? error.message : String(error) },
+            "Failed to record LLM call"
+          );
+        }),
+    });
+
+    logger.info(
+      { trading: llmRouter.providers("trading"), ideation: llmRouter.providers("ideation") },
+      "LLM router initialized"
+    );
+  }
+  return llmRouter;
+}
+
+/**
+ * Replace the router (tests and scripts); null restores the env router
+ */
+export function setLlmRouter(router: LlmRouter | null): void {
+  llmRouter = router;
+}
+
+/**
+ * Check if any provider is configured for a use case
+ */
+export function isLlmConfigured(useCase: LlmUseCase): boolean {
+  return getLlmRouter().isConfigured(useCase);
+}
+
+/**
+ * Run a completion through the use case's fallback chain
+ */
+export function completeLlm(
+  useCase: LlmUseCase,
+  request: LlmRequest,
+  options?: LlmCallOptions
+): Promise<LlmResult> {
+  return getLlmRouter().complete(useCase, request, options);
+}
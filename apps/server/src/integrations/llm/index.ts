@@ -0,0 +1,33 @@
+/**
+ * LLM Integration Module
+ *
+ * Provider-agnostic completions with per-use-case fallback chains,
+ * per-caller rate limits and usage tracking.
+ */
+
+export {
+  getLlmRouter,
+  setLlmRouter,
+  isLlmConfigured,
+  completeLlm,
+} from "./client";
+export { LlmRouter, type LlmRouterOptions } from "./router";
+export { OpenRouterProvider, LocalLlmProvider, type LocalLlmConfig } from "./providers";
+export { MockLlmProvider, type MockReply, type MockLlmOptions } from "./mock";
+export { estimateCostUsd } from "./pricing";
+export {
+  recordLlmCall,
+  getLlmUsageSummary,
+  type LlmUsageSummary,
+  type LlmUsageTotals,
+} from "./usage";
+export type {
+  LlmUseCase,
+  LlmRequest,
+  LlmUsage,
+  LlmCompletion,
+  LlmProvider,
+  LlmCallOptions,
+  LlmResult,
+  LlmCallRecord,
+} from "./types";
@@ -0,0 +1,82 @@
+/**
+ * Scripted Mock LLM Provider
+ *
+ * Deterministic provider for tests: replays a fixed script of replies (text,
+ * assistant messages with tool calls, or errors to exercise fallback) and
+ * keeps every request it received. Token usage is a stable estimate of
+ * four characters per token.
+ */
+
+import type { OpenRouterAssistantMessage } from "../openrouter/types";
+import type { LlmCompletion, LlmProvider, LlmRequest } from "./types";
+
+export type MockReply =
+  | string
+  | OpenRouterAssistantMessage
+  | Error
+  | ((request: LlmRequest) => string | OpenRouterAssistantMessage);
+
+export interface MockLlmOptions {
+  id?: string;
+  model?: string;
+  /** Report as unconfigured, to test chains that skip it */
+  configured?: boolean;
+  /** Cost to report per call (default: none, so the router estimates) */
+  costUsd?: number | null;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class MockLlmProvider implements LlmProvider {
+  readonly id: string;
+  readonly model: string;
+  readonly requests: LlmRequest[] = [];
+  private readonly script: MockReply[];
+  private readonly configured: boolean;
+  private readonly costUsd: number | null;
+
+  constructor(script: MockReply[], options: MockLlmOptions = {}) {
+    this.script = [...script];
+    this.id = options.id ?? "mock";
+    this.model = options.model ?? "mock/scripted";
+    this.configured = options.configured ?? true;
+    this.costUsd = options.costUsd ?? null;
+  }
+
+  isConfigured(): boolean {
+    return this.configured;
+  }
+
+  /** Replies not yet consumed */
+  get remaining(): number {
+    return this.script.length;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    this.requests.push(request);
+
+    const next = this.script.shift();
+    if (next === undefined) {
+      throw new Error(`Mock LLM script exhausted after ${this.requests.length - 1} replies`);
+    }
+    if (next instanceof Error) throw next;
+
+    const reply = typeof next === "function" ? next(request) : next;
+    const message: OpenRouterAssistantMessage =
+      typeof reply === "string" ? { role: "assistant", content: reply } : reply;
+
+    const promptTokens = estimateTokens(JSON.stringify(request.messages));
+    const completionTokens = estimateTokens(
+      (message.content ?? "") + (message.tool_calls ? JSON.stringify(message.tool_calls) : "")
+    );
+
+    return {
+      message,
+      model: this.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+      costUsd: this.costUsd,
+    };
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * LLM Cost Estimates
+ *
+ * Used when a provider doesn't report the cost of a call itself. Prices are
+ * USD per million tokens and only need to be close enough to spot runaway
+ * spend; OpenRouter's own reported cost always wins.
+ */
+
+import type { LlmUsage } from "./types";
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Matched by model id prefix, longest prefix first */
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "anthropic/claude-sonnet-4": { input: 3, output: 15 },
+  "anthropic/claude-haiku-4": { input: 1, output: 5 },
+  "anthropic/claude-opus-4": { input: 15, output: 75 },
+  "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "openai/gpt-4o": { input: 2.5, output: 10 },
+  "deepseek/deepseek-chat": { input: 0.27, output: 1.1 },
+  "google/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+};
+
+const PREFIXES = Object.keys(MODEL_PRICES).sort((a, b) => b.length - a.length);
+
+/**
+ * Estimated USD cost of a call, or null for unpriced models
+ */
+export function estimateCostUsd(model: string, usage: LlmUsage | null): number | null {
+  if (!usage) return null;
+  const prefix = PREFIXES.find((p) => model.startsWith(p));
+  if (!prefix) return null;
+
+  const price = MODEL_PRICES[prefix];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,140 @@
+/**
+ * LLM Providers
+ *
+ * - OpenRouterProvider: hosted models via OpenRouter (reports its own cost)
+ * - LocalLlmProvider: any OpenAI-compatible server (Ollama, vLLM, llama.cpp)
+ */
+
+import { isOpenRouterConfigured, sendChatRequest } from "../openrouter/client";
+import type { OpenRouterRequest, OpenRouterResponse } from "../openrouter/types";
+import { logger } from "../../utils/logger";
+import type { LlmCompletion, LlmProvider, LlmRequest } from "./types";
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 2048;
+const LOCAL_TIMEOUT_MS = 60_000;
+
+function toRequestBody(model: string, request: LlmRequest): OpenRouterRequest {
+  return {
+    model,
+    messages: request.messages,
+    tools: request.tools,
+    tool_choice: request.tools ? (request.toolChoice ?? "auto") : undefined,
+    temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+  };
+}
+
+function toCompletion(data: OpenRouterResponse, fallbackModel: string): LlmCompletion {
+  const message = data.choices[0].message;
+  return {
+    message: {
+      role: "assistant",
+      content: message.content ?? null,
+      tool_calls: message.tool_calls?.length ? message.tool_calls : undefined,
+    },
+    model: data.model || fallbackModel,
+    usage: data.usage
+      ? {
+          promptTokens: data.usage.prompt_tokens ?? 0,
+          completionTokens: data.usage.completion_tokens ?? 0,
+          totalTokens: data.usage.total_tokens ?? 0,
+        }
+      : null,
+    costUsd: typeof data.usage?.cost === "number" ? data.usage.cost : null,
+  };
+}
+
+// ============================================
+// OpenRouter
+// ============================================
+
+export class OpenRouterProvider implements LlmProvider {
+  readonly id = "openrouter";
+
+  constructor(readonly model: string) {}
+
+  isConfigured(): boolean {
+    return isOpenRouterConfigured();
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const body = toRequestBody(this.model, request);
+    body.usage = { include: true };
+
+    logger.info(
+      { provider: this.id, model: this.model, messages: request.messages.length, tools: request.tools?.length ?? 0 },
+      "Calling LLM provider"
+    );
+    return toCompletion(await sendChatRequest(body), this.model);
+  }
+}
+
+// ============================================
+// Local (OpenAI-compatible)
+// ============================================
+
+export interface LocalLlmConfig {
+  /** Base URL up to /v1, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  model: string;
+  apiKey?: string;
+}
+
+export class LocalLlmProvider implements LlmProvider {
+  readonly id = "local";
+  readonly model: string;
+  private readonly baseUrl?: string;
+  private readonly apiKey?: string;
+
+  constructor(config: LocalLlmConfig) {
+    this.baseUrl = config.baseUrl?.replace(/\/+$/, "");
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    if (!this.baseUrl) {
+      throw new Error("Local LLM not configured. Set LOCAL_LLM_BASE_URL.");
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), LOCAL_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify(toRequestBody(this.model, request)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => "");
+        throw new Error(`Local LLM error: HTTP ${response.status} ${text.slice(0, 200)}`.trim());
+      }
+
+      const data = (await response.json()) as OpenRouterResponse;
+      if (!data.choices || data.choices.length === 0) {
+        throw new Error("Local LLM returned empty choices");
+      }
+
+      // Self-hosted: no per-call cost
+      return { ...toCompletion(data, this.model), costUsd: 0 };
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error(`Local LLM request timed out after ${LOCAL_TIMEOUT_MS}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * LLM Router
+ *
+ * Sends each call through the use case's ordered provider chain: the first
+ * configured provider is tried, and on failure the next one, until one
+ * answers. Calls are spaced per caller (e.g. one trading agent doesn't wait
+ * on another, or on video ideation), and every provider attempt is handed
+ * to the recorder with its tokens, cost and latency.
+ *
+ * Free of env/db imports so tests can build a router from mock providers.
+ */
+
+import { estimateCostUsd } from "./pricing";
+import type {
+  LlmCallOptions,
+  LlmCallRecord,
+  LlmProvider,
+  LlmRequest,
+  LlmResult,
+  LlmUseCase,
+} from "./types";
+
+export interface LlmRouterOptions {
+  /** Ordered fallback chain per use case */
+  chains: Record<LlmUseCase, LlmProvider[]>;
+  /** Minimum gap between calls from the same caller, per use case */
+  minGapMs: Record<LlmUseCase, number>;
+  /** Called once per provider attempt; failures are logged by the caller, never thrown */
+  record?: (call: LlmCallRecord) => Promise<void> | void;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export class LlmRouter {
+  private readonly chains: Record<LlmUseCase, LlmProvider[]>;
+  private readonly minGapMs: Record<LlmUseCase, number>;
+  private readonly record: LlmRouterOptions["record"];
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  // Earliest time the next call from each caller may start
+  private readonly nextSlot = new Map<string, number>();
+
+  constructor(options: LlmRouterOptions) {
+    this.chains = options.chains;
+    this.minGapMs = options.minGapMs;
+    this.record = options.record;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Provider ids in the chain, configured or not
+   */
+  providers(useCase: LlmUseCase): string[] {
+    return this.chains[useCase].map((p) => p.id);
+  }
+
+  /**
+   * Check if any provider in the use case's chain is configured
+   */
+  isConfigured(useCase: LlmUseCase): boolean {
+    return this.chains[useCase].some((p) => p.isConfigured());
+  }
+
+  /**
+   * Run a completion through the use case's fallback chain
+   */
+  async complete(
+    useCase: LlmUseCase,
+    request: LlmRequest,
+    options: LlmCallOptions = {}
+  ): Promise<LlmResult> {
+    const providers = this.chains[useCase].filter((p) => p.isConfigured());
+    if (providers.length === 0) {
+      throw new Error(`No LLM provider configured for ${useCase}`);
+    }
+
+    const caller = options.caller ?? useCase;
+    await this.waitForSlot(caller, this.minGapMs[useCase]);
+
+    const errors: string[] = [];
+    for (const provider of providers) {
+      const start = this.now();
+      const base = {
+        useCase,
+        caller,
+        agentId: options.agentId ?? null,
+        provider: provider.id,
+      };
+
+      try {
+        const completion = await provider.complete(request);
+        const costUsd = completion.costUsd ?? estimateCostUsd(completion.model, completion.usage);
+
+        await this.save({
+          ...base,
+          model: completion.model,
+          promptTokens: completion.usage?.promptTokens ?? 0,
+          completionTokens: completion.usage?.completionTokens ?? 0,
+          totalTokens: completion.usage?.totalTokens ?? 0,
+          costUsd,
+          latencyMs: this.now() - start,
+          success: true,
+          error: null,
+        });
+
+        return { ...completion, costUsd, provider: provider.id };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${provider.id}: ${message}`);
+
+        await this.save({
+          ...base,
+          model: provider.model,
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          costUsd: null,
+          latencyMs: this.now() - start,
+          success: false,
+          error: message,
+        });
+      }
+    }
+
+    throw new Error(`All LLM providers failed for ${useCase}: ${errors.join("; ")}`);
+  }
+
+  /**
+   * Reserve the caller's next slot, then wait for it. Reserving before
+   * sleeping keeps concurrent calls from the same caller spaced too.
+   */
+  private async waitForSlot(caller: string, gapMs: number): Promise<void> {
+    const now = this.now();
+    const slot = Math.max(now, this.nextSlot.get(caller) ?? 0);
+    this.nextSlot.set(caller, slot + gapMs);
+    if (slot > now) {
+      await this.sleep(slot - now);
+    }
+  }
+
+  private async save(call: LlmCallRecord): Promise<void> {
+    if (!this.record) return;
+    try {
+      await this.record(call);
+    } catch {
+      // Usage tracking must never fail the call itself
+    }
+  }
+}
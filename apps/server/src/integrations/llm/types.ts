@@ -0,0 +1,77 @@
+/**
+ * LLM Provider Types
+ *
+ * Every provider speaks the OpenAI chat-completions format (OpenRouter and
+ * local servers both do), so messages and tools reuse the OpenRouter types.
+ */
+
+import type {
+  OpenRouterAssistantMessage,
+  OpenRouterChatMessage,
+  OpenRouterTool,
+  OpenRouterToolChoice,
+} from "../openrouter/types";
+
+/** What the call is for; each use case has its own fallback chain and rate limit */
+export type LlmUseCase = "trading" | "ideation";
+
+export interface LlmRequest {
+  messages: OpenRouterChatMessage[];
+  tools?: OpenRouterTool[];
+  toolChoice?: OpenRouterToolChoice;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  message: OpenRouterAssistantMessage;
+  /** Model that actually answered */
+  model: string;
+  usage: LlmUsage | null;
+  /** Cost reported by the provider in USD, if any */
+  costUsd: number | null;
+}
+
+export interface LlmProvider {
+  /** Provider id used in fallback chains (e.g. "openrouter", "local") */
+  readonly id: string;
+  /** Default model requested from the provider */
+  readonly model: string;
+  isConfigured(): boolean;
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+}
+
+export interface LlmCallOptions {
+  /** Rate-limit key, e.g. "trading:alice"; defaults to the use case */
+  caller?: string;
+  agentId?: string;
+}
+
+/** A completion plus the provider in the chain that produced it */
+export interface LlmResult extends LlmCompletion {
+  provider: string;
+  /** Estimated (or provider-reported) cost in USD; null if the model is unpriced */
+  costUsd: number | null;
+}
+
+/** One provider attempt, as stored in llm_calls */
+export interface LlmCallRecord {
+  useCase: LlmUseCase;
+  caller: string;
+  agentId: string | null;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number | null;
+  latencyMs: number;
+  success: boolean;
+  error: string | null;
+}
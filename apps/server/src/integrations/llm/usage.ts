@@ -0,0 +1,69 @@
+/**
+ * LLM Usage Tracking
+ *
+ * Persists each provider attempt to llm_calls and aggregates tokens and cost
+ * for /health and the agent detail endpoint.
+ */
+
+import { and, eq, gte, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db/client";
+import { llmCalls } from "../../db/schema";
+import type { LlmCallRecord } from "./types";
+
+export interface LlmUsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageSummary extends LlmUsageTotals {
+  since: string;
+  byProvider: (LlmUsageTotals & { provider: string; model: string })[];
+}
+
+/**
+ * Store one provider attempt
+ */
+export async function recordLlmCall(call: LlmCallRecord): Promise<void> {
+  await db.insert(llmCalls).values(call);
+}
+
+const totalsSelection = {
+  calls: sql<number>`count(*)::int`,
+  failures: sql<number>`count(*) filter (where not ${llmCalls.success})::int`,
+  promptTokens: sql<number>`coalesce(sum(${llmCalls.promptTokens}), 0)::int`,
+  completionTokens: sql<number>`coalesce(sum(${llmCalls.completionTokens}), 0)::int`,
+  totalTokens: sql<number>`coalesce(sum(${llmCalls.totalTokens}), 0)::int`,
+  costUsd: sql<number>`coalesce(sum(${llmCalls.costUsd}), 0)::float8`,
+};
+
+/**
+ * Calls, tokens and cost since a point in time (default: last 24h),
+ * optionally for one agent, with a per provider/model breakdown
+ */
+export async function getLlmUsageSummary(
+  options: { since?: Date; agentId?: string } = {}
+): Promise<LlmUsageSummary> {
+  const since = options.since ?? new Date(Date.now() - 24 * 60 * 60 * 1000);
+  const conditions: SQL[] = [gte(llmCalls.createdAt, since)];
+  if (options.agentId) conditions.push(eq(llmCalls.agentId, options.agentId));
+  const where = and(...conditions);
+
+  const [[totals], byProvider] = await Promise.all([
+    db.select(totalsSelection).from(llmCalls).where(where),
+    db
+      .select({ provider: llmCalls.provider, model: llmCalls.model, ...totalsSelection })
+      .from(llmCalls)
+      .where(where)
+      .groupBy(llmCalls.provider, llmCalls.model),
+  ]);
+
+  return {
+    since: since.toISOString(),
+    ...totals,
+    byProvider: byProvider.sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
@@ -1,12 +1,11 @@
 /**
  * OpenRouter API Client
  *
- * Singleton client for calling LLMs via OpenRouter.
- * Follows the same pattern as the Circle client.
+ * Low-level client for OpenRouter's chat completions API. Used by the
+ * OpenRouter provider in integrations/llm.
  */
 
 import { env } from "../../utils/env";
-import { logger } from "../../utils/logger";
 import type {
   OpenRouterRequest,
   OpenRouterResponse,
@@ -15,9 +14,6 @@ import type {
 
 const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
 const REQUEST_TIMEOUT_MS = 30_000;
-const MIN_REQUEST_GAP_MS = 5_000;
-
-let lastRequestTime = 0;
 
 /**
  * Check if OpenRouter integration is configured
@@ -34,51 +30,20 @@ export function getModelName(): string {
 }
 
 /**
- * Call OpenRouter chat completion API
+ * POST a chat completion request to OpenRouter (with timeout)
  *
- * @param systemPrompt - System message defining agent personality
- * @param userPrompt - User message with state and instructions
- * @param model - Optional model override
- * @returns The LLM response content string
+ * Rate limiting and fallback live in the LLM router (integrations/llm);
+ * callers should go through it rather than calling this directly.
  */
-export async function chatCompletion(
-  systemPrompt: string,
-  userPrompt: string,
-  model?: string
-): Promise<string> {
+export async function sendChatRequest(requestBody: OpenRouterRequest): Promise<OpenRouterResponse> {
   if (!isOpenRouterConfigured()) {
     throw new Error("OpenRouter API key not configured");
   }
 
-  // Rate limiting: enforce minimum gap between requests
-  const now = Date.now();
-  const timeSinceLast = now - lastRequestTime;
-  if (timeSinceLast < MIN_REQUEST_GAP_MS) {
-    const waitMs = MIN_REQUEST_GAP_MS - timeSinceLast;
-    await new Promise((resolve) => setTimeout(resolve, waitMs));
-  }
-
-  const requestBody: OpenRouterRequest = {
-    model: model || env.OPENROUTER_MODEL,
-    messages: [
-      { role: "system", content: systemPrompt },
-      { role: "user", content: userPrompt },
-    ],
-    temperature: 0.7,
-    max_tokens: 2048,
-  };
-
-  logger.info(
-    { model: requestBody.model, promptLength: userPrompt.length },
-    "Calling OpenRouter API"
-  );
-
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
 
   try {
-    lastRequestTime = Date.now();
-
     const response = await fetch(OPENROUTER_API_URL, {
       method: "POST",
       headers: {
@@ -104,18 +69,7 @@ export async function chatCompletion(
       throw new Error("OpenRouter returned empty choices");
     }
 
-    const content = data.choices[0].message.content;
-
-    logger.info(
-      {
-        model: data.model,
-        tokens: data.usage?.total_tokens,
-        responseLength: content.length,
-      },
-      "OpenRouter response received"
-    );
-
-    return content;
+    return data;
   } catch (error) {
     if (error instanceof Error && error.name === "AbortError") {
       throw new Error(`OpenRouter request timed out after ${REQUEST_TIMEOUT_MS}ms`);
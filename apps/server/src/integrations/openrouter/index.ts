@@ -5,7 +5,7 @@
  */
 
 export {
-  chatCompletion,
+  sendChatRequest,
   isOpenRouterConfigured,
   getModelName,
 } from "./client";
@@ -13,4 +13,10 @@ export type {
   OpenRouterRequest,
   OpenRouterResponse,
   OpenRouterMessage,
+  OpenRouterChatMessage,
+  OpenRouterAssistantMessage,
+  OpenRouterToolMessage,
+  OpenRouterTool,
+  OpenRouterToolCall,
+  OpenRouterToolChoice,
 } from "./types";
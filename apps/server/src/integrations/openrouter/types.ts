@@ -9,18 +9,71 @@ export interface OpenRouterMessage {
   content: string;
 }
 
+// ============================================
+// Tool Calling
+// ============================================
+
+/** A function the model may call (JSON Schema parameters) */
+export interface OpenRouterTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface OpenRouterToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    /** JSON-encoded arguments, as produced by the model */
+    arguments: string;
+  };
+}
+
+export interface OpenRouterAssistantMessage {
+  role: "assistant";
+  content: string | null;
+  tool_calls?: OpenRouterToolCall[];
+}
+
+export interface OpenRouterToolMessage {
+  role: "tool";
+  tool_call_id: string;
+  content: string;
+}
+
+/** Any message in a tool-calling conversation */
+export type OpenRouterChatMessage =
+  | OpenRouterMessage
+  | OpenRouterAssistantMessage
+  | OpenRouterToolMessage;
+
+export type OpenRouterToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
 export interface OpenRouterRequest {
   model: string;
-  messages: OpenRouterMessage[];
+  messages: OpenRouterChatMessage[];
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
+  tools?: OpenRouterTool[];
+  tool_choice?: OpenRouterToolChoice;
+  /** Ask OpenRouter to include the call's cost in usage */
+  usage?: { include: boolean };
 }
 
 export interface OpenRouterChoice {
   message: {
     role: string;
-    content: string;
+    content: string | null;
+    tool_calls?: OpenRouterToolCall[];
   };
   finish_reason: string;
   index: number;
@@ -30,6 +83,8 @@ export interface OpenRouterUsage {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  /** Cost in USD (credits), when requested via usage.include */
+  cost?: number;
 }
 
 export interface OpenRouterResponse {
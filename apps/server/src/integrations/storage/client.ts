@@ -0,0 +1,108 @@
+/**
+ * Storage provider selection
+ *
+ * STORAGE_PROVIDER picks the backend for playlists, segments and thumbnails:
+ * Supabase (default), the local filesystem, or any S3-compatible bucket.
+ */
+
+import { SupabaseStorageProvider, type StorageProvider } from "../../video/storage";
+import { LocalStorageProvider } from "../../video/local-storage";
+import { S3StorageProvider } from "../../video/s3-storage";
+import { isSupabaseConfigured } from "../supabase";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+
+let storageProvider: StorageProvider | null = null;
+
+/**
+ * Check if the selected storage backend is configured
+ */
+export function isStorageConfigured(): boolean {
+  switch (env.STORAGE_PROVIDER) {
+    case "local":
+      return true;
+    case "s3":
+      return !!(env.S3_BUCKET && env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY);
+    default:
+      return isSupabaseConfigured();
+  }
+}
+
+/**
+ * Error message for routes when storage is not configured
+ */
+export function storageNotConfiguredMessage(): string {
+  switch (env.STORAGE_PROVIDER) {
+    case "s3":
+      return "S3 storage not configured. Set S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.";
+    default:
+      return "Supabase storage not configured. Set SUPABASE_URL and SUPABASE_SERVICE_KEY.";
+  }
+}
+
+/**
+ * Get the configured storage provider (singleton)
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!storageProvider) {
+    if (!isStorageConfigured()) {
+      throw new Error(storageNotConfiguredMessage());
+    }
+
+    switch (env.STORAGE_PROVIDER) {
+      case "local":
+        storageProvider = getLocalStorageProvider()!;
+        break;
+
+      case "s3":
+        storageProvider = new S3StorageProvider({
+          bucket: env.S3_BUCKET!,
+          accessKeyId: env.S3_ACCESS_KEY_ID!,
+          secretAccessKey: env.S3_SECRET_ACCESS_KEY!,
+          region: env.S3_REGION,
+          endpoint: env.S3_ENDPOINT,
+          publicUrl: env.S3_PUBLIC_URL,
+        });
+        logger.info({ bucket: env.S3_BUCKET }, "S3 storage provider initialized");
+        break;
+
+      default:
+        storageProvider = new SupabaseStorageProvider({
+          supabaseUrl: env.SUPABASE_URL!,
+          supabaseKey: env.SUPABASE_SERVICE_KEY!,
+          bucketName: env.SUPABASE_STORAGE_BUCKET,
+        });
+        logger.info(
+          { bucket: env.SUPABASE_STORAGE_BUCKET },
+          "Supabase storage provider initialized"
+        );
+    }
+  }
+
+  return storageProvider;
+}
+
+let localProvider: LocalStorageProvider | null = null;
+
+/**
+ * Get the filesystem provider, or null when another backend is selected
+ * (used by the /storage route to serve local files)
+ */
+export function getLocalStorageProvider(): LocalStorageProvider | null {
+  if (env.STORAGE_PROVIDER !== "local") {
+    return null;
+  }
+
+  if (!localProvider) {
+    localProvider = new LocalStorageProvider({
+      rootDir: env.LOCAL_STORAGE_DIR,
+      baseUrl: env.LOCAL_STORAGE_URL ?? `http://localhost:${env.PORT}/storage`,
+    });
+    logger.info(
+      { rootDir: env.LOCAL_STORAGE_DIR },
+      "Local storage provider initialized"
+    );
+  }
+
+  return localProvider;
+}
@@ -0,0 +1,6 @@
+export {
+  getStorageProvider,
+  getLocalStorageProvider,
+  isStorageConfigured,
+  storageNotConfiguredMessage,
+} from "./client";
@@ -1 +1 @@
-export { getStorageProvider, isSupabaseConfigured } from "./client";
+export { isSupabaseConfigured } from "./client";
@@ -0,0 +1,92 @@
+/**
+ * Segment Charges
+ *
+ * Pure rules for charging a session for one segment at the price it
+ * locked in when it opened, and for checking that a viewer-signed state
+ * update pays at least that much. Kept free of database and network imports.
+ */
+
+import { addUsdc, formatUsdc, parseUsdc, subUsdc } from "@versus/streaming";
+import { isFreePreviewSegment } from "../../pricing/policy";
+import type { StreamingSession } from "./session";
+
+export interface SegmentCharge {
+  viewerBalance: string;
+  creatorBalance: string;
+  /** Amount charged ("0.000000" for free preview segments) */
+  charged: string;
+}
+
+type ChargeableSession = Pick<
+  StreamingSession,
+  "pricePerSegment" | "freePreviewSegments" | "viewerBalance" | "creatorBalance"
+>;
+
+/**
+ * Balances after charging one segment, or null if the viewer can't afford it.
+ * Free preview segments cost nothing. Exact fixed-point arithmetic,
+ * formatted as 6-decimal strings.
+ */
+export function chargeSegment(
+  session: ChargeableSession,
+  segmentIndex: number,
+): SegmentCharge | null {
+  const price = isFreePreviewSegment(session.freePreviewSegments, segmentIndex)
+    ? parseUsdc("0")
+    : parseUsdc(session.pricePerSegment);
+  const viewerBalance = parseUsdc(session.viewerBalance);
+
+  if (viewerBalance < price) {
+    return null;
+  }
+
+  return {
+    viewerBalance: formatUsdc(subUsdc(viewerBalance, price)),
+    creatorBalance: formatUsdc(addUsdc(parseUsdc(session.creatorBalance), price)),
+    charged: formatUsdc(price),
+  };
+}
+
+/**
+ * Check a viewer-signed submit_app_state message against the charge.
+ * The viewer's signed allocation must not exceed its balance after the
+ * charge, so a client cannot sign for less than the session's price.
+ * Returns an error message, or null if the signed state pays enough.
+ */
+export function checkSignedCharge(
+  signedMessage: string,
+  viewerAddress: string,
+  charge: SegmentCharge,
+): string | null {
+  let allocations: unknown;
+  try {
+    allocations = JSON.parse(signedMessage)?.req?.[2]?.allocations;
+  } catch {
+    return "Signed state is not valid JSON";
+  }
+
+  if (!Array.isArray(allocations)) {
+    return "Signed state has no allocations";
+  }
+
+  const viewer = allocations.find(
+    (a) =>
+      typeof a?.participant === "string" &&
+      a.participant.toLowerCase() === viewerAddress.toLowerCase(),
+  );
+  if (!viewer) {
+    return "Signed state has no viewer allocation";
+  }
+
+  let signedBalance;
+  try {
+    signedBalance = parseUsdc(String(viewer.amount));
+  } catch {
+    return `Signed viewer allocation is not a USDC amount: ${viewer.amount}`;
+  }
+
+  if (signedBalance > parseUsdc(charge.viewerBalance)) {
+    return `Signed state underpays: viewer balance ${formatUsdc(signedBalance)}, expected at most ${charge.viewerBalance}`;
+  }
+  return null;
+}
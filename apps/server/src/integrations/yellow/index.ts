@@ -14,8 +14,21 @@ export {
   getSession,
   getSessionByViewer,
   getActiveSessions,
+  rehydrateSessions,
+  reconcileSessions,
 } from "./session";
-export type { StreamingSession } from "./session";
+export type { StreamingSession, SessionPricing } from "./session";
 
 export { triggerSettlement } from "./settlement";
 export type { SettlementResult } from "./settlement";
+
+export {
+  enqueueSettlement,
+  runSessionSettlement,
+  processDueSettlements,
+  getSessionSettlementJobs,
+  listSettlementJobs,
+  retrySettlement,
+  startSettlementWorker,
+  stopSettlementWorker,
+} from "./settlement-queue";
@@ -3,7 +3,8 @@
  *
  * Manages streaming payment sessions with REAL ClearNode app sessions.
  * Uses in-memory Map for fast lookup during key delivery hot path,
- * with database persistence for audit and recovery.
+ * with every state change written through to yellow_sessions so active
+ * sessions can be rehydrated and reconciled after a restart.
  *
  * Architecture:
  * - Frontend generates ephemeral keypair, authenticates with ClearNode
@@ -16,10 +17,14 @@ import type { Address, Hex } from "viem";
 import {
   createAppSessionMessage,
   createCloseAppSessionMessage,
+  createGetAppSessionsMessage,
+  parseGetAppSessionsResponse,
   RPCProtocolVersion,
 } from "@erc7824/nitrolite";
 import { getYellowClient, isYellowConfigured } from "./client";
 import { triggerSettlement, type SettlementResult } from "./settlement";
+import { persistSession, loadActiveSessions, markSessionClosed } from "./store";
+import { reconcileSession, type RemoteSessionState } from "./snapshot";
 import {
   isNitroliteConfigured,
   prepareCustodyChannel,
@@ -28,6 +33,8 @@ import {
   computeCloseStateHash,
   type PreparedChannel,
 } from "../nitrolite";
+import { formatUsdc, parseUsdc } from "@versus/streaming";
+import { chargeSegment, checkSignedCharge } from "./charge";
 import { env } from "../../utils/env";
 import { logger } from "../../utils/logger";
 import { randomUUID } from "crypto";
@@ -44,7 +51,9 @@ export interface StreamingSession {
   viewerBalance: string;
   creatorBalance: string;
   segmentsDelivered: number;
+  // Price locked in when the session opened (see pricing/)
   pricePerSegment: string;
+  freePreviewSegments: number;
   version: number;
   createdAt: number;
   lastPaymentAt: number;
@@ -68,8 +77,30 @@ export interface StreamingSession {
 
 const activeSessions = new Map<string, StreamingSession>();
 
+/**
+ * Write a session's state through to the database.
+ * Failures are logged, not thrown — the in-memory session stays usable and
+ * reconciliation on the next restart catches any divergence.
+ */
+async function saveSession(session: StreamingSession): Promise<void> {
+  try {
+    await persistSession(session);
+  } catch (err) {
+    logger.error(
+      { err, appSessionId: session.appSessionId, version: session.version },
+      "Failed to persist Yellow session state",
+    );
+  }
+}
+
 // ─── Public API ──────────────────────────────────────────────────────
 
+/** Price a session is opened at (quoted by pricing/quote) */
+export interface SessionPricing {
+  pricePerSegment: string;
+  freePreviewSegments: number;
+}
+
 /**
  * Create a new streaming payment session.
  *
@@ -77,16 +108,25 @@ const activeSessions = new Map<string, StreamingSession>();
  * - Viewer (ephemeral key) and server both participate
  * - Both must co-sign state updates (quorum 100)
  * - ClearNode tracks allocations and enforces constraints
+ *
+ * Every paid segment is charged the quoted price for the whole session;
+ * free preview segments are not charged.
  */
 export async function createStreamingSession(
   videoId: string,
   viewerAddress: string,
   creatorAddress: string,
-  depositAmount: string,
+  rawDepositAmount: string,
   creatorTokenAddress: string = "",
   creatorBondingCurveAddress: string = "",
+  pricing: SessionPricing = {
+    pricePerSegment: env.YELLOW_PRICE_PER_SEGMENT,
+    freePreviewSegments: 0,
+  },
 ): Promise<StreamingSession> {
-  const pricePerSegment = env.YELLOW_PRICE_PER_SEGMENT;
+  // Normalize to 6 decimals so all session balances share one format
+  const depositAmount = formatUsdc(parseUsdc(rawDepositAmount));
+  const pricePerSegment = formatUsdc(parseUsdc(pricing.pricePerSegment));
   const client = await getYellowClient();
 
   let appSessionId: string;
@@ -178,6 +218,7 @@ export async function createStreamingSession(
     creatorBalance: "0",
     segmentsDelivered: 0,
     pricePerSegment,
+    freePreviewSegments: pricing.freePreviewSegments,
     version: 0,
     createdAt: Date.now(),
     lastPaymentAt: Date.now(),
@@ -193,6 +234,9 @@ export async function createStreamingSession(
   };
 
   activeSessions.set(appSessionId, session);
+  // Like every later write, a failed insert must not strand the viewer's
+  // deposit: the session still works from memory and the next save retries
+  await saveSession(session);
 
   logger.info(
     {
@@ -217,7 +261,9 @@ export async function createStreamingSession(
  * The server validates, co-signs, and submits the double-signed update
  * to ClearNode.
  *
- * Returns the new viewer balance or fails if insufficient funds.
+ * Returns the new viewer balance or fails if insufficient funds. Throws
+ * "Signed state rejected" if the signed allocations pay less than the
+ * session's price.
  */
 export async function cosignAndSubmitPayment(
   appSessionId: string,
@@ -235,11 +281,9 @@ export async function cosignAndSubmitPayment(
     return { success: true, newViewerBalance: session.viewerBalance };
   }
 
-  const price = parseFloat(session.pricePerSegment);
-  const currentViewerBalance = parseFloat(session.viewerBalance);
-
   // Check sufficient balance
-  if (currentViewerBalance < price) {
+  const charged = chargeSegment(session, segmentIndex);
+  if (!charged) {
     logger.warn(
       {
         appSessionId,
@@ -252,6 +296,12 @@ export async function cosignAndSubmitPayment(
     return { success: false, newViewerBalance: session.viewerBalance };
   }
 
+  const rejection = checkSignedCharge(viewerSignedMessage, session.viewerAddress, charged);
+  if (rejection) {
+    logger.warn({ appSessionId, segmentIndex, rejection }, "Viewer-signed state rejected");
+    throw new Error(`Signed state rejected: ${rejection}`);
+  }
+
   // Validate version increment
   if (version !== session.version + 1) {
     logger.warn(
@@ -261,11 +311,7 @@ export async function cosignAndSubmitPayment(
     // Allow it to proceed — version tracking is informational
   }
 
-  // Compute new balances
-  const newViewerBalance = (currentViewerBalance - price).toFixed(6);
-  const newCreatorBalance = (
-    parseFloat(session.creatorBalance) + price
-  ).toFixed(6);
+  const { viewerBalance: newViewerBalance, creatorBalance: newCreatorBalance } = charged;
 
   // Try to submit co-signed state update to ClearNode
   try {
@@ -326,6 +372,7 @@ export async function cosignAndSubmitPayment(
   session.version = version;
   session.lastPaymentAt = Date.now();
   session.paidSegments.add(segmentIndex);
+  await saveSession(session);
 
   return { success: true, newViewerBalance };
 }
@@ -348,10 +395,8 @@ export async function processSegmentPayment(
     return { success: true, newViewerBalance: session.viewerBalance };
   }
 
-  const price = parseFloat(session.pricePerSegment);
-  const currentViewerBalance = parseFloat(session.viewerBalance);
-
-  if (currentViewerBalance < price) {
+  const charged = chargeSegment(session, segmentIndex);
+  if (!charged) {
     logger.warn(
       {
         appSessionId,
@@ -364,10 +409,7 @@ export async function processSegmentPayment(
     return { success: false, newViewerBalance: session.viewerBalance };
   }
 
-  const newViewerBalance = (currentViewerBalance - price).toFixed(6);
-  const newCreatorBalance = (
-    parseFloat(session.creatorBalance) + price
-  ).toFixed(6);
+  const { viewerBalance: newViewerBalance, creatorBalance: newCreatorBalance } = charged;
 
   session.viewerBalance = newViewerBalance;
   session.creatorBalance = newCreatorBalance;
@@ -375,6 +417,7 @@ export async function processSegmentPayment(
   session.version += 1;
   session.lastPaymentAt = Date.now();
   session.paidSegments.add(segmentIndex);
+  await saveSession(session);
 
   return { success: true, newViewerBalance };
 }
@@ -465,7 +508,14 @@ export async function closeStreamingSession(
     "Yellow streaming session closed",
   );
 
-  // Trigger cross-chain revenue distribution
+  // Persist the close before settling so the queue can mark it settled
+  try {
+    await markSessionClosed(session);
+  } catch (err) {
+    logger.error({ err, appSessionId }, "Failed to persist closed Yellow session");
+  }
+
+  // Queue cross-chain revenue distribution and run a first pass
   let settlement: SettlementResult = {
     settlementTxHash: null,
     bridgeTxHash: null,
@@ -474,18 +524,16 @@ export async function closeStreamingSession(
     channelCloseTxHash: session.channelCloseTxHash,
     custodyWithdrawTxHash: session.custodyWithdrawTxHash,
     channelId: session.channelId,
+    settled: false,
   };
   try {
-    const chainSettlement = await triggerSettlement(session);
-    settlement.settlementTxHash = chainSettlement.settlementTxHash;
-    settlement.bridgeTxHash = chainSettlement.bridgeTxHash;
-    settlement.distributionTxHash = chainSettlement.distributionTxHash;
+    settlement = await triggerSettlement(session);
   } catch (err) {
     logger.warn({ err, appSessionId }, "Settlement trigger failed");
   }
 
   activeSessions.delete(appSessionId);
-  return { settled: true, totalPaid, settlement };
+  return { settled: settlement.settled, totalPaid, settlement };
 }
 
 /**
@@ -531,6 +579,7 @@ export async function finalizeCustodyChannel(
       session.viewerAddress as `0x${string}`,
     );
     session.closeStateHash = closeStateHash;
+    await saveSession(session);
 
     logger.info(
       {
@@ -577,3 +626,78 @@ export function getSessionByViewer(
 export function getActiveSessions(): StreamingSession[] {
   return Array.from(activeSessions.values());
 }
+
+// ─── Crash Recovery ──────────────────────────────────────────────────
+
+/**
+ * Load active sessions from the database into the in-memory store.
+ * Called once at startup, before any requests are served.
+ */
+export async function rehydrateSessions(): Promise<number> {
+  const sessions = await loadActiveSessions();
+  for (const session of sessions) {
+    activeSessions.set(session.appSessionId, session);
+  }
+
+  logger.info({ count: sessions.length }, "Yellow sessions rehydrated");
+  return sessions.length;
+}
+
+/**
+ * Compare rehydrated sessions against ClearNode and close any whose
+ * state diverged (see reconcileSession for the rules).
+ */
+export async function reconcileSessions(): Promise<{ resumed: number; closed: number }> {
+  if (activeSessions.size === 0) {
+    return { resumed: 0, closed: 0 };
+  }
+
+  const client = await getYellowClient();
+  const message = await createGetAppSessionsMessage(
+    client.sessionSigner,
+    client.serverAddress,
+  );
+  const response = parseGetAppSessionsResponse(
+    await client.sendAndWait(message, 15000),
+  );
+
+  const remote = new Map<string, RemoteSessionState>();
+  for (const appSession of response.params.appSessions) {
+    remote.set(appSession.appSessionId.toLowerCase(), {
+      status: appSession.status,
+      version: appSession.version,
+    });
+  }
+
+  let resumed = 0;
+  let closed = 0;
+
+  for (const session of Array.from(activeSessions.values())) {
+    const result = reconcileSession(
+      session,
+      remote.get(session.appSessionId.toLowerCase()),
+    );
+
+    if (result.action === "resume") {
+      resumed++;
+      continue;
+    }
+
+    logger.warn(
+      { appSessionId: session.appSessionId, reason: result.reason },
+      "Yellow session diverged from ClearNode, closing",
+    );
+    try {
+      await closeStreamingSession(session.appSessionId);
+      closed++;
+    } catch (err) {
+      logger.error(
+        { err, appSessionId: session.appSessionId },
+        "Failed to close diverged Yellow session",
+      );
+    }
+  }
+
+  logger.info({ resumed, closed }, "Yellow session reconciliation complete");
+  return { resumed, closed };
+}
@@ -0,0 +1,99 @@
+/**
+ * Settlement Plan
+ *
+ * Pure rules for the settlement queue: which steps a session needs, the
+ * order they run in, retry backoff and when a session counts as settled.
+ */
+
+import { parseUsdc, ZERO_USDC } from "@versus/streaming";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const SETTLEMENT_STEPS = ["record", "bridge", "distribute"] as const;
+
+export type SettlementStep = (typeof SETTLEMENT_STEPS)[number];
+
+export type SettlementJobStatus =
+  | "pending" // Waiting to be submitted (or retried)
+  | "submitted" // Tx sent, waiting for its receipt
+  | "confirmed" // Receipt succeeded
+  | "skipped" // Not applicable (contract not configured, no creator token)
+  | "dead"; // Out of attempts, needs an operator retry
+
+export interface PlannedStep {
+  step: SettlementStep;
+  status: SettlementJobStatus;
+}
+
+export interface JobState {
+  step: string;
+  status: string;
+}
+
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+// ─── Planning ────────────────────────────────────────────────────────
+
+/**
+ * Steps to enqueue for a closed session. Sessions with nothing paid need
+ * none; without a creator token only the settlement record applies.
+ */
+export function planSettlementSteps(session: {
+  creatorBalance: string;
+  creatorTokenAddress: string | null;
+}): PlannedStep[] {
+  if (parseUsdc(session.creatorBalance) === ZERO_USDC) {
+    return [];
+  }
+
+  return SETTLEMENT_STEPS.map((step) => ({
+    step,
+    status: step !== "record" && !session.creatorTokenAddress ? "skipped" : "pending",
+  }));
+}
+
+function isDone(status: string): boolean {
+  return status === "confirmed" || status === "skipped";
+}
+
+/**
+ * A step may run once every earlier step is confirmed or skipped
+ * (bridge and distribute share the server wallet, so they stay sequential).
+ */
+export function isStepRunnable(jobs: JobState[], step: SettlementStep): boolean {
+  const index = SETTLEMENT_STEPS.indexOf(step);
+  return jobs
+    .filter((j) => SETTLEMENT_STEPS.indexOf(j.step as SettlementStep) < index)
+    .every((j) => isDone(j.status));
+}
+
+/**
+ * A session is settled once all of its steps are confirmed or skipped
+ */
+export function isSettlementComplete(jobs: JobState[]): boolean {
+  return jobs.every((j) => isDone(j.status));
+}
+
+// ─── Retry ───────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff after the given number of failed attempts
+ */
+export function settlementBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * When to retry after a failed attempt, or null to dead-letter the step
+ */
+export function nextRetryAt(
+  attempts: number,
+  maxAttempts: number,
+  now: number,
+): Date | null {
+  if (attempts >= maxAttempts) {
+    return null;
+  }
+  return new Date(now + settlementBackoffMs(attempts));
+}
@@ -0,0 +1,426 @@
+/**
+ * Settlement Queue
+ *
+ * Persistent, resumable settlement of closed Yellow sessions. Each step
+ * (record → bridge → distribute) is a settlement_jobs row that is retried
+ * with exponential backoff and dead-lettered after SETTLEMENT_MAX_ATTEMPTS.
+ *
+ * Steps are idempotent: a tx hash is stored before waiting for its receipt,
+ * and a step with a stored hash is only ever re-checked, never resubmitted,
+ * unless its receipt shows a revert.
+ */
+
+import { and, asc, eq, inArray, isNull, lte } from "drizzle-orm";
+import type { Hex, PublicClient } from "viem";
+import { db } from "../../db/client";
+import { settlementJobs, yellowSessions } from "../../db/schema";
+import type { SettlementJob, YellowSession } from "../../db/schema";
+import {
+  recordSettlementOnChain,
+  initiateBridgeOnChain,
+  distributeRevenueOnChain,
+} from "../chain/video-registry";
+import { getBasePublicClient } from "../chain/base-client";
+import { getPublicClient } from "../chain/client";
+import { env } from "../../utils/env";
+import { logger } from "../../utils/logger";
+import {
+  SETTLEMENT_STEPS,
+  planSettlementSteps,
+  isStepRunnable,
+  isSettlementComplete,
+  nextRetryAt,
+  type SettlementStep,
+} from "./settlement-plan";
+
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+let workerInterval: ReturnType<typeof setInterval> | null = null;
+let isProcessing = false;
+const sessionsInFlight = new Set<string>();
+
+// ─── Steps ───────────────────────────────────────────────────────────
+
+/** yellow_sessions column that mirrors each step's tx hash */
+const STEP_TX_COLUMN = {
+  record: "settlementTxHashBase",
+  bridge: "bridgeTxHash",
+  distribute: "distributionTxHash",
+} as const satisfies Record<SettlementStep, keyof YellowSession>;
+
+/**
+ * Submit a step's transaction. Returns null when the step does not apply.
+ */
+async function submitStep(
+  step: SettlementStep,
+  session: YellowSession,
+): Promise<string | null> {
+  switch (step) {
+    case "record":
+      return recordSettlementOnChain(
+        session.videoId,
+        session.viewerAddress,
+        session.segmentsDelivered ?? 0,
+        session.creatorBalance,
+        session.id,
+      );
+    case "bridge":
+      return initiateBridgeOnChain(
+        session.creatorBalance,
+        session.creatorAddress,
+        session.creatorTokenAddress ?? "",
+      );
+    case "distribute":
+      return distributeRevenueOnChain(
+        session.creatorTokenAddress ?? "",
+        session.creatorBalance,
+      );
+  }
+}
+
+/**
+ * Record settles and bridges on Base Sepolia; distribution is on ARC
+ */
+function receiptClient(step: SettlementStep): PublicClient {
+  return step === "distribute" ? getPublicClient() : getBasePublicClient();
+}
+
+async function updateJob(
+  jobId: number,
+  values: Partial<typeof settlementJobs.$inferInsert>,
+): Promise<void> {
+  await db
+    .update(settlementJobs)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(settlementJobs.id, jobId));
+}
+
+/**
+ * Count a failed attempt, scheduling a retry or dead-lettering the job
+ */
+async function failJob(
+  job: SettlementJob,
+  error: string,
+  keepTxHash: boolean,
+): Promise<void> {
+  const attempts = job.attempts + 1;
+  const retryAt = nextRetryAt(attempts, env.SETTLEMENT_MAX_ATTEMPTS, Date.now());
+  const txHash = keepTxHash ? job.txHash : null;
+
+  await updateJob(job.id, {
+    attempts,
+    lastError: error,
+    txHash,
+    status: retryAt ? (txHash ? "submitted" : "pending") : "dead",
+    nextAttemptAt: retryAt,
+  });
+
+  if (!retryAt) {
+    logger.error(
+      { sessionId: job.sessionId, step: job.step, attempts, error },
+      "Settlement step dead-lettered",
+    );
+  } else {
+    logger.warn(
+      { sessionId: job.sessionId, step: job.step, attempts, retryAt, error },
+      "Settlement step failed, will retry",
+    );
+  }
+}
+
+/**
+ * Wait for a submitted step's receipt and record the outcome.
+ * Returns true once the step is confirmed.
+ */
+async function confirmJob(
+  job: SettlementJob,
+  txHash: string,
+): Promise<boolean> {
+  const step = job.step as SettlementStep;
+
+  let status: "success" | "reverted";
+  try {
+    const receipt = await receiptClient(step).waitForTransactionReceipt({
+      hash: txHash as Hex,
+      timeout: RECEIPT_TIMEOUT_MS,
+    });
+    status = receipt.status;
+  } catch (err) {
+    // Not mined yet (or RPC error) — keep the hash and check again later
+    await failJob({ ...job, txHash }, `Receipt unavailable: ${String(err)}`, true);
+    return false;
+  }
+
+  if (status === "reverted") {
+    await failJob({ ...job, txHash }, `Transaction ${txHash} reverted`, false);
+    return false;
+  }
+
+  await updateJob(job.id, {
+    status: "confirmed",
+    txHash,
+    lastError: null,
+    nextAttemptAt: null,
+  });
+  await db
+    .update(yellowSessions)
+    .set({ [STEP_TX_COLUMN[step]]: txHash })
+    .where(eq(yellowSessions.id, job.sessionId));
+
+  logger.info({ sessionId: job.sessionId, step, txHash }, "Settlement step confirmed");
+  return true;
+}
+
+/**
+ * Run one job to completion if possible. Returns true if the step is done.
+ */
+async function runJob(job: SettlementJob, session: YellowSession): Promise<boolean> {
+  const step = job.step as SettlementStep;
+
+  if (job.txHash) {
+    return confirmJob(job, job.txHash);
+  }
+
+  let txHash: string | null;
+  try {
+    txHash = await submitStep(step, session);
+  } catch (err) {
+    await failJob(job, err instanceof Error ? err.message : String(err), false);
+    return false;
+  }
+
+  if (!txHash) {
+    await updateJob(job.id, { status: "skipped", nextAttemptAt: null });
+    logger.info({ sessionId: job.sessionId, step }, "Settlement step not applicable, skipped");
+    return true;
+  }
+
+  // Persist the hash before waiting so a crash never causes a resubmission
+  await updateJob(job.id, { status: "submitted", txHash });
+  return confirmJob(job, txHash);
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Enqueue settlement steps for a closed session (no-op if already queued)
+ */
+export async function enqueueSettlement(session: {
+  appSessionId: string;
+  creatorBalance: string;
+  creatorTokenAddress: string | null;
+}): Promise<number> {
+  const steps = planSettlementSteps(session);
+  if (steps.length === 0) {
+    return 0;
+  }
+
+  await db
+    .insert(settlementJobs)
+    .values(
+      steps.map((s) => ({
+        sessionId: session.appSessionId,
+        step: s.step,
+        status: s.status,
+        nextAttemptAt: s.status === "pending" ? new Date() : null,
+      })),
+    )
+    .onConflictDoNothing();
+
+  return steps.length;
+}
+
+/**
+ * Run a session's due steps in order, stopping at the first that is not
+ * done. Marks the session settled once every step is confirmed or skipped.
+ */
+export async function runSessionSettlement(
+  sessionId: string,
+  options: { force?: boolean } = {},
+): Promise<SettlementJob[]> {
+  if (sessionsInFlight.has(sessionId)) {
+    return getSessionSettlementJobs(sessionId);
+  }
+  sessionsInFlight.add(sessionId);
+
+  try {
+    const [session] = await db
+      .select()
+      .from(yellowSessions)
+      .where(eq(yellowSessions.id, sessionId))
+      .limit(1);
+    if (!session) {
+      throw new Error(`Yellow session not found: ${sessionId}`);
+    }
+
+    const jobs = await getSessionSettlementJobs(sessionId);
+    const now = Date.now();
+
+    for (const job of jobs) {
+      if (job.status === "confirmed" || job.status === "skipped") continue;
+      if (job.status === "dead") break;
+      if (!isStepRunnable(jobs, job.step as SettlementStep)) break;
+      if (!options.force && job.nextAttemptAt && job.nextAttemptAt.getTime() > now) break;
+
+      const done = await runJob(job, session);
+      if (!done) break;
+      job.status = "confirmed"; // skipped is equivalent for ordering
+    }
+
+    const latest = await getSessionSettlementJobs(sessionId);
+    if (session.status !== "settled" && isSettlementComplete(latest)) {
+      await db
+        .update(yellowSessions)
+        .set({ status: "settled" })
+        .where(eq(yellowSessions.id, sessionId));
+      logger.info({ sessionId, steps: latest.length }, "Yellow session settled");
+    }
+
+    return latest;
+  } finally {
+    sessionsInFlight.delete(sessionId);
+  }
+}
+
+/**
+ * Process every session with a step that is due
+ */
+export async function processDueSettlements(): Promise<number> {
+  if (isProcessing) return 0;
+  isProcessing = true;
+
+  try {
+    const due = await db
+      .selectDistinct({ sessionId: settlementJobs.sessionId })
+      .from(settlementJobs)
+      .where(
+        and(
+          inArray(settlementJobs.status, ["pending", "submitted"]),
+          lte(settlementJobs.nextAttemptAt, new Date()),
+        ),
+      );
+
+    for (const { sessionId } of due) {
+      try {
+        await runSessionSettlement(sessionId);
+      } catch (err) {
+        logger.error({ err, sessionId }, "Settlement processing failed");
+      }
+    }
+
+    return due.length;
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * A session's jobs in step order
+ */
+export async function getSessionSettlementJobs(sessionId: string): Promise<SettlementJob[]> {
+  const jobs = await db
+    .select()
+    .from(settlementJobs)
+    .where(eq(settlementJobs.sessionId, sessionId));
+
+  return jobs.sort(
+    (a, b) =>
+      SETTLEMENT_STEPS.indexOf(a.step as SettlementStep) -
+      SETTLEMENT_STEPS.indexOf(b.step as SettlementStep),
+  );
+}
+
+/**
+ * List jobs, optionally filtered by status (oldest first)
+ */
+export async function listSettlementJobs(
+  statuses?: string[],
+  limit: number = 100,
+): Promise<SettlementJob[]> {
+  return db
+    .select()
+    .from(settlementJobs)
+    .where(statuses && statuses.length > 0 ? inArray(settlementJobs.status, statuses) : undefined)
+    .orderBy(asc(settlementJobs.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Reset a session's unfinished jobs (including dead ones) and run them now.
+ * Submitted hashes are kept, so a retry re-checks rather than resubmits.
+ */
+export async function retrySettlement(sessionId: string): Promise<SettlementJob[]> {
+  const jobs = await getSessionSettlementJobs(sessionId);
+  if (jobs.length === 0) {
+    throw new Error(`No settlement jobs for session: ${sessionId}`);
+  }
+
+  for (const job of jobs) {
+    if (job.status === "confirmed" || job.status === "skipped") continue;
+    await updateJob(job.id, {
+      status: job.txHash ? "submitted" : "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    });
+  }
+
+  logger.info({ sessionId }, "Settlement retry requested");
+  return runSessionSettlement(sessionId, { force: true });
+}
+
+/**
+ * Enqueue closed sessions that never got settlement jobs
+ * (e.g. the server stopped between closing and enqueueing)
+ */
+export async function enqueueOrphanedSettlements(): Promise<number> {
+  const orphaned = await db
+    .select({
+      appSessionId: yellowSessions.id,
+      creatorBalance: yellowSessions.creatorBalance,
+      creatorTokenAddress: yellowSessions.creatorTokenAddress,
+    })
+    .from(yellowSessions)
+    .leftJoin(settlementJobs, eq(settlementJobs.sessionId, yellowSessions.id))
+    .where(and(eq(yellowSessions.status, "closed"), isNull(settlementJobs.id)));
+
+  for (const session of orphaned) {
+    const steps = await enqueueSettlement(session);
+    if (steps === 0) {
+      // Nothing to settle — close out directly
+      await db
+        .update(yellowSessions)
+        .set({ status: "settled" })
+        .where(eq(yellowSessions.id, session.appSessionId));
+    }
+  }
+
+  if (orphaned.length > 0) {
+    logger.info({ count: orphaned.length }, "Enqueued settlement for orphaned closed sessions");
+  }
+  return orphaned.length;
+}
+
+/**
+ * Start polling for due settlement steps
+ */
+export function startSettlementWorker(intervalMs: number = env.SETTLEMENT_POLL_MS): void {
+  if (workerInterval) return;
+  enqueueOrphanedSettlements()
+    .then(() => processDueSettlements())
+    .catch((err) => {
+      logger.error({ err }, "Initial settlement pass failed");
+    });
+  workerInterval = setInterval(() => {
+    processDueSettlements().catch((err) => {
+      logger.error({ err }, "Settlement worker pass failed");
+    });
+  }, intervalMs);
+  logger.info({ intervalMs }, "Settlement worker started");
+}
+
+export function stopSettlementWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
@@ -6,17 +6,17 @@
  * 2. Initiate bridge from Base Sepolia to ARC (BridgeEscrow)
  * 3. Distribute revenue on ARC testnet (RevenueDistributor)
  *
+ * Each step runs as a job in the settlement queue (see settlement-queue.ts),
+ * so failed steps are retried instead of being dropped.
+ *
  * Revenue split: 70% creator, 20% token holders, 10% protocol
  */
 
+import { formatUsdc, parseUsdc, splitRevenue, ZERO_USDC } from "@versus/streaming";
 import { logger } from "../../utils/logger";
 import type { StreamingSession } from "./session";
-import {
-  recordSettlementOnChain,
-  initiateBridgeOnChain,
-  distributeRevenueOnChain,
-} from "../chain/video-registry";
-import { getBasePublicClient } from "../chain/base-client";
+import { enqueueSettlement, runSessionSettlement } from "./settlement-queue";
+import { isSettlementComplete } from "./settlement-plan";
 
 export interface SettlementResult {
   settlementTxHash: string | null; // Base Sepolia - settlement record
@@ -27,128 +27,86 @@ export interface SettlementResult {
   channelCloseTxHash: string | null; // Base Sepolia - channel closed on-chain
   custodyWithdrawTxHash: string | null; // Base Sepolia - funds withdrawn from Custody
   channelId: string | null; // On-chain state channel ID
+  settled: boolean; // All settlement steps confirmed (false while any are still queued)
 }
 
 /**
  * Trigger cross-chain revenue distribution for a closed streaming session.
  *
- * Flow:
- * 1. Record settlement on Base Sepolia (same chain as Yellow Custody/Adjudicator)
- * 2. Lock USDC in BridgeEscrow on Base Sepolia (CCTP demo)
- * 3. Distribute revenue on ARC testnet via RevenueDistributor
- *
- * All on-chain calls are gracefully degraded — if one fails, the rest continue.
+ * Enqueues the record → bridge → distribute jobs and runs them once
+ * immediately. Steps that fail stay queued for the settlement worker;
+ * their tx hashes are null in the returned result until confirmed.
+ * The session must already be persisted as closed.
  */
 export async function triggerSettlement(
   session: StreamingSession,
 ): Promise<SettlementResult> {
-  const totalPaid = parseFloat(session.creatorBalance);
+  const totalPaid = parseUsdc(session.creatorBalance);
 
-  if (totalPaid <= 0) {
+  const result: SettlementResult = {
+    settlementTxHash: null,
+    bridgeTxHash: null,
+    distributionTxHash: null,
+    custodyDepositTxHash: session.custodyDepositTxHash,
+    channelCloseTxHash: session.channelCloseTxHash,
+    custodyWithdrawTxHash: session.custodyWithdrawTxHash,
+    channelId: session.channelId,
+    settled: false,
+  };
+
+  if (totalPaid === ZERO_USDC) {
     logger.info(
       { appSessionId: session.appSessionId },
       "No revenue to settle (zero paid)",
     );
-    return {
-      settlementTxHash: null,
-      bridgeTxHash: null,
-      distributionTxHash: null,
-      custodyDepositTxHash: session.custodyDepositTxHash,
-      channelCloseTxHash: session.channelCloseTxHash,
-      custodyWithdrawTxHash: session.custodyWithdrawTxHash,
-      channelId: session.channelId,
-    };
-  }
-
-  const creatorShare = totalPaid * 0.7;
-  const tokenHolderShare = totalPaid * 0.2;
-  const protocolShare = totalPaid * 0.1;
+  } else {
+    // Exact split; the creator share absorbs rounding so parts sum to totalPaid
+    const split = splitRevenue(totalPaid);
 
-  logger.info(
-    {
-      appSessionId: session.appSessionId,
-      videoId: session.videoId,
-      creator: session.creatorAddress,
-      server: session.serverAddress,
-      totalPaid: session.creatorBalance,
-      viewerRefund: session.viewerBalance,
-      segmentsDelivered: session.segmentsDelivered,
-      stateVersion: session.version,
-      sessionDuration: Math.round((Date.now() - session.createdAt) / 1000),
-      revenue: {
-        creator: creatorShare.toFixed(6),
-        tokenHolders: tokenHolderShare.toFixed(6),
-        protocol: protocolShare.toFixed(6),
+    logger.info(
+      {
+        appSessionId: session.appSessionId,
+        videoId: session.videoId,
+        creator: session.creatorAddress,
+        server: session.serverAddress,
+        totalPaid: session.creatorBalance,
+        viewerRefund: session.viewerBalance,
+        segmentsDelivered: session.segmentsDelivered,
+        stateVersion: session.version,
+        sessionDuration: Math.round((Date.now() - session.createdAt) / 1000),
+        revenue: {
+          creator: formatUsdc(split.creator),
+          tokenHolders: formatUsdc(split.tokenHolders),
+          protocol: formatUsdc(split.protocol),
+        },
       },
-    },
-    "Settlement: initiating cross-chain revenue distribution",
-  );
-
-  // Step 1: Record settlement on Base Sepolia (VideoRegistry)
-  const settlementTxHash = await recordSettlementOnChain(
-    session.videoId,
-    session.viewerAddress,
-    session.segmentsDelivered,
-    session.creatorBalance,
-    session.appSessionId,
-  );
-
-  // Wait for settlement tx to be mined before bridge (same wallet, prevents nonce race)
-  if (settlementTxHash) {
-    try {
-      const publicClient = getBasePublicClient();
-      await publicClient.waitForTransactionReceipt({ hash: settlementTxHash as `0x${string}` });
-    } catch (err) {
-      logger.warn({ err, settlementTxHash }, "Failed to wait for settlement tx receipt (continuing)");
-    }
-  }
-
-  // Step 2: Initiate bridge on Base Sepolia (BridgeEscrow → CCTP demo)
-  let bridgeTxHash: string | null = null;
-  if (session.creatorTokenAddress) {
-    bridgeTxHash = await initiateBridgeOnChain(
-      session.creatorBalance,
-      session.creatorAddress,
-      session.creatorTokenAddress,
-    );
-  } else {
-    logger.warn(
-      { appSessionId: session.appSessionId },
-      "No creatorTokenAddress — skipping bridge",
+      "Settlement: initiating cross-chain revenue distribution",
     );
   }
 
-  // Step 3: Distribute revenue on ARC testnet (RevenueDistributor)
-  let distributionTxHash: string | null = null;
-  if (session.creatorTokenAddress) {
-    distributionTxHash = await distributeRevenueOnChain(
-      session.creatorTokenAddress,
-      session.creatorBalance,
-    );
-  } else {
-    logger.warn(
-      { appSessionId: session.appSessionId },
-      "No creatorTokenAddress — skipping distribution",
-    );
+  await enqueueSettlement({
+    appSessionId: session.appSessionId,
+    creatorBalance: session.creatorBalance,
+    creatorTokenAddress: session.creatorTokenAddress || null,
+  });
+
+  // Also marks zero-revenue sessions settled, as they have no steps
+  const jobs = await runSessionSettlement(session.appSessionId);
+  result.settled = isSettlementComplete(jobs);
+  for (const job of jobs) {
+    if (job.status !== "confirmed") continue;
+    if (job.step === "record") result.settlementTxHash = job.txHash;
+    if (job.step === "bridge") result.bridgeTxHash = job.txHash;
+    if (job.step === "distribute") result.distributionTxHash = job.txHash;
   }
 
   logger.info(
     {
       appSessionId: session.appSessionId,
-      settlementTxHash,
-      bridgeTxHash,
-      distributionTxHash,
+      steps: jobs.map((j) => `${j.step}:${j.status}`),
     },
-    "Settlement complete",
+    "Settlement pass complete",
   );
 
-  return {
-    settlementTxHash,
-    bridgeTxHash,
-    distributionTxHash,
-    custodyDepositTxHash: session.custodyDepositTxHash,
-    channelCloseTxHash: session.channelCloseTxHash,
-    custodyWithdrawTxHash: session.custodyWithdrawTxHash,
-    channelId: session.channelId,
-  };
+  return result;
 }
@@ -0,0 +1,172 @@
+/**
+ * Yellow Session Snapshots
+ *
+ * Conversion between in-memory StreamingSession objects and yellow_sessions
+ * rows, plus the reconciliation rule applied to rehydrated sessions.
+ * Kept free of database and network imports.
+ */
+
+import type { PreparedChannel } from "../nitrolite";
+import type { StreamingSession } from "./session";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+/** Columns needed to restore a session (mirrors yellow_sessions) */
+export interface SessionRow {
+  id: string;
+  videoId: string;
+  viewerAddress: string;
+  creatorAddress: string;
+  serverAddress: string;
+  totalDeposited: string;
+  viewerBalance: string;
+  creatorBalance: string;
+  segmentsDelivered: number | null;
+  pricePerSegment: string;
+  freePreviewSegments: number;
+  version: number;
+  paidSegments: string;
+  creatorTokenAddress: string | null;
+  creatorBondingCurveAddress: string | null;
+  channelId: string | null;
+  custodyDepositTxHash: string | null;
+  channelCloseTxHash: string | null;
+  custodyWithdrawTxHash: string | null;
+  pendingChannelData: string | null;
+  closeStateHash: string | null;
+  createdAt: Date | null;
+  lastPaymentAt: Date | null;
+}
+
+/** What ClearNode reports for an app session */
+export interface RemoteSessionState {
+  status: string;
+  version: number;
+}
+
+export type ReconcileAction =
+  | { action: "resume" }
+  | { action: "close"; reason: string };
+
+// ─── Serialization ───────────────────────────────────────────────────
+
+/**
+ * PreparedChannel holds bigints (nonce, challenge, allocation amounts),
+ * so they are tagged to survive the JSON round trip.
+ */
+export function serializeChannelData(data: PreparedChannel | null): string | null {
+  if (!data) return null;
+  return JSON.stringify(data, (_, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value,
+  );
+}
+
+export function deserializeChannelData(raw: string | null): PreparedChannel | null {
+  if (!raw) return null;
+  return JSON.parse(raw, (_, value) =>
+    value && typeof value === "object" && typeof value.$bigint === "string"
+      ? BigInt(value.$bigint)
+      : value,
+  ) as PreparedChannel;
+}
+
+/**
+ * Session fields written on every state change
+ */
+export function sessionToRow(session: StreamingSession): SessionRow {
+  return {
+    id: session.appSessionId,
+    videoId: session.videoId,
+    viewerAddress: session.viewerAddress,
+    creatorAddress: session.creatorAddress,
+    serverAddress: session.serverAddress,
+    totalDeposited: session.totalDeposited,
+    viewerBalance: session.viewerBalance,
+    creatorBalance: session.creatorBalance,
+    segmentsDelivered: session.segmentsDelivered,
+    pricePerSegment: session.pricePerSegment,
+    freePreviewSegments: session.freePreviewSegments,
+    version: session.version,
+    paidSegments: JSON.stringify(
+      Array.from(session.paidSegments).sort((a, b) => a - b),
+    ),
+    creatorTokenAddress: session.creatorTokenAddress || null,
+    creatorBondingCurveAddress: session.creatorBondingCurveAddress || null,
+    channelId: session.channelId,
+    custodyDepositTxHash: session.custodyDepositTxHash,
+    channelCloseTxHash: session.channelCloseTxHash,
+    custodyWithdrawTxHash: session.custodyWithdrawTxHash,
+    pendingChannelData: serializeChannelData(session.pendingChannelData),
+    closeStateHash: session.closeStateHash,
+    createdAt: new Date(session.createdAt),
+    lastPaymentAt: new Date(session.lastPaymentAt),
+  };
+}
+
+/**
+ * Rebuild an in-memory session from its persisted row
+ */
+export function sessionFromRow(row: SessionRow): StreamingSession {
+  const createdAt = row.createdAt?.getTime() ?? Date.now();
+  return {
+    appSessionId: row.id,
+    videoId: row.videoId,
+    viewerAddress: row.viewerAddress,
+    creatorAddress: row.creatorAddress,
+    serverAddress: row.serverAddress,
+    totalDeposited: row.totalDeposited,
+    viewerBalance: row.viewerBalance,
+    creatorBalance: row.creatorBalance,
+    segmentsDelivered: row.segmentsDelivered ?? 0,
+    pricePerSegment: row.pricePerSegment,
+    freePreviewSegments: row.freePreviewSegments,
+    version: row.version,
+    createdAt,
+    lastPaymentAt: row.lastPaymentAt?.getTime() ?? createdAt,
+    paidSegments: new Set<number>(JSON.parse(row.paidSegments || "[]") as number[]),
+    creatorTokenAddress: row.creatorTokenAddress ?? "",
+    creatorBondingCurveAddress: row.creatorBondingCurveAddress ?? "",
+    channelId: row.channelId,
+    custodyDepositTxHash: row.custodyDepositTxHash,
+    channelCloseTxHash: row.channelCloseTxHash,
+    custodyWithdrawTxHash: row.custodyWithdrawTxHash,
+    pendingChannelData: deserializeChannelData(row.pendingChannelData),
+    closeStateHash: row.closeStateHash,
+  };
+}
+
+// ─── Reconciliation ──────────────────────────────────────────────────
+
+/**
+ * Decide what to do with a rehydrated session given ClearNode's view of it.
+ *
+ * - Local-only sessions (ClearNode creation fell back) have no remote state
+ *   and are resumed as-is.
+ * - Sessions ClearNode already closed are closed and settled locally.
+ * - If ClearNode has a newer version than we persisted, a co-signed update
+ *   was lost in the crash; we cannot reconstruct its allocations, so the
+ *   session is closed at the last persisted state.
+ * - A remote version at or behind ours is normal (submission failures are
+ *   tolerated), so the session resumes.
+ */
+export function reconcileSession(
+  session: StreamingSession,
+  remote: RemoteSessionState | undefined,
+): ReconcileAction {
+  if (!remote) {
+    return { action: "resume" };
+  }
+
+  if (remote.status !== "open") {
+    return { action: "close", reason: `ClearNode session is ${remote.status}` };
+  }
+
+  if (remote.version > session.version) {
+    return {
+      action: "close",
+      reason: `ClearNode version ${remote.version} ahead of persisted version ${session.version}`,
+    };
+  }
+
+  return { action: "resume" };
+}
@@ -0,0 +1,52 @@
+/**
+ * Yellow Session Store
+ *
+ * Durable backing for the in-memory session map. Every state change is
+ * written through to yellow_sessions so active sessions can be rehydrated
+ * after a restart.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "../../db/client";
+import { yellowSessions } from "../../db/schema";
+import type { StreamingSession } from "./session";
+import { sessionFromRow, sessionToRow } from "./snapshot";
+
+/**
+ * Insert or update a session's current state
+ */
+export async function persistSession(session: StreamingSession): Promise<void> {
+  const row = sessionToRow(session);
+  const { id: _id, createdAt: _createdAt, ...updates } = row;
+
+  await db
+    .insert(yellowSessions)
+    .values({ ...row, status: "active" })
+    .onConflictDoUpdate({ target: yellowSessions.id, set: updates });
+}
+
+/**
+ * Load every session still marked active
+ */
+export async function loadActiveSessions(): Promise<StreamingSession[]> {
+  const rows = await db
+    .select()
+    .from(yellowSessions)
+    .where(eq(yellowSessions.status, "active"));
+
+  return rows.map(sessionFromRow);
+}
+
+/**
+ * Mark a session closed with its final balances and custody tx hashes.
+ * Settlement tx hashes and the "settled" status are written by the
+ * settlement queue as each step confirms.
+ */
+export async function markSessionClosed(session: StreamingSession): Promise<void> {
+  const { id: _id, createdAt: _createdAt, ...updates } = sessionToRow(session);
+
+  await db
+    .update(yellowSessions)
+    .set({ ...updates, status: "closed", closedAt: new Date() })
+    .where(eq(yellowSessions.id, session.appSessionId));
+}
@@ -0,0 +1,92 @@
+/**
+ * Keeper Transaction Executors
+ *
+ * The keeper signs through either a Circle developer-controlled wallet
+ * (KEEPER_CIRCLE_WALLET_ID) or a raw private key (KEEPER_PRIVATE_KEY). The
+ * private-key executor sends to whatever ARC_TESTNET_RPC_URL points at,
+ * which is how the keeper runs against a local Hardhat node.
+ */
+
+import {
+  createWalletClient,
+  http,
+  type Abi,
+  type Address,
+  type Hex,
+  type PublicClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { executeContractCall, waitForConfirmation } from "../integrations/circle";
+
+/** A contract call the keeper needs to make */
+export interface KeeperCall {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+  /** Solidity signature for Circle, e.g. "liquidate(address)" */
+  signature: string;
+}
+
+export interface LiquidationExecutor {
+  kind: "circle" | "private-key";
+  address: Address;
+  /** Send a call and wait for it to confirm; resolves with the tx hash */
+  execute(call: KeeperCall): Promise<Hex>;
+}
+
+/**
+ * Executor backed by a Circle developer-controlled wallet
+ */
+export function createCircleExecutor(walletId: string, address: Address): LiquidationExecutor {
+  return {
+    kind: "circle",
+    address,
+    async execute(call) {
+      const tx = await executeContractCall({
+        walletId,
+        contractAddress: call.address,
+        abiFunctionSignature: call.signature,
+        abiParameters: call.args.map((arg) => String(arg)),
+        refId: `keeper-${call.functionName}`,
+      });
+      const confirmed = await waitForConfirmation(tx.id);
+      if (!confirmed.txHash) {
+        throw new Error(`Circle transaction ${tx.id} confirmed without a tx hash`);
+      }
+      return confirmed.txHash as Hex;
+    },
+  };
+}
+
+/**
+ * Executor backed by a local private key
+ */
+export function createPrivateKeyExecutor(
+  privateKey: Hex,
+  rpcUrl: string,
+  publicClient: PublicClient
+): LiquidationExecutor {
+  const account = privateKeyToAccount(privateKey);
+  const wallet = createWalletClient({ account, transport: http(rpcUrl) });
+
+  return {
+    kind: "private-key",
+    address: account.address,
+    async execute(call) {
+      const hash = await wallet.writeContract({
+        address: call.address,
+        abi: call.abi,
+        functionName: call.functionName,
+        args: call.args,
+        account,
+        chain: null, // Chain id comes from the RPC (Arc, or a local Hardhat node)
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") {
+        throw new Error(`Transaction reverted: ${hash}`);
+      }
+      return hash;
+    },
+  };
+}
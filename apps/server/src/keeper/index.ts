@@ -0,0 +1,108 @@
+/**
+ * Liquidation keeper worker
+ *
+ * Started from main when KEEPER_PRIVATE_KEY or KEEPER_CIRCLE_WALLET_ID (+
+ * KEEPER_WALLET_ADDRESS) is set. Ticks never overlap: a slow tick (several
+ * liquidations confirming) just delays the next one.
+ */
+
+import type { Address, Hex } from "viem";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import { getPublicClient } from "../integrations/chain/client";
+import { addresses } from "../integrations/chain/contracts";
+import { createCircleExecutor, createPrivateKeyExecutor, type LiquidationExecutor } from "./executor";
+import { createLiquidationKeeper, type LiquidationKeeper } from "./keeper";
+
+export {
+  createLiquidationKeeper,
+  loadTrackedBorrowers,
+  listLiquidationAttempts,
+  type KeeperOptions,
+  type KeeperTickResult,
+  type LiquidationKeeper,
+} from "./keeper";
+export {
+  createCircleExecutor,
+  createPrivateKeyExecutor,
+  type KeeperCall,
+  type LiquidationExecutor,
+} from "./executor";
+export * from "./plan";
+
+let keeperTimeout: ReturnType<typeof setTimeout> | null = null;
+let keeperStopped = true;
+
+/**
+ * Check if a keeper signer is configured
+ */
+export function isKeeperConfigured(): boolean {
+  return !!(env.KEEPER_PRIVATE_KEY || (env.KEEPER_CIRCLE_WALLET_ID && env.KEEPER_WALLET_ADDRESS));
+}
+
+/**
+ * Build the executor from env (private key wins over Circle)
+ */
+export function getKeeperExecutor(): LiquidationExecutor {
+  if (env.KEEPER_PRIVATE_KEY) {
+    return createPrivateKeyExecutor(
+      env.KEEPER_PRIVATE_KEY as Hex,
+      env.ARC_TESTNET_RPC_URL,
+      getPublicClient()
+    );
+  }
+  if (env.KEEPER_CIRCLE_WALLET_ID && env.KEEPER_WALLET_ADDRESS) {
+    return createCircleExecutor(env.KEEPER_CIRCLE_WALLET_ID, env.KEEPER_WALLET_ADDRESS as Address);
+  }
+  throw new Error(
+    "Liquidation keeper not configured. Set KEEPER_PRIVATE_KEY, or KEEPER_CIRCLE_WALLET_ID and KEEPER_WALLET_ADDRESS."
+  );
+}
+
+/**
+ * Build a keeper for the configured LendingPool and signer
+ */
+export function getLiquidationKeeper(): LiquidationKeeper {
+  return createLiquidationKeeper({
+    client: getPublicClient(),
+    executor: getKeeperExecutor(),
+    lendingPool: addresses.lendingPool,
+    usdc: addresses.usdc,
+    minBonusBps:
+      env.KEEPER_MIN_BONUS_BPS !== undefined ? BigInt(env.KEEPER_MIN_BONUS_BPS) : undefined,
+  });
+}
+
+export function startLiquidationKeeper(intervalMs: number = env.KEEPER_POLL_MS): void {
+  if (!keeperStopped) return;
+  keeperStopped = false;
+
+  const keeper = getLiquidationKeeper();
+
+  async function run() {
+    if (keeperStopped) return;
+    try {
+      const result = await keeper.tick();
+      if (result.unhealthy > 0) {
+        logger.info(result, "Liquidation keeper pass complete");
+      }
+    } catch (err) {
+      logger.error({ err }, "Liquidation keeper pass failed");
+    } finally {
+      if (!keeperStopped) {
+        keeperTimeout = setTimeout(run, intervalMs);
+      }
+    }
+  }
+
+  run();
+  logger.info({ intervalMs, lendingPool: addresses.lendingPool }, "Liquidation keeper started");
+}
+
+export function stopLiquidationKeeper(): void {
+  keeperStopped = true;
+  if (keeperTimeout) {
+    clearTimeout(keeperTimeout);
+    keeperTimeout = null;
+  }
+}
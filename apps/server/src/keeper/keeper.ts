@@ -0,0 +1,274 @@
+/**
+ * Liquidation Keeper
+ *
+ * Tracks every LendingPool borrower seen in lending_events, re-reads their
+ * health factor each tick (debt keeps accruing interest), and liquidates
+ * positions below 1.0 when the seized collateral sells for at least the
+ * minimum bonus over the repaid debt. Every decision on an unhealthy
+ * position is recorded in liquidation_attempts; seized collateral stays in
+ * the keeper wallet.
+ */
+
+import { erc20Abi, type Abi, type Address, type PublicClient } from "viem";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client";
+import { lendingEvents, liquidationAttempts, type LiquidationAttempt } from "../db/schema";
+import { bondingCurveAbi, lendingPoolAbi } from "../integrations/chain/abis";
+import { logger } from "../utils/logger";
+import {
+  evaluateLiquidation,
+  isLiquidatable,
+  liquidationAllowance,
+  type PositionSnapshot,
+} from "./plan";
+import type { LiquidationExecutor } from "./executor";
+
+export interface KeeperOptions {
+  client: PublicClient;
+  executor: LiquidationExecutor;
+  lendingPool: Address;
+  usdc: Address;
+  /** Minimum bonus in bps; defaults to the pool's LIQUIDATION_BONUS */
+  minBonusBps?: bigint;
+}
+
+export interface KeeperTickResult {
+  checked: number;
+  unhealthy: number;
+  liquidated: number;
+}
+
+export interface LiquidationKeeper {
+  /** Check the given borrowers (default: all borrowers from lending_events) */
+  tick(borrowers?: Address[]): Promise<KeeperTickResult>;
+}
+
+// ─── Borrowers ───────────────────────────────────────────────────────
+
+/**
+ * Every address that has deposited collateral or borrowed from the pool
+ */
+export async function loadTrackedBorrowers(): Promise<Address[]> {
+  const rows = await db
+    .selectDistinct({ borrower: lendingEvents.borrower })
+    .from(lendingEvents)
+    .where(inArray(lendingEvents.kind, ["deposit", "borrow"]));
+  return rows.map((r) => r.borrower as Address);
+}
+
+// ─── Attempts ────────────────────────────────────────────────────────
+
+/**
+ * Most recent keeper decisions, newest first
+ */
+export async function listLiquidationAttempts(
+  options: { borrower?: string; status?: string; limit?: number } = {}
+): Promise<LiquidationAttempt[]> {
+  const conditions = [];
+  if (options.borrower) conditions.push(eq(liquidationAttempts.borrower, options.borrower));
+  if (options.status) conditions.push(eq(liquidationAttempts.status, options.status));
+
+  return db
+    .select()
+    .from(liquidationAttempts)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(liquidationAttempts.createdAt))
+    .limit(options.limit ?? 100);
+}
+
+// ─── Keeper ──────────────────────────────────────────────────────────
+
+export function createLiquidationKeeper(options: KeeperOptions): LiquidationKeeper {
+  const { client, executor, lendingPool, usdc } = options;
+  let minBonusBps = options.minBonusBps ?? null;
+  // Last skip reason per borrower, so an unprofitable position is recorded once, not every tick
+  const lastSkip = new Map<string, string>();
+
+  async function readPosition(borrower: Address): Promise<PositionSnapshot | null> {
+    const [collateralToken, collateralAmount, borrowedAmount] = (await client.readContract({
+      address: lendingPool,
+      abi: lendingPoolAbi,
+      functionName: "loans",
+      args: [borrower],
+    })) as readonly [Address, bigint, bigint, bigint, bigint];
+
+    if (borrowedAmount === 0n) return null;
+
+    const healthFactor = (await client.readContract({
+      address: lendingPool,
+      abi: lendingPoolAbi,
+      functionName: "getHealthFactor",
+      args: [borrower],
+    })) as bigint;
+
+    const position: PositionSnapshot = {
+      borrower,
+      collateralToken,
+      collateralAmount,
+      totalDebt: 0n,
+      healthFactor,
+      saleProceeds: 0n,
+    };
+    if (!isLiquidatable(healthFactor)) return position;
+
+    position.totalDebt = (await client.readContract({
+      address: lendingPool,
+      abi: lendingPoolAbi,
+      functionName: "getTotalDebt",
+      args: [borrower],
+    })) as bigint;
+
+    const curve = (await client.readContract({
+      address: lendingPool,
+      abi: lendingPoolAbi,
+      functionName: "tokenToBondingCurve",
+      args: [collateralToken],
+    })) as Address;
+
+    try {
+      position.saleProceeds = (await client.readContract({
+        address: curve,
+        abi: bondingCurveAbi,
+        functionName: "getSellQuote",
+        args: [collateralAmount],
+      })) as bigint;
+    } catch (error) {
+      logger.warn(
+        { borrower, curve, error: error instanceof Error ? error.message : String(error) },
+        "Failed to quote collateral sale, treating proceeds as zero"
+      );
+    }
+
+    return position;
+  }
+
+  async function ensureUsdcAllowance(amount: bigint): Promise<void> {
+    const allowance = (await client.readContract({
+      address: usdc,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [executor.address, lendingPool],
+    })) as bigint;
+    if (allowance >= amount) return;
+
+    await executor.execute({
+      address: usdc,
+      abi: erc20Abi as Abi,
+      functionName: "approve",
+      args: [lendingPool, amount],
+      signature: "approve(address,uint256)",
+    });
+  }
+
+  async function handleUnhealthy(position: PositionSnapshot): Promise<boolean> {
+    if (minBonusBps === null) {
+      minBonusBps = (await client.readContract({
+        address: lendingPool,
+        abi: lendingPoolAbi,
+        functionName: "LIQUIDATION_BONUS",
+      })) as bigint;
+    }
+
+    const availableUsdc = (await client.readContract({
+      address: usdc,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [executor.address],
+    })) as bigint;
+
+    const decision = evaluateLiquidation(position, { minBonusBps, availableUsdc });
+    const base = {
+      borrower: position.borrower,
+      collateralToken: position.collateralToken,
+      collateralAmount: position.collateralAmount.toString(),
+      totalDebt: position.totalDebt.toString(),
+      healthFactor: position.healthFactor.toString(),
+      saleProceeds: position.saleProceeds.toString(),
+      bonusBps: Number(decision.bonusBps),
+      executor: executor.address,
+    };
+
+    if (decision.action === "skip") {
+      // Amounts in the reason drift every tick; dedupe on the category before the colon
+      const category = decision.reason.split(":")[0];
+      if (lastSkip.get(position.borrower) !== category) {
+        lastSkip.set(position.borrower, category);
+        await db.insert(liquidationAttempts).values({ ...base, status: "skipped", reason: decision.reason });
+        logger.info({ borrower: position.borrower, reason: decision.reason }, "Skipping liquidation");
+      }
+      return false;
+    }
+
+    lastSkip.delete(position.borrower);
+    const [attempt] = await db
+      .insert(liquidationAttempts)
+      .values({ ...base, status: "submitted" })
+      .returning({ id: liquidationAttempts.id });
+
+    logger.info(
+      {
+        borrower: position.borrower,
+        healthFactor: position.healthFactor.toString(),
+        debt: position.totalDebt.toString(),
+        expectedProfit: decision.expectedProfit.toString(),
+      },
+      "Liquidating unhealthy position"
+    );
+
+    try {
+      await ensureUsdcAllowance(liquidationAllowance(position.totalDebt));
+      const txHash = await executor.execute({
+        address: lendingPool,
+        abi: lendingPoolAbi as Abi,
+        functionName: "liquidate",
+        args: [position.borrower],
+        signature: "liquidate(address)",
+      });
+
+      await db
+        .update(liquidationAttempts)
+        .set({ status: "confirmed", txHash, updatedAt: new Date() })
+        .where(eq(liquidationAttempts.id, attempt.id));
+      logger.info({ borrower: position.borrower, txHash }, "Liquidation confirmed");
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await db
+        .update(liquidationAttempts)
+        .set({ status: "failed", reason: message, updatedAt: new Date() })
+        .where(eq(liquidationAttempts.id, attempt.id));
+      logger.warn({ borrower: position.borrower, error: message }, "Liquidation failed");
+      return false;
+    }
+  }
+
+  async function tick(borrowers?: Address[]): Promise<KeeperTickResult> {
+    const tracked = borrowers ?? (await loadTrackedBorrowers());
+    const result: KeeperTickResult = { checked: 0, unhealthy: 0, liquidated: 0 };
+
+    for (const borrower of tracked) {
+      try {
+        const position = await readPosition(borrower);
+        result.checked++;
+        if (!position || !isLiquidatable(position.healthFactor)) {
+          lastSkip.delete(borrower);
+          continue;
+        }
+
+        result.unhealthy++;
+        if (await handleUnhealthy(position)) {
+          result.liquidated++;
+        }
+      } catch (error) {
+        logger.warn(
+          { borrower, error: error instanceof Error ? error.message : String(error) },
+          "Failed to check borrower position"
+        );
+      }
+    }
+
+    return result;
+  }
+
+  return { tick };
+}
@@ -0,0 +1,97 @@
+/**
+ * Liquidation Plan
+ *
+ * Pure rules for the keeper: when a LendingPool position is liquidatable
+ * and whether liquidating it is worth it. `liquidate(borrower)` repays the
+ * whole debt and seizes all collateral, so the keeper's bonus is whatever
+ * the collateral sells for on its bonding curve above the debt.
+ */
+
+/** Health factor of exactly 1.0 (contract uses 1e18 precision) */
+export const HEALTH_FACTOR_ONE = 10n ** 18n;
+
+const BASIS_POINTS = 10_000n;
+
+export interface PositionSnapshot {
+  borrower: string;
+  collateralToken: string;
+  collateralAmount: bigint; // 18 decimals
+  totalDebt: bigint; // USDC, 6 decimals (principal + accrued interest)
+  healthFactor: bigint; // 1e18 precision
+  /** USDC the seized collateral would sell for on its bonding curve */
+  saleProceeds: bigint;
+}
+
+export interface LiquidationPolicy {
+  /** Minimum bonus over the repaid debt, in bps (defaults to the pool's LIQUIDATION_BONUS) */
+  minBonusBps: bigint;
+  /** USDC the keeper wallet can spend on repaying debt */
+  availableUsdc: bigint;
+}
+
+export type LiquidationDecision =
+  | { action: "liquidate"; expectedProfit: bigint; bonusBps: bigint }
+  | { action: "skip"; reason: string; expectedProfit: bigint; bonusBps: bigint };
+
+/**
+ * USDC to approve for repaying a debt: interest keeps accruing between the
+ * read and the liquidation tx, so leave 0.1% headroom
+ */
+export function liquidationAllowance(totalDebt: bigint): bigint {
+  return totalDebt + totalDebt / 1_000n + 1n;
+}
+
+/**
+ * A position is liquidatable once its health factor drops below 1.0
+ */
+export function isLiquidatable(healthFactor: bigint): boolean {
+  return healthFactor < HEALTH_FACTOR_ONE;
+}
+
+/**
+ * Realised bonus in bps: (proceeds - debt) / debt
+ */
+export function liquidationBonusBps(saleProceeds: bigint, totalDebt: bigint): bigint {
+  if (totalDebt === 0n) return 0n;
+  return ((saleProceeds - totalDebt) * BASIS_POINTS) / totalDebt;
+}
+
+/**
+ * Decide whether to liquidate a position
+ */
+export function evaluateLiquidation(
+  position: PositionSnapshot,
+  policy: LiquidationPolicy,
+): LiquidationDecision {
+  const expectedProfit = position.saleProceeds - position.totalDebt;
+  const bonusBps = liquidationBonusBps(position.saleProceeds, position.totalDebt);
+
+  if (!isLiquidatable(position.healthFactor)) {
+    return { action: "skip", reason: "Position is healthy", expectedProfit, bonusBps };
+  }
+
+  if (position.totalDebt === 0n) {
+    return { action: "skip", reason: "No debt to repay", expectedProfit, bonusBps };
+  }
+
+  if (bonusBps < policy.minBonusBps) {
+    return {
+      action: "skip",
+      reason: `Unprofitable: bonus ${bonusBps} bps below minimum ${policy.minBonusBps} bps`,
+      expectedProfit,
+      bonusBps,
+    };
+  }
+
+  const required = liquidationAllowance(position.totalDebt);
+  if (policy.availableUsdc < required) {
+    return {
+      action: "skip",
+      reason: `Insufficient USDC: need ${required}, have ${policy.availableUsdc}`,
+      expectedProfit,
+      bonusBps,
+    };
+  }
+
+  return { action: "liquidate", expectedProfit, bonusBps };
+}
@@ -0,0 +1,24 @@
+/**
+ * Live streaming
+ *
+ * RTMP (or FFmpeg test source) ingest segmented, encrypted and published
+ * in real time, with a rolling Merkle commitment over segment keys. Keys
+ * are sold per segment through the same routes as VOD.
+ */
+
+export {
+  startLiveStream,
+  stopLiveStream,
+  stopAllLiveStreams,
+  recoverLiveStreams,
+  getLiveStream,
+  getLiveSegments,
+  getLiveCommitment,
+  getLiveSegmentProof,
+  liveWorkDir,
+  livePlaybackUrl,
+  LiveStreamLimitError,
+  type NewLiveStreamInput,
+  type LiveStreamStart,
+} from "./streams";
+export * from "./plan";
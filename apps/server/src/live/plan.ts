@@ -0,0 +1,290 @@
+/**
+ * Live Stream Planning
+ *
+ * Pure rules for live ingest: the rolling Merkle commitment over segment
+ * keys, FFmpeg's segment list, FFmpeg arguments for each ingest source and
+ * ingest port allocation. Kept free of database, process and env imports.
+ *
+ * Live segment keys are derived from the video's master secret exactly as
+ * for VOD. Because the total is unknown until the stream ends, keys are
+ * committed in windows of `windowSize` segments: when a window fills, the
+ * root over its keys is committed and never changes. The video's Merkle
+ * root is the root over all committed window roots, so it grows one leaf
+ * per window. Key proofs prove a segment against its window root; proofs
+ * for a committed window also prove that root against the commitment.
+ */
+
+import {
+  buildMerkleTree,
+  deriveSegmentKey,
+  generateMerkleProof,
+  getMerkleRoot,
+  type MerkleProof,
+} from "@versus/streaming";
+import { join } from "path";
+import { RENDITION_PRESETS, type Rendition } from "../video/renditions";
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export type LiveSource = "rtmp" | "test";
+
+/** Where a segment's key sits in the rolling commitment */
+export interface LiveWindow {
+  windowIndex: number;
+  startSegment: number;
+  /** Segments published in the window so far */
+  segmentCount: number;
+}
+
+/**
+ * Key proof for a live segment. The MerkleProof fields prove the key
+ * against its window root (index is the position within the window).
+ */
+export interface LiveSegmentProof extends MerkleProof {
+  segmentIndex: number;
+  windowIndex: number;
+  startSegment: number;
+  /** Whether the window root is final (false while the window is filling) */
+  committed: boolean;
+  /** Proof of the window root against the video's Merkle root, once committed */
+  commitment: MerkleProof | null;
+}
+
+/** One completed segment from FFmpeg's CSV segment list */
+export interface SegmentListEntry {
+  file: string;
+  start: number;
+  end: number;
+}
+
+export interface LiveIngestInput {
+  source: string;
+  options: string[];
+}
+
+export interface LiveIngestArgs {
+  inputs: LiveIngestInput[];
+  outputOptions: string[];
+  /** Segment file pattern in the work directory */
+  output: string;
+}
+
+export interface LiveIngestOptions {
+  source: LiveSource;
+  quality: Rendition;
+  segmentDuration: number;
+  /** RTMP listen port (rtmp source) */
+  port?: number;
+  /** Stream key the broadcaster must publish to (rtmp source) */
+  streamKey?: string;
+  /** Directory segments and the segment list are written to */
+  workDir: string;
+}
+
+export const LIVE_SEGMENT_LIST = "segments.csv";
+
+// ─── Rolling Merkle commitment ───────────────────────────────────────
+
+/**
+ * The window a segment belongs to, given how many segments are published
+ */
+export function liveWindowOf(
+  segmentIndex: number,
+  windowSize: number,
+  segmentsPublished: number,
+): LiveWindow {
+  const windowIndex = Math.floor(segmentIndex / windowSize);
+  const startSegment = windowIndex * windowSize;
+  return {
+    windowIndex,
+    startSegment,
+    segmentCount: Math.max(0, Math.min(windowSize, segmentsPublished - startSegment)),
+  };
+}
+
+/**
+ * Windows that are full once `segmentsPublished` segments are out, plus
+ * the trailing partial window when the stream has ended
+ */
+export function closedWindowCount(
+  segmentsPublished: number,
+  windowSize: number,
+  ended: boolean,
+): number {
+  const full = Math.floor(segmentsPublished / windowSize);
+  return ended && segmentsPublished % windowSize > 0 ? full + 1 : full;
+}
+
+function windowKeys(masterSecret: Buffer, videoId: string, window: LiveWindow): Buffer[] {
+  return Array.from({ length: window.segmentCount }, (_, i) =>
+    deriveSegmentKey(masterSecret, videoId, window.startSegment + i),
+  );
+}
+
+/**
+ * Root over the keys published in a window
+ */
+export function liveWindowRoot(masterSecret: Buffer, videoId: string, window: LiveWindow): string {
+  if (window.segmentCount === 0) {
+    throw new Error(`Live window ${window.windowIndex} has no segments`);
+  }
+  return getMerkleRoot(buildMerkleTree(windowKeys(masterSecret, videoId, window)));
+}
+
+/**
+ * Root over the committed window roots (the video's Merkle root)
+ */
+export function liveCommitmentRoot(windowRoots: string[]): string | null {
+  if (windowRoots.length === 0) return null;
+  return getMerkleRoot(buildMerkleTree(windowRoots.map((r) => Buffer.from(r, "hex"))));
+}
+
+/**
+ * Proof for a published segment's key. `committedRoots` are the stored
+ * window roots in window order.
+ */
+export function liveSegmentProof(
+  masterSecret: Buffer,
+  videoId: string,
+  segmentIndex: number,
+  windowSize: number,
+  segmentsPublished: number,
+  committedRoots: string[],
+): LiveSegmentProof {
+  if (segmentIndex < 0 || segmentIndex >= segmentsPublished) {
+    throw new Error(`Live segment ${segmentIndex} is not published`);
+  }
+
+  const window = liveWindowOf(segmentIndex, windowSize, segmentsPublished);
+  const tree = buildMerkleTree(windowKeys(masterSecret, videoId, window));
+  const proof = generateMerkleProof(tree, segmentIndex - window.startSegment);
+  const committed = window.windowIndex < committedRoots.length;
+
+  return {
+    ...proof,
+    segmentIndex,
+    windowIndex: window.windowIndex,
+    startSegment: window.startSegment,
+    committed,
+    commitment: committed
+      ? generateMerkleProof(
+          buildMerkleTree(committedRoots.map((r) => Buffer.from(r, "hex"))),
+          window.windowIndex,
+        )
+      : null,
+  };
+}
+
+// ─── FFmpeg ──────────────────────────────────────────────────────────
+
+/**
+ * Parse FFmpeg's CSV segment list (`file,start,end` per completed
+ * segment). A trailing partial line, still being written, is ignored.
+ */
+export function parseSegmentList(csv: string): SegmentListEntry[] {
+  const lines = csv.split("\n");
+  if (!csv.endsWith("\n")) lines.pop();
+
+  const entries: SegmentListEntry[] = [];
+  for (const line of lines) {
+    const [file, start, end] = line.trim().split(",");
+    if (!file || start === undefined || end === undefined) continue;
+    const startTime = Number(start);
+    const endTime = Number(end);
+    if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) continue;
+    entries.push({ file, start: startTime, end: endTime });
+  }
+  return entries;
+}
+
+/**
+ * Duration of a listed segment, rounded to centiseconds like VOD segments
+ */
+export function segmentEntryDuration(entry: SegmentListEntry): number {
+  return Math.max(0, Math.round((entry.end - entry.start) * 100) / 100);
+}
+
+/**
+ * FFmpeg inputs and outputs for a live ingest. The rtmp source listens
+ * for one broadcaster on the stream key's URL; the test source renders a
+ * test pattern and tone in real time. Both encode one rendition with
+ * keyframes on segment boundaries and append each finished MPEG-TS
+ * segment to a CSV list the publisher polls.
+ */
+export function liveIngestArgs(options: LiveIngestOptions): LiveIngestArgs {
+  const preset = RENDITION_PRESETS[options.quality];
+  let inputs: LiveIngestInput[];
+  let audioMap: string;
+
+  if (options.source === "rtmp") {
+    if (!options.port || !options.streamKey) {
+      throw new Error("RTMP ingest needs a port and stream key");
+    }
+    inputs = [
+      {
+        source: `rtmp://0.0.0.0:${options.port}/live/${options.streamKey}`,
+        options: ["-listen 1"],
+      },
+    ];
+    audioMap = "0:a:0?";
+  } else {
+    inputs = [
+      {
+        source: `testsrc2=size=${preset.width}x${preset.height}:rate=30`,
+        options: ["-re", "-f lavfi"],
+      },
+      { source: "sine=frequency=440:sample_rate=48000", options: ["-re", "-f lavfi"] },
+    ];
+    audioMap = "1:a:0";
+  }
+
+  return {
+    inputs,
+    outputOptions: [
+      `-c:v libx264`,
+      `-preset veryfast`,
+      `-tune zerolatency`,
+      `-profile:v main`,
+      `-level ${preset.level}`,
+      `-b:v ${preset.videoBitrateKbps}k`,
+      `-vf scale=${preset.width}:${preset.height}`,
+      `-c:a aac`,
+      `-b:a ${preset.audioBitrateKbps}k`,
+      `-force_key_frames expr:gte(t,n_forced*${options.segmentDuration})`,
+      `-sc_threshold 0`,
+      `-f segment`,
+      `-segment_format mpegts`,
+      `-segment_time ${options.segmentDuration}`,
+      `-segment_list ${join(options.workDir, LIVE_SEGMENT_LIST)}`,
+      `-segment_list_type csv`,
+      `-segment_list_flags +live`,
+      `-reset_timestamps 1`,
+      `-map 0:v:0`,
+      `-map ${audioMap}`,
+      `-bsf:v h264_mp4toannexb`,
+    ],
+    output: join(options.workDir, "segment_%05d.ts"),
+  };
+}
+
+/**
+ * First free RTMP port in [basePort, basePort + maxStreams), or null
+ */
+export function pickIngestPort(
+  basePort: number,
+  maxStreams: number,
+  usedPorts: Iterable<number>,
+): number | null {
+  const used = new Set(usedPorts);
+  for (let port = basePort; port < basePort + maxStreams; port++) {
+    if (!used.has(port)) return port;
+  }
+  return null;
+}
+
+/**
+ * Storage path of an encrypted live segment
+ */
+export function liveSegmentPath(videoId: string, quality: string, segmentIndex: number): string {
+  return `${videoId}/${quality}/segment_${segmentIndex.toString().padStart(5, "0")}.ts`;
+}
@@ -0,0 +1,606 @@
+/**
+ * Live Streams
+ *
+ * Runs one FFmpeg ingest per live stream (an RTMP listener, or a test
+ * pattern) and publishes its segments as they complete: each segment is
+ * encrypted with its key derived from the video's master secret, uploaded
+ * to storage and recorded in live_segments, and every full window of
+ * segments has its key root committed (see ./plan). The video is streamed
+ * through the normal key routes while live, so viewers pay per segment on
+ * the same Yellow path as VOD.
+ *
+ * When the broadcaster disconnects or the creator stops the stream, the
+ * last segments are published, the trailing window is committed, and the
+ * video becomes a ready VOD (its playlist gains ENDLIST) and is
+ * registered on-chain.
+ */
+
+import ffmpeg, { type FfmpegCommand } from "fluent-ffmpeg";
+import { randomBytes } from "crypto";
+import { join, resolve } from "path";
+import { mkdir, readFile, rm } from "fs/promises";
+import { and, asc, eq, inArray, ne, sql } from "drizzle-orm";
+import {
+  deriveSegmentKeyPair,
+  encryptSegment,
+  generateMasterSecret,
+  generateVideoId,
+} from "@versus/streaming";
+import { db } from "../db/client";
+import {
+  liveMerkleWindows,
+  liveSegments,
+  liveStreams,
+  videos,
+  type LiveSegment,
+  type LiveStream,
+} from "../db/schema";
+import { getStorageProvider } from "../integrations/storage";
+import {
+  isBaseSepoliaConfigured,
+  registerVideoOnChain,
+} from "../integrations/chain/video-registry";
+import { creatorSettlementFields } from "../uploads/store";
+import { parseRenditionLadder } from "../video/renditions";
+import { contentTypeFor } from "../video/local-storage";
+import { decryptSecret, encryptSecret } from "../utils/encryption";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import {
+  LIVE_SEGMENT_LIST,
+  closedWindowCount,
+  liveCommitmentRoot,
+  liveIngestArgs,
+  liveSegmentPath,
+  liveSegmentProof,
+  liveWindowOf,
+  liveWindowRoot,
+  parseSegmentList,
+  pickIngestPort,
+  segmentEntryDuration,
+  type LiveSegmentProof,
+  type LiveSource,
+} from "./plan";
+
+const LIVE_POLL_MS = 1_000;
+/** How long FFmpeg gets to flush its last segment after SIGINT */
+const STOP_GRACE_MS = 10_000;
+
+interface RunningIngest {
+  videoId: string;
+  port: number | null;
+  command: FfmpegCommand;
+  timer: ReturnType<typeof setInterval>;
+  stopping: boolean;
+  exited: Promise<void>;
+}
+
+const ingests = new Map<string, RunningIngest>();
+const publishesInFlight = new Map<string, Promise<void>>();
+const finalizing = new Set<string>();
+
+/**
+ * Every live ingest slot (or RTMP port) is taken
+ */
+export class LiveStreamLimitError extends Error {
+  readonly status = 429;
+
+  constructor() {
+    super(`Live stream limit reached (${env.LIVE_MAX_STREAMS})`);
+    this.name = "LiveStreamLimitError";
+  }
+}
+
+export interface NewLiveStreamInput {
+  title: string;
+  description?: string | null;
+  creatorId: string | null;
+  agentId: string | null;
+  source: LiveSource;
+}
+
+export interface LiveStreamStart {
+  stream: LiveStream;
+  /** RTMP URL to publish to (null for the test source) */
+  ingestUrl: string | null;
+  /** Only returned here; the broadcaster must publish to this key */
+  streamKey: string | null;
+  playbackUrl: string;
+}
+
+function keyServerBaseUrl(): string {
+  return env.FRONTEND_URL || `http://localhost:${env.PORT}`;
+}
+
+/**
+ * Directory a live ingest writes segments and its segment list to
+ */
+export function liveWorkDir(videoId: string): string {
+  return join(resolve(env.VIDEO_UPLOAD_DIR), "live", videoId);
+}
+
+/**
+ * Master playlist URL of a live video
+ */
+export function livePlaybackUrl(videoId: string): string {
+  return `${keyServerBaseUrl()}/api/live/${videoId}/master.m3u8`;
+}
+
+/**
+ * Update a video unless it was deleted during the stream
+ */
+async function updateLiveVideo(
+  videoId: string,
+  values: Partial<typeof videos.$inferInsert>,
+): Promise<void> {
+  await db
+    .update(videos)
+    .set(values)
+    .where(and(eq(videos.id, videoId), ne(videos.status, "deleted")));
+}
+
+// ─── Publishing ──────────────────────────────────────────────────────
+
+/**
+ * Commit the root of every window closed by `segmentsPublished` that has
+ * no stored root yet, and extend the video's Merkle root over them
+ */
+async function commitWindows(
+  videoId: string,
+  masterSecret: Buffer,
+  windowSize: number,
+  segmentsPublished: number,
+  ended: boolean,
+): Promise<void> {
+  const committed = await db
+    .select({ root: liveMerkleWindows.root })
+    .from(liveMerkleWindows)
+    .where(eq(liveMerkleWindows.videoId, videoId))
+    .orderBy(asc(liveMerkleWindows.windowIndex));
+
+  const target = closedWindowCount(segmentsPublished, windowSize, ended);
+  if (target <= committed.length) return;
+
+  const roots = committed.map((w) => w.root);
+  for (let windowIndex = roots.length; windowIndex < target; windowIndex++) {
+    const window = liveWindowOf(windowIndex * windowSize, windowSize, segmentsPublished);
+    const root = liveWindowRoot(masterSecret, videoId, window);
+    await db
+      .insert(liveMerkleWindows)
+      .values({
+        videoId,
+        windowIndex,
+        startSegment: window.startSegment,
+        segmentCount: window.segmentCount,
+        root,
+      })
+      .onConflictDoNothing();
+    roots.push(root);
+    logger.info({ videoId, windowIndex, root }, "Live Merkle window committed");
+  }
+
+  await updateLiveVideo(videoId, { merkleRoot: liveCommitmentRoot(roots) });
+}
+
+/**
+ * Encrypt, upload and record every segment FFmpeg has finished since the
+ * last pass. Segments are published strictly in order, and the video's
+ * segment count only moves once a segment is stored, so keys are never
+ * sold for segments viewers can't fetch yet.
+ */
+async function publishPending(videoId: string): Promise<void> {
+  const [stream] = await db
+    .select()
+    .from(liveStreams)
+    .where(eq(liveStreams.videoId, videoId))
+    .limit(1);
+  const [video] = await db
+    .select({ masterSecret: videos.masterSecret })
+    .from(videos)
+    .where(eq(videos.id, videoId))
+    .limit(1);
+  if (!stream || !video?.masterSecret) return;
+
+  const workDir = liveWorkDir(videoId);
+  let csv: string;
+  try {
+    csv = await readFile(join(workDir, LIVE_SEGMENT_LIST), "utf8");
+  } catch {
+    return; // No segment finished yet
+  }
+
+  const entries = parseSegmentList(csv).slice(stream.segmentsPublished);
+  if (entries.length === 0) return;
+
+  const masterSecret = Buffer.from(decryptSecret(video.masterSecret), "hex");
+  const storage = getStorageProvider();
+  let published = stream.segmentsPublished;
+
+  for (const entry of entries) {
+    const segmentIndex = published;
+    const data = await readFile(join(workDir, entry.file));
+    const { key, iv } = deriveSegmentKeyPair(masterSecret, videoId, segmentIndex);
+    const path = liveSegmentPath(videoId, stream.quality, segmentIndex);
+
+    await storage.upload(path, encryptSegment(data, key, iv), contentTypeFor(path));
+    await db
+      .insert(liveSegments)
+      .values({
+        videoId,
+        segmentIndex,
+        duration: segmentEntryDuration(entry),
+        ivHex: iv.toString("hex"),
+        path,
+      })
+      .onConflictDoNothing();
+    published++;
+
+    const [{ total }] = await db
+      .select({ total: sql<number>`coalesce(sum(${liveSegments.duration}), 0)` })
+      .from(liveSegments)
+      .where(eq(liveSegments.videoId, videoId));
+    await db
+      .update(liveStreams)
+      .set({
+        status: "live",
+        segmentsPublished: published,
+        startedAt: sql`coalesce(${liveStreams.startedAt}, now())`,
+        lastSegmentAt: new Date(),
+      })
+      .where(eq(liveStreams.id, stream.id));
+    await updateLiveVideo(videoId, {
+      totalSegments: published,
+      durationSeconds: Math.round(Number(total)),
+    });
+
+    if (published % stream.windowSize === 0) {
+      await commitWindows(videoId, masterSecret, stream.windowSize, published, false);
+    }
+    await rm(join(workDir, entry.file), { force: true });
+  }
+
+  logger.debug({ videoId, published }, "Live segments published");
+}
+
+/**
+ * Run publishPending after any pass already in flight for the stream
+ */
+async function publishSerially(videoId: string): Promise<void> {
+  const previous = publishesInFlight.get(videoId) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(() => publishPending(videoId));
+  publishesInFlight.set(videoId, next);
+  try {
+    await next;
+  } finally {
+    if (publishesInFlight.get(videoId) === next) {
+      publishesInFlight.delete(videoId);
+    }
+  }
+}
+
+/**
+ * Register the finished stream's commitment on-chain (best effort; a
+ * failure leaves it unregistered without affecting playback)
+ */
+async function registerLiveVideo(videoId: string): Promise<void> {
+  const [video] = await db.select().from(videos).where(eq(videos.id, videoId)).limit(1);
+  if (
+    !video ||
+    video.status !== "ready" ||
+    video.registryTxHash ||
+    !video.merkleRoot ||
+    !isBaseSepoliaConfigured()
+  ) {
+    return;
+  }
+
+  const txHash = await registerVideoOnChain(
+    video.id,
+    video.merkleRoot,
+    video.creatorWallet || "0x0000000000000000000000000000000000000000",
+    video.totalSegments ?? 0,
+  );
+  if (txHash) {
+    await updateLiveVideo(videoId, { registryTxHash: txHash, registryChainId: 84532 });
+  } else {
+    logger.warn({ videoId }, "VideoRegistry registration of live video failed");
+  }
+}
+
+/**
+ * Publish what's left, commit the trailing window and turn the stream
+ * into a VOD. A stream that published nothing leaves a failed video.
+ */
+async function finalizeLiveStream(videoId: string, error: string | null): Promise<void> {
+  if (finalizing.has(videoId)) return;
+  finalizing.add(videoId);
+
+  try {
+    try {
+      await publishSerially(videoId);
+    } catch (err) {
+      logger.error({ err, videoId }, "Publishing final live segments failed");
+    }
+
+    const [stream] = await db
+      .select()
+      .from(liveStreams)
+      .where(eq(liveStreams.videoId, videoId))
+      .limit(1);
+    if (!stream || stream.status === "ended" || stream.status === "failed") return;
+
+    const [video] = await db
+      .select({ masterSecret: videos.masterSecret })
+      .from(videos)
+      .where(eq(videos.id, videoId))
+      .limit(1);
+    if (video?.masterSecret && stream.segmentsPublished > 0) {
+      await commitWindows(
+        videoId,
+        Buffer.from(decryptSecret(video.masterSecret), "hex"),
+        stream.windowSize,
+        stream.segmentsPublished,
+        true,
+      );
+    }
+
+    await db
+      .update(liveStreams)
+      .set({ status: error ? "failed" : "ended", lastError: error, endedAt: new Date() })
+      .where(eq(liveStreams.id, stream.id));
+    await updateLiveVideo(videoId, {
+      status: stream.segmentsPublished > 0 ? "ready" : "failed",
+      processedAt: new Date(),
+    });
+    await rm(liveWorkDir(videoId), { recursive: true, force: true });
+
+    logger.info(
+      { videoId, segments: stream.segmentsPublished, error },
+      "Live stream ended",
+    );
+
+    await registerLiveVideo(videoId).catch((err) => {
+      logger.warn({ err, videoId }, "VideoRegistry registration of live video failed");
+    });
+  } finally {
+    finalizing.delete(videoId);
+  }
+}
+
+// ─── Ingest process ──────────────────────────────────────────────────
+
+function spawnIngest(stream: LiveStream, streamKey: string | null): RunningIngest {
+  const args = liveIngestArgs({
+    source: stream.source as LiveSource,
+    quality: parseRenditionLadder(stream.quality)[0],
+    segmentDuration: stream.segmentDuration,
+    port: stream.ingestPort ?? undefined,
+    streamKey: streamKey ?? undefined,
+    workDir: liveWorkDir(stream.videoId),
+  });
+
+  const command = ffmpeg();
+  for (const input of args.inputs) {
+    command.input(input.source).inputOptions(input.options);
+  }
+  command.outputOptions(args.outputOptions).output(args.output);
+
+  const videoId = stream.videoId;
+  const ingest: RunningIngest = {
+    videoId,
+    port: stream.ingestPort,
+    command,
+    timer: setInterval(() => {
+      if (publishesInFlight.has(videoId)) return;
+      publishSerially(videoId).catch((err) => {
+        logger.error({ err, videoId }, "Live segment publishing failed");
+      });
+    }, LIVE_POLL_MS),
+    stopping: false,
+    exited: Promise.resolve(),
+  };
+
+  // FFmpeg exits non-zero when interrupted, so errors during a requested
+  // stop are a normal end
+  ingest.exited = new Promise<void>((resolveExit) => {
+    const onExit = (error: string | null) => {
+      clearInterval(ingest.timer);
+      ingests.delete(videoId);
+      resolveExit();
+      if (!ingest.stopping) {
+        finalizeLiveStream(videoId, error).catch((err) => {
+          logger.error({ err, videoId }, "Finalizing live stream failed");
+        });
+      }
+    };
+    command.on("end", () => onExit(null));
+    command.on("error", (err: Error) =>
+      onExit(ingest.stopping ? null : `FFmpeg error: ${err.message}`),
+    );
+  });
+
+  command.run();
+  ingests.set(videoId, ingest);
+  return ingest;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Create a live video and start its ingest. The video is streamable (and
+ * priced like any other) as soon as its first segment is published.
+ */
+export async function startLiveStream(input: NewLiveStreamInput): Promise<LiveStreamStart> {
+  if (ingests.size >= env.LIVE_MAX_STREAMS) {
+    throw new LiveStreamLimitError();
+  }
+
+  let port: number | null = null;
+  if (input.source === "rtmp") {
+    port = pickIngestPort(
+      env.LIVE_RTMP_PORT,
+      env.LIVE_MAX_STREAMS,
+      Array.from(ingests.values(), (i) => i.port).filter((p): p is number => p !== null),
+    );
+    if (port === null) {
+      throw new LiveStreamLimitError();
+    }
+  }
+
+  const quality = parseRenditionLadder(env.LIVE_RENDITION)[0];
+  const settlement = await creatorSettlementFields(input);
+  const videoId = generateVideoId();
+  const streamKey = input.source === "rtmp" ? randomBytes(16).toString("hex") : null;
+
+  const stream = await db.transaction(async (tx) => {
+    await tx.insert(videos).values({
+      id: videoId,
+      agentId: input.agentId,
+      creatorId: input.creatorId,
+      title: input.title,
+      description: input.description,
+      status: "live",
+      isLive: true,
+      quality,
+      totalSegments: 0,
+      durationSeconds: 0,
+      masterSecret: encryptSecret(generateMasterSecret().toString("hex")),
+      contentUri: livePlaybackUrl(videoId),
+      ...settlement,
+    });
+    const [row] = await tx
+      .insert(liveStreams)
+      .values({
+        videoId,
+        source: input.source,
+        ingestPort: port,
+        quality,
+        segmentDuration: env.VIDEO_SEGMENT_DURATION,
+        windowSize: env.LIVE_MERKLE_WINDOW,
+      })
+      .returning();
+    return row;
+  });
+
+  await mkdir(liveWorkDir(videoId), { recursive: true });
+  spawnIngest(stream, streamKey);
+
+  logger.info({ videoId, source: input.source, port }, "Live stream started");
+  return {
+    stream,
+    ingestUrl: port !== null ? `rtmp://${env.LIVE_INGEST_HOST}:${port}/live` : null,
+    streamKey,
+    playbackUrl: livePlaybackUrl(videoId),
+  };
+}
+
+/**
+ * Stop a stream's ingest and finalize it. Safe to call for streams that
+ * already ended.
+ */
+export async function stopLiveStream(videoId: string): Promise<LiveStream | null> {
+  const ingest = ingests.get(videoId);
+  if (ingest) {
+    ingest.stopping = true;
+    ingest.command.kill("SIGINT");
+    const killTimer = setTimeout(() => ingest.command.kill("SIGKILL"), STOP_GRACE_MS);
+    await ingest.exited;
+    clearTimeout(killTimer);
+  }
+
+  await finalizeLiveStream(videoId, null);
+  return getLiveStream(videoId);
+}
+
+/**
+ * Finalize streams left starting or live by a previous process (their
+ * FFmpeg ingest did not survive the restart)
+ */
+export async function recoverLiveStreams(): Promise<number> {
+  const stale = await db
+    .select({ videoId: liveStreams.videoId })
+    .from(liveStreams)
+    .where(inArray(liveStreams.status, ["starting", "live"]));
+
+  let recovered = 0;
+  for (const { videoId } of stale) {
+    if (ingests.has(videoId)) continue;
+    await finalizeLiveStream(videoId, "Server restarted during the stream");
+    recovered++;
+  }
+  if (recovered > 0) {
+    logger.info({ count: recovered }, "Finalized live streams interrupted by the last shutdown");
+  }
+  return recovered;
+}
+
+/**
+ * Stop every running ingest (on shutdown)
+ */
+export async function stopAllLiveStreams(): Promise<void> {
+  await Promise.all(Array.from(ingests.keys(), (videoId) => stopLiveStream(videoId)));
+}
+
+export async function getLiveStream(videoId: string): Promise<LiveStream | null> {
+  const [stream] = await db
+    .select()
+    .from(liveStreams)
+    .where(eq(liveStreams.videoId, videoId))
+    .limit(1);
+  return stream ?? null;
+}
+
+/**
+ * A live video's published segments in order
+ */
+export async function getLiveSegments(videoId: string): Promise<LiveSegment[]> {
+  return db
+    .select()
+    .from(liveSegments)
+    .where(eq(liveSegments.videoId, videoId))
+    .orderBy(asc(liveSegments.segmentIndex));
+}
+
+/**
+ * Committed window roots of a live video in window order
+ */
+export async function getLiveCommitment(videoId: string) {
+  return db
+    .select({
+      windowIndex: liveMerkleWindows.windowIndex,
+      startSegment: liveMerkleWindows.startSegment,
+      segmentCount: liveMerkleWindows.segmentCount,
+      root: liveMerkleWindows.root,
+      committedAt: liveMerkleWindows.committedAt,
+    })
+    .from(liveMerkleWindows)
+    .where(eq(liveMerkleWindows.videoId, videoId))
+    .orderBy(asc(liveMerkleWindows.windowIndex));
+}
+
+/**
+ * Key proof for a published live segment, or null if the video has no
+ * live stream or the segment isn't published
+ */
+export async function getLiveSegmentProof(
+  videoId: string,
+  masterSecretHex: string,
+  segmentIndex: number,
+): Promise<LiveSegmentProof | null> {
+  const stream = await getLiveStream(videoId);
+  if (!stream) return null;
+
+  const windows = await getLiveCommitment(videoId);
+  try {
+    return liveSegmentProof(
+      Buffer.from(masterSecretHex, "hex"),
+      videoId,
+      segmentIndex,
+      stream.windowSize,
+      stream.segmentsPublished,
+      windows.map((w) => w.root),
+    );
+  } catch {
+    return null;
+  }
+}
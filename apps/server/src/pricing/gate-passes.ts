@@ -0,0 +1,158 @@
+/**
+ * Token Gate Passes
+ *
+ * Challenges and passes for token holders of a video's creator. A
+ * challenge is a single-use nonce (shared auth_nonces table) the holder
+ * signs with the wallet holding the creator token. Redeeming it checks the
+ * on-chain balance against the video's token gate and its pricing policy's
+ * holderDiscount and issues a random bearer pass, of which only a SHA-256
+ * hash is stored. Passes expire after TOKEN_GATE_PASS_TTL_MINUTES; the
+ * balance is not rechecked before then.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { and, eq, gt } from "drizzle-orm";
+import { getAddress, isAddress, verifyMessage, type Hex } from "viem";
+import { db } from "../db/client";
+import { tokenGatePasses, type TokenGatePass, type Video } from "../db/schema";
+import { consumeNonce, issueNonce } from "../creators/store";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import {
+  gateChallengeMessage,
+  holderPassTerms,
+  parseTokenGate,
+  type TokenGateMode,
+} from "./gate";
+import { parsePricingPolicy } from "./policy";
+import { readCreatorTokenBalance } from "./quote";
+
+type GatedVideo = Pick<Video, "id" | "tokenGate" | "pricingPolicy" | "creatorTokenAddress">;
+
+export interface GateChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: Date;
+}
+
+export interface GatePassGrant {
+  token: string;
+  mode: TokenGateMode;
+  discountBps: number;
+  expiresAt: Date;
+}
+
+/**
+ * A gate challenge or redemption the caller got wrong, with the HTTP
+ * status it maps to
+ */
+export class TokenGateError extends Error {
+  constructor(
+    message: string,
+    readonly status: 400 | 401 | 403 | 404 | 503
+  ) {
+    super(message);
+    this.name = "TokenGateError";
+  }
+}
+
+function hashPass(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function requireHolderTerms(video: GatedVideo) {
+  const gate = parseTokenGate(video.tokenGate);
+  const { holderDiscount } = parsePricingPolicy(video.pricingPolicy);
+  if ((!gate && !holderDiscount) || !video.creatorTokenAddress) {
+    throw new TokenGateError("Video is not token-gated", 404);
+  }
+  return { gate, holderDiscount };
+}
+
+/**
+ * Issue a challenge for an address to sign
+ */
+export async function issueGateChallenge(video: GatedVideo, address: string): Promise<GateChallenge> {
+  requireHolderTerms(video);
+  if (!isAddress(address)) {
+    throw new TokenGateError(`Token gate: invalid address ${address}`, 400);
+  }
+  const { nonce, expiresAt } = await issueNonce();
+  return { message: gateChallengeMessage(video.id, address, nonce), nonce, expiresAt };
+}
+
+/**
+ * Verify a signed challenge and the signer's creator token balance, and
+ * issue a gate pass (a discount pass when the balance only earns the
+ * holder discount)
+ */
+export async function redeemGatePass(
+  video: GatedVideo,
+  input: { address: string; nonce: string; signature: string }
+): Promise<GatePassGrant> {
+  const { gate, holderDiscount } = requireHolderTerms(video);
+  if (!isAddress(input.address)) {
+    throw new TokenGateError(`Token gate: invalid address ${input.address}`, 400);
+  }
+  const address = getAddress(input.address);
+
+  const signed = await verifyMessage({
+    address,
+    message: gateChallengeMessage(video.id, address, input.nonce),
+    signature: input.signature as Hex,
+  }).catch(() => false);
+  if (!signed) {
+    throw new TokenGateError("Token gate: invalid signature", 401);
+  }
+  if (!(await consumeNonce(input.nonce))) {
+    throw new TokenGateError("Token gate: nonce is unknown, expired or already used", 401);
+  }
+
+  const balance = await readCreatorTokenBalance(video.creatorTokenAddress, address);
+  if (balance === null) {
+    throw new TokenGateError("Token gate: could not read creator token balance", 503);
+  }
+  const terms = holderPassTerms(gate, holderDiscount, balance);
+  if (!terms) {
+    throw new TokenGateError(
+      `Token gate: balance ${balance} is below the required ${
+        gate?.minBalance ?? holderDiscount?.minBalance
+      }`,
+      403
+    );
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + env.TOKEN_GATE_PASS_TTL_MINUTES * 60 * 1000);
+
+  await db.insert(tokenGatePasses).values({
+    id: hashPass(token),
+    videoId: video.id,
+    holderAddress: address,
+    mode: terms.mode,
+    discountBps: terms.discountBps,
+    balance: balance.toString(),
+    expiresAt,
+  });
+  logger.info({ videoId: video.id, holder: address, mode: terms.mode }, "Token gate pass issued");
+
+  return { token, ...terms, expiresAt };
+}
+
+/**
+ * The live pass for a video a token refers to
+ */
+export async function resolveGatePass(videoId: string, token: string): Promise<TokenGatePass | null> {
+  const [pass] = await db
+    .select()
+    .from(tokenGatePasses)
+    .where(
+      and(
+        eq(tokenGatePasses.id, hashPass(token)),
+        eq(tokenGatePasses.videoId, videoId),
+        gt(tokenGatePasses.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+  return pass ?? null;
+}
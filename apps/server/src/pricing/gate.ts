@@ -0,0 +1,92 @@
+/**
+ * Token Gates
+ *
+ * Pure rules for token-gated videos. A gate names a minimum balance of the
+ * creator's token; a viewer proves control of a holding address by signing
+ * a challenge and gets a gate pass. In "free" mode the pass unlocks segment
+ * keys without payment, in "discount" mode it lowers the price of a payment
+ * session. The same pass carries the holder's balance, which is how a
+ * pricing policy's holderDiscount is claimed. Kept free of database and
+ * network imports.
+ */
+
+import { z } from "zod";
+import type { PricingPolicy } from "./policy";
+
+export const tokenGateSchema = z
+  .object({
+    /** Minimum creator token balance in base units (18 decimals) */
+    minBalance: z.string().regex(/^\d+$/, "base units as an integer string"),
+    mode: z.enum(["free", "discount"]),
+    /** Discount for holders in "discount" mode */
+    discountBps: z.number().int().min(1).max(10_000).nullable().default(null),
+  })
+  .refine((gate) => gate.mode === "free" || gate.discountBps !== null, {
+    message: "discountBps is required in discount mode",
+    path: ["discountBps"],
+  });
+
+export type TokenGate = z.infer<typeof tokenGateSchema>;
+export type TokenGateMode = TokenGate["mode"];
+
+/**
+ * Parse a stored gate; missing or unreadable gates mean the video is ungated
+ */
+export function parseTokenGate(raw: string | null): TokenGate | null {
+  if (!raw) return null;
+  try {
+    const parsed = tokenGateSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a balance clears the gate. Holding nothing never does, even
+ * with a zero minimum.
+ */
+export function meetsTokenGate(gate: TokenGate, balance: bigint): boolean {
+  return balance > 0n && balance >= BigInt(gate.minBalance);
+}
+
+/**
+ * Discount a pass grants on payment sessions (0 for free passes, which
+ * skip payment altogether)
+ */
+export function gatePassDiscountBps(gate: TokenGate): number {
+  return gate.mode === "discount" ? gate.discountBps ?? 0 : 0;
+}
+
+/**
+ * Mode and gate discount of the pass a balance earns, or null if it earns
+ * none. Balances that only clear the policy's holderDiscount get a
+ * discount pass with no gate discount; the holder discount itself is
+ * priced from the balance stored on the pass.
+ */
+export function holderPassTerms(
+  gate: TokenGate | null,
+  holderDiscount: PricingPolicy["holderDiscount"],
+  balance: bigint
+): { mode: TokenGateMode; discountBps: number } | null {
+  if (gate && meetsTokenGate(gate, balance)) {
+    return { mode: gate.mode, discountBps: gatePassDiscountBps(gate) };
+  }
+  if (holderDiscount && balance > 0n && balance >= BigInt(holderDiscount.minBalance)) {
+    return { mode: "discount", discountBps: 0 };
+  }
+  return null;
+}
+
+/**
+ * Challenge a holder signs to redeem a gate pass. The nonce is single-use,
+ * and the video and address bind the signature to this claim.
+ */
+export function gateChallengeMessage(videoId: string, address: string, nonce: string): string {
+  return [
+    "versus: prove I hold this creator's token to watch",
+    `Video: ${videoId}`,
+    `Address: ${address.toLowerCase()}`,
+    `Nonce: ${nonce}`,
+  ].join("\n");
+}
@@ -0,0 +1,23 @@
+/**
+ * Video pricing
+ *
+ * Per-video prices, free previews, pricing policies and token gates for
+ * streaming sessions.
+ */
+
+export {
+  getVideoPricing,
+  quoteVideoPricing,
+  readCreatorTokenBalance,
+  type QuoteOptions,
+} from "./quote";
+export {
+  issueGateChallenge,
+  redeemGatePass,
+  resolveGatePass,
+  TokenGateError,
+  type GateChallenge,
+  type GatePassGrant,
+} from "./gate-passes";
+export * from "./policy";
+export * from "./gate";
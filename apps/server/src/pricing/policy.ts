@@ -0,0 +1,190 @@
+/**
+ * Pricing Policy
+ *
+ * Pure per-video pricing rules. A video has a base price per segment (the
+ * global YELLOW_PRICE_PER_SEGMENT unless the creator set one), a number of
+ * free preview segments, and an optional policy stored as JSON on the row:
+ *
+ * - timeOfDay: UTC hour windows with their own multiplier (peak pricing)
+ * - demand: the price steps up as concurrent viewers of the video grow
+ * - holderDiscount: a discount for wallets holding the creator's token,
+ *   claimed with a gate pass (see ./gate-passes)
+ *
+ * A discount-mode token gate (see ./gate) is applied last, on top of these.
+ *
+ * Multipliers are in basis points (10_000 = 1x) and applied in that order,
+ * rounding down to whole USDC base units at each step. A session locks in
+ * the price quoted when it opens.
+ */
+
+import { z } from "zod";
+import { formatUsdc, parseUsdc, usdcFromUnits, type UsdcAmount } from "@versus/streaming";
+
+const BPS = 10_000n;
+
+/** Most a time window or demand can multiply the base price by (10x) */
+export const MAX_MULTIPLIER_BPS = 100_000;
+
+export const pricingPolicySchema = z.object({
+  timeOfDay: z
+    .array(
+      z.object({
+        /** UTC hour the window starts (inclusive) */
+        startHour: z.number().int().min(0).max(23),
+        /** UTC hour the window ends (exclusive); before startHour wraps past midnight */
+        endHour: z.number().int().min(0).max(24),
+        multiplierBps: z.number().int().min(0).max(MAX_MULTIPLIER_BPS),
+      })
+    )
+    .max(24)
+    .default([]),
+  demand: z
+    .object({
+      /** Concurrent viewers per price step */
+      viewersPerStep: z.number().int().min(1),
+      /** Increase per step */
+      stepBps: z.number().int().min(0).max(MAX_MULTIPLIER_BPS),
+      maxMultiplierBps: z.number().int().min(10_000).max(MAX_MULTIPLIER_BPS),
+    })
+    .nullable()
+    .default(null),
+  holderDiscount: z
+    .object({
+      /** Minimum token balance in base units (18 decimals) */
+      minBalance: z.string().regex(/^\d+$/, "base units as an integer string"),
+      discountBps: z.number().int().min(0).max(10_000),
+    })
+    .nullable()
+    .default(null),
+});
+
+export type PricingPolicy = z.infer<typeof pricingPolicySchema>;
+
+/** A video's stored pricing (see videos.price_per_segment and friends) */
+export interface VideoPricing {
+  basePrice: string;
+  freePreviewSegments: number;
+  policy: PricingPolicy;
+}
+
+/** Conditions a quote is made under */
+export interface PricingContext {
+  now: Date;
+  /** Active sessions on the video */
+  concurrentViewers: number;
+  /** Viewer's balance of the creator token (null if unknown or unproven) */
+  holderBalance: bigint | null;
+  /** Discount from a redeemed discount-mode gate pass */
+  gateDiscountBps?: number | null;
+}
+
+export interface PriceAdjustment {
+  kind: "time_of_day" | "demand" | "holder_discount" | "token_gate";
+  multiplierBps: number;
+}
+
+export interface PriceQuote {
+  basePrice: string;
+  pricePerSegment: string;
+  freePreviewSegments: number;
+  adjustments: PriceAdjustment[];
+}
+
+/** Flat pricing: no windows, no demand steps, no holder discount */
+export const EMPTY_PRICING_POLICY: PricingPolicy = pricingPolicySchema.parse({});
+
+/**
+ * Parse a stored policy; missing or unreadable policies price flat
+ */
+export function parsePricingPolicy(raw: string | null): PricingPolicy {
+  if (!raw) return EMPTY_PRICING_POLICY;
+  try {
+    const parsed = pricingPolicySchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : EMPTY_PRICING_POLICY;
+  } catch {
+    return EMPTY_PRICING_POLICY;
+  }
+}
+
+function inWindow(hour: number, startHour: number, endHour: number): boolean {
+  if (startHour < endHour) return hour >= startHour && hour < endHour;
+  if (startHour > endHour) return hour >= startHour || hour < endHour;
+  return true; // start == end covers the whole day
+}
+
+function applyBps(price: UsdcAmount, bps: number): UsdcAmount {
+  return usdcFromUnits((price * BigInt(bps)) / BPS);
+}
+
+/**
+ * Multiplier for the first time window containing the UTC hour
+ */
+export function timeOfDayMultiplier(policy: PricingPolicy, now: Date): number | null {
+  const hour = now.getUTCHours();
+  const window = policy.timeOfDay.find((w) => inWindow(hour, w.startHour, w.endHour));
+  return window ? window.multiplierBps : null;
+}
+
+/**
+ * Demand multiplier for the number of concurrent viewers
+ */
+export function demandMultiplier(policy: PricingPolicy, concurrentViewers: number): number | null {
+  if (!policy.demand) return null;
+  const { viewersPerStep, stepBps, maxMultiplierBps } = policy.demand;
+  const steps = Math.floor(Math.max(0, concurrentViewers) / viewersPerStep);
+  if (steps === 0) return null;
+  return Math.min(10_000 + steps * stepBps, maxMultiplierBps);
+}
+
+/**
+ * Price per paid segment for a viewer under the video's policy
+ */
+export function quotePrice(pricing: VideoPricing, context: PricingContext): PriceQuote {
+  let price = parseUsdc(pricing.basePrice);
+  const adjustments: PriceAdjustment[] = [];
+
+  const timeBps = timeOfDayMultiplier(pricing.policy, context.now);
+  if (timeBps !== null && timeBps !== 10_000) {
+    price = applyBps(price, timeBps);
+    adjustments.push({ kind: "time_of_day", multiplierBps: timeBps });
+  }
+
+  const demandBps = demandMultiplier(pricing.policy, context.concurrentViewers);
+  if (demandBps !== null && demandBps !== 10_000) {
+    price = applyBps(price, demandBps);
+    adjustments.push({ kind: "demand", multiplierBps: demandBps });
+  }
+
+  const discount = pricing.policy.holderDiscount;
+  if (
+    discount &&
+    discount.discountBps > 0 &&
+    context.holderBalance !== null &&
+    context.holderBalance > 0n &&
+    context.holderBalance >= BigInt(discount.minBalance)
+  ) {
+    const holderBps = 10_000 - discount.discountBps;
+    price = applyBps(price, holderBps);
+    adjustments.push({ kind: "holder_discount", multiplierBps: holderBps });
+  }
+
+  if (context.gateDiscountBps) {
+    const gateBps = 10_000 - context.gateDiscountBps;
+    price = applyBps(price, gateBps);
+    adjustments.push({ kind: "token_gate", multiplierBps: gateBps });
+  }
+
+  return {
+    basePrice: formatUsdc(parseUsdc(pricing.basePrice)),
+    pricePerSegment: formatUsdc(price),
+    freePreviewSegments: pricing.freePreviewSegments,
+    adjustments,
+  };
+}
+
+/**
+ * Whether a segment is unlocked without payment
+ */
+export function isFreePreviewSegment(freePreviewSegments: number, segmentIndex: number): boolean {
+  return segmentIndex < freePreviewSegments;
+}
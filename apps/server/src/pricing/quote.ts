@@ -0,0 +1,90 @@
+/**
+ * Video Pricing Quotes
+ *
+ * Loads a video's stored pricing and quotes it for a viewer: demand comes
+ * from the video's active Yellow sessions, the holder balance from the
+ * creator token's ERC20 balanceOf on ARC.
+ */
+
+import { isAddress, type Address } from "viem";
+import { formatUsdc, parseUsdc } from "@versus/streaming";
+import type { Video } from "../db/schema";
+import { getERC20 } from "../integrations/chain/contracts";
+import { getActiveSessions } from "../integrations/yellow/session";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import {
+  parsePricingPolicy,
+  quotePrice,
+  type PriceQuote,
+  type VideoPricing,
+} from "./policy";
+
+type PricedVideo = Pick<
+  Video,
+  "id" | "pricePerSegment" | "freePreviewSegments" | "pricingPolicy" | "creatorTokenAddress"
+>;
+
+export interface QuoteOptions {
+  /** Wallet whose creator token balance decides the holder discount */
+  holderAddress?: string | null;
+  /** Balance proven by a redeemed gate pass; used instead of holderAddress */
+  holderBalance?: bigint | null;
+  /** Discount from a redeemed gate pass (see ./gate) */
+  gateDiscountBps?: number | null;
+  now?: Date;
+}
+
+/**
+ * Stored pricing for a video, falling back to YELLOW_PRICE_PER_SEGMENT
+ */
+export function getVideoPricing(
+  video: Pick<Video, "pricePerSegment" | "freePreviewSegments" | "pricingPolicy">
+): VideoPricing {
+  return {
+    basePrice: formatUsdc(parseUsdc(video.pricePerSegment ?? env.YELLOW_PRICE_PER_SEGMENT)),
+    freePreviewSegments: video.freePreviewSegments,
+    policy: parsePricingPolicy(video.pricingPolicy),
+  };
+}
+
+/**
+ * Creator token balance of a wallet, or null if it can't be read
+ */
+export async function readCreatorTokenBalance(
+  tokenAddress: string | null,
+  holder: string
+): Promise<bigint | null> {
+  if (!tokenAddress || !isAddress(tokenAddress) || !isAddress(holder)) return null;
+  try {
+    return await getERC20(tokenAddress as Address).read.balanceOf([holder]);
+  } catch (error) {
+    logger.warn(
+      { tokenAddress, holder, error: String(error) },
+      "Failed to read creator token balance"
+    );
+    return null;
+  }
+}
+
+/**
+ * Quote the price per segment a viewer would pay right now
+ */
+export async function quoteVideoPricing(
+  video: PricedVideo,
+  options: QuoteOptions = {}
+): Promise<PriceQuote> {
+  const pricing = getVideoPricing(video);
+  const concurrentViewers = getActiveSessions().filter((s) => s.videoId === video.id).length;
+  let holderBalance = options.holderBalance ?? null;
+  if (holderBalance === null && options.holderAddress && pricing.policy.holderDiscount) {
+    holderBalance = await readCreatorTokenBalance(video.creatorTokenAddress, options.holderAddress);
+  }
+
+  return quotePrice(pricing, {
+    now: options.now ?? new Date(),
+    concurrentViewers,
+    holderBalance,
+    gateDiscountBps: options.gateDiscountBps,
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * Resumable uploads and video processing jobs
+ *
+ * Large uploads arrive in tus-style chunks written to disk; once complete,
+ * the video is processed in the background by the job worker, started from
+ * main alongside the other workers.
+ */
+
+export {
+  createUpload,
+  getUpload,
+  getUploadForVideo,
+  appendChunk,
+  completeUpload,
+  creatorSettlementFields,
+  cancelUpload,
+  removeUploadFiles,
+  uploadFilePath,
+  videoWorkDir,
+  UploadChunkError,
+  type NewUploadInput,
+} from "./store";
+export {
+  getVideoJobs,
+  runVideoJobs,
+  runVideoJobsInBackground,
+  processDueVideoJobs,
+  getVideoProcessingStatus,
+  retryVideoProcessing,
+  cancelVideoJobs,
+  recoverInterruptedVideoJobs,
+  startVideoJobWorker,
+  stopVideoJobWorker,
+  type VideoProcessingStatus,
+} from "./queue";
+export * from "./plan";
+export * from "./protocol";
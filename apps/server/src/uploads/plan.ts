@@ -0,0 +1,109 @@
+/**
+ * Video Job Plan
+ *
+ * Pure rules for the video processing queue: the stages an upload goes
+ * through, the order they run in, retry backoff and how a video's stage
+ * rows roll up into one status for the status endpoint.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────
+
+export const VIDEO_JOB_STAGES = ["segment", "encrypt", "package", "upload", "register"] as const;
+
+export type VideoJobStage = (typeof VIDEO_JOB_STAGES)[number];
+
+export type VideoJobStatus =
+  | "pending" // Waiting to run (or be retried)
+  | "running" // Picked up by the worker
+  | "completed" // Stage output is on disk / in storage
+  | "dead"; // Out of attempts, needs a retry request
+
+export interface VideoJobState {
+  stage: string;
+  status: string;
+  progress: number;
+}
+
+export interface VideoJobSummary {
+  /** processing until every stage completes; failed once any stage is dead */
+  status: "processing" | "failed" | "ready";
+  /** First stage not yet completed (null when ready) */
+  stage: VideoJobStage | null;
+  /** Overall percent across all stages */
+  progress: number;
+}
+
+const BASE_BACKOFF_MS = 15_000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// ─── Ordering ────────────────────────────────────────────────────────
+
+function stageIndex(stage: string): number {
+  return VIDEO_JOB_STAGES.indexOf(stage as VideoJobStage);
+}
+
+/**
+ * Sort stage rows into pipeline order
+ */
+export function sortVideoJobs<T extends { stage: string }>(jobs: T[]): T[] {
+  return [...jobs].sort((a, b) => stageIndex(a.stage) - stageIndex(b.stage));
+}
+
+/**
+ * A stage may run once every earlier stage has completed
+ */
+export function isVideoStageRunnable(jobs: VideoJobState[], stage: VideoJobStage): boolean {
+  const index = stageIndex(stage);
+  return jobs
+    .filter((j) => stageIndex(j.stage) < index)
+    .every((j) => j.status === "completed");
+}
+
+/**
+ * Roll a video's stage rows up into one status and overall progress
+ */
+export function summarizeVideoJobs(jobs: VideoJobState[]): VideoJobSummary {
+  const ordered = sortVideoJobs(jobs);
+  const current = ordered.find((j) => j.status !== "completed");
+  const done = ordered.reduce(
+    (sum, j) => sum + (j.status === "completed" ? 100 : Math.min(Math.max(j.progress, 0), 100)),
+    0,
+  );
+
+  return {
+    status: ordered.some((j) => j.status === "dead") ? "failed" : current ? "processing" : "ready",
+    stage: current ? (current.stage as VideoJobStage) : null,
+    progress: Math.floor(done / VIDEO_JOB_STAGES.length),
+  };
+}
+
+/**
+ * Percent of a stage done after `completed` of `total` units of work
+ */
+export function stageProgress(completed: number, total: number): number {
+  if (total <= 0) return 100;
+  return Math.min(Math.floor((completed * 100) / total), 100);
+}
+
+// ─── Retry ───────────────────────────────────────────────────────────
+
+/**
+ * Exponential backoff after the given number of failed attempts
+ */
+export function videoJobBackoffMs(attempts: number): number {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * When to retry a failed stage, or null to dead-letter it
+ */
+export function nextVideoJobRetryAt(
+  attempts: number,
+  maxAttempts: number,
+  now: number,
+): Date | null {
+  if (attempts >= maxAttempts) {
+    return null;
+  }
+  return new Date(now + videoJobBackoffMs(attempts));
+}
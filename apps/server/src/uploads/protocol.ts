@@ -0,0 +1,89 @@
+/**
+ * Resumable Upload Protocol
+ *
+ * Pure rules for the tus-style upload endpoints (tus 1.0 core subset):
+ * header parsing and the checks a chunk must pass before it is appended.
+ */
+
+export const TUS_VERSION = "1.0.0";
+
+/** Content type every PATCH chunk must be sent with */
+export const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+export interface UploadProgress {
+  uploadOffset: number;
+  uploadLength: number;
+  status: string;
+}
+
+export interface ChunkRejection {
+  status: 400 | 409 | 410 | 415;
+  error: string;
+}
+
+/**
+ * Parse a non-negative integer header (Upload-Length, Upload-Offset).
+ * Returns null when missing or malformed.
+ */
+export function parseByteCount(value: string | undefined | null): number | null {
+  if (value === undefined || value === null || !/^\d+$/.test(value.trim())) {
+    return null;
+  }
+  const n = Number(value.trim());
+  return Number.isSafeInteger(n) ? n : null;
+}
+
+/**
+ * Decode an Upload-Metadata header: comma-separated "key base64value"
+ * pairs; a key may appear without a value.
+ */
+export function parseUploadMetadata(header: string | undefined | null): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  if (!header) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, encoded] = pair.trim().split(" ");
+    if (!key) continue;
+    metadata[key] = encoded ? Buffer.from(encoded, "base64").toString("utf8") : "";
+  }
+  return metadata;
+}
+
+/**
+ * Why a chunk cannot be appended, or null if it can. The client's offset
+ * must match the bytes already stored, so a resumed upload first asks for
+ * the offset with HEAD.
+ */
+export function checkChunk(
+  upload: UploadProgress,
+  contentType: string | undefined,
+  clientOffset: number | null,
+): ChunkRejection | null {
+  if (upload.status === "cancelled") {
+    return { status: 410, error: "Upload was cancelled" };
+  }
+  if (contentType?.split(";")[0].trim() !== CHUNK_CONTENT_TYPE) {
+    return { status: 415, error: `Content-Type must be ${CHUNK_CONTENT_TYPE}` };
+  }
+  if (clientOffset === null) {
+    return { status: 400, error: "Missing or invalid Upload-Offset header" };
+  }
+  if (upload.status !== "uploading") {
+    return { status: 409, error: "Upload is already complete" };
+  }
+  if (clientOffset !== upload.uploadOffset) {
+    return {
+      status: 409,
+      error: `Upload-Offset ${clientOffset} does not match stored offset ${upload.uploadOffset}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether the bytes received so far in a chunk run past the declared
+ * Upload-Length (the chunk is refused rather than truncated)
+ */
+export function chunkOverflows(upload: UploadProgress, bytesReceived: number): boolean {
+  return upload.uploadOffset + bytesReceived > upload.uploadLength;
+}
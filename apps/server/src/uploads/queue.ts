@@ -0,0 +1,393 @@
+/**
+ * Video Processing Queue
+ *
+ * Persistent, resumable processing of uploaded videos. Each stage
+ * (segment → encrypt → package → upload → register) is a video_jobs row
+ * that is retried with exponential backoff and dead-lettered after
+ * VIDEO_JOB_MAX_ATTEMPTS. Stages read and write a per-video work directory
+ * (see video/stages), so a retry or restart resumes at the failed stage
+ * instead of starting over.
+ */
+
+import { and, eq, inArray, lte, ne } from "drizzle-orm";
+import { db } from "../db/client";
+import { videoJobs, videos } from "../db/schema";
+import type { Video, VideoJob } from "../db/schema";
+import {
+  runEncryptStage,
+  runPackageStage,
+  runSegmentStage,
+  runUploadStage,
+} from "../video/stages";
+import { parseRenditionLadder } from "../video/renditions";
+import { getStorageProvider } from "../integrations/storage";
+import {
+  isBaseSepoliaConfigured,
+  registerVideoOnChain,
+} from "../integrations/chain/video-registry";
+import { decryptSecret } from "../utils/encryption";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import {
+  isVideoStageRunnable,
+  nextVideoJobRetryAt,
+  sortVideoJobs,
+  stageProgress,
+  summarizeVideoJobs,
+  type VideoJobStage,
+  type VideoJobSummary,
+} from "./plan";
+import { getUploadForVideo, removeUploadFiles, uploadFilePath, videoWorkDir } from "./store";
+
+let workerInterval: ReturnType<typeof setInterval> | null = null;
+let isProcessing = false;
+const videosInFlight = new Set<string>();
+
+export interface VideoProcessingStatus extends VideoJobSummary {
+  stages: Array<
+    Pick<
+      VideoJob,
+      "stage" | "status" | "progress" | "attempts" | "lastError" | "nextAttemptAt" | "startedAt" | "completedAt"
+    >
+  >;
+}
+
+// ─── Stages ──────────────────────────────────────────────────────────
+
+async function updateJob(
+  jobId: number,
+  values: Partial<typeof videoJobs.$inferInsert>,
+): Promise<void> {
+  await db
+    .update(videoJobs)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(videoJobs.id, jobId));
+}
+
+/**
+ * Update a video unless it was deleted while processing
+ */
+async function updateVideo(
+  videoId: string,
+  values: Partial<typeof videos.$inferInsert>,
+): Promise<void> {
+  await db
+    .update(videos)
+    .set(values)
+    .where(and(eq(videos.id, videoId), ne(videos.status, "deleted")));
+}
+
+/**
+ * Run one stage's work, recording its output on the video row
+ */
+async function runStage(job: VideoJob, video: Video): Promise<void> {
+  const workDir = videoWorkDir(video.id);
+  const onProgress = (completed: number, total: number) =>
+    updateJob(job.id, { progress: stageProgress(completed, total) });
+
+  switch (job.stage as VideoJobStage) {
+    case "segment": {
+      const upload = await getUploadForVideo(video.id);
+      if (!upload) {
+        throw new Error(`No upload found for video: ${video.id}`);
+      }
+      const manifest = await runSegmentStage(
+        uploadFilePath(upload.id),
+        workDir,
+        {
+          segmentDuration: env.VIDEO_SEGMENT_DURATION,
+          renditions: parseRenditionLadder(env.VIDEO_RENDITIONS),
+        },
+        onProgress,
+      );
+      await updateVideo(video.id, {
+        totalSegments: manifest.durations.length,
+        durationSeconds: Math.round(manifest.durations.reduce((acc, d) => acc + d, 0)),
+        quality: manifest.renditions[manifest.renditions.length - 1],
+      });
+      return;
+    }
+    case "encrypt": {
+      if (!video.masterSecret) {
+        throw new Error(`Video ${video.id} has no master secret`);
+      }
+      const result = await runEncryptStage(
+        workDir,
+        video.id,
+        Buffer.from(decryptSecret(video.masterSecret), "hex"),
+        onProgress,
+      );
+      await updateVideo(video.id, result);
+      return;
+    }
+    case "package":
+      await runPackageStage(workDir, video.id, env.FRONTEND_URL || `http://localhost:${env.PORT}`);
+      return;
+    case "upload": {
+      const result = await runUploadStage(workDir, video.id, getStorageProvider(), onProgress);
+      await updateVideo(video.id, { contentUri: result.contentUri });
+      return;
+    }
+    case "register": {
+      if (video.registryTxHash || !video.merkleRoot || !isBaseSepoliaConfigured()) return;
+      const txHash = await registerVideoOnChain(
+        video.id,
+        video.merkleRoot,
+        video.creatorWallet || "0x0000000000000000000000000000000000000000",
+        video.totalSegments ?? 0,
+      );
+      if (!txHash) {
+        throw new Error("VideoRegistry registration failed");
+      }
+      await updateVideo(video.id, { registryTxHash: txHash, registryChainId: 84532 });
+      return;
+    }
+    default:
+      throw new Error(`Unknown video job stage: ${job.stage}`);
+  }
+}
+
+/**
+ * Count a failed attempt, scheduling a retry or dead-lettering the stage
+ * (which marks the video failed until a retry is requested)
+ */
+async function failJob(job: VideoJob, error: string): Promise<void> {
+  const attempts = job.attempts + 1;
+  const retryAt = nextVideoJobRetryAt(attempts, env.VIDEO_JOB_MAX_ATTEMPTS, Date.now());
+
+  await updateJob(job.id, {
+    attempts,
+    lastError: error,
+    status: retryAt ? "pending" : "dead",
+    nextAttemptAt: retryAt,
+  });
+
+  if (!retryAt) {
+    await updateVideo(job.videoId, { status: "failed" });
+    logger.error(
+      { videoId: job.videoId, stage: job.stage, attempts, error },
+      "Video processing stage dead-lettered",
+    );
+  } else {
+    logger.warn(
+      { videoId: job.videoId, stage: job.stage, attempts, retryAt, error },
+      "Video processing stage failed, will retry",
+    );
+  }
+}
+
+/**
+ * Run one stage. Returns true once it has completed.
+ */
+async function runJob(job: VideoJob): Promise<boolean> {
+  const [video] = await db.select().from(videos).where(eq(videos.id, job.videoId)).limit(1);
+  if (!video) {
+    throw new Error(`Video not found: ${job.videoId}`);
+  }
+  if (video.status === "deleted") return false;
+
+  await updateJob(job.id, { status: "running", progress: 0, startedAt: new Date() });
+  logger.info({ videoId: job.videoId, stage: job.stage }, "Video processing stage started");
+
+  try {
+    await runStage(job, video);
+  } catch (err) {
+    await failJob(job, err instanceof Error ? err.message : String(err));
+    return false;
+  }
+
+  await updateJob(job.id, {
+    status: "completed",
+    progress: 100,
+    lastError: null,
+    nextAttemptAt: null,
+    completedAt: new Date(),
+  });
+  logger.info({ videoId: job.videoId, stage: job.stage }, "Video processing stage completed");
+  return true;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────
+
+/**
+ * A video's jobs in stage order
+ */
+export async function getVideoJobs(videoId: string): Promise<VideoJob[]> {
+  const jobs = await db.select().from(videoJobs).where(eq(videoJobs.videoId, videoId));
+  return sortVideoJobs(jobs);
+}
+
+/**
+ * Run a video's due stages in order, stopping at the first that does not
+ * complete. Marks the video ready and removes its upload and stage files
+ * once every stage has completed.
+ */
+export async function runVideoJobs(
+  videoId: string,
+  options: { force?: boolean } = {},
+): Promise<VideoJob[]> {
+  if (videosInFlight.has(videoId)) {
+    return getVideoJobs(videoId);
+  }
+  videosInFlight.add(videoId);
+
+  try {
+    const jobs = await getVideoJobs(videoId);
+    const now = Date.now();
+
+    for (const job of jobs) {
+      if (job.status === "completed") continue;
+      if (job.status === "dead") break;
+      if (!isVideoStageRunnable(jobs, job.stage as VideoJobStage)) break;
+      if (!options.force && job.nextAttemptAt && job.nextAttemptAt.getTime() > now) break;
+
+      const done = await runJob(job);
+      if (!done) break;
+      job.status = "completed";
+    }
+
+    const latest = await getVideoJobs(videoId);
+    if (latest.length > 0 && summarizeVideoJobs(latest).status === "ready") {
+      await updateVideo(videoId, { status: "ready", processedAt: new Date() });
+      await removeUploadFiles(videoId);
+      logger.info({ videoId }, "Video processed and ready");
+    }
+
+    return latest;
+  } finally {
+    videosInFlight.delete(videoId);
+  }
+}
+
+/**
+ * Start a video's stages without waiting for them (e.g. right after its
+ * upload completes); the worker picks up anything this misses
+ */
+export function runVideoJobsInBackground(videoId: string, options: { force?: boolean } = {}): void {
+  runVideoJobs(videoId, options).catch((err) => {
+    logger.error({ err, videoId }, "Video processing failed");
+  });
+}
+
+/**
+ * Process every video with a stage that is due
+ */
+export async function processDueVideoJobs(): Promise<number> {
+  if (isProcessing) return 0;
+  isProcessing = true;
+
+  try {
+    const due = await db
+      .selectDistinct({ videoId: videoJobs.videoId })
+      .from(videoJobs)
+      .where(and(eq(videoJobs.status, "pending"), lte(videoJobs.nextAttemptAt, new Date())));
+
+    for (const { videoId } of due) {
+      try {
+        await runVideoJobs(videoId);
+      } catch (err) {
+        logger.error({ err, videoId }, "Video processing failed");
+      }
+    }
+
+    return due.length;
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Per-stage progress and failures, or null for a video without jobs
+ * (processed before the queue existed, or by agent-upload)
+ */
+export async function getVideoProcessingStatus(videoId: string): Promise<VideoProcessingStatus | null> {
+  const jobs = await getVideoJobs(videoId);
+  if (jobs.length === 0) return null;
+
+  return {
+    ...summarizeVideoJobs(jobs),
+    stages: jobs.map((j) => ({
+      stage: j.stage,
+      status: j.status,
+      progress: j.progress,
+      attempts: j.attempts,
+      lastError: j.lastError,
+      nextAttemptAt: j.nextAttemptAt,
+      startedAt: j.startedAt,
+      completedAt: j.completedAt,
+    })),
+  };
+}
+
+/**
+ * Reset a video's unfinished stages (including dead ones) and start them
+ * now. Completed stages keep their output and are not rerun.
+ */
+export async function retryVideoProcessing(videoId: string): Promise<VideoJob[]> {
+  const jobs = await getVideoJobs(videoId);
+  if (jobs.length === 0) {
+    throw new Error(`No processing jobs for video: ${videoId}`);
+  }
+
+  for (const job of jobs) {
+    if (job.status === "completed" || job.status === "running") continue;
+    await updateJob(job.id, { status: "pending", attempts: 0, nextAttemptAt: new Date() });
+  }
+  await updateVideo(videoId, { status: "processing" });
+
+  logger.info({ videoId }, "Video processing retry requested");
+  runVideoJobsInBackground(videoId, { force: true });
+  return getVideoJobs(videoId);
+}
+
+/**
+ * Stop processing a deleted video: unfinished stages are dead-lettered so
+ * the worker no longer picks them up
+ */
+export async function cancelVideoJobs(videoId: string): Promise<void> {
+  await db
+    .update(videoJobs)
+    .set({ status: "dead", lastError: "Video deleted", nextAttemptAt: null, updatedAt: new Date() })
+    .where(and(eq(videoJobs.videoId, videoId), inArray(videoJobs.status, ["pending", "running"])));
+}
+
+/**
+ * Requeue stages left running when the server last stopped
+ */
+export async function recoverInterruptedVideoJobs(): Promise<number> {
+  const interrupted = await db
+    .update(videoJobs)
+    .set({ status: "pending", nextAttemptAt: new Date(), updatedAt: new Date() })
+    .where(eq(videoJobs.status, "running"))
+    .returning({ id: videoJobs.id });
+
+  if (interrupted.length > 0) {
+    logger.info({ count: interrupted.length }, "Requeued interrupted video processing stages");
+  }
+  return interrupted.length;
+}
+
+/**
+ * Start polling for due video processing stages
+ */
+export function startVideoJobWorker(intervalMs: number = env.VIDEO_JOB_POLL_MS): void {
+  if (workerInterval) return;
+  recoverInterruptedVideoJobs()
+    .then(() => processDueVideoJobs())
+    .catch((err) => {
+      logger.error({ err }, "Initial video processing pass failed");
+    });
+  workerInterval = setInterval(() => {
+    processDueVideoJobs().catch((err) => {
+      logger.error({ err }, "Video processing worker pass failed");
+    });
+  }, intervalMs);
+  logger.info({ intervalMs }, "Video processing worker started");
+}
+
+export function stopVideoJobWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
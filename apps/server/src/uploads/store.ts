@@ -0,0 +1,277 @@
+/**
+ * Upload Store
+ *
+ * Resumable upload sessions. Bytes are streamed straight to a file under
+ * VIDEO_UPLOAD_DIR and the received offset is persisted after every chunk,
+ * so an interrupted upload resumes from the last stored byte. When the last
+ * byte arrives the upload becomes a video in "processing" with one queued
+ * job per stage.
+ */
+
+import { randomBytes } from "crypto";
+import { join, resolve } from "path";
+import { mkdir, open, rm } from "fs/promises";
+import { eq } from "drizzle-orm";
+import { generateMasterSecret, generateVideoId } from "@versus/streaming";
+import { db } from "../db/client";
+import { agents, creators, videoJobs, videos, videoUploads, type VideoUpload } from "../db/schema";
+import { encryptSecret } from "../utils/encryption";
+import { env } from "../utils/env";
+import { logger } from "../utils/logger";
+import { VIDEO_JOB_STAGES } from "./plan";
+import { chunkOverflows } from "./protocol";
+
+const uploadsInFlight = new Set<string>();
+
+/**
+ * A chunk the upload refused, with the HTTP status it maps to
+ */
+export class UploadChunkError extends Error {
+  constructor(
+    message: string,
+    readonly status: 409 | 413
+  ) {
+    super(message);
+    this.name = "UploadChunkError";
+  }
+}
+
+export interface NewUploadInput {
+  title: string;
+  description?: string | null;
+  agentId?: string | null;
+  creatorId?: string | null;
+  fileName?: string | null;
+  uploadLength: number;
+}
+
+/**
+ * Where an upload's bytes are written
+ */
+export function uploadFilePath(uploadId: string): string {
+  return join(resolve(env.VIDEO_UPLOAD_DIR), `${uploadId}.upload`);
+}
+
+/**
+ * Per-video directory the processing stages work in
+ */
+export function videoWorkDir(videoId: string): string {
+  return join(resolve(env.VIDEO_UPLOAD_DIR), "work", videoId);
+}
+
+/**
+ * Create an upload session and its empty file
+ */
+export async function createUpload(input: NewUploadInput): Promise<VideoUpload> {
+  const id = randomBytes(16).toString("hex");
+
+  await mkdir(resolve(env.VIDEO_UPLOAD_DIR), { recursive: true });
+  const file = await open(uploadFilePath(id), "w");
+  await file.close();
+
+  const [upload] = await db
+    .insert(videoUploads)
+    .values({
+      id,
+      title: input.title,
+      description: input.description || null,
+      agentId: input.agentId || null,
+      creatorId: input.creatorId || null,
+      fileName: input.fileName || null,
+      uploadLength: input.uploadLength,
+    })
+    .returning();
+
+  logger.info(
+    { uploadId: id, title: input.title, uploadLength: input.uploadLength },
+    "Resumable upload created"
+  );
+  return upload;
+}
+
+export async function getUpload(uploadId: string): Promise<VideoUpload | null> {
+  const [upload] = await db
+    .select()
+    .from(videoUploads)
+    .where(eq(videoUploads.id, uploadId))
+    .limit(1);
+  return upload ?? null;
+}
+
+/**
+ * The upload a video was created from, if any
+ */
+export async function getUploadForVideo(videoId: string): Promise<VideoUpload | null> {
+  const [upload] = await db
+    .select()
+    .from(videoUploads)
+    .where(eq(videoUploads.videoId, videoId))
+    .limit(1);
+  return upload ?? null;
+}
+
+async function saveOffset(uploadId: string, uploadOffset: number): Promise<void> {
+  await db
+    .update(videoUploads)
+    .set({ uploadOffset, updatedAt: new Date() })
+    .where(eq(videoUploads.id, uploadId));
+}
+
+/**
+ * Append a chunk at the upload's stored offset. Whatever arrived before the
+ * stream ended or failed is kept, so the client can resume from there.
+ * Completes the upload once every byte is stored.
+ */
+export async function appendChunk(
+  upload: VideoUpload,
+  body: ReadableStream<Uint8Array> | null
+): Promise<VideoUpload> {
+  if (uploadsInFlight.has(upload.id)) {
+    throw new UploadChunkError(`Upload ${upload.id} is already receiving a chunk`, 409);
+  }
+  uploadsInFlight.add(upload.id);
+
+  let offset = upload.uploadOffset;
+  try {
+    const file = await open(uploadFilePath(upload.id), "r+");
+    try {
+      // Bytes past the stored offset are from a chunk that never got recorded
+      await file.truncate(offset);
+      if (body) {
+        const reader = body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          if (chunkOverflows({ ...upload, uploadOffset: offset }, value.byteLength)) {
+            await reader.cancel();
+            throw new UploadChunkError(`Chunk runs past Upload-Length ${upload.uploadLength}`, 413);
+          }
+          await file.write(value, 0, value.byteLength, offset);
+          offset += value.byteLength;
+        }
+      }
+    } finally {
+      await file.close();
+    }
+  } finally {
+    await saveOffset(upload.id, offset);
+    uploadsInFlight.delete(upload.id);
+  }
+
+  const updated = { ...upload, uploadOffset: offset };
+  if (offset === upload.uploadLength) {
+    return completeUpload(updated);
+  }
+  return updated;
+}
+
+/**
+ * Creator fields a video denormalizes for on-chain settlement, from the
+ * human creator or agent it belongs to
+ */
+export async function creatorSettlementFields(owner: {
+  creatorId: string | null;
+  agentId: string | null;
+}): Promise<{
+  creatorWallet: string | null;
+  creatorTokenAddress: string | null;
+  creatorBondingCurveAddress: string | null;
+}> {
+  if (owner.creatorId) {
+    const [creator] = await db
+      .select({
+        address: creators.address,
+        tokenAddress: creators.tokenAddress,
+        bondingCurveAddress: creators.bondingCurveAddress,
+      })
+      .from(creators)
+      .where(eq(creators.id, owner.creatorId))
+      .limit(1);
+    if (creator) {
+      return {
+        creatorWallet: creator.address,
+        creatorTokenAddress: creator.tokenAddress,
+        creatorBondingCurveAddress: creator.bondingCurveAddress,
+      };
+    }
+  } else if (owner.agentId) {
+    const [agent] = await db
+      .select({
+        evmAddress: agents.evmAddress,
+        tokenAddress: agents.tokenAddress,
+        bondingCurveAddress: agents.bondingCurveAddress,
+      })
+      .from(agents)
+      .where(eq(agents.id, owner.agentId))
+      .limit(1);
+    if (agent) {
+      return {
+        creatorWallet: agent.evmAddress,
+        creatorTokenAddress: agent.tokenAddress,
+        creatorBondingCurveAddress: agent.bondingCurveAddress,
+      };
+    }
+  }
+  return { creatorWallet: null, creatorTokenAddress: null, creatorBondingCurveAddress: null };
+}
+
+/**
+ * Turn a fully received upload into a video and queue its processing
+ */
+export async function completeUpload(upload: VideoUpload): Promise<VideoUpload> {
+  if (upload.videoId) return upload;
+
+  const { creatorWallet, creatorTokenAddress, creatorBondingCurveAddress } =
+    await creatorSettlementFields(upload);
+
+  // The secret is fixed up front so a retried encrypt stage derives the same keys
+  const videoId = generateVideoId();
+  await db.transaction(async (tx) => {
+    await tx.insert(videos).values({
+      id: videoId,
+      agentId: upload.agentId,
+      creatorId: upload.creatorId,
+      title: upload.title,
+      description: upload.description,
+      status: "processing",
+      masterSecret: encryptSecret(generateMasterSecret().toString("hex")),
+      creatorWallet,
+      creatorTokenAddress,
+      creatorBondingCurveAddress,
+    });
+    await tx.insert(videoJobs).values(VIDEO_JOB_STAGES.map((stage) => ({ videoId, stage })));
+    await tx
+      .update(videoUploads)
+      .set({ status: "complete", videoId, updatedAt: new Date() })
+      .where(eq(videoUploads.id, upload.id));
+  });
+
+  logger.info(
+    { uploadId: upload.id, videoId, bytes: upload.uploadLength },
+    "Upload complete, video queued for processing"
+  );
+  return { ...upload, status: "complete", videoId };
+}
+
+/**
+ * Cancel an unfinished upload and delete its bytes
+ */
+export async function cancelUpload(upload: VideoUpload): Promise<void> {
+  await db
+    .update(videoUploads)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(eq(videoUploads.id, upload.id));
+  await rm(uploadFilePath(upload.id), { force: true });
+  logger.info({ uploadId: upload.id }, "Upload cancelled");
+}
+
+/**
+ * Delete a processed video's source file and stage output
+ */
+export async function removeUploadFiles(videoId: string): Promise<void> {
+  const upload = await getUploadForVideo(videoId);
+  if (upload) {
+    await rm(uploadFilePath(upload.id), { force: true });
+  }
+  await rm(videoWorkDir(videoId), { recursive: true, force: true });
+}
@@ -21,18 +21,55 @@ const envSchema = z.object({
   STORK_REST_URL: z.string().url().default("https://rest.jp.stork-oracle.network"),
 
   // Agent Alice - Token/BondingCurve addresses (EVM address comes from Circle wallet)
-  ALICE_TOKEN_ADDRESS: z.string().startsWith("0x"),
-  ALICE_BONDING_CURVE_ADDRESS: z.string().startsWith("0x"),
+  // Optional: only used to seed the agents table on first start
+  ALICE_TOKEN_ADDRESS: z.string().startsWith("0x").optional(),
+  ALICE_BONDING_CURVE_ADDRESS: z.string().startsWith("0x").optional(),
   ALICE_WALLET_ADDRESS: z.string().startsWith("0x").optional(),
 
   // Agent Bob - Token/BondingCurve addresses (EVM address comes from Circle wallet)
-  BOB_TOKEN_ADDRESS: z.string().startsWith("0x"),
-  BOB_BONDING_CURVE_ADDRESS: z.string().startsWith("0x"),
+  // Optional: only used to seed the agents table on first start
+  BOB_TOKEN_ADDRESS: z.string().startsWith("0x").optional(),
+  BOB_BONDING_CURVE_ADDRESS: z.string().startsWith("0x").optional(),
   BOB_WALLET_ADDRESS: z.string().startsWith("0x").optional(),
 
+  // Agent roster (agents table is polled so new agents start without a restart)
+  AGENT_ROSTER_POLL_MS: z.coerce.number().default(60_000),
+
+  // Paper trading (agents with execution_mode = 'paper')
+  PAPER_STARTING_USDC: z.coerce.number().default(1000), // Whole USDC credited to a new paper account
+
+  // Admin API (agent provisioning) - disabled if not set
+  ADMIN_API_KEY: z.string().min(16).optional(),
+  // Pays gas for CreatorFactory.createCreator when provisioning agents
+  DEPLOYER_PRIVATE_KEY: z.string().startsWith("0x").optional(),
+
   // OpenRouter (optional - falls back to rule-based decisions if not set)
   OPENROUTER_API_KEY: z.string().min(1).optional(),
   OPENROUTER_MODEL: z.string().default("anthropic/claude-sonnet-4-5-20250929"),
+  // Completion calls per decision, tool calls plus the final submission
+  LLM_MAX_TOOL_STEPS: z.coerce.number().int().min(1).default(6),
+  // LLM fallback chains per use case (comma-separated: openrouter, local)
+  LLM_TRADING_PROVIDERS: z.string().default("openrouter"),
+  LLM_IDEATION_PROVIDERS: z.string().default("openrouter"),
+  // Minimum gap between calls from the same caller (agent + use case)
+  LLM_TRADING_MIN_GAP_MS: z.coerce.number().int().min(0).default(5_000),
+  LLM_IDEATION_MIN_GAP_MS: z.coerce.number().int().min(0).default(5_000),
+  // OpenAI-compatible local endpoint (Ollama, vLLM, llama.cpp), e.g. http://localhost:11434/v1
+  LOCAL_LLM_BASE_URL: z.string().url().optional(),
+  LOCAL_LLM_MODEL: z.string().default("llama3.1"),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  // Decision logs between an agent's "lessons learned" reflections (0 disables)
+  AGENT_REFLECTION_INTERVAL: z.coerce.number().int().min(0).default(20),
+
+  // Decision evaluation: executed actions are scored this long after the decision
+  OUTCOME_HORIZON_HOURS: z.coerce.number().positive().default(24),
+  OUTCOME_SCORER_POLL_MS: z.coerce.number().default(900_000),
+
+  // Leaderboard: how often every agent's NAV is re-valued (one snapshot per agent per day)
+  NAV_SNAPSHOT_POLL_MS: z.coerce.number().default(3_600_000),
+
+  // Extra strategy modules to register at startup (comma-separated import paths)
+  STRATEGY_MODULES: z.string().optional(),
 
   // Yellow Network (state channel payments - optional, falls back to bearer auth)
   YELLOW_CLEARNODE_URL: z.string().url().default("wss://clearnet-sandbox.yellow.com/ws"),
@@ -40,12 +77,30 @@ const envSchema = z.object({
   YELLOW_ASSET: z.string().default("ytest.usd"),
   YELLOW_PRICE_PER_SEGMENT: z.string().default("0.01"),
 
+  // Settlement queue (record → bridge → distribute jobs for closed sessions)
+  SETTLEMENT_POLL_MS: z.coerce.number().default(30_000),
+  SETTLEMENT_MAX_ATTEMPTS: z.coerce.number().default(8), // Attempts before a step is dead-lettered
+
   // Base Sepolia (on-chain video registry + bridge escrow)
   BASE_SEPOLIA_RPC_URL: z.string().url().default("https://sepolia.base.org"),
   VIDEO_REGISTRY_ADDRESS: z.string().startsWith("0x").optional(),
   BRIDGE_ESCROW_ADDRESS: z.string().startsWith("0x").optional(),
   BASE_SEPOLIA_USDC_ADDRESS: z.string().startsWith("0x").default("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
 
+  // Chain indexer (bonding curve, lending pool and video registry events)
+  INDEXER_START_BLOCK: z.coerce.number().optional(), // Deployment block to backfill from; unset = start at head
+  INDEXER_BATCH_BLOCKS: z.coerce.number().default(2_000), // Max blocks per eth_getLogs call
+  INDEXER_REORG_DEPTH: z.coerce.number().default(12), // Blocks rolled back when a reorg is detected
+  INDEXER_POLL_MS: z.coerce.number().default(4_000),
+  VIDEO_REGISTRY_START_BLOCK: z.coerce.number().optional(), // Base Sepolia block the VideoRegistry was deployed at
+
+  // Liquidation keeper (runs when a signer is configured)
+  KEEPER_PRIVATE_KEY: z.string().startsWith("0x").optional(), // Raw key signer, e.g. a Hardhat account
+  KEEPER_CIRCLE_WALLET_ID: z.string().min(1).optional(), // Or a Circle wallet (needs KEEPER_WALLET_ADDRESS)
+  KEEPER_WALLET_ADDRESS: z.string().startsWith("0x").optional(),
+  KEEPER_POLL_MS: z.coerce.number().default(15_000),
+  KEEPER_MIN_BONUS_BPS: z.coerce.number().optional(), // Defaults to the pool's LIQUIDATION_BONUS
+
   // Nitrolite Custody/Adjudicator (on-chain state channels - Base Sepolia)
   NITROLITE_CUSTODY_ADDRESS: z.string().startsWith("0x").default("0x019B65A265EB3363822f2752141b3dF16131b262"),
   NITROLITE_ADJUDICATOR_ADDRESS: z.string().startsWith("0x").default("0x7c7ccbc98469190849BCC6c926307794fDfB11F2"),
@@ -55,6 +110,17 @@ const envSchema = z.object({
   SUPABASE_SERVICE_KEY: z.string().min(1).optional(),
   SUPABASE_STORAGE_BUCKET: z.string().default("videos"),
 
+  // Storage backend for playlists, segments and thumbnails
+  STORAGE_PROVIDER: z.enum(["supabase", "local", "s3"]).default("supabase"),
+  LOCAL_STORAGE_DIR: z.string().default("./storage"),
+  LOCAL_STORAGE_URL: z.string().url().optional(), // Defaults to http://localhost:PORT/storage
+  S3_BUCKET: z.string().min(1).optional(),
+  S3_ACCESS_KEY_ID: z.string().min(1).optional(),
+  S3_SECRET_ACCESS_KEY: z.string().min(1).optional(),
+  S3_REGION: z.string().optional(),
+  S3_ENDPOINT: z.string().url().optional(), // R2/MinIO; omit for AWS
+  S3_PUBLIC_URL: z.string().url().optional(),
+
   // LTX-2 Video Generation (autonomous video creation)
   LTX_API_KEY: z.string().min(1).optional(),
 
@@ -67,7 +133,25 @@ const envSchema = z.object({
 
   // Video processing
   VIDEO_SEGMENT_DURATION: z.coerce.number().default(5),
-  VIDEO_QUALITY: z.string().default("720p"),
+  VIDEO_RENDITIONS: z.string().default("360p,720p"), // HLS ladder: 360p, 480p, 720p, 1080p
+
+  // Resumable uploads and background processing (segment → encrypt → package → upload → register)
+  VIDEO_UPLOAD_DIR: z.string().default("./uploads"), // Upload bytes and per-stage work files
+  VIDEO_UPLOAD_MAX_BYTES: z.coerce.number().default(2 * 1024 * 1024 * 1024),
+  VIDEO_JOB_POLL_MS: z.coerce.number().default(10_000),
+  VIDEO_JOB_MAX_ATTEMPTS: z.coerce.number().default(4), // Attempts before a stage is dead-lettered
+
+  // Live streaming (RTMP ingest → real-time encrypted HLS)
+  LIVE_RTMP_PORT: z.coerce.number().default(1935), // First ingest port; each concurrent stream listens on the next one
+  LIVE_MAX_STREAMS: z.coerce.number().default(4),
+  LIVE_INGEST_HOST: z.string().default("localhost"), // Host broadcasters push RTMP to
+  LIVE_RENDITION: z.string().default("720p"),
+  LIVE_MERKLE_WINDOW: z.coerce.number().default(16), // Segments per committed Merkle root
+
+  // Human creators (sign-in with Ethereum)
+  SIWE_DOMAIN: z.string().optional(), // Domain sign-in messages are issued for; defaults to the FRONTEND_URL host
+  CREATOR_SESSION_TTL_HOURS: z.coerce.number().default(168),
+  TOKEN_GATE_PASS_TTL_MINUTES: z.coerce.number().default(120), // How long a token holder's gate pass lasts
 
   // Database (Supabase PostgreSQL)
   DATABASE_URL: z.string().url(),
@@ -0,0 +1,13 @@
+/**
+ * JSON helpers
+ */
+
+/**
+ * JSON replacer for BigInt serialization
+ */
+export function bigIntReplacer(_key: string, value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  return value;
+}
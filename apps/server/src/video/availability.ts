@@ -0,0 +1,32 @@
+/**
+ * Segment availability
+ *
+ * Pure check of whether a video's segment key may be requested at all,
+ * made before any payment or pass is looked at.
+ */
+
+export interface SegmentRejection {
+  status: 400 | 404;
+  error: string;
+}
+
+/**
+ * Why a segment's key can't be delivered, or null if it can. Deleted videos
+ * are never streamed; live videos 404 until the segment is published, so
+ * viewers are never charged for it early.
+ */
+export function checkSegmentRequest(
+  video: { status: string; totalSegments: number | null },
+  segmentIndex: number,
+): SegmentRejection | null {
+  if (video.status === "deleted") {
+    return { status: 404, error: "Video not found" };
+  }
+  if (video.totalSegments == null || segmentIndex < video.totalSegments) {
+    return null;
+  }
+  if (video.status === "live") {
+    return { status: 404, error: "Segment not published yet" };
+  }
+  return { status: 400, error: "Segment index out of range" };
+}
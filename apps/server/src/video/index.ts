@@ -6,17 +6,50 @@ export { segmentVideo, getVideoMetadata, type SegmenterOptions } from "./segment
 export { encryptVideoSegments, type EncryptionResult } from "./encryptor";
 export {
   generateHLSPackage,
+  generateMasterPlaylist,
+  generateLiveMediaPlaylist,
+  type EncryptedRendition,
   type HLSPackage,
+  type LivePlaylistSegment,
 } from "./packager";
+export {
+  RENDITION_PRESETS,
+  DEFAULT_RENDITION_LADDER,
+  parseRenditionLadder,
+  sortRenditions,
+  renditionBandwidth,
+  type Rendition,
+  type RenditionPreset,
+} from "./renditions";
 export {
   SupabaseStorageProvider,
+  uploadInBatches,
   type StorageProvider,
   type SupabaseStorageConfig,
   type UploadFile,
 } from "./storage";
+export {
+  LocalStorageProvider,
+  contentTypeFor,
+  type LocalStorageConfig,
+} from "./local-storage";
+export { S3StorageProvider, type S3StorageConfig } from "./s3-storage";
 export {
   processVideo,
+  hlsPackageFiles,
   type ProcessVideoOptions,
   type ProcessVideoResult,
 } from "./processor";
+export {
+  runSegmentStage,
+  runEncryptStage,
+  runPackageStage,
+  runUploadStage,
+  readSegmentManifest,
+  type SegmentManifest,
+  type EncryptStageResult,
+  type UploadStageResult,
+  type StageProgressFn,
+} from "./stages";
 export { getSegmentKey, getSegmentKeyRaw } from "./key-handler";
+export { checkSegmentRequest, type SegmentRejection } from "./availability";
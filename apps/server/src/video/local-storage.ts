@@ -0,0 +1,107 @@
+/**
+ * Filesystem storage provider
+ *
+ * Writes files under a local directory and serves them through the
+ * server's /storage route, so the video pipeline runs without Supabase.
+ */
+
+import { dirname, extname, resolve, sep } from "path";
+import { mkdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { uploadInBatches, type StorageProvider, type UploadFile } from "./storage";
+
+/** Local storage configuration */
+export interface LocalStorageConfig {
+  /** Directory files are written to */
+  rootDir: string;
+  /** Public URL the root directory is served from */
+  baseUrl: string;
+}
+
+/** Content types for files the pipeline writes */
+const CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+  ".mp4": "video/mp4",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+};
+
+/**
+ * Content type for a stored path, by extension
+ */
+export function contentTypeFor(path: string): string {
+  return CONTENT_TYPES[extname(path).toLowerCase()] ?? "application/octet-stream";
+}
+
+/**
+ * Filesystem storage provider for video segments
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private rootDir: string;
+  private baseUrl: string;
+
+  constructor(config: LocalStorageConfig) {
+    this.rootDir = resolve(config.rootDir);
+    this.baseUrl = config.baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Absolute path for a storage path; rejects paths escaping the root
+   */
+  resolvePath(path: string): string {
+    const fullPath = resolve(this.rootDir, path);
+    if (fullPath === this.rootDir || !fullPath.startsWith(this.rootDir + sep)) {
+      throw new Error(`Invalid storage path: ${path}`);
+    }
+    return fullPath;
+  }
+
+  async upload(
+    path: string,
+    data: Buffer,
+    _contentType: string
+  ): Promise<string> {
+    const fullPath = this.resolvePath(path);
+
+    try {
+      await mkdir(dirname(fullPath), { recursive: true });
+      await writeFile(fullPath, data);
+    } catch (error) {
+      throw new Error(
+        `Failed to upload ${path}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    return this.getUrl(path);
+  }
+
+  async uploadBatch(files: UploadFile[]): Promise<Map<string, string>> {
+    return uploadInBatches(this, files);
+  }
+
+  async read(path: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(path));
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(path: string): Promise<void> {
+    await rm(this.resolvePath(path), { force: true });
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      return (await stat(this.resolvePath(path))).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  getUrl(path: string): string {
+    return `${this.baseUrl}/${path}`;
+  }
+}
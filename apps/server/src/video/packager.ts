@@ -3,6 +3,28 @@
  */
 
 import type { EncryptedSegment } from "@versus/streaming";
+import {
+  RENDITION_PRESETS,
+  renditionBandwidth,
+  sortRenditions,
+  type Rendition,
+} from "./renditions";
+
+/** Encrypted segments for one rendition of the ladder */
+export interface EncryptedRendition {
+  quality: Rendition;
+  encryptedSegments: EncryptedSegment[];
+  ivs: Buffer[];
+}
+
+/** A published live segment, as listed in the live media playlist */
+export interface LivePlaylistSegment {
+  index: number;
+  duration: number;
+  ivHex: string;
+  /** Absolute URL of the encrypted segment */
+  uri: string;
+}
 
 /** HLS package output */
 export interface HLSPackage {
@@ -12,51 +34,72 @@ export interface HLSPackage {
 }
 
 /**
- * Generate HLS package with encrypted segments
+ * Generate HLS package with encrypted segments for every rendition.
+ *
+ * All renditions share key URIs per segment index, so a key paid for at
+ * one bitrate also decrypts the same time range at any other.
  */
 export function generateHLSPackage(
-  encryptedSegments: EncryptedSegment[],
-  ivs: Buffer[],
+  renditions: EncryptedRendition[],
   videoId: string,
   keyServerBaseUrl: string,
   segmentDuration: number = 5
 ): HLSPackage {
-  const quality = "720p";
-
-  const masterPlaylist = generateMasterPlaylist(quality);
-
-  const mediaPlaylist = generateMediaPlaylist(
-    encryptedSegments,
-    ivs,
-    videoId,
-    keyServerBaseUrl,
-    segmentDuration
+  const masterPlaylist = generateMasterPlaylist(
+    renditions.map((r) => r.quality)
   );
 
+  const mediaPlaylists = new Map<string, string>();
   const segments = new Map<string, Buffer>();
-  for (const segment of encryptedSegments) {
-    segments.set(
-      `${quality}/segment_${segment.index.toString().padStart(3, "0")}.ts`,
-      segment.data
+
+  for (const { quality, encryptedSegments, ivs } of renditions) {
+    mediaPlaylists.set(
+      quality,
+      generateMediaPlaylist(
+        encryptedSegments,
+        ivs,
+        videoId,
+        keyServerBaseUrl,
+        segmentDuration
+      )
     );
+
+    for (const segment of encryptedSegments) {
+      segments.set(
+        `${quality}/segment_${segment.index.toString().padStart(3, "0")}.ts`,
+        segment.data
+      );
+    }
   }
 
   return {
     masterPlaylist,
-    mediaPlaylists: new Map([[quality, mediaPlaylist]]),
+    mediaPlaylists,
     segments,
   };
 }
 
-function generateMasterPlaylist(quality: string): string {
+/**
+ * Master playlist listing each rendition from lowest to highest bitrate
+ */
+export function generateMasterPlaylist(renditions: Rendition[]): string {
   const lines = [
     "#EXTM3U",
     "#EXT-X-VERSION:4",
-    "",
-    `#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720`,
-    `${quality}/playlist.m3u8`,
+    "#EXT-X-INDEPENDENT-SEGMENTS",
   ];
 
+  for (const quality of sortRenditions(renditions)) {
+    const preset = RENDITION_PRESETS[quality];
+    lines.push("");
+    lines.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${renditionBandwidth(quality)},` +
+        `RESOLUTION=${preset.width}x${preset.height},` +
+        `CODECS="${preset.codecs}"`
+    );
+    lines.push(`${quality}/playlist.m3u8`);
+  }
+
   return lines.join("\n");
 }
 
@@ -76,14 +119,14 @@ function generateMediaPlaylist(
   ];
 
   for (let i = 0; i < segments.length; i++) {
-    const iv = ivs[i];
-    const ivHex = iv.toString("hex");
-    const keyUri = `${keyServerBaseUrl}/api/videos/${videoId}/key/${i}`;
-
-    lines.push("");
-    lines.push(`#EXT-X-KEY:METHOD=AES-128,URI="${keyUri}",IV=0x${ivHex}`);
-    lines.push(`#EXTINF:${segmentDuration.toFixed(3)},`);
-    lines.push(`segment_${i.toString().padStart(3, "0")}.ts`);
+    lines.push(
+      ...segmentLines(
+        `${keyServerBaseUrl}/api/videos/${videoId}/key/${i}`,
+        ivs[i].toString("hex"),
+        segmentDuration,
+        `segment_${i.toString().padStart(3, "0")}.ts`
+      )
+    );
   }
 
   lines.push("");
@@ -91,3 +134,61 @@ function generateMediaPlaylist(
 
   return lines.join("\n");
 }
+
+/**
+ * Media playlist for a live stream, regenerated as segments are published.
+ *
+ * An EVENT playlist keeps every segment from the start, so viewers can
+ * seek back (and pay for) anything already broadcast. Key URIs are the
+ * same per-segment endpoints as VOD; ENDLIST is added once the stream ends.
+ */
+export function generateLiveMediaPlaylist(
+  segments: LivePlaylistSegment[],
+  videoId: string,
+  keyServerBaseUrl: string,
+  segmentDuration: number,
+  ended: boolean
+): string {
+  const targetDuration = Math.ceil(
+    Math.max(segmentDuration, ...segments.map((s) => s.duration))
+  );
+  const lines = [
+    "#EXTM3U",
+    "#EXT-X-VERSION:4",
+    `#EXT-X-TARGETDURATION:${targetDuration}`,
+    "#EXT-X-MEDIA-SEQUENCE:0",
+    "#EXT-X-PLAYLIST-TYPE:EVENT",
+  ];
+
+  for (const segment of segments) {
+    lines.push(
+      ...segmentLines(
+        `${keyServerBaseUrl}/api/videos/${videoId}/key/${segment.index}`,
+        segment.ivHex,
+        segment.duration,
+        segment.uri
+      )
+    );
+  }
+
+  if (ended) {
+    lines.push("");
+    lines.push("#EXT-X-ENDLIST");
+  }
+
+  return lines.join("\n");
+}
+
+function segmentLines(
+  keyUri: string,
+  ivHex: string,
+  duration: number,
+  uri: string
+): string[] {
+  return [
+    "",
+    `#EXT-X-KEY:METHOD=AES-128,URI="${keyUri}",IV=0x${ivHex}`,
+    `#EXTINF:${duration.toFixed(3)},`,
+    uri,
+  ];
+}
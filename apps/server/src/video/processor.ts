@@ -1,7 +1,7 @@
 /**
  * Full video processing pipeline
  *
- * Orchestrates: segment -> derive keys -> build Merkle tree -> encrypt -> package -> upload
+ * Orchestrates: segment each rendition -> derive keys -> encrypt -> build Merkle tree -> package -> upload
  */
 
 import {
@@ -10,17 +10,25 @@ import {
   getMerkleRoot,
   serializeMerkleTree,
   generateVideoId,
+  VideoProcessingError,
+  type Segment,
 } from "@versus/streaming";
-import { segmentVideo, type SegmenterOptions } from "./segmenter";
+import { segmentVideo } from "./segmenter";
 import { encryptVideoSegments } from "./encryptor";
-import { generateHLSPackage } from "./packager";
+import { generateHLSPackage, type EncryptedRendition, type HLSPackage } from "./packager";
+import {
+  DEFAULT_RENDITION_LADDER,
+  sortRenditions,
+  type Rendition,
+} from "./renditions";
 import type { StorageProvider, UploadFile } from "./storage";
 import { logger } from "../utils/logger";
 
 /** Video processing options */
 export interface ProcessVideoOptions {
   segmentDuration?: number;
-  quality?: "480p" | "720p" | "1080p";
+  /** Rendition ladder to encode (defaults to 360p + 720p) */
+  renditions?: Rendition[];
   keyServerBaseUrl: string;
 }
 
@@ -33,7 +41,9 @@ export interface ProcessVideoResult {
   merkleRoot: string;
   merkleTreeData: string;
   contentUri: string;
+  /** Highest rendition in the ladder */
   quality: string;
+  renditions: Rendition[];
 }
 
 /**
@@ -46,60 +56,119 @@ export async function processVideo(
 ): Promise<ProcessVideoResult> {
   const {
     segmentDuration = 5,
-    quality = "720p",
     keyServerBaseUrl,
   } = options;
+  const renditions = sortRenditions(options.renditions ?? DEFAULT_RENDITION_LADDER);
+  if (renditions.length === 0) {
+    throw new VideoProcessingError("At least one rendition is required");
+  }
 
   const videoId = generateVideoId();
-  logger.info({ videoId, quality, segmentDuration }, "Starting video processing");
+  logger.info({ videoId, renditions, segmentDuration }, "Starting video processing");
 
-  // Step 1: Segment the video with FFmpeg
-  logger.info({ videoId }, "Segmenting video with FFmpeg");
-  const segmenterOpts: SegmenterOptions = {
-    segmentDuration,
-    quality,
-  };
-  const segments = await segmentVideo(input, segmenterOpts);
-  logger.info(
-    { videoId, totalSegments: segments.length },
-    "Video segmented successfully"
-  );
+  // A File can only be read once; buffer it so each rendition can re-read it
+  const source =
+    typeof input === "string" || Buffer.isBuffer(input)
+      ? input
+      : Buffer.from(await input.arrayBuffer());
 
-  // Step 2: Generate master secret and derive keys
+  // Step 1: Generate master secret (keys are derived per segment index,
+  // so every rendition shares the same key for the same time range)
   const masterSecret = generateMasterSecret();
   logger.info({ videoId }, "Master secret generated");
 
-  // Step 3: Encrypt segments
-  logger.info({ videoId }, "Encrypting segments");
-  const { encryptedSegments, ivs, keys } = await encryptVideoSegments(
-    segments,
-    masterSecret,
-    videoId
+  // Step 2: Segment and encrypt each rendition
+  const encrypted: EncryptedRendition[] = [];
+  let segments: Segment[] = [];
+  let keys: Buffer[] = [];
+
+  for (const quality of renditions) {
+    logger.info({ videoId, quality }, "Segmenting video with FFmpeg");
+    const renditionSegments = await segmentVideo(source, {
+      segmentDuration,
+      quality,
+    });
+
+    if (encrypted.length > 0 && renditionSegments.length !== segments.length) {
+      throw new VideoProcessingError(
+        `Rendition ${quality} produced ${renditionSegments.length} segments, expected ${segments.length}`
+      );
+    }
+
+    logger.info(
+      { videoId, quality, totalSegments: renditionSegments.length },
+      "Encrypting segments"
+    );
+    const result = await encryptVideoSegments(
+      renditionSegments,
+      masterSecret,
+      videoId
+    );
+
+    encrypted.push({
+      quality,
+      encryptedSegments: result.encryptedSegments,
+      ivs: result.ivs,
+    });
+    segments = renditionSegments;
+    keys = result.keys;
+  }
+  logger.info(
+    { videoId, totalSegments: segments.length },
+    "Renditions segmented and encrypted"
   );
-  logger.info({ videoId }, "Segments encrypted");
 
-  // Step 4: Build Merkle tree from keys
+  // Step 3: Build Merkle tree from keys
   const merkleTree = buildMerkleTree(keys);
   const merkleRoot = getMerkleRoot(merkleTree);
   const merkleTreeData = serializeMerkleTree(merkleTree);
   logger.info({ videoId, merkleRoot }, "Merkle tree built");
 
-  // Step 5: Generate HLS package
+  // Step 4: Generate HLS package
   const hlsPackage = generateHLSPackage(
-    encryptedSegments,
-    ivs,
+    encrypted,
     videoId,
     keyServerBaseUrl,
     segmentDuration
   );
   logger.info({ videoId }, "HLS package generated");
 
-  // Step 6: Upload everything to storage
+  // Step 5: Upload everything to storage
   logger.info({ videoId }, "Uploading to storage");
-  const filesToUpload: UploadFile[] = [];
+  const filesToUpload = hlsPackageFiles(videoId, hlsPackage);
+
+  const uploadedUrls = await storage.uploadBatch(filesToUpload);
+  const contentUri = storage.getUrl(`${videoId}/master.m3u8`);
+  logger.info(
+    { videoId, filesUploaded: uploadedUrls.size, contentUri },
+    "Upload complete"
+  );
+
+  const totalDuration = Math.round(
+    segments.reduce((acc, s) => acc + s.duration, 0)
+  );
+
+  return {
+    videoId,
+    totalSegments: segments.length,
+    durationSeconds: totalDuration,
+    masterSecret: masterSecret.toString("hex"),
+    merkleRoot,
+    merkleTreeData,
+    contentUri,
+    quality: renditions[renditions.length - 1],
+    renditions,
+  };
+}
+
+/**
+ * Storage paths and content types for every file in an HLS package
+ */
+export function hlsPackageFiles(videoId: string, hlsPackage: HLSPackage): UploadFile[] {
+  const files: UploadFile[] = [];
 
   // Master playlist
-  filesToUpload.push({
+  files.push({
     path: `${videoId}/master.m3u8`,
     data: Buffer.from(hlsPackage.masterPlaylist),
     contentType: "application/vnd.apple.mpegurl",
@@ -107,7 +176,7 @@ export async function processVideo(
 
   // Media playlists
   for (const [qualityKey, playlist] of hlsPackage.mediaPlaylists) {
-    filesToUpload.push({
+    files.push({
       path: `${videoId}/${qualityKey}/playlist.m3u8`,
       data: Buffer.from(playlist),
       contentType: "application/vnd.apple.mpegurl",
@@ -116,32 +185,12 @@ export async function processVideo(
 
   // Encrypted segments
   for (const [segPath, segData] of hlsPackage.segments) {
-    filesToUpload.push({
+    files.push({
       path: `${videoId}/${segPath}`,
       data: segData,
       contentType: "video/mp2t",
     });
   }
 
-  const uploadedUrls = await storage.uploadBatch(filesToUpload);
-  const contentUri = storage.getUrl(`${videoId}/master.m3u8`);
-  logger.info(
-    { videoId, filesUploaded: uploadedUrls.size, contentUri },
-    "Upload complete"
-  );
-
-  const totalDuration = Math.round(
-    segments.reduce((acc, s) => acc + s.duration, 0)
-  );
-
-  return {
-    videoId,
-    totalSegments: segments.length,
-    durationSeconds: totalDuration,
-    masterSecret: masterSecret.toString("hex"),
-    merkleRoot,
-    merkleTreeData,
-    contentUri,
-    quality,
-  };
+  return files;
 }
@@ -0,0 +1,102 @@
+/**
+ * HLS rendition ladder
+ *
+ * Encoding presets for each rendition and parsing of the configured ladder.
+ */
+
+import { VideoProcessingError } from "@versus/streaming";
+
+/** Rendition preset */
+export interface RenditionPreset {
+  width: number;
+  height: number;
+  videoBitrateKbps: number;
+  audioBitrateKbps: number;
+  /** x264 level, matched by the avc1 codec string below */
+  level: string;
+  codecs: string;
+}
+
+/** Rendition presets (H.264 Main profile + AAC-LC) */
+export const RENDITION_PRESETS = {
+  "360p": {
+    width: 640,
+    height: 360,
+    videoBitrateKbps: 800,
+    audioBitrateKbps: 96,
+    level: "3.0",
+    codecs: "avc1.4d401e,mp4a.40.2",
+  },
+  "480p": {
+    width: 854,
+    height: 480,
+    videoBitrateKbps: 1000,
+    audioBitrateKbps: 128,
+    level: "3.0",
+    codecs: "avc1.4d401e,mp4a.40.2",
+  },
+  "720p": {
+    width: 1280,
+    height: 720,
+    videoBitrateKbps: 2500,
+    audioBitrateKbps: 128,
+    level: "3.1",
+    codecs: "avc1.4d401f,mp4a.40.2",
+  },
+  "1080p": {
+    width: 1920,
+    height: 1080,
+    videoBitrateKbps: 5000,
+    audioBitrateKbps: 128,
+    level: "4.0",
+    codecs: "avc1.4d4028,mp4a.40.2",
+  },
+} as const satisfies Record<string, RenditionPreset>;
+
+export type Rendition = keyof typeof RENDITION_PRESETS;
+
+export const DEFAULT_RENDITION_LADDER: Rendition[] = ["360p", "720p"];
+
+function isRendition(value: string): value is Rendition {
+  return Object.prototype.hasOwnProperty.call(RENDITION_PRESETS, value);
+}
+
+/**
+ * Sort a ladder from lowest to highest bitrate, dropping duplicates
+ */
+export function sortRenditions(renditions: Rendition[]): Rendition[] {
+  return Array.from(new Set(renditions)).sort(
+    (a, b) => RENDITION_PRESETS[a].videoBitrateKbps - RENDITION_PRESETS[b].videoBitrateKbps
+  );
+}
+
+/**
+ * Parse a comma-separated ladder such as "360p,720p,1080p"
+ */
+export function parseRenditionLadder(value: string): Rendition[] {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  if (names.length === 0) {
+    throw new VideoProcessingError("Rendition ladder is empty");
+  }
+
+  for (const name of names) {
+    if (!isRendition(name)) {
+      throw new VideoProcessingError(`Unknown rendition: ${name}`);
+    }
+  }
+
+  return sortRenditions(names as Rendition[]);
+}
+
+/**
+ * Peak bandwidth (bits/s) advertised in the master playlist, with headroom
+ * for MPEG-TS overhead and x264 rate overshoot
+ */
+export function renditionBandwidth(rendition: Rendition): number {
+  const preset = RENDITION_PRESETS[rendition];
+  return Math.round((preset.videoBitrateKbps + preset.audioBitrateKbps) * 1000 * 1.1);
+}
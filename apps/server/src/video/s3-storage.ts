@@ -0,0 +1,85 @@
+/**
+ * S3-compatible storage provider (AWS S3, R2, MinIO, ...)
+ *
+ * Uses Bun's built-in S3 client.
+ */
+
+import { S3Client } from "bun";
+import { uploadInBatches, type StorageProvider, type UploadFile } from "./storage";
+
+/** S3 storage configuration */
+export interface S3StorageConfig {
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  region?: string;
+  /** Custom endpoint for R2/MinIO; omit for AWS */
+  endpoint?: string;
+  /** Public URL objects are served from (CDN or bucket website) */
+  publicUrl?: string;
+}
+
+/**
+ * S3-compatible storage provider for video segments
+ */
+export class S3StorageProvider implements StorageProvider {
+  private client: S3Client;
+  private publicUrl: string;
+
+  constructor(config: S3StorageConfig) {
+    this.client = new S3Client({
+      bucket: config.bucket,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      region: config.region,
+      endpoint: config.endpoint,
+    });
+
+    const defaultUrl = config.endpoint
+      ? `${config.endpoint.replace(/\/+$/, "")}/${config.bucket}`
+      : `https://${config.bucket}.s3.${config.region ?? "us-east-1"}.amazonaws.com`;
+    this.publicUrl = (config.publicUrl ?? defaultUrl).replace(/\/+$/, "");
+  }
+
+  async upload(
+    path: string,
+    data: Buffer,
+    contentType: string
+  ): Promise<string> {
+    try {
+      await this.client.write(path, data, { type: contentType });
+    } catch (error) {
+      throw new Error(
+        `Failed to upload ${path}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    return this.getUrl(path);
+  }
+
+  async uploadBatch(files: UploadFile[]): Promise<Map<string, string>> {
+    return uploadInBatches(this, files);
+  }
+
+  async delete(path: string): Promise<void> {
+    try {
+      await this.client.delete(path);
+    } catch (error) {
+      throw new Error(
+        `Failed to delete ${path}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      return await this.client.exists(path);
+    } catch {
+      return false;
+    }
+  }
+
+  getUrl(path: string): string {
+    return `${this.publicUrl}/${path}`;
+  }
+}
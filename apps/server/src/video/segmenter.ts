@@ -8,22 +8,16 @@ import { join } from "path";
 import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
 import type { Segment } from "@versus/streaming";
 import { VideoProcessingError } from "@versus/streaming";
+import { RENDITION_PRESETS, type Rendition } from "./renditions";
 
 /** Segmenter options */
 export interface SegmenterOptions {
   segmentDuration: number;
-  quality: "480p" | "720p" | "1080p";
+  quality: Rendition;
   ffmpegPath?: string;
   timeout?: number;
 }
 
-/** Quality presets */
-const QUALITY_PRESETS = {
-  "480p": { width: 854, height: 480, bitrate: "1000k" },
-  "720p": { width: 1280, height: 720, bitrate: "2500k" },
-  "1080p": { width: 1920, height: 1080, bitrate: "5000k" },
-} as const;
-
 /**
  * Segment a video file into HLS-compatible segments
  */
@@ -37,7 +31,7 @@ export async function segmentVideo(
     ffmpegPath,
     timeout = 5 * 60 * 1000,
   } = options;
-  const preset = QUALITY_PRESETS[quality];
+  const preset = RENDITION_PRESETS[quality];
 
   if (ffmpegPath) {
     ffmpeg.setFfmpegPath(ffmpegPath);
@@ -69,11 +63,15 @@ export async function segmentVideo(
         .outputOptions([
           `-c:v libx264`,
           `-preset fast`,
-          `-b:v ${preset.bitrate}`,
+          `-profile:v main`,
+          `-level ${preset.level}`,
+          `-b:v ${preset.videoBitrateKbps}k`,
           `-vf scale=${preset.width}:${preset.height}`,
           `-c:a aac`,
-          `-b:a 128k`,
+          `-b:a ${preset.audioBitrateKbps}k`,
+          // Keyframes on segment boundaries keep every rendition's segments aligned
           `-force_key_frames expr:gte(t,n_forced*${segmentDuration})`,
+          `-sc_threshold 0`,
           `-f segment`,
           `-segment_format mpegts`,
           `-segment_time ${segmentDuration}`,
@@ -0,0 +1,273 @@
+/**
+ * Video processing stages
+ *
+ * The processVideo pipeline split into stages that each read the previous
+ * stage's output from a per-video work directory and write their own, so a
+ * failed or interrupted job resumes from the stage it stopped at:
+ *
+ *   manifest.json              renditions and segment durations (segment)
+ *   segments/<quality>/*.ts    plaintext segments (segment)
+ *   encrypted/<quality>/*.ts   encrypted segments (encrypt)
+ *   encrypted/ivs.json         per-segment IVs (encrypt)
+ *   package/files.json         storage paths and content types (package)
+ *   package/<videoId>/...      playlists and segments to upload (package)
+ *
+ * Each stage starts from a clean output directory, so rerunning one is safe.
+ */
+
+import { dirname, join } from "path";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import {
+  buildMerkleTree,
+  getMerkleRoot,
+  serializeMerkleTree,
+  VideoProcessingError,
+  type Segment,
+} from "@versus/streaming";
+import { segmentVideo } from "./segmenter";
+import { encryptVideoSegments } from "./encryptor";
+import { generateHLSPackage, type EncryptedRendition } from "./packager";
+import { hlsPackageFiles } from "./processor";
+import { sortRenditions, type Rendition } from "./renditions";
+import type { StorageProvider, UploadFile } from "./storage";
+
+/** Files uploaded per storage batch (progress is reported per batch) */
+const UPLOAD_BATCH_FILES = 50;
+
+/** Segment stage output */
+export interface SegmentManifest {
+  renditions: Rendition[];
+  segmentDuration: number;
+  /** Per-segment durations in seconds (shared by every rendition) */
+  durations: number[];
+}
+
+/** Encrypt stage output */
+export interface EncryptStageResult {
+  merkleRoot: string;
+  merkleTreeData: string;
+}
+
+/** Upload stage output */
+export interface UploadStageResult {
+  contentUri: string;
+  filesUploaded: number;
+}
+
+/** Reports units of a stage's work done (renditions, uploaded files) */
+export type StageProgressFn = (completed: number, total: number) => Promise<void>;
+
+interface PackagedFile {
+  path: string;
+  contentType: string;
+}
+
+function segmentFileName(index: number): string {
+  return `segment_${index.toString().padStart(3, "0")}.ts`;
+}
+
+async function resetDir(dir: string): Promise<void> {
+  await rm(dir, { recursive: true, force: true });
+  await mkdir(dir, { recursive: true });
+}
+
+async function readJson<T>(path: string): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch (error) {
+    throw new VideoProcessingError(
+      `Missing stage output ${path}: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Read the manifest written by the segment stage
+ */
+export function readSegmentManifest(workDir: string): Promise<SegmentManifest> {
+  return readJson<SegmentManifest>(join(workDir, "manifest.json"));
+}
+
+async function readSegments(
+  dir: string,
+  durations: number[]
+): Promise<Segment[]> {
+  return Promise.all(
+    durations.map(async (duration, index) => ({
+      index,
+      duration,
+      data: await readFile(join(dir, segmentFileName(index))),
+    }))
+  );
+}
+
+/**
+ * Segment the source file into every rendition of the ladder
+ */
+export async function runSegmentStage(
+  sourcePath: string,
+  workDir: string,
+  options: { segmentDuration: number; renditions: Rendition[] },
+  onProgress: StageProgressFn
+): Promise<SegmentManifest> {
+  const renditions = sortRenditions(options.renditions);
+  if (renditions.length === 0) {
+    throw new VideoProcessingError("At least one rendition is required");
+  }
+
+  const outDir = join(workDir, "segments");
+  await resetDir(outDir);
+
+  let durations: number[] = [];
+  for (let i = 0; i < renditions.length; i++) {
+    const quality = renditions[i];
+    const segments = await segmentVideo(sourcePath, {
+      segmentDuration: options.segmentDuration,
+      quality,
+    });
+
+    if (i > 0 && segments.length !== durations.length) {
+      throw new VideoProcessingError(
+        `Rendition ${quality} produced ${segments.length} segments, expected ${durations.length}`
+      );
+    }
+
+    const dir = join(outDir, quality);
+    await mkdir(dir, { recursive: true });
+    for (const segment of segments) {
+      await writeFile(join(dir, segmentFileName(segment.index)), segment.data);
+    }
+
+    durations = segments.map((s) => s.duration);
+    await onProgress(i + 1, renditions.length);
+  }
+
+  const manifest: SegmentManifest = {
+    renditions,
+    segmentDuration: options.segmentDuration,
+    durations,
+  };
+  await writeFile(join(workDir, "manifest.json"), JSON.stringify(manifest));
+  return manifest;
+}
+
+/**
+ * Encrypt every rendition's segments and build the Merkle tree of keys
+ */
+export async function runEncryptStage(
+  workDir: string,
+  videoId: string,
+  masterSecret: Buffer,
+  onProgress: StageProgressFn
+): Promise<EncryptStageResult> {
+  const manifest = await readSegmentManifest(workDir);
+  const outDir = join(workDir, "encrypted");
+  await resetDir(outDir);
+
+  let keys: Buffer[] = [];
+  let ivs: Buffer[] = [];
+  for (let i = 0; i < manifest.renditions.length; i++) {
+    const quality = manifest.renditions[i];
+    const segments = await readSegments(join(workDir, "segments", quality), manifest.durations);
+    const result = await encryptVideoSegments(segments, masterSecret, videoId);
+
+    const dir = join(outDir, quality);
+    await mkdir(dir, { recursive: true });
+    for (const segment of result.encryptedSegments) {
+      await writeFile(join(dir, segmentFileName(segment.index)), segment.data);
+    }
+
+    // Keys and IVs depend only on the segment index, so every rendition shares them
+    keys = result.keys;
+    ivs = result.ivs;
+    await onProgress(i + 1, manifest.renditions.length);
+  }
+
+  await writeFile(
+    join(outDir, "ivs.json"),
+    JSON.stringify(ivs.map((iv) => iv.toString("hex")))
+  );
+
+  const merkleTree = buildMerkleTree(keys);
+  return {
+    merkleRoot: getMerkleRoot(merkleTree),
+    merkleTreeData: serializeMerkleTree(merkleTree),
+  };
+}
+
+/**
+ * Generate the HLS playlists and lay out every file to upload
+ */
+export async function runPackageStage(
+  workDir: string,
+  videoId: string,
+  keyServerBaseUrl: string
+): Promise<number> {
+  const manifest = await readSegmentManifest(workDir);
+  const ivs = (await readJson<string[]>(join(workDir, "encrypted", "ivs.json"))).map((hex) =>
+    Buffer.from(hex, "hex")
+  );
+
+  const encrypted: EncryptedRendition[] = [];
+  for (const quality of manifest.renditions) {
+    const segments = await readSegments(join(workDir, "encrypted", quality), manifest.durations);
+    encrypted.push({
+      quality,
+      encryptedSegments: segments.map((s) => ({ index: s.index, data: s.data, iv: ivs[s.index] })),
+      ivs,
+    });
+  }
+
+  const hlsPackage = generateHLSPackage(
+    encrypted,
+    videoId,
+    keyServerBaseUrl,
+    manifest.segmentDuration
+  );
+
+  const outDir = join(workDir, "package");
+  await resetDir(outDir);
+
+  const files = hlsPackageFiles(videoId, hlsPackage);
+  for (const file of files) {
+    const target = join(outDir, file.path);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, file.data);
+  }
+
+  const listing: PackagedFile[] = files.map((f) => ({ path: f.path, contentType: f.contentType }));
+  await writeFile(join(outDir, "files.json"), JSON.stringify(listing));
+  return files.length;
+}
+
+/**
+ * Upload the packaged files to storage in batches
+ */
+export async function runUploadStage(
+  workDir: string,
+  videoId: string,
+  storage: StorageProvider,
+  onProgress: StageProgressFn
+): Promise<UploadStageResult> {
+  const outDir = join(workDir, "package");
+  const listing = await readJson<PackagedFile[]>(join(outDir, "files.json"));
+
+  let uploaded = 0;
+  for (let i = 0; i < listing.length; i += UPLOAD_BATCH_FILES) {
+    const batch: UploadFile[] = await Promise.all(
+      listing.slice(i, i + UPLOAD_BATCH_FILES).map(async (f) => ({
+        path: f.path,
+        contentType: f.contentType,
+        data: await readFile(join(outDir, f.path)),
+      }))
+    );
+    await storage.uploadBatch(batch);
+    uploaded += batch.length;
+    await onProgress(uploaded, listing.length);
+  }
+
+  return {
+    contentUri: storage.getUrl(`${videoId}/master.m3u8`),
+    filesUploaded: uploaded,
+  };
+}
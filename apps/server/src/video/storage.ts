@@ -1,5 +1,8 @@
 /**
  * Storage provider interface and Supabase implementation
+ *
+ * Filesystem and S3-compatible providers live in local-storage.ts and
+ * s3-storage.ts; the active one is chosen by STORAGE_PROVIDER.
  */
 
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
@@ -20,6 +23,29 @@ export interface StorageProvider {
   getUrl(path: string): string;
 }
 
+/**
+ * Upload files through a provider, 10 at a time
+ */
+export async function uploadInBatches(
+  provider: Pick<StorageProvider, "upload">,
+  files: UploadFile[]
+): Promise<Map<string, string>> {
+  const results = new Map<string, string>();
+
+  const BATCH_SIZE = 10;
+  for (let i = 0; i < files.length; i += BATCH_SIZE) {
+    const batch = files.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map(async (file) => {
+        const url = await provider.upload(file.path, file.data, file.contentType);
+        results.set(file.path, url);
+      })
+    );
+  }
+
+  return results;
+}
+
 /** Supabase storage configuration */
 export interface SupabaseStorageConfig {
   supabaseUrl: string;
@@ -61,20 +87,7 @@ export class SupabaseStorageProvider implements StorageProvider {
   }
 
   async uploadBatch(files: UploadFile[]): Promise<Map<string, string>> {
-    const results = new Map<string, string>();
-
-    const BATCH_SIZE = 10;
-    for (let i = 0; i < files.length; i += BATCH_SIZE) {
-      const batch = files.slice(i, i + BATCH_SIZE);
-      await Promise.all(
-        batch.map(async (file) => {
-          const url = await this.upload(file.path, file.data, file.contentType);
-          results.set(file.path, url);
-        })
-      );
-    }
-
-    return results;
+    return uploadInBatches(this, files);
   }
 
   async delete(path: string): Promise<void> {
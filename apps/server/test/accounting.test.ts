@@ -0,0 +1,177 @@
+/**
+ * Trade Accounting Tests
+ *
+ * Tests for FIFO lot consumption, slippage versus quote, open-lot
+ * summaries and NAV including loan debt.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  computeNav,
+  consumeFifo,
+  lotRemainingCost,
+  slippageBps,
+  summarizeLots,
+  type Lot,
+} from "../src/agents/accounting/fifo";
+import {
+  createMockHolding,
+  createMockLoan,
+  createMockState,
+  toUsdc,
+  MOCK_ADDRESSES,
+} from "./helpers";
+
+const TOKENS = (n: number) => BigInt(n) * 10n ** 18n;
+
+function lot(overrides: Partial<Lot>): Lot {
+  return {
+    tokenAddress: MOCK_ADDRESSES.otherToken,
+    openedAt: 0,
+    tokenAmount: TOKENS(100),
+    remaining: TOKENS(100),
+    costUsdc: toUsdc(10),
+    ...overrides,
+  };
+}
+
+describe("Trade Accounting", () => {
+  describe("consumeFifo", () => {
+    it("should sell the oldest lots first", () => {
+      const lots = [
+        lot({ id: 2, openedAt: 2000, costUsdc: toUsdc(20) }),
+        lot({ id: 1, openedAt: 1000, costUsdc: toUsdc(10) }),
+      ];
+
+      const result = consumeFifo(lots, TOKENS(150));
+
+      expect(result.fills.map((f) => [f.lot.id, f.tokens, f.remaining])).toEqual([
+        [1, TOKENS(100), 0n],
+        [2, TOKENS(50), TOKENS(50)],
+      ]);
+      expect(result.costBasis).toBe(toUsdc(20));
+      expect(result.unmatched).toBe(0n);
+    });
+
+    it("should take a lot's whole remaining cost when it closes", () => {
+      const partly = lot({ tokenAmount: 3n, remaining: 3n, costUsdc: 10n });
+
+      const first = consumeFifo([partly], 1n);
+      expect(first.costBasis).toBe(4n);
+
+      const second = consumeFifo([{ ...partly, remaining: first.fills[0].remaining }], 2n);
+      expect(first.costBasis + second.costBasis).toBe(10n);
+    });
+
+    it("should report tokens no lot covers", () => {
+      const result = consumeFifo([lot({ remaining: TOKENS(40) })], TOKENS(100));
+
+      expect(result.costBasis).toBe(toUsdc(4));
+      expect(result.unmatched).toBe(TOKENS(60));
+    });
+  });
+
+  describe("slippageBps", () => {
+    it("should measure the shortfall against the quote", () => {
+      expect(slippageBps(TOKENS(100), TOKENS(99))).toBe(100);
+      expect(slippageBps(toUsdc(10), toUsdc(10.05))).toBe(-50);
+      expect(slippageBps(null, TOKENS(1))).toBeNull();
+      expect(slippageBps(0n, TOKENS(1))).toBeNull();
+    });
+  });
+
+  describe("summarizeLots", () => {
+    it("should total open lots per token", () => {
+      const positions = summarizeLots([
+        lot({ remaining: TOKENS(50) }),
+        lot({ costUsdc: toUsdc(30) }),
+        lot({ remaining: 0n }),
+        lot({ tokenAddress: MOCK_ADDRESSES.aliceToken }),
+      ]);
+
+      const other = positions.get(MOCK_ADDRESSES.otherToken.toLowerCase());
+      expect(other).toMatchObject({ balance: TOKENS(150), costBasis: toUsdc(35), lots: 2 });
+      expect(other?.avgPrice).toBe((toUsdc(35) * 10n ** 18n) / TOKENS(150));
+      expect(positions.size).toBe(2);
+      expect(lotRemainingCost(lot({ remaining: 0n }))).toBe(0n);
+    });
+  });
+
+  describe("computeNav", () => {
+    it("should net loan debt against USDC, holdings and collateral", () => {
+      const state = createMockState({
+        usdcBalance: toUsdc(100),
+        ownTokenPrice: toUsdc(0.5),
+        holdings: [
+          createMockHolding({
+            balance: TOKENS(200),
+            currentPrice: toUsdc(0.1),
+            unrealizedPnl: toUsdc(5),
+          }),
+        ],
+        loan: createMockLoan({
+          collateralToken: MOCK_ADDRESSES.aliceToken,
+          collateralAmount: TOKENS(100),
+          borrowedAmount: toUsdc(30),
+        }),
+      });
+
+      expect(computeNav(state, MOCK_ADDRESSES.aliceToken)).toEqual({
+        usdcBalance: toUsdc(100),
+        holdingsValue: toUsdc(20),
+        collateralValue: toUsdc(50),
+        ownTokenValue: 0n,
+        pendingRevenue: 0n,
+        loanDebt: toUsdc(30),
+        nav: toUsdc(140),
+        unrealizedPnl: toUsdc(5),
+      });
+    });
+
+    it("should add own tokens and revenue owed to the agent", () => {
+      const state = createMockState({
+        usdcBalance: toUsdc(10),
+        ownTokenPrice: toUsdc(0.5),
+        ownTokenRevenue: toUsdc(2),
+        holdings: [],
+        loan: null,
+      });
+
+      const nav = computeNav(state, MOCK_ADDRESSES.aliceToken, {
+        ownTokenBalance: TOKENS(40),
+        unsettledStreamingRevenue: toUsdc(3),
+      });
+
+      expect(nav.ownTokenValue).toBe(toUsdc(20));
+      expect(nav.pendingRevenue).toBe(toUsdc(5));
+      expect(nav.nav).toBe(toUsdc(35));
+    });
+
+    it("should subtract accrued interest along with the principal", () => {
+      const state = createMockState({
+        usdcBalance: toUsdc(100),
+        holdings: [],
+        loan: createMockLoan({
+          collateralToken: MOCK_ADDRESSES.aliceToken,
+          collateralAmount: 0n,
+          borrowedAmount: toUsdc(30),
+          totalDebt: toUsdc(32),
+        }),
+      });
+
+      const nav = computeNav(state, MOCK_ADDRESSES.aliceToken);
+      expect(nav.loanDebt).toBe(toUsdc(32));
+      expect(nav.nav).toBe(toUsdc(68));
+    });
+
+    it("should ignore an inactive loan", () => {
+      const state = createMockState({
+        usdcBalance: toUsdc(10),
+        holdings: [],
+        loan: createMockLoan({ active: false }),
+      });
+
+      expect(computeNav(state).nav).toBe(toUsdc(10));
+    });
+  });
+});
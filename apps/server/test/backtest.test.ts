@@ -0,0 +1,218 @@
+/**
+ * Backtest Tests
+ *
+ * Tests for the off-chain bonding curve model and the snapshot replay simulator.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  DEFAULT_CURVE_PARAMS,
+  buyQuote,
+  priceAtSupply,
+  sellQuote,
+} from "../src/agents/backtest/curve";
+import { simulateStrategy, supplyAtPrice } from "../src/agents/backtest/simulator";
+import type { BacktestDataset, BacktestStrategy } from "../src/agents/backtest/types";
+import type { Action, AgentState } from "../src/agents/types";
+import { createMockConfig, createMockState, toUsdc, MOCK_ADDRESSES } from "./helpers";
+
+const ONE_TOKEN = 10n ** 18n;
+const HOUR = 60 * 60 * 1000;
+
+function makeDataset(snapshots: AgentState[]): BacktestDataset {
+  const tokens = [MOCK_ADDRESSES.aliceToken, MOCK_ADDRESSES.otherToken];
+  return {
+    agentId: "alice",
+    snapshots,
+    market: {
+      tokenToCurve: new Map([
+        [MOCK_ADDRESSES.aliceToken.toLowerCase(), MOCK_ADDRESSES.aliceCurve],
+        [MOCK_ADDRESSES.otherToken.toLowerCase(), MOCK_ADDRESSES.otherCurve],
+      ]),
+      curves: new Map(tokens.map((t) => [t.toLowerCase(), DEFAULT_CURVE_PARAMS])),
+      prices: new Map(),
+    },
+  };
+}
+
+function snapshot(cycle: number, otherSupply: bigint, overrides?: Partial<AgentState>): AgentState {
+  return createMockState({
+    timestamp: 1_700_000_000_000 + cycle * HOUR,
+    cycle,
+    usdcBalance: toUsdc(100),
+    ownTokenSupply: 5_000n * ONE_TOKEN,
+    otherCreators: [
+      {
+        creatorAddress: MOCK_ADDRESSES.otherCreator,
+        tokenAddress: MOCK_ADDRESSES.otherToken,
+        bondingCurveAddress: MOCK_ADDRESSES.otherCurve,
+        currentPrice: priceAtSupply(otherSupply, DEFAULT_CURVE_PARAMS),
+        totalSupply: otherSupply,
+        pendingRevenue: 0n,
+      },
+    ],
+    ...overrides,
+  });
+}
+
+/** Buys the other creator's token on the first cycle, then holds */
+function buyOnceStrategy(usdc: bigint): BacktestStrategy {
+  return {
+    id: "buy-once",
+    name: "Buy Once",
+    decide: (state) => {
+      const actions: Action[] =
+        state.cycle === 0
+          ? [
+              {
+                type: "BUY_TOKEN",
+                priority: 4,
+                params: {
+                  tokenAddress: MOCK_ADDRESSES.otherToken,
+                  bondingCurveAddress: MOCK_ADDRESSES.otherCurve,
+                  tokenName: "OtherToken",
+                  usdcAmount: usdc,
+                  minTokensOut: 0n,
+                },
+                reason: "test",
+                confidence: 1,
+              },
+            ]
+          : [];
+      return { actions, thinking: [], urgent: false };
+    },
+  };
+}
+
+const holdStrategy: BacktestStrategy = {
+  id: "hold",
+  name: "Hold",
+  decide: () => ({ actions: [], thinking: [], urgent: false }),
+};
+
+describe("Backtest", () => {
+  // ============================================
+  // Curve Model
+  // ============================================
+
+  describe("Curve Model", () => {
+    it("should price at the midpoint halfway between floor and ceiling", () => {
+      const price = priceAtSupply(DEFAULT_CURVE_PARAMS.midpoint, DEFAULT_CURVE_PARAMS);
+      const expected = (DEFAULT_CURVE_PARAMS.floor + DEFAULT_CURVE_PARAMS.ceiling) / 2n;
+      expect(Number(price)).toBeCloseTo(Number(expected), -1);
+    });
+
+    it("should stay within floor and ceiling", () => {
+      expect(priceAtSupply(0n, DEFAULT_CURVE_PARAMS)).toBeGreaterThanOrEqual(DEFAULT_CURVE_PARAMS.floor);
+      expect(priceAtSupply(10n ** 30n, DEFAULT_CURVE_PARAMS)).toBe(DEFAULT_CURVE_PARAMS.ceiling);
+    });
+
+    it("should quote buys at spot price", () => {
+      const supply = 1_000n * ONE_TOKEN;
+      const price = priceAtSupply(supply, DEFAULT_CURVE_PARAMS);
+      const tokens = buyQuote(toUsdc(10), supply, DEFAULT_CURVE_PARAMS);
+      expect(tokens).toBe((toUsdc(10) * ONE_TOKEN) / price);
+    });
+
+    it("should refuse to sell more than the supply", () => {
+      expect(sellQuote(2n * ONE_TOKEN, ONE_TOKEN, DEFAULT_CURVE_PARAMS)).toBe(0n);
+    });
+
+    it("should invert price back to supply", () => {
+      const supply = 9_000n * ONE_TOKEN;
+      const price = priceAtSupply(supply, DEFAULT_CURVE_PARAMS);
+      const recovered = supplyAtPrice(price, DEFAULT_CURVE_PARAMS);
+      const diff = Number((recovered > supply ? recovered - supply : supply - recovered) / ONE_TOKEN);
+      expect(diff).toBeLessThan(1);
+    });
+  });
+
+  // ============================================
+  // Simulator
+  // ============================================
+
+  describe("simulateStrategy", () => {
+    const config = createMockConfig("alice");
+
+    it("should throw when there are no snapshots", () => {
+      expect(() => simulateStrategy(makeDataset([]), holdStrategy, config)).toThrow();
+    });
+
+    it("should report flat P&L for a strategy that does nothing", () => {
+      const snapshots = [0, 1, 2].map((i) => snapshot(i, 8_000n * ONE_TOKEN));
+      const result = simulateStrategy(makeDataset(snapshots), holdStrategy, config);
+
+      expect(result.cycles).toBe(3);
+      expect(result.pnl).toBe(0n);
+      expect(result.tradeCount).toBe(0);
+      expect(result.equityCurve).toHaveLength(3);
+    });
+
+    it("should profit from a buy when the recorded supply rises", () => {
+      const snapshots = [
+        snapshot(0, 8_000n * ONE_TOKEN),
+        snapshot(1, 9_000n * ONE_TOKEN),
+        snapshot(2, 10_000n * ONE_TOKEN),
+      ];
+      const result = simulateStrategy(makeDataset(snapshots), buyOnceStrategy(toUsdc(50)), config);
+
+      expect(result.tradeCount).toBe(1);
+      expect(result.actionCounts.BUY_TOKEN).toBe(1);
+      expect(result.pnl).toBeGreaterThan(0n);
+    });
+
+    it("should track drawdown when the recorded supply falls", () => {
+      const snapshots = [
+        snapshot(0, 10_000n * ONE_TOKEN),
+        snapshot(1, 9_000n * ONE_TOKEN),
+        snapshot(2, 8_000n * ONE_TOKEN),
+      ];
+      const result = simulateStrategy(makeDataset(snapshots), buyOnceStrategy(toUsdc(50)), config);
+
+      expect(result.pnl).toBeLessThan(0n);
+      expect(result.maxDrawdownPercent).toBeGreaterThan(0);
+    });
+
+    it("should reject buys without USDC", () => {
+      const snapshots = [snapshot(0, 8_000n * ONE_TOKEN, { usdcBalance: 0n })];
+      const result = simulateStrategy(makeDataset(snapshots), buyOnceStrategy(toUsdc(50)), config);
+
+      expect(result.tradeCount).toBe(0);
+      expect(result.rejectedActions).toBe(1);
+    });
+
+    it("should reject borrows above max LTV", () => {
+      const borrowStrategy: BacktestStrategy = {
+        id: "borrow",
+        name: "Borrow",
+        decide: () => ({
+          actions: [
+            {
+              type: "BORROW",
+              priority: 7,
+              params: {
+                collateralToken: MOCK_ADDRESSES.aliceToken,
+                collateralAmount: 100n * ONE_TOKEN,
+                borrowAmount: toUsdc(100),
+              },
+              reason: "test",
+              confidence: 1,
+            },
+          ],
+          thinking: [],
+          urgent: false,
+        }),
+      };
+
+      const result = simulateStrategy(
+        makeDataset([snapshot(0, 8_000n * ONE_TOKEN)]),
+        borrowStrategy,
+        config
+      );
+
+      expect(result.rejectedActions).toBe(1);
+      expect(result.ltv.maxLTV).toBe(0);
+      expect(result.ltv.minHealthFactor).toBeNull();
+    });
+  });
+});
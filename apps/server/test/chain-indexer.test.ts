@@ -0,0 +1,58 @@
+/**
+ * Chain Indexer Plan Tests
+ *
+ * Tests for checkpoint resolution, bounded eth_getLogs ranges and reorg rollback.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  planBlockRanges,
+  resolveStartBlock,
+  rollbackTarget,
+} from "../src/integrations/chain/indexer-plan";
+
+describe("Chain Indexer Plan", () => {
+  describe("start block", () => {
+    it("should resume from a persisted checkpoint", () => {
+      expect(resolveStartBlock(5_000n, 100n, 9_000n)).toBe(5_000n);
+    });
+
+    it("should backfill from the deployment block on first run", () => {
+      expect(resolveStartBlock(null, 100n, 9_000n)).toBe(99n);
+      expect(resolveStartBlock(null, 0n, 9_000n)).toBe(0n);
+    });
+
+    it("should start at the head without a deployment block", () => {
+      expect(resolveStartBlock(null, null, 9_000n)).toBe(9_000n);
+    });
+  });
+
+  describe("ranges", () => {
+    it("should split the gap into bounded ranges ending at the head", () => {
+      expect(planBlockRanges(99n, 4_500n, 2_000)).toEqual([
+        { fromBlock: 100n, toBlock: 2_099n },
+        { fromBlock: 2_100n, toBlock: 4_099n },
+        { fromBlock: 4_100n, toBlock: 4_500n },
+      ]);
+    });
+
+    it("should plan nothing when already at the head", () => {
+      expect(planBlockRanges(4_500n, 4_500n, 2_000)).toEqual([]);
+      expect(planBlockRanges(4_501n, 4_500n, 2_000)).toEqual([]);
+    });
+
+    it("should reject a non-positive batch size", () => {
+      expect(() => planBlockRanges(0n, 10n, 0)).toThrow();
+    });
+  });
+
+  describe("reorg rollback", () => {
+    it("should rewind by the reorg depth", () => {
+      expect(rollbackTarget(1_000n, 12, 0n)).toBe(988n);
+    });
+
+    it("should not rewind past the stream's first block", () => {
+      expect(rollbackTarget(105n, 12, 99n)).toBe(99n);
+    });
+  });
+});
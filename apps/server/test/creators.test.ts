@@ -0,0 +1,132 @@
+/**
+ * Creator Tests
+ *
+ * Tests for sign-in message checks, creator earnings from session balances
+ * and video ownership.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { checkSiweMessage, verifySiweSignature } from "../src/creators/siwe";
+import { creatorShare, summarizeCreatorEarnings } from "../src/creators/earnings";
+import { canManageVideo } from "../src/creators/ownership";
+import { toUsdc } from "./helpers";
+
+const NOW = new Date("2026-01-15T12:00:00Z");
+const DOMAIN = "versus.example";
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+
+function message(overrides: Partial<Parameters<typeof createSiweMessage>[0]> = {}) {
+  return createSiweMessage({
+    address: account.address,
+    chainId: 84532,
+    domain: DOMAIN,
+    nonce: "abcdef1234567890",
+    uri: `https://${DOMAIN}/creator`,
+    version: "1",
+    issuedAt: new Date(NOW.getTime() - 60_000),
+    ...overrides,
+  });
+}
+
+function session(status: string, creatorBalance: string, segmentsDelivered = 10) {
+  return { status, creatorBalance, segmentsDelivered };
+}
+
+describe("Creators", () => {
+  describe("sign-in with Ethereum", () => {
+    it("should accept a recent message for this domain", () => {
+      const result = checkSiweMessage(message(), { domain: DOMAIN, now: NOW });
+
+      expect(result).toEqual({
+        ok: true,
+        login: { address: account.address, nonce: "abcdef1234567890", chainId: 84532 },
+      });
+    });
+
+    it("should reject messages for another domain", () => {
+      const result = checkSiweMessage(message({ domain: "evil.example" }), { domain: DOMAIN, now: NOW });
+
+      expect(result).toEqual({ ok: false, error: `SIWE domain mismatch: expected ${DOMAIN}` });
+    });
+
+    it("should reject expired and stale messages", () => {
+      const expired = message({ expirationTime: new Date(NOW.getTime() - 1_000) });
+      const stale = message({ issuedAt: new Date(NOW.getTime() - 60 * 60 * 1000) });
+
+      expect(checkSiweMessage(expired, { domain: DOMAIN, now: NOW }).ok).toBe(false);
+      expect(checkSiweMessage(stale, { domain: DOMAIN, now: NOW })).toEqual({
+        ok: false,
+        error: "SIWE message was not issued recently",
+      });
+    });
+
+    it("should reject text that is not a SIWE message", () => {
+      expect(checkSiweMessage("sign in please", { domain: DOMAIN, now: NOW })).toEqual({
+        ok: false,
+        error: "Malformed SIWE message",
+      });
+    });
+
+    it("should only verify signatures from the message's address", async () => {
+      const text = message();
+      const signature = await account.signMessage({ message: text });
+      const other = privateKeyToAccount(
+        "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+      );
+
+      expect(await verifySiweSignature(text, signature, account.address)).toBe(true);
+      expect(await verifySiweSignature(text, signature, other.address)).toBe(false);
+      expect(await verifySiweSignature(text, "0xdeadbeef", account.address)).toBe(false);
+    });
+  });
+
+  describe("earnings", () => {
+    it("should count only the creator share of a session balance", () => {
+      expect(creatorShare("1.000000")).toBeGreaterThan(0n);
+      expect(creatorShare("1.000000")).toBeLessThan(toUsdc(1));
+      expect(creatorShare("not a number")).toBe(0n);
+      expect(creatorShare(null)).toBe(0n);
+    });
+
+    it("should split closed and settled sessions and ignore active balances", () => {
+      const share = creatorShare("0.500000");
+      const earnings = summarizeCreatorEarnings([
+        session("settled", "0.500000"),
+        session("closed", "0.500000"),
+        session("active", "0.500000", 3),
+        session("closed", "0", 0),
+      ]);
+
+      expect(earnings).toEqual({
+        total: share * 2n,
+        settled: share,
+        unsettled: share,
+        sessions: 4,
+        paidSessions: 2,
+        segmentsDelivered: 23,
+      });
+    });
+  });
+
+  describe("ownership", () => {
+    const own = { kind: "creator" as const, creatorId: "creator_a", address: account.address };
+    const other = { kind: "creator" as const, creatorId: "creator_b", address: account.address };
+
+    it("should let the creator and the admin manage a creator's video", () => {
+      expect(canManageVideo({ creatorId: "creator_a" }, own)).toBe(true);
+      expect(canManageVideo({ creatorId: "creator_a" }, other)).toBe(false);
+      expect(canManageVideo({ creatorId: "creator_a" }, { kind: "admin" })).toBe(true);
+      expect(canManageVideo({ creatorId: "creator_a" }, null)).toBe(false);
+    });
+
+    it("should leave agent videos to the admin", () => {
+      expect(canManageVideo({ creatorId: null }, own)).toBe(false);
+      expect(canManageVideo({ creatorId: null }, { kind: "admin" })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Liquidation Defense Tests
+ *
+ * Tests for projected health factors and proactive collateral top-ups / repays.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type {
+  Action,
+  CollateralMarket,
+  DepositCollateralParams,
+  RepayParams,
+  SellTokenParams,
+} from "../src/agents/types";
+import {
+  accrueInterest,
+  planLiquidationDefense,
+  projectLiquidationRisk,
+} from "../src/agents/risk/defense";
+import { DEFAULT_CURVE_PARAMS, priceAtSupply } from "../src/agents/backtest/curve";
+import { decide } from "../src/agents/runtime/decide";
+import { formatStateForLLM } from "../src/agents/runtime/prompts";
+import {
+  createMockConfig,
+  createMockLoan,
+  createMockState,
+  toUsdc,
+  MOCK_ADDRESSES,
+} from "./helpers";
+
+const ONE_TOKEN = 10n ** 18n;
+const SUPPLY = 20_000n * ONE_TOKEN;
+
+// Default limits: defend below 1.25, restore to 1.3
+const config = createMockConfig("alice");
+
+function market(overrides?: Partial<CollateralMarket>): CollateralMarket {
+  return {
+    bondingCurveAddress: MOCK_ADDRESSES.aliceCurve,
+    curve: DEFAULT_CURVE_PARAMS,
+    supply: SUPPLY,
+    spotPrice: priceAtSupply(SUPPLY, DEFAULT_CURVE_PARAMS),
+    poolPrice: DEFAULT_CURVE_PARAMS.floor, // 0.01 USDC
+    walletBalance: 500n * ONE_TOKEN,
+    otherAgentHoldings: 0n,
+    ...overrides,
+  };
+}
+
+/** 1000 tokens at the 0.01 floor = 10 USDC of collateral */
+function loan(debt: number, marketOverrides?: Partial<CollateralMarket>) {
+  return createMockLoan({
+    collateralAmount: 1_000n * ONE_TOKEN,
+    borrowedAmount: toUsdc(debt),
+    healthFactor: (10 * 0.85) / debt,
+    collateralMarket: market(marketOverrides),
+  });
+}
+
+describe("Liquidation Defense", () => {
+  describe("projection", () => {
+    it("should accrue a year of interest at 10% APR", () => {
+      expect(accrueInterest(toUsdc(100), 365 * 24 * 60 * 60 * 1000)).toBe(toUsdc(110));
+    });
+
+    it("should return null without collateral market data", () => {
+      expect(projectLiquidationRisk(createMockLoan(), config)).toBeNull();
+    });
+
+    it("should replay other agents' holdings as sells on the curve", () => {
+      const risk = projectLiquidationRisk(
+        loan(6, { otherAgentHoldings: 10_000n * ONE_TOKEN }),
+        config
+      )!;
+
+      expect(risk.pendingSellTokens).toBe(10_000n * ONE_TOKEN);
+      expect(risk.projectedSpotPrice).toBe(priceAtSupply(10_000n * ONE_TOKEN, DEFAULT_CURVE_PARAMS));
+      expect(risk.priceImpactPct).toBeLessThan(0);
+      // Floor-priced pool: sells cannot push the valuation below the floor
+      expect(risk.valuationPrice).toBe(DEFAULT_CURVE_PARAMS.floor);
+      expect(risk.atRisk).toBe(false);
+    });
+
+    it("should value at the post-sell spot when it is below the pool price", () => {
+      const spot = priceAtSupply(SUPPLY, DEFAULT_CURVE_PARAMS);
+      const spotPriced = { poolPrice: spot, spotPrice: spot };
+      const calm = projectLiquidationRisk(loan(6, spotPriced), config)!;
+      const dumped = projectLiquidationRisk(
+        loan(6, { ...spotPriced, otherAgentHoldings: 15_000n * ONE_TOKEN }),
+        config
+      )!;
+
+      expect(calm.valuationPrice).toBe(spot);
+      expect(dumped.valuationPrice).toBeLessThan(spot);
+      expect(dumped.projectedHealthFactor).toBeLessThan(calm.projectedHealthFactor);
+    });
+
+    it("should flag a loan whose interest pushes it under the threshold", () => {
+      const risk = projectLiquidationRisk(loan(7), config)!;
+      expect(risk.projectedDebt).toBeGreaterThan(toUsdc(7));
+      expect(risk.projectedHealthFactor).toBeLessThan(1.25);
+      expect(risk.atRisk).toBe(true);
+    });
+  });
+
+  describe("planning", () => {
+    it("should not act on a healthy projection", () => {
+      const actions: Action[] = [];
+      const state = createMockState({ loan: loan(6) });
+      expect(planLiquidationDefense(state, config, [], actions)).toBe(false);
+      expect(actions).toHaveLength(0);
+    });
+
+    it("should top up collateral from the wallet back to minHealthFactor", () => {
+      const actions: Action[] = [];
+      const state = createMockState({ loan: loan(7) });
+
+      expect(planLiquidationDefense(state, config, [], actions)).toBe(true);
+      expect(actions).toHaveLength(1);
+      expect(actions[0].type).toBe("DEPOSIT_COLLATERAL");
+      expect(actions[0].priority).toBe(8);
+
+      const deposit = (actions[0].params as DepositCollateralParams).amount;
+      const after = projectLiquidationRisk(state.loan!, config, { depositTokens: deposit })!;
+      expect(after.projectedHealthFactor).toBeCloseTo(1.3, 2);
+    });
+
+    it("should repay the rest when the wallet runs out of collateral", () => {
+      const actions: Action[] = [];
+      const state = createMockState({
+        usdcBalance: toUsdc(200),
+        loan: loan(7, { walletBalance: 0n }),
+      });
+
+      planLiquidationDefense(state, config, [], actions);
+      expect(actions).toHaveLength(1);
+      expect(actions[0].type).toBe("REPAY");
+
+      const repay = (actions[0].params as RepayParams).repayAmount;
+      const after = projectLiquidationRisk(state.loan!, config, { repayUsdc: repay })!;
+      expect(after.projectedHealthFactor).toBeCloseTo(1.3, 2);
+    });
+
+    it("should keep the minimum treasury buffer when repaying", () => {
+      const actions: Action[] = [];
+      const state = createMockState({
+        usdcBalance: config.strategy.minTreasuryBuffer,
+        loan: loan(7, { walletBalance: 0n }),
+      });
+
+      expect(planLiquidationDefense(state, config, [], actions)).toBe(false);
+      expect(actions).toHaveLength(0);
+    });
+
+    it("should not count collateral being sold this cycle as spare", () => {
+      const sell: Action = {
+        type: "SELL_TOKEN",
+        params: {
+          tokenAddress: MOCK_ADDRESSES.aliceToken,
+          bondingCurveAddress: MOCK_ADDRESSES.aliceCurve,
+          tokenName: "ALICE",
+          tokenAmount: 500n * ONE_TOKEN,
+          minUsdcOut: 0n,
+        } as SellTokenParams,
+        reason: "Profit take",
+        confidence: 0.8,
+        priority: 3,
+      };
+      const actions: Action[] = [sell];
+      const state = createMockState({ usdcBalance: toUsdc(200), loan: loan(7) });
+
+      planLiquidationDefense(state, config, [], actions);
+      expect(actions.map((a) => a.type)).toEqual(["SELL_TOKEN", "REPAY"]);
+    });
+
+    it("should account for a repay already queued this cycle", () => {
+      const actions: Action[] = [
+        {
+          type: "REPAY",
+          params: { repayAmount: toUsdc(2), withdrawCollateral: false } as RepayParams,
+          reason: "Excess treasury",
+          confidence: 0.8,
+          priority: 6,
+        },
+      ];
+      const state = createMockState({ loan: loan(7) });
+
+      expect(planLiquidationDefense(state, config, [], actions)).toBe(false);
+      expect(actions).toHaveLength(1);
+    });
+  });
+
+  describe("integration", () => {
+    it("should add a defensive deposit to the rule-based decision", () => {
+      const result = decide(createMockState({ loan: loan(7) }), config);
+      const deposit = result.actions.find((a) => a.type === "DEPOSIT_COLLATERAL");
+      expect(deposit?.priority).toBe(8);
+    });
+
+    it("should surface a liquidation risk block to the LLM", () => {
+      const prompt = formatStateForLLM(createMockState({ loan: loan(7) }), config);
+      expect(prompt).toContain("## Liquidation Risk");
+      expect(prompt).toContain("AT RISK");
+      expect(prompt).toContain("DEPOSIT_COLLATERAL");
+    });
+
+    it("should omit the block without collateral market data", () => {
+      const prompt = formatStateForLLM(createMockState({ loan: createMockLoan() }), config);
+      expect(prompt).not.toContain("## Liquidation Risk");
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Decision Evaluation Tests
+ *
+ * Tests for scoring executed actions against doing nothing and for the
+ * per-agent performance summary (hit rate, edge, source split, calibration).
+ */
+
+import { describe, it, expect } from "bun:test";
+import { scoreAction, type ScorableAction } from "../src/agents/evaluation/score";
+import { summarizePerformance, type OutcomeRecord } from "../src/agents/evaluation/performance";
+import { accrueInterest } from "../src/agents/risk/defense";
+import {
+  createMockHolding,
+  createMockLoan,
+  createMockOtherCreator,
+  createMockState,
+  toUsdc,
+  MOCK_ADDRESSES,
+} from "./helpers";
+
+const DAY = 24 * 60 * 60 * 1000;
+const TOKENS = (n: number) => BigInt(n) * 10n ** 18n;
+
+const state = createMockState({
+  ownTokenPrice: toUsdc(0.5),
+  holdings: [createMockHolding({ currentPrice: toUsdc(0.1) })],
+  otherCreators: [createMockOtherCreator({ currentPrice: toUsdc(0.1) })],
+  loan: createMockLoan({ collateralToken: MOCK_ADDRESSES.aliceToken }),
+});
+
+function score(action: ScorableAction, exitPrice: bigint, fill?: { usdcAmount: bigint; tokenAmount: bigint }) {
+  return scoreAction({
+    action,
+    state,
+    ownTokenAddress: MOCK_ADDRESSES.aliceToken,
+    exitPrice,
+    horizonMs: DAY,
+    fill,
+  });
+}
+
+function record(overrides: Partial<OutcomeRecord>): OutcomeRecord {
+  return {
+    decisionLogId: 1,
+    actionType: "BUY_TOKEN",
+    source: "llm",
+    confidence: 0.5,
+    outcomeUsdc: 0n,
+    edgePct: 0,
+    hit: false,
+    decidedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("Decision Evaluation", () => {
+  describe("scoreAction", () => {
+    it("should mark a buy to the horizon price", () => {
+      const outcome = score(
+        { type: "BUY_TOKEN", params: { tokenAddress: MOCK_ADDRESSES.otherToken, usdcAmount: toUsdc(10).toString() } },
+        toUsdc(0.12)
+      );
+
+      expect(outcome).toMatchObject({
+        method: "mark",
+        entryPrice: toUsdc(0.1),
+        notionalUsdc: toUsdc(10),
+        outcomeUsdc: toUsdc(2),
+        edgePct: 20,
+        hit: true,
+      });
+    });
+
+    it("should prefer the actual fill over the snapshot price", () => {
+      const outcome = score(
+        { type: "BUY_TOKEN", params: { tokenAddress: MOCK_ADDRESSES.otherToken, usdcAmount: toUsdc(10).toString() } },
+        toUsdc(0.1),
+        { usdcAmount: toUsdc(10), tokenAmount: TOKENS(80) }
+      );
+
+      // Paid 0.125 per token through slippage; flat afterwards is a loss
+      expect(outcome?.entryPrice).toBe(toUsdc(0.125));
+      expect(outcome?.outcomeUsdc).toBe(-toUsdc(2));
+      expect(outcome?.hit).toBe(false);
+    });
+
+    it("should score a sell against holding the tokens", () => {
+      const sell = {
+        type: "SELL_TOKEN",
+        params: { tokenAddress: MOCK_ADDRESSES.otherToken, tokenAmount: TOKENS(100).toString() },
+      };
+
+      const avoidedDrop = score(sell, toUsdc(0.05));
+      expect(avoidedDrop).toMatchObject({ method: "realized", notionalUsdc: toUsdc(10), outcomeUsdc: toUsdc(5), hit: true });
+
+      const missedRally = score(sell, toUsdc(0.15));
+      expect(missedRally?.edgePct).toBe(-50);
+    });
+
+    it("should score borrows as a collateral long net of interest, and repays as the inverse", () => {
+      const amount = toUsdc(100);
+      const interest = accrueInterest(amount, DAY) - amount;
+
+      const borrow = score(
+        { type: "BORROW", params: { collateralToken: MOCK_ADDRESSES.aliceToken, borrowAmount: amount.toString() } },
+        toUsdc(0.55)
+      );
+      expect(borrow?.outcomeUsdc).toBe(toUsdc(10) - interest);
+
+      const repay = score({ type: "REPAY", params: { repayAmount: amount.toString() } }, toUsdc(0.5));
+      expect(repay?.outcomeUsdc).toBe(interest);
+      expect(repay?.hit).toBe(true);
+    });
+
+    it("should skip actions it cannot price", () => {
+      expect(
+        score({ type: "BUY_TOKEN", params: { tokenAddress: "0x9999999999999999999999999999999999999999", usdcAmount: "1" } }, toUsdc(1))
+      ).toBeNull();
+      expect(score({ type: "CLAIM_REVENUE", params: {} }, toUsdc(1))).toBeNull();
+    });
+  });
+
+  describe("summarizePerformance", () => {
+    it("should split hit rate and edge by source", () => {
+      const performance = summarizePerformance([
+        record({ source: "llm", hit: true, edgePct: 10, outcomeUsdc: toUsdc(1), decidedAt: 2 }),
+        record({ source: "llm", hit: false, edgePct: -4, outcomeUsdc: -toUsdc(0.4), decidedAt: 1 }),
+        record({ source: "rules", actionType: "REPAY", hit: true, edgePct: 1, outcomeUsdc: toUsdc(0.1), decidedAt: 3 }),
+      ]);
+
+      expect(performance.overall).toMatchObject({ count: 3, hits: 2, totalOutcomeUsdc: toUsdc(0.7) });
+      expect(performance.bySource.llm).toMatchObject({ count: 2, hitRate: 0.5, avgEdgePct: 3 });
+      expect(performance.bySource.rules.hitRate).toBe(1);
+      expect(Object.keys(performance.byActionType).sort()).toEqual(["BUY_TOKEN", "REPAY"]);
+      expect(performance.series.map((p) => p.cumulativeOutcomeUsdc)).toEqual([
+        -toUsdc(0.4),
+        toUsdc(0.6),
+        toUsdc(0.7),
+      ]);
+    });
+
+    it("should bucket confidence for calibration", () => {
+      const performance = summarizePerformance([
+        record({ confidence: 0.9, hit: true }),
+        record({ confidence: 1, hit: false }),
+        record({ confidence: 0.1, hit: false }),
+      ]);
+
+      expect(performance.calibration).toHaveLength(5);
+      expect(performance.calibration[4]).toMatchObject({ count: 2, hitRate: 0.5 });
+      expect(performance.calibration[4].avgConfidence).toBeCloseTo(0.95, 10);
+      expect(performance.calibration[0]).toMatchObject({ count: 1, hitRate: 0 });
+      expect(performance.calibration[2].hitRate).toBeNull();
+      expect(performance.brierScore).toBeCloseTo((0.01 + 1 + 0.01) / 3, 10);
+    });
+
+    it("should report no rates without outcomes", () => {
+      const performance = summarizePerformance([]);
+      expect(performance.overall).toEqual({ count: 0, hits: 0, hitRate: null, avgEdgePct: null, totalOutcomeUsdc: 0n });
+      expect(performance.brierScore).toBeNull();
+    });
+  });
+});
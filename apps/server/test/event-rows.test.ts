@@ -0,0 +1,140 @@
+/**
+ * Indexed Event Row Tests
+ *
+ * Tests for mapping decoded bonding curve, lending pool and video registry
+ * logs to database rows.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { IndexedLog } from "../src/integrations/chain/indexer";
+import {
+  toTradeRow,
+  toRevenueEventRow,
+  toLendingEventRow,
+  toVideoRegistryEventRow,
+} from "../src/integrations/chain/event-rows";
+import { MOCK_ADDRESSES } from "./helpers";
+
+const CURVE = {
+  tokenAddress: MOCK_ADDRESSES.aliceToken,
+  bondingCurveAddress: MOCK_ADDRESSES.aliceCurve,
+};
+
+function makeLog(eventName: string, args: Record<string, unknown>): IndexedLog {
+  return {
+    eventName,
+    args,
+    txHash: "0xtx",
+    logIndex: 3,
+    blockNumber: 1_234,
+    timestamp: 1_700_000_000_000,
+  };
+}
+
+describe("Indexed Event Rows", () => {
+  describe("bonding curve", () => {
+    it("should map purchases to buy trades stamped with block time", () => {
+      const row = toTradeRow(
+        CURVE,
+        makeLog("TokensPurchased", {
+          buyer: MOCK_ADDRESSES.bob,
+          usdcIn: 5_000_000n,
+          tokensOut: 10n ** 18n,
+          newPrice: 12_000n,
+        })
+      );
+
+      expect(row).toEqual({
+        ...CURVE,
+        side: "buy",
+        trader: MOCK_ADDRESSES.bob,
+        usdcAmount: "5000000",
+        tokenAmount: "1000000000000000000",
+        price: "12000",
+        txHash: "0xtx",
+        logIndex: 3,
+        blockNumber: 1_234,
+        timestamp: 1_700_000_000_000,
+      });
+    });
+
+    it("should route revenue events to revenue rows only", () => {
+      const added = makeLog("RevenueAdded", { amount: 700_000n, newRevenuePerToken: 42n });
+      const claimed = makeLog("RevenueClaimed", { user: MOCK_ADDRESSES.bob, amount: 1_000n });
+
+      expect(toTradeRow(CURVE, added)).toBeNull();
+      expect(toRevenueEventRow(CURVE, added)).toMatchObject({
+        kind: "added",
+        amount: "700000",
+        revenuePerToken: "42",
+      });
+      expect(toRevenueEventRow(CURVE, claimed)).toMatchObject({
+        kind: "claimed",
+        user: MOCK_ADDRESSES.bob,
+        amount: "1000",
+      });
+    });
+  });
+
+  describe("lending pool", () => {
+    it("should map collateral, borrow and repay events", () => {
+      const pool = "0xpool";
+      expect(
+        toLendingEventRow(
+          pool,
+          makeLog("CollateralDeposited", { borrower: MOCK_ADDRESSES.alice, token: MOCK_ADDRESSES.bobToken, amount: 5n })
+        )
+      ).toMatchObject({ kind: "deposit", token: MOCK_ADDRESSES.bobToken, amount: "5" });
+      expect(
+        toLendingEventRow(pool, makeLog("Repaid", { borrower: MOCK_ADDRESSES.alice, amount: 9n }))
+      ).toMatchObject({ kind: "repay", borrower: MOCK_ADDRESSES.alice, amount: "9" });
+    });
+
+    it("should record debt repaid and collateral seized on liquidation", () => {
+      const row = toLendingEventRow(
+        "0xpool",
+        makeLog("Liquidated", {
+          borrower: MOCK_ADDRESSES.alice,
+          liquidator: MOCK_ADDRESSES.bob,
+          collateralSeized: 77n,
+          debtRepaid: 50n,
+        })
+      );
+      expect(row).toMatchObject({
+        kind: "liquidation",
+        liquidator: MOCK_ADDRESSES.bob,
+        amount: "50",
+        collateralSeized: "77",
+      });
+    });
+  });
+
+  describe("video registry", () => {
+    it("should map registrations and settlements", () => {
+      expect(
+        toVideoRegistryEventRow(
+          "0xregistry",
+          makeLog("VideoRegistered", {
+            videoIdHash: "0xhash",
+            merkleRoot: "0xroot",
+            creator: MOCK_ADDRESSES.alice,
+            totalSegments: 12n,
+          })
+        )
+      ).toMatchObject({ kind: "registered", videoIdHash: "0xhash", totalSegments: 12 });
+
+      expect(
+        toVideoRegistryEventRow(
+          "0xregistry",
+          makeLog("SettlementRecorded", {
+            videoIdHash: "0xhash",
+            viewer: MOCK_ADDRESSES.bob,
+            segmentsWatched: 4n,
+            totalPaid: 40_000n,
+            yellowSessionId: "0xsession",
+          })
+        )
+      ).toMatchObject({ kind: "settlement", segmentsWatched: 4, totalPaid: "40000", yellowSessionId: "0xsession" });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * HLS Ladder Tests
+ *
+ * Tests for rendition ladder parsing and multi-rendition HLS packaging.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { VideoProcessingError } from "@versus/streaming";
+import { generateHLSPackage, generateMasterPlaylist } from "../src/video/packager";
+import { parseRenditionLadder, renditionBandwidth } from "../src/video/renditions";
+
+const KEY_SERVER = "https://versus.example";
+
+function makeRendition(quality: "360p" | "720p", count: number) {
+  const ivs = Array.from({ length: count }, (_, i) => Buffer.alloc(16, i));
+  return {
+    quality,
+    ivs,
+    encryptedSegments: ivs.map((iv, index) => ({
+      index,
+      iv,
+      data: Buffer.from(`${quality}-${index}`),
+    })),
+  };
+}
+
+describe("HLS Ladder", () => {
+  describe("parsing", () => {
+    it("should sort the ladder by bitrate and drop duplicates", () => {
+      expect(parseRenditionLadder("1080p, 360p,720p,360p")).toEqual(["360p", "720p", "1080p"]);
+    });
+
+    it("should reject unknown or empty ladders", () => {
+      expect(() => parseRenditionLadder("360p,4k")).toThrow(VideoProcessingError);
+      expect(() => parseRenditionLadder(" , ")).toThrow(VideoProcessingError);
+    });
+  });
+
+  describe("master playlist", () => {
+    it("should emit one variant per rendition, lowest bitrate first", () => {
+      const playlist = generateMasterPlaylist(["720p", "360p"]);
+      const variants = playlist.split("\n").filter((l) => l.startsWith("#EXT-X-STREAM-INF"));
+
+      expect(variants).toEqual([
+        `#EXT-X-STREAM-INF:BANDWIDTH=${renditionBandwidth("360p")},RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2"`,
+        `#EXT-X-STREAM-INF:BANDWIDTH=${renditionBandwidth("720p")},RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2"`,
+      ]);
+      expect(playlist).toContain("360p/playlist.m3u8");
+      expect(playlist).toContain("720p/playlist.m3u8");
+    });
+  });
+
+  describe("packaging", () => {
+    it("should share key URIs per segment index across renditions", () => {
+      const pkg = generateHLSPackage(
+        [makeRendition("360p", 3), makeRendition("720p", 3)],
+        "video-1",
+        KEY_SERVER
+      );
+
+      const keyLines = (quality: string) =>
+        pkg.mediaPlaylists
+          .get(quality)!
+          .split("\n")
+          .filter((l) => l.startsWith("#EXT-X-KEY"));
+
+      expect(keyLines("360p")).toHaveLength(3);
+      expect(keyLines("360p")).toEqual(keyLines("720p"));
+      expect(keyLines("720p")[2]).toContain(`${KEY_SERVER}/api/videos/video-1/key/2`);
+    });
+
+    it("should place segments under their rendition directory", () => {
+      const pkg = generateHLSPackage([makeRendition("360p", 2), makeRendition("720p", 2)], "v", KEY_SERVER);
+      expect(Array.from(pkg.segments.keys()).sort()).toEqual([
+        "360p/segment_000.ts",
+        "360p/segment_001.ts",
+        "720p/segment_000.ts",
+        "720p/segment_001.ts",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Leaderboard Tests
+ *
+ * Tests for the return, Sharpe-like ratio and max drawdown computed from
+ * daily NAV series.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  dailyReturns,
+  maxDrawdownPct,
+  sharpeRatio,
+  summarizeNavSeries,
+  type NavPoint,
+} from "../src/agents/leaderboard/stats";
+import { toUsdc } from "./helpers";
+
+function series(...navs: number[]): NavPoint[] {
+  return navs.map((nav, i) => ({ day: `2026-01-${String(i + 1).padStart(2, "0")}`, nav: toUsdc(nav) }));
+}
+
+describe("Leaderboard", () => {
+  describe("dailyReturns", () => {
+    it("should skip days after a non-positive NAV", () => {
+      expect(dailyReturns(series(100, 110, 0, 50))).toEqual([0.1, -1]);
+    });
+  });
+
+  describe("sharpeRatio", () => {
+    it("should annualize mean return over volatility", () => {
+      const sharpe = sharpeRatio([0.01, 0.03]);
+      // mean 0.02, sample stdev 0.01414...
+      expect(sharpe).toBeCloseTo((0.02 / Math.sqrt(0.0002)) * Math.sqrt(365), 6);
+    });
+
+    it("should be null without enough returns or volatility", () => {
+      expect(sharpeRatio([0.01])).toBeNull();
+      expect(sharpeRatio([0.01, 0.01, 0.01])).toBeNull();
+    });
+  });
+
+  describe("maxDrawdownPct", () => {
+    it("should measure the largest fall from a running peak", () => {
+      expect(maxDrawdownPct(series(100, 120, 90, 130, 117))).toBe(25);
+      expect(maxDrawdownPct(series(100, 101, 102))).toBe(0);
+    });
+  });
+
+  describe("summarizeNavSeries", () => {
+    it("should summarize an unordered series", () => {
+      const points = series(100, 80, 120);
+      const stats = summarizeNavSeries([points[2], points[0], points[1]]);
+
+      expect(stats).toMatchObject({
+        days: 3,
+        startNav: toUsdc(100),
+        endNav: toUsdc(120),
+        returnPct: 20,
+        maxDrawdownPct: 20,
+      });
+      expect(stats.sharpe).not.toBeNull();
+    });
+
+    it("should report nothing for an empty series", () => {
+      expect(summarizeNavSeries([])).toEqual({
+        days: 0,
+        startNav: null,
+        endNav: null,
+        returnPct: null,
+        sharpe: null,
+        maxDrawdownPct: 0,
+      });
+    });
+  });
+});
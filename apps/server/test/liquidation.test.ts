@@ -0,0 +1,85 @@
+/**
+ * Liquidation Plan Tests
+ *
+ * Tests for when the keeper liquidates a LendingPool position and when it skips.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  HEALTH_FACTOR_ONE,
+  evaluateLiquidation,
+  isLiquidatable,
+  liquidationAllowance,
+  liquidationBonusBps,
+  type PositionSnapshot,
+} from "../src/keeper/plan";
+
+const USDC = 1_000_000n;
+
+function position(overrides: Partial<PositionSnapshot> = {}): PositionSnapshot {
+  return {
+    borrower: "0x00000000000000000000000000000000000000b0",
+    collateralToken: "0x00000000000000000000000000000000000000c0",
+    collateralAmount: 1_000n * 10n ** 18n,
+    totalDebt: 100n * USDC,
+    healthFactor: (HEALTH_FACTOR_ONE * 9n) / 10n,
+    saleProceeds: 110n * USDC,
+    ...overrides,
+  };
+}
+
+const policy = { minBonusBps: 500n, availableUsdc: 1_000n * USDC };
+
+describe("Liquidation Plan", () => {
+  it("should treat health factors below 1.0 as liquidatable", () => {
+    expect(isLiquidatable(HEALTH_FACTOR_ONE - 1n)).toBe(true);
+    expect(isLiquidatable(HEALTH_FACTOR_ONE)).toBe(false);
+  });
+
+  it("should compute the realised bonus in bps", () => {
+    expect(liquidationBonusBps(110n * USDC, 100n * USDC)).toBe(1_000n);
+    expect(liquidationBonusBps(90n * USDC, 100n * USDC)).toBe(-1_000n);
+    expect(liquidationBonusBps(10n, 0n)).toBe(0n);
+  });
+
+  it("should approve the debt plus 0.1% headroom", () => {
+    expect(liquidationAllowance(100n * USDC)).toBe(100_100_001n);
+  });
+
+  it("should liquidate a profitable unhealthy position", () => {
+    const decision = evaluateLiquidation(position(), policy);
+    expect(decision.action).toBe("liquidate");
+    expect(decision.expectedProfit).toBe(10n * USDC);
+    expect(decision.bonusBps).toBe(1_000n);
+  });
+
+  it("should skip healthy positions", () => {
+    const decision = evaluateLiquidation(position({ healthFactor: HEALTH_FACTOR_ONE * 2n }), policy);
+    expect(decision.action).toBe("skip");
+    if (decision.action === "skip") expect(decision.reason).toBe("Position is healthy");
+  });
+
+  it("should skip positions with no debt", () => {
+    const decision = evaluateLiquidation(position({ totalDebt: 0n }), policy);
+    expect(decision.action).toBe("skip");
+    if (decision.action === "skip") expect(decision.reason).toBe("No debt to repay");
+  });
+
+  it("should skip when the bonus is below the minimum", () => {
+    const decision = evaluateLiquidation(position({ saleProceeds: 102n * USDC }), policy);
+    expect(decision.action).toBe("skip");
+    if (decision.action === "skip") expect(decision.reason).toStartWith("Unprofitable");
+  });
+
+  it("should skip underwater collateral", () => {
+    const decision = evaluateLiquidation(position({ saleProceeds: 80n * USDC }), policy);
+    expect(decision.action).toBe("skip");
+    expect(decision.expectedProfit).toBe(-20n * USDC);
+  });
+
+  it("should skip when the keeper cannot cover the debt", () => {
+    const decision = evaluateLiquidation(position(), { ...policy, availableUsdc: 100n * USDC });
+    expect(decision.action).toBe("skip");
+    if (decision.action === "skip") expect(decision.reason).toStartWith("Insufficient USDC");
+  });
+});
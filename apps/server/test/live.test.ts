@@ -0,0 +1,198 @@
+/**
+ * Live Streaming Tests
+ *
+ * Tests for the rolling Merkle commitment over live segment keys, FFmpeg's
+ * segment list, ingest arguments and port allocation, and the live media
+ * playlist.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  buildMerkleTree,
+  deriveSegmentKey,
+  getMerkleRoot,
+  verifyMerkleProof,
+} from "@versus/streaming";
+import {
+  closedWindowCount,
+  liveCommitmentRoot,
+  liveIngestArgs,
+  liveSegmentPath,
+  liveSegmentProof,
+  liveWindowOf,
+  liveWindowRoot,
+  parseSegmentList,
+  pickIngestPort,
+  segmentEntryDuration,
+} from "../src/live/plan";
+import { generateLiveMediaPlaylist } from "../src/video/packager";
+
+const MASTER_SECRET = Buffer.alloc(32, 7);
+const VIDEO_ID = "live-video";
+const WINDOW = 4;
+
+function committedRoots(segmentsPublished: number, ended = false): string[] {
+  const count = closedWindowCount(segmentsPublished, WINDOW, ended);
+  return Array.from({ length: count }, (_, w) =>
+    liveWindowRoot(MASTER_SECRET, VIDEO_ID, liveWindowOf(w * WINDOW, WINDOW, segmentsPublished)),
+  );
+}
+
+describe("live Merkle windows", () => {
+  it("places segments in fixed-size windows", () => {
+    expect(liveWindowOf(0, WINDOW, 10)).toEqual({ windowIndex: 0, startSegment: 0, segmentCount: 4 });
+    expect(liveWindowOf(9, WINDOW, 10)).toEqual({ windowIndex: 2, startSegment: 8, segmentCount: 2 });
+  });
+
+  it("closes full windows, and the partial one only when the stream ends", () => {
+    expect(closedWindowCount(3, WINDOW, false)).toBe(0);
+    expect(closedWindowCount(8, WINDOW, false)).toBe(2);
+    expect(closedWindowCount(10, WINDOW, false)).toBe(2);
+    expect(closedWindowCount(10, WINDOW, true)).toBe(3);
+    expect(closedWindowCount(8, WINDOW, true)).toBe(2);
+  });
+
+  it("commits a window root that later segments don't change", () => {
+    const early = liveWindowRoot(MASTER_SECRET, VIDEO_ID, liveWindowOf(0, WINDOW, 4));
+    const later = liveWindowRoot(MASTER_SECRET, VIDEO_ID, liveWindowOf(0, WINDOW, 40));
+    expect(later).toBe(early);
+
+    const keys = [0, 1, 2, 3].map((i) => deriveSegmentKey(MASTER_SECRET, VIDEO_ID, i));
+    expect(early).toBe(getMerkleRoot(buildMerkleTree(keys)));
+  });
+
+  it("extends the commitment root one window at a time", () => {
+    expect(liveCommitmentRoot([])).toBeNull();
+    const two = liveCommitmentRoot(committedRoots(8));
+    const three = liveCommitmentRoot(committedRoots(12));
+    expect(two).not.toBeNull();
+    expect(three).not.toBe(two);
+  });
+});
+
+describe("live segment proofs", () => {
+  it("proves a key in a committed window against the window and the commitment", () => {
+    const roots = committedRoots(10);
+    const proof = liveSegmentProof(MASTER_SECRET, VIDEO_ID, 5, WINDOW, 10, roots);
+
+    expect(proof.windowIndex).toBe(1);
+    expect(proof.index).toBe(1);
+    expect(proof.committed).toBe(true);
+    expect(proof.root).toBe(roots[1]);
+    expect(verifyMerkleProof(deriveSegmentKey(MASTER_SECRET, VIDEO_ID, 5), proof)).toBe(true);
+
+    expect(proof.commitment!.root).toBe(liveCommitmentRoot(roots)!);
+    expect(verifyMerkleProof(Buffer.from(roots[1], "hex"), proof.commitment!)).toBe(true);
+  });
+
+  it("proves a key in the open window against its current root", () => {
+    const proof = liveSegmentProof(MASTER_SECRET, VIDEO_ID, 9, WINDOW, 10, committedRoots(10));
+
+    expect(proof.committed).toBe(false);
+    expect(proof.commitment).toBeNull();
+    expect(verifyMerkleProof(deriveSegmentKey(MASTER_SECRET, VIDEO_ID, 9), proof)).toBe(true);
+  });
+
+  it("commits the trailing partial window when the stream ends", () => {
+    const roots = committedRoots(10, true);
+    const proof = liveSegmentProof(MASTER_SECRET, VIDEO_ID, 9, WINDOW, 10, roots);
+    expect(proof.committed).toBe(true);
+    expect(proof.root).toBe(roots[2]);
+  });
+
+  it("rejects segments that aren't published", () => {
+    expect(() => liveSegmentProof(MASTER_SECRET, VIDEO_ID, 10, WINDOW, 10, [])).toThrow(
+      "not published",
+    );
+  });
+});
+
+describe("FFmpeg segment list", () => {
+  it("parses completed segments and skips a partial last line", () => {
+    const csv = "segment_00000.ts,0.000000,5.000000\nsegment_00001.ts,5.000000,9.966667\nsegment_000";
+    const entries = parseSegmentList(csv);
+    expect(entries).toEqual([
+      { file: "segment_00000.ts", start: 0, end: 5 },
+      { file: "segment_00001.ts", start: 5, end: 9.966667 },
+    ]);
+    expect(segmentEntryDuration(entries[1])).toBe(4.97);
+  });
+
+  it("parses an empty list", () => {
+    expect(parseSegmentList("")).toEqual([]);
+  });
+});
+
+describe("live ingest", () => {
+  it("listens for RTMP on the stream key", () => {
+    const args = liveIngestArgs({
+      source: "rtmp",
+      quality: "720p",
+      segmentDuration: 5,
+      port: 1936,
+      streamKey: "abc123",
+      workDir: "/tmp/live/v1",
+    });
+    expect(args.inputs).toEqual([
+      { source: "rtmp://0.0.0.0:1936/live/abc123", options: ["-listen 1"] },
+    ]);
+    expect(args.outputOptions).toContain("-segment_list /tmp/live/v1/segments.csv");
+    expect(args.outputOptions).toContain("-segment_list_type csv");
+    expect(args.outputOptions).toContain("-force_key_frames expr:gte(t,n_forced*5)");
+    expect(args.output).toBe("/tmp/live/v1/segment_%05d.ts");
+  });
+
+  it("renders a real-time test pattern and tone", () => {
+    const args = liveIngestArgs({
+      source: "test",
+      quality: "360p",
+      segmentDuration: 4,
+      workDir: "/tmp/live/v2",
+    });
+    expect(args.inputs.map((i) => i.source)).toEqual([
+      "testsrc2=size=640x360:rate=30",
+      "sine=frequency=440:sample_rate=48000",
+    ]);
+    expect(args.inputs.every((i) => i.options.includes("-re"))).toBe(true);
+    expect(args.outputOptions).toContain("-map 1:a:0");
+  });
+
+  it("needs a port and stream key for RTMP", () => {
+    expect(() =>
+      liveIngestArgs({ source: "rtmp", quality: "720p", segmentDuration: 5, workDir: "/tmp" }),
+    ).toThrow("port and stream key");
+  });
+
+  it("picks the first free ingest port", () => {
+    expect(pickIngestPort(1935, 3, [])).toBe(1935);
+    expect(pickIngestPort(1935, 3, [1935, 1937])).toBe(1936);
+    expect(pickIngestPort(1935, 3, [1935, 1936, 1937])).toBeNull();
+  });
+
+  it("stores segments under five-digit names", () => {
+    expect(liveSegmentPath("v1", "720p", 42)).toBe("v1/720p/segment_00042.ts");
+  });
+});
+
+describe("live media playlist", () => {
+  const segments = [
+    { index: 0, duration: 5, ivHex: "aa".repeat(16), uri: "https://cdn/v1/720p/segment_00000.ts" },
+    { index: 1, duration: 5.5, ivHex: "bb".repeat(16), uri: "https://cdn/v1/720p/segment_00001.ts" },
+  ];
+
+  it("is an open EVENT playlist while live", () => {
+    const playlist = generateLiveMediaPlaylist(segments, "v1", "http://keys", 5, false);
+    expect(playlist).toContain("#EXT-X-PLAYLIST-TYPE:EVENT");
+    expect(playlist).toContain("#EXT-X-TARGETDURATION:6");
+    expect(playlist).toContain(
+      `#EXT-X-KEY:METHOD=AES-128,URI="http://keys/api/videos/v1/key/1",IV=0x${"bb".repeat(16)}`,
+    );
+    expect(playlist).toContain("#EXTINF:5.500,\nhttps://cdn/v1/720p/segment_00001.ts");
+    expect(playlist).not.toContain("#EXT-X-ENDLIST");
+  });
+
+  it("ends once the stream has ended", () => {
+    const playlist = generateLiveMediaPlaylist(segments, "v1", "http://keys", 5, true);
+    expect(playlist.endsWith("#EXT-X-ENDLIST")).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * LLM Router Tests
+ *
+ * Tests for per-use-case fallback chains, per-caller rate limits, usage
+ * recording and the scripted mock provider.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { LlmRouter } from "../src/integrations/llm/router";
+import { MockLlmProvider } from "../src/integrations/llm/mock";
+import { estimateCostUsd } from "../src/integrations/llm/pricing";
+import type { LlmCallRecord, LlmProvider, LlmRequest } from "../src/integrations/llm/types";
+
+const request: LlmRequest = { messages: [{ role: "user", content: "Decide" }] };
+
+/** Router with a fake clock: sleeping advances time instead of waiting */
+function createRouter(
+  chains: { trading?: LlmProvider[]; ideation?: LlmProvider[] },
+  minGapMs = { trading: 0, ideation: 0 }
+) {
+  const records: LlmCallRecord[] = [];
+  const sleeps: number[] = [];
+  let clock = 1_000;
+
+  const router = new LlmRouter({
+    chains: { trading: chains.trading ?? [], ideation: chains.ideation ?? [] },
+    minGapMs,
+    record: (call) => {
+      records.push(call);
+    },
+    now: () => clock,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+  });
+
+  return { router, records, sleeps };
+}
+
+describe("LLM Router", () => {
+  describe("fallback chain", () => {
+    it("should fall back to the next provider when one fails", async () => {
+      const primary = new MockLlmProvider([new Error("HTTP 429")], { id: "openrouter" });
+      const backup = new MockLlmProvider(["hello"], { id: "local", costUsd: 0 });
+      const { router, records } = createRouter({ trading: [primary, backup] });
+
+      const result = await router.complete("trading", request, { agentId: "alice" });
+
+      expect(result.provider).toBe("local");
+      expect(result.message.content).toBe("hello");
+      expect(records.map((r) => [r.provider, r.success])).toEqual([
+        ["openrouter", false],
+        ["local", true],
+      ]);
+      expect(records[0].error).toBe("HTTP 429");
+      expect(records[1].agentId).toBe("alice");
+    });
+
+    it("should skip unconfigured providers", async () => {
+      const missing = new MockLlmProvider(["unused"], { id: "openrouter", configured: false });
+      const local = new MockLlmProvider(["ok"], { id: "local" });
+      const { router } = createRouter({ trading: [missing, local] });
+
+      expect(router.isConfigured("trading")).toBe(true);
+      expect((await router.complete("trading", request)).provider).toBe("local");
+      expect(missing.requests).toHaveLength(0);
+    });
+
+    it("should keep chains separate per use case", async () => {
+      const trading = new MockLlmProvider(["trade"], { id: "openrouter" });
+      const { router } = createRouter({ trading: [trading] });
+
+      expect(router.isConfigured("ideation")).toBe(false);
+      await expect(router.complete("ideation", request)).rejects.toThrow(
+        "No LLM provider configured for ideation"
+      );
+    });
+
+    it("should report every failure when the whole chain fails", async () => {
+      const a = new MockLlmProvider([new Error("down")], { id: "openrouter" });
+      const b = new MockLlmProvider([new Error("refused")], { id: "local" });
+      const { router, records } = createRouter({ trading: [a, b] });
+
+      await expect(router.complete("trading", request)).rejects.toThrow(
+        "All LLM providers failed for trading: openrouter: down; local: refused"
+      );
+      expect(records).toHaveLength(2);
+    });
+  });
+
+  describe("rate limits", () => {
+    it("should space calls from the same caller", async () => {
+      const mock = new MockLlmProvider(["1", "2"]);
+      const { router, sleeps } = createRouter({ trading: [mock] }, { trading: 5_000, ideation: 0 });
+
+      await router.complete("trading", request, { caller: "trading:alice" });
+      await router.complete("trading", request, { caller: "trading:alice" });
+
+      expect(sleeps).toEqual([5_000]);
+    });
+
+    it("should not make one caller wait on another", async () => {
+      const mock = new MockLlmProvider(["1", "2", "3"]);
+      const { router, sleeps } = createRouter(
+        { trading: [mock], ideation: [mock] },
+        { trading: 5_000, ideation: 5_000 }
+      );
+
+      await router.complete("trading", request, { caller: "trading:alice" });
+      await router.complete("trading", request, { caller: "trading:bob" });
+      await router.complete("ideation", request, { caller: "ideation:alice" });
+
+      expect(sleeps).toEqual([]);
+    });
+  });
+
+  describe("usage", () => {
+    it("should estimate cost from tokens when the provider reports none", async () => {
+      const mock = new MockLlmProvider(["x".repeat(400)], { model: "anthropic/claude-sonnet-4.5" });
+      const { router, records } = createRouter({ trading: [mock] });
+
+      const result = await router.complete("trading", request);
+
+      expect(records[0].completionTokens).toBe(100);
+      expect(records[0].totalTokens).toBe(records[0].promptTokens + 100);
+      expect(result.costUsd).toBeCloseTo(
+        (records[0].promptTokens * 3 + 100 * 15) / 1_000_000,
+        10
+      );
+      expect(records[0].costUsd).toBe(result.costUsd);
+    });
+
+    it("should prefer the provider-reported cost", async () => {
+      const mock = new MockLlmProvider(["ok"], { model: "anthropic/claude-sonnet-4.5", costUsd: 0.5 });
+      const { router } = createRouter({ trading: [mock] });
+      expect((await router.complete("trading", request)).costUsd).toBe(0.5);
+    });
+
+    it("should leave unpriced models without a cost", () => {
+      expect(estimateCostUsd("some/unknown-model", { promptTokens: 10, completionTokens: 10, totalTokens: 20 })).toBeNull();
+    });
+  });
+
+  describe("mock provider", () => {
+    it("should replay its script and keep the requests", async () => {
+      const mock = new MockLlmProvider([
+        "first",
+        (req) => `echo ${req.messages.length}`,
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "c1", type: "function", function: { name: "submit_decision", arguments: "{}" } }],
+        },
+      ]);
+
+      expect((await mock.complete(request)).message.content).toBe("first");
+      expect((await mock.complete(request)).message.content).toBe("echo 1");
+      expect((await mock.complete(request)).message.tool_calls?.[0].function.name).toBe("submit_decision");
+      expect(mock.requests).toHaveLength(3);
+      await expect(mock.complete(request)).rejects.toThrow("script exhausted");
+    });
+  });
+});
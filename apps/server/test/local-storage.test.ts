@@ -0,0 +1,59 @@
+/**
+ * Local Storage Provider Tests
+ *
+ * Tests for the filesystem-backed StorageProvider used offline and in CI.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalStorageProvider, contentTypeFor } from "../src/video/local-storage";
+
+const BASE_URL = "http://localhost:3001/storage";
+
+describe("LocalStorageProvider", () => {
+  let rootDir: string;
+  let storage: LocalStorageProvider;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "versus-storage-"));
+    storage = new LocalStorageProvider({ rootDir, baseUrl: `${BASE_URL}/` });
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("should write files and return their public URL", async () => {
+    const url = await storage.upload("video-1/720p/segment_000.ts", Buffer.from("seg"), "video/mp2t");
+
+    expect(url).toBe(`${BASE_URL}/video-1/720p/segment_000.ts`);
+    expect(await storage.exists("video-1/720p/segment_000.ts")).toBe(true);
+    expect((await storage.read("video-1/720p/segment_000.ts"))?.toString()).toBe("seg");
+  });
+
+  it("should upload batches and delete files", async () => {
+    const urls = await storage.uploadBatch([
+      { path: "v/master.m3u8", data: Buffer.from("#EXTM3U"), contentType: "application/vnd.apple.mpegurl" },
+      { path: "v/360p/playlist.m3u8", data: Buffer.from("#EXTM3U"), contentType: "application/vnd.apple.mpegurl" },
+    ]);
+    expect(urls.size).toBe(2);
+
+    await storage.delete("v/master.m3u8");
+    expect(await storage.exists("v/master.m3u8")).toBe(false);
+    expect(await storage.exists("v/360p/playlist.m3u8")).toBe(true);
+  });
+
+  it("should refuse paths outside the storage root", async () => {
+    await expect(storage.upload("../escape.ts", Buffer.from("x"), "video/mp2t")).rejects.toThrow();
+    expect(await storage.read("../../etc/passwd")).toBeNull();
+    expect(await storage.exists("")).toBe(false);
+  });
+
+  it("should map HLS extensions to content types", () => {
+    expect(contentTypeFor("v/master.m3u8")).toBe("application/vnd.apple.mpegurl");
+    expect(contentTypeFor("v/720p/segment_001.ts")).toBe("video/mp2t");
+    expect(contentTypeFor("thumbnails/v.bin")).toBe("application/octet-stream");
+  });
+});
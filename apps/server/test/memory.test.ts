@@ -0,0 +1,213 @@
+/**
+ * Agent Memory Tests
+ *
+ * Tests for summarizing decision logs into outcomes and the bounded
+ * memory section of the LLM prompt.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  formatMemoryForLLM,
+  memoryStats,
+  summarizeDecisions,
+  MEMORY_PROMPT_ENTRIES,
+  MEMORY_REFLECTION_CHARS,
+  type AgentMemory,
+  type MemoryLog,
+} from "../src/agents/memory/summarize";
+import { formatStateForLLM } from "../src/agents/runtime/prompts";
+import {
+  createMockConfig,
+  createMockHolding,
+  createMockLoan,
+  createMockOtherCreator,
+  createMockState,
+  toUsdc,
+  MOCK_ADDRESSES,
+} from "./helpers";
+
+const NOW = 1_700_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+function log(overrides: Partial<MemoryLog>): MemoryLog {
+  return {
+    id: 1,
+    cycle: 1,
+    timestamp: NOW - HOUR,
+    state: createMockState(),
+    actions: [],
+    executionResults: null,
+    ...overrides,
+  };
+}
+
+const buy = {
+  type: "BUY_TOKEN",
+  params: { tokenAddress: MOCK_ADDRESSES.otherToken, tokenName: "OtherToken", usdcAmount: "2000000" },
+  reason: "Revenue growing",
+};
+
+function memory(overrides: Partial<AgentMemory>): AgentMemory {
+  return {
+    agentId: "alice",
+    resetAt: null,
+    reflection: null,
+    entries: [],
+    stats: { cycles: 0, actions: 0, executed: 0, failed: 0, vetoed: 0, winRate: null },
+    ...overrides,
+  };
+}
+
+describe("Agent Memory", () => {
+  describe("summarizeDecisions", () => {
+    it("should mark executed buys to the current price", () => {
+      const then = createMockState({ otherCreators: [createMockOtherCreator({ currentPrice: toUsdc(0.1) })] });
+      const now = createMockState({ otherCreators: [createMockOtherCreator({ currentPrice: toUsdc(0.11) })] });
+
+      const [entry] = summarizeDecisions(
+        [log({ state: then, actions: [buy], executionResults: [{ actionType: "BUY_TOKEN", success: true }] })],
+        now
+      );
+
+      expect(entry.status).toBe("executed");
+      expect(entry.token).toBe("OtherToken");
+      expect(entry.amount).toBe("2.00 USDC");
+      expect(entry.returnPct).toBe(10);
+      expect(entry.outcome).toBe("+10.0% since buy");
+    });
+
+    it("should report realized P&L for sells", () => {
+      const holding = createMockHolding({
+        tokenDecimals: 18,
+        avgBuyPrice: toUsdc(0.1),
+        currentPrice: toUsdc(0.08),
+      });
+      const sell = {
+        type: "SELL_TOKEN",
+        params: { tokenAddress: MOCK_ADDRESSES.otherToken, tokenAmount: (100n * 10n ** 18n).toString() },
+        reason: "Stop loss",
+      };
+
+      const [entry] = summarizeDecisions(
+        [
+          log({
+            state: createMockState({ holdings: [holding] }),
+            actions: [sell],
+            executionResults: [{ actionType: "SELL_TOKEN", success: true }],
+          }),
+        ],
+        createMockState()
+      );
+
+      expect(entry.returnPct).toBe(-20);
+      expect(entry.outcome).toBe("realized -2.00 USDC (-20.0%)");
+    });
+
+    it("should distinguish vetoed, failed and pending actions", () => {
+      const entries = summarizeDecisions(
+        [
+          log({
+            actions: [buy, buy, buy],
+            executionResults: [
+              { actionType: "BUY_TOKEN", success: false, error: "Vetoed by risk engine: cap", risk: { verdict: "vetoed" } },
+              { actionType: "BUY_TOKEN", success: false, error: "Reverted" },
+              { actionType: "BUY_TOKEN", success: false },
+            ],
+          }),
+          log({ id: 2, cycle: 2, timestamp: NOW, actions: [buy], executionResults: null }),
+        ],
+        createMockState()
+      );
+
+      // Newest log first
+      expect(entries.map((e) => [e.cycle, e.status])).toEqual([
+        [2, "pending"],
+        [1, "vetoed"],
+        [1, "failed"],
+        [1, "pending"],
+      ]);
+      expect(entries.every((e) => e.outcome === undefined)).toBe(true);
+    });
+
+    it("should compare loan health then and now", () => {
+      const repay = { type: "REPAY", params: { repayAmount: "5000000" }, reason: "De-risk" };
+      const [entry] = summarizeDecisions(
+        [
+          log({
+            state: createMockState({ loan: createMockLoan({ healthFactor: 1.2 }) }),
+            actions: [repay],
+            executionResults: [{ actionType: "REPAY", success: true }],
+          }),
+        ],
+        createMockState({ loan: createMockLoan({ healthFactor: 1.8 }) })
+      );
+
+      expect(entry.amount).toBe("5.00 USDC");
+      expect(entry.outcome).toBe("health factor 1.20 then, 1.80 now");
+    });
+
+    it("should compute stats over executed trades", () => {
+      const then = createMockState({ otherCreators: [createMockOtherCreator({ currentPrice: toUsdc(0.1) })] });
+      const logs = [
+        log({ state: then, actions: [buy], executionResults: [{ actionType: "BUY_TOKEN", success: true }] }),
+        log({ id: 2, cycle: 2, actions: [] }),
+      ];
+      const now = createMockState({ otherCreators: [createMockOtherCreator({ currentPrice: toUsdc(0.09) })] });
+
+      expect(memoryStats(logs, summarizeDecisions(logs, now))).toEqual({
+        cycles: 2,
+        actions: 1,
+        executed: 1,
+        failed: 0,
+        vetoed: 0,
+        winRate: 0,
+      });
+    });
+  });
+
+  describe("formatMemoryForLLM", () => {
+    it("should be empty with nothing to remember", () => {
+      expect(formatMemoryForLLM(memory({}), NOW)).toBe("");
+    });
+
+    it("should bound entries and reflection length", () => {
+      const entries = Array.from({ length: 20 }, (_, i) => ({
+        logId: i,
+        cycle: 20 - i,
+        timestamp: NOW - i * HOUR,
+        type: "BUY_TOKEN",
+        token: "OtherToken",
+        amount: "1.00 USDC",
+        reason: "",
+        status: "executed" as const,
+      }));
+      const section = formatMemoryForLLM(
+        memory({
+          entries,
+          reflection: { content: "x".repeat(5000), cycle: 12, createdAt: new Date(NOW).toISOString() },
+          stats: { cycles: 20, actions: 20, executed: 20, failed: 0, vetoed: 0, winRate: 0.5 },
+        }),
+        NOW
+      );
+
+      expect(section).toContain("### Lessons Learned (reflection at cycle 12)");
+      expect(section).toContain("x".repeat(MEMORY_REFLECTION_CHARS) + "…");
+      expect(section).not.toContain("x".repeat(MEMORY_REFLECTION_CHARS + 1));
+      expect(section.split("\n").filter((l) => l.startsWith("- Cycle"))).toHaveLength(MEMORY_PROMPT_ENTRIES);
+      expect(section).toContain("- Cycle 20 (0m ago): BUY_TOKEN OtherToken 1.00 USDC — executed");
+      expect(section).toContain("Track record: 20/20 actions executed over 20 cycles, 50% of trades in profit");
+    });
+
+    it("should be appended to the state prompt", () => {
+      const section = formatMemoryForLLM(
+        memory({ reflection: { content: "- Size down after losses", cycle: 3, createdAt: "" } }),
+        NOW
+      );
+      const prompt = formatStateForLLM(createMockState(), createMockConfig(), section);
+
+      expect(prompt).toContain("## Memory");
+      expect(prompt.trimEnd().endsWith("- Size down after losses")).toBe(true);
+      expect(formatStateForLLM(createMockState(), createMockConfig())).not.toContain("## Memory");
+    });
+  });
+});
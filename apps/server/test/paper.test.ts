@@ -0,0 +1,158 @@
+/**
+ * Paper Ledger Tests
+ *
+ * Tests for paper-trading bookkeeping: fills, cost basis, and LendingPool rules.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  applyBuy,
+  applySell,
+  applyClaimRevenue,
+  applyDepositCollateral,
+  applyBorrow,
+  applyRepay,
+  applyWithdrawCollateral,
+  liquidateIfUnhealthy,
+  toLoanInfo,
+  totalDebt,
+  type PaperAccount,
+} from "../src/agents/paper/ledger";
+import { toUsdc, MOCK_ADDRESSES } from "./helpers";
+
+const ONE_TOKEN = 10n ** 18n;
+const FLOOR_PRICE = 10_000n; // 0.01 USDC
+const NOW = 1_700_000_000_000;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+function makeAccount(usdc: number): PaperAccount {
+  return {
+    agentId: "alice",
+    usdcBalance: toUsdc(usdc),
+    claimedRevenue: 0n,
+    positions: new Map(),
+    loan: null,
+  };
+}
+
+const otherPosition = {
+  tokenAddress: MOCK_ADDRESSES.otherToken,
+  bondingCurveAddress: MOCK_ADDRESSES.otherCurve,
+  tokenName: "OTHER",
+};
+
+describe("Paper Ledger", () => {
+  describe("trading", () => {
+    it("should debit USDC and open a position on buy", () => {
+      const account = makeAccount(100);
+      applyBuy(account, otherPosition, toUsdc(40), 1000n * ONE_TOKEN);
+
+      expect(account.usdcBalance).toBe(toUsdc(60));
+      const position = account.positions.get(MOCK_ADDRESSES.otherToken.toLowerCase());
+      expect(position?.balance).toBe(1000n * ONE_TOKEN);
+      expect(position?.totalCostBasis).toBe(toUsdc(40));
+    });
+
+    it("should reject a buy larger than the paper balance", () => {
+      const account = makeAccount(10);
+      expect(() => applyBuy(account, otherPosition, toUsdc(11), ONE_TOKEN)).toThrow();
+      expect(account.usdcBalance).toBe(toUsdc(10));
+    });
+
+    it("should reduce cost basis proportionally on a partial sell", () => {
+      const account = makeAccount(100);
+      applyBuy(account, otherPosition, toUsdc(40), 1000n * ONE_TOKEN);
+      applySell(account, MOCK_ADDRESSES.otherToken, 250n * ONE_TOKEN, toUsdc(15));
+
+      const position = account.positions.get(MOCK_ADDRESSES.otherToken.toLowerCase());
+      expect(position?.balance).toBe(750n * ONE_TOKEN);
+      expect(position?.totalCostBasis).toBe(toUsdc(30));
+      expect(account.usdcBalance).toBe(toUsdc(75));
+    });
+
+    it("should close the position on a full sell", () => {
+      const account = makeAccount(100);
+      applyBuy(account, otherPosition, toUsdc(40), 1000n * ONE_TOKEN);
+      applySell(account, MOCK_ADDRESSES.otherToken, 1000n * ONE_TOKEN, toUsdc(50));
+
+      expect(account.positions.size).toBe(0);
+      expect(account.usdcBalance).toBe(toUsdc(110));
+    });
+
+    it("should only credit revenue earned since the last claim", () => {
+      const account = makeAccount(0);
+      expect(applyClaimRevenue(account, toUsdc(5))).toBe(toUsdc(5));
+      expect(applyClaimRevenue(account, toUsdc(5))).toBe(0n);
+      expect(applyClaimRevenue(account, toUsdc(8))).toBe(toUsdc(3));
+      expect(account.usdcBalance).toBe(toUsdc(8));
+    });
+  });
+
+  describe("lending", () => {
+    function accountWithCollateral(tokens: bigint): PaperAccount {
+      const account = makeAccount(100);
+      applyBuy(account, otherPosition, toUsdc(50), tokens);
+      applyDepositCollateral(account, MOCK_ADDRESSES.otherToken, tokens, NOW);
+      return account;
+    }
+
+    it("should cap borrowing at 70% LTV of floor-price collateral", () => {
+      // 10,000 tokens at 0.01 floor = 100 USDC collateral → 70 USDC max
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+
+      expect(() => applyBorrow(account, toUsdc(71), FLOOR_PRICE, NOW)).toThrow("ExceedsMaxLTV");
+      applyBorrow(account, toUsdc(70), FLOOR_PRICE, NOW);
+      expect(account.loan?.borrowedAmount).toBe(toUsdc(70));
+      expect(account.usdcBalance).toBe(toUsdc(120));
+    });
+
+    it("should hide fully deposited positions but keep their cost basis", () => {
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+      const position = account.positions.get(MOCK_ADDRESSES.otherToken.toLowerCase());
+      expect(position?.balance).toBe(0n);
+      expect(position?.totalCostBasis).toBe(toUsdc(50));
+    });
+
+    it("should accrue 10% APR simple interest", () => {
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+      applyBorrow(account, toUsdc(50), FLOOR_PRICE, NOW);
+      liquidateIfUnhealthy(account, FLOOR_PRICE, NOW + YEAR_MS);
+
+      expect(account.loan?.interestAccrued).toBe(toUsdc(5));
+      expect(totalDebt(account.loan!)).toBe(toUsdc(55));
+    });
+
+    it("should repay interest first and return collateral when fully repaid", () => {
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+      applyBorrow(account, toUsdc(50), FLOOR_PRICE, NOW);
+
+      const repaid = applyRepay(account, toUsdc(1000), true, NOW + YEAR_MS);
+      expect(repaid).toBe(toUsdc(55));
+      expect(account.loan).toBeNull();
+      expect(
+        account.positions.get(MOCK_ADDRESSES.otherToken.toLowerCase())?.balance
+      ).toBe(10_000n * ONE_TOKEN);
+    });
+
+    it("should refuse a withdrawal that leaves the loan unhealthy", () => {
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+      applyBorrow(account, toUsdc(70), FLOOR_PRICE, NOW);
+
+      expect(() =>
+        applyWithdrawCollateral(account, 5_000n * ONE_TOKEN, FLOOR_PRICE, NOW)
+      ).toThrow("UnhealthyPosition");
+      expect(account.loan?.collateralAmount).toBe(10_000n * ONE_TOKEN);
+    });
+
+    it("should liquidate when the health factor drops below 1", () => {
+      const account = accountWithCollateral(10_000n * ONE_TOKEN);
+      applyBorrow(account, toUsdc(70), FLOOR_PRICE, NOW);
+      expect(toLoanInfo(account.loan!, FLOOR_PRICE)?.healthFactor).toBeGreaterThan(1);
+
+      // Three years of interest (21 USDC) push debt past 85% of collateral value
+      expect(liquidateIfUnhealthy(account, FLOOR_PRICE, NOW + 3 * YEAR_MS)).toBe(true);
+      expect(account.loan).toBeNull();
+      expect(account.positions.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Pricing Tests
+ *
+ * Tests for per-video pricing policies (time-of-day windows, demand steps,
+ * holder discounts), free preview segments and the per-segment charge
+ * checked against viewer-signed state updates.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  EMPTY_PRICING_POLICY,
+  demandMultiplier,
+  isFreePreviewSegment,
+  parsePricingPolicy,
+  quotePrice,
+  timeOfDayMultiplier,
+  type PricingContext,
+  type PricingPolicy,
+  type VideoPricing,
+} from "../src/pricing/policy";
+import { chargeSegment, checkSignedCharge } from "../src/integrations/yellow/charge";
+
+const NOON = new Date("2026-01-15T12:00:00Z");
+const VIEWER = "0x1111111111111111111111111111111111111111";
+const SERVER = "0x2222222222222222222222222222222222222222";
+
+function pricingPolicyWith(policy: Partial<PricingPolicy>): PricingPolicy {
+  return { ...EMPTY_PRICING_POLICY, ...policy };
+}
+
+function pricing(policy = EMPTY_PRICING_POLICY, basePrice = "0.010000"): VideoPricing {
+  return { basePrice, freePreviewSegments: 0, policy };
+}
+
+function context(overrides: Partial<PricingContext> = {}): PricingContext {
+  return { now: NOON, concurrentViewers: 0, holderBalance: null, ...overrides };
+}
+
+function signedState(viewerAmount: string, serverAmount: string): string {
+  return JSON.stringify({
+    req: [
+      1,
+      "submit_app_state",
+      {
+        app_session_id: "0xsession",
+        allocations: [
+          { participant: VIEWER, asset: "ytest.usd", amount: viewerAmount },
+          { participant: SERVER, asset: "ytest.usd", amount: serverAmount },
+        ],
+      },
+      Date.now(),
+    ],
+    sig: ["0xsig"],
+  });
+}
+
+describe("Pricing Policy", () => {
+  it("prices flat at the base price without a policy", () => {
+    const quote = quotePrice(pricing(), context());
+    expect(quote.pricePerSegment).toBe("0.010000");
+    expect(quote.adjustments).toEqual([]);
+  });
+
+  it("applies time-of-day windows, including ones that wrap midnight", () => {
+    const policy = pricingPolicyWith({
+      timeOfDay: [
+        { startHour: 18, endHour: 23, multiplierBps: 15_000 },
+        { startHour: 23, endHour: 6, multiplierBps: 5_000 },
+      ],
+    });
+
+    expect(timeOfDayMultiplier(policy, NOON)).toBeNull();
+    expect(timeOfDayMultiplier(policy, new Date("2026-01-15T20:30:00Z"))).toBe(15_000);
+    expect(timeOfDayMultiplier(policy, new Date("2026-01-15T23:00:00Z"))).toBe(5_000);
+    expect(timeOfDayMultiplier(policy, new Date("2026-01-16T03:00:00Z"))).toBe(5_000);
+    expect(timeOfDayMultiplier(policy, new Date("2026-01-16T06:00:00Z"))).toBeNull();
+
+    const quote = quotePrice(pricing(policy), context({ now: new Date("2026-01-15T19:00:00Z") }));
+    expect(quote.pricePerSegment).toBe("0.015000");
+    expect(quote.adjustments).toEqual([{ kind: "time_of_day", multiplierBps: 15_000 }]);
+  });
+
+  it("steps the price up with concurrent viewers up to the cap", () => {
+    const policy = pricingPolicyWith({
+      demand: { viewersPerStep: 10, stepBps: 2_500, maxMultiplierBps: 20_000 },
+    });
+
+    expect(demandMultiplier(policy, 9)).toBeNull();
+    expect(demandMultiplier(policy, 10)).toBe(12_500);
+    expect(demandMultiplier(policy, 25)).toBe(15_000);
+    expect(demandMultiplier(policy, 1_000)).toBe(20_000);
+
+    expect(quotePrice(pricing(policy), context({ concurrentViewers: 20 })).pricePerSegment).toBe(
+      "0.015000"
+    );
+  });
+
+  it("discounts holders at or above the minimum balance", () => {
+    const policy = pricingPolicyWith({
+      holderDiscount: { minBalance: "1000000000000000000", discountBps: 2_000 },
+    });
+
+    expect(quotePrice(pricing(policy), context()).pricePerSegment).toBe("0.010000");
+    expect(
+      quotePrice(pricing(policy), context({ holderBalance: 999_999_999_999_999_999n }))
+        .pricePerSegment
+    ).toBe("0.010000");
+
+    const quote = quotePrice(pricing(policy), context({ holderBalance: 10n ** 18n }));
+    expect(quote.pricePerSegment).toBe("0.008000");
+    expect(quote.adjustments).toEqual([{ kind: "holder_discount", multiplierBps: 8_000 }]);
+  });
+
+  it("never discounts a zero balance, even with a zero minimum", () => {
+    const policy = pricingPolicyWith({ holderDiscount: { minBalance: "0", discountBps: 5_000 } });
+    expect(quotePrice(pricing(policy), context({ holderBalance: 0n })).pricePerSegment).toBe(
+      "0.010000"
+    );
+  });
+
+  it("rounds down to whole base units after each adjustment", () => {
+    const policy = pricingPolicyWith({
+      timeOfDay: [{ startHour: 0, endHour: 24, multiplierBps: 13_333 }],
+      holderDiscount: { minBalance: "1", discountBps: 3_333 },
+    });
+    // 0.000007 * 1.3333 = 0.0000093331 -> 0.000009; * 0.6667 = 0.0000060003 -> 0.000006
+    const quote = quotePrice(pricing(policy, "0.000007"), context({ holderBalance: 1n }));
+    expect(quote.pricePerSegment).toBe("0.000006");
+    expect(quote.adjustments.map((a) => a.kind)).toEqual(["time_of_day", "holder_discount"]);
+  });
+
+  it("falls back to flat pricing for missing or invalid stored policies", () => {
+    expect(parsePricingPolicy(null)).toEqual(EMPTY_PRICING_POLICY);
+    expect(parsePricingPolicy("not json")).toEqual(EMPTY_PRICING_POLICY);
+    expect(parsePricingPolicy(JSON.stringify({ demand: { viewersPerStep: 0 } }))).toEqual(
+      EMPTY_PRICING_POLICY
+    );
+    expect(
+      parsePricingPolicy(JSON.stringify({ holderDiscount: { minBalance: "5", discountBps: 100 } }))
+        .holderDiscount
+    ).toEqual({ minBalance: "5", discountBps: 100 });
+  });
+});
+
+describe("Segment Charges", () => {
+  const session = {
+    pricePerSegment: "0.010000",
+    freePreviewSegments: 2,
+    viewerBalance: "0.015000",
+    creatorBalance: "0.000000",
+  };
+
+  it("unlocks free preview segments without charging", () => {
+    expect(isFreePreviewSegment(2, 1)).toBe(true);
+    expect(isFreePreviewSegment(2, 2)).toBe(false);
+    expect(chargeSegment(session, 0)).toEqual({
+      viewerBalance: "0.015000",
+      creatorBalance: "0.000000",
+      charged: "0.000000",
+    });
+  });
+
+  it("charges the session price after the preview", () => {
+    expect(chargeSegment(session, 2)).toEqual({
+      viewerBalance: "0.005000",
+      creatorBalance: "0.010000",
+      charged: "0.010000",
+    });
+  });
+
+  it("returns null when the viewer can't afford a paid segment", () => {
+    expect(chargeSegment({ ...session, viewerBalance: "0.009999" }, 5)).toBeNull();
+    expect(chargeSegment({ ...session, viewerBalance: "0" }, 1)).not.toBeNull();
+  });
+
+  it("accepts signed states that pay at least the charge", () => {
+    const charge = chargeSegment(session, 2)!;
+    expect(checkSignedCharge(signedState("0.005000", "0.010000"), VIEWER, charge)).toBeNull();
+    expect(checkSignedCharge(signedState("0.004", "0.011"), VIEWER, charge)).toBeNull();
+  });
+
+  it("rejects signed states that underpay or are malformed", () => {
+    const charge = chargeSegment(session, 2)!;
+    expect(checkSignedCharge(signedState("0.014000", "0.001000"), VIEWER, charge)).toContain(
+      "underpays"
+    );
+    expect(checkSignedCharge("{", VIEWER, charge)).toBe("Signed state is not valid JSON");
+    expect(checkSignedCharge(JSON.stringify({ req: [] }), VIEWER, charge)).toBe(
+      "Signed state has no allocations"
+    );
+    expect(
+      checkSignedCharge(signedState("0.005000", "0.010000"), "0x3333333333333333333333333333333333333333", charge)
+    ).toBe("Signed state has no viewer allocation");
+  });
+});
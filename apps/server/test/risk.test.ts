@@ -0,0 +1,219 @@
+/**
+ * Risk Engine Tests
+ *
+ * Tests for pre-execution vetoes and resizing against per-agent risk limits.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { Action, BorrowParams, BuyTokenParams } from "../src/agents/types";
+import { evaluateRisk, type RiskContext } from "../src/agents/risk/engine";
+import {
+  createMockConfig,
+  createMockHolding,
+  createMockLoan,
+  createMockState,
+  toUsdc,
+  MOCK_ADDRESSES,
+} from "./helpers";
+
+const ONE_TOKEN = 10n ** 18n;
+const NOW = 1_700_000_000_000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const config = createMockConfig("alice", {
+  strategy: {
+    ...createMockConfig("alice").strategy,
+    riskLimits: {
+      maxPositionPct: 0.2,
+      maxDailyTurnoverPct: 1.0,
+      maxConcentrationPct: 0.35,
+      stopLossCooldownMs: 24 * HOUR_MS,
+      minHealthFactor: 1.5,
+    },
+  },
+});
+
+function makeContext(overrides?: Partial<RiskContext>): RiskContext {
+  return {
+    now: NOW,
+    dailyTurnover: 0n,
+    stopLosses: new Map(),
+    floorPrices: new Map(),
+    ...overrides,
+  };
+}
+
+function buy(usdc: number): Action {
+  return {
+    type: "BUY_TOKEN",
+    priority: 50,
+    reason: "Momentum",
+    params: {
+      tokenAddress: MOCK_ADDRESSES.otherToken,
+      bondingCurveAddress: MOCK_ADDRESSES.otherCurve,
+      tokenName: "OTHER",
+      usdcAmount: toUsdc(usdc),
+      minTokensOut: 1000n * ONE_TOKEN,
+    },
+  };
+}
+
+describe("Risk Engine", () => {
+  describe("buys", () => {
+    it("should approve a buy within all limits", () => {
+      const state = createMockState({ usdcBalance: toUsdc(1000) });
+      const [result] = evaluateRisk([buy(100)], state, config, makeContext());
+
+      expect(result.review.verdict).toBe("approved");
+      expect(result.review.notionalUsdc).toBe(toUsdc(100));
+    });
+
+    it("should resize a buy to the max position size and scale slippage", () => {
+      const state = createMockState({ usdcBalance: toUsdc(1000) });
+      const [result] = evaluateRisk([buy(400)], state, config, makeContext());
+
+      expect(result.review.verdict).toBe("resized");
+      expect(result.review.originalAmount).toBe(toUsdc(400));
+      const params = result.action.params as BuyTokenParams;
+      expect(params.usdcAmount).toBe(toUsdc(200));
+      expect(params.minTokensOut).toBe(500n * ONE_TOKEN);
+      expect((result.original.params as BuyTokenParams).usdcAmount).toBe(toUsdc(400));
+    });
+
+    it("should veto a buy into a token already at its concentration limit", () => {
+      // 4,000 tokens at 0.10 = 400 USDC of a 1,000 USDC portfolio
+      const state = createMockState({
+        usdcBalance: toUsdc(600),
+        holdings: [
+          createMockHolding({
+            tokenDecimals: 18,
+            balance: 4_000n * ONE_TOKEN,
+            avgBuyPrice: toUsdc(0.1),
+            totalCostBasis: toUsdc(400),
+            currentPrice: toUsdc(0.1),
+            pnlPercent: 0,
+          }),
+        ],
+      });
+      const [result] = evaluateRisk([buy(50)], state, config, makeContext());
+
+      expect(result.review.verdict).toBe("vetoed");
+      expect(result.review.reasons[0]).toContain("concentration");
+    });
+
+    it("should veto a buy once daily turnover is used up", () => {
+      const state = createMockState({ usdcBalance: toUsdc(1000) });
+      const [result] = evaluateRisk(
+        [buy(50)],
+        state,
+        config,
+        makeContext({ dailyTurnover: toUsdc(1000) })
+      );
+
+      expect(result.review.verdict).toBe("vetoed");
+      expect(result.review.reasons[0]).toContain("turnover");
+    });
+
+    it("should veto re-buying a token during its stop-loss cooldown", () => {
+      const state = createMockState({ usdcBalance: toUsdc(1000) });
+      const stopLosses = new Map([[MOCK_ADDRESSES.otherToken.toLowerCase(), NOW - 2 * HOUR_MS]]);
+
+      const [blocked] = evaluateRisk([buy(50)], state, config, makeContext({ stopLosses }));
+      expect(blocked.review.verdict).toBe("vetoed");
+      expect(blocked.review.reasons[0]).toContain("22.0h remaining");
+
+      const [allowed] = evaluateRisk(
+        [buy(50)],
+        state,
+        config,
+        makeContext({ stopLosses, now: NOW + 23 * HOUR_MS })
+      );
+      expect(allowed.review.verdict).toBe("approved");
+    });
+  });
+
+  describe("sells", () => {
+    it("should exempt stop-loss sells from turnover and mark the token", () => {
+      const state = createMockState({
+        usdcBalance: toUsdc(500),
+        holdings: [
+          createMockHolding({
+            tokenDecimals: 18,
+            balance: 1_000n * ONE_TOKEN,
+            avgBuyPrice: toUsdc(0.1),
+            totalCostBasis: toUsdc(100),
+            currentPrice: toUsdc(0.08),
+            pnlPercent: -20,
+          }),
+        ],
+      });
+      const sell: Action = {
+        type: "SELL_TOKEN",
+        priority: 90,
+        reason: "Stop-loss",
+        params: {
+          tokenAddress: MOCK_ADDRESSES.otherToken,
+          bondingCurveAddress: MOCK_ADDRESSES.otherCurve,
+          tokenName: "OTHER",
+          tokenAmount: 1_000n * ONE_TOKEN,
+          minUsdcOut: toUsdc(75),
+        },
+      };
+
+      const [result] = evaluateRisk(
+        [sell],
+        state,
+        config,
+        makeContext({ dailyTurnover: toUsdc(10_000) })
+      );
+      expect(result.review.verdict).toBe("approved");
+      expect(result.review.stopLossToken).toBe(MOCK_ADDRESSES.otherToken);
+    });
+  });
+
+  describe("lending", () => {
+    const FLOOR_PRICE = toUsdc(0.1);
+
+    function borrow(usdc: number): Action {
+      return {
+        type: "BORROW",
+        priority: 70,
+        reason: "Treasury low",
+        params: {
+          collateralToken: MOCK_ADDRESSES.aliceToken,
+          collateralAmount: 0n,
+          borrowAmount: toUsdc(usdc),
+        },
+      };
+    }
+
+    it("should resize a borrow to keep the projected health factor above the minimum", () => {
+      // 1,000 tokens at 0.10 floor = 100 USDC → max debt 100 × 0.85 / 1.5 ≈ 56.67
+      const state = createMockState({
+        loan: createMockLoan({
+          collateralAmount: 1_000n * ONE_TOKEN,
+          borrowedAmount: toUsdc(40),
+        }),
+      });
+      const floorPrices = new Map([[MOCK_ADDRESSES.aliceToken.toLowerCase(), FLOOR_PRICE]]);
+      const [result] = evaluateRisk([borrow(30)], state, config, makeContext({ floorPrices }));
+
+      expect(result.review.verdict).toBe("resized");
+      expect((result.action.params as BorrowParams).borrowAmount).toBe(toUsdc(16.666666));
+    });
+
+    it("should veto a borrow when the loan is already at the minimum health factor", () => {
+      const state = createMockState({
+        loan: createMockLoan({
+          collateralAmount: 1_000n * ONE_TOKEN,
+          borrowedAmount: toUsdc(60),
+        }),
+      });
+      const floorPrices = new Map([[MOCK_ADDRESSES.aliceToken.toLowerCase(), FLOOR_PRICE]]);
+      const [result] = evaluateRisk([borrow(10)], state, config, makeContext({ floorPrices }));
+
+      expect(result.review.verdict).toBe("vetoed");
+      expect(result.review.reasons[0]).toContain("health factor");
+    });
+  });
+});
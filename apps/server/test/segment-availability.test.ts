@@ -0,0 +1,39 @@
+/**
+ * Segment Availability Tests
+ *
+ * Tests for the check every key route makes before payment: deleted
+ * videos, unpublished live segments and out-of-range indices.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { checkSegmentRequest } from "../src/video/availability";
+
+describe("checkSegmentRequest", () => {
+  it("allows segments within a ready video", () => {
+    expect(checkSegmentRequest({ status: "ready", totalSegments: 10 }, 0)).toBeNull();
+    expect(checkSegmentRequest({ status: "ready", totalSegments: 10 }, 9)).toBeNull();
+  });
+
+  it("refuses every segment of a deleted video", () => {
+    expect(checkSegmentRequest({ status: "deleted", totalSegments: 10 }, 0)).toEqual({
+      status: 404,
+      error: "Video not found",
+    });
+    expect(checkSegmentRequest({ status: "deleted", totalSegments: null }, 0)?.status).toBe(404);
+  });
+
+  it("404s live segments that aren't published yet", () => {
+    expect(checkSegmentRequest({ status: "live", totalSegments: 3 }, 2)).toBeNull();
+    expect(checkSegmentRequest({ status: "live", totalSegments: 3 }, 3)).toEqual({
+      status: 404,
+      error: "Segment not published yet",
+    });
+  });
+
+  it("rejects indices past the end of a finished video", () => {
+    expect(checkSegmentRequest({ status: "ready", totalSegments: 10 }, 10)).toEqual({
+      status: 400,
+      error: "Segment index out of range",
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Settlement Plan Tests
+ *
+ * Tests for settlement step planning, ordering, backoff and dead-lettering.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  planSettlementSteps,
+  isStepRunnable,
+  isSettlementComplete,
+  settlementBackoffMs,
+  nextRetryAt,
+} from "../src/integrations/yellow/settlement-plan";
+import { MOCK_ADDRESSES } from "./helpers";
+
+const NOW = 1_700_000_000_000;
+
+describe("Settlement Plan", () => {
+  describe("planning", () => {
+    it("should plan all three steps for a paid session with a creator token", () => {
+      const steps = planSettlementSteps({
+        creatorBalance: "0.050000",
+        creatorTokenAddress: MOCK_ADDRESSES.aliceToken,
+      });
+
+      expect(steps).toEqual([
+        { step: "record", status: "pending" },
+        { step: "bridge", status: "pending" },
+        { step: "distribute", status: "pending" },
+      ]);
+    });
+
+    it("should skip bridge and distribution without a creator token", () => {
+      const steps = planSettlementSteps({ creatorBalance: "0.05", creatorTokenAddress: null });
+      expect(steps.map((s) => s.status)).toEqual(["pending", "skipped", "skipped"]);
+    });
+
+    it("should plan nothing for a session with no revenue", () => {
+      expect(planSettlementSteps({ creatorBalance: "0.000000", creatorTokenAddress: null })).toEqual([]);
+    });
+  });
+
+  describe("ordering", () => {
+    it("should only run a step once earlier steps are done", () => {
+      const jobs = [
+        { step: "record", status: "submitted" },
+        { step: "bridge", status: "pending" },
+        { step: "distribute", status: "pending" },
+      ];
+      expect(isStepRunnable(jobs, "record")).toBe(true);
+      expect(isStepRunnable(jobs, "bridge")).toBe(false);
+
+      jobs[0].status = "confirmed";
+      expect(isStepRunnable(jobs, "bridge")).toBe(true);
+      expect(isStepRunnable(jobs, "distribute")).toBe(false);
+    });
+
+    it("should only count a session settled when every step is confirmed or skipped", () => {
+      expect(
+        isSettlementComplete([
+          { step: "record", status: "confirmed" },
+          { step: "bridge", status: "skipped" },
+          { step: "distribute", status: "dead" },
+        ]),
+      ).toBe(false);
+      expect(
+        isSettlementComplete([
+          { step: "record", status: "confirmed" },
+          { step: "bridge", status: "skipped" },
+          { step: "distribute", status: "confirmed" },
+        ]),
+      ).toBe(true);
+    });
+  });
+
+  describe("retry", () => {
+    it("should back off exponentially up to an hour", () => {
+      expect(settlementBackoffMs(1)).toBe(30_000);
+      expect(settlementBackoffMs(2)).toBe(60_000);
+      expect(settlementBackoffMs(4)).toBe(240_000);
+      expect(settlementBackoffMs(20)).toBe(60 * 60 * 1000);
+    });
+
+    it("should dead-letter once attempts are exhausted", () => {
+      expect(nextRetryAt(3, 8, NOW)?.getTime()).toBe(NOW + 120_000);
+      expect(nextRetryAt(8, 8, NOW)).toBeNull();
+    });
+  });
+});
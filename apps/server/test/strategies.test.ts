@@ -5,7 +5,18 @@
  */
 
 import { describe, it, expect } from "bun:test";
-import { getStrategy, createStrategy, AcademicStrategy, DegenStrategy } from "../src/agents/strategies";
+import {
+  getStrategy,
+  createStrategy,
+  getStrategyTypes,
+  registerStrategy,
+  isRegisteredStrategy,
+  validateStrategyConfig,
+  serializeStrategyConfig,
+  AcademicStrategy,
+  DegenStrategy,
+} from "../src/agents/strategies";
+import { z } from "zod";
 import {
   createMockConfig,
   stateBuilder,
@@ -50,6 +61,74 @@ describe("Strategies", () => {
     });
   });
 
+  // ============================================
+  // Strategy Registry
+  // ============================================
+
+  describe("Strategy Registry", () => {
+    registerStrategy({
+      id: "test-hold",
+      name: "Hold",
+      description: "Never trades",
+      create: () => ({
+        name: "Hold",
+        type: "test-hold",
+        decide: () => ({ actions: [], thinking: [], urgent: false }),
+      }),
+      paramsSchema: z.object({ lookbackCycles: z.number().int().positive().default(5) }),
+    });
+
+    it("should register built-in strategies", () => {
+      expect(getStrategyTypes()).toContain("academic");
+      expect(getStrategyTypes()).toContain("degen");
+    });
+
+    it("should resolve registered strategies by id", () => {
+      expect(isRegisteredStrategy("test-hold")).toBe(true);
+      expect(getStrategy("test-hold").name).toBe("Hold");
+    });
+
+    it("should reject duplicate ids", () => {
+      expect(() =>
+        registerStrategy({
+          id: "academic",
+          name: "Copy",
+          description: "",
+          create: () => new AcademicStrategy(),
+        })
+      ).toThrow();
+    });
+
+    it("should round-trip a config through the database format", () => {
+      const config = createMockConfig("alice").strategy;
+      const parsed = validateStrategyConfig(
+        "academic",
+        JSON.parse(serializeStrategyConfig(config))
+      );
+      expect(parsed.minTreasuryBuffer).toBe(config.minTreasuryBuffer);
+      expect(parsed.maxLTV).toBe(config.maxLTV);
+    });
+
+    it("should apply the strategy params schema", () => {
+      const config = createMockConfig("alice").strategy;
+      const parsed = validateStrategyConfig("test-hold", JSON.parse(serializeStrategyConfig(config)));
+      expect(parsed.params).toEqual({ lookbackCycles: 5 });
+
+      expect(() =>
+        validateStrategyConfig("test-hold", {
+          ...JSON.parse(serializeStrategyConfig(config)),
+          params: { lookbackCycles: -1 },
+        })
+      ).toThrow();
+    });
+
+    it("should reject invalid configs and unknown strategies", () => {
+      const config = JSON.parse(serializeStrategyConfig(createMockConfig("alice").strategy));
+      expect(() => validateStrategyConfig("academic", { ...config, maxLTV: 150 })).toThrow();
+      expect(() => validateStrategyConfig("unknown", config)).toThrow();
+    });
+  });
+
   // ============================================
   // Academic Strategy
   // ============================================
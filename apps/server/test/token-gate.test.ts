@@ -0,0 +1,152 @@
+/**
+ * Token Gate Tests
+ *
+ * Tests for token gate rules, the holder challenge and the discount a
+ * gate pass applies to session pricing.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { verifyMessage } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  gateChallengeMessage,
+  gatePassDiscountBps,
+  holderPassTerms,
+  meetsTokenGate,
+  parseTokenGate,
+  tokenGateSchema,
+} from "../src/pricing/gate";
+import { EMPTY_PRICING_POLICY, quotePrice } from "../src/pricing/policy";
+
+const ONE_TOKEN = 10n ** 18n;
+
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+
+describe("Token Gate Rules", () => {
+  it("requires a discount in discount mode", () => {
+    expect(tokenGateSchema.safeParse({ minBalance: "1", mode: "discount" }).success).toBe(false);
+    expect(
+      tokenGateSchema.safeParse({ minBalance: "1", mode: "discount", discountBps: 2_500 }).success
+    ).toBe(true);
+    expect(tokenGateSchema.parse({ minBalance: "1", mode: "free" }).discountBps).toBeNull();
+  });
+
+  it("rejects non-integer minimum balances", () => {
+    expect(tokenGateSchema.safeParse({ minBalance: "1.5", mode: "free" }).success).toBe(false);
+    expect(tokenGateSchema.safeParse({ minBalance: "-1", mode: "free" }).success).toBe(false);
+  });
+
+  it("treats missing or invalid stored gates as ungated", () => {
+    expect(parseTokenGate(null)).toBeNull();
+    expect(parseTokenGate("{")).toBeNull();
+    expect(parseTokenGate(JSON.stringify({ mode: "free" }))).toBeNull();
+    expect(parseTokenGate(JSON.stringify({ minBalance: "5", mode: "free" }))).toEqual({
+      minBalance: "5",
+      mode: "free",
+      discountBps: null,
+    });
+  });
+
+  it("admits balances at or above the minimum, never a zero balance", () => {
+    const gate = tokenGateSchema.parse({ minBalance: ONE_TOKEN.toString(), mode: "free" });
+    expect(meetsTokenGate(gate, ONE_TOKEN)).toBe(true);
+    expect(meetsTokenGate(gate, ONE_TOKEN - 1n)).toBe(false);
+
+    const anyHolder = tokenGateSchema.parse({ minBalance: "0", mode: "free" });
+    expect(meetsTokenGate(anyHolder, 1n)).toBe(true);
+    expect(meetsTokenGate(anyHolder, 0n)).toBe(false);
+  });
+
+  it("grants a discount only in discount mode", () => {
+    expect(gatePassDiscountBps(tokenGateSchema.parse({ minBalance: "1", mode: "free" }))).toBe(0);
+    expect(
+      gatePassDiscountBps(
+        tokenGateSchema.parse({ minBalance: "1", mode: "discount", discountBps: 3_000 })
+      )
+    ).toBe(3_000);
+  });
+});
+
+describe("Holder Pass Terms", () => {
+  const holderDiscount = { minBalance: ONE_TOKEN.toString(), discountBps: 2_000 };
+
+  it("grants the gate's terms when the balance clears it", () => {
+    const gate = tokenGateSchema.parse({ minBalance: "1", mode: "free" });
+    expect(holderPassTerms(gate, holderDiscount, 1n)).toEqual({ mode: "free", discountBps: 0 });
+  });
+
+  it("grants a discount pass for the policy's holder discount alone", () => {
+    expect(holderPassTerms(null, holderDiscount, ONE_TOKEN)).toEqual({
+      mode: "discount",
+      discountBps: 0,
+    });
+    const gate = tokenGateSchema.parse({ minBalance: (ONE_TOKEN * 5n).toString(), mode: "free" });
+    expect(holderPassTerms(gate, holderDiscount, ONE_TOKEN)).toEqual({
+      mode: "discount",
+      discountBps: 0,
+    });
+  });
+
+  it("grants nothing below every minimum or with no balance", () => {
+    expect(holderPassTerms(null, holderDiscount, ONE_TOKEN - 1n)).toBeNull();
+    expect(holderPassTerms(null, { minBalance: "0", discountBps: 2_000 }, 0n)).toBeNull();
+    expect(holderPassTerms(null, null, ONE_TOKEN)).toBeNull();
+  });
+});
+
+describe("Token Gate Challenge", () => {
+  it("binds the signature to the video, address and nonce", async () => {
+    const message = gateChallengeMessage("video-1", account.address, "nonce-1");
+    const signature = await account.signMessage({ message });
+
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: gateChallengeMessage("video-1", account.address.toLowerCase(), "nonce-1"),
+        signature,
+      })
+    ).toBe(true);
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: gateChallengeMessage("video-2", account.address, "nonce-1"),
+        signature,
+      })
+    ).toBe(false);
+    expect(
+      await verifyMessage({
+        address: account.address,
+        message: gateChallengeMessage("video-1", account.address, "nonce-2"),
+        signature,
+      })
+    ).toBe(false);
+  });
+});
+
+describe("Gate Pass Pricing", () => {
+  it("applies the pass discount after the video's own policy", () => {
+    const quote = quotePrice(
+      {
+        basePrice: "0.010000",
+        freePreviewSegments: 0,
+        policy: {
+          ...EMPTY_PRICING_POLICY,
+          timeOfDay: [{ startHour: 0, endHour: 24, multiplierBps: 20_000 }],
+        },
+      },
+      {
+        now: new Date("2026-01-15T12:00:00Z"),
+        concurrentViewers: 0,
+        holderBalance: null,
+        gateDiscountBps: 2_500,
+      }
+    );
+    expect(quote.pricePerSegment).toBe("0.015000");
+    expect(quote.adjustments).toEqual([
+      { kind: "time_of_day", multiplierBps: 20_000 },
+      { kind: "token_gate", multiplierBps: 7_500 },
+    ]);
+  });
+});
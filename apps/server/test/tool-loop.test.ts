@@ -0,0 +1,156 @@
+/**
+ * Tool Loop Tests
+ *
+ * Tests for the multi-step LLM loop: tool results are fed back, the step
+ * budget forces a submission, and the full transcript is kept.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type {
+  OpenRouterAssistantMessage,
+  OpenRouterChatMessage,
+  OpenRouterToolChoice,
+} from "../src/integrations/openrouter/types";
+import {
+  runToolLoop,
+  SUBMIT_DECISION,
+  type AgentTool,
+  type CompletionFn,
+} from "../src/agents/runtime/tool-loop";
+
+const opening: OpenRouterChatMessage[] = [
+  { role: "system", content: "You are an agent" },
+  { role: "user", content: "State" },
+];
+
+const submission = { thinking: [], actions: [] };
+
+function call(id: string, name: string, args: unknown): OpenRouterAssistantMessage {
+  return {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      {
+        id,
+        type: "function",
+        function: { name, arguments: typeof args === "string" ? args : JSON.stringify(args) },
+      },
+    ],
+  };
+}
+
+/** Replays scripted replies and records the tool choice of each request */
+function scripted(replies: OpenRouterAssistantMessage[]) {
+  const choices: (OpenRouterToolChoice | undefined)[] = [];
+  const complete: CompletionFn = async (_messages, _tools, options) => {
+    choices.push(options.toolChoice);
+    const reply = replies.shift();
+    if (!reply) throw new Error("No scripted reply left");
+    return reply;
+  };
+  return { complete, choices };
+}
+
+const quoteTool: AgentTool = {
+  definition: {
+    type: "function",
+    function: { name: "get_buy_quote", description: "Quote", parameters: { type: "object" } },
+  },
+  async run(args) {
+    return { usdcAmount: BigInt(String(args.usdcAmount)), tokensOut: 42n * 10n ** 18n };
+  },
+};
+
+describe("Tool Loop", () => {
+  it("should feed tool results back before the submission", async () => {
+    const { complete } = scripted([
+      call("c1", "get_buy_quote", { usdcAmount: "1000000" }),
+      call("c2", SUBMIT_DECISION, submission),
+    ]);
+
+    const result = await runToolLoop({ messages: opening, tools: [quoteTool], complete, maxSteps: 4 });
+
+    expect(result.decision).toEqual(submission);
+    expect(result.steps).toBe(2);
+    expect(result.toolCalls).toBe(1);
+
+    const toolMessage = result.transcript.find((m) => m.role === "tool");
+    expect(toolMessage).toEqual({
+      role: "tool",
+      tool_call_id: "c1",
+      content: JSON.stringify({ usdcAmount: "1000000", tokensOut: "42000000000000000000" }),
+    });
+    // Opening prompts, tool call, tool result, submission
+    expect(result.transcript).toHaveLength(5);
+  });
+
+  it("should report unknown tools and failing tools to the model", async () => {
+    const failing: AgentTool = {
+      definition: { ...quoteTool.definition, function: { ...quoteTool.definition.function, name: "get_sell_quote" } },
+      async run() {
+        throw new Error("execution reverted");
+      },
+    };
+    const { complete } = scripted([
+      call("c1", "place_order", {}),
+      call("c2", "get_sell_quote", {}),
+      call("c3", SUBMIT_DECISION, submission),
+    ]);
+
+    const result = await runToolLoop({ messages: opening, tools: [failing], complete, maxSteps: 4 });
+    const results = result.transcript.filter((m) => m.role === "tool").map((m) => JSON.parse(m.content));
+
+    expect(results).toEqual([
+      { error: "Unknown tool: place_order" },
+      { error: "execution reverted" },
+    ]);
+    expect(result.toolCalls).toBe(1);
+    expect(result.decision).toEqual(submission);
+  });
+
+  it("should force submit_decision on the last step", async () => {
+    const { complete, choices } = scripted([
+      call("c1", "get_buy_quote", { usdcAmount: "1" }),
+      call("c2", "get_buy_quote", { usdcAmount: "2" }),
+      call("c3", SUBMIT_DECISION, submission),
+    ]);
+
+    const result = await runToolLoop({ messages: opening, tools: [quoteTool], complete, maxSteps: 3 });
+
+    expect(choices).toEqual([
+      "auto",
+      "auto",
+      { type: "function", function: { name: SUBMIT_DECISION } },
+    ]);
+    expect(result.decision).toEqual(submission);
+    expect(
+      result.transcript.some((m) => m.role === "user" && m.content.includes("Tool budget exhausted"))
+    ).toBe(true);
+  });
+
+  it("should return no decision when the budget runs out without a submission", async () => {
+    const { complete } = scripted([
+      { role: "assistant", content: "I think we should buy." },
+      { role: "assistant", content: "Still thinking." },
+    ]);
+
+    const result = await runToolLoop({ messages: opening, tools: [quoteTool], complete, maxSteps: 2 });
+
+    expect(result.decision).toBeNull();
+    expect(result.steps).toBe(2);
+    // The model is reminded to submit after a plain text reply
+    expect(result.transcript[3]).toMatchObject({ role: "user" });
+  });
+
+  it("should let the model retry malformed submission arguments", async () => {
+    const { complete } = scripted([
+      call("c1", SUBMIT_DECISION, "{not json"),
+      call("c2", SUBMIT_DECISION, submission),
+    ]);
+
+    const result = await runToolLoop({ messages: opening, tools: [], complete, maxSteps: 3 });
+
+    expect(result.decision).toEqual(submission);
+    expect(result.transcript[3]).toMatchObject({ role: "tool", tool_call_id: "c1" });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * USDC Amount Tests
+ *
+ * Tests for the fixed-point USDC type used by session balances and revenue splits.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  parseUsdc,
+  formatUsdc,
+  addUsdc,
+  subUsdc,
+  mulUsdc,
+  splitRevenue,
+  usdcFromUnits,
+  InvalidAmountError,
+} from "@versus/streaming";
+
+describe("USDC Amounts", () => {
+  describe("parsing and formatting", () => {
+    it("should parse decimal strings exactly", () => {
+      expect(parseUsdc("1")).toBe(usdcFromUnits(1_000_000));
+      expect(parseUsdc("0.05")).toBe(usdcFromUnits(50_000));
+      expect(parseUsdc("0.000001")).toBe(usdcFromUnits(1));
+      expect(parseUsdc("12.")).toBe(usdcFromUnits(12_000_000));
+    });
+
+    it("should format with six decimals", () => {
+      expect(formatUsdc(parseUsdc("1"))).toBe("1.000000");
+      expect(formatUsdc(parseUsdc("0.05"))).toBe("0.050000");
+      expect(formatUsdc(usdcFromUnits(0))).toBe("0.000000");
+    });
+
+    it("should reject malformed, negative or over-precise amounts", () => {
+      expect(() => parseUsdc("-1")).toThrow(InvalidAmountError);
+      expect(() => parseUsdc("1e3")).toThrow(InvalidAmountError);
+      expect(() => parseUsdc("0.0000001")).toThrow(InvalidAmountError);
+      expect(() => parseUsdc("")).toThrow(InvalidAmountError);
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should deduct per-segment prices without drift", () => {
+      // 0.1 + 0.2 style float errors would leave a residue after 100 deductions
+      let balance = parseUsdc("1");
+      const price = parseUsdc("0.01");
+      for (let i = 0; i < 100; i++) {
+        balance = subUsdc(balance, price);
+      }
+      expect(balance).toBe(usdcFromUnits(0));
+      expect(mulUsdc(price, 100)).toBe(parseUsdc("1"));
+      expect(formatUsdc(addUsdc(parseUsdc("0.1"), parseUsdc("0.2")))).toBe("0.300000");
+    });
+
+    it("should refuse to go negative", () => {
+      expect(() => subUsdc(parseUsdc("0.01"), parseUsdc("0.02"))).toThrow(InvalidAmountError);
+    });
+  });
+
+  describe("revenue split", () => {
+    it("should split 70/20/10", () => {
+      const split = splitRevenue(parseUsdc("1"));
+      expect(formatUsdc(split.creator)).toBe("0.700000");
+      expect(formatUsdc(split.tokenHolders)).toBe("0.200000");
+      expect(formatUsdc(split.protocol)).toBe("0.100000");
+    });
+
+    it("should always sum to the paid total", () => {
+      for (const units of [1, 7, 33, 999_999, 1_234_567]) {
+        const total = usdcFromUnits(units);
+        const { creator, tokenHolders, protocol } = splitRevenue(total);
+        expect(creator + tokenHolders + protocol).toBe(total);
+      }
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Video Upload Tests
+ *
+ * Tests for the resumable upload protocol (metadata, offsets, chunk checks)
+ * and the processing job plan (stage order, progress roll-up, backoff).
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  CHUNK_CONTENT_TYPE,
+  checkChunk,
+  chunkOverflows,
+  parseByteCount,
+  parseUploadMetadata,
+} from "../src/uploads/protocol";
+import {
+  VIDEO_JOB_STAGES,
+  isVideoStageRunnable,
+  nextVideoJobRetryAt,
+  sortVideoJobs,
+  stageProgress,
+  summarizeVideoJobs,
+  videoJobBackoffMs,
+} from "../src/uploads/plan";
+
+const NOW = 1_700_000_000_000;
+
+const b64 = (value: string) => Buffer.from(value).toString("base64");
+
+function jobs(statuses: string[], progress: number[] = []) {
+  return VIDEO_JOB_STAGES.map((stage, i) => ({
+    stage,
+    status: statuses[i] ?? "pending",
+    progress: progress[i] ?? 0,
+  }));
+}
+
+describe("Video Uploads", () => {
+  describe("protocol", () => {
+    it("should decode Upload-Metadata pairs", () => {
+      const header = `title ${b64("Día uno")},agentId ${b64("alice")}, filename ${b64("a.mp4")},is_draft`;
+
+      expect(parseUploadMetadata(header)).toEqual({
+        title: "Día uno",
+        agentId: "alice",
+        filename: "a.mp4",
+        is_draft: "",
+      });
+      expect(parseUploadMetadata(undefined)).toEqual({});
+    });
+
+    it("should only accept plain non-negative byte counts", () => {
+      expect(parseByteCount("1048576")).toBe(1048576);
+      expect(parseByteCount("0")).toBe(0);
+      expect(parseByteCount("-1")).toBeNull();
+      expect(parseByteCount("1e6")).toBeNull();
+      expect(parseByteCount("99999999999999999999")).toBeNull();
+      expect(parseByteCount(undefined)).toBeNull();
+    });
+
+    it("should require the client offset to match the stored offset", () => {
+      const upload = { uploadOffset: 500, uploadLength: 1000, status: "uploading" };
+
+      expect(checkChunk(upload, CHUNK_CONTENT_TYPE, 500)).toBeNull();
+      expect(checkChunk(upload, CHUNK_CONTENT_TYPE, 0)?.status).toBe(409);
+      expect(checkChunk(upload, CHUNK_CONTENT_TYPE, null)?.status).toBe(400);
+      expect(checkChunk(upload, "video/mp4", 500)?.status).toBe(415);
+    });
+
+    it("should refuse chunks for finished or cancelled uploads", () => {
+      const base = { uploadOffset: 1000, uploadLength: 1000 };
+
+      expect(checkChunk({ ...base, status: "complete" }, CHUNK_CONTENT_TYPE, 1000)?.status).toBe(409);
+      expect(checkChunk({ ...base, status: "cancelled" }, CHUNK_CONTENT_TYPE, 1000)?.status).toBe(410);
+    });
+
+    it("should detect chunks that run past Upload-Length", () => {
+      const upload = { uploadOffset: 900, uploadLength: 1000, status: "uploading" };
+
+      expect(chunkOverflows(upload, 100)).toBe(false);
+      expect(chunkOverflows(upload, 101)).toBe(true);
+    });
+  });
+
+  describe("job plan", () => {
+    it("should run stages strictly in pipeline order", () => {
+      const state = jobs(["completed", "running"]);
+
+      expect(isVideoStageRunnable(state, "encrypt")).toBe(true);
+      expect(isVideoStageRunnable(state, "package")).toBe(false);
+      expect(sortVideoJobs([...state].reverse()).map((j) => j.stage)).toEqual([...VIDEO_JOB_STAGES]);
+    });
+
+    it("should roll stage progress up into one status", () => {
+      expect(summarizeVideoJobs(jobs([]))).toEqual({ status: "processing", stage: "segment", progress: 0 });
+      expect(summarizeVideoJobs(jobs(["completed", "running"], [100, 50]))).toEqual({
+        status: "processing",
+        stage: "encrypt",
+        progress: 30,
+      });
+      expect(summarizeVideoJobs(jobs(["completed", "completed", "dead"]))).toMatchObject({
+        status: "failed",
+        stage: "package",
+      });
+      expect(summarizeVideoJobs(jobs(Array(5).fill("completed")))).toEqual({
+        status: "ready",
+        stage: null,
+        progress: 100,
+      });
+    });
+
+    it("should report stage progress as a capped percent", () => {
+      expect(stageProgress(1, 3)).toBe(33);
+      expect(stageProgress(5, 3)).toBe(100);
+      expect(stageProgress(0, 0)).toBe(100);
+    });
+
+    it("should back off exponentially and dead-letter after max attempts", () => {
+      expect(videoJobBackoffMs(1)).toBe(15_000);
+      expect(videoJobBackoffMs(3)).toBe(60_000);
+      expect(videoJobBackoffMs(20)).toBe(15 * 60 * 1000);
+
+      expect(nextVideoJobRetryAt(2, 4, NOW)).toEqual(new Date(NOW + 30_000));
+      expect(nextVideoJobRetryAt(4, 4, NOW)).toBeNull();
+    });
+  });
+});
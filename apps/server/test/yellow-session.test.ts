@@ -0,0 +1,97 @@
+/**
+ * Yellow Session Snapshot Tests
+ *
+ * Tests for persisting/rehydrating streaming sessions and the ClearNode
+ * reconciliation rules.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { PreparedChannel } from "../src/integrations/nitrolite";
+import type { StreamingSession } from "../src/integrations/yellow/session";
+import {
+  sessionToRow,
+  sessionFromRow,
+  reconcileSession,
+} from "../src/integrations/yellow/snapshot";
+import { MOCK_ADDRESSES } from "./helpers";
+
+function makeSession(overrides?: Partial<StreamingSession>): StreamingSession {
+  return {
+    appSessionId: "0xabc",
+    videoId: "video-1",
+    viewerAddress: MOCK_ADDRESSES.otherCreator,
+    creatorAddress: MOCK_ADDRESSES.alice,
+    serverAddress: MOCK_ADDRESSES.bob,
+    totalDeposited: "1.000000",
+    viewerBalance: "0.970000",
+    creatorBalance: "0.030000",
+    segmentsDelivered: 3,
+    pricePerSegment: "0.01",
+    freePreviewSegments: 0,
+    version: 3,
+    createdAt: 1_700_000_000_000,
+    lastPaymentAt: 1_700_000_015_000,
+    paidSegments: new Set([0, 2, 1]),
+    creatorTokenAddress: MOCK_ADDRESSES.aliceToken,
+    creatorBondingCurveAddress: MOCK_ADDRESSES.aliceCurve,
+    channelId: null,
+    custodyDepositTxHash: null,
+    channelCloseTxHash: null,
+    custodyWithdrawTxHash: null,
+    pendingChannelData: null,
+    closeStateHash: "0xclose",
+    ...overrides,
+  };
+}
+
+describe("Yellow Session Snapshots", () => {
+  it("should round-trip a session through its database row", () => {
+    const session = makeSession();
+    const row = sessionToRow(session);
+
+    expect(row.paidSegments).toBe("[0,1,2]");
+
+    const restored = sessionFromRow(row);
+    expect(restored).toEqual(session);
+    expect(restored.paidSegments.has(2)).toBe(true);
+  });
+
+  it("should preserve bigints in pending custody channel data", () => {
+    const pendingChannelData = {
+      channel: { participants: [], adjudicator: MOCK_ADDRESSES.bob, challenge: 3600n, nonce: 42n },
+      unsignedInitialState: { allocations: [{ amount: 1_000_000n }] },
+      channelId: "0x01",
+      packedStateHex: "0x02",
+      depositAmount: "1",
+    } as unknown as PreparedChannel;
+
+    const restored = sessionFromRow(sessionToRow(makeSession({ pendingChannelData })));
+    expect(restored.pendingChannelData).toEqual(pendingChannelData);
+    expect(restored.pendingChannelData?.channel.nonce).toBe(42n);
+  });
+
+  describe("reconciliation", () => {
+    it("should resume local-only sessions unknown to ClearNode", () => {
+      expect(reconcileSession(makeSession(), undefined).action).toBe("resume");
+    });
+
+    it("should resume when ClearNode is at or behind the persisted version", () => {
+      const session = makeSession({ version: 3 });
+      expect(reconcileSession(session, { status: "open", version: 3 }).action).toBe("resume");
+      expect(reconcileSession(session, { status: "open", version: 1 }).action).toBe("resume");
+    });
+
+    it("should close sessions ClearNode already closed", () => {
+      const result = reconcileSession(makeSession(), { status: "closed", version: 3 });
+      expect(result.action).toBe("close");
+    });
+
+    it("should close when ClearNode has a newer version than was persisted", () => {
+      const result = reconcileSession(makeSession({ version: 3 }), { status: "open", version: 5 });
+      expect(result).toEqual({
+        action: "close",
+        reason: "ClearNode version 5 ahead of persisted version 3",
+      });
+    });
+  });
+});
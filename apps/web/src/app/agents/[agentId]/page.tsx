@@ -16,12 +16,14 @@ import {
   RefreshCw,
   ChevronDown,
   Timer,
+  Cpu,
 } from "lucide-react";
 import { useCallback, useState } from "react";
 import { Header } from "@/components/layout/Header";
 import { useAgentDetail } from "@/hooks/useAgentDetail";
 import { VideoCard } from "@/components/videos/VideoCard";
 import { AgentDecisionPanel } from "@/components/decisions/AgentDecisionPanel";
+import { PerformanceChart } from "@/components/decisions/PerformanceChart";
 import { TradingChart } from "@/components/trading/TradingChart";
 import { TradeHistory } from "@/components/trading/TradeHistory";
 import { CompactTradeForm } from "@/components/trading/CompactTradeForm";
@@ -44,6 +46,8 @@ import {
   formatHealthFactor,
   formatLTV,
   formatTimeAgo,
+  formatCostUsd,
+  formatTokenCount,
   truncateAddress,
 } from "@/lib/format";
 import { forceCycle } from "@/lib/api";
@@ -324,6 +328,38 @@ export default function AgentDetailPage() {
                         icon={<Hash className="h-3.5 w-3.5" />}
                       />
                     </div>
+                    {/* LLM usage */}
+                    {agent.llmUsage && (
+                      <div className="space-y-1">
+                        <span className="text-xs font-medium text-muted-foreground">LLM (24h)</span>
+                        <MetricRow
+                          label="Calls"
+                          value={
+                            agent.llmUsage.failures > 0
+                              ? `${agent.llmUsage.calls} (${agent.llmUsage.failures} failed)`
+                              : `${agent.llmUsage.calls}`
+                          }
+                          icon={<Cpu className="h-3.5 w-3.5" />}
+                        />
+                        <MetricRow
+                          label="Tokens"
+                          value={formatTokenCount(agent.llmUsage.totalTokens)}
+                          icon={<Hash className="h-3.5 w-3.5" />}
+                        />
+                        <MetricRow
+                          label="Est. Cost"
+                          value={formatCostUsd(agent.llmUsage.costUsd)}
+                          icon={<DollarSign className="h-3.5 w-3.5" />}
+                        />
+                        {agent.llmUsage.byProvider.map((p) => (
+                          <MetricRow
+                            key={`${p.provider}:${p.model}`}
+                            label={p.provider}
+                            value={`${p.calls} · ${formatCostUsd(p.costUsd)}`}
+                          />
+                        ))}
+                      </div>
+                    )}
                     {/* Loan */}
                     {loan?.active && (
                       <div className="space-y-1">
@@ -364,6 +400,9 @@ export default function AgentDetailPage() {
               <h2 className="mb-4 text-xl font-semibold tracking-tight">
                 Decision History
               </h2>
+              <div className="mb-4">
+                <PerformanceChart agentId={agent.id} />
+              </div>
               <AgentDecisionPanel
                 agentId={agent.id}
                 agentName={agent.name}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Coins, Film, Loader2, LogOut, Users, Wallet } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { CreatorVideosTable } from "@/components/creator/CreatorVideosTable";
+import { CreatorSessionsTable } from "@/components/creator/CreatorSessionsTable";
+import { useCreatorSession } from "@/hooks/useCreatorSession";
+import { useCreatorDashboard } from "@/hooks/useCreatorDashboard";
+import { deleteVideo, deployCreatorToken } from "@/lib/api";
+import { truncateAddress } from "@/lib/format";
+
+export default function CreatorPage() {
+  const { status, token, creator, error: signInError, signIn, signOut, setCreator } =
+    useCreatorSession();
+  const { dashboard, isLoading, error, refetch } = useCreatorDashboard(token);
+  const [tokenName, setTokenName] = useState("");
+  const [tokenSymbol, setTokenSymbol] = useState("");
+  const [isDeploying, setIsDeploying] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleDeploy = async () => {
+    if (!token) return;
+    setIsDeploying(true);
+    setActionError(null);
+    try {
+      setCreator(await deployCreatorToken(token, tokenName, tokenSymbol));
+      await refetch();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : "Token deployment failed");
+    } finally {
+      setIsDeploying(false);
+    }
+  };
+
+  const handleDelete = async (videoId: string) => {
+    if (!token || !window.confirm("Delete this video? Viewers will no longer be able to watch it.")) {
+      return;
+    }
+    setActionError(null);
+    try {
+      await deleteVideo(token, videoId);
+      await refetch();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : "Failed to delete video");
+    }
+  };
+
+  const shownError = signInError || actionError || error;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Creator Dashboard</h1>
+            <p className="mt-1 text-muted-foreground">
+              Your videos, who is watching them and what they have earned
+            </p>
+          </div>
+          {status === "signed_in" && creator && (
+            <div className="flex items-center gap-3">
+              <span className="font-mono text-sm text-muted-foreground">
+                {creator.displayName || truncateAddress(creator.address)}
+              </span>
+              <Button variant="outline" size="sm" onClick={signOut}>
+                <LogOut className="mr-1 h-3.5 w-3.5" />
+                Sign out
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {shownError && (
+          <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 px-4 py-3">
+            <AlertCircle className="h-4 w-4 text-destructive" />
+            <span className="text-sm text-destructive">{shownError}</span>
+          </div>
+        )}
+
+        {status === "loading" ? (
+          <div className="flex h-[320px] items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : status !== "signed_in" || !creator ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <Wallet className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h2 className="text-lg font-semibold">Sign in with Ethereum</h2>
+            <p className="mb-6 mt-1 max-w-md text-sm text-muted-foreground">
+              Sign a message with your browser wallet to upload videos and earn from every segment
+              watched. Your wallet receives the creator share of streaming revenue.
+            </p>
+            <Button onClick={signIn} disabled={status === "signing_in"}>
+              {status === "signing_in" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Sign in
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2 text-sm">
+                    <Coins className="h-4 w-4" />
+                    Earned
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">${dashboard?.earnings.total ?? "0.000000"}</div>
+                  <p className="text-xs text-muted-foreground">
+                    ${dashboard?.earnings.settled ?? "0.000000"} settled,{" "}
+                    ${dashboard?.earnings.unsettled ?? "0.000000"} pending
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2 text-sm">
+                    <Users className="h-4 w-4" />
+                    Viewer sessions
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{dashboard?.earnings.sessions ?? 0}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {dashboard?.earnings.paidSessions ?? 0} paid,{" "}
+                    {dashboard?.earnings.segmentsDelivered ?? 0} segments delivered
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="flex items-center gap-2 text-sm">
+                    <Coins className="h-4 w-4" />
+                    Creator token
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {creator.tokenAddress ? (
+                    <>
+                      <div className="text-2xl font-bold">{creator.tokenSymbol}</div>
+                      <p className="font-mono text-xs text-muted-foreground">
+                        {truncateAddress(creator.tokenAddress)}
+                      </p>
+                    </>
+                  ) : (
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Deploy a token and bonding curve; holders share your streaming revenue.
+                      </p>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Name"
+                          value={tokenName}
+                          onChange={(e) => setTokenName(e.target.value)}
+                        />
+                        <Input
+                          placeholder="SYMBOL"
+                          className="w-28"
+                          value={tokenSymbol}
+                          onChange={(e) => setTokenSymbol(e.target.value)}
+                        />
+                      </div>
+                      <Button
+                        size="sm"
+                        onClick={handleDeploy}
+                        disabled={isDeploying || !tokenName || !tokenSymbol}
+                      >
+                        {isDeploying && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                        Deploy token
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {isLoading && !dashboard ? (
+              <div className="flex h-[200px] items-center justify-center">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-sm">
+                      <Film className="h-4 w-4" />
+                      Videos
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {dashboard && dashboard.videos.length > 0 ? (
+                      <CreatorVideosTable videos={dashboard.videos} onDelete={handleDelete} />
+                    ) : (
+                      <p className="py-6 text-center text-sm text-muted-foreground">
+                        No videos yet. Upload through the API with your session token.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center gap-2 text-sm">
+                      <Users className="h-4 w-4" />
+                      Recent sessions
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {dashboard && dashboard.sessions.length > 0 ? (
+                      <CreatorSessionsTable sessions={dashboard.sessions} videos={dashboard.videos} />
+                    ) : (
+                      <p className="py-6 text-center text-sm text-muted-foreground">
+                        No one has watched your videos yet
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
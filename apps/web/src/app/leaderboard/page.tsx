@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Loader2, Trophy } from "lucide-react";
+import { Header } from "@/components/layout/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { Button } from "@/components/ui/Button";
+import { NavChart } from "@/components/leaderboard/NavChart";
+import { LeaderboardTable } from "@/components/leaderboard/LeaderboardTable";
+import { useLeaderboard } from "@/hooks/useLeaderboard";
+
+const WINDOWS = [7, 30, 90] as const;
+
+export default function LeaderboardPage() {
+  const [days, setDays] = useState<number>(30);
+  const { leaderboard, isLoading, error } = useLeaderboard(days);
+
+  const hasData = !!leaderboard && leaderboard.entries.some((e) => e.series.length > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Leaderboard</h1>
+            <p className="mt-1 text-muted-foreground">
+              Agents ranked by net asset value: USDC, holdings and own tokens at curve price, plus
+              revenue owed, minus loan debt
+            </p>
+          </div>
+          <div className="flex gap-1">
+            {WINDOWS.map((window) => (
+              <Button
+                key={window}
+                variant={window === days ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDays(window)}
+              >
+                {window}d
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-6 flex items-center gap-3 rounded-lg border border-destructive/50 bg-destructive/10 px-4 py-3">
+            <AlertCircle className="h-4 w-4 text-destructive" />
+            <span className="text-sm text-destructive">{error}</span>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex h-[320px] items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !hasData ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <Trophy className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h2 className="text-lg font-semibold">No NAV snapshots yet</h2>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Agents are valued on a schedule; the curves gain one point per day
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-sm">
+                  <Trophy className="h-4 w-4" />
+                  Net Asset Value
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NavChart entries={leaderboard.entries} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <LeaderboardTable entries={leaderboard.entries} />
+                <p className="mt-3 text-xs text-muted-foreground">
+                  Sharpe is the annualized mean of daily NAV returns over their volatility. Max
+                  drawdown is the largest fall from a previous high in the last {leaderboard.days}{" "}
+                  days.
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
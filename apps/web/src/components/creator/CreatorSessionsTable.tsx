@@ -0,0 +1,53 @@
+"use client";
+
+import { Badge } from "@/components/ui/Badge";
+import { formatTimeAgo, truncateAddress } from "@/lib/format";
+import type { CreatorDashboardSession, CreatorDashboardVideo } from "@/lib/types";
+
+interface CreatorSessionsTableProps {
+  sessions: CreatorDashboardSession[];
+  videos: CreatorDashboardVideo[];
+}
+
+export function CreatorSessionsTable({ sessions, videos }: CreatorSessionsTableProps) {
+  const titles = new Map(videos.map((v) => [v.id, v.title]));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs text-muted-foreground">
+            <th className="py-2 pr-3 font-medium">Viewer</th>
+            <th className="py-2 pr-3 font-medium">Video</th>
+            <th className="py-2 pr-3 font-medium">Status</th>
+            <th className="py-2 pr-3 text-right font-medium">Segments</th>
+            <th className="py-2 pr-3 text-right font-medium">Earned</th>
+            <th className="py-2 text-right font-medium">Started</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.map((session) => (
+            <tr key={session.id} className="border-b border-border/50 last:border-0">
+              <td className="py-2.5 pr-3 font-mono text-xs">
+                {truncateAddress(session.viewerAddress)}
+              </td>
+              <td className="py-2.5 pr-3">{titles.get(session.videoId) ?? session.videoId}</td>
+              <td className="py-2.5 pr-3">
+                <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                  {session.status}
+                </Badge>
+              </td>
+              <td className="py-2.5 pr-3 text-right">{session.segmentsDelivered}</td>
+              <td className="py-2.5 pr-3 text-right font-medium">
+                {session.status === "active" ? "--" : `$${session.earned}`}
+              </td>
+              <td className="py-2.5 text-right text-muted-foreground">
+                {formatTimeAgo(new Date(session.createdAt).getTime())}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/Badge";
+import { Button } from "@/components/ui/Button";
+import { formatDuration } from "@/lib/format";
+import type { CreatorDashboardVideo } from "@/lib/types";
+
+interface CreatorVideosTableProps {
+  videos: CreatorDashboardVideo[];
+  onDelete: (videoId: string) => void;
+}
+
+export function CreatorVideosTable({ videos, onDelete }: CreatorVideosTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs text-muted-foreground">
+            <th className="py-2 pr-3 font-medium">Video</th>
+            <th className="py-2 pr-3 font-medium">Status</th>
+            <th className="py-2 pr-3 text-right font-medium">Length</th>
+            <th className="py-2 pr-3 text-right font-medium">Sessions</th>
+            <th className="py-2 pr-3 text-right font-medium">Segments</th>
+            <th className="py-2 pr-3 text-right font-medium">Earned</th>
+            <th className="py-2 text-right font-medium" />
+          </tr>
+        </thead>
+        <tbody>
+          {videos.map((video) => (
+            <tr key={video.id} className="border-b border-border/50 last:border-0">
+              <td className="py-2.5 pr-3">
+                {video.status === "ready" || video.status === "live" ? (
+                  <Link href={`/videos/${video.id}`} className="font-medium hover:underline">
+                    {video.title}
+                  </Link>
+                ) : (
+                  <span className="font-medium">{video.title}</span>
+                )}
+              </td>
+              <td className="py-2.5 pr-3">
+                <Badge
+                  variant={video.status === "failed" ? "destructive" : "outline"}
+                  className="px-1.5 py-0 text-[10px]"
+                >
+                  {video.status}
+                </Badge>
+              </td>
+              <td className="py-2.5 pr-3 text-right">{formatDuration(video.durationSeconds)}</td>
+              <td className="py-2.5 pr-3 text-right">{video.earnings.sessions}</td>
+              <td className="py-2.5 pr-3 text-right">{video.earnings.segmentsDelivered}</td>
+              <td className="py-2.5 pr-3 text-right font-medium">${video.earnings.total}</td>
+              <td className="py-2.5 text-right">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Delete video"
+                  onClick={() => onDelete(video.id)}
+                >
+                  <Trash2 className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
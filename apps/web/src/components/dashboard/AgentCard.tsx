@@ -74,7 +74,7 @@ export function AgentCard({ agent }: AgentCardProps) {
               <CardTitle className="text-lg">{agent.name}</CardTitle>
               <Badge
                 variant="outline"
-                className={cn(strategyStyles[agent.strategyType])}
+                className={cn(strategyStyles[agent.strategyType as keyof typeof strategyStyles])}
               >
                 {agent.strategyType}
               </Badge>
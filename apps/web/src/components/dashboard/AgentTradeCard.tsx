@@ -66,7 +66,7 @@ export function AgentTradeCard({ agent, price, totalSupply }: AgentTradeCardProp
           <span className="font-semibold">{agent.name}</span>
           <Badge
             variant="outline"
-            className={cn("text-[10px] px-1.5 py-0", strategyStyles[agent.strategyType])}
+            className={cn("text-[10px] px-1.5 py-0", strategyStyles[agent.strategyType as keyof typeof strategyStyles])}
           >
             {agent.strategyType}
           </Badge>
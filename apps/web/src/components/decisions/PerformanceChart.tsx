@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { createChart, ColorType, LineSeries, type UTCTimestamp } from "lightweight-charts";
+import { Target, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
+import { MetricRow } from "@/components/dashboard/MetricRow";
+import { useAgentPerformance } from "@/hooks/useAgentPerformance";
+import { formatConfidence, formatSignedPct, formatSignedUsdc } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { DecisionSource, PerformancePoint, PerformanceStats } from "@/lib/types";
+
+const SOURCE_COLORS: Record<DecisionSource, string> = {
+  llm: "#8b5cf6",
+  rules: "#0ea5e9",
+};
+
+const SOURCE_LABELS: Record<DecisionSource, string> = {
+  llm: "LLM",
+  rules: "Rule-based",
+};
+
+/**
+ * Cumulative outcome per source in whole USDC, one point per second
+ * (several actions from one decision share a timestamp)
+ */
+function cumulativeBySource(series: PerformancePoint[], source: DecisionSource) {
+  const points = new Map<number, number>();
+  let previous = 0;
+  let total = 0;
+
+  for (const point of series) {
+    const cumulative = Number(point.cumulativeOutcomeUsdc) / 1e6;
+    const outcome = cumulative - previous;
+    previous = cumulative;
+    if (point.source !== source) continue;
+    total += outcome;
+    points.set(Math.floor(point.decidedAt / 1000), total);
+  }
+
+  return Array.from(points, ([time, value]) => ({ time: time as UTCTimestamp, value }));
+}
+
+function formatStats(stats: PerformanceStats): string {
+  if (stats.count === 0) return "--";
+  return `${formatConfidence(stats.hitRate ?? 0)} hit · ${formatSignedPct(stats.avgEdgePct ?? 0)} avg (${stats.count})`;
+}
+
+interface PerformanceChartProps {
+  agentId: string;
+}
+
+export function PerformanceChart({ agentId }: PerformanceChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+  const { performance, isLoading } = useAgentPerformance(agentId);
+
+  const lines = useMemo(
+    () =>
+      performance
+        ? (["llm", "rules"] as const).map((source) => ({
+            source,
+            data: cumulativeBySource(performance.series, source),
+          }))
+        : [],
+    [performance]
+  );
+
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    if (!container || lines.every((l) => l.data.length === 0)) return;
+
+    const chart = createChart(container, {
+      width: container.clientWidth,
+      height: 220,
+      layout: {
+        background: { type: ColorType.Solid, color: "transparent" },
+        textColor: "#9ca3af",
+        fontSize: 11,
+      },
+      grid: {
+        vertLines: { color: "rgba(255, 255, 255, 0.04)" },
+        horzLines: { color: "rgba(255, 255, 255, 0.04)" },
+      },
+      rightPriceScale: { borderColor: "rgba(255, 255, 255, 0.1)" },
+      timeScale: {
+        borderColor: "rgba(255, 255, 255, 0.1)",
+        timeVisible: true,
+        secondsVisible: false,
+      },
+      handleScroll: { vertTouchDrag: false },
+    });
+
+    for (const line of lines) {
+      if (line.data.length === 0) continue;
+      const series = chart.addSeries(LineSeries, {
+        color: SOURCE_COLORS[line.source],
+        lineWidth: 2,
+        title: SOURCE_LABELS[line.source],
+        priceFormat: { type: "price", precision: 2, minMove: 0.01 } as const,
+      });
+      series.setData(line.data);
+    }
+    chart.timeScale().fitContent();
+
+    const resizeObserver = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const { width } = entry.contentRect;
+        if (width > 0) chart.resize(width, 220);
+      }
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.remove();
+    };
+  }, [lines]);
+
+  const overall = performance?.overall;
+  const hasData = !!overall && overall.count > 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-sm">
+            <Target className="h-4 w-4" />
+            Decision Performance
+          </CardTitle>
+          {performance && (
+            <span className="text-xs text-muted-foreground">
+              {performance.horizonHours}h outcomes vs doing nothing · last {performance.days}d
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex h-[220px] items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !hasData ? (
+          <div className="flex h-[220px] flex-col items-center justify-center text-muted-foreground">
+            <Target className="mb-2 h-8 w-8 opacity-30" />
+            <p className="text-sm">No scored decisions yet</p>
+            <p className="text-xs opacity-60">
+              Executed actions are scored once they are {performance?.horizonHours ?? 24}h old
+            </p>
+          </div>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-[1fr_260px]">
+            <div ref={chartContainerRef} className="h-[220px] w-full" />
+            <div className="space-y-1">
+              <MetricRow
+                label="Hit rate"
+                value={`${formatConfidence(overall.hitRate ?? 0)} of ${overall.count}`}
+              />
+              <MetricRow
+                label="Avg edge"
+                value={
+                  <span className={cn((overall.avgEdgePct ?? 0) >= 0 ? "text-emerald-400" : "text-red-400")}>
+                    {formatSignedPct(overall.avgEdgePct ?? 0)}
+                  </span>
+                }
+              />
+              <MetricRow label="Total edge" value={formatSignedUsdc(overall.totalOutcomeUsdc)} />
+              <MetricRow
+                label={SOURCE_LABELS.llm}
+                value={formatStats(performance.bySource.llm)}
+                icon={<span className="h-2 w-2 rounded-full" style={{ background: SOURCE_COLORS.llm }} />}
+              />
+              <MetricRow
+                label={SOURCE_LABELS.rules}
+                value={formatStats(performance.bySource.rules)}
+                icon={<span className="h-2 w-2 rounded-full" style={{ background: SOURCE_COLORS.rules }} />}
+              />
+              <div className="pt-2 text-xs text-muted-foreground">Confidence calibration</div>
+              {performance.calibration
+                .filter((bucket) => bucket.count > 0)
+                .map((bucket) => (
+                  <MetricRow
+                    key={bucket.minConfidence}
+                    label={`${formatConfidence(bucket.minConfidence)}–${formatConfidence(bucket.maxConfidence)}`}
+                    value={`${formatConfidence(bucket.hitRate ?? 0)} hit (${bucket.count})`}
+                    className="py-0.5"
+                  />
+                ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
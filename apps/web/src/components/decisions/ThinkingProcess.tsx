@@ -7,6 +7,7 @@ import {
   TrendingUp,
   ArrowRightLeft,
   BarChart3,
+  ShieldAlert,
 } from "lucide-react";
 import type { ThinkingStep, ThinkingCategory } from "@/lib/types";
 import { Badge } from "@/components/ui/Badge";
@@ -45,6 +46,11 @@ const CATEGORY_CONFIG: Record<
     label: "Market",
     color: "text-cyan-400",
   },
+  risk: {
+    icon: ShieldAlert,
+    label: "Risk",
+    color: "text-red-400",
+  },
 };
 
 interface ThinkingProcessProps {
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Activity, DollarSign, Film } from "lucide-react";
+import { Activity, Clapperboard, DollarSign, Film, Trophy } from "lucide-react";
 import { ConnectWalletButton } from "@/components/wallet/ConnectWalletButton";
 import { useWallet } from "@/components/wallet/WalletProvider";
 import { usePortfolio } from "@/hooks/usePortfolio";
@@ -34,6 +34,20 @@ export function Header() {
               <Film className="h-3.5 w-3.5" />
               Videos
             </Link>
+            <Link
+              href="/leaderboard"
+              className="flex items-center gap-1 text-sm text-muted-foreground transition-colors hover:text-foreground"
+            >
+              <Trophy className="h-3.5 w-3.5" />
+              Leaderboard
+            </Link>
+            <Link
+              href="/creator"
+              className="flex items-center gap-1 text-sm text-muted-foreground transition-colors hover:text-foreground"
+            >
+              <Clapperboard className="h-3.5 w-3.5" />
+              Create
+            </Link>
           </nav>
         </div>
         <div className="flex items-center gap-3">
@@ -0,0 +1,81 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/Badge";
+import { formatSignedPct, formatUsdc } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { LeaderboardEntry } from "@/lib/types";
+import { navColor } from "./NavChart";
+
+interface LeaderboardTableProps {
+  entries: LeaderboardEntry[];
+}
+
+export function LeaderboardTable({ entries }: LeaderboardTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-xs text-muted-foreground">
+            <th className="py-2 pr-3 font-medium">#</th>
+            <th className="py-2 pr-3 font-medium">Agent</th>
+            <th className="py-2 pr-3 text-right font-medium">NAV</th>
+            <th className="py-2 pr-3 text-right font-medium">Return</th>
+            <th className="py-2 pr-3 text-right font-medium">Sharpe</th>
+            <th className="py-2 pr-3 text-right font-medium">Max drawdown</th>
+            <th className="py-2 pr-3 text-right font-medium">Loan debt</th>
+            <th className="py-2 text-right font-medium">Streaming</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry, index) => (
+            <tr key={entry.agentId} className="border-b border-border/50 last:border-0">
+              <td className="py-2.5 pr-3 text-muted-foreground">{entry.rank}</td>
+              <td className="py-2.5 pr-3">
+                <Link
+                  href={`/agents/${entry.agentId}`}
+                  className="flex items-center gap-2 font-medium hover:underline"
+                >
+                  <span className="h-2 w-2 rounded-full" style={{ background: navColor(index) }} />
+                  {entry.name}
+                  {entry.executionMode === "paper" && (
+                    <Badge variant="outline" className="px-1.5 py-0 text-[10px]">
+                      paper
+                    </Badge>
+                  )}
+                </Link>
+              </td>
+              <td className="py-2.5 pr-3 text-right font-medium">
+                {entry.latest ? formatUsdc(entry.latest.nav) : "--"}
+              </td>
+              <td
+                className={cn(
+                  "py-2.5 pr-3 text-right",
+                  entry.stats.returnPct === null
+                    ? "text-muted-foreground"
+                    : entry.stats.returnPct >= 0
+                      ? "text-emerald-400"
+                      : "text-red-400"
+                )}
+              >
+                {entry.stats.returnPct === null ? "--" : formatSignedPct(entry.stats.returnPct)}
+              </td>
+              <td className="py-2.5 pr-3 text-right">
+                {entry.stats.sharpe === null ? "--" : entry.stats.sharpe.toFixed(2)}
+              </td>
+              <td className="py-2.5 pr-3 text-right text-red-400">
+                {entry.stats.days > 0 ? `-${entry.stats.maxDrawdownPct.toFixed(1)}%` : "--"}
+              </td>
+              <td className="py-2.5 pr-3 text-right">
+                {entry.latest ? formatUsdc(entry.latest.loanDebt) : "--"}
+              </td>
+              <td className="py-2.5 text-right">
+                {entry.latest ? formatUsdc(entry.latest.streamingRevenue) : "--"}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
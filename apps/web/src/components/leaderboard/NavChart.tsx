@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { createChart, ColorType, LineSeries, type UTCTimestamp } from "lightweight-charts";
+import type { LeaderboardEntry } from "@/lib/types";
+
+/** Line colors by rank */
+export const NAV_COLORS = ["#8b5cf6", "#0ea5e9", "#10b981", "#f59e0b", "#ef4444", "#ec4899"];
+
+export function navColor(index: number): string {
+  return NAV_COLORS[index % NAV_COLORS.length];
+}
+
+interface NavChartProps {
+  entries: LeaderboardEntry[];
+  height?: number;
+}
+
+/**
+ * Daily NAV per agent in whole USDC
+ */
+export function NavChart({ entries, height = 320 }: NavChartProps) {
+  const chartContainerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = chartContainerRef.current;
+    if (!container || entries.every((e) => e.series.length === 0)) return;
+
+    const chart = createChart(container, {
+      width: container.clientWidth,
+      height,
+      layout: {
+        background: { type: ColorType.Solid, color: "transparent" },
+        textColor: "#9ca3af",
+        fontSize: 11,
+      },
+      grid: {
+        vertLines: { color: "rgba(255, 255, 255, 0.04)" },
+        horzLines: { color: "rgba(255, 255, 255, 0.04)" },
+      },
+      rightPriceScale: { borderColor: "rgba(255, 255, 255, 0.1)" },
+      timeScale: { borderColor: "rgba(255, 255, 255, 0.1)" },
+      handleScroll: { vertTouchDrag: false },
+    });
+
+    entries.forEach((entry, index) => {
+      if (entry.series.length === 0) return;
+      const series = chart.addSeries(LineSeries, {
+        color: navColor(index),
+        lineWidth: 2,
+        title: entry.name,
+        priceFormat: { type: "price", precision: 2, minMove: 0.01 } as const,
+      });
+      series.setData(
+        entry.series.map((point) => ({
+          time: (Date.parse(`${point.day}T00:00:00Z`) / 1000) as UTCTimestamp,
+          value: Number(point.nav) / 1e6,
+        }))
+      );
+    });
+    chart.timeScale().fitContent();
+
+    const resizeObserver = new ResizeObserver((observed) => {
+      for (const entry of observed) {
+        const { width } = entry.contentRect;
+        if (width > 0) chart.resize(width, height);
+      }
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.remove();
+    };
+  }, [entries, height]);
+
+  return <div ref={chartContainerRef} className="w-full" style={{ height }} />;
+}
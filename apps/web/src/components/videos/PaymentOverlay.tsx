@@ -1,11 +1,11 @@
 "use client";
 
-import { DollarSign, Zap, Clock, Film, Wallet, Lock, ShieldCheck } from "lucide-react";
+import { DollarSign, Zap, Clock, Film, Wallet, Lock, ShieldCheck, KeyRound } from "lucide-react";
 import { Badge } from "@/components/ui/Badge";
 import { Button } from "@/components/ui/Button";
-import type { ViewingSession, SessionStatus } from "@/lib/types";
+import type { GatePass, ViewingSession, SessionStatus, TokenGate } from "@/lib/types";
 import type { SessionState } from "@/hooks/useVideoSession";
-import { formatDuration } from "@/lib/format";
+import { formatDuration, formatTokenGate } from "@/lib/format";
 
 interface PaymentOverlayProps {
   session: ViewingSession | null;
@@ -15,6 +15,10 @@ interface PaymentOverlayProps {
   ephemeralAddress?: string | null;
   isStateChanelSession?: boolean;
   segmentsVerified?: number;
+  /** The video's token gate, if any */
+  tokenGate?: TokenGate | null;
+  /** Gate pass the session was opened with */
+  gatePass?: GatePass | null;
 }
 
 function truncateAddress(address: string): string {
@@ -29,10 +33,13 @@ export function PaymentOverlay({
   ephemeralAddress,
   isStateChanelSession,
   segmentsVerified,
+  tokenGate,
+  gatePass,
 }: PaymentOverlayProps) {
   if (!session) return null;
 
   const isYellow = session.type === "yellow";
+  const isGated = session.type === "gated";
 
   return (
     <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent px-4 pb-4 pt-8">
@@ -44,7 +51,9 @@ export function PaymentOverlay({
             className={
               isYellow
                 ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-400"
-                : "border-blue-500/30 bg-blue-500/10 text-blue-400"
+                : isGated
+                  ? "border-amber-500/30 bg-amber-500/10 text-amber-400"
+                  : "border-blue-500/30 bg-blue-500/10 text-blue-400"
             }
           >
             <Zap className="mr-1 h-3 w-3" />
@@ -52,9 +61,24 @@ export function PaymentOverlay({
               ? "State Channel"
               : isYellow
                 ? "Yellow Network"
-                : "Legacy Session"}
+                : isGated
+                  ? "Token Holder Access"
+                  : "Legacy Session"}
           </Badge>
 
+          {/* Token gate perk applied to this session */}
+          {gatePass && (
+            <Badge
+              variant="outline"
+              className="border-amber-500/30 bg-amber-500/10 text-amber-400"
+            >
+              <KeyRound className="mr-1 h-3 w-3" />
+              {gatePass.mode === "free"
+                ? "Free for holders"
+                : `Holder discount ${gatePass.discountBps / 100}%`}
+            </Badge>
+          )}
+
           {/* Ephemeral address (state channel only) */}
           {isStateChanelSession && ephemeralAddress && (
             <Badge
@@ -137,6 +161,7 @@ export function PaymentOverlay({
         <div className="mt-2 rounded-md border border-destructive/50 bg-destructive/10 px-3 py-2 text-sm text-destructive">
           Insufficient balance. Video is paused. Please close this session and
           start a new one with a higher deposit.
+          {tokenGate && !gatePass && ` ${formatTokenGate(tokenGate)}.`}
         </div>
       )}
     </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { Play, Clock, Film, User, ShieldCheck } from "lucide-react";
+import { Play, Clock, Film, User, ShieldCheck, KeyRound, Radio } from "lucide-react";
 import {
   Card,
   CardContent,
@@ -9,7 +9,7 @@ import {
   CardTitle,
 } from "@/components/ui/Card";
 import { Badge } from "@/components/ui/Badge";
-import { formatDuration } from "@/lib/format";
+import { formatDuration, formatTokenGate } from "@/lib/format";
 import { cn } from "@/lib/utils";
 import type { Video } from "@/lib/types";
 
@@ -19,6 +19,7 @@ interface VideoCardProps {
 
 const statusStyles: Record<string, string> = {
   ready: "bg-emerald-500/10 text-emerald-400 border-emerald-500/20",
+  live: "bg-red-500/10 text-red-400 border-red-500/20",
   processing: "bg-yellow-500/10 text-yellow-400 border-yellow-500/20",
   pending: "bg-blue-500/10 text-blue-400 border-blue-500/20",
   error: "bg-red-500/10 text-red-400 border-red-500/20",
@@ -34,13 +35,15 @@ function getCreatorName(agentId: string | null): string {
 
 export function VideoCard({ video }: VideoCardProps) {
   const isReady = video.status === "ready";
+  const isLive = video.status === "live";
+  const isWatchable = isReady || isLive;
   const creatorName = getCreatorName(video.agentId);
 
   const content = (
     <Card
       className={cn(
         "group transition-colors overflow-hidden",
-        isReady
+        isWatchable
           ? "cursor-pointer hover:border-primary/50"
           : "cursor-not-allowed opacity-60"
       )}
@@ -57,12 +60,17 @@ export function VideoCard({ video }: VideoCardProps) {
         ) : (
           <Film className="h-10 w-10 text-muted-foreground/50" />
         )}
-        {isReady && (
+        {isWatchable && (
           <div className="absolute inset-0 flex items-center justify-center bg-black/0 transition-colors group-hover:bg-black/30">
             <Play className="h-8 w-8 text-white opacity-0 transition-opacity group-hover:opacity-100" />
           </div>
         )}
-        {video.durationSeconds != null && (
+        {isLive ? (
+          <span className="absolute bottom-2 right-2 flex items-center gap-1 rounded bg-red-600 px-1.5 py-0.5 text-xs font-semibold text-white">
+            <Radio className="h-3 w-3" />
+            LIVE
+          </span>
+        ) : video.durationSeconds != null && (
           <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs font-medium text-white">
             {formatDuration(video.durationSeconds)}
           </span>
@@ -74,6 +82,18 @@ export function VideoCard({ video }: VideoCardProps) {
             {creatorName}
           </span>
         )}
+        {/* Token gate badge */}
+        {video.tokenGate && (
+          <span
+            className="absolute top-2 right-2 flex items-center gap-1 rounded bg-amber-500/80 px-1.5 py-0.5 text-[10px] font-medium text-black"
+            title={formatTokenGate(video.tokenGate)}
+          >
+            <KeyRound className="h-2.5 w-2.5" />
+            {video.tokenGate.mode === "free"
+              ? "Free for holders"
+              : `${(video.tokenGate.discountBps ?? 0) / 100}% off for holders`}
+          </span>
+        )}
       </div>
 
       <CardHeader className="pb-2 pt-3">
@@ -123,7 +143,7 @@ export function VideoCard({ video }: VideoCardProps) {
     </Card>
   );
 
-  if (!isReady) return content;
+  if (!isWatchable) return content;
 
   return <Link href={`/videos/${video.id}`}>{content}</Link>;
 }
@@ -2,13 +2,25 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 import Hls from "hls.js";
-import { Loader2, AlertCircle, Play, DollarSign, Clock, Film } from "lucide-react";
+import {
+  Loader2,
+  AlertCircle,
+  Play,
+  DollarSign,
+  Clock,
+  Film,
+  Gift,
+  KeyRound,
+} from "lucide-react";
 import { Button } from "@/components/ui/Button";
 import { Badge } from "@/components/ui/Badge";
 import { PaymentOverlay } from "./PaymentOverlay";
 import { ClosingOverlay } from "./ClosingOverlay";
 import { useVideoSession } from "@/hooks/useVideoSession";
 import { useWallet } from "@/components/wallet/WalletProvider";
+import { useVideoPricing } from "@/hooks/useVideoPricing";
+import { useTokenGatePass } from "@/hooks/useTokenGatePass";
+import { formatTokenGate } from "@/lib/format";
 import { config } from "@/lib/config";
 import type { VideoDetail, SessionCloseResult } from "@/lib/types";
 import type { SessionState } from "@/hooks/useVideoSession";
@@ -35,8 +47,11 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
     ephemeralAddress,
     settlementResult,
     segmentsVerified,
+    gatePass,
   } = useVideoSession();
   const { walletAddress, isConnected } = useWallet();
+  const { pricing } = useVideoPricing(video.id);
+  const { claim: claimGatePass, isClaiming, error: gateError } = useTokenGatePass(video.id);
   const [playerReady, setPlayerReady] = useState(false);
 
   // Store refs so HLS.js loader callbacks always see latest values
@@ -74,6 +89,8 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
     const hlsConfig: Record<string, any> = {
       maxBufferLength: 10,
       maxMaxBufferLength: 30,
+      // Adaptive bitrate: don't fetch renditions larger than the player
+      capLevelToPlayerSize: true,
     };
 
     if (isYellowCosign) {
@@ -82,6 +99,9 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
       // and returns the raw AES key from the /cosign endpoint.
       const videoId = video.id;
       const BaseLoader = Hls.DefaultConfig.loader as any;
+      // Renditions share keys per segment index — pay for each index once
+      // even when ABR switches bitrate mid-stream
+      const keyCache = new Map<number, Promise<ArrayBuffer>>();
 
       hlsConfig.loader = class CosignLoader extends BaseLoader {
         load(context: any, config: any, callbacks: any) {
@@ -89,8 +109,13 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
           const keyMatch = context.url?.match(/\/key\/(\d+)/);
           if (keyMatch && signAndRequestKeyRef.current) {
             const segmentIndex = parseInt(keyMatch[1], 10);
-            signAndRequestKeyRef
-              .current(videoId, segmentIndex)
+            let keyPromise = keyCache.get(segmentIndex);
+            if (!keyPromise) {
+              keyPromise = signAndRequestKeyRef.current(videoId, segmentIndex);
+              keyCache.set(segmentIndex, keyPromise);
+              keyPromise.catch(() => keyCache.delete(segmentIndex));
+            }
+            keyPromise
               .then((keyBuffer: ArrayBuffer) => {
                 callbacks.onSuccess(
                   { data: new Uint8Array(keyBuffer), url: context.url },
@@ -189,6 +214,19 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
     }
   }, [video.id, isConnected, walletAddress, startSession]);
 
+  // Token holders prove their holdings, then watch free or at a discount
+  const handleWatchAsHolder = useCallback(async () => {
+    const pass = await claimGatePass();
+    if (!pass) return;
+    if (pass.mode === "free") {
+      await startSession(video.id, undefined, undefined, pass);
+    } else if (isConnected && walletAddress) {
+      await startSession(video.id, walletAddress, "1.00", pass);
+    } else {
+      await startSession(video.id);
+    }
+  }, [video.id, isConnected, walletAddress, startSession, claimGatePass]);
+
   // Initialize player when session becomes active
   useEffect(() => {
     if (sessionState === "active" && session) {
@@ -235,11 +273,14 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
 
       {/* Pre-session state: show "Start Watching" button with pricing */}
       {sessionState === "idle" && (() => {
-        const pricePerSegment = parseFloat(config.yellowPricePerSegment);
+        const price = pricing?.pricePerSegment ?? config.yellowPricePerSegment;
+        const freeSegments = pricing?.freePreviewSegments ?? 0;
+        const pricePerSegment = parseFloat(price);
         const segmentsPerMinute = 60 / 5;
         const costPerMinute = (pricePerSegment * segmentsPerMinute).toFixed(2);
-        const totalCost = video.totalSegments
-          ? (video.totalSegments * pricePerSegment).toFixed(2)
+        // A live video's segment count keeps growing, so it has no total yet
+        const totalCost = video.status !== "live" && video.totalSegments
+          ? (Math.max(0, video.totalSegments - freeSegments) * pricePerSegment).toFixed(2)
           : null;
 
         return (
@@ -249,6 +290,26 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
               Start Watching
             </Button>
 
+            {video.tokenGate && (
+              <div className="flex flex-col items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleWatchAsHolder}
+                  disabled={isClaiming}
+                >
+                  {isClaiming ? (
+                    <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <KeyRound className="mr-1 h-3.5 w-3.5" />
+                  )}
+                  Watch as token holder
+                </Button>
+                <p className="text-xs text-amber-400">{formatTokenGate(video.tokenGate)}</p>
+                {gateError && <p className="text-xs text-destructive">{gateError}</p>}
+              </div>
+            )}
+
             <div className="flex flex-col items-center gap-2">
               <p className="text-xs text-muted-foreground">
                 {isConnected
@@ -263,8 +324,17 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
                     className="border-emerald-500/30 bg-emerald-500/10 text-emerald-400"
                   >
                     <DollarSign className="mr-1 h-3 w-3" />
-                    ${config.yellowPricePerSegment}/segment
+                    ${price}/segment
                   </Badge>
+                  {freeSegments > 0 && (
+                    <Badge
+                      variant="outline"
+                      className="border-sky-500/30 bg-sky-500/10 text-sky-400"
+                    >
+                      <Gift className="mr-1 h-3 w-3" />
+                      First {freeSegments} segments free
+                    </Badge>
+                  )}
                   <Badge
                     variant="outline"
                     className="border-zinc-500/30 text-zinc-400"
@@ -339,6 +409,8 @@ export function VideoPlayer({ video, onSessionStateChange }: VideoPlayerProps) {
           ephemeralAddress={ephemeralAddress}
           isStateChanelSession={isYellowCosign}
           segmentsVerified={segmentsVerified}
+          tokenGate={video.tokenGate}
+          gatePass={gatePass}
         />
       )}
     </div>
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchAgentPerformance } from "@/lib/api";
+import type { AgentPerformance } from "@/lib/types";
+
+export function useAgentPerformance(
+  agentId: string,
+  days = 30,
+  refreshInterval = 60000
+) {
+  const [performance, setPerformance] = useState<AgentPerformance | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const data = await fetchAgentPerformance(agentId, days);
+        if (mounted) {
+          setPerformance(data);
+          setError(null);
+        }
+      } catch (e) {
+        if (mounted)
+          setError(e instanceof Error ? e.message : "Failed to load performance");
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, refreshInterval);
+    return () => {
+      mounted = false;
+      clearInterval(interval);
+    };
+  }, [agentId, days, refreshInterval]);
+
+  return { performance, isLoading, error };
+}
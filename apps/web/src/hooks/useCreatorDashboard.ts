@@ -0,0 +1,39 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchCreatorDashboard } from "@/lib/api";
+import type { CreatorDashboard } from "@/lib/types";
+
+export function useCreatorDashboard(token: string | null, refreshInterval = 30000) {
+  const [dashboard, setDashboard] = useState<CreatorDashboard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!token) return;
+    try {
+      const data = await fetchCreatorDashboard(token);
+      setDashboard(data);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to load dashboard");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) {
+      setDashboard(null);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    load();
+    const interval = setInterval(load, refreshInterval);
+    return () => clearInterval(interval);
+  }, [token, load, refreshInterval]);
+
+  return { dashboard, isLoading, error, refetch: load };
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { createWalletClient, custom } from "viem";
+import { createSiweMessage } from "viem/siwe";
+import { fetchCreatorMe, fetchSiweNonce, logoutCreator, verifySiwe } from "@/lib/api";
+import { injectedProvider } from "@/lib/injected-wallet";
+import type { Creator } from "@/lib/types";
+
+const STORAGE_KEY = "versus_creator_session";
+
+type CreatorSessionStatus = "loading" | "signed_out" | "signing_in" | "signed_in";
+
+/**
+ * Creator sign-in with Ethereum. Creators sign an EIP-4361 message with an
+ * injected wallet; the server session token is kept in localStorage and
+ * sent as a bearer token on creator requests.
+ */
+export function useCreatorSession() {
+  const [status, setStatus] = useState<CreatorSessionStatus>("loading");
+  const [token, setToken] = useState<string | null>(null);
+  const [creator, setCreator] = useState<Creator | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const clear = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setToken(null);
+    setCreator(null);
+    setStatus("signed_out");
+  }, []);
+
+  // Restore and revalidate a stored session on mount
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      setStatus("signed_out");
+      return;
+    }
+
+    let mounted = true;
+    fetchCreatorMe(stored)
+      .then((me) => {
+        if (!mounted) return;
+        setToken(stored);
+        setCreator(me);
+        setStatus("signed_in");
+      })
+      .catch(() => {
+        if (mounted) clear();
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [clear]);
+
+  const signIn = useCallback(async () => {
+    const provider = injectedProvider();
+    if (!provider) {
+      setError("No browser wallet found. Install MetaMask or another Ethereum wallet.");
+      return;
+    }
+
+    setStatus("signing_in");
+    setError(null);
+    try {
+      const wallet = createWalletClient({ transport: custom(provider) });
+      const [address] = await wallet.requestAddresses();
+      const chainId = await wallet.getChainId();
+      const { nonce, domain, expiresAt } = await fetchSiweNonce();
+
+      const message = createSiweMessage({
+        address,
+        chainId,
+        domain,
+        nonce,
+        uri: window.location.origin,
+        version: "1",
+        statement: "Sign in to versus as a creator.",
+        issuedAt: new Date(),
+        expirationTime: new Date(expiresAt),
+      });
+      const signature = await wallet.signMessage({ account: address, message });
+      const session = await verifySiwe(message, signature);
+
+      localStorage.setItem(STORAGE_KEY, session.token);
+      setToken(session.token);
+      setCreator(session.creator);
+      setStatus("signed_in");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Sign-in failed");
+      setStatus("signed_out");
+    }
+  }, []);
+
+  const signOut = useCallback(async () => {
+    if (token) {
+      await logoutCreator(token).catch(() => {});
+    }
+    clear();
+  }, [token, clear]);
+
+  return { status, token, creator, error, signIn, signOut, setCreator };
+}
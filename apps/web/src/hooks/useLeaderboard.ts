@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchLeaderboard } from "@/lib/api";
+import type { Leaderboard } from "@/lib/types";
+
+export function useLeaderboard(days = 30, refreshInterval = 60000) {
+  const [leaderboard, setLeaderboard] = useState<Leaderboard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const load = async () => {
+      try {
+        const data = await fetchLeaderboard(days);
+        if (mounted) {
+          setLeaderboard(data);
+          setError(null);
+        }
+      } catch (e) {
+        if (mounted)
+          setError(e instanceof Error ? e.message : "Failed to load leaderboard");
+      } finally {
+        if (mounted) setIsLoading(false);
+      }
+    };
+
+    load();
+    const interval = setInterval(load, refreshInterval);
+    return () => {
+      mounted = false;
+      clearInterval(interval);
+    };
+  }, [days, refreshInterval]);
+
+  return { leaderboard, isLoading, error };
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { createWalletClient, custom } from "viem";
+import { redeemGatePass, requestGateChallenge } from "@/lib/api";
+import { injectedProvider } from "@/lib/injected-wallet";
+import type { GatePass } from "@/lib/types";
+
+/**
+ * Claim holder access to a token-gated video: the wallet holding the
+ * creator token signs a server challenge with an injected wallet, and the
+ * server returns a gate pass if the balance clears the video's gate.
+ */
+export function useTokenGatePass(videoId: string) {
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const claim = useCallback(async (): Promise<GatePass | null> => {
+    const provider = injectedProvider();
+    if (!provider) {
+      setError("No browser wallet found. Connect the wallet holding the creator token.");
+      return null;
+    }
+
+    setIsClaiming(true);
+    setError(null);
+    try {
+      const wallet = createWalletClient({ transport: custom(provider) });
+      const [address] = await wallet.requestAddresses();
+      const { message, nonce } = await requestGateChallenge(videoId, address);
+      const signature = await wallet.signMessage({ account: address, message });
+      return await redeemGatePass(videoId, address, nonce, signature);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not verify token holdings");
+      return null;
+    } finally {
+      setIsClaiming(false);
+    }
+  }, [videoId]);
+
+  return { claim, isClaiming, error };
+}
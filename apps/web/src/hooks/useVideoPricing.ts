@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchVideoPricing } from "@/lib/api";
+import type { VideoPricingQuote } from "@/lib/types";
+
+export function useVideoPricing(videoId: string | null, holder?: string | null) {
+  const [pricing, setPricing] = useState<VideoPricingQuote | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!videoId) {
+      setPricing(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchVideoPricing(videoId, holder)
+      .then((data) => {
+        if (cancelled) return;
+        setPricing(data);
+        setError(null);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setError(e instanceof Error ? e.message : "Failed to load pricing");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, holder]);
+
+  return { pricing, error };
+}
@@ -7,7 +7,12 @@ import {
   fetchSessionStatus,
 } from "@/lib/api";
 import { config } from "@/lib/config";
-import type { ViewingSession, SessionStatus, SessionCloseResult } from "@/lib/types";
+import type {
+  GatePass,
+  ViewingSession,
+  SessionStatus,
+  SessionCloseResult,
+} from "@/lib/types";
 import { useYellowSession } from "./useYellowSession";
 
 export type SessionState =
@@ -31,7 +36,8 @@ interface UseVideoSessionReturn {
   startSession: (
     videoId: string,
     viewerAddress?: string,
-    depositAmount?: string
+    depositAmount?: string,
+    gatePass?: GatePass | null
   ) => Promise<void>;
   endSession: () => Promise<void>;
   markInsufficientBalance: () => void;
@@ -47,6 +53,8 @@ interface UseVideoSessionReturn {
   settlementResult: SessionCloseResult | null;
   /** Number of segments with verified merkle proofs */
   segmentsVerified: number;
+  /** Token gate pass the current session was opened with */
+  gatePass: GatePass | null;
 }
 
 export function useVideoSession(): UseVideoSessionReturn {
@@ -57,6 +65,7 @@ export function useVideoSession(): UseVideoSessionReturn {
   );
   const [error, setError] = useState<string | null>(null);
   const [isYellowCosign, setIsYellowCosign] = useState(false);
+  const [gatePass, setGatePass] = useState<GatePass | null>(null);
   const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const sessionRef = useRef<ViewingSession | null>(null);
   const isYellowCosignRef = useRef(false);
@@ -189,6 +198,9 @@ export function useVideoSession(): UseVideoSessionReturn {
     if (session.type === "yellow") {
       return { name: "X-Yellow-Session", value: session.appSessionId };
     }
+    if (session.type === "gated") {
+      return { name: "X-Gate-Pass", value: session.passToken };
+    }
     return { name: "Authorization", value: `Bearer ${session.sessionId}` };
   }, [session]);
 
@@ -196,14 +208,28 @@ export function useVideoSession(): UseVideoSessionReturn {
     async (
       videoId: string,
       viewerAddress?: string,
-      depositAmount?: string
+      depositAmount?: string,
+      pass?: GatePass | null
     ) => {
       setError(null);
+      setGatePass(pass ?? null);
+
+      if (pass?.mode === "free") {
+        // ─── Token holder path: keys are free with the gate pass ───
+        setSession({
+          type: "gated",
+          passToken: pass.passToken,
+          videoId,
+          expiresAt: pass.expiresAt,
+        });
+        setSessionState("active");
+        return;
+      }
 
       if (viewerAddress && depositAmount) {
-        // ─── Yellow co-sign path ───
+        // ─── Yellow co-sign path (discount passes lower the price) ───
         setIsYellowCosign(true);
-        await yellow.startYellowSession(videoId, depositAmount);
+        await yellow.startYellowSession(videoId, depositAmount, pass?.passToken);
         return;
       }
 
@@ -278,5 +304,6 @@ export function useVideoSession(): UseVideoSessionReturn {
     ephemeralAddress: yellow.state.ephemeralAddress,
     settlementResult: yellow.settlementResult,
     segmentsVerified: yellow.state.segmentsVerified,
+    gatePass,
   };
 }
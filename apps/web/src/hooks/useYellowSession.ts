@@ -36,6 +36,8 @@ export interface YellowSessionState {
   version: number;
   ephemeralAddress: string | null;
   pricePerSegment: string;
+  /** Segments below this index are unlocked without payment */
+  freePreviewSegments: number;
   totalDeposited: string;
   closeStateHash: string | null;
   channelId: string | null;
@@ -52,6 +54,7 @@ const initialState: YellowSessionState = {
   version: 0,
   ephemeralAddress: null,
   pricePerSegment: config.yellowPricePerSegment,
+  freePreviewSegments: 0,
   totalDeposited: "0",
   closeStateHash: null,
   channelId: null,
@@ -78,9 +81,10 @@ export function useYellowSession() {
 
   /**
    * Connect to ClearNode, authenticate, and create a streaming session.
+   * A discount-mode gate pass lowers the session's price.
    */
   const startYellowSession = useCallback(
-    async (videoId: string, depositAmount: string) => {
+    async (videoId: string, depositAmount: string, gatePass?: string) => {
       setStatus("connecting");
       setError(null);
 
@@ -102,6 +106,7 @@ export function useYellowSession() {
             body: JSON.stringify({
               viewerAddress: client.ephemeralAddress,
               depositAmount,
+              gatePass,
             }),
           }
         );
@@ -123,6 +128,7 @@ export function useYellowSession() {
           version: 0,
           ephemeralAddress: client.ephemeralAddress,
           pricePerSegment: data.pricePerSegment || config.yellowPricePerSegment,
+          freePreviewSegments: data.freePreviewSegments ?? 0,
           totalDeposited: data.totalDeposited || depositAmount,
           closeStateHash: null,
           channelId: null,
@@ -197,7 +203,8 @@ export function useYellowSession() {
           throw new Error("No active Yellow session");
         }
 
-        const price = parseFloat(current.pricePerSegment);
+        const price =
+          segmentIndex < current.freePreviewSegments ? 0 : parseFloat(current.pricePerSegment);
         const currentBalance = parseFloat(current.viewerBalance);
 
         if (currentBalance < price) {
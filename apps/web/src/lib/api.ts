@@ -4,19 +4,32 @@ import type {
   AgentDetail,
   AgentEarnings,
   AgentLiveState,
+  AgentPerformance,
   CandleData,
+  Creator,
+  CreatorDashboard,
+  CreatorSignIn,
+  GateChallenge,
+  GatePass,
   DecisionLog,
   HealthResponse,
+  LendingEventData,
+  LendingEventKind,
+  Leaderboard,
+  RevenueHistory,
   TokenPrice,
   TradeData,
   TradeQuote,
   Portfolio,
   Video,
   VideoDetail,
+  VideoPricingQuote,
   VideoScheduleStatus,
   ViewingSession,
   SessionStatus,
   SessionCloseResult,
+  SiweNonce,
+  VideoRegistryEventData,
 } from "./types";
 
 async function fetchJson<T>(path: string, options?: RequestInit): Promise<T> {
@@ -139,6 +152,45 @@ export async function fetchVideo(id: string): Promise<VideoDetail> {
   return data.video;
 }
 
+/**
+ * Current price per segment for a video; pass a wallet to see its holder discount
+ */
+export async function fetchVideoPricing(
+  videoId: string,
+  holder?: string | null
+): Promise<VideoPricingQuote> {
+  const query = holder ? `?holder=${holder}` : "";
+  return fetchJson<VideoPricingQuote>(`/api/videos/${videoId}/pricing${query}`);
+}
+
+/**
+ * Challenge for a creator token holder to sign on a token-gated video
+ */
+export async function requestGateChallenge(
+  videoId: string,
+  address: string
+): Promise<GateChallenge> {
+  return fetchJson<GateChallenge>(`/api/videos/${videoId}/gate/challenge`, {
+    method: "POST",
+    body: JSON.stringify({ address }),
+  });
+}
+
+/**
+ * Redeem a signed gate challenge for a gate pass
+ */
+export async function redeemGatePass(
+  videoId: string,
+  address: string,
+  nonce: string,
+  signature: string
+): Promise<GatePass> {
+  return fetchJson<GatePass>(`/api/videos/${videoId}/gate/verify`, {
+    method: "POST",
+    body: JSON.stringify({ address, nonce, signature }),
+  });
+}
+
 /**
  * Create a viewing session. Attempts Yellow path if wallet address and
  * deposit are provided, otherwise falls back to legacy bearer token.
@@ -154,6 +206,7 @@ export async function createViewingSession(
       videoId: string;
       serverAddress: string;
       pricePerSegment: string;
+      freePreviewSegments: number;
       viewerBalance: string;
       totalDeposited: string;
       asset: string;
@@ -194,6 +247,75 @@ export async function closeSession(
   );
 }
 
+// ── Creator APIs ────────────────────────────────
+
+function creatorAuth(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+/** Send a request with no response body (204) */
+async function sendNoContent(path: string, options: RequestInit): Promise<void> {
+  const res = await fetch(`${config.apiBaseUrl}${path}`, options);
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new Error(`API ${res.status}: ${body || res.statusText}`);
+  }
+}
+
+export async function fetchSiweNonce(): Promise<SiweNonce> {
+  return fetchJson<SiweNonce>("/api/creators/auth/nonce");
+}
+
+export async function verifySiwe(
+  message: string,
+  signature: string
+): Promise<CreatorSignIn> {
+  return fetchJson<CreatorSignIn>("/api/creators/auth/verify", {
+    method: "POST",
+    body: JSON.stringify({ message, signature }),
+  });
+}
+
+export async function logoutCreator(token: string): Promise<void> {
+  await sendNoContent("/api/creators/auth/logout", {
+    method: "POST",
+    headers: creatorAuth(token),
+  });
+}
+
+export async function fetchCreatorMe(token: string): Promise<Creator> {
+  const data = await fetchJson<{ creator: Creator }>("/api/creators/me", {
+    headers: creatorAuth(token),
+  });
+  return data.creator;
+}
+
+export async function fetchCreatorDashboard(token: string): Promise<CreatorDashboard> {
+  return fetchJson<CreatorDashboard>("/api/creators/me/dashboard", {
+    headers: creatorAuth(token),
+  });
+}
+
+export async function deployCreatorToken(
+  token: string,
+  tokenName: string,
+  tokenSymbol: string
+): Promise<Creator> {
+  const data = await fetchJson<{ creator: Creator }>("/api/creators/me/token", {
+    method: "POST",
+    headers: creatorAuth(token),
+    body: JSON.stringify({ tokenName, tokenSymbol }),
+  });
+  return data.creator;
+}
+
+export async function deleteVideo(token: string, videoId: string): Promise<void> {
+  await sendNoContent(`/api/videos/${videoId}`, {
+    method: "DELETE",
+    headers: creatorAuth(token),
+  });
+}
+
 // ── Trading Chart APIs ─────────────────────────
 
 export async function fetchTradeHistory(
@@ -217,6 +339,39 @@ export async function fetchChartCandles(
   return data.candles;
 }
 
+// ── On-chain History APIs ────────────────────
+
+export async function fetchRevenueHistory(
+  tokenAddress: string,
+  limit = 50
+): Promise<RevenueHistory> {
+  return fetchJson<RevenueHistory>(
+    `/api/trading/revenue/${tokenAddress}?limit=${limit}`
+  );
+}
+
+export async function fetchLendingEvents(
+  options: { borrower?: string; kind?: LendingEventKind; limit?: number } = {}
+): Promise<LendingEventData[]> {
+  const params = new URLSearchParams({ limit: String(options.limit ?? 50) });
+  if (options.borrower) params.set("borrower", options.borrower);
+  if (options.kind) params.set("kind", options.kind);
+  const data = await fetchJson<{ events: LendingEventData[] }>(
+    `/api/lending/events?${params}`
+  );
+  return data.events;
+}
+
+export async function fetchVideoOnchainEvents(
+  videoId: string,
+  limit = 50
+): Promise<VideoRegistryEventData[]> {
+  const data = await fetchJson<{ events: VideoRegistryEventData[] }>(
+    `/api/videos/${videoId}/onchain-events?limit=${limit}`
+  );
+  return data.events;
+}
+
 // ── Agent Detail APIs ────────────────────────
 
 export async function fetchAgentVideos(agentId: string): Promise<Video[]> {
@@ -238,6 +393,17 @@ export async function fetchAgentEarnings(
   return fetchJson<AgentEarnings>(`/api/agents/${agentId}/earnings`);
 }
 
+export async function fetchAgentPerformance(
+  agentId: string,
+  days = 30
+): Promise<AgentPerformance> {
+  return fetchJson<AgentPerformance>(`/api/agents/${agentId}/performance?days=${days}`);
+}
+
+export async function fetchLeaderboard(days = 30): Promise<Leaderboard> {
+  return fetchJson<Leaderboard>(`/api/leaderboard?days=${days}`);
+}
+
 export async function fetchAgentSchedule(
   agentId: string
 ): Promise<VideoScheduleStatus> {
@@ -1,3 +1,5 @@
+import type { TokenGate } from "./types";
+
 /**
  * Format a USDC balance string (6 decimals) to display value.
  * e.g. "1234560000" → "$1,234.56"
@@ -39,6 +41,17 @@ export function formatTokenSupply(value: string): string {
   return num.toFixed(2);
 }
 
+/**
+ * Describe a video's token gate.
+ * e.g. { minBalance: "100000000000000000000", mode: "free" } → "Holders of 100.00+ tokens watch free"
+ */
+export function formatTokenGate(gate: TokenGate): string {
+  const perk =
+    gate.mode === "free" ? "watch free" : `get ${(gate.discountBps ?? 0) / 100}% off`;
+  if (gate.minBalance === "0") return `Token holders ${perk}`;
+  return `Holders of ${formatTokenSupply(gate.minBalance)}+ tokens ${perk}`;
+}
+
 /**
  * Format health factor: 1.85 → "1.85"
  */
@@ -60,6 +73,38 @@ export function formatConfidence(value: number): string {
   return `${Math.round(value * 100)}%`;
 }
 
+/**
+ * Format a signed USDC amount string (6 decimals): "-1500000" → "-$1.50"
+ */
+export function formatSignedUsdc(value: string): string {
+  const negative = value.startsWith("-");
+  const formatted = formatUsdc(negative ? value.slice(1) : value);
+  return negative && formatted !== "$0.00" ? `-${formatted}` : `+${formatted}`;
+}
+
+/**
+ * Format a signed percentage: 4.25 → "+4.3%"
+ */
+export function formatSignedPct(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+/**
+ * Format an estimated USD cost: 0.01234 → "$0.0123"
+ */
+export function formatCostUsd(value: number): string {
+  return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
+/**
+ * Format a token count: 125400 → "125.4K"
+ */
+export function formatTokenCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+  return `${value}`;
+}
+
 /**
  * Format a timestamp to relative time ago string.
  */
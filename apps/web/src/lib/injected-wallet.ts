@@ -0,0 +1,6 @@
+import type { EIP1193Provider } from "viem";
+
+/** Injected browser wallet (MetaMask, Rabby, Coinbase Wallet, ...) */
+export function injectedProvider(): EIP1193Provider | null {
+  return (window as Window & { ethereum?: EIP1193Provider }).ethereum ?? null;
+}
@@ -2,7 +2,8 @@
 // Agent Types (mirrors server shapes)
 // ============================================
 
-export type StrategyType = "academic" | "degen";
+/** Built-in strategies plus any id registered on the server */
+export type StrategyType = "academic" | "degen" | (string & {});
 
 export interface AgentRuntimeStatus {
   agentId: string;
@@ -31,6 +32,8 @@ export interface AgentDetail extends Agent {
     speculationBudget: number;
   };
   latestDecision: DecisionLog | null;
+  /** LLM calls, tokens and cost over the last 24h */
+  llmUsage?: LlmUsageSummary | null;
 }
 
 // ============================================
@@ -100,7 +103,8 @@ export type ThinkingCategory =
   | "lending"
   | "revenue"
   | "trading"
-  | "market";
+  | "market"
+  | "risk";
 
 export interface ThinkingStep {
   category: ThinkingCategory;
@@ -134,9 +138,100 @@ export interface DecisionLog {
   stateSnapshot: AgentStateSnapshot;
   thinking: ThinkingStep[];
   actions: Action[];
+  source?: DecisionSource;
   createdAt: string;
 }
 
+// ============================================
+// Performance Types
+// ============================================
+
+export type DecisionSource = "llm" | "rules";
+
+export interface PerformanceStats {
+  count: number;
+  hits: number;
+  hitRate: number | null;
+  avgEdgePct: number | null;
+  totalOutcomeUsdc: string; // BigInt string (6 decimals)
+}
+
+export interface CalibrationBucket {
+  minConfidence: number;
+  maxConfidence: number;
+  count: number;
+  avgConfidence: number | null;
+  hitRate: number | null;
+}
+
+export interface PerformancePoint {
+  decisionLogId: number;
+  decidedAt: number;
+  actionType: string;
+  source: DecisionSource;
+  confidence: number;
+  edgePct: number;
+  hit: boolean;
+  cumulativeOutcomeUsdc: string;
+}
+
+export interface AgentPerformance {
+  agentId: string;
+  days: number;
+  horizonHours: number;
+  overall: PerformanceStats;
+  bySource: Record<DecisionSource, PerformanceStats>;
+  byActionType: Record<string, PerformanceStats>;
+  calibration: CalibrationBucket[];
+  brierScore: number | null;
+  series: PerformancePoint[];
+}
+
+// ============================================
+// Leaderboard Types
+// ============================================
+
+/** One agent's NAV for a UTC day; amounts are USDC (6 decimals) */
+export interface NavSnapshot {
+  day: string;
+  timestamp: number;
+  usdcBalance: string;
+  holdingsValue: string;
+  collateralValue: string;
+  ownTokenValue: string;
+  pendingRevenue: string;
+  loanDebt: string;
+  nav: string;
+  realizedPnl: string;
+  unrealizedPnl: string;
+  streamingRevenue: string;
+}
+
+export interface NavStats {
+  days: number;
+  startNav: string | null;
+  endNav: string | null;
+  returnPct: number | null;
+  sharpe: number | null;
+  maxDrawdownPct: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  agentId: string;
+  name: string;
+  executionMode: "live" | "paper";
+  latest: NavSnapshot | null;
+  stats: NavStats;
+  series: { day: string; nav: string }[];
+}
+
+export interface Leaderboard {
+  days: number;
+  since: string;
+  entries: LeaderboardEntry[];
+}
+
 // ============================================
 // Health Types
 // ============================================
@@ -148,12 +243,31 @@ export interface IntegrationStatus {
   error?: string;
 }
 
+export interface LlmUsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface LlmUsageSummary extends LlmUsageTotals {
+  since: string;
+  byProvider: (LlmUsageTotals & { provider: string; model: string })[];
+}
+
 export interface HealthResponse {
   status: "healthy" | "degraded" | "unhealthy";
   timestamp: string;
   uptime: number;
   integrations: IntegrationStatus[];
   agents: { total: number; running: number };
+  llm?: {
+    trading: { providers: string[]; configured: boolean };
+    ideation: { providers: string[]; configured: boolean };
+    usage: LlmUsageSummary | null;
+  };
 }
 
 // ============================================
@@ -203,13 +317,17 @@ export interface Video {
   id: string;
   title: string;
   description: string | null;
-  status: "pending" | "processing" | "ready" | "error";
+  status: "pending" | "processing" | "live" | "ready" | "failed" | "error";
+  /** Recorded from a live stream (status is "live" while broadcasting) */
+  isLive?: boolean;
   durationSeconds: number | null;
   totalSegments: number | null;
   quality: string | null;
   contentUri: string | null;
   thumbnailUri: string | null;
   agentId: string | null;
+  creatorId?: string | null;
+  tokenGate?: TokenGate | null;
   createdAt: number;
   processedAt: number | null;
 }
@@ -222,6 +340,117 @@ export interface VideoDetail extends Video {
   creatorTokenAddress: string | null;
 }
 
+// ============================================
+// Creator Types
+// ============================================
+
+/** A human creator, signed in with Ethereum */
+export interface Creator {
+  id: string;
+  address: string;
+  displayName: string | null;
+  tokenName: string | null;
+  tokenSymbol: string | null;
+  /** Deployed via CreatorFactory on request (null until then) */
+  tokenAddress: string | null;
+  bondingCurveAddress: string | null;
+  createdAt: string;
+}
+
+/** Response from GET /api/creators/auth/nonce */
+export interface SiweNonce {
+  nonce: string;
+  expiresAt: string;
+  /** Domain the sign-in message must be issued for */
+  domain: string;
+}
+
+/** Response from POST /api/creators/auth/verify */
+export interface CreatorSignIn {
+  token: string;
+  expiresAt: string;
+  creator: Creator;
+}
+
+/** Creator share of streaming revenue; amounts are decimal USDC ("0.050000") */
+export interface CreatorEarnings {
+  total: string;
+  settled: string;
+  unsettled: string;
+  sessions: number;
+  paidSessions: number;
+  segmentsDelivered: number;
+}
+
+export interface CreatorDashboardVideo {
+  id: string;
+  title: string;
+  status: Video["status"];
+  durationSeconds: number | null;
+  contentUri: string | null;
+  thumbnailUri: string | null;
+  createdAt: string;
+  earnings: CreatorEarnings;
+}
+
+export interface CreatorDashboardSession {
+  id: string;
+  videoId: string;
+  viewerAddress: string;
+  status: "active" | "closed" | "settled";
+  segmentsDelivered: number;
+  /** Creator share of the session's payments (decimal USDC) */
+  earned: string;
+  createdAt: string;
+}
+
+/** Response from GET /api/creators/me/dashboard */
+export interface CreatorDashboard {
+  creator: Creator;
+  earnings: CreatorEarnings;
+  videos: CreatorDashboardVideo[];
+  sessions: CreatorDashboardSession[];
+}
+
+/** Per-video token gate: holders of the creator token watch free or discounted */
+export interface TokenGate {
+  /** Minimum creator token balance (base units, 18 decimals) */
+  minBalance: string;
+  mode: "free" | "discount";
+  discountBps: number | null;
+}
+
+/** Response from POST /api/videos/:videoId/gate/challenge */
+export interface GateChallenge {
+  message: string;
+  nonce: string;
+  expiresAt: string;
+}
+
+/** Response from POST /api/videos/:videoId/gate/verify */
+export interface GatePass {
+  passToken: string;
+  videoId: string;
+  mode: "free" | "discount";
+  discountBps: number;
+  expiresAt: string;
+}
+
+/** Response from GET /api/videos/:id/pricing */
+export interface VideoPricingQuote {
+  videoId: string;
+  basePrice: string;
+  pricePerSegment: string;
+  freePreviewSegments: number;
+  adjustments: {
+    kind: "time_of_day" | "demand" | "holder_discount" | "token_gate";
+    multiplierBps: number;
+  }[];
+  tokenGate: TokenGate | null;
+  creatorTokenAddress: string | null;
+  asset: string;
+}
+
 /** Response from POST /api/videos/:videoId/session (legacy path) */
 export interface LegacySession {
   type: "legacy";
@@ -237,6 +466,7 @@ export interface YellowSession {
   videoId: string;
   serverAddress: string;
   pricePerSegment: string;
+  freePreviewSegments?: number;
   viewerBalance: string;
   totalDeposited: string;
   asset: string;
@@ -245,7 +475,15 @@ export interface YellowSession {
   custodyDepositTxHash?: string | null;
 }
 
-export type ViewingSession = LegacySession | YellowSession;
+/** Free access for a token holder (gate pass sent as X-Gate-Pass) */
+export interface GatedSession {
+  type: "gated";
+  passToken: string;
+  videoId: string;
+  expiresAt: string;
+}
+
+export type ViewingSession = LegacySession | YellowSession | GatedSession;
 
 /** Response from GET /api/videos/:videoId/session/:sessionId/status */
 export interface SessionStatus {
@@ -301,10 +539,59 @@ export interface TradeData {
   tokenAmount: string;
   price: string;
   txHash: string | null;
+  logIndex: number | null;
   blockNumber: number | null;
   timestamp: number;
 }
 
+/** Indexed on-chain event position (block time in Unix ms) */
+interface OnchainEventPosition {
+  id: number;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface RevenueEventData extends OnchainEventPosition {
+  tokenAddress: string;
+  bondingCurveAddress: string;
+  kind: "added" | "claimed";
+  user: string | null;
+  amount: string;
+  revenuePerToken: string | null;
+}
+
+export interface RevenueHistory {
+  events: RevenueEventData[];
+  totals: { added: string; claimed: string };
+}
+
+export type LendingEventKind = "deposit" | "withdraw" | "borrow" | "repay" | "liquidation";
+
+export interface LendingEventData extends OnchainEventPosition {
+  poolAddress: string;
+  kind: LendingEventKind;
+  borrower: string;
+  token: string | null;
+  amount: string;
+  liquidator: string | null;
+  collateralSeized: string | null;
+}
+
+export interface VideoRegistryEventData extends OnchainEventPosition {
+  registryAddress: string;
+  kind: "registered" | "settlement";
+  videoIdHash: string;
+  creator: string | null;
+  merkleRoot: string | null;
+  totalSegments: number | null;
+  viewer: string | null;
+  segmentsWatched: number | null;
+  totalPaid: string | null;
+  yellowSessionId: string | null;
+}
+
 export interface CandleData {
   time: number; // Unix seconds (lightweight-charts format)
   open: number;
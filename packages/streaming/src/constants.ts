@@ -22,3 +22,13 @@ export const AES_IV_LENGTH = 16;
 
 /** Master secret length in bytes (256 bits) */
 export const MASTER_SECRET_LENGTH = 32;
+
+/** USDC decimals (1 USDC = 1_000_000 base units) */
+export const USDC_DECIMALS = 6;
+
+/** Session revenue split in basis points: 70% creator, 20% token holders, 10% protocol */
+export const REVENUE_SPLIT_BPS = {
+  creator: 7000n,
+  tokenHolders: 2000n,
+  protocol: 1000n,
+} as const;
@@ -57,3 +57,14 @@ export class VideoNotFoundError extends StreamingError {
     this.name = "VideoNotFoundError";
   }
 }
+
+/** Malformed or out-of-range USDC amount */
+export class InvalidAmountError extends StreamingError {
+  constructor(value: string, reason: string) {
+    super(`Invalid USDC amount "${value}": ${reason}`, "INVALID_AMOUNT", {
+      value,
+      reason,
+    });
+    this.name = "InvalidAmountError";
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * @versus/streaming
- * Cryptographic operations and types for video streaming protocol
+ * Cryptographic operations, payment amounts and types for video streaming protocol
  */
 
 export * from "./crypto/keys";
@@ -8,6 +8,7 @@ export * from "./crypto/aes";
 export * from "./crypto/merkle";
 export * from "./crypto/hash";
 export * from "./crypto/random";
+export * from "./money/usdc";
 export * from "./constants";
 export * from "./types";
 export * from "./errors";
@@ -0,0 +1,106 @@
+/**
+ * Fixed-point USDC amounts
+ *
+ * Session balances travel as decimal strings ("0.050000") on the wire and in
+ * the database. Arithmetic on them goes through UsdcAmount — integer base
+ * units (6 decimals) — so deductions and revenue splits are exact.
+ */
+
+import { InvalidAmountError } from "../errors";
+import { REVENUE_SPLIT_BPS, USDC_DECIMALS } from "../constants";
+
+declare const usdcBrand: unique symbol;
+
+/** USDC amount in base units (1 USDC = 1_000_000) */
+export type UsdcAmount = bigint & { readonly [usdcBrand]: true };
+
+/** Revenue split of a paid total */
+export interface RevenueSplit {
+  creator: UsdcAmount;
+  tokenHolders: UsdcAmount;
+  protocol: UsdcAmount;
+}
+
+const SCALE = 10n ** BigInt(USDC_DECIMALS);
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d*))?$/;
+
+/** Zero USDC */
+export const ZERO_USDC = 0n as UsdcAmount;
+
+/**
+ * Wrap a base-unit integer as a UsdcAmount
+ */
+export function usdcFromUnits(units: bigint | number): UsdcAmount {
+  if (typeof units === "number" && !Number.isSafeInteger(units)) {
+    throw new InvalidAmountError(String(units), "base units must be an integer");
+  }
+  const value = BigInt(units);
+  if (value < 0n) {
+    throw new InvalidAmountError(String(units), "amount cannot be negative");
+  }
+  return value as UsdcAmount;
+}
+
+/**
+ * Parse a decimal USDC string ("1", "0.05", "0.050000") exactly.
+ * Rejects negatives, exponents and more than 6 decimal places.
+ */
+export function parseUsdc(value: string): UsdcAmount {
+  const match = DECIMAL_PATTERN.exec(value.trim());
+  if (!match) {
+    throw new InvalidAmountError(value, "not a non-negative decimal");
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > USDC_DECIMALS) {
+    throw new InvalidAmountError(value, `more than ${USDC_DECIMALS} decimal places`);
+  }
+
+  return (BigInt(whole) * SCALE +
+    BigInt(fraction.padEnd(USDC_DECIMALS, "0") || "0")) as UsdcAmount;
+}
+
+/**
+ * Format as a fixed 6-decimal string ("0.050000")
+ */
+export function formatUsdc(amount: UsdcAmount): string {
+  const whole = amount / SCALE;
+  const fraction = (amount % SCALE).toString().padStart(USDC_DECIMALS, "0");
+  return `${whole}.${fraction}`;
+}
+
+export function addUsdc(a: UsdcAmount, b: UsdcAmount): UsdcAmount {
+  return (a + b) as UsdcAmount;
+}
+
+/**
+ * Subtract, throwing if the result would be negative
+ */
+export function subUsdc(a: UsdcAmount, b: UsdcAmount): UsdcAmount {
+  if (b > a) {
+    throw new InvalidAmountError(
+      `${formatUsdc(a)} - ${formatUsdc(b)}`,
+      "result would be negative"
+    );
+  }
+  return (a - b) as UsdcAmount;
+}
+
+/**
+ * Multiply by a whole count (e.g. segments × price)
+ */
+export function mulUsdc(amount: UsdcAmount, count: number | bigint): UsdcAmount {
+  return usdcFromUnits(amount * BigInt(count));
+}
+
+/**
+ * Split a paid total by REVENUE_SPLIT_BPS (70/20/10). Holder and protocol
+ * shares round down; the creator takes the remainder, so the parts always
+ * sum to the total.
+ */
+export function splitRevenue(total: UsdcAmount): RevenueSplit {
+  const tokenHolders = ((total * REVENUE_SPLIT_BPS.tokenHolders) / 10_000n) as UsdcAmount;
+  const protocol = ((total * REVENUE_SPLIT_BPS.protocol) / 10_000n) as UsdcAmount;
+  const creator = (total - tokenHolders - protocol) as UsdcAmount;
+  return { creator, tokenHolders, protocol };
+}